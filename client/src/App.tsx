@@ -10,6 +10,11 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import LandingPage from "@/pages/landing-page";
 import PendingApprovalPage from "@/pages/pending-approval";
+import AcceptInvitationPage from "@/pages/accept-invitation";
+import TwoFactorSetupPage from "@/pages/two-factor-setup";
+import VerifyEmailPage from "@/pages/verify-email";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
 
 // Dashboard Pages
 import OverviewPage from "@/pages/dashboard/overview";
@@ -26,6 +31,7 @@ import SettingsPage from "@/pages/dashboard/settings";
 import AdminDashboard from "@/pages/dashboard/admin/index";
 import AdminUsersPage from "@/pages/dashboard/admin/users";
 import AuditLogsPage from "@/pages/dashboard/admin/audit-logs";
+import AdminJobsPage from "@/pages/dashboard/admin/jobs";
 
 function Router() {
   return (
@@ -35,6 +41,7 @@ function Router() {
 
       {/* Pending Approval */}
       <Route path="/pending" component={PendingApprovalPage} />
+      <Route path="/two-factor-setup" component={TwoFactorSetupPage} />
 
       {/* Dashboard Routes */}
       <ProtectedRoute path="/dashboard" component={OverviewPage} />
@@ -50,10 +57,15 @@ function Router() {
       {/* Admin Routes - Order matters: most specific first */}
       <ProtectedRoute path="/dashboard/admin/users" component={AdminUsersPage} />
       <ProtectedRoute path="/dashboard/admin/audit-logs" component={AuditLogsPage} />
+      <ProtectedRoute path="/dashboard/admin/jobs" component={AdminJobsPage} />
       <ProtectedRoute path="/dashboard/admin" component={AdminDashboard} />
 
       {/* Auth */}
       <Route path="/auth" component={AuthPage} />
+      <Route path="/invite/:token" component={AcceptInvitationPage} />
+      <Route path="/verify-email/:token" component={VerifyEmailPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password/:token" component={ResetPasswordPage} />
 
       {/* 404 */}
       <Route component={NotFound} />
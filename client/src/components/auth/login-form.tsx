@@ -8,6 +8,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Loader2, Eye, EyeOff } from "lucide-react";
+import { Link } from "wouter";
+import TwoFactorForm from "./two-factor-form";
 
 const loginSchema = z.object({
   email: z.string().email("Por favor ingresa un correo electrónico válido"),
@@ -18,7 +20,7 @@ const loginSchema = z.object({
 type LoginData = z.infer<typeof loginSchema>;
 
 export default function LoginForm() {
-  const { loginMutation } = useAuth();
+  const { loginMutation, twoFactorPending } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
 
   const form = useForm<LoginData>({
@@ -37,6 +39,10 @@ export default function LoginForm() {
     });
   };
 
+  if (twoFactorPending) {
+    return <TwoFactorForm />;
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -118,8 +124,8 @@ export default function LoginForm() {
               </FormItem>
             )}
           />
-          <Button variant="link" className="px-0 text-primary hover:text-primary/80">
-            ¿Olvidaste tu contraseña?
+          <Button variant="link" className="px-0 text-primary hover:text-primary/80" asChild>
+            <Link href="/forgot-password">¿Olvidaste tu contraseña?</Link>
           </Button>
         </div>
 
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { TOTP_DIGITS } from "@shared/two-factor";
+
+/**
+ * Segundo paso del login: código de la app de autenticación o un código de recuperación
+ */
+export default function TwoFactorForm() {
+  const { verifyTwoFactorMutation, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate(code, {
+      onError: () => setCode(""),
+    });
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-start gap-3 rounded-lg bg-muted/50 p-4">
+        <ShieldCheck className="h-5 w-5 text-primary mt-0.5 shrink-0" />
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? "Ingresa uno de tus códigos de recuperación. Cada código solo se puede usar una vez."
+            : "Ingresa el código de 6 dígitos de tu app de autenticación."}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">
+          {useRecoveryCode ? "Código de recuperación" : "Código de verificación"}
+        </Label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={useRecoveryCode ? "XXXXX-XXXXX" : "000000"}
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          maxLength={useRecoveryCode ? 11 : TOTP_DIGITS}
+          className="h-12 text-center text-lg tracking-widest font-mono"
+          autoFocus
+          data-testid="input-two-factor-code"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full h-12 bg-primary hover:bg-primary/90 text-primary-foreground font-medium"
+        disabled={verifyTwoFactorMutation.isPending || !code.trim()}
+        data-testid="button-verify-two-factor"
+      >
+        {verifyTwoFactorMutation.isPending ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Verificando...
+          </>
+        ) : (
+          "Verificar"
+        )}
+      </Button>
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={toggleRecoveryCode}>
+          {useRecoveryCode ? "Usar código de la app" : "Usar un código de recuperación"}
+        </Button>
+        <Button type="button" variant="link" className="px-0 text-muted-foreground" onClick={cancelTwoFactor}>
+          Volver
+        </Button>
+      </div>
+    </form>
+  );
+}
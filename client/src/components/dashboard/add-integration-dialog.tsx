@@ -34,16 +34,19 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, CheckCircle } from "lucide-react";
 import { z } from "zod";
+import { ERP_INTEGRATION_TYPES, ERP_INTEGRATION_LABELS } from "@shared/erp-types";
 
 // Schema actualizado para flujo en 2 pasos
 const integrationSchema = z.object({
   name: z.string().min(1, "El nombre es requerido"),
-  integrationType: z.enum(["contifico"]),
+  integrationType: z.enum(ERP_INTEGRATION_TYPES),
   contificoEnv: z.enum(["test", "prod"]),
   contificoApiKeyTest: z.string().optional(),
   contificoApiKeyProd: z.string().optional(),
   contificoWarehousePrimary: z.string().optional(),
+  csvFilePath: z.string().optional(),
 }).refine((data) => {
+  if (data.integrationType !== "contifico") return true;
   // Validar que la API Key del entorno seleccionado esté presente
   if (data.contificoEnv === "test") {
     return data.contificoApiKeyTest && data.contificoApiKeyTest.trim() !== "";
@@ -53,6 +56,9 @@ const integrationSchema = z.object({
 }, {
   message: "API Key es requerida para el entorno seleccionado",
   path: ["contificoApiKeyTest"], // Path genérico para mostrar error
+}).refine((data) => data.integrationType !== "csv" || !!data.csvFilePath?.trim(), {
+  message: "La ruta del archivo CSV es requerida",
+  path: ["csvFilePath"],
 });
 
 type IntegrationFormData = z.infer<typeof integrationSchema>;
@@ -84,9 +90,13 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
       contificoApiKeyTest: "",
       contificoApiKeyProd: "",
       contificoWarehousePrimary: "global",
+      csvFilePath: "",
     },
   });
 
+  const integrationType = form.watch("integrationType");
+  const integrationLabel = ERP_INTEGRATION_LABELS[integrationType];
+
   // Mutation 1: Crear integración y probar conexión
   const createMutation = useMutation({
     mutationFn: async (data: IntegrationFormData) => {
@@ -96,13 +106,14 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
         prod: data.contificoEnv === 'prod' ? data.contificoApiKeyProd : ''
       };
 
+      const settings = data.integrationType === 'csv'
+        ? { file_path: data.csvFilePath?.trim() }
+        : { env: data.contificoEnv, api_keys: apiKeys };
+
       const payload = {
-        integrationType: 'contifico',
+        integrationType: data.integrationType,
         name: data.name,
-        settings: {
-          env: data.contificoEnv,
-          api_keys: apiKeys
-        }
+        settings
       };
 
       // Crear integración
@@ -118,7 +129,7 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
       const testResult = await testRes.json();
 
       if (!testResult.success) {
-        throw new Error(testResult.error || testResult.message || "Error al conectar con Contífico");
+        throw new Error(testResult.error || testResult.message || `Error al conectar con ${ERP_INTEGRATION_LABELS[data.integrationType]}`);
       }
 
       return {
@@ -217,7 +228,7 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
           </DialogTitle>
           <DialogDescription>
             {step === 'config' 
-              ? 'Configura la conexión con Contífico'
+              ? `Configura la conexión con ${integrationLabel}`
               : 'Elige la bodega principal para sincronización de inventario'
             }
           </DialogDescription>
@@ -234,7 +245,7 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
                   <FormItem>
                     <FormLabel>Nombre</FormLabel>
                     <FormControl>
-                      <Input placeholder="Mi integración Contífico" {...field} />
+                      <Input placeholder={`Mi integración ${integrationLabel}`} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -254,7 +265,11 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="contifico">Contífico ERP</SelectItem>
+                        {ERP_INTEGRATION_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {ERP_INTEGRATION_LABELS[type]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -262,43 +277,65 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="contificoEnv"
-                render={({ field }) => (
-                  <FormItem className="space-y-3">
-                    <FormLabel>Entorno</FormLabel>
-                    <FormControl>
-                      <RadioGroup
-                        onValueChange={field.onChange}
-                        value={field.value}
-                        className="flex flex-col space-y-1"
-                      >
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="test" />
-                          </FormControl>
-                          <FormLabel className="font-normal">
-                            Pruebas (Test)
-                          </FormLabel>
-                        </FormItem>
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="prod" />
-                          </FormControl>
-                          <FormLabel className="font-normal">
-                            Producción
-                          </FormLabel>
-                        </FormItem>
-                      </RadioGroup>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {integrationType === "csv" && (
+                <FormField
+                  control={form.control}
+                  name="csvFilePath"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Archivo CSV</FormLabel>
+                      <FormControl>
+                        <Input placeholder="inventario.csv" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Ruta relativa al directorio de archivos CSV de tu cuenta en el servidor. Columnas: sku, name, warehouse, stock, price
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {integrationType === "contifico" && (
+                <FormField
+                  control={form.control}
+                  name="contificoEnv"
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      <FormLabel>Entorno</FormLabel>
+                      <FormControl>
+                        <RadioGroup
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          className="flex flex-col space-y-1"
+                        >
+                          <FormItem className="flex items-center space-x-3 space-y-0">
+                            <FormControl>
+                              <RadioGroupItem value="test" />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Pruebas (Test)
+                            </FormLabel>
+                          </FormItem>
+                          <FormItem className="flex items-center space-x-3 space-y-0">
+                            <FormControl>
+                              <RadioGroupItem value="prod" />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Producción
+                            </FormLabel>
+                          </FormItem>
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+              )}
 
               {/* Mostrar solo el campo de API Key del entorno seleccionado */}
-              {form.watch("contificoEnv") === "test" && (
+              {integrationType === "contifico" && form.watch("contificoEnv") === "test" && (
                 <FormField
                   control={form.control}
                   name="contificoApiKeyTest"
@@ -321,7 +358,7 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
                 />
               )}
 
-              {form.watch("contificoEnv") === "prod" && (
+              {integrationType === "contifico" && form.watch("contificoEnv") === "prod" && (
                 <FormField
                   control={form.control}
                   name="contificoApiKeyProd"
@@ -372,7 +409,7 @@ export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialo
                 <CheckCircle className="h-4 w-4" />
                 <AlertTitle>Conexión Exitosa</AlertTitle>
                 <AlertDescription>
-                  Se encontraron {warehouses.length} bodegas disponibles en tu cuenta de Contífico
+                  Se encontraron {warehouses.length} bodegas disponibles en {integrationLabel}
                 </AlertDescription>
               </Alert>
 
@@ -31,8 +31,10 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cancelSyncRun, JobCancelledError, waitForSyncRun } from "@/lib/jobs";
+import type { SyncRunSnapshot } from "@shared/sync-progress";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Trash2, Database, Plug, RefreshCw } from "lucide-react";
+import { Loader2, Trash2, Database, Plug, RefreshCw, Eye, ShieldAlert } from "lucide-react";
 import { z } from "zod";
 import { Store } from "@shared/schema";
 import {
@@ -46,6 +48,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { SyncProgressDialog } from "./sync-progress-dialog";
+import { PullPlanDialog } from "./pull-plan-dialog";
+import { isPullPlanExpired, type PullPlanStatus } from "@shared/pull-plans";
 
 // Form schema
 const editStoreFormSchema = z
@@ -121,6 +125,10 @@ export function EditStoreDialog({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [syncDialogOpen, setSyncDialogOpen] = useState(false);
   const [syncResult, setSyncResult] = useState<any>(null);
+  const [syncProgress, setSyncProgress] = useState<SyncRunSnapshot | null>(null);
+  const [syncJobId, setSyncJobId] = useState<number | null>(null);
+  const [planId, setPlanId] = useState<number | null>(null);
+  const [planDialogOpen, setPlanDialogOpen] = useState(false);
 
   const form = useForm<EditStoreFormData>({
     resolver: zodResolver(editStoreFormSchema),
@@ -151,6 +159,22 @@ export function EditStoreDialog({
     enabled: !!store?.id && open,
   });
 
+  // Planes de Pull de la tienda (vistas previas y Pulls detenidos por la política de aprobación)
+  const { data: plansData } = useQuery<{
+    plans: Array<{ id: number; status: PullPlanStatus; expiresAt: string }>;
+  }>({
+    queryKey: [`/api/sync/plans?storeId=${store?.id}`],
+    enabled: !!store?.id && open,
+  });
+  const pendingApprovalPlan = plansData?.plans.find(
+    (plan) => plan.status === "pending_approval" && !isPullPlanExpired(plan),
+  );
+
+  const openPlan = (id: number) => {
+    setPlanId(id);
+    setPlanDialogOpen(true);
+  };
+
   // Update form values when store changes
   useEffect(() => {
     if (store && open) {
@@ -367,14 +391,34 @@ export function EditStoreDialog({
         `/api/sync/pull/${store.id}/${integrationId}`,
         { dryRun: false, limit: 1000 },
       );
-      return res.json();
+
+      // El Pull se ejecuta en segundo plano: seguir su progreso hasta que termine
+      const { jobId } = await res.json();
+      setSyncJobId(jobId);
+      const job = await waitForSyncRun(jobId, setSyncProgress);
+      return { result: job.result };
     },
     onMutate: () => {
       // ✅ Abrir modal al iniciar
       setSyncDialogOpen(true);
       setSyncResult(null);
+      setSyncProgress(null);
+      setSyncJobId(null);
+      cancelSyncMutation.reset();
     },
     onSuccess: (data) => {
+      // Detenido por la política de aprobación: revisar el plan en lugar del resultado
+      if (data.result.requiresApproval && data.result.planId) {
+        setSyncDialogOpen(false);
+        openPlan(data.result.planId);
+        queryClient.invalidateQueries({ queryKey: [`/api/sync/plans?storeId=${store?.id}`] });
+        toast({
+          title: "Sincronización pendiente de aprobación",
+          description: "Dejaría en cero más productos de los que permite tu política; revisa los cambios",
+        });
+        return;
+      }
+
       // ✅ Guardar resultados
       setSyncResult(data.result);
 
@@ -389,6 +433,23 @@ export function EditStoreDialog({
       });
     },
     onError: (error: Error) => {
+      // Cancelada: mostrar lo procesado hasta entonces
+      if (error instanceof JobCancelledError) {
+        const partial = error.job.result;
+        setSyncResult({
+          success: partial?.success ?? 0,
+          failed: partial?.failed ?? 0,
+          skipped: partial?.skipped ?? 0,
+          errors: partial?.errors ?? [],
+          cancelled: true,
+        });
+        toast({
+          title: "Sincronización cancelada",
+          description: "Los productos ya procesados se conservan; puedes reanudarla desde el historial",
+        });
+        return;
+      }
+
       // ✅ Guardar error en formato de resultado
       setSyncResult({
         success: 0,
@@ -405,6 +466,44 @@ export function EditStoreDialog({
     },
   });
 
+  // Vista previa: calcula los cambios sin escribir en la tienda y abre el plan
+  const previewMutation = useMutation({
+    mutationFn: async (integrationId: number) => {
+      if (!store?.id) throw new Error("No store selected");
+
+      const res = await apiRequest("POST", `/api/sync/pull/${store.id}/${integrationId}/preview`, {});
+      const { jobId } = await res.json();
+      const job = await waitForSyncRun(jobId, () => {});
+      return job.result as { planId: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/sync/plans?storeId=${store?.id}`] });
+      openPlan(result.planId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error en la vista previa",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Cancelar el Pull en curso (se detiene al terminar el lote actual)
+  const cancelSyncMutation = useMutation({
+    mutationFn: async () => {
+      if (!syncJobId) throw new Error("La sincronización aún no ha comenzado");
+      await cancelSyncRun(syncJobId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cancelar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: EditStoreFormData) => {
     updateStoreMutation.mutate(data);
   };
@@ -671,6 +770,23 @@ export function EditStoreDialog({
                   </p>
                 </div>
 
+                {pendingApprovalPlan && (
+                  <Alert variant="destructive">
+                    <ShieldAlert className="h-4 w-4" />
+                    <AlertDescription className="flex items-center justify-between gap-3">
+                      <span>Hay una sincronización detenida esperando aprobación</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openPlan(pendingApprovalPlan.id)}
+                      >
+                        Revisar
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {integrations.length === 0 ? (
                   <Alert>
                     <AlertDescription>
@@ -743,6 +859,23 @@ export function EditStoreDialog({
                                     <RefreshCw className="h-4 w-4" />
                                   )}
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    previewMutation.mutate(integration.id)
+                                  }
+                                  disabled={
+                                    previewMutation.isPending || !link.isActive
+                                  }
+                                  title="Vista previa de la sincronización"
+                                >
+                                  {previewMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Eye className="h-4 w-4" />
+                                  )}
+                                </Button>
                                 <Button
                                   variant="outline"
                                   size="sm"
@@ -865,6 +998,15 @@ export function EditStoreDialog({
         onOpenChange={setSyncDialogOpen}
         syncResult={syncResult}
         isLoading={syncNowMutation.isPending}
+        progress={syncProgress}
+        onCancel={syncJobId ? () => cancelSyncMutation.mutate() : undefined}
+        isCancelling={cancelSyncMutation.isPending || cancelSyncMutation.isSuccess}
+      />
+
+      <PullPlanDialog
+        planId={planId}
+        open={planDialogOpen}
+        onOpenChange={setPlanDialogOpen}
       />
     </>
   );
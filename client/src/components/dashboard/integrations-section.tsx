@@ -1,12 +1,13 @@
 import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plug, Plus, Settings, Trash2, RefreshCw, CheckCircle, XCircle, Database, Package } from "lucide-react";
+import { Plug, Plus, Settings, Trash2, RefreshCw, CheckCircle, XCircle, Database, Package, FileSpreadsheet } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { AddIntegrationDialog } from "./add-integration-dialog";
 import { EditIntegrationDialog } from "./edit-integration-dialog";
+import { ERP_INTEGRATION_LABELS } from "@shared/erp-types";
 
 interface Integration {
   id: number;
@@ -85,6 +86,8 @@ export default function IntegrationsSection() {
     switch (type) {
       case 'contifico':
         return Database;
+      case 'csv':
+        return FileSpreadsheet;
       default:
         return Plug;
     }
@@ -93,7 +96,8 @@ export default function IntegrationsSection() {
   const getIntegrationTypeLabel = (type: string) => {
     switch (type) {
       case 'contifico':
-        return 'Contífico ERP';
+      case 'csv':
+        return ERP_INTEGRATION_LABELS[type];
       default:
         return type.charAt(0).toUpperCase() + type.slice(1);
     }
@@ -204,6 +208,12 @@ export default function IntegrationsSection() {
                           )}
                         </>
                       )}
+                      {integration.integrationType === 'csv' && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Archivo:</span>
+                          <span className="font-medium">{integration.settings?.file_path}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -22,6 +22,8 @@ import { Store as StoreType } from "@shared/schema";
 import { NotificationsDropdown } from "@/components/notifications-dropdown";
 import { useLocation } from "wouter";
 import { formatRelativeDate, formatRelativeCompact } from "@/lib/dateFormatters";
+import { formatSyncProgress, waitForSyncRun } from "@/lib/jobs";
+import type { SyncRunSnapshot } from "@shared/sync-progress";
 import {
   Dialog,
   DialogContent,
@@ -39,6 +41,8 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
+import { ERP_INTEGRATION_TYPES } from "@shared/erp-types";
+import { PullPlanDialog } from "./pull-plan-dialog";
 
 interface SyncStats {
   metrics: {
@@ -80,6 +84,8 @@ export default function OverviewSection() {
   const [syncDialogOpen, setSyncDialogOpen] = useState(false);
   const [selectedStoreId, setSelectedStoreId] = useState<string>("");
   const [isSyncing, setIsSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncRunSnapshot | null>(null);
+  const [heldPlanId, setHeldPlanId] = useState<number | null>(null); // Pull detenido por la política de aprobación
 
   // Fetch stores data
   const { data: stores = [], isLoading: storesLoading } = useQuery<StoreType[]>(
@@ -102,11 +108,9 @@ export default function OverviewSection() {
     enabled: !!selectedStoreId,
   });
 
-  // Find Contífico integration
-  const contificoIntegration = integrationsData?.find(
-    (integration: any) =>
-      integration.integration?.name?.toLowerCase().includes("contífico") ||
-      integration.integration?.name?.toLowerCase().includes("contifico")
+  // Find ERP integration (Contífico or another registered ERP)
+  const contificoIntegration = integrationsData?.find((integration: any) =>
+    (ERP_INTEGRATION_TYPES as readonly string[]).includes(integration.integration?.integrationType)
   );
 
   // Fetch sync stats
@@ -198,6 +202,7 @@ export default function OverviewSection() {
     }
 
     setIsSyncing(true);
+    setSyncProgress(null);
     try {
       const res = await fetch(
         `/api/sync/pull/${selectedStoreId}/${contificoIntegration.integrationId}`,
@@ -219,7 +224,9 @@ export default function OverviewSection() {
         throw new Error(error.message || "Error al sincronizar");
       }
 
-      const data = await res.json();
+      // El Pull se ejecuta en segundo plano: seguir su progreso hasta que termine
+      const { jobId } = await res.json();
+      const data = { result: (await waitForSyncRun(jobId, setSyncProgress)).result };
 
       // Invalidate and refetch queries to refresh data immediately
       await Promise.all([
@@ -231,10 +238,18 @@ export default function OverviewSection() {
       // Force refetch stores to ensure UI updates
       await queryClient.refetchQueries({ queryKey: ["/api/stores"] });
 
-      toast({
-        title: "Sincronización completada",
-        description: `${data.result.success} productos actualizados, ${data.result.skipped} omitidos, ${data.result.failed} fallidos`,
-      });
+      if (data.result.requiresApproval && data.result.planId) {
+        setHeldPlanId(data.result.planId);
+        toast({
+          title: "Sincronización pendiente de aprobación",
+          description: "Dejaría en cero más productos de los que permite tu política; revisa los cambios",
+        });
+      } else {
+        toast({
+          title: "Sincronización completada",
+          description: `${data.result.success} productos actualizados, ${data.result.skipped} omitidos, ${data.result.failed} fallidos`,
+        });
+      }
 
       setSyncDialogOpen(false);
       setSelectedStoreId("");
@@ -273,6 +288,7 @@ export default function OverviewSection() {
   const getSyncTypeLabel = (syncType: string) => {
     if (syncType === 'pull') return 'Desde Contífico';
     if (syncType === 'push') return 'A Contífico';
+    if (syncType === 'pull_rollback') return 'Stock restaurado';
     return syncType;
   };
 
@@ -311,6 +327,13 @@ export default function OverviewSection() {
           bgColor: 'bg-blue-500/10',
           label: 'En progreso'
         };
+      case 'cancelled':
+        return {
+          icon: AlertCircle,
+          color: 'text-gray-600',
+          bgColor: 'bg-gray-500/10',
+          label: 'Cancelado'
+        };
       default:
         return {
           icon: Clock,
@@ -603,7 +626,7 @@ export default function OverviewSection() {
               {isSyncing ? (
                 <>
                   <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                  Sincronizando...
+                  {formatSyncProgress(syncProgress)}
                 </>
               ) : (
                 <>
@@ -615,6 +638,12 @@ export default function OverviewSection() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <PullPlanDialog
+        planId={heldPlanId}
+        open={heldPlanId !== null}
+        onOpenChange={(open) => !open && setHeldPlanId(null)}
+      />
     </div>
   );
 }
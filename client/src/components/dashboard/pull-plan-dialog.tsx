@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, Loader2, ShieldAlert, CheckCircle2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatSyncProgress, waitForSyncRun } from "@/lib/jobs";
+import { useToast } from "@/hooks/use-toast";
+import type { SyncRunSnapshot } from "@shared/sync-progress";
+import {
+  PULL_PLAN_STATUS_LABELS,
+  STOCK_CHANGE_WARNING_LABELS,
+  type PlannedStockChange,
+  type PullPlanStatus,
+  type PullPlanSummary,
+  type StockChangeWarning,
+} from "@shared/pull-plans";
+
+interface PullPlanDetail {
+  id: number;
+  storeId: number;
+  status: PullPlanStatus;
+  trigger: "manual" | "schedule";
+  summary: PullPlanSummary;
+  requiresApproval: boolean;
+  approvedAt: string | null;
+  expiresAt: string;
+  expired: boolean;
+  changes: PlannedStockChange[];
+}
+
+interface PullPlanDialogProps {
+  planId: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WARNING_COLORS: Record<StockChangeWarning, string> = {
+  zeroed: "bg-red-500",
+  large_decrease: "bg-orange-500",
+  large_increase: "bg-blue-500",
+};
+
+// Filas visibles a la vez; el plan completo puede tener miles de SKUs
+const MAX_VISIBLE_CHANGES = 200;
+
+/**
+ * Vista previa de un Pull: cada SKU cuyo stock cambiaría, con advertencias,
+ * y las acciones aprobar / aplicar / descartar
+ */
+export function PullPlanDialog({ planId, open, onOpenChange }: PullPlanDialogProps) {
+  const { toast } = useToast();
+  const [onlyWarnings, setOnlyWarnings] = useState(false);
+  const [applyProgress, setApplyProgress] = useState<SyncRunSnapshot | null>(null);
+
+  const { data, isLoading } = useQuery<{ plan: PullPlanDetail }>({
+    queryKey: [`/api/sync/plans/${planId}`],
+    enabled: open && planId !== null,
+  });
+  const plan = data?.plan;
+
+  // El plan y los listados de planes de la tienda
+  const invalidatePlans = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/sync/plans"),
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sync/plans/${planId}/approve`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Plan aprobado", description: "Ya puedes aplicar los cambios" });
+      invalidatePlans();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al aprobar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sync/plans/${planId}/apply`, {});
+      const { jobId } = await res.json();
+      const job = await waitForSyncRun(jobId, setApplyProgress);
+      return job.result;
+    },
+    onMutate: () => setApplyProgress(null),
+    onSuccess: (result) => {
+      toast({
+        title: "Plan aplicado",
+        description: `${result.success} productos actualizados${result.skipped > 0 ? `, ${result.skipped} omitidos (stock cambiado desde la vista previa)` : ""}${result.failed > 0 ? `, ${result.failed} fallaron` : ""}`,
+      });
+      invalidatePlans();
+      queryClient.invalidateQueries({ queryKey: ["/api/stores"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al aplicar", description: error.message, variant: "destructive" });
+      invalidatePlans();
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sync/plans/${planId}/discard`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Plan descartado" });
+      invalidatePlans();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al descartar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const changes = (plan?.changes || []).filter((change) => !onlyWarnings || change.warning);
+  const isOpenPlan = plan && !plan.expired && (plan.status === "pending_approval" || plan.status === "ready");
+  const isBusy = approveMutation.isPending || applyMutation.isPending || discardMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !applyMutation.isPending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Vista previa de sincronización</DialogTitle>
+          <DialogDescription>
+            Cambios de stock que se aplicarán en la tienda. Los productos cuyo stock cambie antes de
+            aplicar el plan se omiten.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !plan ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Badge variant="outline">{PULL_PLAN_STATUS_LABELS[plan.status]}</Badge>
+
+            {/* Resumen */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+              <div className="rounded-lg border p-3">
+                <div className="text-2xl font-bold">{plan.summary.changed}</div>
+                <div className="text-xs text-muted-foreground">
+                  Cambios de {plan.summary.catalogSize} productos
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-2xl font-bold text-green-600">{plan.summary.increases}</div>
+                <div className="text-xs text-muted-foreground">Suben</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-2xl font-bold text-orange-600">{plan.summary.decreases}</div>
+                <div className="text-xs text-muted-foreground">Bajan</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-2xl font-bold text-red-600">{plan.summary.zeroed}</div>
+                <div className="text-xs text-muted-foreground">
+                  Quedan en cero ({plan.summary.zeroedPercent}%)
+                </div>
+              </div>
+            </div>
+
+            {plan.status === "pending_approval" && (
+              <Alert variant="destructive">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertDescription>
+                  Este plan dejaría en cero el {plan.summary.zeroedPercent}% del catálogo, más de lo que
+                  permite la política de tu empresa. Revisa los cambios y apruébalos para poder aplicarlos.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {plan.expired && (plan.status === "pending_approval" || plan.status === "ready") && (
+              <Alert>
+                <AlertDescription>
+                  El plan expiró: el stock pudo cambiar desde la vista previa. Genera una nueva vista previa.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch id="only-warnings" checked={onlyWarnings} onCheckedChange={setOnlyWarnings} />
+              <Label htmlFor="only-warnings">
+                Solo cambios grandes ({plan.summary.largeChanges})
+              </Label>
+            </div>
+
+            {/* Detalle por SKU */}
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Producto</TableHead>
+                    <TableHead className="text-right">Stock</TableHead>
+                    <TableHead>Advertencia</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                        {plan.summary.changed === 0 ? "El stock ya está al día, no hay cambios" : "Sin cambios grandes"}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    changes.slice(0, MAX_VISIBLE_CHANGES).map((change) => (
+                      <TableRow key={change.productId}>
+                        <TableCell className="font-mono text-sm">{change.sku}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm" title={change.productName || ""}>
+                          {change.productName || "-"}
+                          {change.locations && (
+                            <div className="text-xs text-muted-foreground">
+                              {change.locations
+                                .map((l) => `${l.locationName || l.locationId}: ${l.before}→${l.after}`)
+                                .join(", ")}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm whitespace-nowrap">
+                          {change.stockBefore}
+                          <ArrowRight className="inline h-3 w-3 mx-1" />
+                          {change.stockAfter}
+                        </TableCell>
+                        <TableCell>
+                          {change.warning && (
+                            <Badge className={WARNING_COLORS[change.warning]}>
+                              {STOCK_CHANGE_WARNING_LABELS[change.warning]}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {changes.length > MAX_VISIBLE_CHANGES && (
+              <p className="text-xs text-muted-foreground">
+                Mostrando {MAX_VISIBLE_CHANGES} de {changes.length} cambios
+              </p>
+            )}
+          </div>
+        )}
+
+        {isOpenPlan && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => discardMutation.mutate()} disabled={isBusy}>
+              Descartar
+            </Button>
+            {plan.status === "pending_approval" ? (
+              <Button onClick={() => approveMutation.mutate()} disabled={isBusy}>
+                {approveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ShieldAlert className="mr-2 h-4 w-4" />
+                )}
+                Aprobar cambios
+              </Button>
+            ) : (
+              <Button onClick={() => applyMutation.mutate()} disabled={isBusy || plan.summary.changed === 0}>
+                {applyMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {formatSyncProgress(applyProgress)}
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Aplicar {plan.summary.changed} cambios
+                  </>
+                )}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
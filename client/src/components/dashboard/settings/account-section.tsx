@@ -3,11 +3,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Save, Trash2 } from "lucide-react";
+import { Loader2, MailCheck, MailWarning, Save, ShieldAlert, Trash2 } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,13 +20,24 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from "@shared/sync-schedules";
+import { getPullApprovalPolicy, type PullApprovalPolicy } from "@shared/pull-plans";
 
 interface Tenant {
   id: number;
   name: string;
   subdomain: string;
+  timezone: string;
   planType: string;
   status: string;
+  settings: unknown;
 }
 
 export default function AccountSection() {
@@ -36,6 +48,8 @@ export default function AccountSection() {
   const [userName, setUserName] = useState(user?.name || "");
   const [userEmail, setUserEmail] = useState(user?.email || "");
   const [tenantName, setTenantName] = useState("");
+  const [tenantTimezone, setTenantTimezone] = useState(DEFAULT_TIMEZONE);
+  const [approvalPolicy, setApprovalPolicy] = useState<PullApprovalPolicy>(getPullApprovalPolicy(null));
 
   // Fetch tenant data
   const { data: tenant, isLoading: tenantLoading } = useQuery<Tenant>({
@@ -46,9 +60,32 @@ export default function AccountSection() {
   useEffect(() => {
     if (tenant) {
       setTenantName(tenant.name);
+      setTenantTimezone(tenant.timezone || DEFAULT_TIMEZONE);
+      setApprovalPolicy(getPullApprovalPolicy(tenant.settings));
     }
   }, [tenant]);
 
+  // Resend the email verification link
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/verify-email/resend");
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Correo enviado",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al enviar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update user mutation
   const updateUserMutation = useMutation({
     mutationFn: async (data: { name: string; email: string }) => {
@@ -59,7 +96,7 @@ export default function AccountSection() {
     onSuccess: (data) => {
       toast({
         title: "Usuario actualizado",
-        description: "Tu información personal ha sido actualizada correctamente",
+        description: data.message || "Tu información personal ha sido actualizada correctamente",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
@@ -74,7 +111,7 @@ export default function AccountSection() {
 
   // Update tenant mutation
   const updateTenantMutation = useMutation({
-    mutationFn: async (data: { name: string }) => {
+    mutationFn: async (data: { name: string; timezone: string }) => {
       const res = await apiRequest("PUT", `/api/tenant/${tenant?.id}`, data);
       const result = await res.json();
       return result;
@@ -95,6 +132,31 @@ export default function AccountSection() {
     },
   });
 
+  // Política de aprobación de sincronizaciones (tenants.settings.pullApproval)
+  const updateApprovalPolicyMutation = useMutation({
+    mutationFn: async (pullApproval: PullApprovalPolicy) => {
+      const res = await apiRequest("PUT", `/api/tenant/${tenant?.id}`, {
+        name: tenant?.name,
+        pullApproval,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Política actualizada",
+        description: "La política de aprobación de sincronizaciones se ha guardado",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant/current"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al actualizar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete account mutation
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
@@ -142,7 +204,7 @@ export default function AccountSection() {
       });
       return;
     }
-    updateTenantMutation.mutate({ name: tenantName });
+    updateTenantMutation.mutate({ name: tenantName, timezone: tenantTimezone });
   };
 
   const handleDeleteAccount = () => {
@@ -187,6 +249,26 @@ export default function AccountSection() {
               onChange={(e) => setUserEmail(e.target.value)}
               placeholder="juan@empresa.com"
             />
+            {user?.emailVerified ? (
+              <p className="flex items-center gap-1 text-xs text-green-600">
+                <MailCheck className="h-3 w-3" />
+                Correo verificado
+              </p>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-amber-600">
+                <MailWarning className="h-3 w-3" />
+                <span>Tu correo no está verificado.</span>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => resendVerificationMutation.mutate()}
+                  disabled={resendVerificationMutation.isPending}
+                >
+                  Reenviar enlace de verificación
+                </Button>
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -256,6 +338,25 @@ export default function AccountSection() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Zona Horaria</Label>
+            <Select value={tenantTimezone} onValueChange={setTenantTimezone}>
+              <SelectTrigger id="timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMEZONE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Las programaciones de sincronización se evalúan en esta zona horaria
+            </p>
+          </div>
+
           <Button
             onClick={handleSaveTenant}
             disabled={updateTenantMutation.isPending}
@@ -276,6 +377,65 @@ export default function AccountSection() {
         </CardContent>
       </Card>
 
+      {/* Sync approval policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Aprobación de Sincronizaciones
+          </CardTitle>
+          <CardDescription>
+            Detén las sincronizaciones que dejarían en cero una parte grande del catálogo hasta que alguien revise y apruebe los cambios
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="approval-enabled">Requerir aprobación</Label>
+            <Switch
+              id="approval-enabled"
+              checked={approvalPolicy.enabled}
+              onCheckedChange={(enabled) => setApprovalPolicy({ ...approvalPolicy, enabled })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="approval-percent">Máximo de productos que pueden quedar en cero (%)</Label>
+            <Input
+              id="approval-percent"
+              type="number"
+              min={0}
+              max={100}
+              value={approvalPolicy.maxZeroedPercent}
+              onChange={(e) =>
+                setApprovalPolicy({ ...approvalPolicy, maxZeroedPercent: Number(e.target.value) })
+              }
+              disabled={!approvalPolicy.enabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              Si una sincronización dejaría en cero más de este porcentaje del catálogo, se detiene y queda pendiente de aprobación
+            </p>
+          </div>
+
+          <Button
+            onClick={() => updateApprovalPolicyMutation.mutate(approvalPolicy)}
+            disabled={updateApprovalPolicyMutation.isPending}
+            className="w-full sm:w-auto"
+          >
+            {updateApprovalPolicyMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Guardando...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                Guardar Política
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Delete Account */}
       <Card>
         <CardHeader>
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@shared/api-keys";
+import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+
+interface ApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "stores:read": "Tiendas (lectura)",
+  "stores:write": "Tiendas (escritura)",
+  "sync:read": "Sincronizaciones (lectura)",
+  "sync:write": "Sincronizaciones (ejecutar)",
+  "movements:read": "Movimientos (lectura)",
+  "movements:write": "Movimientos (reintentar)",
+  "unmapped_skus:read": "SKUs no mapeados (lectura)",
+  "unmapped_skus:write": "SKUs no mapeados (resolver)",
+};
+
+export default function ApiKeysSection() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["stores:read", "sync:read"]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKey[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; scopes: ApiKeyScope[] }) => {
+      const res = await apiRequest("POST", "/api/api-keys", data);
+      return res.json();
+    },
+    onSuccess: (data: { key: string }) => {
+      setCreatedKey(data.key);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al crear API key",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: number) => {
+      const res = await apiRequest("DELETE", `/api/api-keys/${keyId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "API key revocada",
+        description: "La key dejó de funcionar inmediatamente",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al revocar API key",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = () => {
+    if (!name.trim() || scopes.length === 0) {
+      toast({
+        title: "Campos requeridos",
+        description: "Ingresa un nombre y selecciona al menos un permiso",
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate({ name: name.trim(), scopes });
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({ title: "Copiada", description: "API key copiada al portapapeles" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Keys</CardTitle>
+        <CardDescription>
+          Accede a la API de G4 Hub desde tus propios scripts enviando el header <code>X-API-Key</code>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdKey && (
+          <div className="rounded-lg border border-primary/50 bg-primary/5 p-4 space-y-2">
+            <p className="text-sm font-medium">Guarda esta API key ahora, no podrás volver a verla:</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs break-all bg-muted p-2 rounded">{createdKey}</code>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+              Listo
+            </Button>
+          </div>
+        )}
+
+        {/* Create key */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Nombre</Label>
+            <Input
+              id="api-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ej: Script de reportes"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Permisos</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  {SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={createMutation.isPending} className="w-full sm:w-auto">
+            {createMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Creando...
+              </>
+            ) : (
+              <>
+                <Plus className="mr-2 h-4 w-4" />
+                Crear API Key
+              </>
+            )}
+          </Button>
+        </div>
+
+        {/* Existing keys */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <div className="text-center py-8">
+            <KeyRound className="h-12 w-12 mx-auto mb-3 text-muted-foreground opacity-20" />
+            <p className="text-muted-foreground">No tienes API keys creadas</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex items-center justify-between p-4 rounded-lg border border-border"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-foreground truncate">{apiKey.name}</p>
+                    <code className="text-xs text-muted-foreground">{apiKey.keyPrefix}…</code>
+                    {apiKey.revokedAt && (
+                      <Badge variant="destructive" className="text-xs">
+                        Revocada
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="text-xs">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Último uso: {apiKey.lastUsedAt ? `${formatEcuadorDateTime(apiKey.lastUsedAt)} (${apiKey.lastUsedIp || "IP desconocida"})` : "Nunca"}
+                  </p>
+                </div>
+                {!apiKey.revokedAt && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revocar API key</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Los scripts que usen "{apiKey.name}" dejarán de funcionar inmediatamente.
+                          Esta acción no se puede deshacer.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => revokeMutation.mutate(apiKey.id)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Revocar
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
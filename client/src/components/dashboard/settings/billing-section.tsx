@@ -4,7 +4,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Loader2, Check, Zap, Store, Package, TrendingUp } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Store as StoreType } from "@shared/schema";
+import { PLANS as plans } from "@shared/plans-config";
 
 interface Tenant {
   id: number;
@@ -14,65 +14,23 @@ interface Tenant {
   status: string;
 }
 
-const plans = [
-  {
-    name: "Starter",
-    id: "starter",
-    price: "$15",
-    priceMonthly: "$18",
-    description: "Perfecto para empezar",
-    features: [
-      "1 tienda conectada",
-      "50 productos sincronizados",
-      "1,000 sincronizaciones/mes",
-      "Soporte por email",
-    ],
-    limits: {
-      stores: 1,
-      products: 50,
-      syncs: 1000,
-    },
-  },
-  {
-    name: "Professional",
-    id: "professional",
-    price: "$25",
-    priceMonthly: "$35",
-    description: "Para negocios en crecimiento",
-    features: [
-      "Hasta 3 tiendas conectadas",
-      "500 productos sincronizados",
-      "10,000 sincronizaciones/mes",
-      "Soporte prioritario",
-    ],
-    limits: {
-      stores: 3,
-      products: 500,
-      syncs: 10000,
-    },
-    popular: true,
-  },
-  {
-    name: "Enterprise",
-    id: "enterprise",
-    price: "Contactar",
-    priceMonthly: "Contactar",
-    description: "Para grandes empresas",
-    features: [
-      "Tiendas ilimitadas",
-      "Productos ilimitados",
-      "Sincronizaciones ilimitadas",
-      "Soporte 24/7",
-      "Manager dedicado",
-      "SLA personalizado",
-    ],
-    limits: {
-      stores: Infinity,
-      products: Infinity,
-      syncs: Infinity,
-    },
-  },
-];
+interface QuotaUsage {
+  used: number;
+  limit: number | null; // null = ilimitado
+  remaining: number | null;
+  percentage: number;
+}
+
+interface TenantUsage {
+  planType: string;
+  planName: string;
+  period: { start: string; end: string };
+  stores: QuotaUsage;
+  products: QuotaUsage;
+  syncs: QuotaUsage;
+}
+
+const formatLimit = (limit: number | null) => (limit === null ? "∞" : limit.toLocaleString());
 
 export default function BillingSection() {
   // Fetch tenant data
@@ -80,42 +38,14 @@ export default function BillingSection() {
     queryKey: ["/api/tenant/current"],
   });
 
-  // Fetch stores for usage calculation
-  const { data: stores = [], isLoading: storesLoading } = useQuery<StoreType[]>({
-    queryKey: ["/api/stores"],
-  });
-
-  // Fetch sync stats for usage calculation (simplified - needs backend endpoint)
-  const { data: syncStats } = useQuery({
-    queryKey: ["/api/sync/stats"],
-    queryFn: async () => {
-      const res = await fetch("/api/sync/stats?days=30", {
-        credentials: "include",
-      });
-      if (!res.ok) throw new Error("Error al cargar estadísticas");
-      return res.json();
-    },
+  // Fetch plan usage computed server-side
+  const { data: usage, isLoading: usageLoading } = useQuery<TenantUsage>({
+    queryKey: ["/api/tenant/usage"],
   });
 
   const currentPlan = plans.find((p) => p.id === tenant?.planType) || plans[0];
 
-  // Calculate usage
-  const storesCount = stores.length;
-  const productsCount = stores.reduce((total, store) => total + (store.productsCount || 0), 0);
-  const syncsCount = syncStats?.metrics?.totalSyncs || 0;
-
-  // Calculate percentages
-  const storesPercentage = currentPlan.limits.stores === Infinity
-    ? 0
-    : Math.min((storesCount / currentPlan.limits.stores) * 100, 100);
-  const productsPercentage = currentPlan.limits.products === Infinity
-    ? 0
-    : Math.min((productsCount / currentPlan.limits.products) * 100, 100);
-  const syncsPercentage = currentPlan.limits.syncs === Infinity
-    ? 0
-    : Math.min((syncsCount / currentPlan.limits.syncs) * 100, 100);
-
-  if (tenantLoading || storesLoading) {
+  if (tenantLoading || usageLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -183,11 +113,11 @@ export default function BillingSection() {
                 <span className="font-medium">Tiendas Conectadas</span>
               </div>
               <span className="text-muted-foreground">
-                {storesCount} / {currentPlan.limits.stores === Infinity ? "∞" : currentPlan.limits.stores}
+                {(usage?.stores.used ?? 0).toLocaleString()} / {formatLimit(usage?.stores.limit ?? null)}
               </span>
             </div>
-            {currentPlan.limits.stores !== Infinity && (
-              <Progress value={storesPercentage} className="h-2" />
+            {usage?.stores.limit != null && (
+              <Progress value={usage.stores.percentage} className="h-2" />
             )}
           </div>
 
@@ -199,11 +129,11 @@ export default function BillingSection() {
                 <span className="font-medium">Productos Sincronizados</span>
               </div>
               <span className="text-muted-foreground">
-                {productsCount.toLocaleString()} / {currentPlan.limits.products === Infinity ? "∞" : currentPlan.limits.products.toLocaleString()}
+                {(usage?.products.used ?? 0).toLocaleString()} / {formatLimit(usage?.products.limit ?? null)}
               </span>
             </div>
-            {currentPlan.limits.products !== Infinity && (
-              <Progress value={productsPercentage} className="h-2" />
+            {usage?.products.limit != null && (
+              <Progress value={usage.products.percentage} className="h-2" />
             )}
           </div>
 
@@ -212,14 +142,14 @@ export default function BillingSection() {
             <div className="flex items-center justify-between text-sm">
               <div className="flex items-center gap-2">
                 <TrendingUp className="h-4 w-4 text-muted-foreground" />
-                <span className="font-medium">Sincronizaciones (últimos 30 días)</span>
+                <span className="font-medium">Sincronizaciones (este mes)</span>
               </div>
               <span className="text-muted-foreground">
-                {syncsCount} / {currentPlan.limits.syncs === Infinity ? "∞" : currentPlan.limits.syncs}
+                {(usage?.syncs.used ?? 0).toLocaleString()} / {formatLimit(usage?.syncs.limit ?? null)}
               </span>
             </div>
-            {currentPlan.limits.syncs !== Infinity && (
-              <Progress value={syncsPercentage} className="h-2" />
+            {usage?.syncs.limit != null && (
+              <Progress value={usage.syncs.percentage} className="h-2" />
             )}
           </div>
         </CardContent>
@@ -7,7 +7,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Key, Loader2, Monitor, X, Eye, EyeOff } from "lucide-react";
+import { Key, Loader2, LogOut, Monitor, Smartphone, X, Eye, EyeOff } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
   AlertDialog,
@@ -24,12 +24,34 @@ import { formatEcuadorDateTime } from "@/lib/dateFormatters";
 
 interface Session {
   id: string;
-  userAgent: string;
-  ip: string;
-  lastActive: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
   current: boolean;
 }
 
+// Nombre legible del navegador y sistema a partir del user agent
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Dispositivo desconocido";
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  if (!browser && !os) return userAgent;
+  return [browser, os].filter(Boolean).join(" en ");
+}
+
 export default function SecuritySection() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -42,14 +64,9 @@ export default function SecuritySection() {
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
-  // Fetch active sessions (placeholder - needs backend implementation)
+  // Fetch active sessions
   const { data: sessions = [], isLoading: sessionsLoading } = useQuery<Session[]>({
     queryKey: ["/api/user/sessions"],
-    queryFn: async () => {
-      // Placeholder - this endpoint needs to be implemented
-      return [];
-    },
-    enabled: false, // Disable until backend is ready
   });
 
   // Change password mutation
@@ -58,11 +75,14 @@ export default function SecuritySection() {
       const res = await apiRequest("POST", "/api/user/change-password", data);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { revokedSessions?: number }) => {
       toast({
         title: "Contraseña actualizada",
-        description: "Tu contraseña ha sido cambiada exitosamente",
+        description: data.revokedSessions
+          ? `Tu contraseña ha sido cambiada y se cerraron ${data.revokedSessions} sesiones en otros dispositivos`
+          : "Tu contraseña ha sido cambiada exitosamente",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
       setCurrentPassword("");
       setNewPassword("");
       setConfirmPassword("");
@@ -98,6 +118,30 @@ export default function SecuritySection() {
     },
   });
 
+  // Sign out everywhere else
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/sessions/revoke-others");
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Sesiones cerradas",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al cerrar sesiones",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const otherSessionsCount = sessions.filter((session) => !session.current).length;
+
   const handleChangePassword = () => {
     // Validation
     if (!currentPassword || !newPassword || !confirmPassword) {
@@ -137,12 +181,15 @@ export default function SecuritySection() {
     revokeSessionMutation.mutate(sessionId);
   };
 
-  const getBrowserIcon = (userAgent: string) => {
+  const getBrowserIcon = (userAgent: string | null) => {
+    if (userAgent && /Mobile|Android|iPhone/.test(userAgent)) {
+      return <Smartphone className="h-4 w-4" />;
+    }
     return <Monitor className="h-4 w-4" />;
   };
 
-  const formatDate = (dateString: string) => {
-    return formatEcuadorDateTime(dateString);
+  const formatDate = (dateString: string | null) => {
+    return dateString ? formatEcuadorDateTime(dateString) : "Desconocida";
   };
 
   return (
@@ -262,7 +309,7 @@ export default function SecuritySection() {
             Administra los dispositivos donde has iniciado sesión
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           {sessionsLoading ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -270,10 +317,7 @@ export default function SecuritySection() {
           ) : sessions.length === 0 ? (
             <div className="text-center py-8">
               <Monitor className="h-12 w-12 mx-auto mb-3 text-muted-foreground opacity-20" />
-              <p className="text-muted-foreground">Próximamente</p>
-              <p className="text-sm text-muted-foreground mt-2">
-                La funcionalidad de sesiones activas estará disponible pronto
-              </p>
+              <p className="text-muted-foreground">No hay sesiones activas</p>
             </div>
           ) : (
             <div className="space-y-3">
@@ -288,8 +332,8 @@ export default function SecuritySection() {
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
-                        <p className="text-sm font-medium text-foreground truncate">
-                          {session.userAgent}
+                        <p className="text-sm font-medium text-foreground truncate" title={session.userAgent || ""}>
+                          {describeUserAgent(session.userAgent)}
                         </p>
                         {session.current && (
                           <Badge variant="default" className="text-xs">
@@ -298,10 +342,13 @@ export default function SecuritySection() {
                         )}
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        IP: {session.ip}
+                        IP: {session.ip || "Desconocida"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Inicio de sesión: {formatDate(session.createdAt)}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        Última actividad: {formatDate(session.lastActive)}
+                        Última actividad: {formatDate(session.lastSeenAt)}
                       </p>
                     </div>
                   </div>
@@ -340,6 +387,43 @@ export default function SecuritySection() {
               ))}
             </div>
           )}
+
+          {otherSessionsCount > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                  disabled={revokeOthersMutation.isPending}
+                >
+                  {revokeOthersMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogOut className="mr-2 h-4 w-4" />
+                  )}
+                  Cerrar sesión en todos los demás dispositivos
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Cerrar las demás sesiones</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Se cerrarán {otherSessionsCount} sesiones en otros dispositivos. Esta sesión seguirá
+                    abierta.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => revokeOthersMutation.mutate()}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Cerrar Sesiones
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
         </CardContent>
       </Card>
     </div>
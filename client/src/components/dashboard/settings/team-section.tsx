@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTenantRole } from "@/hooks/use-tenant-role";
+import { Copy, Loader2, Mail, Trash2, UserPlus, Users } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  TENANT_ROLES,
+  TENANT_ROLE_DESCRIPTIONS,
+  TENANT_ROLE_LABELS,
+  getTenantRole,
+  type TenantRole,
+} from "@shared/tenant-roles";
+import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+
+interface TeamMember {
+  id: number;
+  name: string;
+  email: string;
+  tenantRole: string;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+interface TeamInvitation {
+  id: number;
+  email: string;
+  role: string;
+  expiresAt: string;
+  expired: boolean;
+  createdAt: string;
+}
+
+// De mayor a menor permiso
+const ROLE_OPTIONS = [...TENANT_ROLES].reverse();
+
+export default function TeamSection() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { can } = useTenantRole();
+  const canManageTeam = can("owner");
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<TenantRole>("operator");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [inviteEmailSent, setInviteEmailSent] = useState(false);
+
+  const { data: membersData, isLoading } = useQuery<{ members: TeamMember[] }>({
+    queryKey: ["/api/team/members"],
+  });
+  const members = membersData?.members || [];
+
+  const { data: invitationsData } = useQuery<{ invitations: TeamInvitation[] }>({
+    queryKey: ["/api/team/invitations"],
+    enabled: canManageTeam,
+  });
+  const invitations = invitationsData?.invitations || [];
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: { email: string; role: TenantRole }) => {
+      const res = await apiRequest("POST", "/api/team/invitations", data);
+      return res.json();
+    },
+    onSuccess: (data: { inviteUrl: string; emailSent: boolean }) => {
+      setInviteUrl(data.inviteUrl);
+      setInviteEmailSent(data.emailSent);
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al invitar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const res = await apiRequest("DELETE", `/api/team/invitations/${invitationId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Invitación revocada", description: "El enlace dejó de funcionar" });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al revocar invitación", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: TenantRole }) => {
+      const res = await apiRequest("PATCH", `/api/team/members/${memberId}`, { role });
+      return res.json();
+    },
+    onSuccess: (_data, { memberId }) => {
+      toast({ title: "Rol actualizado" });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+      // Cambiar el rol propio cambia lo que el usuario puede hacer
+      if (memberId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al cambiar rol", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: number) => {
+      const res = await apiRequest("DELETE", `/api/team/members/${memberId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Miembro quitado", description: "Ya no puede acceder a la empresa" });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al quitar miembro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleInvite = () => {
+    if (!email.trim()) {
+      toast({
+        title: "Campo requerido",
+        description: "Ingresa el correo electrónico de la persona a invitar",
+        variant: "destructive",
+      });
+      return;
+    }
+    inviteMutation.mutate({ email: email.trim(), role });
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    toast({ title: "Copiado", description: "Enlace de invitación copiado al portapapeles" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Equipo</CardTitle>
+        <CardDescription>
+          Personas con acceso a tu empresa y lo que cada una puede hacer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Invite */}
+        {canManageTeam && (
+          <div className="space-y-4">
+            {inviteUrl && (
+              <div className="rounded-lg border border-primary/50 bg-primary/5 p-4 space-y-2">
+                <p className="text-sm font-medium">
+                  {inviteEmailSent
+                    ? "Enviamos la invitación por correo. También puedes compartir este enlace, no podrás volver a verlo:"
+                    : "No se pudo enviar el correo. Envía este enlace a la persona invitada, no podrás volver a verlo:"}
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs break-all bg-muted p-2 rounded">{inviteUrl}</code>
+                  <Button variant="outline" size="sm" onClick={handleCopy}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setInviteUrl(null)}>
+                  Listo
+                </Button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_200px] gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Correo electrónico</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="persona@empresa.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Rol</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as TenantRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {TENANT_ROLE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">{TENANT_ROLE_DESCRIPTIONS[role]}</p>
+            <Button onClick={handleInvite} disabled={inviteMutation.isPending} className="w-full sm:w-auto">
+              {inviteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Invitando...
+                </>
+              ) : (
+                <>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Invitar
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {/* Pending invitations */}
+        {canManageTeam && invitations.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Invitaciones pendientes</p>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between p-4 rounded-lg border border-border"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <p className="text-sm font-medium text-foreground truncate">{invitation.email}</p>
+                    <Badge variant="secondary" className="text-xs">
+                      {TENANT_ROLE_LABELS[getTenantRole({ tenantRole: invitation.role })]}
+                    </Badge>
+                    {invitation.expired && (
+                      <Badge variant="destructive" className="text-xs">
+                        Vencida
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Vence: {formatEcuadorDateTime(invitation.expiresAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => revokeMutation.mutate(invitation.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Members */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : members.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 mx-auto mb-3 text-muted-foreground opacity-20" />
+            <p className="text-muted-foreground">No hay miembros en el equipo</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {members.map((member) => {
+              const memberRole = getTenantRole(member);
+              const isSelf = member.id === user?.id;
+
+              return (
+                <div
+                  key={member.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border"
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {member.name}
+                      {isSelf && <span className="text-muted-foreground"> (tú)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Último acceso: {member.lastLoginAt ? formatEcuadorDateTime(member.lastLoginAt) : "Nunca"}
+                    </p>
+                  </div>
+                  {canManageTeam ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={memberRole}
+                        onValueChange={(value) =>
+                          changeRoleMutation.mutate({ memberId: member.id, role: value as TenantRole })
+                        }
+                        disabled={changeRoleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLE_OPTIONS.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {TENANT_ROLE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!isSelf && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Quitar del equipo</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {member.name} ya no podrá iniciar sesión en tu empresa. Su cuenta se
+                                eliminará; para volver a darle acceso deberás invitarlo de nuevo.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => removeMutation.mutate(member.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Quitar
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  ) : (
+                    <Badge variant="secondary">{TENANT_ROLE_LABELS[memberRole]}</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,414 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Download, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useTenantRole } from "@/hooks/use-tenant-role";
+import { useToast } from "@/hooks/use-toast";
+import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+import { TOTP_DIGITS, isTwoFactorRequired } from "@shared/two-factor";
+import type { Tenant } from "@shared/schema";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  requiredByTenant: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+/**
+ * Verificación en dos pasos del usuario (TOTP) y, para el propietario, la política de la empresa
+ */
+export default function TwoFactorSection() {
+  const { user } = useAuth();
+  const { can } = useTenantRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [regenerateOpen, setRegenerateOpen] = useState(false);
+  const [regenerateCode, setRegenerateCode] = useState("");
+  const [disableOpen, setDisableOpen] = useState(false);
+  const [disablePassword, setDisablePassword] = useState("");
+  const [disableCode, setDisableCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+  });
+
+  const { data: tenant } = useQuery<Tenant>({
+    queryKey: ["/api/tenant/current"],
+    enabled: !!user?.tenantId,
+  });
+
+  const refreshStatus = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setSetupCode("");
+    },
+    onError: showError("Error al configurar la verificación en dos pasos"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[]; message: string }) => {
+      setSetup(null);
+      setSetupCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Verificación en dos pasos activada", description: data.message });
+      refreshStatus();
+    },
+    onError: showError("Error al activar la verificación en dos pasos"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[]; message: string }) => {
+      setRegenerateOpen(false);
+      setRegenerateCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Códigos de recuperación", description: data.message });
+      refreshStatus();
+    },
+    onError: showError("Error al generar códigos de recuperación"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { password: string; code: string }) => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", data);
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setDisableOpen(false);
+      setDisablePassword("");
+      setDisableCode("");
+      toast({ title: "Verificación en dos pasos", description: data.message });
+      refreshStatus();
+    },
+    onError: showError("Error al desactivar la verificación en dos pasos"),
+  });
+
+  // Política de la empresa: solo el propietario puede cambiarla
+  const policyMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const res = await apiRequest("PUT", `/api/tenant/${user?.tenantId}`, {
+        name: tenant?.name,
+        requireTwoFactor,
+      });
+      return res.json();
+    },
+    onSuccess: (_data, requireTwoFactor) => {
+      toast({
+        title: "Política actualizada",
+        description: requireTwoFactor
+          ? "Todos los miembros deberán activar la verificación en dos pasos"
+          : "La verificación en dos pasos ahora es opcional",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant/current"] });
+      refreshStatus();
+    },
+    onError: showError("Error al actualizar la política"),
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Copiado", description: "Códigos de recuperación copiados al portapapeles" });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([recoveryCodes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "g4hub-codigos-recuperacion.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const tenantRequiresTwoFactor = isTwoFactorRequired(tenant?.settings);
+  const showPolicy = !!tenant && can("owner");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Verificación en Dos Pasos</CardTitle>
+            <CardDescription>
+              Protege tu cuenta con un código de una app de autenticación además de tu contraseña
+            </CardDescription>
+          </div>
+          {status?.enabled ? (
+            <Badge className="bg-green-600 hover:bg-green-600">Activa</Badge>
+          ) : (
+            <Badge variant="secondary">Inactiva</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <div className="flex items-start gap-3">
+              <ShieldCheck className="h-5 w-5 text-green-600 mt-0.5" />
+              <div className="text-sm">
+                <p>
+                  Activada el {status.enabledAt ? formatEcuadorDateTime(status.enabledAt) : "—"}
+                </p>
+                <p className="text-muted-foreground">
+                  Te quedan {status.recoveryCodesRemaining} códigos de recuperación
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setRegenerateOpen(true)}>
+                Generar nuevos códigos de recuperación
+              </Button>
+              {!status.requiredByTenant && (
+                <Button variant="outline" className="text-destructive" onClick={() => setDisableOpen(true)}>
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Desactivar
+                </Button>
+              )}
+            </div>
+            {status.requiredByTenant && (
+              <p className="text-xs text-muted-foreground">
+                Tu empresa exige la verificación en dos pasos, por eso no puedes desactivarla.
+              </p>
+            )}
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <ol className="list-decimal pl-5 text-sm space-y-1">
+              <li>Escanea el código QR con tu app de autenticación (Google Authenticator, Authy, 1Password...)</li>
+              <li>Ingresa el código de {TOTP_DIGITS} dígitos que muestra la app</li>
+            </ol>
+            <div className="flex flex-col sm:flex-row items-center gap-6">
+              <img
+                src={setup.qrCode}
+                alt="Código QR para la app de autenticación"
+                className="h-48 w-48 rounded-md border bg-white p-2"
+              />
+              <div className="space-y-2 text-sm w-full">
+                <p className="text-muted-foreground">¿No puedes escanearlo? Ingresa esta clave manualmente:</p>
+                <code className="block break-all rounded bg-muted px-3 py-2 font-mono">{setup.secret}</code>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-setup-code">Código de verificación</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="two-factor-setup-code"
+                  value={setupCode}
+                  onChange={(e) => setSetupCode(e.target.value)}
+                  placeholder="000000"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={TOTP_DIGITS}
+                  className="max-w-[160px] font-mono tracking-widest"
+                />
+                <Button
+                  onClick={() => enableMutation.mutate(setupCode)}
+                  disabled={enableMutation.isPending || setupCode.trim().length < TOTP_DIGITS}
+                >
+                  {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Activar
+                </Button>
+                <Button variant="ghost" onClick={() => setSetup(null)}>
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {status?.requiredByTenant && (
+              <p className="text-sm text-amber-600">
+                Tu empresa exige la verificación en dos pasos. Actívala para seguir usando la plataforma.
+              </p>
+            )}
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ShieldCheck className="mr-2 h-4 w-4" />
+              )}
+              Configurar verificación en dos pasos
+            </Button>
+          </div>
+        )}
+
+        {showPolicy && (
+          <div className="flex items-center justify-between gap-4 border-t pt-6">
+            <div className="space-y-1">
+              <Label htmlFor="require-two-factor">Exigir a todo el equipo</Label>
+              <p className="text-sm text-muted-foreground">
+                Los miembros sin verificación en dos pasos deberán activarla antes de seguir usando la plataforma
+              </p>
+            </div>
+            <Switch
+              id="require-two-factor"
+              checked={tenantRequiresTwoFactor}
+              disabled={policyMutation.isPending || (!tenantRequiresTwoFactor && !status?.enabled)}
+              onCheckedChange={(checked) => policyMutation.mutate(checked)}
+            />
+          </div>
+        )}
+      </CardContent>
+
+      {/* Códigos de recuperación: se muestran una sola vez */}
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Códigos de recuperación</DialogTitle>
+            <DialogDescription>
+              Guárdalos en un lugar seguro. Cada código sirve una sola vez para entrar si pierdes tu teléfono.
+              No podrás volver a verlos.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+            {recoveryCodes?.map((code) => (
+              <span key={code}>{code}</span>
+            ))}
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={copyRecoveryCodes}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copiar
+            </Button>
+            <Button variant="outline" onClick={downloadRecoveryCodes}>
+              <Download className="mr-2 h-4 w-4" />
+              Descargar
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Ya los guardé</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={regenerateOpen} onOpenChange={setRegenerateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Generar nuevos códigos de recuperación</DialogTitle>
+            <DialogDescription>
+              Los códigos anteriores dejarán de funcionar. Ingresa un código de tu app de autenticación para continuar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-regenerate-code">Código de verificación</Label>
+            <Input
+              id="two-factor-regenerate-code"
+              value={regenerateCode}
+              onChange={(e) => setRegenerateCode(e.target.value)}
+              placeholder="000000"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={TOTP_DIGITS}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRegenerateOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => regenerateMutation.mutate(regenerateCode)}
+              disabled={regenerateMutation.isPending || !regenerateCode.trim()}
+            >
+              {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Generar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={disableOpen} onOpenChange={setDisableOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Desactivar verificación en dos pasos</DialogTitle>
+            <DialogDescription>
+              Tu cuenta quedará protegida solo por tu contraseña. Confirma con tu contraseña y un código.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-disable-password">Contraseña</Label>
+              <Input
+                id="two-factor-disable-password"
+                type="password"
+                value={disablePassword}
+                onChange={(e) => setDisablePassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-disable-code">Código de verificación o de recuperación</Label>
+              <Input
+                id="two-factor-disable-code"
+                value={disableCode}
+                onChange={(e) => setDisableCode(e.target.value)}
+                autoComplete="one-time-code"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisableOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate({ password: disablePassword, code: disableCode })}
+              disabled={disableMutation.isPending || !disablePassword || !disableCode.trim()}
+            >
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Desactivar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Shield,
   Users,
   FileText,
+  ListChecks,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Link, useLocation } from "wouter";
@@ -38,6 +39,7 @@ export default function Sidebar() {
     { path: "/dashboard/admin", label: "Panel Admin", icon: Shield },
     { path: "/dashboard/admin/users", label: "Gestión de Usuarios", icon: Users },
     { path: "/dashboard/admin/audit-logs", label: "Logs de Auditoría", icon: FileText },
+    { path: "/dashboard/admin/jobs", label: "Cola de Trabajos", icon: ListChecks },
   ];
 
   const isActive = (path: string) => {
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Sheet,
   SheetContent,
@@ -6,6 +7,17 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   Download,
@@ -16,9 +28,19 @@ import {
   Store,
   Clock,
   Package,
+  Play,
+  Ban,
+  Undo2,
+  ShieldAlert,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { formatEcuadorDateTimeWithSeconds } from "@/lib/dateFormatters";
+import { PULL_MODE_LABELS, type PullMode } from "@shared/delta-pull";
+import { isResumablePull, type PullCheckpoint } from "@shared/sync-progress";
+import { useToast } from "@/hooks/use-toast";
+import { useTenantRole } from "@/hooks/use-tenant-role";
+import { apiRequest } from "@/lib/queryClient";
+import { runExport } from "@/lib/jobs";
 
 interface SyncLogDetailDrawerProps {
   logId: number | null;
@@ -32,12 +54,14 @@ interface SyncLogDetail {
     storeName: string;
     storePlatform: string;
     syncType: string;
+    syncMode: PullMode | null;
     status: string;
     syncedCount: number;
     errorCount: number;
     durationMs: number | null;
     createdAt: string;
     details: any;
+    checkpoint: PullCheckpoint | null;
   };
   items: Array<{
     id: number;
@@ -59,6 +83,7 @@ interface SyncLogDetail {
     failed: number;
     skipped: number;
   };
+  pendingRollback: number; // SKUs cuyo stock anterior se puede restaurar
 }
 
 export function SyncLogDetailDrawer({
@@ -66,6 +91,10 @@ export function SyncLogDetailDrawer({
   open,
   onOpenChange,
 }: SyncLogDetailDrawerProps) {
+  const { toast } = useToast();
+  const { can } = useTenantRole();
+  const queryClient = useQueryClient();
+  const [isDownloading, setIsDownloading] = useState(false);
   const { data, isLoading } = useQuery<SyncLogDetail>({
     queryKey: ["/api/sync/logs", logId],
     enabled: !!logId && open,
@@ -78,9 +107,66 @@ export function SyncLogDetailDrawer({
     },
   });
 
-  const handleDownload = () => {
+  // Reanudar un Pull cancelado o interrumpido desde su último lote completado
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sync/logs/${logId}/resume`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Sincronización reanudada",
+        description: "Continuará desde el último lote completado",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/logs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al reanudar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Restaurar el stock que reemplazó este Pull
+  const rollbackMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sync/logs/${logId}/rollback`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Restauración en curso",
+        description: "Se restaurará el stock de los productos que no cambiaron desde esta sincronización",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/logs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al restaurar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownload = async () => {
     if (!logId) return;
-    window.location.href = `/api/sync/logs/${logId}/export`;
+
+    // El Excel se genera en segundo plano y se descarga al terminar
+    setIsDownloading(true);
+    try {
+      await runExport({ kind: "sync_log", syncLogId: logId });
+    } catch (error: any) {
+      toast({
+        title: "Error al exportar a Excel",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
   };
 
   const getStatusIcon = (status: string) => {
@@ -91,6 +177,10 @@ export function SyncLogDetailDrawer({
         return <AlertCircle className="h-5 w-5 text-amber-600" />;
       case "error":
         return <XCircle className="h-5 w-5 text-red-600" />;
+      case "running":
+        return <RefreshCw className="h-5 w-5 text-blue-600 animate-spin" />;
+      case "cancelled":
+        return <Ban className="h-5 w-5 text-gray-600" />;
       default:
         return <AlertCircle className="h-5 w-5 text-gray-600" />;
     }
@@ -104,6 +194,10 @@ export function SyncLogDetailDrawer({
         return "Con errores";
       case "error":
         return "Fallido";
+      case "running":
+        return "En curso";
+      case "cancelled":
+        return "Cancelado";
       default:
         return status;
     }
@@ -129,6 +223,13 @@ export function SyncLogDetailDrawer({
         return "Error de API";
       case "processing_error":
         return "Error de procesamiento";
+      case "unknown_stock":
+        return "Stock desconocido en el ERP";
+      case "zero_guard":
+        return "Protección de stock";
+      case "plan_drift":
+      case "rollback_drift":
+        return "Stock cambiado";
       default:
         return category || "Otro";
     }
@@ -184,8 +285,16 @@ export function SyncLogDetailDrawer({
                       <p className="text-sm font-medium text-foreground">
                         {data.syncLog.syncType === "pull"
                           ? "Pull (Contífico → Tienda)"
-                          : "Push (Tienda → Contífico)"}
+                          : data.syncLog.syncType === "pull_rollback"
+                            ? "Restauración de stock de un Pull"
+                            : "Push (Tienda → Contífico)"}
+                        {data.syncLog.syncMode && ` · ${PULL_MODE_LABELS[data.syncLog.syncMode]}`}
                       </p>
+                      {data.syncLog.syncMode === "delta" && data.syncLog.details?.delta_since && (
+                        <p className="text-xs text-muted-foreground">
+                          Cambios desde {formatEcuadorDateTimeWithSeconds(data.syncLog.details.delta_since)}
+                        </p>
+                      )}
                     </div>
                   </div>
                   {data.syncLog.details?.warehouse_name && (
@@ -206,6 +315,16 @@ export function SyncLogDetailDrawer({
                       <p className="text-sm font-medium text-foreground">
                         {getStatusLabel(data.syncLog.status)}
                       </p>
+                      {data.syncLog.checkpoint && (
+                        <p className="text-xs text-muted-foreground">
+                          {data.syncLog.checkpoint.processedCount} de {data.syncLog.checkpoint.total} productos procesados
+                        </p>
+                      )}
+                      {data.syncLog.details?.rolled_back_at && (
+                        <p className="text-xs text-muted-foreground">
+                          Stock restaurado el {formatEcuadorDateTimeWithSeconds(data.syncLog.details.rolled_back_at)}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
@@ -332,14 +451,83 @@ export function SyncLogDetailDrawer({
               </Card>
             )}
 
+            {/* Zero guard */}
+            {data.syncLog.details?.zero_guard && (
+              <div className="flex items-start gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                <ShieldAlert className="h-5 w-5 shrink-0" />
+                <p>
+                  Detenida por la protección de stock: {data.syncLog.details.zero_guard.zeroed} de{" "}
+                  {data.syncLog.details.zero_guard.evaluated} productos evaluados iban a quedar en cero
+                  (máximo {data.syncLog.details.zero_guard.max_zeroed_percent}%). Ningún otro producto se dejó en cero.
+                </p>
+              </div>
+            )}
+
+            {/* Resume Button */}
+            {isResumablePull(data.syncLog) && can("operator") && (
+              <Button
+                onClick={() => resumeMutation.mutate()}
+                className="w-full"
+                disabled={resumeMutation.isPending || resumeMutation.isSuccess}
+              >
+                {resumeMutation.isPending ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                Reanudar sincronización
+              </Button>
+            )}
+
+            {/* Rollback Button */}
+            {data.pendingRollback > 0 && data.syncLog.status !== "running" && can("manager") && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    className="w-full"
+                    variant="outline"
+                    disabled={rollbackMutation.isPending || rollbackMutation.isSuccess}
+                  >
+                    {rollbackMutation.isPending ? (
+                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Undo2 className="h-4 w-4 mr-2" />
+                    )}
+                    Restaurar stock anterior ({data.pendingRollback} productos)
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Restaurar stock anterior</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Se devolverá a la tienda el stock que tenían los {data.pendingRollback} productos antes de
+                      esta sincronización. Los productos cuyo stock cambió después (ventas, otra sincronización)
+                      se omiten.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => rollbackMutation.mutate()}>
+                      Restaurar
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+
             {/* Export Button */}
             <Button
               onClick={handleDownload}
               className="w-full"
               variant="outline"
+              disabled={isDownloading}
             >
-              <Download className="h-4 w-4 mr-2" />
-              Descargar Excel
+              {isDownloading ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              {isDownloading ? "Generando Excel..." : "Descargar Excel"}
             </Button>
           </div>
         ) : (
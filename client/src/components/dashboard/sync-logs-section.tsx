@@ -10,7 +10,8 @@ import {
   AlertCircle,
   Eye,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Ban
 } from "lucide-react";
 import { useQuery, useIsFetching } from "@tanstack/react-query";
 import {
@@ -22,6 +23,7 @@ import {
 } from "@/components/ui/select";
 import { SyncLogDetailDrawer } from "./sync-log-detail-drawer";
 import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+import { PULL_MODE_LABELS, type PullMode } from "@shared/delta-pull";
 
 interface SyncLog {
   id: number;
@@ -29,6 +31,7 @@ interface SyncLog {
   storeName: string;
   storePlatform: string;
   syncType: string;
+  syncMode: PullMode | null;
   status: string;
   syncedCount: number;
   errorCount: number;
@@ -138,6 +141,10 @@ export default function SyncLogsSection({ storeId }: SyncLogsSectionProps = {})
         return <AlertCircle className="h-4 w-4 text-amber-600" />;
       case "error":
         return <XCircle className="h-4 w-4 text-red-600" />;
+      case "running":
+        return <RefreshCw className="h-4 w-4 text-blue-600 animate-spin" />;
+      case "cancelled":
+        return <Ban className="h-4 w-4 text-gray-600" />;
       default:
         return <AlertCircle className="h-4 w-4 text-gray-600" />;
     }
@@ -151,6 +158,10 @@ export default function SyncLogsSection({ storeId }: SyncLogsSectionProps = {})
         return "Con errores";
       case "error":
         return "Fallido";
+      case "running":
+        return "En curso";
+      case "cancelled":
+        return "Cancelado";
       default:
         return status;
     }
@@ -164,6 +175,8 @@ export default function SyncLogsSection({ storeId }: SyncLogsSectionProps = {})
         return "bg-amber-100 text-amber-700";
       case "error":
         return "bg-red-100 text-red-700";
+      case "running":
+        return "bg-blue-100 text-blue-700";
       default:
         return "bg-gray-100 text-gray-700";
     }
@@ -246,6 +259,8 @@ export default function SyncLogsSection({ storeId }: SyncLogsSectionProps = {})
                   <SelectItem value="success">Completado</SelectItem>
                   <SelectItem value="partial">Con errores</SelectItem>
                   <SelectItem value="error">Fallido</SelectItem>
+                  <SelectItem value="running">En curso</SelectItem>
+                  <SelectItem value="cancelled">Cancelado</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -327,6 +342,11 @@ export default function SyncLogsSection({ storeId }: SyncLogsSectionProps = {})
                           >
                             {getStatusLabel(log.status)}
                           </span>
+                          {log.syncMode && (
+                            <span className="text-xs text-muted-foreground">
+                              {PULL_MODE_LABELS[log.syncMode]}
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="py-3 px-4 text-center text-sm text-foreground">
@@ -1,4 +1,3 @@
-import { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -10,6 +9,7 @@ import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CheckCircle2, XCircle, Loader2, AlertCircle } from 'lucide-react';
+import type { SyncRunSnapshot } from '@shared/sync-progress';
 
 interface SyncProgressDialogProps {
   open: boolean;
@@ -19,8 +19,22 @@ interface SyncProgressDialogProps {
     failed: number;
     skipped: number;
     errors: Array<{ sku: string; error: string }>;
+    cancelled?: boolean; // Detenida a pedido del usuario (resultados parciales)
   } | null;
   isLoading: boolean;
+  progress?: SyncRunSnapshot | null; // Progreso en vivo de la ejecución (SSE)
+  onCancel?: () => void; // Sin onCancel no se muestra el botón Cancelar
+  isCancelling?: boolean;
+}
+
+/**
+ * Tiempo restante legible: "~45 s", "~3 min"
+ */
+function formatEta(etaMs: number | null): string | null {
+  if (etaMs === null) return null;
+  const seconds = Math.ceil(etaMs / 1000);
+  if (seconds < 60) return `~${seconds} s`;
+  return `~${Math.ceil(seconds / 60)} min`;
 }
 
 export function SyncProgressDialog({
@@ -28,19 +42,13 @@ export function SyncProgressDialog({
   onOpenChange,
   syncResult,
   isLoading,
+  progress,
+  onCancel,
+  isCancelling = false,
 }: SyncProgressDialogProps) {
-  const [dots, setDots] = useState('');
-
-  // Animación de puntos suspensivos
-  useEffect(() => {
-    if (!isLoading) return;
-
-    const interval = setInterval(() => {
-      setDots((prev) => (prev.length >= 3 ? '' : prev + '.'));
-    }, 500);
-
-    return () => clearInterval(interval);
-  }, [isLoading]);
+  const hasProgress = isLoading && !!progress && progress.total > 0;
+  const percent = hasProgress ? Math.round((progress.processed / progress.total) * 100) : 0;
+  const eta = hasProgress ? formatEta(progress.etaMs) : null;
 
   const total = syncResult
     ? syncResult.success + syncResult.failed + syncResult.skipped
@@ -48,6 +56,7 @@ export function SyncProgressDialog({
   const hasResults = syncResult !== null && syncResult !== undefined;
   const hasErrors = syncResult && syncResult.failed > 0;
   const isComplete = hasResults && !isLoading;
+  const isCancelled = isComplete && !!syncResult?.cancelled;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -55,19 +64,22 @@ export function SyncProgressDialog({
         <DialogHeader>
           <DialogTitle>
             {isLoading && 'Sincronizando inventario'}
-            {isComplete && !hasErrors && 'Sincronización completada'}
-            {isComplete && hasErrors && 'Sincronización completada con errores'}
+            {isCancelled && 'Sincronización cancelada'}
+            {isComplete && !isCancelled && !hasErrors && 'Sincronización completada'}
+            {isComplete && !isCancelled && hasErrors && 'Sincronización completada con errores'}
           </DialogTitle>
           <DialogDescription>
-            {isLoading && `Procesando productos${dots}`}
-            {isComplete && !hasErrors && 'El inventario se ha actualizado correctamente'}
-            {isComplete && hasErrors && 'Algunos productos no pudieron sincronizarse'}
+            {isLoading && !hasProgress && 'Esperando a que inicie la sincronización...'}
+            {hasProgress && `Procesando ${progress.processed} de ${progress.total} productos`}
+            {isCancelled && 'Puedes reanudarla desde el historial de sincronizaciones'}
+            {isComplete && !isCancelled && !hasErrors && 'El inventario se ha actualizado correctamente'}
+            {isComplete && !isCancelled && hasErrors && 'Algunos productos no pudieron sincronizarse'}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
           {/* Estado de carga */}
-          {isLoading && (
+          {isLoading && !hasProgress && (
             <div className="flex flex-col items-center justify-center space-y-4">
               <Loader2 className="h-12 w-12 animate-spin text-primary" />
               <p className="text-sm text-muted-foreground">
@@ -76,6 +88,41 @@ export function SyncProgressDialog({
             </div>
           )}
 
+          {/* Progreso en vivo */}
+          {hasProgress && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Progress value={percent} />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    Lote {progress.batch} de {progress.totalBatches || '?'} · {percent}%
+                  </span>
+                  {eta && <span>Tiempo restante {eta}</span>}
+                </div>
+              </div>
+
+              <div className="flex justify-around text-sm">
+                <span className="text-green-600">{progress.counts.success} actualizados</span>
+                <span className="text-red-600">{progress.counts.failed} fallidos</span>
+                <span className="text-amber-600">{progress.counts.skipped} omitidos</span>
+              </div>
+
+              {progress.recentItems.length > 0 && (
+                <ul className="text-xs space-y-1 max-h-32 overflow-y-auto rounded-lg border p-2">
+                  {progress.recentItems.slice(0, 8).map((item, index) => (
+                    <li key={`${item.sku}-${index}`} className="flex items-center gap-2 truncate">
+                      {item.status === 'success' && <CheckCircle2 className="h-3 w-3 shrink-0 text-green-600" />}
+                      {item.status === 'failed' && <XCircle className="h-3 w-3 shrink-0 text-red-600" />}
+                      {item.status === 'skipped' && <AlertCircle className="h-3 w-3 shrink-0 text-amber-600" />}
+                      <span className="font-mono">{item.sku}</span>
+                      {item.error && <span className="truncate text-muted-foreground">{item.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Resultados */}
           {isComplete && syncResult && (
             <>
@@ -131,7 +178,7 @@ export function SyncProgressDialog({
               )}
 
               {/* Mensaje de éxito */}
-              {!hasErrors && syncResult.success > 0 && (
+              {!isCancelled && !hasErrors && syncResult.success > 0 && (
                 <Alert>
                   <CheckCircle2 className="h-4 w-4 text-green-600" />
                   <AlertDescription>
@@ -152,6 +199,16 @@ export function SyncProgressDialog({
           )}
         </div>
 
+        {/* Cancelar: la sincronización se detiene al terminar el lote en curso */}
+        {isLoading && onCancel && (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onCancel} disabled={isCancelling}>
+              {isCancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isCancelling ? 'Cancelando...' : 'Cancelar'}
+            </Button>
+          </div>
+        )}
+
         {/* Botón de cierre */}
         {isComplete && (
           <div className="flex justify-end">
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PackagePlus, Loader2, Search, CheckCircle, RefreshCw } from "lucide-react";
+import {
+  useUnpublishedProducts,
+  usePublishProducts,
+  type CatalogPublishStatus,
+} from "@/hooks/use-catalog";
+
+interface CatalogTabProps {
+  storeId: number | null;
+  platform: string;
+}
+
+// Límite del servidor por publicación
+const MAX_PUBLISH_BATCH = 50;
+
+export function CatalogTab({ storeId, platform }: CatalogTabProps) {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<CatalogPublishStatus>('draft');
+  const { data, isLoading, isFetching, error, refetch } = useUnpublishedProducts(storeId);
+  const publishMutation = usePublishProducts(storeId);
+
+  const term = search.trim().toLowerCase();
+  const products = (data?.products || []).filter(
+    (p) => !term || p.sku.toLowerCase().includes(term) || p.name.toLowerCase().includes(term)
+  );
+  const allSelected = products.length > 0 && products.every((p) => selected.has(p.sku));
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelected(checked ? new Set(products.slice(0, MAX_PUBLISH_BATCH).map((p) => p.sku)) : new Set());
+  };
+
+  const handleSelect = (sku: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(sku);
+    } else {
+      next.delete(sku);
+    }
+    setSelected(next);
+  };
+
+  const handlePublish = async () => {
+    await publishMutation.mutateAsync({ skus: Array.from(selected), status });
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Catálogo</h2>
+          <p className="text-muted-foreground">
+            Productos de Contífico que aún no existen en tu tienda. Se crean con nombre, SKU, precio,
+            categoría y stock de Contífico{platform === 'woocommerce' ? ' como productos simples' : ''}.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Actualizar
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[240px]">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar por SKU o nombre"
+            className="pl-9"
+          />
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as CatalogPublishStatus)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="draft">Crear como borrador</SelectItem>
+            <SelectItem value="active">Crear como activo</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handlePublish}
+          disabled={selected.size === 0 || selected.size > MAX_PUBLISH_BATCH || publishMutation.isPending}
+        >
+          {publishMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <PackagePlus className="h-4 w-4 mr-2" />
+          )}
+          Publicar seleccionados ({selected.size})
+        </Button>
+      </div>
+
+      {selected.size > MAX_PUBLISH_BATCH && (
+        <p className="text-sm text-destructive">
+          Puedes publicar hasta {MAX_PUBLISH_BATCH} productos a la vez
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="rounded-md border border-red-200 bg-red-500/10 p-3 text-sm text-red-700">
+          {(error as Error).message}
+        </div>
+      ) : products.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <CheckCircle className="h-12 w-12 text-green-600 mb-4" />
+          <h3 className="text-lg font-semibold">
+            {term ? 'Sin resultados' : 'Todos los productos de Contífico ya existen en la tienda'}
+          </h3>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox checked={allSelected} onCheckedChange={(checked) => handleSelectAll(checked as boolean)} />
+                </TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Producto</TableHead>
+                <TableHead>Categoría</TableHead>
+                <TableHead className="text-right">Precio</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map((product) => (
+                <TableRow key={product.sku}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(product.sku)}
+                      onCheckedChange={(checked) => handleSelect(product.sku, checked as boolean)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{product.sku}</TableCell>
+                  <TableCell className="text-sm max-w-xs truncate">{product.name}</TableCell>
+                  <TableCell className="text-sm">
+                    {product.category || <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell className="text-right">${product.price.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{product.stock}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -11,13 +12,62 @@ import {
 } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Settings, Clock, Database, Loader2, Info } from "lucide-react";
+import { Settings, Clock, Database, Loader2, Info, MapPin, Receipt, Tag, Plus, Trash2, X, ShieldAlert } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { LocationWarehouseMapping } from "@shared/location-mappings";
+import { ERP_INTEGRATION_TYPES } from "@shared/erp-types";
+import { getInvoicingConfig, type InvoicingConfig } from "@shared/invoicing";
+import {
+  getPriceSyncConfig,
+  PRICE_LIST_OPTIONS,
+  PRICE_ROUNDING_OPTIONS,
+  type PriceList,
+  type PriceRounding,
+  type PriceSyncConfig,
+} from "@shared/price-sync";
+import {
+  FULL_SYNC_INTERVAL_OPTIONS,
+  getDeltaPullConfig,
+  type DeltaPullConfig,
+} from "@shared/delta-pull";
+import {
+  ZERO_GUARD_PERCENT_OPTIONS,
+  getZeroGuardConfig,
+  type ZeroGuardConfig,
+} from "@shared/stock-guard";
+import {
+  CRON_PRESETS,
+  SCHEDULE_MODE_OPTIONS,
+  TIMEZONE_OPTIONS,
+  getCronError,
+  getScheduleConfig,
+  type ScheduleConfig,
+  type ScheduleMode,
+  type SyncSchedule,
+} from "@shared/sync-schedules";
 
 interface ConfigTabProps {
   storeId: number;
+  platform: string;
 }
 
+interface ShopifyLocation {
+  id: number;
+  name: string;
+  active: boolean;
+}
+
+const UNMAPPED_LOCATION = "__none__";
+
+// Sin zona horaria propia: se usa la de la empresa
+const TENANT_TIMEZONE = "__tenant__";
+
+const INVOICE_PAYMENT_METHODS = [
+  { value: "TC", label: "Tarjeta de crédito" },
+  { value: "EF", label: "Efectivo" },
+  { value: "TRA", label: "Transferencia" },
+];
+
 interface StoreIntegration {
   id: number;
   integrationId: number;
@@ -31,7 +81,13 @@ interface StoreIntegration {
       enabled?: boolean;
       interval?: '5min' | '30min' | 'hourly' | 'daily' | 'weekly';
       warehouse?: string;
+      locationMappings?: LocationWarehouseMapping[];
+      prices?: Partial<PriceSyncConfig>;
+      delta?: Partial<DeltaPullConfig>;
+      zeroGuard?: Partial<ZeroGuardConfig>;
     };
+    invoicing?: Partial<InvoicingConfig>;
+    schedule?: Partial<ScheduleConfig>;
   };
   isActive: boolean;
 }
@@ -44,12 +100,19 @@ const SYNC_INTERVALS = [
   { value: "weekly", label: "Cada semana", syncsPerMonth: "~4 syncs/mes" },
 ];
 
-export function ConfigTab({ storeId }: ConfigTabProps) {
+export function ConfigTab({ storeId, platform }: ConfigTabProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [autoSync, setAutoSync] = useState(false);
   const [interval, setInterval] = useState<'5min' | '30min' | 'hourly' | 'daily' | 'weekly'>("daily");
   const [warehouse, setWarehouse] = useState("");
+  const [locationMappings, setLocationMappings] = useState<LocationWarehouseMapping[]>([]);
+  const [invoicing, setInvoicing] = useState<InvoicingConfig>(getInvoicingConfig({}));
+  const [prices, setPrices] = useState<PriceSyncConfig>(getPriceSyncConfig({}));
+  const [schedule, setSchedule] = useState<ScheduleConfig>(getScheduleConfig({}));
+  const [delta, setDelta] = useState<DeltaPullConfig>(getDeltaPullConfig({}));
+  const [zeroGuard, setZeroGuard] = useState<ZeroGuardConfig>(getZeroGuardConfig({}));
+  const [newBlackoutDate, setNewBlackoutDate] = useState("");
 
   // Fetch store integrations (Contífico)
   const { data: integrations = [], isLoading: integrationsLoading } = useQuery<StoreIntegration[]>({
@@ -63,10 +126,9 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
     },
   });
 
-  // Find Contífico integration
+  // Find ERP integration (Contífico or another registered ERP)
   const contificoIntegration = integrations.find((i) =>
-    i.integration?.name?.toLowerCase().includes("contífico") ||
-    i.integration?.name?.toLowerCase().includes("contifico")
+    (ERP_INTEGRATION_TYPES as readonly string[]).includes(i.integration?.integrationType || "")
   );
 
   // Update form state when integrations load
@@ -75,9 +137,66 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
       setAutoSync(contificoIntegration.syncConfig.pull.enabled || false);
       setInterval(contificoIntegration.syncConfig.pull.interval || "daily");
       setWarehouse(contificoIntegration.syncConfig.pull.warehouse || "");
+      setLocationMappings(contificoIntegration.syncConfig.pull.locationMappings || []);
+    }
+    if (contificoIntegration) {
+      setInvoicing(getInvoicingConfig(contificoIntegration.syncConfig));
+      setPrices(getPriceSyncConfig(contificoIntegration.syncConfig));
+      setSchedule(getScheduleConfig(contificoIntegration.syncConfig));
+      setDelta(getDeltaPullConfig(contificoIntegration.syncConfig));
+      setZeroGuard(getZeroGuardConfig(contificoIntegration.syncConfig));
     }
   }, [contificoIntegration]);
 
+  // Facturación: solo Contífico emite facturas, desde órdenes pagadas de Shopify
+  const supportsInvoicing = platform === "shopify" && contificoIntegration?.integration?.integrationType === "contifico";
+
+  const updateInvoicing = (updates: Partial<InvoicingConfig>) =>
+    setInvoicing((current) => ({ ...current, ...updates }));
+
+  // Precios: Contífico expone las listas PVP1..PVP4 por producto
+  const supportsPriceSync = contificoIntegration?.integration?.integrationType === "contifico";
+
+  const updatePrices = (updates: Partial<PriceSyncConfig>) =>
+    setPrices((current) => ({ ...current, ...updates }));
+
+  // Pull incremental: Contífico permite detectar cambios por movimientos y fecha de modificación
+  const supportsDeltaPull = contificoIntegration?.integration?.integrationType === "contifico";
+
+  const updateSchedule = (id: string, updates: Partial<SyncSchedule>) =>
+    setSchedule((current) => ({
+      ...current,
+      schedules: current.schedules.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+    }));
+
+  const addSchedule = (cron: string) => {
+    const preset = CRON_PRESETS.find((p) => p.value === cron);
+    setSchedule((current) => ({
+      ...current,
+      schedules: [
+        ...current.schedules,
+        { id: `schedule-${Date.now()}`, name: preset?.label || "", cron, mode: preset?.mode || "auto", enabled: true },
+      ],
+    }));
+  };
+
+  const removeSchedule = (id: string) =>
+    setSchedule((current) => ({ ...current, schedules: current.schedules.filter((s) => s.id !== id) }));
+
+  const addBlackoutDate = () => {
+    if (!newBlackoutDate || schedule.blackoutDates.includes(newBlackoutDate)) return;
+    setSchedule((current) => ({
+      ...current,
+      blackoutDates: [...current.blackoutDates, newBlackoutDate].sort(),
+    }));
+    setNewBlackoutDate("");
+  };
+
+  const removeBlackoutDate = (date: string) =>
+    setSchedule((current) => ({ ...current, blackoutDates: current.blackoutDates.filter((d) => d !== date) }));
+
+  const hasInvalidSchedule = schedule.schedules.some((s) => getCronError(s.cron) !== null);
+
   // Fetch warehouses from Contífico
   const { data: warehousesData, isLoading: warehousesLoading, error: warehousesError } = useQuery({
     queryKey: [`/api/integrations/${contificoIntegration?.integrationId}/warehouses`],
@@ -97,9 +216,42 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
 
   const warehouses = warehousesData?.warehouses || [];
 
+  // Fetch Shopify locations (multi-location mapping)
+  const { data: locationsData, isLoading: locationsLoading } = useQuery<{ locations: ShopifyLocation[] }>({
+    queryKey: [`/api/stores/${storeId}/locations`],
+    enabled: platform === "shopify",
+  });
+
+  const locations = (locationsData?.locations || []).filter((l) => l.active);
+
+  const getMappedWarehouse = (locationId: number) =>
+    locationMappings.find((m) => m.locationId === locationId.toString())?.warehouseId || UNMAPPED_LOCATION;
+
+  const handleLocationMappingChange = (location: ShopifyLocation, warehouseId: string) => {
+    setLocationMappings((current) => {
+      const others = current.filter((m) => m.locationId !== location.id.toString());
+      if (warehouseId === UNMAPPED_LOCATION) {
+        return others;
+      }
+      return [...others, { locationId: location.id.toString(), locationName: location.name, warehouseId }];
+    });
+  };
+
   // Update configuration mutation
   const updateConfigMutation = useMutation({
-    mutationFn: async (config: { pull: { enabled: boolean; interval: string; warehouse: string } }) => {
+    mutationFn: async (config: {
+      pull: {
+        enabled: boolean;
+        interval: string;
+        warehouse: string;
+        locationMappings: LocationWarehouseMapping[];
+        prices: PriceSyncConfig;
+        delta: DeltaPullConfig;
+        zeroGuard: ZeroGuardConfig;
+      };
+      invoicing: InvoicingConfig;
+      schedule: ScheduleConfig;
+    }) => {
       if (!contificoIntegration) {
         throw new Error("No se encontró la integración de Contífico");
       }
@@ -118,7 +270,10 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
         }
       );
 
-      if (!res.ok) throw new Error("Error al guardar configuración");
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Error al guardar configuración");
+      }
       return res.json();
     },
     onSuccess: () => {
@@ -143,7 +298,13 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
         enabled: autoSync,
         interval,
         warehouse,
+        locationMappings,
+        prices,
+        delta,
+        zeroGuard,
       },
+      invoicing,
+      schedule,
     });
   };
 
@@ -215,7 +376,7 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
             <div>
               <p className="font-medium text-foreground">Activar sincronización automática</p>
               <p className="text-sm text-muted-foreground">
-                Los productos se sincronizarán automáticamente según el intervalo configurado
+                Los productos se sincronizarán automáticamente según el intervalo o las programaciones configuradas
               </p>
             </div>
             <Switch checked={autoSync} onCheckedChange={setAutoSync} />
@@ -223,6 +384,7 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
 
           {autoSync && (
             <>
+              {schedule.schedules.length === 0 && (
               <div className="space-y-2">
                 <label className="text-sm font-medium text-foreground">
                   Intervalo de sincronización
@@ -243,11 +405,233 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
                   </SelectContent>
                 </Select>
               </div>
+              )}
+
+              <div className="space-y-3">
+                <div>
+                  <p className="text-sm font-medium text-foreground">Programaciones (cron)</p>
+                  <p className="text-xs text-muted-foreground">
+                    Formato: minuto hora día mes día-de-la-semana. Con al menos una programación se ignora el intervalo.
+                    Tipo: Completo revisa todo el catálogo, Incremental solo los cambios en el ERP y Automático
+                    hace un Pull completo cada cierto tiempo según la configuración incremental.
+                  </p>
+                </div>
+                {schedule.schedules.map((s) => {
+                  const cronError = getCronError(s.cron);
+                  return (
+                    <div key={s.id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={s.name}
+                          placeholder="Nombre"
+                          className="flex-1"
+                          onChange={(e) => updateSchedule(s.id, { name: e.target.value })}
+                        />
+                        <Input
+                          value={s.cron}
+                          placeholder="0 2 * * *"
+                          className="w-48 font-mono"
+                          onChange={(e) => updateSchedule(s.id, { cron: e.target.value })}
+                        />
+                        <Select
+                          value={s.mode}
+                          onValueChange={(mode) => updateSchedule(s.id, { mode: mode as ScheduleMode })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SCHEDULE_MODE_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Switch
+                          checked={s.enabled}
+                          onCheckedChange={(enabled) => updateSchedule(s.id, { enabled })}
+                        />
+                        <Button variant="ghost" size="icon" onClick={() => removeSchedule(s.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {cronError && <p className="text-xs text-destructive">{cronError}</p>}
+                    </div>
+                  );
+                })}
+                <Select value="" onValueChange={addSchedule}>
+                  <SelectTrigger className="w-72">
+                    <Plus className="h-4 w-4 mr-2" />
+                    <SelectValue placeholder="Agregar programación" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CRON_PRESETS.map((preset) => (
+                      <SelectItem key={preset.value} value={preset.value}>
+                        {preset.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Zona horaria</label>
+                  <Select
+                    value={schedule.timezone || TENANT_TIMEZONE}
+                    onValueChange={(timezone) =>
+                      setSchedule((current) => ({
+                        ...current,
+                        timezone: timezone === TENANT_TIMEZONE ? undefined : timezone,
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TENANT_TIMEZONE}>La de la empresa (Configuración)</SelectItem>
+                      {TIMEZONE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Fechas bloqueadas</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="date"
+                      value={newBlackoutDate}
+                      onChange={(e) => setNewBlackoutDate(e.target.value)}
+                    />
+                    <Button variant="outline" onClick={addBlackoutDate} disabled={!newBlackoutDate}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {schedule.blackoutDates.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {schedule.blackoutDates.map((date) => (
+                        <span
+                          key={date}
+                          className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs"
+                        >
+                          {date}
+                          <button type="button" onClick={() => removeBlackoutDate(date)}>
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Sin sincronizaciones automáticas en estas fechas (feriados, inventarios físicos)
+                  </p>
+                </div>
+              </div>
+
+              {supportsDeltaPull && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Sincronización incremental</p>
+                      <p className="text-xs text-muted-foreground">
+                        Solo se consultan en Contífico los productos con movimientos o modificaciones desde la última sincronización
+                      </p>
+                    </div>
+                    <Switch
+                      checked={delta.enabled}
+                      onCheckedChange={(enabled) => setDelta((current) => ({ ...current, enabled }))}
+                    />
+                  </div>
+                  {delta.enabled && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-foreground">
+                        Sincronización completa
+                      </label>
+                      <Select
+                        value={delta.fullSyncIntervalHours.toString()}
+                        onValueChange={(value) =>
+                          setDelta((current) => ({ ...current, fullSyncIntervalHours: Number(value) }))
+                        }
+                      >
+                        <SelectTrigger className="w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FULL_SYNC_INTERVAL_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value.toString()}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Revisa todo el catálogo periódicamente para corregir cambios hechos directamente en la tienda
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
             </>
           )}
         </CardContent>
       </Card>
 
+      {/* Zero Stock Guard */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5" />
+            Protección de Stock
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="font-medium text-foreground">Detener sincronizaciones que vacían el stock</p>
+              <p className="text-sm text-muted-foreground">
+                Si Contífico responde con demasiados productos en cero (por ejemplo, por una falla), la
+                sincronización se detiene y recibes una notificación
+              </p>
+            </div>
+            <Switch
+              checked={zeroGuard.enabled}
+              onCheckedChange={(enabled) => setZeroGuard((current) => ({ ...current, enabled }))}
+            />
+          </div>
+          {zeroGuard.enabled && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Detener cuando queden en cero</label>
+              <Select
+                value={zeroGuard.maxZeroedPercent.toString()}
+                onValueChange={(value) =>
+                  setZeroGuard((current) => ({ ...current, maxZeroedPercent: Number(value) }))
+                }
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ZERO_GUARD_PERCENT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value.toString()}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Un producto cuyo stock no se pudo leer en Contífico nunca se deja en cero. Cada sincronización guarda el
+            stock anterior y se puede restaurar desde su detalle en el historial.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Warehouse Selection */}
       <Card>
         <CardHeader>
@@ -295,11 +679,246 @@ export function ConfigTab({ storeId }: ConfigTabProps) {
         </CardContent>
       </Card>
 
+      {/* Location ↔ Warehouse Mapping (Shopify) */}
+      {platform === "shopify" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="w-5 h-5" />
+              Ubicaciones de Shopify
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Asigna una bodega de Contífico a cada ubicación. Al sincronizar, cada ubicación recibe el stock
+              de su bodega y los pedidos descuentan de la bodega de la ubicación que los despacha.
+              Sin mapeo se usa la bodega principal.
+            </p>
+            {locationsLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Cargando ubicaciones...
+              </div>
+            ) : locations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No se encontraron ubicaciones activas</p>
+            ) : (
+              locations.map((location) => (
+                <div key={location.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm font-medium text-foreground">{location.name}</span>
+                  <Select
+                    value={getMappedWarehouse(location.id)}
+                    onValueChange={(value) => handleLocationMappingChange(location, value)}
+                    disabled={warehousesLoading}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED_LOCATION}>Sin mapear</SelectItem>
+                      {warehouses.map((w: any) => (
+                        <SelectItem key={w.id} value={w.id}>
+                          {w.nombre || w.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Price pull (Contífico PVP → store) */}
+      {supportsPriceSync && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="w-5 h-5" />
+              Precios
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-foreground">Sincronizar precios desde Contífico</p>
+                <p className="text-sm text-muted-foreground">
+                  Cada Pull actualiza también el precio de los productos de la tienda con el PVP de Contífico
+                </p>
+              </div>
+              <Switch
+                checked={prices.enabled}
+                onCheckedChange={(enabled) => updatePrices({ enabled })}
+              />
+            </div>
+
+            {prices.enabled && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Lista de precios</label>
+                  <Select
+                    value={prices.priceList}
+                    onValueChange={(priceList) => updatePrices({ priceList: priceList as PriceList })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRICE_LIST_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Redondeo</label>
+                  <Select
+                    value={prices.rounding}
+                    onValueChange={(rounding) => updatePrices({ rounding: rounding as PriceRounding })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRICE_ROUNDING_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Precios con IVA incluido</p>
+                    <p className="text-xs text-muted-foreground">
+                      Suma el IVA de cada producto al PVP de Contífico (sin IVA)
+                    </p>
+                  </div>
+                  <Switch
+                    checked={prices.includeTax}
+                    onCheckedChange={(includeTax) => updatePrices({ includeTax })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Cambio mínimo (%)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={prices.minChangePercent}
+                    onChange={(e) => updatePrices({ minChangePercent: parseFloat(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Los cambios menores a este porcentaje no se envían a la tienda
+                  </p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Invoicing (paid orders → Contífico invoices) */}
+      {supportsInvoicing && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="w-5 h-5" />
+              Facturación Automática
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-foreground">Emitir facturas de pedidos pagados</p>
+                <p className="text-sm text-muted-foreground">
+                  Cada pedido pagado genera una factura en Contífico con el cliente, los productos, el IVA y el envío
+                </p>
+              </div>
+              <Switch
+                checked={invoicing.enabled}
+                onCheckedChange={(enabled) => updateInvoicing({ enabled })}
+              />
+            </div>
+
+            {invoicing.enabled && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Establecimiento</label>
+                  <Input
+                    value={invoicing.establishment}
+                    maxLength={3}
+                    onChange={(e) => updateInvoicing({ establishment: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Punto de emisión</label>
+                  <Input
+                    value={invoicing.emissionPoint}
+                    maxLength={3}
+                    onChange={(e) => updateInvoicing({ emissionPoint: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Secuencial inicial</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={invoicing.startSequence}
+                    onChange={(e) => updateInvoicing({ startSequence: parseInt(e.target.value) || 1 })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Se usa si aún no hay facturas emitidas desde esta integración
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Forma de cobro</label>
+                  <Select
+                    value={invoicing.paymentMethod}
+                    onValueChange={(paymentMethod) => updateInvoicing({ paymentMethod })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INVOICE_PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Token del punto de venta</label>
+                  <Input
+                    type="password"
+                    value={invoicing.posToken || ""}
+                    onChange={(e) => updateInvoicing({ posToken: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">ID del producto de envío</label>
+                  <Input
+                    value={invoicing.shippingProductId || ""}
+                    placeholder="Servicio de Contífico para facturar el envío"
+                    onChange={(e) => updateInvoicing({ shippingProductId: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button
           onClick={handleSave}
-          disabled={updateConfigMutation.isPending}
+          disabled={updateConfigMutation.isPending || hasInvalidSchedule}
           size="lg"
         >
           {updateConfigMutation.isPending ? (
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Users, Pencil, Check, RotateCw, CheckCircle, Clock, AlertTriangle, XCircle } from "lucide-react";
+import {
+  useCustomers,
+  useCustomerAction,
+  useUpdateCustomerIdentification,
+  type Customer,
+} from "@/hooks/use-customers";
+import { checkIdentification } from "@shared/ec-identification";
+import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+
+interface CustomersTabProps {
+  storeId: number | null;
+}
+
+function getStatusInfo(status: string) {
+  switch (status) {
+    case 'synced':
+      return { icon: CheckCircle, label: 'Sincronizado', className: 'bg-green-500/10 text-green-700 border-green-200' };
+    case 'pending':
+      return { icon: Clock, label: 'Pendiente', className: 'bg-yellow-500/10 text-yellow-700 border-yellow-200' };
+    case 'review':
+      return { icon: AlertTriangle, label: 'En revisión', className: 'bg-orange-500/10 text-orange-700 border-orange-200' };
+    case 'failed':
+      return { icon: XCircle, label: 'Fallido', className: 'bg-red-500/10 text-red-700 border-red-200' };
+    default:
+      return { icon: Clock, label: status, className: '' };
+  }
+}
+
+const IDENTIFICATION_LABELS: Record<string, string> = {
+  cedula: 'Cédula',
+  ruc: 'RUC',
+  pasaporte: 'Pasaporte',
+  consumidor_final: 'Consumidor final',
+};
+
+export function CustomersTab({ storeId }: CustomersTabProps) {
+  const [status, setStatus] = useState('review');
+  const [editing, setEditing] = useState<Customer | null>(null);
+  const [identification, setIdentification] = useState('');
+  const { data, isLoading } = useCustomers(storeId, status);
+  const updateMutation = useUpdateCustomerIdentification(storeId);
+  const approveMutation = useCustomerAction(storeId, 'approve');
+  const syncMutation = useCustomerAction(storeId, 'sync');
+
+  const customers = data?.customers || [];
+  // Validación local de dígito verificador antes de enviar
+  const check = identification ? checkIdentification(identification) : null;
+
+  const openEditor = (customer: Customer) => {
+    setEditing(customer);
+    setIdentification(
+      customer.identificationType === 'consumidor_final' ? '' : customer.identification || ''
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing || !check?.valid) return;
+    await updateMutation.mutateAsync({ customerId: editing.id, identification });
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Clientes</h2>
+          <p className="text-muted-foreground">
+            Clientes de los pedidos sincronizados como personas en Contífico. Los que están en
+            revisión bloquean sus facturas hasta corregirlos o aprobarlos.
+          </p>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="review">En revisión</SelectItem>
+            <SelectItem value="failed">Fallidos</SelectItem>
+            <SelectItem value="pending">Pendientes</SelectItem>
+            <SelectItem value="synced">Sincronizados</SelectItem>
+            <SelectItem value="all">Todos los estados</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : customers.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Users className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold">
+            {status === 'review' ? 'No hay clientes en revisión' : 'No hay clientes'}
+          </h3>
+          <p className="text-sm text-muted-foreground mt-2 max-w-md">
+            Los clientes se registran automáticamente con cada pedido de tu tienda.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cliente</TableHead>
+                <TableHead>Identificación</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Motivo</TableHead>
+                <TableHead>Actualizado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {customers.map((customer) => {
+                const statusInfo = getStatusInfo(customer.status);
+                const StatusIcon = statusInfo.icon;
+
+                return (
+                  <TableRow key={customer.id}>
+                    <TableCell>
+                      <p className="font-semibold text-foreground">{customer.name || '—'}</p>
+                      {customer.email && (
+                        <p className="text-xs text-muted-foreground">{customer.email}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {customer.identification ? (
+                        <div>
+                          <p className="font-mono text-sm">{customer.identification}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {IDENTIFICATION_LABELS[customer.identificationType || ''] || customer.identificationType}
+                          </p>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground text-sm">Sin identificación</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="secondary" className={statusInfo.className}>
+                              <StatusIcon className="h-3 w-3 mr-1" />
+                              {statusInfo.label}
+                            </Badge>
+                          </TooltipTrigger>
+                          {customer.errorMessage && (
+                            <TooltipContent className="max-w-sm">
+                              {customer.errorMessage}
+                            </TooltipContent>
+                          )}
+                        </Tooltip>
+                      </TooltipProvider>
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      {customer.reviewReason || <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatEcuadorDateTime(customer.updatedAt)}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {customer.status !== 'synced' && (
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(customer)}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Corregir
+                        </Button>
+                      )}
+                      {customer.status === 'review' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => approveMutation.mutate(customer.id)}
+                          disabled={approveMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Aprobar
+                        </Button>
+                      )}
+                      {customer.status === 'failed' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => syncMutation.mutate(customer.id)}
+                          disabled={syncMutation.isPending}
+                        >
+                          <RotateCw className="h-4 w-4 mr-1" />
+                          Reintentar
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Corregir identificación</DialogTitle>
+            <DialogDescription>
+              {editing?.name} — cédula (10 dígitos), RUC (13 dígitos) o pasaporte.
+              Al guardar se sincroniza con Contífico y se reintentan sus facturas fallidas.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="customer-identification">Identificación</Label>
+            <Input
+              id="customer-identification"
+              value={identification}
+              onChange={(e) => setIdentification(e.target.value)}
+              placeholder="1712345678"
+              className="font-mono"
+            />
+            {check && !check.valid && (
+              <p className="text-sm text-destructive">{check.error}</p>
+            )}
+            {check?.valid && (
+              <p className="text-sm text-muted-foreground">
+                {IDENTIFICATION_LABELS[check.type]} válida
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={!check?.valid || updateMutation.isPending}>
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
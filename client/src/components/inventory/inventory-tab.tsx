@@ -37,6 +37,10 @@ import {
 } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
 import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+import { formatSyncProgress, waitForSyncRun } from "@/lib/jobs";
+import type { SyncRunSnapshot } from "@shared/sync-progress";
+import { ERP_INTEGRATION_TYPES } from "@shared/erp-types";
+import { PullPlanDialog } from "@/components/dashboard/pull-plan-dialog";
 
 interface InventoryTabProps {
   storeId: number;
@@ -80,6 +84,8 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
     limit: 20,
   });
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
+  const [syncProgress, setSyncProgress] = useState<SyncRunSnapshot | null>(null);
+  const [heldPlanId, setHeldPlanId] = useState<number | null>(null); // Pull detenido por la política de aprobación
   const [lastSyncAlertExpanded, setLastSyncAlertExpanded] = useState(true);
   const [duplicateSkusAlertExpanded, setDuplicateSkusAlertExpanded] = useState(true);
 
@@ -100,11 +106,9 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
     },
   });
 
-  // Find Contífico integration
-  const contificoIntegration = integrationsData?.find(
-    (integration: any) =>
-      integration.integration?.name?.toLowerCase().includes("contífico") ||
-      integration.integration?.name?.toLowerCase().includes("contifico")
+  // Find ERP integration (Contífico or another registered ERP)
+  const contificoIntegration = integrationsData?.find((integration: any) =>
+    (ERP_INTEGRATION_TYPES as readonly string[]).includes(integration.integration?.integrationType)
   );
 
   // Fetch product sync status
@@ -162,7 +166,11 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
         throw new Error(error.message || "Error al sincronizar");
       }
 
-      return res.json();
+      // El Pull se ejecuta en segundo plano: seguir su progreso hasta que termine
+      setSyncProgress(null);
+      const { jobId } = await res.json();
+      const job = await waitForSyncRun(jobId, setSyncProgress);
+      return { result: job.result };
     },
     onSuccess: async (data) => {
       // Invalidate and refetch to update product counts
@@ -176,6 +184,15 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
       // Force refetch stores to ensure UI updates
       await queryClient.refetchQueries({ queryKey: ["/api/stores"] });
 
+      if (data.result.requiresApproval && data.result.planId) {
+        setHeldPlanId(data.result.planId);
+        toast({
+          title: "Sincronización pendiente de aprobación",
+          description: "Dejaría en cero más productos de los que permite tu política; revisa los cambios",
+        });
+        return;
+      }
+
       toast({
         title: "Sincronización completada",
         description: `${data.result.success} productos actualizados, ${data.result.skipped} omitidos, ${data.result.failed} fallidos`,
@@ -224,7 +241,10 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
         throw new Error(error.message || "Error al sincronizar productos seleccionados");
       }
 
-      return res.json();
+      setSyncProgress(null);
+      const { jobId } = await res.json();
+      const job = await waitForSyncRun(jobId, setSyncProgress);
+      return { result: job.result };
     },
     onSuccess: async (data) => {
       // Invalidate and refetch to update product counts
@@ -416,7 +436,7 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
                   ) : (
                     <RefreshCw className="h-4 w-4 mr-2" />
                   )}
-                  Sincronizar Todo
+                  {syncMutation.isPending ? formatSyncProgress(syncProgress) : "Sincronizar Todo"}
                 </Button>
               </TooltipTrigger>
               <TooltipContent>
@@ -576,7 +596,9 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
                 ) : (
                   <RefreshCw className="h-4 w-4 mr-2" />
                 )}
-                Sincronizar Seleccionados ({selectedProducts.size})
+                {syncSelectiveMutation.isPending
+                  ? formatSyncProgress(syncProgress)
+                  : `Sincronizar Seleccionados (${selectedProducts.size})`}
               </Button>
             )}
           </div>
@@ -720,6 +742,12 @@ export function InventoryTab({ storeId }: InventoryTabProps) {
           )}
         </CardContent>
       </Card>
+
+      <PullPlanDialog
+        planId={heldPlanId}
+        open={heldPlanId !== null}
+        onOpenChange={(open) => !open && setHeldPlanId(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Receipt, RotateCw, RefreshCw, CheckCircle, Clock, Zap, XCircle } from "lucide-react";
+import { useInvoices, useInvoiceAction, type InvoicesFilters } from "@/hooks/use-invoices";
+import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+
+interface InvoicesTabProps {
+  storeId: number | null;
+}
+
+function getStatusInfo(status: string) {
+  switch (status) {
+    case 'completed':
+      return { icon: CheckCircle, label: 'Emitida', className: 'bg-green-500/10 text-green-700 border-green-200' };
+    case 'pending':
+      return { icon: Clock, label: 'Pendiente', className: 'bg-yellow-500/10 text-yellow-700 border-yellow-200' };
+    case 'processing':
+      return { icon: Zap, label: 'Emitiendo', className: 'bg-blue-500/10 text-blue-700 border-blue-200 animate-pulse' };
+    case 'failed':
+      return { icon: XCircle, label: 'Fallida', className: 'bg-red-500/10 text-red-700 border-red-200' };
+    default:
+      return { icon: Clock, label: status, className: '' };
+  }
+}
+
+function getAuthorizationInfo(status: string | null) {
+  switch (status) {
+    case 'authorized':
+      return { label: 'Autorizada', className: 'bg-green-500/10 text-green-700 border-green-200' };
+    case 'rejected':
+      return { label: 'Rechazada/Anulada', className: 'bg-red-500/10 text-red-700 border-red-200' };
+    case 'pending':
+      return { label: 'En el SRI', className: 'bg-yellow-500/10 text-yellow-700 border-yellow-200' };
+    default:
+      return null;
+  }
+}
+
+export function InvoicesTab({ storeId }: InvoicesTabProps) {
+  const [filters, setFilters] = useState<InvoicesFilters>({ page: 1, limit: 20, status: 'all' });
+  const { data, isLoading } = useInvoices(storeId, filters);
+  const retryMutation = useInvoiceAction(storeId, 'retry');
+  const refreshMutation = useInvoiceAction(storeId, 'refresh');
+
+  // Resetear filtros cuando cambia la tienda
+  useEffect(() => {
+    setFilters({ page: 1, limit: 20, status: 'all' });
+  }, [storeId]);
+
+  const invoices = data?.invoices || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Facturas</h2>
+          <p className="text-muted-foreground">
+            Facturas emitidas en Contífico desde los pedidos pagados
+          </p>
+        </div>
+        <Select
+          value={filters.status || 'all'}
+          onValueChange={(status) => setFilters({ ...filters, status, page: 1 })}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los estados</SelectItem>
+            <SelectItem value="completed">Emitidas</SelectItem>
+            <SelectItem value="pending">Pendientes</SelectItem>
+            <SelectItem value="failed">Fallidas</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : invoices.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Receipt className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold">No hay facturas</h3>
+          <p className="text-sm text-muted-foreground mt-2 max-w-md">
+            Activa la facturación automática en la pestaña Configuración. Las facturas
+            aparecerán aquí cuando se paguen pedidos en tu tienda.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha/Hora</TableHead>
+                <TableHead>Pedido</TableHead>
+                <TableHead>Factura</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Autorización</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map((invoice) => {
+                const statusInfo = getStatusInfo(invoice.status);
+                const StatusIcon = statusInfo.icon;
+                const authorizationInfo = invoice.status === 'completed'
+                  ? getAuthorizationInfo(invoice.authorizationStatus)
+                  : null;
+
+                return (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="text-sm">
+                      {formatEcuadorDateTime(invoice.createdAt)}
+                    </TableCell>
+                    <TableCell className="font-semibold text-foreground">
+                      {invoice.orderNumber || `#${invoice.orderId}`}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {invoice.documentNumber || <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {invoice.total ? `$${Number(invoice.total).toFixed(2)}` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="secondary" className={statusInfo.className}>
+                              <StatusIcon className="h-3 w-3 mr-1" />
+                              {statusInfo.label}
+                            </Badge>
+                          </TooltipTrigger>
+                          {invoice.errorMessage && (
+                            <TooltipContent className="max-w-sm">
+                              {invoice.errorMessage} ({invoice.attempts}/{invoice.maxAttempts} intentos)
+                            </TooltipContent>
+                          )}
+                        </Tooltip>
+                      </TooltipProvider>
+                    </TableCell>
+                    <TableCell>
+                      {authorizationInfo ? (
+                        <div className="space-y-1">
+                          <Badge variant="secondary" className={authorizationInfo.className}>
+                            {authorizationInfo.label}
+                          </Badge>
+                          {invoice.authorizationNumber && (
+                            <p className="font-mono text-xs text-muted-foreground break-all">
+                              {invoice.authorizationNumber}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground text-sm">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {invoice.status === 'failed' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => retryMutation.mutate(invoice.id)}
+                          disabled={retryMutation.isPending}
+                        >
+                          <RotateCw className="h-4 w-4 mr-1" />
+                          Reintentar
+                        </Button>
+                      )}
+                      {invoice.status === 'completed' && invoice.authorizationStatus === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => refreshMutation.mutate(invoice.id)}
+                          disabled={refreshMutation.isPending}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                          Consultar
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {pagination && pagination.total > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Página {pagination.page} de {Math.max(pagination.total_pages, 1)} ({pagination.total} facturas)
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setFilters({ ...filters, page: filters.page - 1 })}
+              disabled={pagination.page === 1}
+            >
+              Anterior
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setFilters({ ...filters, page: filters.page + 1 })}
+              disabled={pagination.page >= pagination.total_pages}
+            >
+              Siguiente
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,10 +10,9 @@ import { convertDateRange } from "@/lib/dateFormatters";
 
 interface MovementsTabProps {
   storeId: number | null;
-  storeName: string;
 }
 
-export function MovementsTab({ storeId, storeName }: MovementsTabProps) {
+export function MovementsTab({ storeId }: MovementsTabProps) {
   const [selectedMovement, setSelectedMovement] = useState<number | null>(null);
   const [detailModalOpen, setDetailModalOpen] = useState(false);
 
@@ -84,7 +83,6 @@ export function MovementsTab({ storeId, storeName }: MovementsTabProps) {
       {/* Filtros */}
       <SyncFilters
         storeId={storeId}
-        storeName={storeName}
         filters={{
           status: filters.status || 'all',
           type: filters.type || 'all',
@@ -112,7 +110,7 @@ export function MovementsTab({ storeId, storeName }: MovementsTabProps) {
       />
 
       {/* SKUs sin Mapear */}
-      <UnmappedSkusSection storeId={storeId} storeName={storeName} />
+      <UnmappedSkusSection storeId={storeId} />
 
       {/* Modal de Detalles */}
       <MovementDetailModal
@@ -14,7 +14,6 @@ import { handleExportMovements } from "@/lib/exportHelpers";
 
 interface SyncFiltersProps {
   storeId: number | null;
-  storeName: string;
   filters: {
     status: string;
     type: string;
@@ -23,7 +22,7 @@ interface SyncFiltersProps {
   onFiltersChange: (filters: any) => void;
 }
 
-export function SyncFilters({ storeId, storeName, filters, onFiltersChange }: SyncFiltersProps) {
+export function SyncFilters({ storeId, filters, onFiltersChange }: SyncFiltersProps) {
   const queryClient = useQueryClient();
   const [isExporting, setIsExporting] = useState(false);
 
@@ -54,7 +53,7 @@ export function SyncFilters({ storeId, storeName, filters, onFiltersChange }: Sy
 
     setIsExporting(true);
     try {
-      await handleExportMovements(storeId, filters, storeName);
+      await handleExportMovements(storeId, filters);
     } finally {
       setIsExporting(false);
     }
@@ -11,10 +11,9 @@ import { handleExportUnmappedSkus } from "@/lib/exportHelpers";
 
 interface UnmappedSkusSectionProps {
   storeId: number | null;
-  storeName: string;
 }
 
-export function UnmappedSkusSection({ storeId, storeName }: UnmappedSkusSectionProps) {
+export function UnmappedSkusSection({ storeId }: UnmappedSkusSectionProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const { data, isLoading } = useUnmappedSkus(storeId);
@@ -30,7 +29,7 @@ export function UnmappedSkusSection({ storeId, storeName }: UnmappedSkusSectionP
     if (!storeId) return;
     setIsExporting(true);
     try {
-      await handleExportUnmappedSkus(storeId, storeName);
+      await handleExportUnmappedSkus(storeId);
     } finally {
       setIsExporting(false);
     }
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Scale, Play, Loader2, Download, Upload, CheckCircle } from "lucide-react";
+import {
+  useReconciliation,
+  useStartReconciliation,
+  useResolveReconciliationItem,
+} from "@/hooks/use-reconciliation";
+import { formatEcuadorDateTime } from "@/lib/dateFormatters";
+
+interface ReconciliationTabProps {
+  storeId: number | null;
+}
+
+function getItemStatusInfo(status: string) {
+  switch (status) {
+    case 'drift':
+      return { label: 'Diferencia', className: 'bg-red-500/10 text-red-700 border-red-200' };
+    case 'explained':
+      return { label: 'Movimientos pendientes', className: 'bg-blue-500/10 text-blue-700 border-blue-200' };
+    case 'missing_in_erp':
+      return { label: 'No existe en el ERP', className: 'bg-yellow-500/10 text-yellow-700 border-yellow-200' };
+    case 'missing_in_store':
+      return { label: 'No existe en la tienda', className: 'bg-gray-500/10 text-gray-700 border-gray-200' };
+    default:
+      return { label: status, className: '' };
+  }
+}
+
+function formatSigned(value: number | null) {
+  if (value === null) return '—';
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+export function ReconciliationTab({ storeId }: ReconciliationTabProps) {
+  const [statusFilter, setStatusFilter] = useState('drift');
+  const { data, isLoading } = useReconciliation(storeId);
+  const startMutation = useStartReconciliation(storeId);
+  const resolveMutation = useResolveReconciliationItem(storeId);
+
+  const reconciliation = data?.reconciliation;
+  const isRunning = reconciliation?.status === 'running';
+  const items = (data?.items || []).filter(
+    (item) => statusFilter === 'all' || item.status === statusFilter
+  );
+
+  const summary = reconciliation?.status === 'completed'
+    ? [
+        { label: 'SKUs comparados', value: reconciliation.totalSkus },
+        { label: 'Iguales', value: reconciliation.matchedCount },
+        { label: 'Con diferencia', value: reconciliation.driftCount },
+        { label: 'Explicadas por movimientos', value: reconciliation.explainedCount },
+        { label: 'No existen en el ERP', value: reconciliation.missingInErpCount },
+        { label: 'No existen en la tienda', value: reconciliation.missingInStoreCount },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Conciliación de Stock</h2>
+          <p className="text-muted-foreground">
+            Compara el stock de cada SKU en la tienda y en Contífico
+            {reconciliation?.completedAt && (
+              <> · Última: {formatEcuadorDateTime(reconciliation.completedAt)}</>
+            )}
+          </p>
+        </div>
+        <Button
+          onClick={() => startMutation.mutate()}
+          disabled={isRunning || startMutation.isPending}
+        >
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4 mr-2" />
+          )}
+          {isRunning ? 'Conciliando...' : 'Conciliar ahora'}
+        </Button>
+      </div>
+
+      {reconciliation?.status === 'failed' && (
+        <div className="rounded-md border border-red-200 bg-red-500/10 p-3 text-sm text-red-700">
+          La última conciliación falló: {reconciliation.errorMessage}
+        </div>
+      )}
+
+      {summary.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {summary.map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="pt-6">
+                <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : !reconciliation ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Scale className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold">Sin conciliaciones</h3>
+          <p className="text-sm text-muted-foreground mt-2 max-w-md">
+            Ejecuta una conciliación para detectar diferencias de stock entre tu tienda y Contífico.
+          </p>
+        </div>
+      ) : reconciliation.status === 'completed' && (
+        <>
+          <div className="flex justify-end">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="drift">Con diferencia</SelectItem>
+                <SelectItem value="explained">Explicadas por movimientos</SelectItem>
+                <SelectItem value="missing_in_erp">No existen en el ERP</SelectItem>
+                <SelectItem value="missing_in_store">No existen en la tienda</SelectItem>
+                <SelectItem value="all">Todas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {items.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <CheckCircle className="h-12 w-12 text-green-600 mb-4" />
+              <h3 className="text-lg font-semibold">Sin diferencias en esta categoría</h3>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Producto</TableHead>
+                    <TableHead className="text-right">Tienda</TableHead>
+                    <TableHead className="text-right">Contífico</TableHead>
+                    <TableHead className="text-right">Diferencia</TableHead>
+                    <TableHead className="text-right">Pendiente</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-right">Resolver</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => {
+                    const statusInfo = getItemStatusInfo(item.status);
+                    const isResolving = resolveMutation.isPending &&
+                      resolveMutation.variables?.itemId === item.id;
+
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-mono text-sm">{item.sku}</TableCell>
+                        <TableCell className="text-sm max-w-xs truncate">
+                          {item.productName || '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{item.storeStock ?? '—'}</TableCell>
+                        <TableCell className="text-right">{item.erpStock ?? '—'}</TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {formatSigned(item.drift)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {item.pendingDelta !== 0 ? formatSigned(item.pendingDelta) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={statusInfo.className}>
+                            {statusInfo.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {item.resolvedAt ? (
+                            <span className="text-xs text-muted-foreground">
+                              {item.resolutionMessage}
+                            </span>
+                          ) : item.status === 'drift' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="La tienda toma el stock de Contífico"
+                                onClick={() => resolveMutation.mutate({ itemId: item.id, method: 'pull' })}
+                                disabled={isResolving}
+                              >
+                                <Download className="h-4 w-4 mr-1" />
+                                Pull
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Registra un ingreso/egreso en Contífico por la diferencia"
+                                onClick={() => resolveMutation.mutate({ itemId: item.id, method: 'adjustment' })}
+                                disabled={isResolving}
+                              >
+                                <Upload className="h-4 w-4 mr-1" />
+                                Ajuste
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveEvents } from "@/hooks/use-live-events";
 import { formatRelativeCompact } from "@/lib/dateFormatters";
 
 interface Notification {
@@ -45,7 +46,13 @@ export function NotificationsDropdown() {
       if (!res.ok) throw new Error('Error al cargar notificaciones');
       return res.json();
     },
-    refetchInterval: 30000, // Refresh every 30 seconds
+  });
+
+  // New notifications arrive over the live events stream
+  useLiveEvents((event) => {
+    if (event.type === 'notification') {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    }
   });
 
   const notifications = data?.notifications || [];
@@ -1,4 +1,4 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
@@ -12,17 +12,23 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  // Contraseña correcta, falta el código de verificación en dos pasos
+  twoFactorPending: boolean;
+  verifyTwoFactorMutation: UseMutationResult<SelectUser, Error, string>;
+  cancelTwoFactor: () => void;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, RegisterData>;
 };
 
 type LoginData = { username: string; password: string; };
+type LoginResponse = SelectUser | { twoFactorRequired: true };
 type RegisterData = { tenantName: string; subdomain: string; name: string; email: string; password: string; planType?: string; };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const {
     data: user,
     error,
@@ -37,10 +43,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (data: LoginResponse) => {
+      // The session opens after the second step (POST /api/login/2fa)
+      if ("twoFactorRequired" in data) {
+        setTwoFactorPending(true);
+        return;
+      }
+
       // CRITICAL: Clear all cached data to prevent showing previous user's data
       queryClient.clear();
-      queryClient.setQueryData(["/api/user"], user);
+      queryClient.setQueryData(["/api/user"], data);
       // Invalidate all queries to refetch with new user context
       queryClient.invalidateQueries();
     },
@@ -63,6 +75,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      setTwoFactorPending(false);
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries();
+    },
+    onError: (error: Error) => {
+      // Expiró o demasiados intentos: volver a pedir la contraseña
+      if (error.message.includes("Inicia sesión de nuevo")) {
+        setTwoFactorPending(false);
+      }
+      toast({
+        title: "Error de verificación",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (credentials: RegisterData) => {
       const res = await apiRequest("POST", "/api/register", credentials);
@@ -121,6 +157,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorPending,
+        verifyTwoFactorMutation,
+        cancelTwoFactor: () => setTwoFactorPending(false),
         logoutMutation,
         registerMutation,
       }}
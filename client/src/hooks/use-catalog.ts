@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+export type CatalogPublishStatus = 'draft' | 'active';
+
+export interface UnpublishedProduct {
+  sku: string;
+  name: string;
+  price: number;
+  stock: number;
+  category: string | null;
+}
+
+export interface CatalogPublishResult {
+  created: number;
+  failed: number;
+  products: Array<{ sku: string; productId: string }>;
+  errors: Array<{ sku: string; error: string }>;
+}
+
+/**
+ * Hook para obtener los productos de Contífico que aún no existen en la tienda
+ */
+export function useUnpublishedProducts(storeId: number | null) {
+  return useQuery<{ products: UnpublishedProduct[] }>({
+    queryKey: ['catalog-unpublished', storeId],
+    queryFn: async () => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(`/api/stores/${storeId}/catalog/unpublished`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to fetch unpublished products');
+      }
+
+      return response.json();
+    },
+    enabled: !!storeId,
+    staleTime: 60000, // 1 minuto (consulta el catálogo completo de ambos sistemas)
+  });
+}
+
+/**
+ * Hook para publicar productos de Contífico en la tienda
+ */
+export function usePublishProducts(storeId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ skus, status }: { skus: string[]; status: CatalogPublishStatus }): Promise<CatalogPublishResult> => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(`/api/stores/${storeId}/catalog/publish`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ skus, status }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to publish products');
+      }
+
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-unpublished', storeId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stores/${storeId}/products/sync-status`] });
+
+      if (result.failed === 0) {
+        toast.success(`${result.created} productos publicados en la tienda`);
+      } else {
+        toast.error(`${result.created} productos publicados, ${result.failed} con error`, {
+          description: result.errors.map((e) => `${e.sku}: ${e.error}`).join('\n'),
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error al publicar productos');
+    },
+  });
+}
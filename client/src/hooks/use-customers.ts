@@ -0,0 +1,150 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { IdentificationType } from '@shared/ec-identification';
+
+export type CustomerStatus = 'pending' | 'synced' | 'review' | 'failed';
+
+export interface Customer {
+  id: number;
+  storeId: number;
+  integrationId: number;
+  customerKey: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  identification: string | null;
+  identificationType: IdentificationType | null;
+  status: CustomerStatus;
+  reviewReason: string | null;
+  reviewedAt: Date | null;
+  erpPersonId: string | null;
+  lastOrderId: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  syncedAt: Date | null;
+}
+
+/**
+ * Hook para obtener los clientes capturados de los pedidos (cola de revisión con status 'review')
+ */
+export function useCustomers(storeId: number | null, status: string) {
+  return useQuery<{ customers: Customer[] }>({
+    queryKey: ['customers', storeId, status],
+    queryFn: async () => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const params = new URLSearchParams();
+      if (status && status !== 'all') {
+        params.append('status', status);
+      }
+
+      const response = await fetch(
+        `/api/stores/${storeId}/customers?${params.toString()}`,
+        {
+          credentials: 'include',
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch customers');
+      }
+
+      return response.json();
+    },
+    enabled: !!storeId,
+    placeholderData: (previousData) => previousData,
+    staleTime: 10000, // 10 segundos
+  });
+}
+
+/**
+ * Hook para corregir la identificación de un cliente
+ */
+export function useUpdateCustomerIdentification(storeId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ customerId, identification }: { customerId: number; identification: string }) => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(
+        `/api/stores/${storeId}/customers/${customerId}/identification`,
+        {
+          method: 'PUT',
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ identification }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update customer');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers', storeId] });
+      queryClient.invalidateQueries({ queryKey: ['invoices', storeId] });
+      toast.success('Identificación actualizada');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error al actualizar el cliente');
+    },
+  });
+}
+
+/**
+ * Hook para acciones sobre un cliente: aprobar (en revisión) o reintentar la sincronización (fallidos)
+ */
+export function useCustomerAction(storeId: number | null, action: 'approve' | 'sync') {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (customerId: number) => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(
+        `/api/stores/${storeId}/customers/${customerId}/${action}`,
+        {
+          method: 'POST',
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || `Failed to ${action} customer`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers', storeId] });
+      queryClient.invalidateQueries({ queryKey: ['invoices', storeId] });
+
+      toast.success(
+        action === 'approve'
+          ? 'Cliente aprobado'
+          : 'Sincronización del cliente reintentada'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error al actualizar el cliente');
+    },
+  });
+}
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { InvoiceAuthorizationStatus, InvoiceStatus } from '@shared/invoicing';
+
+export interface Invoice {
+  id: number;
+  storeId: number;
+  integrationId: number;
+  orderId: string;
+  orderNumber: string | null;
+  status: InvoiceStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastAttemptAt: Date | null;
+  nextAttemptAt: Date | null;
+  errorMessage: string | null;
+  documentId: string | null;
+  documentNumber: string | null;
+  authorizationStatus: InvoiceAuthorizationStatus | null;
+  authorizationNumber: string | null;
+  total: string | null;
+  createdAt: Date;
+  processedAt: Date | null;
+}
+
+export interface InvoicesFilters {
+  page: number;
+  limit: number;
+  status?: string;
+}
+
+interface InvoicesResponse {
+  invoices: Invoice[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+/**
+ * Hook para obtener las facturas generadas desde pedidos pagados
+ */
+export function useInvoices(storeId: number | null, filters: InvoicesFilters) {
+  return useQuery<InvoicesResponse>({
+    queryKey: ['invoices', storeId, filters],
+    queryFn: async () => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const params = new URLSearchParams({
+        page: filters.page.toString(),
+        limit: filters.limit.toString(),
+      });
+
+      if (filters.status && filters.status !== 'all') {
+        params.append('status', filters.status);
+      }
+
+      const response = await fetch(
+        `/api/stores/${storeId}/invoices?${params.toString()}`,
+        {
+          credentials: 'include',
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch invoices');
+      }
+
+      return response.json();
+    },
+    enabled: !!storeId,
+    placeholderData: (previousData) => previousData,
+    staleTime: 10000, // 10 segundos
+  });
+}
+
+/**
+ * Hook para acciones sobre una factura: reintentar (fallidas) o consultar la autorización (emitidas)
+ */
+export function useInvoiceAction(storeId: number | null, action: 'retry' | 'refresh') {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invoiceId: number) => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(
+        `/api/stores/${storeId}/invoices/${invoiceId}/${action}`,
+        {
+          method: 'POST',
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || `Failed to ${action} invoice`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices', storeId] });
+
+      toast.success(
+        action === 'retry'
+          ? 'Factura enviada a la cola de reintentos'
+          : 'Estado de autorización actualizado'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error al actualizar la factura');
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import type { SyncEventEnvelope } from '@shared/sync-progress';
+
+type LiveEventListener = (event: SyncEventEnvelope) => void;
+
+const LIVE_EVENT_TYPES: SyncEventEnvelope['type'][] = [
+  'started',
+  'progress',
+  'completed',
+  'failed',
+  'cancelled',
+  'movement',
+  'notification',
+];
+
+// Una sola conexión SSE por pestaña, compartida por todos los componentes suscritos
+const listeners = new Set<LiveEventListener>();
+let source: EventSource | null = null;
+
+function connect() {
+  source = new EventSource('/api/events', { withCredentials: true });
+  for (const type of LIVE_EVENT_TYPES) {
+    source.addEventListener(type, (message) => {
+      const event: SyncEventEnvelope = JSON.parse((message as MessageEvent).data);
+      listeners.forEach((listener) => listener(event));
+    });
+  }
+}
+
+/**
+ * Hook para recibir en tiempo real los eventos del tenant (GET /api/events):
+ * progreso de sincronizaciones, movimientos de Push y notificaciones
+ * El navegador reconecta automáticamente si se pierde la conexión
+ */
+export function useLiveEvents(listener: LiveEventListener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    const handler: LiveEventListener = (event) => listenerRef.current(event);
+    listeners.add(handler);
+    if (!source) {
+      connect();
+    }
+
+    return () => {
+      listeners.delete(handler);
+      if (listeners.size === 0 && source) {
+        source.close();
+        source = null;
+      }
+    };
+  }, []);
+}
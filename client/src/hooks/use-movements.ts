@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { convertDateRange } from '@/lib/dateFormatters';
+import { useLiveEvents } from './use-live-events';
 
 export interface Movement {
   id: number;
@@ -44,8 +45,17 @@ interface MovementsResponse {
 
 /**
  * Hook para obtener movimientos de inventario con filtros
+ * Se refresca en vivo cuando el Push encola o procesa un movimiento de la tienda
  */
 export function useMovements(storeId: number | null, filters: MovementsFilters) {
+  const queryClient = useQueryClient();
+
+  useLiveEvents((event) => {
+    if (event.type === 'movement' && event.storeId === storeId) {
+      queryClient.invalidateQueries({ queryKey: ['movements', storeId] });
+    }
+  });
+
   return useQuery<MovementsResponse>({
     queryKey: ['movements', storeId, filters],
     queryFn: async () => {
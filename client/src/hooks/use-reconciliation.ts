@@ -0,0 +1,154 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+export type ReconciliationItemStatus = 'drift' | 'explained' | 'missing_in_erp' | 'missing_in_store';
+
+export interface StockReconciliation {
+  id: number;
+  storeId: number;
+  integrationId: number;
+  status: 'running' | 'completed' | 'failed';
+  warehouseId: string | null;
+  totalSkus: number;
+  matchedCount: number;
+  driftCount: number;
+  explainedCount: number;
+  missingInErpCount: number;
+  missingInStoreCount: number;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface StockReconciliationItem {
+  id: number;
+  reconciliationId: number;
+  sku: string;
+  productId: string | null;
+  productName: string | null;
+  status: ReconciliationItemStatus;
+  storeStock: number | null;
+  cachedStock: number | null;
+  erpStock: number | null;
+  drift: number | null;
+  pendingDelta: number;
+  resolution: 'pull' | 'adjustment' | null;
+  resolutionMessage: string | null;
+  resolvedAt: Date | null;
+}
+
+interface ReconciliationResponse {
+  reconciliation: StockReconciliation | null;
+  items: StockReconciliationItem[];
+}
+
+/**
+ * Hook para obtener la última conciliación de stock (se consulta cada 3s mientras está en curso)
+ */
+export function useReconciliation(storeId: number | null) {
+  return useQuery<ReconciliationResponse>({
+    queryKey: ['reconciliation', storeId],
+    queryFn: async () => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(`/api/stores/${storeId}/reconciliation`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch reconciliation');
+      }
+
+      return response.json();
+    },
+    enabled: !!storeId,
+    refetchInterval: (query) =>
+      query.state.data?.reconciliation?.status === 'running' ? 3000 : false,
+  });
+}
+
+/**
+ * Hook para iniciar una conciliación de stock
+ */
+export function useStartReconciliation(storeId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(`/api/stores/${storeId}/reconciliation`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to start reconciliation');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation', storeId] });
+      toast.success('Conciliación iniciada');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error al iniciar la conciliación');
+    },
+  });
+}
+
+/**
+ * Hook para resolver una diferencia: Pull del SKU o movimiento de ajuste en el ERP
+ */
+export function useResolveReconciliationItem(storeId: number | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ itemId, method }: { itemId: number; method: 'pull' | 'adjustment' }) => {
+      if (!storeId) {
+        throw new Error('Store ID is required');
+      }
+
+      const response = await fetch(
+        `/api/stores/${storeId}/reconciliation/items/${itemId}/resolve`,
+        {
+          method: 'POST',
+          credentials: 'include',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ method }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || error.message || 'Failed to resolve item');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, { method }) => {
+      queryClient.invalidateQueries({ queryKey: ['reconciliation', storeId] });
+      queryClient.invalidateQueries({ queryKey: ['movements', storeId] });
+
+      toast.success(
+        method === 'pull'
+          ? 'Stock de la tienda actualizado desde el ERP'
+          : 'Movimiento de ajuste encolado'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Error al resolver la diferencia');
+    },
+  });
+}
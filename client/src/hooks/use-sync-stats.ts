@@ -1,4 +1,5 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLiveEvents } from './use-live-events';
 
 interface SyncStats {
   pending: number;
@@ -10,9 +11,17 @@ interface SyncStats {
 
 /**
  * Hook para obtener estadísticas de sincronización push
- * Se actualiza automáticamente cada 30 segundos
+ * Se actualiza en vivo con cada movimiento de la tienda
  */
 export function useSyncStats(storeId: number | null) {
+  const queryClient = useQueryClient();
+
+  useLiveEvents((event) => {
+    if (event.type === 'movement' && event.storeId === storeId) {
+      queryClient.invalidateQueries({ queryKey: ['sync-stats', storeId] });
+    }
+  });
+
   return useQuery<SyncStats>({
     queryKey: ['sync-stats', storeId],
     queryFn: async () => {
@@ -31,7 +40,6 @@ export function useSyncStats(storeId: number | null) {
       return response.json();
     },
     enabled: !!storeId,
-    refetchInterval: 30000, // Actualizar cada 30 segundos
     staleTime: 25000, // Considerar datos obsoletos después de 25 segundos
   });
 }
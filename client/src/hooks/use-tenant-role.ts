@@ -0,0 +1,17 @@
+import { useAuth } from "@/hooks/use-auth";
+import { getTenantRole, hasTenantRole, type TenantRole } from "@shared/tenant-roles";
+
+/**
+ * Rol del usuario en su empresa, para ocultar acciones que el servidor rechazaría
+ * El administrador de la plataforma puede hacer todo
+ */
+export function useTenantRole() {
+  const { user } = useAuth();
+  const role = getTenantRole(user);
+  const isPlatformAdmin = user?.role === "admin";
+
+  return {
+    role,
+    can: (required: TenantRole) => isPlatformAdmin || hasTenantRole(role, required),
+  };
+}
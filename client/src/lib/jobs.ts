@@ -0,0 +1,189 @@
+import { isJobFinished, type JobStatus, type JobType } from '@shared/jobs';
+import { applySyncEvent, type SyncRunSnapshot } from '@shared/sync-progress';
+
+/**
+ * Trabajo en segundo plano tal como lo devuelve GET /api/jobs/:id
+ */
+export interface JobInfo<TResult = any> {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: TResult | null;
+  lastError: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+/**
+ * El trabajo fue cancelado por el usuario; result tiene lo procesado hasta entonces
+ */
+export class JobCancelledError<TResult = any> extends Error {
+  constructor(public readonly job: JobInfo<TResult>) {
+    super(job.lastError || 'El trabajo fue cancelado');
+    this.name = 'JobCancelledError';
+  }
+}
+
+const POLL_INTERVAL_MS = 1500;
+const MAX_WAIT_MS = 30 * 60 * 1000;
+
+/**
+ * Espera a que termine un trabajo consultando su estado periódicamente
+ * @returns El trabajo completado (con su resultado)
+ * @throws Error con el último error del trabajo si falló, JobCancelledError si se canceló
+ */
+export async function waitForJob<TResult = any>(jobId: number): Promise<JobInfo<TResult>> {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < MAX_WAIT_MS) {
+    const response = await fetch(`/api/jobs/${jobId}`, { credentials: 'include' });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Error al consultar el trabajo');
+    }
+
+    const job: JobInfo<TResult> = await response.json();
+    if (isJobFinished(job.status)) {
+      if (job.status === 'dead') {
+        throw new Error(job.lastError || 'El trabajo falló');
+      }
+      if (job.status === 'cancelled') {
+        throw new JobCancelledError(job);
+      }
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error('El trabajo está tardando demasiado; revisa el resultado más tarde');
+}
+
+const SYNC_RUN_EVENTS = ['snapshot', 'started', 'progress', 'completed', 'failed', 'cancelled'];
+
+// Mientras sigue el stream, se consulta el trabajo cada tanto por si el final no llega por el stream
+const SYNC_RUN_JOB_CHECK_MS = 15000;
+
+/**
+ * Espera a que termine una sincronización (Pull / Pull selectivo) siguiendo su progreso en vivo
+ * por GET /api/sync/runs/:jobId/events; si el stream se corta o el trabajo termina sin que llegue
+ * el evento final (p. ej. se ejecutó en otro proceso), sigue consultando el trabajo
+ * @param onProgress - Recibe el estado acumulado tras cada evento
+ * @returns El trabajo completado (con su resultado)
+ */
+export async function waitForSyncRun<TResult = any>(
+  jobId: number,
+  onProgress: (snapshot: SyncRunSnapshot) => void,
+): Promise<JobInfo<TResult>> {
+  await new Promise<void>((resolve) => {
+    const source = new EventSource(`/api/sync/runs/${jobId}/events`, { withCredentials: true });
+    let snapshot: SyncRunSnapshot | null = null;
+
+    const finish = () => {
+      clearInterval(jobCheck);
+      source.close();
+      resolve();
+    };
+
+    const jobCheck = setInterval(async () => {
+      const response = await fetch(`/api/jobs/${jobId}`, { credentials: 'include' }).catch(() => null);
+      const job: JobInfo | null = response?.ok ? await response.json().catch(() => null) : null;
+      if (job && isJobFinished(job.status)) {
+        finish();
+      }
+    }, SYNC_RUN_JOB_CHECK_MS);
+
+    for (const type of SYNC_RUN_EVENTS) {
+      source.addEventListener(type, (message) => {
+        const data = JSON.parse((message as MessageEvent).data);
+        snapshot = type === 'snapshot' ? data : applySyncEvent(snapshot, data);
+        if (!snapshot) return;
+
+        onProgress(snapshot);
+        if (snapshot.status !== 'running') {
+          finish();
+        }
+      });
+    }
+
+    source.onerror = finish;
+  });
+
+  // El resultado definitivo (o el error tras agotar reintentos) viene del trabajo
+  return waitForJob<TResult>(jobId);
+}
+
+/**
+ * Cancela una sincronización (Pull / Pull selectivo); si ya está en curso se detiene al terminar el lote actual
+ */
+export async function cancelSyncRun(jobId: number): Promise<void> {
+  const response = await fetch(`/api/sync/runs/${jobId}/cancel`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Error al cancelar la sincronización');
+  }
+}
+
+/**
+ * Texto corto del progreso de una sincronización para botones: "Sincronizando 120/500..."
+ */
+export function formatSyncProgress(snapshot: SyncRunSnapshot | null): string {
+  if (!snapshot || snapshot.total === 0) {
+    return 'Sincronizando...';
+  }
+  return `Sincronizando ${snapshot.processed}/${snapshot.total}...`;
+}
+
+/**
+ * Encola una exportación, espera a que se genere el archivo y lo descarga
+ * @param request - Tipo de exportación y sus parámetros (POST /api/exports)
+ */
+export async function runExport(request: {
+  kind: 'sync_log' | 'push_movements' | 'unmapped_skus';
+  storeId?: number;
+  syncLogId?: number;
+  filters?: Record<string, string | undefined>;
+}): Promise<void> {
+  const response = await fetch('/api/exports', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Error al exportar');
+  }
+
+  const { jobId } = await response.json();
+  const job = await waitForJob<{ filename: string }>(jobId);
+
+  // Descargar el archivo generado
+  const fileResponse = await fetch(`/api/jobs/${jobId}/download`, { credentials: 'include' });
+  if (!fileResponse.ok) {
+    throw new Error('Error al descargar el archivo');
+  }
+
+  const blob = await fileResponse.blob();
+
+  // Crear URL temporal y descargar
+  const downloadUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = downloadUrl;
+  link.download = job.result?.filename || 'export.xlsx';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Limpiar URL temporal
+  window.URL.revokeObjectURL(downloadUrl);
+}
@@ -1,6 +1,8 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { isTwoFactorRequired } from "@shared/two-factor";
+import type { Tenant } from "@shared/schema";
 
 export function ProtectedRoute({
   path,
@@ -47,5 +49,15 @@ export function ProtectedRoute({
     );
   }
 
+  // La empresa exige verificación en dos pasos y el usuario aún no la activó
+  const tenant = (user as { tenant?: Tenant | null }).tenant;
+  if (user.role !== "admin" && isTwoFactorRequired(tenant?.settings) && !user.twoFactorEnabledAt) {
+    return (
+      <Route path={path}>
+        <Redirect to="/two-factor-setup" />
+      </Route>
+    );
+  }
+
   return <Component />
 }
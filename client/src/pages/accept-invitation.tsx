@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Redirect, useLocation, useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, MailX, UserPlus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { TENANT_ROLE_DESCRIPTIONS, TENANT_ROLE_LABELS, getTenantRole } from "@shared/tenant-roles";
+
+interface InvitationDetails {
+  email: string;
+  role: string;
+  tenantName: string | null;
+  expiresAt: string;
+}
+
+/**
+ * Aceptar una invitación al equipo: la persona invitada crea su cuenta con el rol asignado
+ */
+export default function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invitations/${token}`],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invitations/${token}/accept`, { name, password });
+      return res.json();
+    },
+    onSuccess: (newUser) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], newUser);
+      toast({ title: "¡Bienvenido!", description: "Tu cuenta fue creada" });
+      setLocation("/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al aceptar la invitación", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Una sesión abierta pertenece a otra cuenta: la invitación es para crear una nueva
+  if (user && !acceptMutation.isSuccess) {
+    return <Redirect to="/dashboard" />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({ title: "Las contraseñas no coinciden", variant: "destructive" });
+      return;
+    }
+    acceptMutation.mutate();
+  };
+
+  const role = getTenantRole({ tenantRole: invitation?.role });
+
+  return (
+    <div className="min-h-screen login-gradient flex items-center justify-center p-6">
+      <Card className="w-full max-w-md shadow-2xl border-0">
+        {isLoading ? (
+          <CardContent className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </CardContent>
+        ) : error || !invitation ? (
+          <CardContent className="py-12 text-center space-y-4">
+            <MailX className="h-12 w-12 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">
+              La invitación no existe, ya fue usada o venció. Pide a tu empresa una nueva invitación.
+            </p>
+            <Button variant="outline" onClick={() => setLocation("/auth")}>
+              Ir a iniciar sesión
+            </Button>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Únete a {invitation.tenantName || "tu empresa"}</CardTitle>
+              <CardDescription>
+                Te invitaron como <strong>{TENANT_ROLE_LABELS[role]}</strong>: {TENANT_ROLE_DESCRIPTIONS[role].toLowerCase()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Correo electrónico</Label>
+                  <Input id="invite-email" value={invitation.email} disabled />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-name">Nombre</Label>
+                  <Input
+                    id="invite-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-password">Contraseña</Label>
+                  <Input
+                    id="invite-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-confirm-password">Confirmar contraseña</Label>
+                  <Input
+                    id="invite-confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+                  {acceptMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <UserPlus className="mr-2 h-4 w-4" />
+                  )}
+                  Crear cuenta y unirme
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
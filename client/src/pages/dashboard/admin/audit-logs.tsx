@@ -74,6 +74,9 @@ export default function AuditLogsPage() {
       activate_account: "bg-blue-500",
       change_plan: "bg-purple-500",
       delete_account: "bg-gray-800",
+      retry_job: "bg-cyan-600",
+      reset_two_factor: "bg-amber-600",
+      change_two_factor_policy: "bg-indigo-500",
     };
 
     const labels: Record<string, string> = {
@@ -83,6 +86,9 @@ export default function AuditLogsPage() {
       activate_account: "Activar",
       change_plan: "Cambiar Plan",
       delete_account: "Eliminar",
+      retry_job: "Reintentar Trabajo",
+      reset_two_factor: "Restablecer 2FA",
+      change_two_factor_policy: "Política 2FA",
     };
 
     return (
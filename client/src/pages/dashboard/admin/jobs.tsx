@@ -0,0 +1,298 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/pages/dashboard-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatEcuadorDateTimeWithSeconds } from "@/lib/dateFormatters";
+import {
+  JOB_STATUS_LABELS,
+  JOB_TYPE_LABELS,
+  type JobStatus,
+  type JobType,
+} from "@shared/jobs";
+
+interface AdminJob {
+  id: number;
+  tenantId: number | null;
+  tenantName: string | null;
+  storeId: number | null;
+  type: JobType;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+  lastError: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+interface JobQueueResponse {
+  stats: Array<{ type: JobType; status: JobStatus; count: number }>;
+  running: AdminJob[];
+  pending: AdminJob[];
+  dead: AdminJob[];
+}
+
+const STATUS_ORDER: JobStatus[] = ["pending", "running", "completed", "cancelled", "dead"];
+
+export default function AdminJobsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<JobQueueResponse>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: 5000, // La cola cambia constantemente
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${jobId}/retry`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Trabajo reencolado" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Profundidad de la cola: tipo → estado → cantidad
+  const depth = new Map<JobType, Partial<Record<JobStatus, number>>>();
+  for (const row of data?.stats || []) {
+    depth.set(row.type, { ...depth.get(row.type), [row.status]: row.count });
+  }
+
+  const getStoreLabel = (job: AdminJob) =>
+    job.tenantName ? `${job.tenantName}${job.storeId ? ` · tienda ${job.storeId}` : ""}` : "Sistema";
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Cola de Trabajos</h1>
+          <p className="text-muted-foreground">
+            Sincronizaciones, envíos a Contífico, facturas, webhooks y exportaciones en segundo plano
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {/* Queue depth */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Profundidad de la cola</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tipo</TableHead>
+                      {STATUS_ORDER.map((status) => (
+                        <TableHead key={status} className="text-right">
+                          {JOB_STATUS_LABELS[status]}
+                          {(status === "completed" || status === "cancelled") && " (24h)"}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map((type) => (
+                      <TableRow key={type}>
+                        <TableCell className="font-medium">{JOB_TYPE_LABELS[type]}</TableCell>
+                        {STATUS_ORDER.map((status) => (
+                          <TableCell key={status} className="text-right font-mono">
+                            {depth.get(type)?.[status] || 0}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Running jobs */}
+            <Card>
+              <CardHeader>
+                <CardTitle>En ejecución ({data?.running.length || 0})</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>ID</TableHead>
+                        <TableHead>Tipo</TableHead>
+                        <TableHead>Tenant</TableHead>
+                        <TableHead>Worker</TableHead>
+                        <TableHead>Inicio</TableHead>
+                        <TableHead>Lock hasta</TableHead>
+                        <TableHead className="text-right">Intento</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data?.running.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                            No hay trabajos en ejecución
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        data?.running.map((job) => (
+                          <TableRow key={job.id}>
+                            <TableCell className="font-mono text-sm">{job.id}</TableCell>
+                            <TableCell>{JOB_TYPE_LABELS[job.type] || job.type}</TableCell>
+                            <TableCell>{getStoreLabel(job)}</TableCell>
+                            <TableCell className="font-mono text-xs">{job.lockedBy}</TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {job.startedAt ? formatEcuadorDateTimeWithSeconds(job.startedAt) : "-"}
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {job.lockedUntil ? formatEcuadorDateTimeWithSeconds(job.lockedUntil) : "-"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {job.attempts}/{job.maxAttempts}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Pending jobs */}
+            <Card>
+              <CardHeader>
+                <CardTitle>En cola ({data?.pending.length || 0})</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>ID</TableHead>
+                        <TableHead>Tipo</TableHead>
+                        <TableHead>Tenant</TableHead>
+                        <TableHead className="text-right">Prioridad</TableHead>
+                        <TableHead>Ejecutar desde</TableHead>
+                        <TableHead>Último error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data?.pending.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                            La cola está vacía
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        data?.pending.map((job) => (
+                          <TableRow key={job.id}>
+                            <TableCell className="font-mono text-sm">{job.id}</TableCell>
+                            <TableCell>{JOB_TYPE_LABELS[job.type] || job.type}</TableCell>
+                            <TableCell>{getStoreLabel(job)}</TableCell>
+                            <TableCell className="text-right">{job.priority}</TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {formatEcuadorDateTimeWithSeconds(job.runAt)}
+                            </TableCell>
+                            <TableCell className="max-w-md truncate text-sm text-muted-foreground">
+                              {job.lastError || "-"}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Dead jobs */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Fallidos sin reintentos ({data?.dead.length || 0})</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>ID</TableHead>
+                        <TableHead>Tipo</TableHead>
+                        <TableHead>Tenant</TableHead>
+                        <TableHead>Fecha</TableHead>
+                        <TableHead>Error</TableHead>
+                        <TableHead className="text-right">Acciones</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data?.dead.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                            No hay trabajos fallidos
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        data?.dead.map((job) => (
+                          <TableRow key={job.id}>
+                            <TableCell className="font-mono text-sm">{job.id}</TableCell>
+                            <TableCell>
+                              <Badge className="bg-red-500">
+                                {JOB_TYPE_LABELS[job.type] || job.type}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{getStoreLabel(job)}</TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {job.completedAt ? formatEcuadorDateTimeWithSeconds(job.completedAt) : "-"}
+                            </TableCell>
+                            <TableCell className="max-w-md truncate text-sm" title={job.lastError || ""}>
+                              {job.lastError || "-"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => retryMutation.mutate(job.id)}
+                                disabled={retryMutation.isPending}
+                              >
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Reintentar
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -93,6 +93,7 @@ interface TenantUser {
   email: string;
   name: string;
   role: string;
+  twoFactorEnabled?: boolean;
 }
 
 interface ActionDialog {
@@ -288,6 +289,20 @@ export default function AdminUsersPage() {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async ({ tenantId, userId }: { tenantId: number; userId: number }) => {
+      const res = await apiRequest("PUT", `/api/admin/users/${tenantId}/two-factor/${userId}/reset`, {});
+      return res.json();
+    },
+    onSuccess: (_data, { tenantId }) => {
+      toast({ title: "Verificación en dos pasos restablecida" });
+      fetchTenantUsers(tenantId);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const fetchTenantUsers = async (tenantId: number) => {
     try {
       const res = await fetch(`/api/admin/users/${tenantId}`);
@@ -827,6 +842,29 @@ export default function AdminUsersPage() {
                         </Select>
                       </div>
                     )}
+
+                    {actionDialog.selectedUserId &&
+                      actionDialog.tenantUsers.find((u) => u.id === actionDialog.selectedUserId)?.twoFactorEnabled && (
+                        <div className="flex items-center justify-between rounded-lg border p-3">
+                          <p className="text-sm text-muted-foreground">
+                            Verificación en dos pasos activa
+                          </p>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={resetTwoFactorMutation.isPending}
+                            onClick={() =>
+                              actionDialog.tenant &&
+                              resetTwoFactorMutation.mutate({
+                                tenantId: actionDialog.tenant.id,
+                                userId: actionDialog.selectedUserId!,
+                              })
+                            }
+                          >
+                            Restablecer 2FA
+                          </Button>
+                        </div>
+                      )}
                   </>
                 ) : (
                   <div className="flex items-center justify-center py-8 text-muted-foreground">
@@ -16,6 +16,10 @@ import { InventoryTab } from "@/components/inventory/inventory-tab";
 import { SyncTab } from "@/components/inventory/sync-tab";
 import { ConfigTab } from "@/components/inventory/config-tab";
 import { MovementsTab } from "@/components/inventory/push/movements-tab";
+import { InvoicesTab } from "@/components/inventory/invoices-tab";
+import { CustomersTab } from "@/components/inventory/customers-tab";
+import { ReconciliationTab } from "@/components/inventory/reconciliation-tab";
+import { CatalogTab } from "@/components/inventory/catalog-tab";
 
 interface Store {
   id: number;
@@ -144,10 +148,14 @@ export default function ContificoInventoryPage() {
         ) : (
           // Tabs Content
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-            <TabsList className="grid w-full grid-cols-4 lg:w-[700px]">
+            <TabsList className="grid w-full grid-cols-8 lg:w-[1300px]">
               <TabsTrigger value="inventory">Inventario</TabsTrigger>
               <TabsTrigger value="syncs">Sincronizaciones</TabsTrigger>
               <TabsTrigger value="movements">Movimientos</TabsTrigger>
+              <TabsTrigger value="reconciliation">Conciliación</TabsTrigger>
+              <TabsTrigger value="catalog">Catálogo</TabsTrigger>
+              <TabsTrigger value="invoices">Facturas</TabsTrigger>
+              <TabsTrigger value="customers">Clientes</TabsTrigger>
               <TabsTrigger value="config">Configuración</TabsTrigger>
             </TabsList>
 
@@ -162,12 +170,33 @@ export default function ContificoInventoryPage() {
             <TabsContent value="movements" className="space-y-4">
               <MovementsTab
                 storeId={parseInt(selectedStoreId)}
-                storeName={selectedStore?.storeName || ''}
               />
             </TabsContent>
 
+            <TabsContent value="reconciliation" className="space-y-4">
+              <ReconciliationTab storeId={parseInt(selectedStoreId)} />
+            </TabsContent>
+
+            <TabsContent value="catalog" className="space-y-4">
+              <CatalogTab
+                storeId={parseInt(selectedStoreId)}
+                platform={selectedStore?.platform || ''}
+              />
+            </TabsContent>
+
+            <TabsContent value="invoices" className="space-y-4">
+              <InvoicesTab storeId={parseInt(selectedStoreId)} />
+            </TabsContent>
+
+            <TabsContent value="customers" className="space-y-4">
+              <CustomersTab storeId={parseInt(selectedStoreId)} />
+            </TabsContent>
+
             <TabsContent value="config" className="space-y-4">
-              <ConfigTab storeId={parseInt(selectedStoreId)} />
+              <ConfigTab
+                storeId={parseInt(selectedStoreId)}
+                platform={selectedStore?.platform || ''}
+              />
             </TabsContent>
           </Tabs>
         )}
@@ -1,11 +1,17 @@
 import DashboardLayout from "../dashboard-layout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { User, Shield, CreditCard } from "lucide-react";
+import { User, Shield, CreditCard, Users } from "lucide-react";
 import AccountSection from "@/components/dashboard/settings/account-section";
 import SecuritySection from "@/components/dashboard/settings/security-section";
 import BillingSection from "@/components/dashboard/settings/billing-section";
+import ApiKeysSection from "@/components/dashboard/settings/api-keys-section";
+import TeamSection from "@/components/dashboard/settings/team-section";
+import TwoFactorSection from "@/components/dashboard/settings/two-factor-section";
+import { useTenantRole } from "@/hooks/use-tenant-role";
 
 export default function SettingsPage() {
+  const { can } = useTenantRole();
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -17,7 +23,7 @@ export default function SettingsPage() {
         </div>
 
         <Tabs defaultValue="account" className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
+          <TabsList className="grid w-full max-w-lg grid-cols-4">
             <TabsTrigger value="account" className="flex items-center gap-2">
               <User className="h-4 w-4" />
               <span className="hidden sm:inline">Cuenta</span>
@@ -26,6 +32,10 @@ export default function SettingsPage() {
               <Shield className="h-4 w-4" />
               <span className="hidden sm:inline">Seguridad</span>
             </TabsTrigger>
+            <TabsTrigger value="team" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              <span className="hidden sm:inline">Equipo</span>
+            </TabsTrigger>
             <TabsTrigger value="billing" className="flex items-center gap-2">
               <CreditCard className="h-4 w-4" />
               <span className="hidden sm:inline">Plan</span>
@@ -38,6 +48,12 @@ export default function SettingsPage() {
 
           <TabsContent value="security" className="space-y-6">
             <SecuritySection />
+            <TwoFactorSection />
+            {can("manager") && <ApiKeysSection />}
+          </TabsContent>
+
+          <TabsContent value="team" className="space-y-6">
+            <TeamSection />
           </TabsContent>
 
           <TabsContent value="billing" className="space-y-6">
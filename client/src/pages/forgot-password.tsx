@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, MailCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Solicitar un enlace para restablecer la contraseña
+ */
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/forgot-password", { email });
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen login-gradient flex items-center justify-center p-6">
+      <Card className="w-full max-w-md shadow-2xl border-0">
+        <CardHeader>
+          <CardTitle>¿Olvidaste tu contraseña?</CardTitle>
+          <CardDescription>
+            Ingresa tu correo electrónico y te enviaremos un enlace para crear una nueva
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {requestMutation.isSuccess ? (
+            <div className="text-center space-y-4 py-4">
+              <MailCheck className="h-12 w-12 mx-auto text-primary" />
+              <p className="text-muted-foreground">{requestMutation.data.message}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="forgot-email">Correo electrónico</Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="tu@correo.com"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+                {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Enviar enlace
+              </Button>
+            </form>
+          )}
+          <div className="text-center">
+            <Link href="/auth" className="text-sm text-primary hover:underline">
+              Volver a iniciar sesión
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Crear una nueva contraseña con el enlace enviado por correo
+ */
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reset-password", { token, password });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: "Contraseña restablecida", description: data.message });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error al restablecer la contraseña", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({ title: "Las contraseñas no coinciden", variant: "destructive" });
+      return;
+    }
+    resetMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen login-gradient flex items-center justify-center p-6">
+      <Card className="w-full max-w-md shadow-2xl border-0">
+        <CardHeader>
+          <CardTitle>Nueva contraseña</CardTitle>
+          <CardDescription>
+            Al cambiarla se cerrarán todas tus sesiones abiertas
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">Contraseña</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reset-confirm-password">Confirmar contraseña</Label>
+              <Input
+                id="reset-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+              {resetMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <KeyRound className="mr-2 h-4 w-4" />
+              )}
+              Guardar contraseña
+            </Button>
+          </form>
+          <div className="text-center">
+            <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+              Solicitar un nuevo enlace
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
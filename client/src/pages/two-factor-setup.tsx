@@ -0,0 +1,68 @@
+import { useAuth } from "@/hooks/use-auth";
+import { Redirect, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldAlert } from "lucide-react";
+import TwoFactorSection from "@/components/dashboard/settings/two-factor-section";
+import { isTwoFactorRequired } from "@shared/two-factor";
+import type { Tenant } from "@shared/schema";
+
+/**
+ * La empresa exige verificación en dos pasos y el usuario aún no la activó:
+ * el resto de la plataforma queda bloqueado hasta configurarla
+ */
+export default function TwoFactorSetupPage() {
+  const { user, isLoading, logoutMutation } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const { data: tenant, isLoading: tenantLoading } = useQuery<Tenant>({
+    queryKey: ["/api/tenant/current"],
+    enabled: !!user?.tenantId,
+  });
+
+  if (isLoading || (user?.tenantId && tenantLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Redirect to="/auth" />;
+  }
+
+  if (!isTwoFactorRequired(tenant?.settings)) {
+    return <Redirect to="/dashboard" />;
+  }
+
+  return (
+    <div className="min-h-screen login-gradient flex items-center justify-center p-6">
+      <div className="w-full max-w-2xl space-y-4">
+        <div className="flex items-start gap-3 rounded-lg bg-background/90 p-4 shadow">
+          <ShieldAlert className="h-6 w-6 text-yellow-500 shrink-0 mt-0.5" />
+          <div>
+            <h1 className="font-semibold text-foreground">
+              {tenant?.name || "Tu empresa"} exige la verificación en dos pasos
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Actívala para seguir usando la plataforma.
+            </p>
+          </div>
+        </div>
+
+        <TwoFactorSection />
+
+        <div className="flex justify-between">
+          <Button variant="ghost" className="text-white hover:text-white/80" onClick={() => logoutMutation.mutate()}>
+            Cerrar sesión
+          </Button>
+          {/* No redirigir al activarla: primero hay que guardar los códigos de recuperación */}
+          {user.twoFactorEnabledAt && (
+            <Button onClick={() => setLocation("/dashboard")}>Continuar al panel</Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Loader2, MailX } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Destino del enlace de verificación enviado por correo
+ */
+export default function VerifyEmailPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen login-gradient flex items-center justify-center p-6">
+      <Card className="w-full max-w-md shadow-2xl border-0">
+        <CardContent className="py-12 text-center space-y-4">
+          {verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle className="h-12 w-12 mx-auto text-green-600" />
+              <p className="text-lg font-medium">¡Correo verificado!</p>
+              <p className="text-muted-foreground">{verifyMutation.data.email}</p>
+            </>
+          ) : verifyMutation.isError ? (
+            <>
+              <MailX className="h-12 w-12 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">
+                El enlace no es válido o venció. Puedes solicitar uno nuevo desde la configuración de tu cuenta.
+              </p>
+            </>
+          ) : (
+            <Loader2 className="h-8 w-8 mx-auto animate-spin text-primary" />
+          )}
+          {!verifyMutation.isPending && (
+            <Button variant="outline" onClick={() => setLocation(user ? "/dashboard" : "/auth")}>
+              {user ? "Ir al panel" : "Ir a iniciar sesión"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
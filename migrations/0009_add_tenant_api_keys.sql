@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "tenant_api_keys" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "tenant_api_keys_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer NOT NULL,
+	"created_by_user_id" integer,
+	"name" varchar(100) NOT NULL,
+	"key_prefix" varchar(20) NOT NULL,
+	"key_hash" varchar(64) NOT NULL,
+	"scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_used_at" timestamp,
+	"last_used_ip" varchar(64),
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "uq_tenant_api_keys_hash" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "tenant_api_keys" ADD CONSTRAINT "tenant_api_keys_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenant_api_keys" ADD CONSTRAINT "tenant_api_keys_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_tenant_api_keys_tenant" ON "tenant_api_keys" USING btree ("tenant_id");
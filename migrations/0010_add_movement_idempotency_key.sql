@@ -0,0 +1,4 @@
+-- Per-event idempotency key for inventory movements (e.g. one key per Shopify refund)
+ALTER TABLE "inventory_movements_queue" ADD COLUMN IF NOT EXISTS "idempotency_key" varchar(255);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_inventory_movements_idempotency" ON "inventory_movements_queue" USING btree ("store_id","idempotency_key");
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "order_invoices" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "order_invoices_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer NOT NULL,
+	"store_id" integer NOT NULL,
+	"integration_id" integer NOT NULL,
+	"order_id" varchar(255) NOT NULL,
+	"order_number" varchar(100),
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"last_attempt_at" timestamp,
+	"next_attempt_at" timestamp,
+	"error_message" text,
+	"document_id" varchar(255),
+	"document_number" varchar(50),
+	"authorization_status" varchar(20),
+	"authorization_number" varchar(100),
+	"total" numeric(12, 2),
+	"payload" jsonb DEFAULT '{}'::jsonb,
+	"metadata" jsonb DEFAULT '{}'::jsonb,
+	"created_at" timestamp DEFAULT now(),
+	"processed_at" timestamp,
+	CONSTRAINT "uq_order_invoices_store_order" UNIQUE("store_id","order_id")
+);
+--> statement-breakpoint
+ALTER TABLE "order_invoices" ADD CONSTRAINT "order_invoices_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_invoices" ADD CONSTRAINT "order_invoices_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_invoices" ADD CONSTRAINT "order_invoices_integration_id_integrations_id_fk" FOREIGN KEY ("integration_id") REFERENCES "public"."integrations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_order_invoices_tenant" ON "order_invoices" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_order_invoices_status" ON "order_invoices" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_order_invoices_next_attempt" ON "order_invoices" USING btree ("next_attempt_at");
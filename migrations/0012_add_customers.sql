@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "customers" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "customers_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer NOT NULL,
+	"store_id" integer NOT NULL,
+	"integration_id" integer NOT NULL,
+	"customer_key" varchar(255) NOT NULL,
+	"name" varchar(255),
+	"email" varchar(255),
+	"phone" varchar(50),
+	"address" text,
+	"identification" varchar(20),
+	"identification_type" varchar(20),
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"review_reason" text,
+	"reviewed_at" timestamp,
+	"erp_person_id" varchar(255),
+	"last_order_id" varchar(255),
+	"error_message" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"synced_at" timestamp,
+	CONSTRAINT "uq_customers_store_key" UNIQUE("store_id","customer_key")
+);
+--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_integration_id_integrations_id_fk" FOREIGN KEY ("integration_id") REFERENCES "public"."integrations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_customers_tenant" ON "customers" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_customers_status" ON "customers" USING btree ("status");--> statement-breakpoint
+ALTER TABLE "order_invoices" ADD COLUMN IF NOT EXISTS "customer_id" integer;--> statement-breakpoint
+ALTER TABLE "order_invoices" ADD CONSTRAINT "order_invoices_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS "stock_reconciliations" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "stock_reconciliations_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer NOT NULL,
+	"store_id" integer NOT NULL,
+	"integration_id" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"warehouse_id" varchar(255),
+	"total_skus" integer DEFAULT 0 NOT NULL,
+	"matched_count" integer DEFAULT 0 NOT NULL,
+	"drift_count" integer DEFAULT 0 NOT NULL,
+	"explained_count" integer DEFAULT 0 NOT NULL,
+	"missing_in_erp_count" integer DEFAULT 0 NOT NULL,
+	"missing_in_store_count" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stock_reconciliation_items" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "stock_reconciliation_items_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"reconciliation_id" integer NOT NULL,
+	"sku" varchar(255) NOT NULL,
+	"product_id" varchar(255),
+	"product_name" varchar(500),
+	"status" varchar(20) NOT NULL,
+	"store_stock" integer,
+	"cached_stock" integer,
+	"erp_stock" integer,
+	"drift" integer,
+	"pending_delta" integer DEFAULT 0 NOT NULL,
+	"resolution" varchar(20),
+	"resolution_message" text,
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "stock_reconciliations" ADD CONSTRAINT "stock_reconciliations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_reconciliations" ADD CONSTRAINT "stock_reconciliations_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_reconciliations" ADD CONSTRAINT "stock_reconciliations_integration_id_integrations_id_fk" FOREIGN KEY ("integration_id") REFERENCES "public"."integrations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_reconciliation_items" ADD CONSTRAINT "stock_reconciliation_items_reconciliation_id_stock_reconciliations_id_fk" FOREIGN KEY ("reconciliation_id") REFERENCES "public"."stock_reconciliations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_stock_reconciliations_store" ON "stock_reconciliations" USING btree ("store_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_stock_reconciliation_items_run" ON "stock_reconciliation_items" USING btree ("reconciliation_id");
@@ -0,0 +1,4 @@
+-- Old/new store price per product when price pull is enabled (syncConfig.pull.prices)
+ALTER TABLE "sync_log_items" ADD COLUMN IF NOT EXISTS "price_before" numeric(12, 2);
+--> statement-breakpoint
+ALTER TABLE "sync_log_items" ADD COLUMN IF NOT EXISTS "price_after" numeric(12, 2);
@@ -0,0 +1,4 @@
+-- WooCommerce webhook IDs are per site: platform IDs are unique per store, not per platform
+ALTER TABLE "webhooks" DROP CONSTRAINT IF EXISTS "uq_webhooks_platform_id";
+--> statement-breakpoint
+ALTER TABLE "webhooks" ADD CONSTRAINT "uq_webhooks_store_platform_id" UNIQUE("store_id","platform","platform_webhook_id");
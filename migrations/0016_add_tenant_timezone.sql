@@ -0,0 +1,2 @@
+-- Tenant timezone used to evaluate sync schedules (cron, active hours, blackout dates)
+ALTER TABLE "tenants" ADD COLUMN IF NOT EXISTS "timezone" varchar(64) DEFAULT 'America/Guayaquil' NOT NULL;
@@ -0,0 +1,2 @@
+-- Pull mode of each sync run: full catalog scan or delta since the last successful pull
+ALTER TABLE "sync_logs" ADD COLUMN IF NOT EXISTS "sync_mode" varchar(20);
@@ -0,0 +1,41 @@
+-- Postgres-backed job queue replacing the in-process setInterval workers
+CREATE TABLE IF NOT EXISTS "jobs" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "jobs_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer,
+	"store_id" integer,
+	"type" varchar(50) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb,
+	"result" jsonb,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_by" varchar(100),
+	"locked_until" timestamp,
+	"last_error" text,
+	"dedupe_key" varchar(255),
+	"created_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "jobs" ADD CONSTRAINT "jobs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "jobs" ADD CONSTRAINT "jobs_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_jobs_claim" ON "jobs" USING btree ("status","run_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_jobs_tenant_status" ON "jobs" USING btree ("tenant_id","status");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_jobs_created" ON "jobs" USING btree ("created_at");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_jobs_dedupe_active" ON "jobs" USING btree ("dedupe_key") WHERE "jobs"."status" IN ('pending', 'running');
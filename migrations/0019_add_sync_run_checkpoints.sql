@@ -0,0 +1,4 @@
+-- Cancellable and resumable sync runs: cancel flag on jobs, per-batch checkpoint on pull sync logs
+ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "cancel_requested_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "sync_logs" ADD COLUMN IF NOT EXISTS "checkpoint" jsonb;
@@ -0,0 +1,55 @@
+-- Pull previews (plans) reviewed and applied as-is, with approval when a pull would zero out too much of the catalog
+CREATE TABLE IF NOT EXISTS "pull_plans" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "pull_plans_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer NOT NULL,
+	"store_id" integer NOT NULL,
+	"integration_id" integer NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"trigger" varchar(20) DEFAULT 'manual' NOT NULL,
+	"changes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"summary" jsonb NOT NULL,
+	"requires_approval" boolean DEFAULT false NOT NULL,
+	"preview_job_id" integer,
+	"apply_job_id" integer,
+	"sync_log_id" integer,
+	"created_by" integer,
+	"approved_by" integer,
+	"approved_at" timestamp,
+	"applied_at" timestamp,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_plans" ADD CONSTRAINT "pull_plans_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_plans" ADD CONSTRAINT "pull_plans_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_plans" ADD CONSTRAINT "pull_plans_integration_id_integrations_id_fk" FOREIGN KEY ("integration_id") REFERENCES "public"."integrations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_plans" ADD CONSTRAINT "pull_plans_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_plans" ADD CONSTRAINT "pull_plans_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_pull_plans_tenant_created" ON "pull_plans" USING btree ("tenant_id","created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_pull_plans_store_status" ON "pull_plans" USING btree ("store_id","status");
@@ -0,0 +1,28 @@
+-- Stock values overwritten by each pull run, so a bad run can be rolled back
+CREATE TABLE IF NOT EXISTS "pull_stock_snapshots" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "pull_stock_snapshots_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"sync_log_id" integer NOT NULL,
+	"store_id" integer NOT NULL,
+	"sku" varchar(255) NOT NULL,
+	"product_id" varchar(255) NOT NULL,
+	"product_name" varchar(500),
+	"stock_before" integer NOT NULL,
+	"stock_after" integer NOT NULL,
+	"locations" jsonb,
+	"restored_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_stock_snapshots" ADD CONSTRAINT "pull_stock_snapshots_sync_log_id_sync_logs_id_fk" FOREIGN KEY ("sync_log_id") REFERENCES "public"."sync_logs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_stock_snapshots" ADD CONSTRAINT "pull_stock_snapshots_store_id_stores_id_fk" FOREIGN KEY ("store_id") REFERENCES "public"."stores"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_pull_stock_snapshots_sync_log" ON "pull_stock_snapshots" USING btree ("sync_log_id");
@@ -0,0 +1,40 @@
+-- Tenant-scoped roles for team members, and email invitations to join a tenant
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "tenant_role" varchar(20) DEFAULT 'viewer' NOT NULL;
+--> statement-breakpoint
+-- Every existing tenant has a single user: its owner
+UPDATE "users" SET "tenant_role" = 'owner' WHERE "tenant_id" IS NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "tenant_invitations" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "tenant_invitations_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"tenant_id" integer NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"invited_by_user_id" integer,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"accepted_by_user_id" integer,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "uq_tenant_invitations_token_hash" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_invited_by_user_id_users_id_fk" FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tenant_invitations" ADD CONSTRAINT "tenant_invitations_accepted_by_user_id_users_id_fk" FOREIGN KEY ("accepted_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_tenant_invitations_tenant" ON "tenant_invitations" USING btree ("tenant_id");
@@ -0,0 +1,2 @@
+-- List and revoke the sessions of a user (passport stores the user id in sess.passport.user)
+CREATE INDEX IF NOT EXISTS "idx_sessions_user" ON "sessions" USING btree ((sess->'passport'->>'user'));
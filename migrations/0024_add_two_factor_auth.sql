@@ -0,0 +1,8 @@
+-- Optional TOTP two-factor authentication with single-use recovery codes
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_secret" text;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_enabled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_recovery_codes" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_last_step" integer;
@@ -0,0 +1,180 @@
+#!/usr/bin/env tsx
+/**
+ * Script para volver a cifrar las credenciales con la clave maestra actual
+ *
+ * Casos que maneja:
+ * 1. Rotación: registros cifrados con una clave anterior (CREDENTIALS_PREVIOUS_MASTER_KEYS)
+ * 2. Migración: registros guardados en texto plano antes del cifrado en reposo
+ *
+ * Cada registro recibe una clave de datos nueva. Solo se escribe si el valor sigue siendo el leído:
+ * si la aplicación lo modificó mientras tanto se informa y se deja como está (vuelva a ejecutar
+ * el script). Cuando termina sin errores ni cambios concurrentes, la clave anterior se puede
+ * quitar de CREDENTIALS_PREVIOUS_MASTER_KEYS.
+ *
+ * Uso:
+ *   CREDENTIALS_MASTER_KEY=<nueva> CREDENTIALS_PREVIOUS_MASTER_KEYS=<anterior> \
+ *     tsx scripts/rotate-credentials-key.ts [--dry-run]
+ */
+
+import { db } from "../server/db";
+import { CredentialVault } from "../server/services/credentialVault";
+import { integrations, stores, tenants } from "../shared/schema";
+import { and, eq, isNull, type AnyColumn, type SQL } from "drizzle-orm";
+
+interface RotationStats {
+  stores: number;
+  integrations: number;
+  tenants: number;
+  changed: number;
+  errors: number;
+}
+
+/**
+ * Condición "la columna sigue teniendo el valor leído" (para no pisar ediciones concurrentes)
+ */
+function unchanged(column: AnyColumn, value: unknown): SQL {
+  return value === null ? isNull(column) : eq(column, value);
+}
+
+function reportChanged(label: string): void {
+  console.warn(`   ⚠️  ${label} cambió durante la rotación, no se modificó (vuelva a ejecutar el script)`);
+}
+
+async function rotateCredentials(dryRun: boolean): Promise<RotationStats> {
+  const stats: RotationStats = { stores: 0, integrations: 0, tenants: 0, changed: 0, errors: 0 };
+
+  console.log("🔐 Volviendo a cifrar credenciales...");
+  console.log(`   Modo: ${dryRun ? "DRY RUN (no se harán cambios)" : "PRODUCCIÓN"}`);
+  console.log("");
+
+  // 1. stores.apiCredentials
+  const storeRows = await db.select({ id: stores.id, apiCredentials: stores.apiCredentials }).from(stores);
+  for (const row of storeRows) {
+    if (!CredentialVault.needsReencryption(row.apiCredentials)) continue;
+    try {
+      const apiCredentials = CredentialVault.encryptJson(CredentialVault.decryptJson(row.apiCredentials));
+      if (!dryRun) {
+        const updated = await db
+          .update(stores)
+          .set({ apiCredentials })
+          .where(and(eq(stores.id, row.id), unchanged(stores.apiCredentials, row.apiCredentials)))
+          .returning({ id: stores.id });
+        if (updated.length === 0) {
+          reportChanged(`Tienda ${row.id}`);
+          stats.changed++;
+          continue;
+        }
+      }
+      stats.stores++;
+    } catch (error: any) {
+      console.error(`   ❌ Tienda ${row.id}: ${error.message}`);
+      stats.errors++;
+    }
+  }
+
+  // 2. integrations.settings
+  const integrationRows = await db
+    .select({ id: integrations.id, settings: integrations.settings })
+    .from(integrations);
+  for (const row of integrationRows) {
+    if (!CredentialVault.needsReencryption(row.settings)) continue;
+    try {
+      const settings = CredentialVault.encryptJson(CredentialVault.decryptJson(row.settings));
+      if (!dryRun) {
+        const updated = await db
+          .update(integrations)
+          .set({ settings })
+          .where(and(eq(integrations.id, row.id), unchanged(integrations.settings, row.settings)))
+          .returning({ id: integrations.id });
+        if (updated.length === 0) {
+          reportChanged(`Integración ${row.id}`);
+          stats.changed++;
+          continue;
+        }
+      }
+      stats.integrations++;
+    } catch (error: any) {
+      console.error(`   ❌ Integración ${row.id}: ${error.message}`);
+      stats.errors++;
+    }
+  }
+
+  // 3. Claves de Contífico de tenants
+  const tenantRows = await db
+    .select({
+      id: tenants.id,
+      contificoTestApiKey: tenants.contificoTestApiKey,
+      contificoProdApiKey: tenants.contificoProdApiKey,
+    })
+    .from(tenants);
+  for (const row of tenantRows) {
+    const keys = [row.contificoTestApiKey, row.contificoProdApiKey];
+    if (!keys.some((key) => key && CredentialVault.needsReencryption(key))) continue;
+    try {
+      const [contificoTestApiKey, contificoProdApiKey] = keys.map((key) =>
+        key ? CredentialVault.encryptString(CredentialVault.decryptString(key)) : key,
+      );
+      if (!dryRun) {
+        const updated = await db
+          .update(tenants)
+          .set({ contificoTestApiKey, contificoProdApiKey })
+          .where(
+            and(
+              eq(tenants.id, row.id),
+              unchanged(tenants.contificoTestApiKey, row.contificoTestApiKey),
+              unchanged(tenants.contificoProdApiKey, row.contificoProdApiKey),
+            ),
+          )
+          .returning({ id: tenants.id });
+        if (updated.length === 0) {
+          reportChanged(`Tenant ${row.id}`);
+          stats.changed++;
+          continue;
+        }
+      }
+      stats.tenants++;
+    } catch (error: any) {
+      console.error(`   ❌ Tenant ${row.id}: ${error.message}`);
+      stats.errors++;
+    }
+  }
+
+  return stats;
+}
+
+// CLI
+async function main() {
+  const dryRun = process.argv.slice(2).includes("--dry-run");
+
+  try {
+    CredentialVault.validateConfig();
+    if (!CredentialVault.isEnabled()) {
+      console.error("❌ CREDENTIALS_MASTER_KEY no está configurada");
+      process.exit(1);
+    }
+
+    const stats = await rotateCredentials(dryRun);
+
+    console.log("═══════════════════════════════════════");
+    console.log("📊 RESUMEN DE ROTACIÓN:");
+    console.log(`   Tiendas: ${stats.stores}`);
+    console.log(`   Integraciones: ${stats.integrations}`);
+    console.log(`   Tenants: ${stats.tenants}`);
+    console.log(`   Modificados durante la rotación: ${stats.changed}`);
+    console.log(`   Errores: ${stats.errors}`);
+    console.log("═══════════════════════════════════════");
+
+    if (dryRun) {
+      console.log("");
+      console.log("⚠️  DRY RUN - No se realizaron cambios");
+      console.log("   Ejecute sin --dry-run para aplicar los cambios");
+    }
+
+    process.exit(stats.errors > 0 || stats.changed > 0 ? 1 : 0);
+  } catch (error: any) {
+    console.error("❌ Error durante la rotación:", error.message);
+    process.exit(1);
+  }
+}
+
+main();
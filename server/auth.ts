@@ -1,12 +1,21 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, acceptTenantInvitationSchema } from "@shared/schema";
+import { ZodError } from "zod";
 import { authLimiter } from "./middleware/rateLimiter";
+import { TeamService } from "./services/teamService";
+import { SessionService } from "./services/sessionService";
+import { trackSession } from "./middleware/trackSession";
+import { TwoFactorService } from "./services/twoFactorService";
+import { TWO_FACTOR_LOGIN_TTL_MS, TWO_FACTOR_MAX_ATTEMPTS } from "@shared/two-factor";
+import { AccountTokenService } from "./services/accountTokenService";
+import { getEmailLinkBaseUrl } from "./utils/publicUrl";
+import { toPublicTenant } from "@shared/secrets";
 
 declare global {
   namespace Express {
@@ -29,6 +38,37 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+/**
+ * User as sent to the browser: never the password hash nor the 2FA secret or recovery codes
+ */
+export function toPublicUser(user: SelectUser) {
+  const { passwordHash, twoFactorSecret, twoFactorRecoveryCodes, twoFactorLastStep, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Opens the authenticated session and responds with the user and their tenant
+ */
+function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  req.logIn(user, async (err) => {
+    if (err) {
+      return next(err);
+    }
+    SessionService.start(req);
+
+    // Include tenant information with the user
+    if (user.tenantId) {
+      const tenant = await storage.getTenant(user.tenantId);
+      return res.status(200).json({
+        ...toPublicUser(user),
+        tenant: tenant ? toPublicTenant(tenant) : null,
+      });
+    }
+
+    res.status(200).json(toPublicUser(user));
+  });
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!, // Validated at startup in server/index.ts
@@ -41,6 +81,7 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSession);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -63,7 +104,10 @@ export function setupAuth(app: Express) {
         }
       }
 
-      await storage.updateUserLastLogin(user.id);
+      // With 2FA enabled the login is not complete until the second step
+      if (!user.twoFactorEnabledAt) {
+        await storage.updateUserLastLogin(user.id);
+      }
       return done(null, user);
     }),
   );
@@ -125,9 +169,13 @@ export function setupAuth(app: Express) {
         email,
         passwordHash: await hashPassword(password),
         role: "user", // All users start as regular users
+        tenantRole: "owner", // Whoever registers the tenant owns it
         emailVerified: false,
       });
 
+      // El correo no bloquea el registro: si falla, se puede reenviar desde la configuración
+      void AccountTokenService.sendVerificationEmail(user, getEmailLinkBaseUrl());
+
       // All registrations return success message with pending status
       res.status(201).json({
         message: "¡Registro exitoso! Tu cuenta está pendiente de aprobación. Recibirás un correo cuando sea aprobada.",
@@ -151,6 +199,77 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Public invitation details, shown before accepting
+  app.get("/api/invitations/:token", authLimiter, async (req, res) => {
+    try {
+      const invitation = await TeamService.getValidInvitation(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "La invitación no existe, ya fue usada o venció" });
+      }
+
+      const tenant = await storage.getTenant(invitation.tenantId);
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        tenantName: tenant?.name || null,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error: any) {
+      console.error("Error obteniendo invitación:", error);
+      res.status(500).json({ message: "Error al obtener la invitación" });
+    }
+  });
+
+  // Accept an invitation: creates the member's user with the invited role and logs them in
+  app.post("/api/invitations/:token/accept", authLimiter, async (req, res, next) => {
+    try {
+      const invitation = await TeamService.getValidInvitation(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "La invitación no existe, ya fue usada o venció" });
+      }
+
+      const { name, password } = acceptTenantInvitationSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByEmail(invitation.email);
+      if (existingUser) {
+        return res.status(409).json({ message: "Ya existe una cuenta con este correo electrónico" });
+      }
+
+      const user = await storage.acceptTenantInvitation(invitation.id, {
+        tenantId: invitation.tenantId,
+        name,
+        email: invitation.email,
+        passwordHash: await hashPassword(password),
+        role: "user",
+        tenantRole: invitation.role,
+        emailVerified: true, // The token arrived at this address
+      });
+      if (!user) {
+        return res.status(404).json({ message: "La invitación no existe, ya fue usada o venció" });
+      }
+
+      console.log(`[Team] Invitación ${invitation.id} aceptada: usuario ${user.id} (${invitation.role}) en tenant ${invitation.tenantId}`);
+
+      req.logIn(user, async (err) => {
+        if (err) {
+          return next(err);
+        }
+        SessionService.start(req);
+        const tenant = await storage.getTenant(invitation.tenantId);
+        res.status(201).json({ ...toPublicUser(user), tenant: tenant ? toPublicTenant(tenant) : null });
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Datos inválidos" });
+      }
+      if (error.code === '23505') { // Unique constraint violation
+        return res.status(409).json({ message: "Ya existe una cuenta con este correo electrónico" });
+      }
+      console.error("Error aceptando invitación:", error);
+      res.status(500).json({ message: "Error al aceptar la invitación" });
+    }
+  });
+
   app.post("/api/login", authLimiter, (req, res, next) => {
     passport.authenticate("local", (err: any, user: any, info: any) => {
       if (err) {
@@ -165,25 +284,128 @@ export function setupAuth(app: Express) {
         return res.status(401).json({ message: "Credenciales incorrectas" });
       }
 
-      req.logIn(user, async (err) => {
-        if (err) {
-          return next(err);
-        }
-
-        // Include tenant information with the user
-        if (user && user.tenantId) {
-          const tenant = await storage.getTenant(user.tenantId);
-          return res.status(200).json({
-            ...user,
-            tenant: tenant || null,
-          });
-        }
+      // Password is correct: ask for the TOTP code before opening the session
+      if (user.twoFactorEnabledAt) {
+        req.session.twoFactorLogin = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
 
-        res.status(200).json(user);
-      });
+      completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
+  // Second login step: TOTP code or a single-use recovery code
+  app.post("/api/login/2fa", authLimiter, async (req, res, next) => {
+    try {
+      const pending = req.session.twoFactorLogin;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "La verificación expiró. Inicia sesión de nuevo" });
+      }
+
+      if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        delete req.session.twoFactorLogin;
+        return res.status(429).json({ message: "Demasiados intentos. Inicia sesión de nuevo" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.twoFactorEnabledAt) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).json({ message: "La verificación expiró. Inicia sesión de nuevo" });
+      }
+
+      const method = await TwoFactorService.verifyUserCodeOrRecovery(user, String(req.body.code || ""));
+      if (!method) {
+        pending.attempts++;
+        return res.status(401).json({
+          message: "Código incorrecto",
+          attemptsLeft: TWO_FACTOR_MAX_ATTEMPTS - pending.attempts,
+        });
+      }
+
+      delete req.session.twoFactorLogin;
+      await storage.updateUserLastLogin(user.id);
+      completeLogin(req, res, next, user);
+    } catch (error: any) {
+      console.error("Error en verificación en dos pasos:", error);
+      res.status(500).json({ message: "Error al verificar el código" });
+    }
+  });
+
+  // Confirm the email address with the link sent by email
+  app.post("/api/verify-email", authLimiter, async (req, res) => {
+    try {
+      const user = await AccountTokenService.verify(req.body.token, "verify_email");
+      if (!user) {
+        return res.status(400).json({ message: "El enlace no es válido o venció. Solicita uno nuevo desde tu cuenta" });
+      }
+
+      if (!user.emailVerified) {
+        await storage.updateUser(user.id, { emailVerified: true });
+        console.log(`[Account] Correo verificado para usuario ${user.id}`);
+      }
+      res.json({ message: "Correo electrónico verificado", email: user.email });
+    } catch (error: any) {
+      console.error("Error verificando correo:", error);
+      res.status(500).json({ message: "Error al verificar el correo" });
+    }
+  });
+
+  // Request a password reset link. Same answer whether the account exists or not
+  app.post("/api/forgot-password", authLimiter, async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "El correo electrónico es requerido" });
+      }
+
+      const user = await storage.getUserByEmail(email.trim());
+      if (user) {
+        // Sin esperar el envío: el tiempo de respuesta no revela si la cuenta existe
+        void AccountTokenService.sendPasswordResetEmail(user, getEmailLinkBaseUrl());
+      }
+
+      res.json({ message: "Si existe una cuenta con ese correo, te enviamos un enlace para restablecer la contraseña" });
+    } catch (error: any) {
+      console.error("Error solicitando restablecimiento de contraseña:", error);
+      res.status(500).json({ message: "Error al solicitar el restablecimiento de contraseña" });
+    }
+  });
+
+  // Set a new password with the link sent by email
+  app.post("/api/reset-password", authLimiter, async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      if (typeof password !== "string" || password.length < 8) {
+        return res.status(400).json({ message: "La contraseña debe tener al menos 8 caracteres" });
+      }
+
+      const user = await AccountTokenService.verify(token, "reset_password");
+      if (!user) {
+        return res.status(400).json({ message: "El enlace no es válido, ya fue usado o venció. Solicita uno nuevo" });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(password));
+      // El enlace llegó a su correo: queda verificado
+      if (!user.emailVerified) {
+        await storage.updateUser(user.id, { emailVerified: true });
+      }
+
+      // Quien tuviera la contraseña anterior pierde el acceso
+      const revokedSessions = await storage.deleteUserSessions(user.id);
+      console.log(`[Account] Contraseña restablecida para usuario ${user.id}, ${revokedSessions} sesiones cerradas`);
+
+      res.json({ message: "Contraseña restablecida. Ya puedes iniciar sesión" });
+    } catch (error: any) {
+      console.error("Error restableciendo contraseña:", error);
+      res.status(500).json({ message: "Error al restablecer la contraseña" });
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -200,11 +422,11 @@ export function setupAuth(app: Express) {
     if (user && user.tenantId) {
       const tenant = await storage.getTenant(user.tenantId);
       return res.json({
-        ...user,
-        tenant: tenant || null,
+        ...toPublicUser(user),
+        tenant: tenant ? toPublicTenant(tenant) : null,
       });
     }
 
-    res.json(user);
+    res.json(toPublicUser(user));
   });
 }
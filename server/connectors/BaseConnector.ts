@@ -110,6 +110,24 @@ export interface StandardProduct {
   raw_data?: any; // Full original product data
 }
 
+/**
+ * Producto nuevo a crear en la tienda (publicación de catálogo desde el ERP)
+ */
+export interface NewStoreProduct {
+  name: string;
+  sku: string;
+  price: number; // En dólares
+  stock?: number; // Si se omite el stock queda sin fijar (p. ej. para fijarlo por ubicación)
+  category?: string | null;
+  status: "draft" | "active";
+}
+
+export interface CreatedStoreProduct {
+  product_id: number;
+  variant_id: number; // Igual a product_id en productos simples de WooCommerce
+  inventory_item_id?: number;
+}
+
 export interface StandardError {
   message: string;
   code?: string;
@@ -189,6 +207,7 @@ export abstract class BaseConnector {
     inventory_quantity: number;
     title: string;
     inventory_item_id?: number;
+    price?: number; // Precio actual en dólares
   }>>;
 
   /**
@@ -207,6 +226,21 @@ export abstract class BaseConnector {
     quantity: number
   ): Promise<boolean>;
 
+  /**
+   * Actualiza el precio (en dólares) de una variante/producto específico
+   * productId y variantId coinciden en productos sin variantes
+   */
+  abstract updateVariantPrice?(
+    productId: number,
+    variantId: number,
+    price: number
+  ): Promise<boolean>;
+
+  /**
+   * Crea un producto con una sola variante (o producto simple) con stock gestionado
+   */
+  abstract createProduct?(product: NewStoreProduct): Promise<CreatedStoreProduct>;
+
   // Protected method for platform-specific request authentication
   protected abstract authenticateRequest(
     config: AxiosRequestConfig,
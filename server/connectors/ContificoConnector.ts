@@ -6,9 +6,11 @@ import {
   UpdateResult,
   StoreInfoResult,
   StandardProduct,
+  CreatedStoreProduct,
 } from "./BaseConnector";
 import { AxiosRequestConfig } from "axios";
 import { Store } from "@shared/schema";
+import { parseStockValue } from "@shared/stock-guard";
 
 interface ContificoCredentials {
   env: "test" | "prod";
@@ -27,15 +29,27 @@ interface ContificoProduct {
   descripcion?: string;
   precio_venta: number;
   precio_compra?: number;
+  pvp1?: number | string; // Listas de precios (sin IVA)
+  pvp2?: number | string;
+  pvp3?: number | string;
+  pvp4?: number | string;
   cantidad_stock: number;
   activo: boolean;
   categoria?: string;
+  categoria_id?: string;
   marca?: string;
   iva?: number;
+  porcentaje_iva?: number | string;
   ice?: number;
   [key: string]: any;
 }
 
+interface ContificoCategory {
+  id: string;
+  nombre: string;
+  [key: string]: any;
+}
+
 interface ContificoWarehouse {
   id: string;
   codigo?: string;
@@ -143,6 +157,16 @@ export class ContificoConnector extends BaseConnector {
     }
   }
 
+  async getCategories(): Promise<ContificoCategory[]> {
+    try {
+      const response = await this.makeRequest("GET", "/sistema/api/v1/categoria/");
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error("[Contífico] Error al obtener categorías:", error);
+      throw error;
+    }
+  }
+
   async getProducts(
     page: number = 1,
     limit: number = 100,
@@ -231,12 +255,21 @@ export class ContificoConnector extends BaseConnector {
     return this.getProduct(sku);
   }
 
-  async getProductStock(productId: string, sku: string): Promise<number> {
-    const primaryWarehouse = this.contificoCredentials.warehouse_primary;
+  /**
+   * Stock de un producto en la bodega indicada (o la principal)
+   * Lanza error si el stock es desconocido (fallo de la API o respuesta inválida): nunca devuelve 0 en ese caso.
+   * Un producto sin registro en la bodega sí tiene stock 0
+   */
+  async getProductStock(productId: string, sku: string, warehouseId?: string): Promise<number> {
+    const primaryWarehouse = warehouseId || this.contificoCredentials.warehouse_primary;
 
     if (!primaryWarehouse) {
       const productResult = await this.getProduct(sku);
-      return productResult.product?.stock_quantity ?? 0;
+      const stock = parseStockValue(productResult.product?.stock_quantity);
+      if (stock === null) {
+        throw new Error(`Stock desconocido para el producto ${sku}: Contífico no devolvió cantidad_stock`);
+      }
+      return stock;
     }
 
     try {
@@ -246,8 +279,7 @@ export class ContificoConnector extends BaseConnector {
       );
 
       if (!Array.isArray(response.data)) {
-        console.warn("[Contífico] Formato de respuesta de stock inválido");
-        return 0;
+        throw new Error("Formato de respuesta de stock inválido");
       }
 
       const warehouseStock: ContificoStockByWarehouse[] = response.data;
@@ -255,16 +287,49 @@ export class ContificoConnector extends BaseConnector {
         (s) => s.bodega_id === primaryWarehouse,
       );
 
-      return primaryStock?.cantidad ?? 0;
+      if (!primaryStock) {
+        return 0;
+      }
+
+      const stock = parseStockValue(primaryStock.cantidad);
+      if (stock === null) {
+        throw new Error(`Cantidad inválida en la bodega ${primaryWarehouse}: ${primaryStock.cantidad}`);
+      }
+      return stock;
     } catch (error) {
       console.error(
         `[Contífico] Error al obtener stock del producto ${productId}:`,
         error,
       );
-      return 0;
+      throw error;
     }
   }
 
+  /**
+   * Obtiene el stock de un producto en todas las bodegas
+   * @returns Mapa bodega_id → cantidad (bodegas sin registro no aparecen)
+   */
+  async getProductStockByWarehouse(productId: string): Promise<Record<string, number>> {
+    const response = await this.makeRequest(
+      "GET",
+      `/sistema/api/v1/producto/${productId}/stock/`,
+    );
+
+    if (!Array.isArray(response.data)) {
+      throw new Error("Formato de respuesta de stock inválido");
+    }
+
+    const stockByWarehouse: Record<string, number> = {};
+    for (const entry of response.data as ContificoStockByWarehouse[]) {
+      const stock = parseStockValue(entry.cantidad);
+      if (stock === null) {
+        throw new Error(`Cantidad inválida en la bodega ${entry.bodega_id}: ${entry.cantidad}`);
+      }
+      stockByWarehouse[entry.bodega_id] = stock;
+    }
+    return stockByWarehouse;
+  }
+
   async updateProduct(
     _productId: string,
     _data: Partial<StandardProduct>,
@@ -350,4 +415,12 @@ export class ContificoConnector extends BaseConnector {
   async updateProductStock(): Promise<boolean> {
     throw new Error('Método no soportado para Contífico');
   }
+
+  async updateVariantPrice(): Promise<boolean> {
+    throw new Error('Método no soportado para Contífico');
+  }
+
+  async createProduct(): Promise<CreatedStoreProduct> {
+    throw new Error('Método no soportado para Contífico');
+  }
 }
\ No newline at end of file
@@ -6,6 +6,8 @@ import {
   UpdateResult,
   StoreInfoResult,
   StandardProduct,
+  NewStoreProduct,
+  CreatedStoreProduct,
 } from "./BaseConnector";
 import axios, { AxiosRequestConfig } from "axios";
 import { Store } from "@shared/schema";
@@ -140,6 +142,52 @@ interface ShopifyShop {
   [key: string]: any;
 }
 
+/**
+ * Estado del límite de costo de la API GraphQL (extensions.cost.throttleStatus)
+ */
+interface ShopifyThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number; // Puntos recuperados por segundo
+  requestedQueryCost: number; // Costo de la última consulta
+  updatedAt: number;
+}
+
+/**
+ * Variante con SKU obtenida por bulk operation (incluye niveles por ubicación)
+ */
+export interface ShopifyBulkVariant {
+  sku: string;
+  variant_id: number;
+  product_id: number;
+  inventory_quantity: number;
+  title: string;
+  inventory_item_id: number;
+  price: number;
+  inventory_levels: Array<{ location_id: number; available: number }>;
+}
+
+/**
+ * Cambio de stock para inventorySetQuantities
+ * compare_quantity: stock que se espera en Shopify; si cambió, el cambio se rechaza
+ */
+export interface ShopifyInventoryChange {
+  inventory_item_id: number;
+  location_id: number;
+  quantity: number;
+  compare_quantity: number;
+}
+
+// Máximo de cantidades por mutación inventorySetQuantities
+const INVENTORY_SET_BATCH_SIZE = 250;
+
+// Espera máxima para que termine una bulk operation
+const BULK_OPERATION_TIMEOUT_MS = 10 * 60 * 1000;
+const BULK_OPERATION_POLL_MS = 2000;
+
+const toGid = (type: string, id: number | string) => `gid://shopify/${type}/${id}`;
+const fromGid = (gid: string) => parseInt(gid.split("/").pop() || "0", 10);
+
 /**
  * Shopify connector implementing the BaseConnector interface
  * Handles authentication, product management, and data transformation for Shopify stores
@@ -155,6 +203,7 @@ export class ShopifyConnector extends BaseConnector {
   private shopifyCredentials: ShopifyCredentials;
   private apiVersion: string;
   private shopDomain: string;
+  private throttleStatus: ShopifyThrottleStatus | null = null;
 
   constructor(store: Store) {
     super(store);
@@ -713,6 +762,7 @@ export class ShopifyConnector extends BaseConnector {
       inventory_quantity: number;
       title: string;
       inventory_item_id: number;
+      price: number;
     }>
   > {
     const productsWithSku: any[] = [];
@@ -751,6 +801,7 @@ export class ShopifyConnector extends BaseConnector {
                 product_id: product.id,
                 inventory_quantity: variant.inventory_quantity || 0,
                 inventory_item_id: variant.inventory_item_id || 0,
+                price: parseFloat(variant.price) || 0,
                 title: `${product.title}${variant.title !== "Default Title" ? ` - ${variant.title}` : ""}`,
               });
             }
@@ -775,19 +826,390 @@ export class ShopifyConnector extends BaseConnector {
     return productsWithSku;
   }
 
+  /**
+   * Consulta GraphQL respetando el límite por costo (extensions.cost)
+   * Antes de cada consulta espera a que se recuperen los puntos que costó la anterior;
+   * si Shopify responde THROTTLED espera y reintenta
+   */
+  private async graphql(query: string, variables?: Record<string, any>, retryCount: number = 0): Promise<any> {
+    await this.waitForGraphqlCapacity();
+
+    const response = await this.makeRequest(
+      "POST",
+      `/admin/api/${this.apiVersion}/graphql.json`,
+      { query, variables },
+    );
+
+    const cost = response.data?.extensions?.cost;
+    if (cost?.throttleStatus) {
+      this.throttleStatus = {
+        ...cost.throttleStatus,
+        requestedQueryCost: cost.requestedQueryCost || 0,
+        updatedAt: Date.now(),
+      };
+    }
+
+    const errors: any[] = response.data?.errors || [];
+    if (errors.some((e) => e.extensions?.code === "THROTTLED")) {
+      if (retryCount >= 5) {
+        throw new Error("Límite de la API GraphQL de Shopify excedido");
+      }
+      console.log(`[Shopify] GraphQL THROTTLED, esperando para reintentar (${retryCount + 1}/5)`);
+      return this.graphql(query, variables, retryCount + 1);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(errors.map((e) => e.message).join(", "));
+    }
+
+    return response.data.data;
+  }
+
+  /**
+   * Espera hasta que el bucket de GraphQL tenga los puntos de la última consulta
+   */
+  private async waitForGraphqlCapacity(): Promise<void> {
+    const status = this.throttleStatus;
+    if (!status || status.restoreRate <= 0) {
+      return;
+    }
+
+    const elapsedSeconds = (Date.now() - status.updatedAt) / 1000;
+    const available = Math.min(
+      status.maximumAvailable,
+      status.currentlyAvailable + elapsedSeconds * status.restoreRate,
+    );
+    const needed = Math.min(status.requestedQueryCost, status.maximumAvailable);
+
+    if (available < needed) {
+      const waitMs = Math.ceil(((needed - available) / status.restoreRate) * 1000);
+      console.log(`[Shopify] Esperando ${waitMs}ms por el límite de costo GraphQL (${Math.floor(available)}/${needed} puntos)`);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Obtiene todas las variantes con SKU usando una bulk operation de GraphQL
+   * (una sola consulta asíncrona en lugar de paginar el catálogo por REST)
+   * Incluye el stock disponible en cada ubicación del inventory item
+   */
+  async getProductsWithSkuBulk(): Promise<ShopifyBulkVariant[]> {
+    console.log("[Shopify] Iniciando bulk operation para obtener variantes con SKU...");
+
+    const bulkQuery = `
+      {
+        productVariants {
+          edges {
+            node {
+              id
+              sku
+              title
+              price
+              inventoryQuantity
+              product { id title }
+              inventoryItem {
+                id
+                inventoryLevels {
+                  edges {
+                    node {
+                      location { id }
+                      quantities(names: ["available"]) { quantity }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const started = await this.graphql(
+      `mutation bulkOperationRunQuery($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { id status }
+          userErrors { field message }
+        }
+      }`,
+      { query: bulkQuery },
+    );
+
+    const userErrors = started.bulkOperationRunQuery?.userErrors || [];
+    if (userErrors.length > 0) {
+      throw new Error(`Bulk operation rechazada: ${userErrors.map((e: any) => e.message).join(", ")}`);
+    }
+
+    const operationId = started.bulkOperationRunQuery.bulkOperation.id;
+    const url = await this.waitForBulkOperation(operationId);
+
+    // Sin resultados Shopify no genera archivo
+    if (!url) {
+      console.log("[Shopify] Bulk operation sin resultados");
+      return [];
+    }
+
+    // El archivo JSONL es una URL firmada (sin token de la tienda)
+    const download = await axios.get(url, { responseType: "text", timeout: 120000 });
+    const lines = String(download.data).split("\n").filter((line) => line.trim() !== "");
+
+    const variants = new Map<string, ShopifyBulkVariant>();
+    for (const line of lines) {
+      const record = JSON.parse(line);
+
+      // Niveles de inventario: registros hijos de la variante (__parentId)
+      if (record.__parentId) {
+        const variant = variants.get(record.__parentId);
+        if (variant && record.location?.id) {
+          variant.inventory_levels.push({
+            location_id: fromGid(record.location.id),
+            available: record.quantities?.[0]?.quantity ?? 0,
+          });
+        }
+        continue;
+      }
+
+      if (!record.sku || record.sku.trim() === "") {
+        continue;
+      }
+
+      variants.set(record.id, {
+        sku: record.sku.trim(),
+        variant_id: fromGid(record.id),
+        product_id: fromGid(record.product.id),
+        inventory_quantity: record.inventoryQuantity || 0,
+        inventory_item_id: record.inventoryItem ? fromGid(record.inventoryItem.id) : 0,
+        price: parseFloat(record.price) || 0,
+        title: `${record.product.title}${record.title !== "Default Title" ? ` - ${record.title}` : ""}`,
+        inventory_levels: [],
+      });
+    }
+
+    console.log(`[Shopify] Total de variantes con SKU (bulk): ${variants.size}`);
+    return Array.from(variants.values());
+  }
+
+  /**
+   * Espera a que termine una bulk operation
+   * @returns URL del archivo JSONL con los resultados (null si no hay resultados)
+   */
+  private async waitForBulkOperation(operationId: string): Promise<string | null> {
+    const deadline = Date.now() + BULK_OPERATION_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, BULK_OPERATION_POLL_MS));
+
+      const data = await this.graphql(
+        `query bulkOperation($id: ID!) {
+          node(id: $id) {
+            ... on BulkOperation { id status errorCode objectCount url }
+          }
+        }`,
+        { id: operationId },
+      );
+
+      const operation = data.node;
+      if (operation?.status === "COMPLETED") {
+        console.log(`[Shopify] Bulk operation completada: ${operation.objectCount} objetos`);
+        return operation.url || null;
+      }
+
+      if (["FAILED", "CANCELED", "EXPIRED"].includes(operation?.status)) {
+        throw new Error(`Bulk operation ${operation.status}: ${operation.errorCode || "sin detalle"}`);
+      }
+    }
+
+    throw new Error("Tiempo de espera agotado para la bulk operation");
+  }
+
+  /**
+   * Aplica cambios de stock con mutaciones inventorySetQuantities por lotes
+   * Cada cambio compara el stock esperado (compareQuantity): si cambió en Shopify
+   * (p. ej. por una venta durante el Pull) ese item se rechaza y el resto se reintenta
+   * @returns inventory_item_ids actualizados y errores por inventory_item_id
+   */
+  async setInventoryQuantities(changes: ShopifyInventoryChange[]): Promise<{
+    updated: number[];
+    errors: Array<{ id: number; error: string }>;
+  }> {
+    const updated: number[] = [];
+    const errors: Array<{ id: number; error: string }> = [];
+
+    console.log(`[Shopify] Actualizando stock por lotes: ${changes.length} items`);
+
+    for (let i = 0; i < changes.length; i += INVENTORY_SET_BATCH_SIZE) {
+      let chunk = changes.slice(i, i + INVENTORY_SET_BATCH_SIZE);
+
+      // Reintentar sin los items rechazados (la mutación es todo o nada)
+      while (chunk.length > 0) {
+        let userErrors: any[] = [];
+
+        try {
+          const data = await this.graphql(
+            `mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+              inventorySetQuantities(input: $input) {
+                inventoryAdjustmentGroup { id }
+                userErrors { field message code }
+              }
+            }`,
+            {
+              input: {
+                name: "available",
+                reason: "correction",
+                quantities: chunk.map((change) => ({
+                  inventoryItemId: toGid("InventoryItem", change.inventory_item_id),
+                  locationId: toGid("Location", change.location_id),
+                  quantity: change.quantity,
+                  compareQuantity: change.compare_quantity,
+                })),
+              },
+            },
+          );
+          userErrors = data.inventorySetQuantities?.userErrors || [];
+        } catch (error: any) {
+          console.error(`[Shopify] Error en inventorySetQuantities:`, error.message);
+          for (const change of chunk) {
+            errors.push({ id: change.inventory_item_id, error: error.message });
+          }
+          break;
+        }
+
+        if (userErrors.length === 0) {
+          updated.push(...chunk.map((change) => change.inventory_item_id));
+          break;
+        }
+
+        // field: ["input", "quantities", "<índice>", ...] identifica el item rechazado
+        const rejected = new Map<number, string>();
+        for (const userError of userErrors) {
+          const index = parseInt(userError.field?.[2], 10);
+          if (Number.isInteger(index) && chunk[index]) {
+            const message = userError.code === "COMPARE_QUANTITY_STALE"
+              ? "El stock cambió en Shopify durante la sincronización"
+              : userError.message;
+            rejected.set(index, message);
+          }
+        }
+
+        // Error sin item identificable: se rechaza el lote completo
+        if (rejected.size === 0) {
+          const message = userErrors.map((e) => e.message).join(", ");
+          for (const change of chunk) {
+            errors.push({ id: change.inventory_item_id, error: message });
+          }
+          break;
+        }
+
+        rejected.forEach((message, index) => {
+          errors.push({ id: chunk[index].inventory_item_id, error: message });
+        });
+        chunk = chunk.filter((_, index) => !rejected.has(index));
+      }
+    }
+
+    console.log(`[Shopify] ✅ Lote completado: ${updated.length} actualizados, ${errors.length} errores`);
+    return { updated, errors };
+  }
+
+  /**
+   * Obtiene las ubicaciones (locations) de la tienda
+   */
+  async getLocations(): Promise<
+    Array<{ id: number; name: string; active: boolean }>
+  > {
+    const response = await this.makeRequest(
+      "GET",
+      `/admin/api/${this.apiVersion}/locations.json`,
+    );
+
+    return (response.data.locations || []).map((location: any) => ({
+      id: location.id,
+      name: location.name,
+      active: location.active !== false,
+    }));
+  }
+
+  /**
+   * Ubicación asignada a cada line item de una orden (vía fulfillment orders)
+   * @returns Mapa line_item_id → assigned_location_id
+   */
+  async getOrderLineItemLocations(orderId: string): Promise<Map<string, string>> {
+    const response = await this.makeRequest(
+      "GET",
+      `/admin/api/${this.apiVersion}/orders/${orderId}/fulfillment_orders.json`,
+    );
+
+    const locations = new Map<string, string>();
+    for (const fulfillmentOrder of response.data.fulfillment_orders || []) {
+      if (!fulfillmentOrder.assigned_location_id) continue;
+      for (const item of fulfillmentOrder.line_items || []) {
+        if (item.line_item_id) {
+          locations.set(
+            item.line_item_id.toString(),
+            fulfillmentOrder.assigned_location_id.toString(),
+          );
+        }
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * Obtiene los niveles de inventario de varios items en las ubicaciones indicadas
+   * Shopify acepta hasta 50 inventory_item_ids por consulta
+   */
+  async getInventoryLevels(
+    inventoryItemIds: number[],
+    locationIds: Array<string | number>,
+  ): Promise<
+    Array<{ inventory_item_id: number; location_id: number; available: number | null }>
+  > {
+    const levels: Array<{
+      inventory_item_id: number;
+      location_id: number;
+      available: number | null;
+    }> = [];
+
+    for (let i = 0; i < inventoryItemIds.length; i += 50) {
+      const chunk = inventoryItemIds.slice(i, i + 50);
+      const response = await this.makeRequest(
+        "GET",
+        `/admin/api/${this.apiVersion}/inventory_levels.json`,
+        null,
+        {
+          params: {
+            inventory_item_ids: chunk.join(","),
+            location_ids: locationIds.join(","),
+            limit: 250,
+          },
+        },
+      );
+      levels.push(...(response.data.inventory_levels || []));
+    }
+
+    return levels;
+  }
+
   /**
    * Actualiza el stock de una variante específica
+   * @param locationId - Ubicación a actualizar. Si no se indica se usa la primera
+   *                     ubicación del item o la ubicación principal de la tienda
    */
   async updateVariantStock(
     variantId: number,
     inventoryItemId: number,
     quantity: number,
+    targetLocationId?: string | number,
   ): Promise<boolean> {
     try {
       console.log(
-        `[Shopify] Actualizando stock de variante ${variantId} (inventory_item: ${inventoryItemId}) a ${quantity} unidades`,
+        `[Shopify] Actualizando stock de variante ${variantId} (inventory_item: ${inventoryItemId}) a ${quantity} unidades${targetLocationId ? ` en location ${targetLocationId}` : ""}`,
       );
 
+      if (targetLocationId) {
+        return await this.setLocationStock(inventoryItemId, targetLocationId, quantity);
+      }
+
       // 1. Obtener el location_id (usar el primero disponible)
       let locationId: number | null = null;
 
@@ -874,6 +1296,129 @@ export class ShopifyConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Actualiza el precio de una variante (productId no es necesario en Shopify)
+   */
+  async updateVariantPrice(
+    _productId: number,
+    variantId: number,
+    price: number,
+  ): Promise<boolean> {
+    try {
+      console.log(
+        `[Shopify] Actualizando precio de variante ${variantId} a $${price.toFixed(2)}`,
+      );
+
+      await this.makeRequest(
+        "PUT",
+        `/admin/api/${this.apiVersion}/variants/${variantId}.json`,
+        { variant: { id: variantId, price: price.toFixed(2) } },
+      );
+
+      console.log(`[Shopify] ✅ Precio actualizado exitosamente`);
+      return true;
+    } catch (error: any) {
+      console.error(
+        `[Shopify] Error actualizando precio de variante ${variantId}:`,
+        error.message,
+      );
+      throw new Error(`Error al actualizar precio en Shopify: ${error.message}`);
+    }
+  }
+
+  /**
+   * Crea un producto de una sola variante con inventario gestionado por Shopify
+   * La categoría del ERP se guarda como product_type
+   */
+  async createProduct(product: NewStoreProduct): Promise<CreatedStoreProduct> {
+    try {
+      console.log(`[Shopify] Creando producto ${product.sku} - ${product.name}`);
+
+      const response = await this.makeRequest(
+        "POST",
+        `/admin/api/${this.apiVersion}/products.json`,
+        {
+          product: {
+            title: product.name,
+            status: product.status,
+            product_type: product.category || "",
+            variants: [
+              {
+                sku: product.sku,
+                price: product.price.toFixed(2),
+                inventory_management: "shopify",
+              },
+            ],
+          },
+        },
+      );
+
+      const created: ShopifyProduct = response.data.product;
+      const variant = created.variants[0];
+
+      if (product.stock !== undefined) {
+        await this.updateVariantStock(variant.id, variant.inventory_item_id, product.stock);
+      }
+
+      console.log(`[Shopify] ✅ Producto creado: ${created.id} (variante ${variant.id})`);
+      return {
+        product_id: created.id,
+        variant_id: variant.id,
+        inventory_item_id: variant.inventory_item_id,
+      };
+    } catch (error: any) {
+      console.error(`[Shopify] Error creando producto ${product.sku}:`, error.message);
+      throw new Error(`Error al crear producto en Shopify: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fija el stock de un inventory item en una ubicación concreta.
+   * Si el item aún no está almacenado en esa ubicación se conecta y se reintenta.
+   */
+  private async setLocationStock(
+    inventoryItemId: number,
+    locationId: string | number,
+    quantity: number,
+  ): Promise<boolean> {
+    const body = {
+      location_id: locationId,
+      inventory_item_id: inventoryItemId,
+      available: quantity,
+    };
+
+    try {
+      await this.makeRequest(
+        "POST",
+        `/admin/api/${this.apiVersion}/inventory_levels/set.json`,
+        body,
+      );
+    } catch (error: any) {
+      if (error.status !== 422 && !error.message?.includes("422")) {
+        throw error;
+      }
+
+      console.log(
+        `[Shopify] Inventory item ${inventoryItemId} no está en location ${locationId}, conectando`,
+      );
+      await this.makeRequest(
+        "POST",
+        `/admin/api/${this.apiVersion}/inventory_levels/connect.json`,
+        { location_id: locationId, inventory_item_id: inventoryItemId },
+      );
+      await this.makeRequest(
+        "POST",
+        `/admin/api/${this.apiVersion}/inventory_levels/set.json`,
+        body,
+      );
+    }
+
+    console.log(
+      `[Shopify] ✅ Stock actualizado a ${quantity} unidades en location ${locationId}`,
+    );
+    return true;
+  }
+
   /**
    * Transform Shopify product to StandardProduct format
    * Uses the first variant for main product data
@@ -1,4 +1,4 @@
-import { BaseConnector, ConnectionResult, ProductsResult, ProductResult, UpdateResult, StoreInfoResult, StandardProduct } from './BaseConnector';
+import { BaseConnector, ConnectionResult, ProductsResult, ProductResult, UpdateResult, StoreInfoResult, StandardProduct, NewStoreProduct, CreatedStoreProduct } from './BaseConnector';
 import { AxiosRequestConfig } from 'axios';
 import { Store } from '@shared/schema';
 
@@ -6,6 +6,7 @@ interface WooCommerceCredentials {
   consumer_key: string;
   consumer_secret: string;
   api_version?: string;
+  webhook_secret?: string;
 }
 
 interface WooCommerceProduct {
@@ -31,6 +32,11 @@ interface WooCommerceProduct {
   [key: string]: any;
 }
 
+/**
+ * Máximo de elementos por petición a los endpoints batch de WooCommerce
+ */
+const WOO_BATCH_LIMIT = 100;
+
 interface WooCommerceSystemStatus {
   environment: {
     home_url: string;
@@ -67,6 +73,8 @@ interface WooCommerceSystemStatus {
 export class WooCommerceConnector extends BaseConnector {
   private wooCredentials: WooCommerceCredentials;
   private apiVersion: string;
+  // Padre de cada variación (variation_id → product_id), cargado por getProductsWithSku
+  private variationParents = new Map<number, number>();
 
   constructor(store: Store) {
     super(store);
@@ -285,6 +293,7 @@ export class WooCommerceConnector extends BaseConnector {
     product_id: number;
     inventory_quantity: number;
     title: string;
+    price: number;
   }>> {
     const productsWithSku: any[] = [];
     let page = 1;
@@ -313,29 +322,27 @@ export class WooCommerceConnector extends BaseConnector {
               variant_id: product.id,
               product_id: product.id,
               inventory_quantity: product.stock_quantity || 0,
-              title: product.name
+              title: product.name,
+              price: parseFloat(product.regular_price || product.price) || 0
             });
           }
 
           // Productos variables - obtener variaciones
           if (product.type === 'variable') {
             try {
-              const variationsResponse = await this.makeRequest('GET', 
-                `/wp-json/wc/v3/products/${product.id}/variations`, 
-                null, 
-                { params: { per_page: 100 } }
-              );
-
-              const variations = variationsResponse.data;
+              const variations = await this.getAllVariations(product.id);
 
               for (const variation of variations) {
+                this.variationParents.set(variation.id, product.id);
+
                 if (variation.sku && variation.sku.trim() !== '') {
                   productsWithSku.push({
                     sku: variation.sku.trim(),
                     variant_id: variation.id,
                     product_id: product.id,
                     inventory_quantity: variation.stock_quantity || 0,
-                    title: `${product.name} - ${variation.sku}`
+                    title: `${product.name} - ${variation.sku}`,
+                    price: parseFloat(variation.regular_price || variation.price) || 0
                   });
                 }
               }
@@ -362,13 +369,45 @@ export class WooCommerceConnector extends BaseConnector {
   }
 
   /**
-   * Actualiza el stock de un producto específico
+   * Todas las variaciones de un producto variable (paginado)
+   */
+  private async getAllVariations(productId: number): Promise<any[]> {
+    const variations: any[] = [];
+    let page = 1;
+
+    while (true) {
+      const response = await this.makeRequest('GET', `/wp-json/wc/v3/products/${productId}/variations`, null, {
+        params: { per_page: WOO_BATCH_LIMIT, page }
+      });
+
+      const pageVariations = response.data || [];
+      variations.push(...pageVariations);
+
+      if (pageVariations.length < WOO_BATCH_LIMIT) {
+        return variations;
+      }
+      page++;
+    }
+  }
+
+  /**
+   * Endpoint de un producto simple o de una variación (si se conoce su padre)
+   */
+  private getStockEndpoint(productId: number): string {
+    const parentId = this.variationParents.get(productId);
+    return parentId
+      ? `/wp-json/wc/v3/products/${parentId}/variations/${productId}`
+      : `/wp-json/wc/v3/products/${productId}`;
+  }
+
+  /**
+   * Actualiza el stock de un producto simple o de una variación
    */
   async updateProductStock(productId: number, quantity: number): Promise<boolean> {
     try {
       console.log(`[WooCommerce] Actualizando stock del producto ${productId} a ${quantity} unidades`);
 
-      await this.makeRequest('PUT', `/wp-json/wc/v3/products/${productId}`, {
+      await this.makeRequest('PUT', this.getStockEndpoint(productId), {
         manage_stock: true,
         stock_quantity: quantity
       });
@@ -382,6 +421,302 @@ export class WooCommerceConnector extends BaseConnector {
     }
   }
 
+  /**
+   * Actualiza el stock de varios productos/variaciones con los endpoints batch
+   * (/products/batch y /products/{padre}/variations/batch, en bloques de 100)
+   * Las variaciones deben haberse cargado antes con getProductsWithSku
+   * @returns IDs actualizados y errores por ID (un error no detiene el resto)
+   */
+  async updateStockBatch(updates: Array<{ id: number; quantity: number }>): Promise<{
+    updated: number[];
+    errors: Array<{ id: number; error: string }>;
+  }> {
+    const updated: number[] = [];
+    const errors: Array<{ id: number; error: string }> = [];
+
+    // Agrupar por endpoint: productos simples juntos, variaciones por producto padre
+    const groups = new Map<string, Array<{ id: number; quantity: number }>>();
+    for (const update of updates) {
+      const parentId = this.variationParents.get(update.id);
+      const endpoint = parentId
+        ? `/wp-json/wc/v3/products/${parentId}/variations/batch`
+        : '/wp-json/wc/v3/products/batch';
+      groups.set(endpoint, [...(groups.get(endpoint) || []), update]);
+    }
+
+    console.log(`[WooCommerce] Actualizando stock en lote: ${updates.length} productos en ${groups.size} endpoints`);
+
+    for (const [endpoint, groupUpdates] of Array.from(groups.entries())) {
+      for (let i = 0; i < groupUpdates.length; i += WOO_BATCH_LIMIT) {
+        const chunk = groupUpdates.slice(i, i + WOO_BATCH_LIMIT);
+
+        try {
+          const response = await this.makeRequest('POST', endpoint, {
+            update: chunk.map((u) => ({ id: u.id, manage_stock: true, stock_quantity: u.quantity }))
+          });
+
+          // WooCommerce devuelve un error por elemento en lugar de fallar la petición completa
+          const results: any[] = response.data?.update || [];
+          for (const u of chunk) {
+            const result = results.find((r) => r.id === u.id);
+            if (result && !result.error) {
+              updated.push(u.id);
+            } else {
+              errors.push({ id: u.id, error: result?.error?.message || 'Sin respuesta de WooCommerce para este producto' });
+            }
+          }
+        } catch (error: any) {
+          console.error(`[WooCommerce] Error en actualización por lote (${endpoint}):`, error.message);
+          for (const u of chunk) {
+            errors.push({ id: u.id, error: error.message });
+          }
+        }
+      }
+    }
+
+    console.log(`[WooCommerce] ✅ Lote completado: ${updated.length} actualizados, ${errors.length} errores`);
+    return { updated, errors };
+  }
+
+  /**
+   * Actualiza el precio regular de un producto simple o de una variación
+   */
+  async updateVariantPrice(productId: number, variantId: number, price: number): Promise<boolean> {
+    const endpoint = productId === variantId
+      ? `/wp-json/wc/v3/products/${productId}`
+      : `/wp-json/wc/v3/products/${productId}/variations/${variantId}`;
+
+    try {
+      console.log(`[WooCommerce] Actualizando precio de ${variantId} a $${price.toFixed(2)}`);
+
+      await this.makeRequest('PUT', endpoint, {
+        regular_price: price.toFixed(2)
+      });
+
+      console.log(`[WooCommerce] ✅ Precio actualizado exitosamente`);
+      return true;
+
+    } catch (error: any) {
+      console.error(`[WooCommerce] Error actualizando precio de ${variantId}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Crea un producto simple con stock gestionado
+   */
+  async createProduct(product: NewStoreProduct): Promise<CreatedStoreProduct> {
+    try {
+      console.log(`[WooCommerce] Creando producto ${product.sku} - ${product.name}`);
+
+      const categoryId = product.category ? await this.getOrCreateCategory(product.category) : null;
+
+      const response = await this.makeRequest('POST', '/wp-json/wc/v3/products', {
+        name: product.name,
+        type: 'simple',
+        status: product.status === 'active' ? 'publish' : 'draft',
+        sku: product.sku,
+        regular_price: product.price.toFixed(2),
+        manage_stock: true,
+        stock_quantity: product.stock ?? 0,
+        categories: categoryId ? [{ id: categoryId }] : []
+      });
+
+      const created: WooCommerceProduct = response.data;
+      console.log(`[WooCommerce] ✅ Producto creado: ${created.id}`);
+
+      return { product_id: created.id, variant_id: created.id };
+
+    } catch (error: any) {
+      console.error(`[WooCommerce] Error creando producto ${product.sku}:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * ID de la categoría con ese nombre; la crea si no existe
+   */
+  private async getOrCreateCategory(name: string): Promise<number> {
+    const response = await this.makeRequest('GET', '/wp-json/wc/v3/products/categories', null, {
+      params: { search: name, per_page: 100 }
+    });
+
+    const existing = (response.data || []).find(
+      (c: any) => c.name?.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+    if (existing) {
+      return existing.id;
+    }
+
+    const created = await this.makeRequest('POST', '/wp-json/wc/v3/products/categories', { name });
+    console.log(`[WooCommerce] Categoría creada: ${name} (${created.data.id})`);
+    return created.data.id;
+  }
+
+  /**
+   * Registra los webhooks de órdenes en WooCommerce
+   * @param callbackUrl - URL pública donde WooCommerce enviará los webhooks
+   * @param secret - Secreto con el que WooCommerce firma cada entrega (x-wc-webhook-signature)
+   * @returns Mismo formato que ShopifyConnector.registerWebhooks
+   */
+  async registerWebhooks(callbackUrl: string, secret: string): Promise<{
+    success: boolean;
+    webhooks: Array<{ id: number; topic: string; address: string }>;
+    errors: Array<{ topic: string; error: string }>;
+  }> {
+    // El estado de la orden (completed, cancelled, refunded) viene en el payload
+    const webhookTopics = [
+      'order.created',
+      'order.updated'
+    ];
+
+    const createdWebhooks: Array<{ id: number; topic: string; address: string }> = [];
+    const errors: Array<{ topic: string; error: string }> = [];
+
+    console.log(`[WooCommerce] Registrando webhooks para ${this.baseUrl}`);
+    console.log(`[WooCommerce] URL de callback: ${callbackUrl}`);
+
+    try {
+      // Primero, obtener webhooks existentes para evitar duplicados
+      const existingResponse = await this.makeRequest('GET', '/wp-json/wc/v3/webhooks', null, {
+        params: { per_page: 100 }
+      });
+      const existingWebhooks = existingResponse.data || [];
+      console.log(`[WooCommerce] Webhooks existentes: ${existingWebhooks.length}`);
+
+      for (const topic of webhookTopics) {
+        try {
+          const existingWebhook = existingWebhooks.find(
+            (wh: any) => wh.topic === topic && wh.delivery_url === callbackUrl
+          );
+
+          if (existingWebhook) {
+            // Actualizar secreto y estado para que la firma coincida con la guardada
+            await this.makeRequest('PUT', `/wp-json/wc/v3/webhooks/${existingWebhook.id}`, {
+              secret,
+              status: 'active'
+            });
+            console.log(`[WooCommerce] ✓ Webhook ya existe: ${topic} → ID ${existingWebhook.id}`);
+            createdWebhooks.push({ id: existingWebhook.id, topic, address: callbackUrl });
+            continue;
+          }
+
+          const response = await this.makeRequest('POST', '/wp-json/wc/v3/webhooks', {
+            name: `G4 Hub - ${topic}`,
+            topic,
+            delivery_url: callbackUrl,
+            secret,
+            status: 'active'
+          });
+
+          console.log(`[WooCommerce] ✅ Webhook creado: ${topic} → ID ${response.data.id}`);
+          createdWebhooks.push({ id: response.data.id, topic, address: callbackUrl });
+
+        } catch (error: any) {
+          const errorMsg = error.message;
+          console.error(`[WooCommerce] ❌ Error creando webhook ${topic}:`, errorMsg);
+          errors.push({ topic, error: errorMsg });
+        }
+      }
+
+      const success = createdWebhooks.length > 0 && errors.length === 0;
+      console.log(`[WooCommerce] Resultado: ${createdWebhooks.length} webhooks configurados, ${errors.length} errores`);
+
+      return {
+        success,
+        webhooks: createdWebhooks,
+        errors
+      };
+
+    } catch (error: any) {
+      console.error(`[WooCommerce] Error al registrar webhooks:`, error.message);
+      return {
+        success: false,
+        webhooks: [],
+        errors: [{ topic: 'general', error: error.message }]
+      };
+    }
+  }
+
+  /**
+   * Elimina webhooks de WooCommerce (definitivamente, sin pasar por la papelera)
+   * @param webhookIds - Array de IDs de webhooks a eliminar
+   */
+  async deleteWebhooks(webhookIds: number[]): Promise<{
+    success: boolean;
+    deleted: number;
+    errors: Array<{ id: number; error: string }>;
+  }> {
+    const errors: Array<{ id: number; error: string }> = [];
+    let deleted = 0;
+
+    console.log(`[WooCommerce] Eliminando ${webhookIds.length} webhooks`);
+
+    for (const webhookId of webhookIds) {
+      try {
+        await this.makeRequest('DELETE', `/wp-json/wc/v3/webhooks/${webhookId}`, null, {
+          params: { force: true }
+        });
+        deleted++;
+        console.log(`[WooCommerce] ✅ Webhook ${webhookId} eliminado`);
+      } catch (error: any) {
+        const errorMsg = error.message;
+        console.error(`[WooCommerce] ❌ Error eliminando webhook ${webhookId}:`, errorMsg);
+        errors.push({ id: webhookId, error: errorMsg });
+      }
+    }
+
+    return {
+      success: deleted > 0 && errors.length === 0,
+      deleted,
+      errors
+    };
+  }
+
+  /**
+   * Lista los webhooks de G4 Hub configurados en WooCommerce
+   * Los webhooks de otros plugins (delivery_url ajena) se excluyen para que la limpieza
+   * de huérfanos no los elimine
+   * @returns Array de webhooks con id, address (delivery_url) y topic
+   */
+  async listWebhooks(): Promise<{
+    success: boolean;
+    webhooks: Array<{ id: number; address: string; topic: string }>;
+    error?: string;
+  }> {
+    try {
+      console.log(`[WooCommerce] Listando todos los webhooks`);
+
+      const response = await this.makeRequest('GET', '/wp-json/wc/v3/webhooks', null, {
+        params: { per_page: 100 }
+      });
+
+      const webhooks = (response.data || []).filter(
+        (wh: any) => typeof wh.delivery_url === 'string' && wh.delivery_url.includes('/api/webhooks/woocommerce/')
+      );
+
+      console.log(`[WooCommerce] ✅ ${webhooks.length} webhooks encontrados`);
+
+      return {
+        success: true,
+        webhooks: webhooks.map((wh: any) => ({
+          id: wh.id,
+          address: wh.delivery_url,
+          topic: wh.topic
+        }))
+      };
+    } catch (error: any) {
+      const errorMsg = error.message;
+      console.error(`[WooCommerce] ❌ Error listando webhooks:`, errorMsg);
+
+      return {
+        success: false,
+        webhooks: [],
+        error: errorMsg
+      };
+    }
+  }
+
   /**
    * Transform WooCommerce product to StandardProduct format
    */
@@ -0,0 +1,361 @@
+import type { Integration, Store } from "@shared/schema";
+import type { ConnectionResult, StandardProduct } from "../BaseConnector";
+import { ContificoConnector } from "../ContificoConnector";
+import { ContificoMovementsAPI } from "../../services/contificoMovementsAPI";
+import {
+  ContificoDocumentsAPI,
+  type CreateDocumentRequest,
+  type DocumentResponse,
+} from "../../services/contificoDocumentsAPI";
+import { ContificoPersonsAPI, type ContificoPerson, type PersonRequest } from "../../services/contificoPersonsAPI";
+import type {
+  ErpConnector,
+  ErpCustomer,
+  ErpCustomerResult,
+  ErpMovement,
+  ErpMovementResult,
+  ErpProductPrice,
+  ErpSalesDocument,
+  ErpSalesDocumentResult,
+  ErpWarehouse,
+} from "./ErpConnector";
+import type { PriceList } from "@shared/price-sync";
+import { parseStockValue } from "@shared/stock-guard";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function formatContificoDate(date: Date): string {
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return `${day}/${month}/${date.getFullYear()}`;
+}
+
+/**
+ * Fecha de Contífico ("dd/mm/yyyy", con hora opcional, o ISO) en hora local; null si no se reconoce
+ */
+function parseContificoDate(value: unknown): Date | null {
+  if (typeof value !== "string" || value.trim() === "") {
+    return null;
+  }
+
+  const match = value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  const date = match
+    ? new Date(
+        Number(match[3]),
+        Number(match[2]) - 1,
+        Number(match[1]),
+        Number(match[4] || 0),
+        Number(match[5] || 0),
+        Number(match[6] || 0),
+      )
+    : new Date(value);
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Datos de persona de Contífico para un cliente (cédula, RUC o pasaporte en "placa")
+ */
+function toContificoPerson(customer: ErpCustomer): PersonRequest {
+  const { identificationType, identification } = customer;
+  const isRuc = identificationType === "ruc" || identificationType === "consumidor_final";
+
+  return {
+    // RUC de sociedades: tercer dígito 6 (pública) o 9 (privada)
+    tipo: identificationType === "ruc" && ["6", "9"].includes(identification[2]) ? "J" : "N",
+    razon_social: customer.name,
+    cedula: identificationType === "cedula" ? identification : null,
+    ruc: isRuc ? identification : null,
+    placa: identificationType === "pasaporte" ? identification : null,
+    email: customer.email,
+    telefonos: customer.phone,
+    direccion: customer.address,
+    es_cliente: true,
+    es_extranjero: identificationType === "pasaporte",
+  };
+}
+
+/**
+ * ERP Contífico: adapta ContificoConnector (productos, stock, bodegas),
+ * ContificoMovementsAPI (egresos/ingresos) y ContificoDocumentsAPI (facturas)
+ * a la interfaz ErpConnector
+ */
+export class ContificoErpConnector implements ErpConnector {
+  readonly integrationType = "contifico";
+  readonly displayName: string;
+  readonly primaryWarehouseId: string | null;
+
+  private connector: ContificoConnector;
+  private movementsAPI: ContificoMovementsAPI;
+  private documentsAPI: ContificoDocumentsAPI;
+  private personsAPI: ContificoPersonsAPI;
+  private categoryNames: Promise<Map<string, string>> | null = null;
+
+  constructor(integration: Integration) {
+    const settings = (integration.settings || {}) as any;
+
+    // Los conectores de Contífico reutilizan la estructura de Store para las credenciales
+    const contificoStore = {
+      id: 0,
+      tenantId: integration.tenantId,
+      platform: "contifico",
+      storeName: integration.name,
+      storeUrl: "https://api.contifico.com",
+      apiCredentials: settings,
+      syncConfig: {},
+      status: "active",
+      connectionStatus: "connected",
+      lastConnectionTest: null,
+      storeInfo: {},
+      productsCount: 0,
+      lastSyncAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as Store;
+
+    this.displayName = integration.name;
+    this.primaryWarehouseId = settings.warehouse_primary || null;
+    this.connector = new ContificoConnector(contificoStore);
+    this.movementsAPI = new ContificoMovementsAPI(contificoStore);
+    this.documentsAPI = new ContificoDocumentsAPI(contificoStore);
+    this.personsAPI = new ContificoPersonsAPI(contificoStore);
+  }
+
+  testConnection(): Promise<ConnectionResult> {
+    return this.connector.testConnection();
+  }
+
+  async getWarehouses(): Promise<ErpWarehouse[]> {
+    const warehouses = await this.connector.getWarehouses();
+    return warehouses.map((w) => ({ id: w.id, name: w.nombre, code: w.codigo }));
+  }
+
+  async getProductBySku(sku: string): Promise<StandardProduct | null> {
+    const result = await this.connector.getProduct(sku);
+    return result.product || null;
+  }
+
+  async listProducts(): Promise<StandardProduct[]> {
+    // La API devuelve el catálogo completo en una sola respuesta; la paginación es local
+    const result = await this.connector.getProducts(1, Number.MAX_SAFE_INTEGER);
+    return result.products;
+  }
+
+  async getProductStock(product: StandardProduct, warehouseId?: string | null): Promise<number> {
+    if (!warehouseId) {
+      const stock = parseStockValue(product.stock_quantity);
+      if (stock === null) {
+        throw new Error(`Stock desconocido para el producto ${product.sku}`);
+      }
+      return stock;
+    }
+    return this.connector.getProductStock(product.id, product.sku || "", warehouseId);
+  }
+
+  getProductStockByWarehouse(product: StandardProduct): Promise<Record<string, number>> {
+    return this.connector.getProductStockByWarehouse(product.id);
+  }
+
+  checkStockAvailability(warehouseId: string, sku: string, quantity: number): Promise<boolean> {
+    return this.movementsAPI.checkStockAvailability(warehouseId, sku, quantity);
+  }
+
+  async sendMovement(movement: ErpMovement): Promise<ErpMovementResult> {
+    const { warehouseId, sku, quantity, orderId, notes } = movement;
+
+    const response = movement.type === "egreso"
+      ? await this.movementsAPI.sendEgreso(warehouseId, sku, quantity, orderId, notes)
+      : await this.movementsAPI.sendIngreso(warehouseId, sku, quantity, orderId, notes);
+
+    return { id: response?.id || null, raw: response };
+  }
+
+  /**
+   * Contífico no tiene un listado de cambios: se combinan los movimientos de inventario
+   * del período con la fecha de modificación de los productos (precios, datos)
+   * Ambos son por día: se consulta desde el día anterior a "since" para cubrir la diferencia
+   * entre la zona horaria del servidor y la de Contífico (consultar de más solo añade SKUs)
+   */
+  async getChangedSkus(since: Date): Promise<Set<string>> {
+    const sinceDay = new Date(since.getFullYear(), since.getMonth(), since.getDate() - 1);
+
+    const [products, movements] = await Promise.all([
+      this.listProducts(),
+      this.movementsAPI.listMovements(sinceDay),
+    ]);
+
+    const skuById = new Map<string, string>();
+    const changed = new Set<string>();
+
+    for (const product of products) {
+      if (!product.sku) continue;
+      skuById.set(String(product.id), product.sku);
+
+      const modifiedAt = parseContificoDate(product.raw_data?.fecha_modificacion);
+      if (modifiedAt && modifiedAt >= sinceDay) {
+        changed.add(product.sku);
+      }
+    }
+
+    for (const movement of movements) {
+      for (const detail of movement.detalles || []) {
+        const sku = skuById.get(String(detail.producto_id));
+        if (sku) {
+          changed.add(sku);
+        }
+      }
+    }
+
+    console.log(
+      `[Contífico] ${changed.size} SKUs con cambios desde ${sinceDay.toLocaleDateString("es-EC")} (${movements.length} movimientos)`,
+    );
+
+    return changed;
+  }
+
+  getProductPrice(product: StandardProduct, priceList: PriceList): ErpProductPrice | null {
+    const raw = product.raw_data || {};
+    // precio_venta es el PVP1 en versiones anteriores de la API
+    const price = Number(raw[priceList] ?? (priceList === "pvp1" ? raw.precio_venta : undefined));
+    if (!Number.isFinite(price) || price <= 0) {
+      return null;
+    }
+
+    const taxRate = Number(raw.porcentaje_iva ?? raw.iva);
+    return { price, taxRate: Number.isFinite(taxRate) ? taxRate : 0 };
+  }
+
+  async getProductCategory(product: StandardProduct): Promise<string | null> {
+    const categoryId = product.raw_data?.categoria_id;
+    if (!categoryId) {
+      return product.raw_data?.categoria || null;
+    }
+
+    // Una sola consulta de categorías por instancia
+    if (!this.categoryNames) {
+      this.categoryNames = this.connector.getCategories()
+        .then((categories) => new Map(categories.map((c) => [c.id, c.nombre])))
+        .catch((error) => {
+          this.categoryNames = null;
+          throw error;
+        });
+    }
+
+    return (await this.categoryNames).get(categoryId) || null;
+  }
+
+  async createSalesDocument(document: ErpSalesDocument): Promise<ErpSalesDocumentResult> {
+    const detalles: CreateDocumentRequest["detalles"] = [];
+
+    for (const line of document.lines) {
+      let productId = line.productId;
+      if (!productId) {
+        const product = line.sku ? await this.getProductBySku(line.sku) : null;
+        if (!product) {
+          throw new Error(`Producto con SKU ${line.sku || line.description} no encontrado en Contífico`);
+        }
+        productId = product.id as string;
+      }
+
+      const gross = round2(line.unitPrice * line.quantity);
+      const base = round2(gross - line.discount);
+      detalles.push({
+        producto_id: productId,
+        cantidad: line.quantity,
+        precio: round2(line.unitPrice),
+        porcentaje_iva: line.taxRate,
+        porcentaje_descuento: gross > 0 ? round2((line.discount / gross) * 100) : 0,
+        base_cero: line.taxRate > 0 ? 0 : base,
+        base_gravable: line.taxRate > 0 ? base : 0,
+        base_no_gravable: 0,
+      });
+    }
+
+    const subtotal0 = round2(detalles.reduce((sum, d) => sum + d.base_cero, 0));
+    const subtotalTaxed = round2(detalles.reduce((sum, d) => sum + d.base_gravable, 0));
+    const iva = round2(detalles.reduce((sum, d) => sum + d.base_gravable * d.porcentaje_iva / 100, 0));
+    const total = round2(subtotal0 + subtotalTaxed + iva);
+    const fecha = formatContificoDate(document.issueDate);
+    const person = toContificoPerson(document.customer);
+
+    const response = await this.documentsAPI.createDocument({
+      pos: document.posToken,
+      fecha_emision: fecha,
+      tipo_documento: "FAC",
+      documento: document.documentNumber,
+      estado: "C",
+      electronico: true,
+      cliente: {
+        ruc: person.ruc,
+        cedula: person.cedula,
+        placa: person.placa,
+        razon_social: person.razon_social,
+        telefonos: person.telefonos,
+        direccion: person.direccion,
+        tipo: person.tipo,
+        email: person.email,
+        es_extranjero: person.es_extranjero,
+      },
+      descripcion: document.description,
+      subtotal_0: subtotal0,
+      subtotal_12: subtotalTaxed,
+      iva,
+      ice: 0,
+      servicio: 0,
+      total,
+      detalles,
+      cobros: [{ forma_cobro: document.paymentMethod || "TC", monto: total, fecha }],
+    });
+
+    return this.toSalesDocumentResult(response);
+  }
+
+  async findCustomer(identification: string): Promise<ErpCustomerResult | null> {
+    const person = await this.personsAPI.findByIdentification(identification);
+    return person ? this.toCustomerResult(person) : null;
+  }
+
+  async upsertCustomer(
+    customer: ErpCustomer,
+    options: { existingId?: string | null; posToken?: string } = {},
+  ): Promise<ErpCustomerResult> {
+    const person = toContificoPerson(customer);
+
+    if (options.existingId) {
+      // Solo datos de contacto: la razón social registrada en Contífico se respeta
+      const updated = await this.personsAPI.updatePerson(options.existingId, {
+        email: person.email,
+        telefonos: person.telefonos,
+        direccion: person.direccion,
+        es_cliente: true,
+      });
+      return this.toCustomerResult(updated);
+    }
+
+    return this.toCustomerResult(await this.personsAPI.createPerson(person, options.posToken));
+  }
+
+  private toCustomerResult(person: ContificoPerson): ErpCustomerResult {
+    return { id: person.id, name: person.razon_social || null };
+  }
+
+  async getSalesDocument(documentId: string): Promise<ErpSalesDocumentResult> {
+    return this.toSalesDocumentResult(await this.documentsAPI.getDocument(documentId));
+  }
+
+  /**
+   * Contífico no expone el estado del SRI directamente: con número de autorización
+   * el documento está autorizado; anulado (estado A) se trata como rechazado
+   */
+  private toSalesDocumentResult(response: DocumentResponse): ErpSalesDocumentResult {
+    const authorizationNumber = response.autorizacion || null;
+    return {
+      id: response.id,
+      documentNumber: response.documento || null,
+      total: response.total !== undefined ? Number(response.total) : null,
+      authorizationStatus: authorizationNumber ? "authorized" : response.estado === "A" ? "rejected" : "pending",
+      authorizationNumber,
+      raw: response,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Integration } from "@shared/schema";
+
+// CSV_ERP_DIR se lee al importar el módulo
+const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "csv-erp-"));
+process.env.CSV_ERP_DIR = baseDir;
+const { CsvErpConnector, resolveCsvErpPath } = await import("./CsvErpConnector");
+
+function csvIntegration(tenantId: number, filePath: string): Integration {
+  return { id: 1, tenantId, name: "CSV", settings: { file_path: filePath } } as Integration;
+}
+
+async function writeTenantFile(tenantId: number, fileName: string, content: string): Promise<void> {
+  await fs.mkdir(path.join(baseDir, String(tenantId)), { recursive: true });
+  await fs.writeFile(path.join(baseDir, String(tenantId), fileName), content, "utf8");
+}
+
+after(async () => {
+  await fs.rm(baseDir, { recursive: true, force: true });
+});
+
+describe("resolveCsvErpPath", () => {
+  it("resuelve las rutas dentro del directorio del tenant", () => {
+    assert.equal(resolveCsvErpPath(7, "inventario.csv"), path.join(baseDir, "7", "inventario.csv"));
+    assert.equal(resolveCsvErpPath(7, "bodegas/norte.csv"), path.join(baseDir, "7", "bodegas", "norte.csv"));
+  });
+
+  it("rechaza rutas hacia el directorio de otro tenant", () => {
+    assert.throws(() => resolveCsvErpPath(7, "../8/inventario.csv"), /directorio permitido/);
+    assert.throws(() => resolveCsvErpPath(7, path.join(baseDir, "8", "inventario.csv")), /directorio permitido/);
+  });
+
+  it("rechaza rutas fuera del directorio base", () => {
+    assert.throws(() => resolveCsvErpPath(7, "../../etc/passwd"), /directorio permitido/);
+    assert.throws(() => resolveCsvErpPath(7, "/etc/passwd"), /directorio permitido/);
+    assert.throws(() => resolveCsvErpPath(7, "."), /directorio permitido/);
+  });
+
+  it("no confunde un tenant con otro que comparte prefijo", () => {
+    assert.throws(() => resolveCsvErpPath(1, "../10/inventario.csv"), /directorio permitido/);
+  });
+});
+
+describe("CsvErpConnector", () => {
+  before(async () => {
+    await writeTenantFile(
+      7,
+      "inventario.csv",
+      [
+        "SKU,Name,Warehouse,Stock,Price",
+        'A-1,"Camiseta, talla M",principal,10,12.5',
+        "A-1,Camiseta,norte,3.9,",
+        "B-2,Gorra,,4,8",
+        ",Sin SKU,principal,5,1",
+        "",
+      ].join("\n"),
+    );
+    await writeTenantFile(8, "inventario.csv", "sku,stock\nZ-9,99\n");
+    await writeTenantFile(
+      7,
+      "desconocido.csv",
+      ["sku,warehouse,stock", "C-3,principal,", "C-3,norte,5", "D-4,principal,n/a", "E-5,principal,0", ""].join("\n"),
+    );
+  });
+
+  it("requiere la ruta del archivo", () => {
+    assert.throws(() => new CsvErpConnector(csvIntegration(7, "")), /requerida/);
+  });
+
+  it("no puede leer el archivo de otro tenant", () => {
+    assert.throws(() => new CsvErpConnector(csvIntegration(7, "../8/inventario.csv")), /directorio permitido/);
+  });
+
+  it("suma el stock de todas las bodegas por SKU", async () => {
+    const connector = new CsvErpConnector(csvIntegration(7, "inventario.csv"));
+    const products = await connector.listProducts();
+
+    assert.deepEqual(products.map((p) => p.sku), ["A-1", "B-2"]);
+    const product = products[0];
+    assert.equal(product.name, "Camiseta, talla M");
+    assert.equal(product.price, 1250);
+    assert.equal(product.stock_quantity, 13);
+  });
+
+  it("devuelve el stock por bodega (las filas sin bodega van a la principal)", async () => {
+    const connector = new CsvErpConnector(csvIntegration(7, "inventario.csv"));
+
+    const a1 = (await connector.getProductBySku("A-1"))!;
+    assert.deepEqual(await connector.getProductStockByWarehouse(a1), { principal: 10, norte: 3 });
+    assert.equal(await connector.getProductStock(a1, "norte"), 3);
+
+    const b2 = (await connector.getProductBySku("B-2"))!;
+    assert.deepEqual(await connector.getProductStockByWarehouse(b2), { principal: 4 });
+    assert.equal(await connector.getProductBySku("Z-9"), null);
+  });
+
+  it("no trata el stock vacío o no numérico como cero", async () => {
+    const connector = new CsvErpConnector(csvIntegration(7, "desconocido.csv"));
+
+    const c3 = (await connector.getProductBySku("C-3"))!;
+    assert.equal(c3.stock_quantity, undefined);
+    await assert.rejects(connector.getProductStock(c3), /Stock desconocido/);
+    await assert.rejects(connector.getProductStock(c3, "principal"), /Stock desconocido/);
+    assert.equal(await connector.getProductStock(c3, "norte"), 5);
+    assert.deepEqual(await connector.getProductStockByWarehouse(c3), { norte: 5 });
+
+    const d4 = (await connector.getProductBySku("D-4"))!;
+    await assert.rejects(connector.getProductStock(d4), /Stock desconocido/);
+    await assert.rejects(
+      connector.sendMovement({ type: "ingreso", warehouseId: "principal", sku: "D-4", quantity: 1 }),
+      /Stock desconocido/,
+    );
+
+    const e5 = (await connector.getProductBySku("E-5"))!;
+    assert.equal(await connector.getProductStock(e5), 0);
+  });
+
+  it("los movimientos actualizan el archivo del tenant", async () => {
+    const connector = new CsvErpConnector(csvIntegration(7, "inventario.csv"));
+    await connector.sendMovement({ type: "egreso", warehouseId: "principal", sku: "B-2", quantity: 3 });
+
+    const reloaded = new CsvErpConnector(csvIntegration(7, "inventario.csv"));
+    const b2 = (await reloaded.getProductBySku("B-2"))!;
+    assert.equal(await reloaded.getProductStock(b2, "principal"), 1);
+
+    const otherTenant = await fs.readFile(path.join(baseDir, "8", "inventario.csv"), "utf8");
+    assert.equal(otherTenant, "sku,stock\nZ-9,99\n");
+  });
+});
@@ -0,0 +1,332 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { Integration } from "@shared/schema";
+import { parseStockValue } from "@shared/stock-guard";
+import type { ConnectionResult, StandardProduct } from "../BaseConnector";
+import type { ErpConnector, ErpMovement, ErpMovementResult, ErpWarehouse } from "./ErpConnector";
+
+/**
+ * Directorio base de los archivos CSV. Cada tenant tiene su propio subdirectorio
+ * (CSV_ERP_DIR/<tenantId>/) y sus integraciones solo pueden leer/escribir dentro de él
+ * (las rutas vienen de la configuración del tenant).
+ */
+const CSV_ERP_DIR = path.resolve(process.env.CSV_ERP_DIR || path.join(process.cwd(), "data", "csv-erp"));
+
+/**
+ * Ruta absoluta del archivo dentro del directorio del tenant
+ * @throws Error si la ruta sale del directorio del tenant
+ */
+export function resolveCsvErpPath(tenantId: number, filePath: string): string {
+  const tenantDir = path.join(CSV_ERP_DIR, String(tenantId));
+  const resolved = path.resolve(tenantDir, filePath);
+  if (!resolved.startsWith(tenantDir + path.sep)) {
+    throw new Error("La ruta del archivo CSV debe estar dentro del directorio permitido");
+  }
+  return resolved;
+}
+
+/**
+ * Bodega usada para las filas sin columna "warehouse"
+ */
+const DEFAULT_WAREHOUSE = "principal";
+
+const CSV_HEADERS = ["sku", "name", "warehouse", "stock", "price"] as const;
+
+interface CsvErpSettings {
+  file_path: string; // Relativo a CSV_ERP_DIR/<tenantId>
+  warehouse_primary?: string;
+}
+
+interface CsvStockRow {
+  sku: string;
+  name: string;
+  warehouse: string;
+  stock: number | null; // null: celda vacía o no numérica (stock desconocido)
+  price: number;
+}
+
+// Escrituras serializadas por archivo (varios movimientos pueden llegar en paralelo)
+const fileLocks = new Map<string, Promise<unknown>>();
+
+function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  fileLocks.set(filePath, next);
+  return next.finally(() => {
+    if (fileLocks.get(filePath) === next) {
+      fileLocks.delete(filePath);
+    }
+  });
+}
+
+/**
+ * Parsea una línea CSV (separador coma, comillas dobles con "" como escape)
+ */
+function parseCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values.map((v) => v.trim());
+}
+
+function toCsvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * ERP basado en un archivo CSV local: una fila por SKU y bodega
+ * (columnas sku, name, warehouse, stock, price; solo sku y stock son obligatorias).
+ * Una celda de stock vacía o no numérica es stock desconocido: nunca se trata como 0.
+ * Los movimientos de push actualizan el stock del archivo y se registran en
+ * <archivo>.movements.csv. Sirve como ERP mínimo y como sustituto local de Contífico.
+ */
+export class CsvErpConnector implements ErpConnector {
+  readonly integrationType = "csv";
+  readonly displayName: string;
+  readonly primaryWarehouseId: string | null;
+
+  private filePath: string;
+  private rowsCache: CsvStockRow[] | null = null;
+
+  constructor(integration: Integration) {
+    const settings = (integration.settings || {}) as CsvErpSettings;
+
+    if (!settings.file_path) {
+      throw new Error("La ruta del archivo CSV es requerida");
+    }
+
+    this.filePath = resolveCsvErpPath(integration.tenantId, settings.file_path);
+    this.displayName = integration.name;
+    this.primaryWarehouseId = settings.warehouse_primary || null;
+  }
+
+  private get movementsPath(): string {
+    return this.filePath.replace(/\.csv$/i, "") + ".movements.csv";
+  }
+
+  async testConnection(): Promise<ConnectionResult> {
+    try {
+      const rows = await this.readRows(true);
+      const warehouses = await this.getWarehouses();
+      const skus = new Set(rows.map((r) => r.sku));
+
+      return {
+        success: true,
+        store_name: `CSV (${path.basename(this.filePath)})`,
+        products_count: skus.size,
+        details: {
+          warehouses_count: warehouses.length,
+          warehouses: warehouses.map((w) => ({ id: w.id, name: w.name })),
+          primary_warehouse: this.primaryWarehouseId,
+          message: "Archivo CSV leído correctamente.",
+        },
+      };
+    } catch (error: any) {
+      console.error(`[CsvErp] Prueba de conexión falló:`, error.message);
+      return {
+        success: false,
+        error: error.code === "ENOENT"
+          ? `No se encontró el archivo ${path.basename(this.filePath)}`
+          : `No se pudo leer el archivo CSV: ${error.message}`,
+      };
+    }
+  }
+
+  async getWarehouses(): Promise<ErpWarehouse[]> {
+    const rows = await this.readRows();
+    const warehouseIds = Array.from(new Set(rows.map((r) => r.warehouse)));
+    return warehouseIds.map((id) => ({ id, name: id }));
+  }
+
+  async getProductBySku(sku: string): Promise<StandardProduct | null> {
+    const rows = (await this.readRows()).filter((r) => r.sku === sku);
+    return rows.length > 0 ? this.toProduct(sku, rows) : null;
+  }
+
+  async listProducts(): Promise<StandardProduct[]> {
+    const rowsBySku = new Map<string, CsvStockRow[]>();
+    for (const row of await this.readRows()) {
+      const skuRows = rowsBySku.get(row.sku);
+      if (skuRows) {
+        skuRows.push(row);
+      } else {
+        rowsBySku.set(row.sku, [row]);
+      }
+    }
+    return Array.from(rowsBySku, ([sku, rows]) => this.toProduct(sku, rows));
+  }
+
+  /**
+   * Producto con el stock sumado de todas las bodegas (sin stock si alguna bodega lo tiene desconocido)
+   */
+  private toProduct(sku: string, rows: CsvStockRow[]): StandardProduct {
+    const stock = rows.some((r) => r.stock === null)
+      ? undefined
+      : rows.reduce((sum, r) => sum + r.stock!, 0);
+    return {
+      id: sku,
+      sku,
+      name: rows.find((r) => r.name)?.name || sku,
+      price: Math.round((rows.find((r) => r.price)?.price || 0) * 100),
+      stock_quantity: stock,
+      manage_stock: true,
+      stock_status: stock === undefined ? undefined : stock > 0 ? "in_stock" : "out_of_stock",
+      images: [],
+      platform: "csv",
+      raw_data: rows,
+    };
+  }
+
+  async getProductStock(product: StandardProduct, warehouseId?: string | null): Promise<number> {
+    if (!warehouseId) {
+      const stock = parseStockValue(product.stock_quantity);
+      if (stock === null) {
+        throw new Error(`Stock desconocido para el producto ${product.sku}`);
+      }
+      return stock;
+    }
+
+    // Sin fila para la bodega el producto no tiene stock en ella
+    const rows = (await this.readRows()).filter((r) => r.sku === product.sku && r.warehouse === warehouseId);
+    if (rows.some((r) => r.stock === null)) {
+      throw new Error(`Stock desconocido para el producto ${product.sku} en la bodega ${warehouseId}`);
+    }
+    return rows.reduce((sum, r) => sum + r.stock!, 0);
+  }
+
+  /**
+   * Stock por bodega; las bodegas con stock desconocido se omiten
+   */
+  async getProductStockByWarehouse(product: StandardProduct): Promise<Record<string, number>> {
+    const rows = (await this.readRows()).filter((r) => r.sku === product.sku);
+    const unknown = new Set(rows.filter((r) => r.stock === null).map((r) => r.warehouse));
+
+    const stockByWarehouse: Record<string, number> = {};
+    for (const row of rows) {
+      if (!unknown.has(row.warehouse)) {
+        stockByWarehouse[row.warehouse] = (stockByWarehouse[row.warehouse] || 0) + row.stock!;
+      }
+    }
+    return stockByWarehouse;
+  }
+
+  async checkStockAvailability(warehouseId: string, sku: string, quantity: number): Promise<boolean> {
+    const product = await this.getProductBySku(sku);
+    if (!product) {
+      return false;
+    }
+    return (await this.getProductStock(product, warehouseId)) >= quantity;
+  }
+
+  async sendMovement(movement: ErpMovement): Promise<ErpMovementResult> {
+    const { type, warehouseId, sku, quantity, orderId, notes } = movement;
+    const movementId = `csv-${Date.now()}-${randomBytes(3).toString("hex")}`;
+
+    await withFileLock(this.filePath, async () => {
+      const rows = await this.readRows(true);
+      const delta = type === "egreso" ? -quantity : quantity;
+
+      let row = rows.find((r) => r.sku === sku && r.warehouse === warehouseId);
+      if (row && row.stock === null) {
+        throw new Error(`Stock desconocido para el SKU ${sku} en la bodega ${warehouseId}`);
+      }
+      if (!row) {
+        if (!rows.some((r) => r.sku === sku)) {
+          throw new Error(`Producto con SKU ${sku} no encontrado en el archivo CSV`);
+        }
+        const template = rows.find((r) => r.sku === sku)!;
+        row = { ...template, warehouse: warehouseId, stock: 0 };
+        rows.push(row);
+      }
+      row.stock! += delta;
+
+      await this.writeRows(rows);
+
+      const movementsExists = await fs.access(this.movementsPath).then(() => true, () => false);
+      const line = [new Date().toISOString(), movementId, type, warehouseId, sku, quantity, orderId || "", notes || ""]
+        .map(toCsvValue)
+        .join(",");
+      await fs.appendFile(
+        this.movementsPath,
+        (movementsExists ? "" : "date,id,type,warehouse,sku,quantity,order_id,notes\n") + line + "\n",
+      );
+    });
+
+    console.log(`[CsvErp] ✅ ${type} registrado: ${sku} x${quantity} en bodega ${warehouseId}`);
+    return { id: movementId };
+  }
+
+  /**
+   * Lee y parsea el archivo (cacheado por instancia; force=true relee del disco)
+   */
+  private async readRows(force: boolean = false): Promise<CsvStockRow[]> {
+    if (this.rowsCache && !force) {
+      return this.rowsCache;
+    }
+
+    const content = await fs.readFile(this.filePath, "utf8");
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length === 0) {
+      throw new Error("El archivo CSV está vacío");
+    }
+
+    const headers = parseCsvLine(lines[0]).map((h) => h.toLowerCase());
+    const column = (name: string) => headers.indexOf(name);
+    if (column("sku") === -1 || column("stock") === -1) {
+      throw new Error('El archivo CSV debe tener las columnas "sku" y "stock"');
+    }
+
+    const rows = lines.slice(1).map((line) => {
+      const values = parseCsvLine(line);
+      const value = (name: string) => (column(name) === -1 ? "" : values[column(name)] || "");
+      return {
+        sku: value("sku"),
+        name: value("name"),
+        warehouse: value("warehouse") || DEFAULT_WAREHOUSE,
+        stock: parseStockValue(value("stock")),
+        price: Number(value("price")) || 0,
+      };
+    }).filter((row) => row.sku);
+
+    this.rowsCache = rows;
+    return rows;
+  }
+
+  private async writeRows(rows: CsvStockRow[]): Promise<void> {
+    const content = [
+      CSV_HEADERS.join(","),
+      ...rows.map((r) => CSV_HEADERS.map((h) => toCsvValue(r[h] ?? "")).join(",")),
+    ].join("\n") + "\n";
+
+    // Escritura atómica: archivo temporal + rename
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, content, "utf8");
+    await fs.rename(tempPath, this.filePath);
+    this.rowsCache = rows;
+  }
+}
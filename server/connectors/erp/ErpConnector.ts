@@ -0,0 +1,174 @@
+import type { ConnectionResult, StandardProduct } from "../BaseConnector";
+import type { InvoiceAuthorizationStatus } from "@shared/invoicing";
+import type { IdentificationType } from "@shared/ec-identification";
+import type { PriceList } from "@shared/price-sync";
+
+export interface ErpWarehouse {
+  id: string;
+  name: string;
+  code?: string;
+}
+
+/**
+ * Movimiento de inventario a registrar en el ERP (push)
+ */
+export interface ErpMovement {
+  type: "egreso" | "ingreso";
+  warehouseId: string;
+  sku: string;
+  quantity: number;
+  orderId?: string;
+  notes?: string;
+}
+
+export interface ErpMovementResult {
+  id: string | null;
+  raw?: any;
+}
+
+/**
+ * Precio de un producto en una lista de precios del ERP
+ */
+export interface ErpProductPrice {
+  price: number; // En dólares, sin IVA
+  taxRate: number; // Porcentaje de IVA del producto (0, 5, 15...)
+}
+
+/**
+ * Cliente de un documento de venta
+ */
+export interface ErpCustomer {
+  identificationType: IdentificationType;
+  identification: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+/**
+ * Línea de un documento de venta (importes sin IVA)
+ */
+export interface ErpSalesDocumentLine {
+  sku?: string; // Producto del ERP por SKU...
+  productId?: string; // ...o por ID (p. ej. el servicio de envío)
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number; // Descuento total de la línea
+  taxRate: number; // Porcentaje de IVA (0, 5, 15...)
+}
+
+/**
+ * Documento de venta (factura) a emitir en el ERP
+ */
+export interface ErpSalesDocument {
+  documentNumber: string; // 001-001-000000123
+  issueDate: Date;
+  customer: ErpCustomer;
+  lines: ErpSalesDocumentLine[];
+  description?: string;
+  posToken?: string;
+  paymentMethod?: string;
+}
+
+/**
+ * Persona (cliente) registrada en el ERP
+ */
+export interface ErpCustomerResult {
+  id: string;
+  name: string | null; // Nombre/razón social registrado en el ERP
+}
+
+export interface ErpSalesDocumentResult {
+  id: string;
+  documentNumber: string | null;
+  total: number | null;
+  authorizationStatus: InvoiceAuthorizationStatus;
+  authorizationNumber: string | null;
+  raw?: any;
+}
+
+/**
+ * Interfaz común de los ERPs de origen de inventario
+ * El motor de sincronización (pull/push), el listado de bodegas y la prueba de
+ * conexión solo dependen de esta interfaz; cada ERP se registra en ./registry.ts
+ */
+export interface ErpConnector {
+  readonly integrationType: string;
+  readonly displayName: string;
+
+  /**
+   * Bodega configurada en la integración (null = stock global)
+   */
+  readonly primaryWarehouseId: string | null;
+
+  testConnection(): Promise<ConnectionResult>;
+
+  getWarehouses(): Promise<ErpWarehouse[]>;
+
+  /**
+   * Busca un producto por SKU. Devuelve null si no existe en el ERP
+   */
+  getProductBySku(sku: string): Promise<StandardProduct | null>;
+
+  /**
+   * Catálogo completo del ERP (productos activos), para detectar SKUs que no existen en la tienda
+   */
+  listProducts(): Promise<StandardProduct[]>;
+
+  /**
+   * Stock de un producto en una bodega (o stock global si no se indica bodega)
+   * Si el stock es desconocido (error o respuesta inválida del ERP) lanza error en vez de devolver 0
+   */
+  getProductStock(product: StandardProduct, warehouseId?: string | null): Promise<number>;
+
+  /**
+   * Stock de un producto en todas las bodegas: bodega → cantidad
+   */
+  getProductStockByWarehouse(product: StandardProduct): Promise<Record<string, number>>;
+
+  checkStockAvailability(warehouseId: string, sku: string, quantity: number): Promise<boolean>;
+
+  sendMovement(movement: ErpMovement): Promise<ErpMovementResult>;
+
+  /**
+   * Pull incremental (opcional): SKUs con movimientos de inventario o productos
+   * modificados desde la fecha indicada. Sin este método el Pull siempre es completo
+   */
+  getChangedSkus?(since: Date): Promise<Set<string>>;
+
+  /**
+   * Precios (opcional): precio del producto en la lista indicada, o null si no tiene
+   * Se lee del producto ya obtenido (sin consultas adicionales)
+   */
+  getProductPrice?(product: StandardProduct, priceList: PriceList): ErpProductPrice | null;
+
+  /**
+   * Nombre de la categoría del producto (opcional), para publicarlo en la tienda
+   */
+  getProductCategory?(product: StandardProduct): Promise<string | null>;
+
+  /**
+   * Clientes (opcional): busca una persona por cédula/RUC/pasaporte
+   */
+  findCustomer?(identification: string): Promise<ErpCustomerResult | null>;
+
+  /**
+   * Crea la persona, o actualiza sus datos de contacto si se indica existingId
+   */
+  upsertCustomer?(
+    customer: ErpCustomer,
+    options?: { existingId?: string | null; posToken?: string },
+  ): Promise<ErpCustomerResult>;
+
+  /**
+   * Facturación (opcional): solo los ERPs que emiten documentos de venta la implementan
+   */
+  createSalesDocument?(document: ErpSalesDocument): Promise<ErpSalesDocumentResult>;
+
+  /**
+   * Consulta un documento emitido (estado de autorización del SRI)
+   */
+  getSalesDocument?(documentId: string): Promise<ErpSalesDocumentResult>;
+}
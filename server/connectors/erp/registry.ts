@@ -0,0 +1,40 @@
+import type { Integration } from "@shared/schema";
+import type { ErpConnector } from "./ErpConnector";
+import { ContificoErpConnector } from "./ContificoErpConnector";
+import { CsvErpConnector } from "./CsvErpConnector";
+
+type ErpConnectorFactory = (integration: Integration) => ErpConnector;
+
+/**
+ * Registro de conectores ERP por integrations.integrationType
+ * Para agregar un ERP: implementar ErpConnector y registrarlo aquí
+ * (y en ERP_INTEGRATION_TYPES de shared/erp-types.ts para el frontend)
+ */
+const erpConnectors = new Map<string, ErpConnectorFactory>();
+
+export function registerErpConnector(integrationType: string, factory: ErpConnectorFactory): void {
+  erpConnectors.set(integrationType, factory);
+}
+
+export function isErpIntegrationType(integrationType: string | null | undefined): boolean {
+  return !!integrationType && erpConnectors.has(integrationType);
+}
+
+export function getSupportedErpTypes(): string[] {
+  return Array.from(erpConnectors.keys());
+}
+
+/**
+ * Crea el conector ERP de una integración
+ * @throws Error si el tipo de integración no está registrado
+ */
+export function createErpConnector(integration: Integration): ErpConnector {
+  const factory = erpConnectors.get(integration.integrationType);
+  if (!factory) {
+    throw new Error(`Tipo de integración ERP no soportado: ${integration.integrationType}`);
+  }
+  return factory(integration);
+}
+
+registerErpConnector("contifico", (integration) => new ContificoErpConnector(integration));
+registerErpConnector("csv", (integration) => new CsvErpConnector(integration));
@@ -4,12 +4,14 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { scheduler } from "./scheduler";
-import { inventoryPushWorker } from "./workers/inventoryPushWorker";
+import { jobWorker } from "./workers/jobWorker";
+import { SyncEvents } from "./services/syncEvents";
 import { runMigrations } from "./migrate";
 import { initializeExpirationScheduler } from "./services/expirationNotifications";
 import { apiLimiter } from "./middleware/rateLimiter";
 import { closeDatabasePool, checkDatabaseConnection } from "./db";
+import { CredentialVault } from "./services/credentialVault";
+import { Mailer } from "./services/mailer";
 
 // Validate critical environment variables before starting the app
 function validateEnv() {
@@ -41,6 +43,31 @@ function validateEnv() {
     process.exit(1);
   }
 
+  // Store and ERP credentials are encrypted at rest with this key (optional only in development)
+  if (process.env.NODE_ENV === 'production' && !process.env.CREDENTIALS_MASTER_KEY) {
+    console.error('❌ CRITICAL ERROR: CREDENTIALS_MASTER_KEY is required in production');
+    console.error('Generate one with: openssl rand -base64 32');
+    process.exit(1);
+  }
+  try {
+    CredentialVault.validateConfig();
+  } catch (error: any) {
+    console.error('❌ CRITICAL ERROR:', error.message);
+    process.exit(1);
+  }
+
+  // Verification, password reset and invitation links must never be built from the request's Host header
+  if (process.env.NODE_ENV === 'production' && !process.env.PUBLIC_URL) {
+    console.error('❌ CRITICAL ERROR: PUBLIC_URL is required in production (base URL for links sent by email)');
+    process.exit(1);
+  }
+  try {
+    Mailer.validateConfig();
+  } catch (error: any) {
+    console.error('❌ CRITICAL ERROR:', error.message);
+    process.exit(1);
+  }
+
   log('✓ Environment variables validated successfully');
 }
 
@@ -151,21 +178,20 @@ app.use((req, res, next) => {
       || process.env.ENABLE_BACKGROUND_WORKERS === 'true';
 
     if (enableBackgroundWorkers) {
-      // Start scheduler for automated syncs
-      scheduler.start();
-      log('✓ Scheduler started for automated syncs');
-
-      // Start inventory push worker
-      inventoryPushWorker.start();
-      log('✓ Inventory push worker started');
+      // Start job queue worker (scheduled syncs, inventory push, invoices, webhooks, exports)
+      jobWorker.start();
+      log('✓ Job worker started');
 
       // Start expiration check scheduler
       initializeExpirationScheduler();
       log('✓ Account expiration scheduler started');
     } else {
-      log('✓ Background workers disabled (Autoscale mode). Set ENABLE_BACKGROUND_WORKERS=true for Reserved VM deployments.');
+      log('✓ Background workers disabled (Autoscale mode). Run `npm run start:worker` to process queued jobs, or set ENABLE_BACKGROUND_WORKERS=true for Reserved VM deployments.');
     }
 
+    // Real-time sync events published by other processes (standalone worker)
+    SyncEvents.listen();
+
     // Verify database connection after migrations
     const dbConnected = await checkDatabaseConnection();
     if (dbConnected) {
@@ -188,8 +214,7 @@ app.use((req, res, next) => {
         || process.env.ENABLE_BACKGROUND_WORKERS === 'true';
 
       if (enableBackgroundWorkers) {
-        scheduler.stop();
-        inventoryPushWorker.stop();
+        await jobWorker.stop();
         log('✓ Background workers stopped');
       }
 
@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import type { TenantApiKey, User } from "@shared/schema";
+import type { ApiKeyScope } from "@shared/api-keys";
+
+export const API_KEY_HEADER = "x-api-key";
+const API_KEY_PREFIX = "g4_";
+
+export interface ApiKeyRequest extends Request {
+  apiKey?: {
+    id: number;
+    name: string;
+    scopes: string[];
+  };
+}
+
+/**
+ * Endpoints of protectedRouter reachable with an API key, and the scope each requires
+ * (GET/HEAD need <resource>:read, anything else <resource>:write).
+ * Paths are relative to /api and each entry matches one route exactly. Anything not listed
+ * here stays session-only (store credentials and deletion, integrations, invoices, customers,
+ * sync plan approval, user/tenant settings, API key management, ...).
+ */
+const API_KEY_ROUTES: Array<{ methods: string[]; pattern: RegExp; resource: string }> = [
+  // Stores and products (read-only, except product mapping edits)
+  { methods: ["GET"], pattern: /^\/stores\/?$/, resource: "stores" },
+  { methods: ["GET"], pattern: /^\/stores\/\d+\/(info|locations|sync-stats)\/?$/, resource: "stores" },
+  { methods: ["GET"], pattern: /^\/stores\/\d+\/products(\/sync-status)?\/?$/, resource: "stores" },
+  { methods: ["GET", "PUT"], pattern: /^\/stores\/\d+\/products\/[^/]+\/?$/, resource: "stores" },
+
+  // Sync runs, logs and their background jobs
+  { methods: ["GET", "POST"], pattern: /^\/sync\/inventory\/\d+\/?$/, resource: "sync" },
+  { methods: ["GET"], pattern: /^\/sync\/inventory\/\d+\/logs\/?$/, resource: "sync" },
+  { methods: ["POST"], pattern: /^\/sync\/(pull|pull-selective)\/\d+\/\d+\/?$/, resource: "sync" },
+  { methods: ["POST"], pattern: /^\/sync\/pull\/\d+\/\d+\/preview\/?$/, resource: "sync" },
+  { methods: ["GET"], pattern: /^\/sync\/plans(\/\d+)?\/?$/, resource: "sync" },
+  { methods: ["GET"], pattern: /^\/sync\/runs\/[^/]+\/events\/?$/, resource: "sync" },
+  { methods: ["POST"], pattern: /^\/sync\/runs\/[^/]+\/cancel\/?$/, resource: "sync" },
+  { methods: ["GET"], pattern: /^\/sync\/(logs|stats)\/?$/, resource: "sync" },
+  { methods: ["GET"], pattern: /^\/sync\/logs\/\d+\/?$/, resource: "sync" },
+  { methods: ["GET"], pattern: /^\/jobs\/\d+\/?$/, resource: "sync" },
+
+  // Inventory push movements
+  { methods: ["GET"], pattern: /^\/stores\/\d+\/inventory-push\/(stats|movements)\/?$/, resource: "movements" },
+  { methods: ["GET"], pattern: /^\/stores\/\d+\/inventory-push\/movements\/\d+\/?$/, resource: "movements" },
+  { methods: ["POST"], pattern: /^\/stores\/\d+\/inventory-push\/movements\/\d+\/retry\/?$/, resource: "movements" },
+  { methods: ["POST"], pattern: /^\/stores\/\d+\/inventory-push\/cleanup-stuck\/?$/, resource: "movements" },
+
+  // Unmapped SKUs
+  { methods: ["GET"], pattern: /^\/stores\/\d+\/unmapped-skus\/?$/, resource: "unmapped_skus" },
+  { methods: ["PATCH"], pattern: /^\/stores\/\d+\/unmapped-skus\/\d+\/resolve\/?$/, resource: "unmapped_skus" },
+];
+
+/**
+ * Genera una nueva API key. Solo el hash se guarda en la base de datos.
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("hex")}`;
+  return {
+    key,
+    prefix: key.substring(0, API_KEY_PREFIX.length + 8),
+    hash: hashApiKey(key),
+  };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Returns the scope needed for a request, or null if the endpoint is not exposed to API keys
+ */
+export function getRequiredScope(method: string, path: string): ApiKeyScope | null {
+  const access = method === "GET" || method === "HEAD" ? "read" : "write";
+  const routeMethod = method === "HEAD" ? "GET" : method;
+  const route = API_KEY_ROUTES.find((r) => r.methods.includes(routeMethod) && r.pattern.test(path));
+  if (!route) {
+    return null;
+  }
+
+  return `${route.resource}:${access}` as ApiKeyScope;
+}
+
+/**
+ * A write scope also grants read access on the same resource
+ */
+function hasScope(scopes: string[], required: ApiKeyScope): boolean {
+  if (scopes.includes(required)) {
+    return true;
+  }
+
+  const [resource, access] = required.split(":");
+  return access === "read" && scopes.includes(`${resource}:write`);
+}
+
+function extractApiKey(req: Request): string | null {
+  const headerKey = req.get(API_KEY_HEADER);
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const authorization = req.get("authorization");
+  if (authorization?.startsWith("Bearer ") && authorization.includes(API_KEY_PREFIX)) {
+    return authorization.substring("Bearer ".length).trim();
+  }
+
+  return null;
+}
+
+/**
+ * API keys are never exposed after creation: strip the hash from responses
+ */
+export function toPublicApiKey(apiKey: TenantApiKey) {
+  const { keyHash, ...publicKey } = apiKey;
+  return publicKey;
+}
+
+/**
+ * Middleware to authenticate requests with a tenant API key (X-API-Key or Bearer header)
+ * Must run before requireApprovedTenant. Browser sessions take precedence; requests
+ * without an API key header fall through untouched.
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const rawKey = extractApiKey(req);
+
+  if (!rawKey || req.isAuthenticated()) {
+    return next();
+  }
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(rawKey));
+
+    if (!apiKey || apiKey.revokedAt) {
+      return res.status(401).json({ message: "API key inválida o revocada" });
+    }
+
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date()) {
+      return res.status(401).json({ message: "API key expirada" });
+    }
+
+    const requiredScope = getRequiredScope(req.method, req.path);
+    if (!requiredScope) {
+      return res.status(403).json({ message: "Este endpoint no está disponible mediante API key" });
+    }
+
+    if (!hasScope(apiKey.scopes || [], requiredScope)) {
+      return res.status(403).json({
+        message: `La API key no tiene el permiso requerido: ${requiredScope}`,
+        requiredScope,
+      });
+    }
+
+    // Requests act on behalf of the user who created the key (or the tenant owner)
+    let actingUser: User | undefined;
+    if (apiKey.createdByUserId) {
+      const creator = await storage.getUser(apiKey.createdByUserId);
+      if (creator && creator.tenantId === apiKey.tenantId) {
+        actingUser = creator;
+      }
+    }
+    if (!actingUser) {
+      actingUser = await storage.getTenantOwnerUser(apiKey.tenantId);
+    }
+    if (!actingUser) {
+      return res.status(401).json({ message: "API key sin usuario asociado" });
+    }
+
+    req.user = actingUser;
+    (req as ApiKeyRequest).apiKey = {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes || [],
+    };
+
+    // Last-used tracking should never block the request
+    storage.touchApiKey(apiKey.id, req.ip || null).catch((error) => {
+      console.error(`[ApiKey] Error actualizando último uso de key ${apiKey.id}:`, error.message);
+    });
+
+    next();
+  } catch (error: any) {
+    console.error("[ApiKey] Error autenticando API key:", error);
+    res.status(500).json({ message: "Error al autenticar API key", error: error.message });
+  }
+}
@@ -12,6 +12,7 @@ export interface AuthenticatedRequest extends Request {
       id: number;
       expiresAt?: Date | null;
       accountStatus?: string;
+      settings?: unknown;
     };
   };
 }
@@ -47,11 +48,12 @@ export async function requireApprovedTenant(req: Request, res: Response, next: N
     });
   }
 
-  // Attach tenant info to user for downstream middleware (like checkExpiration)
+  // Attach tenant info to user for downstream middleware (like checkExpiration, requireTwoFactor)
   user.tenant = {
     id: tenant.id,
     expiresAt: tenant.expiresAt,
     accountStatus: tenant.accountStatus,
+    settings: tenant.settings,
   };
 
   next();
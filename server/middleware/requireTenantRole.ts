@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from "express";
+import { User } from "@shared/schema";
+import {
+  TENANT_ROLE_LABELS,
+  getTenantRole,
+  hasTenantRole,
+  type TenantRole,
+} from "@shared/tenant-roles";
+
+interface AuthenticatedRequest extends Request {
+  user: User;
+}
+
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Minimum tenant role for each protectedRouter endpoint. Paths are relative to /api.
+ * Order matters: the first matching rule wins. Reads not listed here are open to every
+ * member (viewer); writes not listed here require a manager.
+ */
+const TENANT_ROLE_ROUTES: Array<{ pattern: RegExp; role: TenantRole; writeOnly?: boolean }> = [
+  // Personal profile and notifications: every member manages their own
+  { pattern: /^\/user(\/|$)/, role: "viewer" },
+  { pattern: /^\/notifications(\/|$)/, role: "viewer" },
+
+  // Team and company data
+  { pattern: /^\/team\/invitations(\/|$)/, role: "owner" },
+  { pattern: /^\/team\//, role: "owner", writeOnly: true },
+  { pattern: /^\/tenant\//, role: "owner", writeOnly: true },
+
+  // API keys grant access on behalf of their creator
+  { pattern: /^\/api-keys(\/|$)/, role: "manager" },
+
+  // Decisions on stock already written or about to be written in bulk
+  { pattern: /^\/sync\/plans\/\d+\/approve$/, role: "manager", writeOnly: true },
+  { pattern: /^\/sync\/logs\/\d+\/rollback$/, role: "manager", writeOnly: true },
+
+  // Day-to-day operation: syncs, retries, resolutions
+  { pattern: /^\/sync\//, role: "operator", writeOnly: true },
+  { pattern: /^\/exports$/, role: "operator", writeOnly: true },
+  {
+    pattern: /^\/stores\/\d+\/(inventory-push|invoices|customers|reconciliation|unmapped-skus|catalog|products)(\/|$)/,
+    role: "operator",
+    writeOnly: true,
+  },
+  { pattern: /^\/stores\/\d+\/(test-connection|clear-locks)$/, role: "operator", writeOnly: true },
+  { pattern: /^\/integrations\/\d+\/test-connection$/, role: "operator", writeOnly: true },
+];
+
+/**
+ * Returns the minimum tenant role needed for a request
+ */
+export function getRequiredTenantRole(method: string, path: string): TenantRole {
+  const isWrite = WRITE_METHODS.includes(method);
+  const route = TENANT_ROLE_ROUTES.find((r) => (isWrite || !r.writeOnly) && r.pattern.test(path));
+  if (route) {
+    return route.role;
+  }
+  return isWrite ? "manager" : "viewer";
+}
+
+/**
+ * Middleware to enforce tenant roles (owner, manager, operator, viewer) on protectedRouter
+ * Must run after requireApprovedTenant. Platform admins are not tenant members and skip the check.
+ * API key requests are checked against the role of the user the key acts for.
+ */
+export function requireTenantRole(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "No autorizado" });
+  }
+
+  const user = (req as AuthenticatedRequest).user;
+  if (user.role === "admin") {
+    return next();
+  }
+
+  const role = getTenantRole(user);
+  const requiredRole = getRequiredTenantRole(req.method, req.path);
+
+  if (!hasTenantRole(role, requiredRole)) {
+    return res.status(403).json({
+      message: `Tu rol (${TENANT_ROLE_LABELS[role]}) no permite esta acción. Requiere: ${TENANT_ROLE_LABELS[requiredRole]}`,
+      requiredRole,
+    });
+  }
+
+  next();
+}
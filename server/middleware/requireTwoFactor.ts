@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from "express";
+import { User } from "@shared/schema";
+import { isTwoFactorRequired } from "@shared/two-factor";
+import type { ApiKeyRequest } from "./apiKeyAuth";
+
+interface AuthenticatedRequest extends Request {
+  user: User & {
+    tenant?: {
+      settings?: unknown;
+    };
+  };
+}
+
+/**
+ * Endpoints a member without 2FA can still use while their tenant requires it
+ * (enough to set it up). Paths are relative to /api.
+ */
+const TWO_FACTOR_SETUP_ROUTES: RegExp[] = [
+  /^\/user\/2fa(\/|$)/,
+  /^\/tenant\/current$/,
+];
+
+/**
+ * Middleware to enforce the tenant policy that requires two-factor authentication
+ * Must run after requireApprovedTenant (which attaches the tenant settings).
+ * Platform admins and API keys (a separate credential) are not affected.
+ */
+export function requireTwoFactor(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "No autorizado" });
+  }
+
+  const user = (req as AuthenticatedRequest).user;
+  if (user.role === "admin" || (req as ApiKeyRequest).apiKey || user.twoFactorEnabledAt) {
+    return next();
+  }
+
+  if (!isTwoFactorRequired(user.tenant?.settings) || TWO_FACTOR_SETUP_ROUTES.some((pattern) => pattern.test(req.path))) {
+    return next();
+  }
+
+  res.status(403).json({
+    message: "Tu empresa exige la verificación en dos pasos. Actívala para continuar",
+    twoFactorSetupRequired: true,
+  });
+}
@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from "express";
+import { SessionService } from "../services/sessionService";
+
+/**
+ * Middleware to keep session metadata (last seen, IP, user agent) up to date
+ * Must run after passport.session(). Requests without a logged-in session are skipped.
+ */
+export function trackSession(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated() && req.session) {
+    SessionService.touch(req);
+  }
+  next();
+}
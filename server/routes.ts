@@ -1,50 +1,134 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { Router } from "express";
 import { createServer, type Server } from "http";
-import { User } from "@shared/schema";
-import ExcelJS from "exceljs";
+import { User, type Job, type PullPlan } from "@shared/schema";
 // Proper TypeScript interface for authenticated requests
 interface AuthenticatedRequest extends Request {
   user: User;
 }
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { insertTenantSchema, insertUserSchema, createStoreSchema, updateStoreSchema } from "@shared/schema";
-import { randomBytes } from "crypto";
+import { setupAuth, toPublicUser, comparePasswords } from "./auth";
+import { insertTenantSchema, insertUserSchema, createStoreSchema, updateStoreSchema, createApiKeySchema, createTenantInvitationSchema } from "@shared/schema";
 import { WooCommerceConnector } from "./connectors/WooCommerceConnector";
 import { ShopifyConnector } from "./connectors/ShopifyConnector";
 import { ContificoConnector } from './connectors/ContificoConnector';
 import { SyncService } from './services/SyncService';
+import { WebhookRegistrationService } from './services/webhookRegistrationService';
+import { JobQueue, type ExportJobPayload, type ExportJobResult, type PullJobPayload } from './services/jobQueue';
+import { SyncEvents } from './services/syncEvents';
+import { isResumablePull, isRunEvent, type PullCheckpoint, type SyncEventEnvelope } from "@shared/sync-progress";
+import { isJobFinished } from "@shared/jobs";
+import { isPullPlanExpired, validatePullApprovalPolicy } from "@shared/pull-plans";
 import { ZodError } from "zod";
 import webhookRoutes from "./routes/webhooks";
 import adminRoutes from "./routes/admin";
-import { getPlan, PlanType } from "@shared/plans";
+import { QuotaService, QuotaExceededError } from "./services/QuotaService";
 import { requireApprovedTenant } from "./middleware/requireApprovedTenant";
 import { checkExpiration } from "./middleware/checkExpiration";
-import { formatEcuadorDateTime } from "./utils/dateFormatters";
+import { authenticateApiKey, generateApiKey, toPublicApiKey } from "./middleware/apiKeyAuth";
+import { requireTenantRole } from "./middleware/requireTenantRole";
+import { requireTwoFactor } from "./middleware/requireTwoFactor";
+import { TwoFactorService } from "./services/twoFactorService";
+import { isTwoFactorRequired } from "@shared/two-factor";
+import { TeamService } from "./services/teamService";
+import { SessionService } from "./services/sessionService";
+import { AccountTokenService } from "./services/accountTokenService";
+import { Mailer } from "./services/mailer";
+import { teamInvitationTemplate } from "./services/emailTemplates";
+import { TENANT_ROLE_LABELS, isTenantRole } from "@shared/tenant-roles";
+import { getLocationMappings } from "@shared/location-mappings";
+import { getInvoicingConfig } from "@shared/invoicing";
+import { checkIdentification } from "@shared/ec-identification";
+import { getCronError, getScheduleConfig, isValidTimeZone } from "@shared/sync-schedules";
+import type { PullMode } from "@shared/delta-pull";
+import { InvoiceService } from "./services/invoiceService";
+import { CustomerSyncService } from "./services/customerSyncService";
+import { StockReconciliationService } from "./services/stockReconciliationService";
+import { CatalogPublishService, MAX_PUBLISH_BATCH } from "./services/catalogPublishService";
+import { createErpConnector, getSupportedErpTypes, isErpIntegrationType } from "./connectors/erp/registry";
 import { checkDatabaseConnection } from "./db";
+import { getEmailLinkBaseUrl, getPublicUrl } from "./utils/publicUrl";
+import { isMaskedSecret, restoreMaskedSecrets, toPublicIntegration, toPublicStore, toPublicTenant } from "@shared/secrets";
 
 /**
- * Helper function to get the public URL for webhook callbacks
- * Works in both development and production (Autoscale/Reserved VM)
- * Always returns HTTPS URLs as required by Shopify
+ * Job for API responses: export files are downloaded separately (GET /api/jobs/:id/download)
  */
-function getPublicUrl(req: Request): string {
-  // 1. Check for explicit PUBLIC_URL env var (highest priority)
-  if (process.env.PUBLIC_URL) {
-    return process.env.PUBLIC_URL;
-  }
+function serializeJob(job: Job) {
+  const result = job.type === "export" && job.result
+    ? { ...(job.result as ExportJobResult), data: undefined }
+    : job.result;
+
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result,
+    lastError: job.lastError,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  };
+}
 
-  // 2. Check for REPLIT_DOMAINS (production Autoscale/Reserved VM)
-  if (process.env.REPLIT_DOMAINS) {
-    const domains = process.env.REPLIT_DOMAINS.split(',');
-    return `https://${domains[0]}`;
-  }
+/**
+ * Plan de Pull para el cliente; los listados omiten el detalle de cambios
+ */
+function serializePullPlan(plan: PullPlan, includeChanges: boolean) {
+  const { changes, ...rest } = plan;
+  return {
+    ...rest,
+    expired: isPullPlanExpired(plan),
+    ...(includeChanges ? { changes } : {}),
+  };
+}
+
+// Comentario periódico para que proxies y navegadores no cierren un stream SSE inactivo
+const SSE_HEARTBEAT_MS = 25000;
+
+/**
+ * Prepara la respuesta como stream de Server-Sent Events
+ */
+function openEventStream(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+  req.on("close", () => clearInterval(heartbeat));
+}
+
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Evento final de una ejecución que ya no está en memoria (terminó en otro proceso, se descartó
+ * de memoria o el trabajo pasó a dead tras una caída), reconstruido desde su trabajo
+ */
+function finishedRunEvent(job: Job): SyncEventEnvelope {
+  const payload = (job.payload || {}) as { storeId?: number; skus?: string[] };
+  const base = {
+    runId: job.id.toString(),
+    kind: payload.skus ? ("pull_selective" as const) : ("pull" as const),
+    storeId: payload.storeId ?? 0,
+    tenantId: job.tenantId!,
+    at: (job.completedAt ?? new Date()).toISOString(),
+  };
+  const summary = { success: 0, failed: 0, skipped: 0, ...(job.result as object | null) };
 
-  // 3. Development fallback: force HTTPS as Shopify requires it
-  // Express behind Replit's reverse proxy reports 'http' but the public URL is HTTPS
-  const host = req.get('host');
-  return `https://${host}`;
+  if (job.status === "completed") {
+    return { ...base, type: "completed", summary };
+  }
+  if (job.status === "cancelled") {
+    return { ...base, type: "cancelled", summary };
+  }
+  return { ...base, type: "failed", error: job.lastError || "La sincronización falló" };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -83,9 +167,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin routes should not be affected by expiration checks
   app.use("/api/admin", adminRoutes);
 
-  // Protected routes - require authentication + approved tenant status + expiration check
+  // Protected routes - require authentication (session or API key) + approved tenant status + expiration check
+  // + 2FA when the tenant requires it + tenant role (owner, manager, operator, viewer) allowed for the endpoint
   const protectedRouter = Router();
-  app.use("/api", requireApprovedTenant, checkExpiration, protectedRouter);
+  app.use("/api", authenticateApiKey, requireApprovedTenant, checkExpiration, requireTwoFactor, requireTenantRole, protectedRouter);
 
 
   // Get current tenant info
@@ -104,13 +189,341 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Tenant not found" });
       }
 
-      res.json(tenant);
+      res.json(toPublicTenant(tenant));
     } catch (error) {
       console.error("Error fetching tenant:", error);
       res.status(500).json({ message: "Failed to fetch tenant" });
     }
   });
 
+  // Get plan usage (stores, synced products, monthly syncs) for current tenant
+  protectedRouter.get("/tenant/usage", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "User has no tenant" });
+      }
+      const tenant = await storage.getTenant(user.tenantId);
+      if (!tenant) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+
+      const usage = await QuotaService.getUsage(tenant);
+      res.json(usage);
+    } catch (error: any) {
+      console.error("Error fetching tenant usage:", error);
+      res.status(500).json({ message: "Failed to fetch tenant usage", error: error.message });
+    }
+  });
+
+  // ============================================
+  // API KEYS (session only - not reachable with an API key)
+  // ============================================
+
+  // List API keys of current tenant (never includes the key itself)
+  protectedRouter.get("/api-keys", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "User has no tenant" });
+      }
+
+      const apiKeys = await storage.getApiKeysByTenant(user.tenantId);
+      res.json(apiKeys.map(toPublicApiKey));
+    } catch (error: any) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys", error: error.message });
+    }
+  });
+
+  // Create a named, scoped API key. The plain key is returned only once.
+  protectedRouter.post("/api-keys", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "User has no tenant" });
+      }
+
+      const validatedData = createApiKeySchema.parse(req.body);
+      const { key, prefix, hash } = generateApiKey();
+
+      const apiKey = await storage.createApiKey({
+        tenantId: user.tenantId,
+        createdByUserId: user.id,
+        name: validatedData.name,
+        keyPrefix: prefix,
+        keyHash: hash,
+        scopes: validatedData.scopes,
+        expiresAt: validatedData.expiresAt || null,
+      });
+
+      console.log(`[ApiKey] API key ${apiKey.id} (${apiKey.name}) creada para tenant ${user.tenantId}`);
+
+      res.status(201).json({
+        apiKey: toPublicApiKey(apiKey),
+        key,
+        message: "Guarda esta API key ahora, no podrás volver a verla"
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: "Invalid input data",
+          errors: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error creating API key:", error);
+      res.status(500).json({ message: "Failed to create API key", error: error.message });
+    }
+  });
+
+  // Revoke an API key (kept for audit, stops authenticating immediately)
+  protectedRouter.delete("/api-keys/:keyId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "User has no tenant" });
+      }
+
+      const revoked = await storage.revokeApiKey(parseInt(req.params.keyId), user.tenantId);
+      if (!revoked) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      console.log(`[ApiKey] API key ${revoked.id} (${revoked.name}) revocada para tenant ${user.tenantId}`);
+
+      res.json({ apiKey: toPublicApiKey(revoked), message: "API key revocada" });
+    } catch (error: any) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key", error: error.message });
+    }
+  });
+
+  // ============================================
+  // TEAM (members and invitations of the tenant)
+  // ============================================
+
+  // List members of current tenant with their roles
+  protectedRouter.get("/team/members", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "Usuario sin empresa" });
+      }
+
+      const members = await storage.getUsersByTenant(user.tenantId);
+      res.json({ members: members.map((member) => TeamService.toPublicMember(member)) });
+    } catch (error: any) {
+      console.error("Error obteniendo miembros del equipo:", error);
+      res.status(500).json({ message: "Error al obtener el equipo", error: error.message });
+    }
+  });
+
+  // Change the role of a member
+  protectedRouter.patch("/team/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { role } = req.body;
+
+      if (!isTenantRole(role)) {
+        return res.status(400).json({ message: "Rol inválido" });
+      }
+
+      const member = await storage.getUser(parseInt(req.params.userId));
+      if (!member || !user.tenantId || member.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Miembro no encontrado" });
+      }
+
+      // La empresa siempre conserva al menos un propietario
+      if (role !== "owner" && await TeamService.isLastOwner(member)) {
+        return res.status(409).json({
+          message: "La empresa debe tener al menos un propietario. Asigna otro propietario antes de cambiar este rol",
+        });
+      }
+
+      const updated = await storage.updateUserTenantRole(member.id, role);
+      console.log(`[Team] Usuario ${member.id} ahora es ${role} en tenant ${user.tenantId} (por usuario ${user.id})`);
+
+      res.json({ member: TeamService.toPublicMember(updated), message: "Rol actualizado" });
+    } catch (error: any) {
+      console.error("Error actualizando rol:", error);
+      res.status(500).json({ message: "Error al actualizar el rol", error: error.message });
+    }
+  });
+
+  // Remove a member from the tenant (deletes their user)
+  protectedRouter.delete("/team/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+
+      const member = await storage.getUser(parseInt(req.params.userId));
+      if (!member || !user.tenantId || member.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Miembro no encontrado" });
+      }
+
+      if (member.id === user.id) {
+        return res.status(400).json({ message: "No puedes quitarte a ti mismo del equipo" });
+      }
+
+      if (await TeamService.isLastOwner(member)) {
+        return res.status(409).json({ message: "No se puede quitar al único propietario de la empresa" });
+      }
+
+      await storage.deleteUser(member.id);
+      await storage.deleteUserSessions(member.id);
+      console.log(`[Team] Usuario ${member.id} quitado del tenant ${user.tenantId} (por usuario ${user.id})`);
+
+      res.json({ message: "Miembro quitado del equipo" });
+    } catch (error: any) {
+      console.error("Error quitando miembro:", error);
+      res.status(500).json({ message: "Error al quitar el miembro", error: error.message });
+    }
+  });
+
+  // List pending invitations (never includes the token)
+  protectedRouter.get("/team/invitations", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "Usuario sin empresa" });
+      }
+
+      const invitations = await storage.getPendingTenantInvitations(user.tenantId);
+      res.json({
+        invitations: invitations.map((invitation) => ({
+          ...TeamService.toPublicInvitation(invitation),
+          expired: new Date(invitation.expiresAt) <= new Date(),
+        })),
+      });
+    } catch (error: any) {
+      console.error("Error obteniendo invitaciones:", error);
+      res.status(500).json({ message: "Error al obtener las invitaciones", error: error.message });
+    }
+  });
+
+  // Invite someone by email. The invitation link is returned only once.
+  protectedRouter.post("/team/invitations", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "Usuario sin empresa" });
+      }
+
+      const { email, role } = createTenantInvitationSchema.parse(req.body);
+
+      // Cada usuario pertenece a una sola empresa
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(409).json({
+          message: existingUser.tenantId === user.tenantId
+            ? "Esta persona ya es miembro del equipo"
+            : "Ya existe una cuenta con este correo electrónico",
+        });
+      }
+
+      const { invitation, token } = await TeamService.createInvitation({
+        tenantId: user.tenantId,
+        email,
+        role,
+        invitedByUserId: user.id,
+      });
+
+      const inviteUrl = `${getEmailLinkBaseUrl()}/invite/${token}`;
+      const tenant = await storage.getTenant(user.tenantId);
+      const emailSent = await Mailer.trySend({
+        to: email,
+        ...teamInvitationTemplate(tenant?.name || "tu empresa", TENANT_ROLE_LABELS[role], inviteUrl, invitation.expiresAt),
+      });
+
+      res.status(201).json({
+        invitation: TeamService.toPublicInvitation(invitation),
+        inviteUrl,
+        emailSent,
+        message: emailSent
+          ? `Invitación enviada a ${email}. También puedes compartir el enlace ahora, no podrás volver a verlo`
+          : "Invitación creada, pero no se pudo enviar el correo. Comparte el enlace ahora, no podrás volver a verlo",
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          message: error.errors[0]?.message || "Datos inválidos",
+          errors: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+      }
+
+      console.error("Error creando invitación:", error);
+      res.status(500).json({ message: "Error al crear la invitación", error: error.message });
+    }
+  });
+
+  // Revoke a pending invitation
+  protectedRouter.delete("/team/invitations/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.tenantId) {
+        return res.status(400).json({ message: "Usuario sin empresa" });
+      }
+
+      const revoked = await storage.revokeTenantInvitation(parseInt(req.params.id), user.tenantId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitación no encontrada" });
+      }
+
+      console.log(`[Team] Invitación ${revoked.id} revocada para tenant ${user.tenantId}`);
+
+      res.json({ message: "Invitación revocada" });
+    } catch (error: any) {
+      console.error("Error revocando invitación:", error);
+      res.status(500).json({ message: "Error al revocar la invitación", error: error.message });
+    }
+  });
+
   // Get stores for current tenant
   protectedRouter.get("/stores", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -123,7 +536,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User has no tenant" });
       }
       const stores = await storage.getStoresByTenant(user.tenantId);
-      res.json(stores);
+      res.json(stores.map(toPublicStore));
     } catch (error) {
       console.error("Error fetching stores:", error);
       res.status(500).json({ message: "Failed to fetch stores" });
@@ -143,18 +556,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized: No tenant associated with user" });
       }
 
-      // Get tenant to check plan limits
+      // Check if tenant has reached the store limit of its plan
       const tenant = await storage.getTenant(user.tenantId);
-      const plan = getPlan(tenant.planType as PlanType);
-
-      // Check if user has reached store limit
-      const existingStores = await storage.getStoresByTenant(user.tenantId);
-      const maxStores = plan.limits.maxStores === "unlimited" ? Infinity : plan.limits.maxStores;
-      if (existingStores.length >= maxStores) {
-        return res.status(403).json({
-          message: `Has alcanzado el límite de ${plan.limits.maxStores} ${plan.limits.maxStores === 1 ? 'tienda' : 'tiendas'} de tu plan ${tenant.planType}. Por favor actualiza tu plan para añadir más tiendas.`
-        });
+      if (!tenant) {
+        return res.status(404).json({ message: "Tenant not found" });
       }
+      await QuotaService.assertCanCreateStore(tenant);
 
       // Validate input with Zod
       const validatedData = createStoreSchema.parse(req.body);
@@ -190,60 +597,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
             productsCount: connectionResult.products_count || 0
           });
 
-          // Configurar webhooks automáticamente para Shopify
-          let webhookResult = null;
-          if (store.platform === 'shopify') {
+          // Configurar webhooks automáticamente (Shopify y WooCommerce) en segundo plano
+          let webhookJob = null;
+          if (WebhookRegistrationService.supportsWebhooks(store.platform)) {
             try {
-              const shopifyConnector = connector as any; // ShopifyConnector
-              const publicUrl = getPublicUrl(req);
-              const webhookUrl = `${publicUrl}/api/webhooks/shopify/${store.id}`;
-
-              console.log(`[Store] Configurando webhooks automáticamente para tienda ${store.id}`);
-              webhookResult = await shopifyConnector.registerWebhooks(webhookUrl);
-
-              if (webhookResult.success) {
-                // Guardar webhook IDs en storeInfo (legacy)
-                await storage.updateStore(store.id, {
-                  storeInfo: {
-                    ...updatedStore.storeInfo,
-                    webhooks: webhookResult.webhooks,
-                    webhooks_configured_at: new Date().toISOString()
-                  }
-                });
-
-                // Registrar cada webhook en la tabla webhooks
-                for (const webhook of webhookResult.webhooks) {
-                  try {
-                    await storage.registerWebhook({
-                      tenantId: store.tenantId,
-                      storeId: store.id,
-                      platform: 'shopify',
-                      platformWebhookId: webhook.id.toString(),
-                      topic: webhook.topic,
-                      address: webhook.address,
-                      status: 'active',
-                      metadata: {}
-                    });
-                  } catch (webhookDbError: any) {
-                    // Log error but don't fail - might be duplicate
-                    console.error(`[Store] Error registrando webhook ${webhook.id} en DB:`, webhookDbError.message);
-                  }
-                }
-
-                console.log(`[Store] ✅ Webhooks configurados exitosamente para tienda ${store.id}`);
-              } else {
-                console.log(`[Store] ⚠️ Webhooks configurados parcialmente: ${webhookResult.errors.length} errores`);
-              }
+              webhookJob = await JobQueue.enqueueWebhookRegistration(
+                { storeId: store.id, baseUrl: getPublicUrl(req) },
+                store.tenantId
+              );
+              console.log(`[Store] Registro de webhooks encolado para tienda ${store.id} (trabajo ${webhookJob.id})`);
             } catch (webhookError: any) {
-              console.error(`[Store] Error configurando webhooks:`, webhookError.message);
+              console.error(`[Store] Error encolando registro de webhooks:`, webhookError.message);
               // No fallar la creación de tienda si los webhooks fallan
             }
           }
 
           res.status(201).json({
-            store: updatedStore,
+            store: toPublicStore(updatedStore),
             connection: connectionResult,
-            webhooks: webhookResult,
+            webhookJobId: webhookJob?.id ?? null,
             message: "Store connected successfully"
           });
         } else {
@@ -255,7 +627,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
           
           res.status(201).json({
-            store,
+            store: toPublicStore(store),
             connection: connectionResult,
             message: "Store created but connection failed"
           });
@@ -269,7 +641,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         res.status(201).json({
-          store,
+          store: toPublicStore(store),
           connection: { success: false, error: connectionError.message },
           message: "Store created but connection test failed"
         });
@@ -277,6 +649,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
     } catch (error: any) {
       console.error("Error creating store:", error);
+
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       
       if (error instanceof ZodError) {
         return res.status(400).json({
@@ -337,12 +713,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
         
         // Merge credentials, preserving existing values for empty/missing fields
-        // Filter out empty/whitespace values to avoid overwriting existing credentials
+        // Filter out empty/whitespace values to avoid overwriting existing credentials,
+        // and masked secrets sent back unchanged by the edit form
         updateData.apiCredentials = {
           ...existingCreds,
           ...Object.fromEntries(
             Object.entries(newCreds)
-              .filter(([_, value]) => !isEffectivelyEmpty(value))
+              .filter(([_, value]) => !isEffectivelyEmpty(value) && !isMaskedSecret(value))
               .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
           )
         };
@@ -370,61 +747,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
             productsCount: connectionResult.products_count || 0
           });
           
-          // Si es Shopify y la conexión fue exitosa, verificar/recrear webhooks automáticamente
-          let webhookResult = null;
-          if (updatedStore.platform === 'shopify' && connectionResult.success) {
+          // Si la conexión fue exitosa, verificar/recrear webhooks en segundo plano
+          let webhookJob = null;
+          if (WebhookRegistrationService.supportsWebhooks(updatedStore.platform) && connectionResult.success) {
             try {
-              const publicUrl = getPublicUrl(req);
-              const webhookUrl = `${publicUrl}/api/webhooks/shopify/${updatedStore.id}`;
-              const shopifyConnector = connector as any;
-              
-              console.log(`[Store] Verificando webhooks para tienda ${storeId} después de actualización`);
-              webhookResult = await shopifyConnector.registerWebhooks(webhookUrl);
-              
-              if (webhookResult.success) {
-                // Obtener el store con metadatos de conexión frescos ANTES de actualizar webhooks
-                const storeWithFreshConnection = await storage.getStore(updatedStore.id);
-
-                await storage.updateStore(updatedStore.id, {
-                  storeInfo: {
-                    ...storeWithFreshConnection?.storeInfo,
-                    webhooks: webhookResult.webhooks,
-                    webhooks_configured_at: new Date().toISOString()
-                  }
-                });
-
-                // Registrar cada webhook en la tabla webhooks
-                for (const webhook of webhookResult.webhooks) {
-                  try {
-                    await storage.registerWebhook({
-                      tenantId: updatedStore.tenantId,
-                      storeId: updatedStore.id,
-                      platform: 'shopify',
-                      platformWebhookId: webhook.id.toString(),
-                      topic: webhook.topic,
-                      address: webhook.address,
-                      status: 'active',
-                      metadata: {}
-                    });
-                  } catch (webhookDbError: any) {
-                    // Log error but don't fail - might be duplicate
-                    console.error(`[Store] Error registrando webhook ${webhook.id} en DB:`, webhookDbError.message);
-                  }
-                }
-
-                console.log(`[Store] ✅ Webhooks verificados/recreados: ${webhookResult.webhooks.length} configurados`);
-              }
+              webhookJob = await JobQueue.enqueueWebhookRegistration(
+                { storeId: updatedStore.id, baseUrl: getPublicUrl(req) },
+                updatedStore.tenantId
+              );
+              console.log(`[Store] Verificación de webhooks encolada para tienda ${storeId} (trabajo ${webhookJob.id})`);
             } catch (webhookError: any) {
-              console.error(`[Store] Error configurando webhooks:`, webhookError.message);
+              console.error(`[Store] Error encolando verificación de webhooks:`, webhookError.message);
               // No fallar la actualización si los webhooks fallan
             }
           }
           
           const finalStore = await storage.getStore(parseInt(storeId));
           res.json({
-            store: finalStore,
+            store: finalStore ? toPublicStore(finalStore) : null,
             connection: connectionResult,
-            webhooks: webhookResult,
+            webhookJobId: webhookJob?.id ?? null,
             message: connectionResult.success ? "Store updated and connection verified" : "Store updated but connection failed"
           });
         } catch (connectionError: any) {
@@ -436,14 +778,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           const finalStore = await storage.getStore(parseInt(storeId));
           res.json({
-            store: finalStore,
+            store: finalStore ? toPublicStore(finalStore) : null,
             connection: { success: false, error: connectionError.message },
             message: "Store updated but connection test failed"
           });
         }
       } else {
         res.json({
-          store: updatedStore,
+          store: toPublicStore(updatedStore),
           message: "Store updated successfully"
         });
       }
@@ -480,15 +822,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      // Si es Shopify, eliminar webhooks primero
-      if (store.platform === 'shopify' && store.storeInfo?.webhooks) {
+      // Eliminar webhooks de la plataforma primero
+      if (WebhookRegistrationService.supportsWebhooks(store.platform) && store.storeInfo?.webhooks) {
         try {
-          const connector = getConnector(store);
-          const shopifyConnector = connector as any;
+          const connector = getConnector(store) as ShopifyConnector | WooCommerceConnector;
           const webhookIds = (store.storeInfo.webhooks as any[]).map(wh => wh.id);
 
           console.log(`[Store] Eliminando webhooks de tienda ${storeId}`);
-          await shopifyConnector.deleteWebhooks(webhookIds);
+          await connector.deleteWebhooks(webhookIds);
         } catch (webhookError: any) {
           console.error(`[Store] Error eliminando webhooks:`, webhookError.message);
           // Continuar con la eliminación de la tienda aunque falle la eliminación de webhooks
@@ -507,7 +848,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Configure webhooks for a Shopify store (manual)
+  // Configure webhooks for a Shopify or WooCommerce store (manual)
   protectedRouter.post("/stores/:storeId/configure-webhooks", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
@@ -522,9 +863,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      if (store.platform !== 'shopify') {
+      if (!WebhookRegistrationService.supportsWebhooks(store.platform)) {
         return res.status(400).json({
-          message: "Webhooks auto-configuration is only available for Shopify stores"
+          message: "Webhooks auto-configuration is only available for Shopify and WooCommerce stores"
         });
       }
 
@@ -534,45 +875,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Obtener URL pública
-      const publicUrl = getPublicUrl(req);
-      const webhookUrl = `${publicUrl}/api/webhooks/shopify/${storeId}`;
-
-      const connector = getConnector(store);
-      const shopifyConnector = connector as any;
+      const connector = getConnector(store) as ShopifyConnector | WooCommerceConnector;
 
       console.log(`[Store] Configurando webhooks para tienda ${storeId}`);
-      const result = await shopifyConnector.registerWebhooks(webhookUrl);
+      const result = await WebhookRegistrationService.configureStoreWebhooks(store, getPublicUrl(req), connector);
 
       if (result.success) {
-        // Guardar webhook IDs en storeInfo (legacy)
-        await storage.updateStore(store.id, {
-          storeInfo: {
-            ...store.storeInfo,
-            webhooks: result.webhooks,
-            webhooks_configured_at: new Date().toISOString()
-          }
-        });
-
-        // Registrar cada webhook en la tabla webhooks
-        for (const webhook of result.webhooks) {
-          try {
-            await storage.registerWebhook({
-              tenantId: store.tenantId,
-              storeId: store.id,
-              platform: 'shopify',
-              platformWebhookId: webhook.id.toString(),
-              topic: webhook.topic,
-              address: webhook.address,
-              status: 'active',
-              metadata: {}
-            });
-          } catch (webhookDbError: any) {
-            // Log error but don't fail - might be duplicate
-            console.error(`[Store] Error registrando webhook ${webhook.id} en DB:`, webhookDbError.message);
-          }
-        }
-
         res.json({
           success: true,
           webhooks: result.webhooks,
@@ -610,16 +918,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      if (store.platform !== 'shopify') {
+      if (!WebhookRegistrationService.supportsWebhooks(store.platform)) {
         return res.status(400).json({
-          message: "Webhook information is only available for Shopify stores"
+          message: "Webhook information is only available for Shopify and WooCommerce stores"
         });
       }
 
       const connector = getConnector(store);
-      const shopifyConnector = connector as any;
-
-      const webhooks = await shopifyConnector.getWebhooks();
+      const webhooks = connector instanceof ShopifyConnector
+        ? await connector.getWebhooks()
+        : (await (connector as WooCommerceConnector).listWebhooks()).webhooks;
 
       res.json({
         webhooks,
@@ -650,9 +958,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      if (store.platform !== 'shopify') {
+      if (!WebhookRegistrationService.supportsWebhooks(store.platform)) {
         return res.status(400).json({
-          message: "Webhook deletion is only available for Shopify stores"
+          message: "Webhook deletion is only available for Shopify and WooCommerce stores"
         });
       }
 
@@ -662,12 +970,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const connector = getConnector(store);
-      const shopifyConnector = connector as any;
+      const connector = getConnector(store) as ShopifyConnector | WooCommerceConnector;
       const webhookIds = (store.storeInfo.webhooks as any[]).map(wh => wh.id);
 
       console.log(`[Store] Eliminando ${webhookIds.length} webhooks de tienda ${storeId}`);
-      const result = await shopifyConnector.deleteWebhooks(webhookIds);
+      const result = await connector.deleteWebhooks(webhookIds);
+
+      // Marcar webhooks como eliminados en la tabla
+      await storage.deleteWebhooksByStore(store.id);
 
       // Limpiar webhooks de storeInfo
       await storage.updateStore(store.id, {
@@ -764,7 +1074,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const integrations = await storage.getIntegrationsByTenant(user.tenantId);
-      res.json(integrations);
+      res.json(integrations.map(toPublicIntegration));
     } catch (error: any) {
       console.error("Error obteniendo integraciones:", error);
       res.status(500).json({ message: "Error al obtener integraciones", error: error.message });
@@ -786,7 +1096,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Integración no encontrada" });
       }
 
-      res.json(integration);
+      res.json(toPublicIntegration(integration));
     } catch (error: any) {
       console.error("Error obteniendo integración:", error);
       res.status(500).json({ message: "Error al obtener integración", error: error.message });
@@ -810,8 +1120,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Validar tipos soportados
-      const supportedTypes = ['contifico'];
+      // Validar tipos soportados (registro de conectores ERP)
+      const supportedTypes = getSupportedErpTypes();
       if (!supportedTypes.includes(integrationType)) {
         return res.status(400).json({ 
           message: `Tipo de integración no soportado. Tipos válidos: ${supportedTypes.join(', ')}` 
@@ -828,7 +1138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       res.status(201).json({ 
-        integration,
+        integration: toPublicIntegration(integration),
         message: "Integración creada exitosamente" 
       });
     } catch (error: any) {
@@ -857,7 +1167,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Actualizar integración
       const updates: any = {};
       if (name !== undefined) updates.name = name;
-      if (settings !== undefined) updates.settings = settings;
+      // Los secretos enmascarados que devuelve el formulario conservan el valor guardado
+      if (settings !== undefined) updates.settings = restoreMaskedSecrets(settings, integration.settings);
       if (isActive !== undefined) updates.isActive = isActive;
 
       const updatedIntegration = await storage.updateIntegration(
@@ -866,7 +1177,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       res.json({ 
-        integration: updatedIntegration,
+        integration: toPublicIntegration(updatedIntegration),
         message: "Integración actualizada exitosamente" 
       });
     } catch (error: any) {
@@ -901,7 +1212,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Test integration connection (for Contífico)
+  // Test integration connection (any registered ERP)
   protectedRouter.post("/integrations/:integrationId/test-connection", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
@@ -916,35 +1227,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Integración no encontrada" });
       }
 
-      // Solo soportamos Contífico por ahora
-      if (integration.integrationType !== 'contifico') {
-        return res.status(400).json({ 
-          message: "Prueba de conexión solo disponible para integraciones Contífico" 
+      if (!isErpIntegrationType(integration.integrationType)) {
+        return res.status(400).json({
+          message: `Prueba de conexión no disponible para integraciones ${integration.integrationType}`
         });
       }
 
-      // Crear un store temporal para probar la conexión
-      const settings = integration.settings as any;
-      const tempStore = {
-        id: 0,
-        tenantId: user.tenantId,
-        platform: 'contifico',
-        storeName: integration.name,
-        storeUrl: 'https://api.contifico.com',
-        apiCredentials: settings,
-        syncConfig: {},
-        status: 'active',
-        connectionStatus: 'untested',
-        lastConnectionTest: null,
-        storeInfo: {},
-        productsCount: 0,
-        lastSyncAt: null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      const { ContificoConnector } = await import('./connectors/ContificoConnector');
-      const connector = new ContificoConnector(tempStore);
+      const connector = createErpConnector(integration);
       const result = await connector.testConnection();
 
       res.json(result);
@@ -957,7 +1246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get warehouses from Contífico integration
+  // Get warehouses from an ERP integration
   protectedRouter.get("/integrations/:integrationId/warehouses", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
@@ -972,40 +1261,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Integración no encontrada" });
       }
 
-      // Solo soportamos Contífico
-      if (integration.integrationType !== 'contifico') {
+      if (!isErpIntegrationType(integration.integrationType)) {
         return res.status(400).json({
-          message: "Obtención de bodegas solo disponible para integraciones Contífico"
+          message: `Obtención de bodegas no disponible para integraciones ${integration.integrationType}`
         });
       }
 
-      // Crear un store temporal para obtener bodegas
-      const settings = integration.settings as any;
-      const tempStore = {
-        id: 0,
-        tenantId: user.tenantId,
-        platform: 'contifico',
-        storeName: integration.name,
-        storeUrl: 'https://api.contifico.com',
-        apiCredentials: settings,
-        syncConfig: {},
-        status: 'active',
-        connectionStatus: 'untested',
-        lastConnectionTest: null,
-        storeInfo: {},
-        productsCount: 0,
-        lastSyncAt: null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      const { ContificoConnector } = await import('./connectors/ContificoConnector');
-      const connector = new ContificoConnector(tempStore);
+      const connector = createErpConnector(integration);
       const warehouses = await connector.getWarehouses();
 
       res.json({ warehouses });
     } catch (error: any) {
-      console.error("Error obteniendo bodegas de Contífico:", error);
+      console.error("Error obteniendo bodegas del ERP:", error);
       res.status(500).json({
         message: "Error al obtener bodegas",
         error: error.message
@@ -1013,7 +1280,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ============================================
+  // Get Shopify locations of a store (for the location ↔ warehouse mapping)
+  protectedRouter.get("/stores/:storeId/locations", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Tienda no encontrada" });
+      }
+
+      if (store.platform !== 'shopify') {
+        return res.status(400).json({
+          message: "Las ubicaciones solo están disponibles para tiendas Shopify"
+        });
+      }
+
+      const connector = new ShopifyConnector(store);
+      const locations = await connector.getLocations();
+
+      res.json({ locations });
+    } catch (error: any) {
+      console.error("Error obteniendo ubicaciones de Shopify:", error);
+      res.status(500).json({
+        message: "Error al obtener ubicaciones",
+        error: error.message
+      });
+    }
+  });
+
+  // ============================================
   // STORE-INTEGRATION RELATIONSHIPS
   // ============================================
 
@@ -1041,7 +1342,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const integration = await storage.getIntegration(si.integrationId);
           return {
             ...si,
-            integration
+            integration: integration ? toPublicIntegration(integration) : integration
           };
         })
       );
@@ -1141,6 +1442,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Cada ubicación solo puede apuntar a una bodega
+      const locationMappings = getLocationMappings(syncConfig);
+      const mappedLocations = new Set(locationMappings.map(m => m.locationId));
+      if (mappedLocations.size !== locationMappings.length) {
+        return res.status(400).json({
+          message: "Cada ubicación de la tienda solo puede mapearse a una bodega"
+        });
+      }
+
+      // Programaciones: expresiones cron válidas y zona horaria reconocida
+      const scheduleConfig = getScheduleConfig(syncConfig);
+      for (const schedule of scheduleConfig.schedules) {
+        const cronError = getCronError(schedule.cron);
+        if (cronError) {
+          return res.status(400).json({
+            message: `Programación "${schedule.name || schedule.cron}" inválida: ${cronError}`
+          });
+        }
+      }
+      if (syncConfig?.schedule?.timezone && !scheduleConfig.timezone) {
+        return res.status(400).json({ message: "Zona horaria inválida" });
+      }
+
+      // Establecimiento y punto de emisión del SRI: 3 dígitos cada uno
+      if (syncConfig?.invoicing?.enabled) {
+        const invoicing = getInvoicingConfig(syncConfig);
+        if (!/^\d{3}$/.test(invoicing.establishment) || !/^\d{3}$/.test(invoicing.emissionPoint)) {
+          return res.status(400).json({
+            message: "El establecimiento y el punto de emisión deben tener 3 dígitos (ej. 001)"
+          });
+        }
+      }
+
       // Actualizar el link
       const updates: any = {};
       if (isActive !== undefined) updates.isActive = isActive;
@@ -1323,10 +1657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let contificoIntegration = null;
       for (const si of storeIntegrations) {
         const integration = await storage.getIntegration(si.integrationId);
-        if (integration && (
-          integration.name?.toLowerCase().includes('contífico') ||
-          integration.name?.toLowerCase().includes('contifico')
-        )) {
+        if (integration && isErpIntegrationType(integration.integrationType)) {
           contificoIntegration = si;
           break;
         }
@@ -1688,27 +2019,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized: No tenant associated with user" });
       }
 
-      // Get tenant to check plan limits
-      const tenant = await storage.getTenant(user.tenantId);
-      const plan = getPlan(tenant.planType as PlanType);
-
-      // Check sync limits for this month (if not unlimited)
-      if (plan.limits.maxMonthlySyncs !== "unlimited") {
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
-
-        const { logs: syncLogs } = await storage.getSyncLogs(user.tenantId, { limit: 10000 });
-        const monthSyncs = syncLogs.filter(log =>
-          log.createdAt >= startOfMonth && log.syncType === 'inventory'
-        );
-
-        if (monthSyncs.length >= plan.limits.maxMonthlySyncs) {
-          return res.status(403).json({
-            message: `Has alcanzado el límite de ${plan.limits.maxMonthlySyncs} sincronizaciones/mes de tu plan ${tenant.planType}. El límite se reiniciará el próximo mes.`
-          });
-        }
-      }
+      // Check monthly sync quota of the tenant's plan
+      await QuotaService.assertSyncAvailable(user.tenantId);
 
       const store = await storage.getStore(parseInt(storeId));
       if (!store || store.tenantId !== user.tenantId) {
@@ -1820,6 +2132,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
     } catch (error: any) {
       console.error("Error during inventory sync:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({ message: "Failed to sync inventory", error: error.message });
     }
   });
@@ -1865,32 +2180,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = (req as AuthenticatedRequest).user;
       const { storeId, integrationId } = req.params;
-      const { dryRun = false, limit } = req.body; // Sin límite por defecto
+      const { dryRun = false, limit, mode = "full" } = req.body; // Sin límite por defecto
 
       if (!user.tenantId) {
         return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
       }
 
-      // Get tenant to check plan limits
-      const tenant = await storage.getTenant(user.tenantId);
-      const plan = getPlan(tenant.planType as PlanType);
-
-      // Check sync limits for this month (if not unlimited and not a dry run)
-      if (!dryRun && plan.limits.maxMonthlySyncs !== "unlimited") {
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
-
-        const { logs: syncLogs } = await storage.getSyncLogs(user.tenantId, { limit: 10000 });
-        const monthSyncs = syncLogs.filter(log =>
-          log.createdAt >= startOfMonth
-        );
+      if (!["full", "delta", "auto"].includes(mode)) {
+        return res.status(400).json({ message: "Modo de sincronización inválido (full, delta o auto)" });
+      }
 
-        if (monthSyncs.length >= plan.limits.maxMonthlySyncs) {
-          return res.status(403).json({
-            message: `Has alcanzado el límite de ${plan.limits.maxMonthlySyncs} sincronizaciones/mes de tu plan ${tenant.planType}. El límite se reiniciará el próximo mes.`
-          });
-        }
+      // Verificar cuota mensual de sincronizaciones (los dry runs no consumen cuota)
+      if (!dryRun) {
+        await QuotaService.assertSyncAvailable(user.tenantId);
       }
 
       // Verificar que la tienda pertenece al tenant del usuario
@@ -1905,22 +2207,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Integración no encontrada" });
       }
 
-      console.log(`[API] Iniciando sincronización Pull para store ${storeId}`);
-
-      const result = await SyncService.pullFromIntegration(
-        parseInt(storeId),
-        parseInt(integrationId),
-        { dryRun, limit }
+      // El Pull se ejecuta en el worker: el cliente consulta GET /api/jobs/:id hasta que termine
+      const job = await JobQueue.enqueuePull(
+        {
+          storeId: store.id,
+          integrationId: integration.id,
+          mode,
+          trigger: 'manual',
+          dryRun,
+          limit,
+          requestedBy: user.id,
+        },
+        user.tenantId
       );
 
-      res.json({
+      console.log(`[API] Sincronización Pull encolada para store ${storeId} (trabajo ${job.id})`);
+
+      res.status(202).json({
         success: true,
-        result,
-        message: `Sincronización completada: ${result.success} productos actualizados, ${result.failed} fallidos, ${result.skipped} omitidos`
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Sincronización encolada"
       });
 
     } catch (error: any) {
       console.error("[API] Error en sincronización Pull:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({
         message: "Error al sincronizar",
         error: error.message
@@ -1958,24 +2272,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Integración no encontrada" });
       }
 
-      console.log(`[API] Iniciando sincronización Pull Selectiva para store ${storeId}`);
-      console.log(`[API] SKUs seleccionados: ${skus.join(', ')}`);
+      // Verificar cuota mensual de sincronizaciones (los dry runs no consumen cuota)
+      if (!dryRun) {
+        await QuotaService.assertSyncAvailable(user.tenantId);
+      }
 
-      const result = await SyncService.pullFromIntegrationSelective(
-        parseInt(storeId),
-        parseInt(integrationId),
-        skus,
-        { dryRun }
+      // Se ejecuta en el worker; el progreso se sigue en GET /api/sync/runs/:jobId/events
+      const job = await JobQueue.enqueuePull(
+        {
+          storeId: store.id,
+          integrationId: integration.id,
+          mode: 'full',
+          trigger: 'manual',
+          dryRun,
+          skus: skus.map((sku: any) => sku.toString()),
+        },
+        user.tenantId
       );
 
-      res.json({
+      console.log(`[API] Sincronización Pull Selectiva encolada para store ${storeId} (trabajo ${job.id}): ${skus.join(', ')}`);
+
+      res.status(202).json({
         success: true,
-        result,
-        message: `Sincronización selectiva completada: ${result.success} productos actualizados, ${result.failed} fallidos, ${result.skipped} omitidos`
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Sincronización selectiva encolada"
       });
 
     } catch (error: any) {
       console.error("[API] Error en sincronización Pull Selectiva:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({
         message: "Error al sincronizar productos seleccionados",
         error: error.message
@@ -1984,597 +2312,1110 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============================================
-  // SYNC LOGS ENDPOINTS
+  // JOBS ENDPOINTS
   // ============================================
 
   /**
-   * GET /api/sync/logs
-   * Listar sincronizaciones con filtros y paginación
+   * GET /api/jobs/:id
+   * Estado de un trabajo en segundo plano (Pull manual, exportación, registro de webhooks)
    */
-  protectedRouter.get("/sync/logs", async (req, res) => {
+  protectedRouter.get("/jobs/:id", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { 
-        storeId, 
-        status, 
-        limit = '20', 
-        offset = '0' 
-      } = req.query;
+      const job = await storage.getJob(parseInt(req.params.id));
 
-      if (!user.tenantId) {
-        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      if (!job || job.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Trabajo no encontrado" });
       }
 
-      console.log('[API] Obteniendo logs de sincronización', { 
-        tenantId: user.tenantId, 
-        storeId, 
-        status, 
-        limit, 
-        offset 
+      res.json(serializeJob(job));
+    } catch (error: any) {
+      console.error("[API] Error obteniendo trabajo:", error);
+      res.status(500).json({
+        message: "Error al obtener el trabajo",
+        error: error.message
       });
+    }
+  });
 
-      const options: any = {
-        limit: parseInt(limit as string),
-        offset: parseInt(offset as string)
-      };
+  /**
+   * GET /api/jobs/:id/download
+   * Descarga el archivo generado por un trabajo de exportación
+   */
+  protectedRouter.get("/jobs/:id/download", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
 
-      if (storeId) {
-        options.storeId = parseInt(storeId as string);
-      }
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const job = await storage.getJob(parseInt(req.params.id));
 
-      if (status) {
-        options.status = status as string;
+      if (!job || job.tenantId !== user.tenantId || job.type !== "export") {
+        return res.status(404).json({ message: "Exportación no encontrada" });
       }
 
-      const result = await storage.getSyncLogs(user.tenantId, options);
-
-      // Enriquecer logs con información de tienda
-      const logsWithStoreInfo = await Promise.all(
-        result.logs.map(async (log) => {
-          const store = log.storeId !== null
-          ? await storage.getStore(log.storeId) 
-          : null;
-          return {
-            ...log,
-            storeName: store?.storeName || 'N/A',
-            storePlatform: store?.platform || 'N/A',
-          };
-        })
-      );
+      if (job.status !== "completed" || !job.result) {
+        return res.status(409).json({ message: "La exportación todavía no está lista" });
+      }
 
-      res.json({
-        logs: logsWithStoreInfo,
-        pagination: {
-          total: result.total,
-          limit: options.limit,
-          offset: options.offset,
-          hasMore: options.offset + options.limit < result.total
-        }
-      });
+      const file = job.result as ExportJobResult;
 
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(Buffer.from(file.data, "base64"));
     } catch (error: any) {
-      console.error('[API] Error obteniendo logs:', error);
-      res.status(500).json({ 
-        message: "Error al obtener logs de sincronización", 
-        error: error.message 
+      console.error("[API] Error descargando exportación:", error);
+      res.status(500).json({
+        message: "Error al descargar la exportación",
+        error: error.message
       });
     }
   });
 
   /**
-   * GET /api/sync/logs/:id
-   * Obtener detalle de una sincronización con sus items
+   * POST /api/exports
+   * Encola la generación de un Excel (log de sincronización, movimientos de Push o SKUs sin mapear)
    */
-  protectedRouter.get("/sync/logs/:id", async (req, res) => {
+  protectedRouter.post("/exports", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { id } = req.params;
+      const { kind, storeId, syncLogId, filters } = req.body;
 
-      console.log('[API] Obteniendo detalle de log', { syncLogId: id });
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
 
-      const result = await storage.getSyncLogWithItems(parseInt(id));
+      const payload: ExportJobPayload = { kind };
 
-      if (!result.syncLog) {
-        return res.status(404).json({ message: "Log de sincronización no encontrado" });
+      if (kind === "sync_log") {
+        const syncLog = await storage.getSyncLog(parseInt(syncLogId));
+        if (!syncLog || syncLog.tenantId !== user.tenantId) {
+          return res.status(404).json({ message: "Log de sincronización no encontrado" });
+        }
+        payload.syncLogId = syncLog.id;
+      } else if (kind === "push_movements" || kind === "unmapped_skus") {
+        const store = await storage.getStore(parseInt(storeId));
+        if (!store || store.tenantId !== user.tenantId) {
+          return res.status(404).json({ message: "Tienda no encontrada" });
+        }
+        payload.storeId = store.id;
+        if (kind === "push_movements" && filters) {
+          const { status, type, date_from, date_to } = filters;
+          payload.filters = { status, type, date_from, date_to };
+        }
+      } else {
+        return res.status(400).json({ message: "Tipo de exportación inválido (sync_log, push_movements o unmapped_skus)" });
       }
 
-      // Verificar que pertenece al tenant del usuario
-      if (result.syncLog.tenantId !== user.tenantId) {
-        return res.status(403).json({ message: "No autorizado para ver este log" });
-      }
+      const job = await JobQueue.enqueueExport(payload, user.tenantId);
 
-      // Obtener información de tienda
-      const store = result.syncLog.storeId 
-        ? await storage.getStore(result.syncLog.storeId)
-        : null;
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Exportación encolada"
+      });
+    } catch (error: any) {
+      console.error("[API] Error encolando exportación:", error);
+      res.status(500).json({
+        message: "Error al exportar a Excel",
+        error: error.message
+      });
+    }
+  });
 
-      // Obtener estadísticas de errores por categoría
-      const errorStats = await storage.getSyncLogItemsErrorStats(parseInt(id));
+  // ============================================
+  // REAL-TIME EVENTS (SSE)
+  // ============================================
 
-      // Para Push logs sin items, obtener summary desde details
-      let summary;
-      if (result.syncLog.syncType === 'push' && result.items.length === 0 && result.syncLog.details) {
-        const details = result.syncLog.details as any;
-        summary = {
-          total: details.totalMovements || 0,
-          success: details.successful || 0,
-          failed: details.failed || 0,
-          skipped: 0,
-        };
-      } else {
-        summary = {
-          total: result.items.length,
-          success: result.items.filter(i => i.status === 'success').length,
-          failed: result.items.filter(i => i.status === 'failed').length,
-          skipped: result.items.filter(i => i.status === 'skipped').length,
-        };
+  /**
+   * POST /api/sync/pull/:storeId/:integrationId/preview
+   * Vista previa del Pull: dry-run que guarda un plan con cada SKU cuyo stock cambiaría
+   * El resultado del trabajo incluye planId (GET /api/sync/plans/:id)
+   */
+  protectedRouter.post("/sync/pull/:storeId/:integrationId/preview", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, integrationId } = req.params;
+      const { mode = "full" } = req.body;
+
+      if (!["full", "delta", "auto"].includes(mode)) {
+        return res.status(400).json({ message: "Modo de sincronización inválido (full, delta o auto)" });
       }
 
-      res.json({
-        syncLog: {
-          ...result.syncLog,
-          storeName: store?.storeName || 'N/A',
-          storePlatform: store?.platform || 'N/A',
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Tienda no encontrada" });
+      }
+
+      const integration = await storage.getIntegration(parseInt(integrationId));
+      if (!integration || integration.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Integración no encontrada" });
+      }
+
+      const job = await JobQueue.enqueuePull(
+        {
+          storeId: store.id,
+          integrationId: integration.id,
+          mode,
+          trigger: 'manual',
+          dryRun: true,
+          preview: true,
+          requestedBy: user.id,
         },
-        items: result.items,
-        errorStats,
-        summary
+        user.tenantId
+      );
+
+      console.log(`[API] Vista previa de Pull encolada para store ${storeId} (trabajo ${job.id})`);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Vista previa encolada"
       });
 
     } catch (error: any) {
-      console.error('[API] Error obteniendo detalle de log:', error);
-      res.status(500).json({ 
-        message: "Error al obtener detalle de sincronización", 
-        error: error.message 
+      console.error("[API] Error en vista previa de Pull:", error);
+      res.status(500).json({
+        message: "Error al generar la vista previa",
+        error: error.message
       });
     }
   });
 
   /**
-   * GET /api/sync/stats
-   * Obtener métricas agregadas para Dashboard
+   * GET /api/sync/plans
+   * Planes de Pull recientes del tenant (sin el detalle de cambios)
+   * Query: storeId (opcional)
    */
-  protectedRouter.get("/sync/stats", async (req, res) => {
+  protectedRouter.get("/sync/plans", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { days = '7' } = req.query;
+      const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
 
-      if (!user.tenantId) {
-        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
-      }
+      const plans = await storage.getPullPlansByTenant(user.tenantId!, { storeId });
 
-      console.log('[API] Obteniendo estadísticas de sincronización', { 
-        tenantId: user.tenantId,
-        days 
+      res.json({ plans: plans.map((plan) => serializePullPlan(plan, false)) });
+    } catch (error: any) {
+      console.error("[API] Error obteniendo planes de Pull:", error);
+      res.status(500).json({
+        message: "Error al obtener planes de sincronización",
+        error: error.message
       });
+    }
+  });
 
-      // Obtener logs de los últimos N días
-      const daysAgo = new Date();
-      daysAgo.setDate(daysAgo.getDate() - parseInt(days as string));
-
-      // Obtener todos los logs del período
-      const allLogs = await storage.getSyncLogs(user.tenantId, { 
-        limit: 1000 // Suficiente para stats
-      });
-
-      // Filtrar por fecha
-      const recentLogs = allLogs.logs.filter(log => 
-        new Date(log.createdAt) >= daysAgo
-      );
-
-      // Calcular métricas
-      const totalSyncs = recentLogs.length;
-      const totalProducts = recentLogs.reduce((sum, log) => sum + (log.syncedCount || 0), 0);
-      const totalErrors = recentLogs.reduce((sum, log) => sum + (log.errorCount || 0), 0);
-      const successfulSyncs = recentLogs.filter(log => log.status === 'success').length;
-      const successRate = totalSyncs > 0 
-        ? Math.round((successfulSyncs / totalSyncs) * 100) 
-        : 0;
+  /**
+   * GET /api/sync/plans/:id
+   * Plan con el detalle de cada SKU (stock antes/después y advertencias)
+   */
+  protectedRouter.get("/sync/plans/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
 
-      // Logs recientes (últimos 5)
-      const recentActivity = recentLogs
-        .slice(0, 5)
-        .map(log => ({
-          id: log.id,
-          storeId: log.storeId,
-          syncType: log.syncType,
-          status: log.status,
-          syncedCount: log.syncedCount,
-          errorCount: log.errorCount,
-          createdAt: log.createdAt,
-        }));
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const plan = await storage.getPullPlan(parseInt(req.params.id));
 
-      res.json({
-        period: {
-          days: parseInt(days as string),
-          from: daysAgo.toISOString(),
-          to: new Date().toISOString(),
-        },
-        metrics: {
-          totalSyncs,
-          totalProducts,
-          totalErrors,
-          successRate,
-        },
-        recentActivity,
-      });
+      if (!plan || plan.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Plan no encontrado" });
+      }
 
+      res.json({ plan: serializePullPlan(plan, true) });
     } catch (error: any) {
-      console.error('[API] Error obteniendo estadísticas:', error);
-      res.status(500).json({ 
-        message: "Error al obtener estadísticas", 
-        error: error.message 
+      console.error("[API] Error obteniendo plan de Pull:", error);
+      res.status(500).json({
+        message: "Error al obtener el plan de sincronización",
+        error: error.message
       });
     }
   });
 
   /**
-   * GET /api/sync/logs/:id/export
-   * Exportar productos de una sincronización a Excel
+   * POST /api/sync/plans/:id/approve
+   * Aprueba un plan que supera la política del tenant (queda listo para aplicar)
    */
-  protectedRouter.get("/sync/logs/:id/export", async (req, res) => {
+  protectedRouter.post("/sync/plans/:id/approve", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { id } = req.params;
-
-      console.log("[API] Exportando log a Excel", { syncLogId: id });
-
-      // Obtener el sync log con items
-      const result = await storage.getSyncLogWithItems(parseInt(id));
+      const plan = await storage.getPullPlan(parseInt(req.params.id));
 
-      if (!result.syncLog) {
-        return res
-          .status(404)
-          .json({ message: "Log de sincronización no encontrado" });
+      if (!plan || plan.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Plan no encontrado" });
       }
 
-      // Verificar que pertenece al tenant del usuario
-      if (result.syncLog.tenantId !== user.tenantId) {
-        return res
-          .status(403)
-          .json({ message: "No autorizado para exportar este log" });
+      if (plan.status !== "pending_approval") {
+        return res.status(409).json({ message: "El plan no está pendiente de aprobación" });
       }
 
-      // Importar ExcelJS dinámicamente
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet("Productos Sincronizados");
-
-      // Obtener información de tienda
-      let storeName = "N/A";
-      if (result.syncLog.storeId && typeof result.syncLog.storeId === 'number') {
-        try {
-          const store = await storage.getStore(result.syncLog.storeId);
-          if (store) {
-            storeName = store.storeName;
-          }
-        } catch (error) {
-          console.warn(`[API] No se pudo obtener tienda para export`);
-        }
+      if (isPullPlanExpired(plan)) {
+        return res.status(409).json({ message: "El plan expiró, genera una nueva vista previa" });
       }
 
-      // Configurar columnas
-      worksheet.columns = [
-        { header: "SKU", key: "sku", width: 20 },
-        { header: "Producto", key: "productName", width: 40 },
-        { header: "Estado", key: "status", width: 15 },
-        { header: "Stock Antes", key: "stockBefore", width: 15 },
-        { header: "Stock Después", key: "stockAfter", width: 15 },
-        { header: "Categoría Error", key: "errorCategory", width: 25 },
-        { header: "Mensaje Error", key: "errorMessage", width: 50 },
-      ];
-
-      // Estilo del header
-      worksheet.getRow(1).font = { bold: true };
-      worksheet.getRow(1).fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb: "FF4472C4" },
-      };
-      worksheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
-
-      // Filtrar solo productos con errores u omitidos
-      const itemsToExport = result.items.filter(
-        (item) => item.status === "failed" || item.status === "skipped"
-      );
-
-      // Agregar datos
-      itemsToExport.forEach((item) => {
-        const row = worksheet.addRow({
-          sku: item.sku,
-          productName: item.productName || "N/A",
-          status:
-            item.status === "failed"
-              ? "Error"
-              : item.status === "skipped"
-              ? "Omitido"
-              : item.status,
-          stockBefore: item.stockBefore ?? "N/A",
-          stockAfter: item.stockAfter ?? "N/A",
-          errorCategory: item.errorCategory || "N/A",
-          errorMessage: item.errorMessage || "N/A",
-        });
-
-        // Colorear fila según estado
-        if (item.status === "failed") {
-          row.fill = {
-            type: "pattern",
-            pattern: "solid",
-            fgColor: { argb: "FFFFC7CE" }, // Rojo claro
-          };
-        } else if (item.status === "skipped") {
-          row.fill = {
-            type: "pattern",
-            pattern: "solid",
-            fgColor: { argb: "FFFFEB9C" }, // Amarillo claro
-          };
-        }
-      });
-
-      // Agregar hoja de resumen
-      const summarySheet = workbook.addWorksheet("Resumen");
-      summarySheet.columns = [
-        { header: "Detalle", key: "label", width: 30 },
-        { header: "Valor", key: "value", width: 20 },
-      ];
-
-      summarySheet.getRow(1).font = { bold: true };
-      summarySheet.getRow(1).fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb: "FF4472C4" },
-      };
-      summarySheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
-
-      summarySheet.addRow({ label: "Tienda", value: storeName });
-      summarySheet.addRow({
-        label: "Fecha de Sincronización",
-        value: formatEcuadorDateTime(result.syncLog.createdAt),
-      });
-      summarySheet.addRow({
-        label: "Tipo de Sincronización",
-        value: result.syncLog.syncType,
-      });
-      summarySheet.addRow({ label: "Estado", value: result.syncLog.status });
-      summarySheet.addRow({
-        label: "Productos Exitosos",
-        value: result.syncLog.syncedCount,
-      });
-      summarySheet.addRow({
-        label: "Productos con Error",
-        value: result.syncLog.errorCount,
-      });
-      summarySheet.addRow({
-        label: "Total Productos",
-        value: result.items.length,
-      });
-      summarySheet.addRow({
-        label: "Duración (ms)",
-        value: result.syncLog.durationMs || "N/A",
-      });
-
-      // Generar nombre de archivo
-      const timestamp = new Date().toISOString().split("T")[0];
-      const filename = `sync-log-${id}-${timestamp}.xlsx`;
-
-      // Configurar headers para descarga
-      res.setHeader(
-        "Content-Type",
-        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-      );
-      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      const updated = await storage.approvePullPlan(plan.id, user.id);
+      if (!updated) {
+        // Otro usuario lo aprobó, descartó o venció mientras tanto
+        return res.status(409).json({ message: "El plan ya no está pendiente de aprobación" });
+      }
 
-      // Escribir el archivo al response
-      await workbook.xlsx.write(res);
-      res.end();
+      console.log(`[API] Plan ${plan.id} aprobado por usuario ${user.id}`);
 
-      console.log(`[API] Excel exportado exitosamente: ${filename}`);
+      res.json({ plan: serializePullPlan(updated, false), message: "Plan aprobado" });
     } catch (error: any) {
-      console.error("[API] Error exportando a Excel:", error);
+      console.error("[API] Error aprobando plan de Pull:", error);
       res.status(500).json({
-        message: "Error al exportar a Excel",
-        error: error.message,
+        message: "Error al aprobar el plan",
+        error: error.message
       });
     }
   });
 
-  // ============================================
-  // NOTIFICATIONS
-  // ============================================
-
-  // Get notifications for the current tenant
-  protectedRouter.get("/notifications", async (req, res) => {
+  /**
+   * POST /api/sync/plans/:id/apply
+   * Aplica exactamente el plan revisado; el progreso se sigue en GET /api/sync/runs/:jobId/events
+   */
+  protectedRouter.post("/sync/plans/:id/apply", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const plan = await storage.getPullPlan(parseInt(req.params.id));
 
-      if (!user.tenantId) {
-        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      if (!plan || plan.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Plan no encontrado" });
       }
 
-      const notifications = await storage.getNotificationsByTenant(
-        user.tenantId,
-        limit
-      );
+      if (plan.status === "pending_approval") {
+        return res.status(409).json({ message: "El plan requiere aprobación antes de aplicarse" });
+      }
 
-      const unreadCount = await storage.getUnreadNotificationsCount(
+      if (plan.status !== "ready") {
+        return res.status(409).json({ message: "El plan ya fue aplicado o descartado" });
+      }
+
+      if (isPullPlanExpired(plan)) {
+        return res.status(409).json({ message: "El plan expiró, genera una nueva vista previa" });
+      }
+
+      if (await storage.hasActiveLock(plan.storeId, 'pull')) {
+        return res.status(409).json({ message: "Ya hay una sincronización en curso para esta tienda" });
+      }
+
+      await QuotaService.assertSyncAvailable(user.tenantId);
+
+      if (!await storage.startPullPlanApply(plan.id)) {
+        return res.status(409).json({ message: "El plan ya no se puede aplicar" });
+      }
+
+      const job = await JobQueue.enqueuePull(
+        {
+          storeId: plan.storeId,
+          integrationId: plan.integrationId,
+          mode: 'full',
+          trigger: 'manual',
+          planId: plan.id,
+          requestedBy: user.id,
+        },
         user.tenantId
       );
 
-      res.json({
-        notifications,
-        unreadCount,
+      // Otro Pull de la tienda ya estaba encolado (no se duplican): el plan vuelve a quedar listo
+      if ((job.payload as PullJobPayload).planId !== plan.id) {
+        await storage.updatePullPlan(plan.id, { status: "ready" });
+        return res.status(409).json({ message: "Ya hay una sincronización en curso para esta tienda" });
+      }
+
+      await storage.updatePullPlan(plan.id, { applyJobId: job.id });
+
+      console.log(`[API] Plan ${plan.id} encolado para aplicarse (trabajo ${job.id})`);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Aplicación del plan encolada"
       });
+
     } catch (error: any) {
-      console.error("Error obteniendo notificaciones:", error);
+      console.error("[API] Error aplicando plan de Pull:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({
-        message: "Error al obtener notificaciones",
-        error: error.message,
+        message: "Error al aplicar el plan",
+        error: error.message
       });
     }
   });
 
-  // Mark a notification as read
-  protectedRouter.patch("/notifications/:id/read", async (req, res) => {
+  /**
+   * POST /api/sync/plans/:id/discard
+   * Descarta un plan que no se aplicará
+   */
+  protectedRouter.post("/sync/plans/:id/discard", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { id } = req.params;
+      const plan = await storage.getPullPlan(parseInt(req.params.id));
 
-      if (!user.tenantId) {
-        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      if (!plan || plan.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Plan no encontrado" });
       }
 
-      // Verify notification belongs to tenant before updating
-      const notifications = await storage.getNotificationsByTenant(
-        user.tenantId,
-        1000
-      );
-      const notification = notifications.find((n) => n.id === parseInt(id));
-
-      if (!notification) {
-        return res.status(404).json({ message: "Notificación no encontrada" });
+      if (plan.status !== "pending_approval" && plan.status !== "ready") {
+        return res.status(409).json({ message: "El plan ya fue aplicado o descartado" });
       }
 
-      const updated = await storage.markNotificationAsRead(parseInt(id));
-      res.json({ notification: updated });
+      const updated = await storage.updatePullPlan(plan.id, { status: "discarded" });
+
+      res.json({ plan: serializePullPlan(updated!, false), message: "Plan descartado" });
     } catch (error: any) {
-      console.error("Error marcando notificación como leída:", error);
+      console.error("[API] Error descartando plan de Pull:", error);
       res.status(500).json({
-        message: "Error al marcar notificación",
-        error: error.message,
+        message: "Error al descartar el plan",
+        error: error.message
       });
     }
   });
 
-  // Mark all notifications as read for the current tenant
-  protectedRouter.patch("/notifications/mark-all-read", async (req, res) => {
+  /**
+   * GET /api/sync/runs/:runId/events
+   * Progreso de una sincronización en tiempo real (runId = id del trabajo)
+   * Envía primero el estado acumulado (snapshot) y termina cuando la ejecución finaliza
+   * Si la ejecución ya terminó y no está en memoria, envía su evento final desde el trabajo y cierra
+   */
+  protectedRouter.get("/sync/runs/:runId/events", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
+      const { runId } = req.params;
 
-      if (!user.tenantId) {
-        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      // La ejecución debe ser del tenant: por su estado en memoria o por su trabajo
+      const run = SyncEvents.getRun(runId);
+      const job = run ? undefined : await storage.getJob(parseInt(runId));
+      if ((run && run.tenantId !== user.tenantId) || (!run && (!job || job.tenantId !== user.tenantId))) {
+        return res.status(404).json({ message: "Sincronización no encontrada" });
       }
 
-      await storage.markAllNotificationsAsRead(user.tenantId);
-      res.json({ message: "Todas las notificaciones marcadas como leídas" });
-    } catch (error: any) {
-      console.error("Error marcando todas las notificaciones:", error);
-      res.status(500).json({
-        message: "Error al marcar notificaciones",
-        error: error.message,
+      openEventStream(req, res);
+      if (run) {
+        sendEvent(res, "snapshot", run);
+        if (run.status !== "running") {
+          return res.end();
+        }
+      } else if (job && isJobFinished(job.status)) {
+        // Sin estado en memoria no llegarán más eventos: enviar el final y cerrar
+        const event = finishedRunEvent(job);
+        sendEvent(res, event.type, event);
+        return res.end();
+      }
+
+      const unsubscribe = SyncEvents.subscribe(user.tenantId!, (event) => {
+        if (!isRunEvent(event) || event.runId !== runId) {
+          return;
+        }
+        sendEvent(res, event.type, event);
+        if (event.type === "completed" || event.type === "failed" || event.type === "cancelled") {
+          res.end();
+        }
       });
+      res.on("close", unsubscribe);
+    } catch (error: any) {
+      console.error("[API] Error abriendo stream de sincronización:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          message: "Error al abrir el stream de sincronización",
+          error: error.message
+        });
+      }
     }
   });
 
-  // Delete a notification
-  protectedRouter.delete("/notifications/:id", async (req, res) => {
+  /**
+   * POST /api/sync/runs/:runId/cancel
+   * Cancela una sincronización (runId = id del trabajo)
+   * Si aún no empezó se cancela de inmediato; si está en curso se detiene al terminar el lote actual
+   */
+  protectedRouter.post("/sync/runs/:runId/cancel", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { id } = req.params;
+      const job = await storage.getJob(parseInt(req.params.runId));
 
-      if (!user.tenantId) {
-        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      if (!job || job.tenantId !== user.tenantId || job.type !== 'pull') {
+        return res.status(404).json({ message: "Sincronización no encontrada" });
       }
 
-      // Verify notification belongs to tenant before deleting
-      const notifications = await storage.getNotificationsByTenant(
-        user.tenantId,
-        1000
-      );
-      const notification = notifications.find((n) => n.id === parseInt(id));
+      const updated = isJobFinished(job.status) ? undefined : await storage.requestJobCancel(job.id);
+      if (!updated) {
+        return res.status(409).json({ message: "La sincronización ya terminó" });
+      }
 
-      if (!notification) {
-        return res.status(404).json({ message: "Notificación no encontrada" });
+      // Nunca empezó: avisar a quienes siguen su progreso
+      if (updated.status === 'cancelled') {
+        const payload = job.payload as PullJobPayload;
+        SyncEvents.reporter(String(job.id), job.tenantId!, payload.storeId, payload.skus ? 'pull_selective' : 'pull')
+          .cancelled({ success: 0, failed: 0, skipped: 0 });
       }
 
-      await storage.deleteNotification(parseInt(id));
-      res.json({ message: "Notificación eliminada" });
+      console.log(`[API] Cancelación solicitada para la sincronización ${job.id} (${updated.status})`);
+
+      res.json({
+        success: true,
+        job: serializeJob(updated),
+        message: updated.status === 'cancelled'
+          ? "Sincronización cancelada"
+          : "Cancelación solicitada: se detendrá al terminar el lote en curso"
+      });
+
     } catch (error: any) {
-      console.error("Error eliminando notificación:", error);
+      console.error("[API] Error cancelando sincronización:", error);
       res.status(500).json({
-        message: "Error al eliminar notificación",
-        error: error.message,
+        message: "Error al cancelar la sincronización",
+        error: error.message
       });
     }
   });
 
-  // ============================================
-  // USER & TENANT MANAGEMENT (Settings)
-  // ============================================
-
-  // Update user information
-  protectedRouter.put("/user/:userId", async (req, res) => {
+  /**
+   * GET /api/events
+   * Eventos del tenant en tiempo real: sincronizaciones, movimientos de Push y notificaciones
+   * (sin el detalle por SKU, que solo se envía en el stream de cada ejecución)
+   */
+  protectedRouter.get("/events", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
 
-    try {
-      const user = (req as AuthenticatedRequest).user;
-      const { userId } = req.params;
-      const { name, email } = req.body;
-
-      // Only allow users to update their own information
-      if (user.id !== parseInt(userId)) {
-        return res.status(403).json({ message: "No tienes permiso para actualizar este usuario" });
-      }
-
-      // Validate input
-      if (!name && !email) {
-        return res.status(400).json({ message: "Debes proporcionar al menos un campo para actualizar" });
-      }
-
-      const updates: Partial<{ name: string; email: string }> = {};
-      if (name) updates.name = name;
-      if (email) {
-        // Check if email is already taken by another user
-        const existingUser = await storage.getUserByEmail(email);
-        if (existingUser && existingUser.id !== user.id) {
-          return res.status(400).json({ message: "El correo electrónico ya está en uso" });
-        }
-        updates.email = email;
-      }
-
-      const updatedUser = await storage.updateUser(parseInt(userId), updates);
-      res.json({ user: updatedUser, message: "Usuario actualizado exitosamente" });
-    } catch (error: any) {
-      console.error("Error actualizando usuario:", error);
-      res.status(500).json({ message: "Error al actualizar usuario", error: error.message });
+    const user = (req as AuthenticatedRequest).user;
+    if (!user.tenantId) {
+      return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
     }
+
+    openEventStream(req, res);
+    const unsubscribe = SyncEvents.subscribe(user.tenantId, (event) => {
+      sendEvent(res, event.type, event.type === "progress" ? { ...event, items: [] } : event);
+    });
+    res.on("close", unsubscribe);
   });
 
-  // Change password
-  protectedRouter.post("/user/change-password", async (req, res) => {
+  // ============================================
+  // SYNC LOGS ENDPOINTS
+  // ============================================
+
+  /**
+   * GET /api/sync/logs
+   * Listar sincronizaciones con filtros y paginación
+   */
+  protectedRouter.get("/sync/logs", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { 
+        storeId, 
+        status, 
+        limit = '20', 
+        offset = '0' 
+      } = req.query;
+
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
+
+      console.log('[API] Obteniendo logs de sincronización', { 
+        tenantId: user.tenantId, 
+        storeId, 
+        status, 
+        limit, 
+        offset 
+      });
+
+      const options: any = {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string)
+      };
+
+      if (storeId) {
+        options.storeId = parseInt(storeId as string);
+      }
+
+      if (status) {
+        options.status = status as string;
+      }
+
+      const result = await storage.getSyncLogs(user.tenantId, options);
+
+      // Enriquecer logs con información de tienda
+      const logsWithStoreInfo = await Promise.all(
+        result.logs.map(async (log) => {
+          const store = log.storeId !== null
+          ? await storage.getStore(log.storeId) 
+          : null;
+          return {
+            ...log,
+            storeName: store?.storeName || 'N/A',
+            storePlatform: store?.platform || 'N/A',
+          };
+        })
+      );
+
+      res.json({
+        logs: logsWithStoreInfo,
+        pagination: {
+          total: result.total,
+          limit: options.limit,
+          offset: options.offset,
+          hasMore: options.offset + options.limit < result.total
+        }
+      });
+
+    } catch (error: any) {
+      console.error('[API] Error obteniendo logs:', error);
+      res.status(500).json({ 
+        message: "Error al obtener logs de sincronización", 
+        error: error.message 
+      });
+    }
+  });
+
+  /**
+   * GET /api/sync/logs/:id
+   * Obtener detalle de una sincronización con sus items
+   */
+  protectedRouter.get("/sync/logs/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { id } = req.params;
+
+      console.log('[API] Obteniendo detalle de log', { syncLogId: id });
+
+      const result = await storage.getSyncLogWithItems(parseInt(id));
+
+      if (!result.syncLog) {
+        return res.status(404).json({ message: "Log de sincronización no encontrado" });
+      }
+
+      // Verificar que pertenece al tenant del usuario
+      if (result.syncLog.tenantId !== user.tenantId) {
+        return res.status(403).json({ message: "No autorizado para ver este log" });
+      }
+
+      // Obtener información de tienda
+      const store = result.syncLog.storeId 
+        ? await storage.getStore(result.syncLog.storeId)
+        : null;
+
+      // Obtener estadísticas de errores por categoría
+      const errorStats = await storage.getSyncLogItemsErrorStats(parseInt(id));
+
+      // Para Push logs sin items, obtener summary desde details
+      let summary;
+      if (result.syncLog.syncType === 'push' && result.items.length === 0 && result.syncLog.details) {
+        const details = result.syncLog.details as any;
+        summary = {
+          total: details.totalMovements || 0,
+          success: details.successful || 0,
+          failed: details.failed || 0,
+          skipped: 0,
+        };
+      } else {
+        summary = {
+          total: result.items.length,
+          success: result.items.filter(i => i.status === 'success').length,
+          failed: result.items.filter(i => i.status === 'failed').length,
+          skipped: result.items.filter(i => i.status === 'skipped').length,
+        };
+      }
+
+      // SKUs cuyo stock anterior se puede restaurar (snapshot del Pull)
+      const pendingRollback = result.syncLog.syncType === 'push'
+        ? 0
+        : await storage.countPendingPullStockSnapshots(result.syncLog.id);
+
+      res.json({
+        syncLog: {
+          ...result.syncLog,
+          storeName: store?.storeName || 'N/A',
+          storePlatform: store?.platform || 'N/A',
+        },
+        items: result.items,
+        errorStats,
+        summary,
+        pendingRollback
+      });
+
+    } catch (error: any) {
+      console.error('[API] Error obteniendo detalle de log:', error);
+      res.status(500).json({ 
+        message: "Error al obtener detalle de sincronización", 
+        error: error.message 
+      });
+    }
+  });
+
+  /**
+   * POST /api/sync/logs/:id/resume
+   * Reanuda un Pull cancelado o interrumpido desde su último lote completado
+   */
+  protectedRouter.post("/sync/logs/:id/resume", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const syncLog = await storage.getSyncLog(parseInt(req.params.id));
+
+      if (!syncLog || syncLog.tenantId !== user.tenantId || !syncLog.storeId) {
+        return res.status(404).json({ message: "Log de sincronización no encontrado" });
+      }
+
+      if (!isResumablePull(syncLog)) {
+        return res.status(409).json({ message: "Esta sincronización no se puede reanudar" });
+      }
+
+      if (await storage.hasActiveLock(syncLog.storeId, 'pull')) {
+        return res.status(409).json({ message: "Ya hay una sincronización en curso para esta tienda" });
+      }
+
+      await QuotaService.assertSyncAvailable(user.tenantId);
+
+      const checkpoint = syncLog.checkpoint as PullCheckpoint;
+      const job = await JobQueue.enqueuePull(
+        {
+          storeId: syncLog.storeId,
+          integrationId: checkpoint.integrationId,
+          mode: (syncLog.syncMode as PullMode | null) ?? 'full',
+          trigger: 'manual',
+          resumeSyncLogId: syncLog.id,
+        },
+        user.tenantId
+      );
+
+      console.log(`[API] Pull del log ${syncLog.id} encolado para reanudar (trabajo ${job.id}, ${checkpoint.processedCount}/${checkpoint.total} procesados)`);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Reanudación encolada"
+      });
+
+    } catch (error: any) {
+      console.error("[API] Error reanudando sincronización:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({
+        message: "Error al reanudar la sincronización",
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * POST /api/sync/logs/:id/rollback
+   * Restaura el stock que reemplazó un Pull (solo los SKUs que no cambiaron desde entonces)
+   */
+  protectedRouter.post("/sync/logs/:id/rollback", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const syncLog = await storage.getSyncLog(parseInt(req.params.id));
+
+      if (!syncLog || syncLog.tenantId !== user.tenantId || !syncLog.storeId) {
+        return res.status(404).json({ message: "Log de sincronización no encontrado" });
+      }
+
+      if (syncLog.status === 'running') {
+        return res.status(409).json({ message: "La sincronización todavía está en curso" });
+      }
+
+      const pending = await storage.countPendingPullStockSnapshots(syncLog.id);
+      if (pending === 0) {
+        return res.status(409).json({ message: "Esta sincronización no tiene stock por restaurar" });
+      }
+
+      if (await storage.hasActiveLock(syncLog.storeId, 'pull')) {
+        return res.status(409).json({ message: "Ya hay una sincronización en curso para esta tienda" });
+      }
+
+      const job = await JobQueue.enqueuePull(
+        {
+          storeId: syncLog.storeId,
+          integrationId: (syncLog.details as any)?.integration_id,
+          mode: 'full',
+          trigger: 'manual',
+          rollbackSyncLogId: syncLog.id,
+          requestedBy: user.id,
+        },
+        user.tenantId
+      );
+
+      // Deduplicado contra un Pull ya encolado de la misma tienda
+      if ((job.payload as PullJobPayload).rollbackSyncLogId !== syncLog.id) {
+        return res.status(409).json({ message: "Ya hay una sincronización en cola para esta tienda" });
+      }
+
+      console.log(`[API] Restauración del Pull del log ${syncLog.id} encolada (trabajo ${job.id}, ${pending} productos)`);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job: serializeJob(job),
+        message: "Restauración encolada"
+      });
+
+    } catch (error: any) {
+      console.error("[API] Error restaurando stock:", error);
+      res.status(500).json({
+        message: "Error al restaurar el stock",
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * GET /api/sync/stats
+   * Obtener métricas agregadas para Dashboard
+   */
+  protectedRouter.get("/sync/stats", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { days = '7' } = req.query;
+
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
+
+      console.log('[API] Obteniendo estadísticas de sincronización', { 
+        tenantId: user.tenantId,
+        days 
+      });
+
+      // Obtener logs de los últimos N días
+      const daysAgo = new Date();
+      daysAgo.setDate(daysAgo.getDate() - parseInt(days as string));
+
+      // Obtener todos los logs del período
+      const allLogs = await storage.getSyncLogs(user.tenantId, { 
+        limit: 1000 // Suficiente para stats
+      });
+
+      // Filtrar por fecha
+      const recentLogs = allLogs.logs.filter(log => 
+        new Date(log.createdAt) >= daysAgo
+      );
+
+      // Calcular métricas
+      const totalSyncs = recentLogs.length;
+      const totalProducts = recentLogs.reduce((sum, log) => sum + (log.syncedCount || 0), 0);
+      const totalErrors = recentLogs.reduce((sum, log) => sum + (log.errorCount || 0), 0);
+      const successfulSyncs = recentLogs.filter(log => log.status === 'success').length;
+      const successRate = totalSyncs > 0 
+        ? Math.round((successfulSyncs / totalSyncs) * 100) 
+        : 0;
+
+      // Logs recientes (últimos 5)
+      const recentActivity = recentLogs
+        .slice(0, 5)
+        .map(log => ({
+          id: log.id,
+          storeId: log.storeId,
+          syncType: log.syncType,
+          status: log.status,
+          syncedCount: log.syncedCount,
+          errorCount: log.errorCount,
+          createdAt: log.createdAt,
+        }));
+
+      res.json({
+        period: {
+          days: parseInt(days as string),
+          from: daysAgo.toISOString(),
+          to: new Date().toISOString(),
+        },
+        metrics: {
+          totalSyncs,
+          totalProducts,
+          totalErrors,
+          successRate,
+        },
+        recentActivity,
+      });
+
+    } catch (error: any) {
+      console.error('[API] Error obteniendo estadísticas:', error);
+      res.status(500).json({ 
+        message: "Error al obtener estadísticas", 
+        error: error.message 
+      });
+    }
+  });
+
+  // ============================================
+  // NOTIFICATIONS
+  // ============================================
+
+  // Get notifications for the current tenant
+  protectedRouter.get("/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
+
+      const notifications = await storage.getNotificationsByTenant(
+        user.tenantId,
+        limit
+      );
+
+      const unreadCount = await storage.getUnreadNotificationsCount(
+        user.tenantId
+      );
+
+      res.json({
+        notifications,
+        unreadCount,
+      });
+    } catch (error: any) {
+      console.error("Error obteniendo notificaciones:", error);
+      res.status(500).json({
+        message: "Error al obtener notificaciones",
+        error: error.message,
+      });
+    }
+  });
+
+  // Mark a notification as read
+  protectedRouter.patch("/notifications/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { id } = req.params;
+
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
+
+      // Verify notification belongs to tenant before updating
+      const notifications = await storage.getNotificationsByTenant(
+        user.tenantId,
+        1000
+      );
+      const notification = notifications.find((n) => n.id === parseInt(id));
+
+      if (!notification) {
+        return res.status(404).json({ message: "Notificación no encontrada" });
+      }
+
+      const updated = await storage.markNotificationAsRead(parseInt(id));
+      res.json({ notification: updated });
+    } catch (error: any) {
+      console.error("Error marcando notificación como leída:", error);
+      res.status(500).json({
+        message: "Error al marcar notificación",
+        error: error.message,
+      });
+    }
+  });
+
+  // Mark all notifications as read for the current tenant
+  protectedRouter.patch("/notifications/mark-all-read", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
+
+      await storage.markAllNotificationsAsRead(user.tenantId);
+      res.json({ message: "Todas las notificaciones marcadas como leídas" });
+    } catch (error: any) {
+      console.error("Error marcando todas las notificaciones:", error);
+      res.status(500).json({
+        message: "Error al marcar notificaciones",
+        error: error.message,
+      });
+    }
+  });
+
+  // Delete a notification
+  protectedRouter.delete("/notifications/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { id } = req.params;
+
+      if (!user.tenantId) {
+        return res.status(401).json({ message: "No autorizado: Sin tenant asociado al usuario" });
+      }
+
+      // Verify notification belongs to tenant before deleting
+      const notifications = await storage.getNotificationsByTenant(
+        user.tenantId,
+        1000
+      );
+      const notification = notifications.find((n) => n.id === parseInt(id));
+
+      if (!notification) {
+        return res.status(404).json({ message: "Notificación no encontrada" });
+      }
+
+      await storage.deleteNotification(parseInt(id));
+      res.json({ message: "Notificación eliminada" });
+    } catch (error: any) {
+      console.error("Error eliminando notificación:", error);
+      res.status(500).json({
+        message: "Error al eliminar notificación",
+        error: error.message,
+      });
+    }
+  });
+
+  // ============================================
+  // USER & TENANT MANAGEMENT (Settings)
+  // ============================================
+
+  // Update user information
+  protectedRouter.put("/user/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { userId } = req.params;
+      const { name, email } = req.body;
+
+      // Only allow users to update their own information
+      if (user.id !== parseInt(userId)) {
+        return res.status(403).json({ message: "No tienes permiso para actualizar este usuario" });
+      }
+
+      // Validate input
+      if (!name && !email) {
+        return res.status(400).json({ message: "Debes proporcionar al menos un campo para actualizar" });
+      }
+
+      const updates: Partial<{ name: string; email: string; emailVerified: boolean }> = {};
+      if (name) updates.name = name;
+      if (email && email !== user.email) {
+        // Check if email is already taken by another user
+        const existingUser = await storage.getUserByEmail(email);
+        if (existingUser && existingUser.id !== user.id) {
+          return res.status(400).json({ message: "El correo electrónico ya está en uso" });
+        }
+        updates.email = email;
+        // La nueva dirección hay que confirmarla
+        updates.emailVerified = false;
+      }
+
+      const updatedUser = await storage.updateUser(parseInt(userId), updates);
+      if (updates.email) {
+        void AccountTokenService.sendVerificationEmail(updatedUser, getEmailLinkBaseUrl());
+      }
+      res.json({
+        user: toPublicUser(updatedUser),
+        message: updates.email
+          ? "Usuario actualizado. Te enviamos un correo para confirmar la nueva dirección"
+          : "Usuario actualizado exitosamente",
+      });
+    } catch (error: any) {
+      console.error("Error actualizando usuario:", error);
+      res.status(500).json({ message: "Error al actualizar usuario", error: error.message });
+    }
+  });
+
+  // Resend the email verification link
+  protectedRouter.post("/user/verify-email/resend", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Tu correo electrónico ya está verificado" });
+      }
+
+      const sent = await AccountTokenService.sendVerificationEmail(user, getEmailLinkBaseUrl());
+      if (!sent) {
+        return res.status(502).json({ message: "No se pudo enviar el correo. Inténtalo más tarde" });
+      }
+      res.json({ message: `Te enviamos un enlace de verificación a ${user.email}` });
+    } catch (error: any) {
+      console.error("Error reenviando verificación de correo:", error);
+      res.status(500).json({ message: "Error al reenviar la verificación", error: error.message });
+    }
+  });
+
+  // Change password
+  protectedRouter.post("/user/change-password", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autorizado" });
     }
@@ -2583,106 +3424,834 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = (req as AuthenticatedRequest).user;
       const { currentPassword, newPassword } = req.body;
 
-      // Validate input
-      if (!currentPassword || !newPassword) {
-        return res.status(400).json({ message: "Contraseña actual y nueva son requeridas" });
+      // Validate input
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Contraseña actual y nueva son requeridas" });
+      }
+
+      if (newPassword.length < 8) {
+        return res.status(400).json({ message: "La nueva contraseña debe tener al menos 8 caracteres" });
+      }
+
+      // Get full user data with password hash
+      const fullUser = await storage.getUser(user.id);
+      if (!fullUser) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+
+      // Import password functions from auth
+      const { comparePasswords, hashPassword } = await import('./auth');
+
+      // Verify current password
+      const isValid = await comparePasswords(currentPassword, fullUser.passwordHash);
+      if (!isValid) {
+        return res.status(400).json({ message: "La contraseña actual es incorrecta" });
+      }
+
+      // Hash and update new password
+      const newPasswordHash = await hashPassword(newPassword);
+      await storage.updateUserPassword(user.id, newPasswordHash);
+
+      // Quien tenga la contraseña anterior pierde el acceso: se cierran las demás sesiones
+      const revokedSessions = await SessionService.revokeOtherSessions(req);
+
+      res.json({ message: "Contraseña actualizada exitosamente", revokedSessions });
+    } catch (error: any) {
+      console.error("Error cambiando contraseña:", error);
+      res.status(500).json({ message: "Error al cambiar contraseña", error: error.message });
+    }
+  });
+
+  // ============================================
+  // TWO-FACTOR AUTHENTICATION (session only)
+  // ============================================
+
+  // 2FA status of current user
+  protectedRouter.get("/user/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const tenant = user.tenantId ? await storage.getTenant(user.tenantId) : undefined;
+
+      res.json({
+        enabled: !!user.twoFactorEnabledAt,
+        enabledAt: user.twoFactorEnabledAt,
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+        requiredByTenant: isTwoFactorRequired(tenant?.settings),
+      });
+    } catch (error: any) {
+      console.error("Error obteniendo estado de 2FA:", error);
+      res.status(500).json({ message: "Error al obtener la verificación en dos pasos", error: error.message });
+    }
+  });
+
+  // Start 2FA setup: new secret kept in the session until confirmed with a code
+  protectedRouter.post("/user/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (user.twoFactorEnabledAt) {
+        return res.status(409).json({ message: "La verificación en dos pasos ya está activa" });
+      }
+
+      const secret = TwoFactorService.generateSecret();
+      const otpauthUrl = TwoFactorService.getProvisioningUri(secret, user.email);
+      req.session.twoFactorSetup = { secret, expiresAt: Date.now() + 10 * 60 * 1000 };
+
+      res.json({
+        secret,
+        otpauthUrl,
+        qrCode: await TwoFactorService.getQrDataUrl(otpauthUrl),
+      });
+    } catch (error: any) {
+      console.error("Error iniciando configuración de 2FA:", error);
+      res.status(500).json({ message: "Error al configurar la verificación en dos pasos", error: error.message });
+    }
+  });
+
+  // Confirm setup with a code from the app. Recovery codes are returned only once.
+  protectedRouter.post("/user/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const setup = req.session.twoFactorSetup;
+      if (!setup || setup.expiresAt < Date.now()) {
+        delete req.session.twoFactorSetup;
+        return res.status(400).json({ message: "La configuración expiró. Vuelve a escanear un nuevo código QR" });
+      }
+
+      const step = TwoFactorService.matchCode(setup.secret, String(req.body.code || ""));
+      if (step === null) {
+        return res.status(400).json({ message: "Código incorrecto. Revisa la hora de tu teléfono e inténtalo de nuevo" });
+      }
+
+      const { codes, hashes } = TwoFactorService.generateRecoveryCodes();
+      await storage.enableTwoFactor(user.id, setup.secret, hashes, step);
+      delete req.session.twoFactorSetup;
+
+      console.log(`[2FA] Verificación en dos pasos activada para usuario ${user.id}`);
+
+      res.json({
+        recoveryCodes: codes,
+        message: "Verificación en dos pasos activada. Guarda tus códigos de recuperación, no podrás volver a verlos",
+      });
+    } catch (error: any) {
+      console.error("Error activando 2FA:", error);
+      res.status(500).json({ message: "Error al activar la verificación en dos pasos", error: error.message });
+    }
+  });
+
+  // Replace recovery codes (the old ones stop working)
+  protectedRouter.post("/user/2fa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      if (!user.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "La verificación en dos pasos no está activa" });
+      }
+
+      if (!(await TwoFactorService.verifyUserCode(user, String(req.body.code || "")))) {
+        return res.status(400).json({ message: "Código incorrecto" });
+      }
+
+      const { codes, hashes } = TwoFactorService.generateRecoveryCodes();
+      await storage.replaceTwoFactorRecoveryCodes(user.id, hashes);
+
+      console.log(`[2FA] Códigos de recuperación regenerados para usuario ${user.id}`);
+
+      res.json({
+        recoveryCodes: codes,
+        message: "Nuevos códigos de recuperación generados. Los anteriores ya no funcionan",
+      });
+    } catch (error: any) {
+      console.error("Error regenerando códigos de recuperación:", error);
+      res.status(500).json({ message: "Error al generar códigos de recuperación", error: error.message });
+    }
+  });
+
+  // Disable 2FA (password + code or recovery code), unless the tenant requires it
+  protectedRouter.post("/user/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { password, code } = req.body;
+
+      if (!user.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "La verificación en dos pasos no está activa" });
+      }
+
+      const tenant = user.tenantId ? await storage.getTenant(user.tenantId) : undefined;
+      if (isTwoFactorRequired(tenant?.settings)) {
+        return res.status(403).json({ message: "Tu empresa exige la verificación en dos pasos, no puedes desactivarla" });
+      }
+
+      if (!password || !(await comparePasswords(password, user.passwordHash))) {
+        return res.status(400).json({ message: "La contraseña es incorrecta" });
+      }
+
+      if (!(await TwoFactorService.verifyUserCodeOrRecovery(user, String(code || "")))) {
+        return res.status(400).json({ message: "Código incorrecto" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+      console.log(`[2FA] Verificación en dos pasos desactivada para usuario ${user.id}`);
+
+      res.json({ message: "Verificación en dos pasos desactivada" });
+    } catch (error: any) {
+      console.error("Error desactivando 2FA:", error);
+      res.status(500).json({ message: "Error al desactivar la verificación en dos pasos", error: error.message });
+    }
+  });
+
+  // List active browser sessions of current user
+  protectedRouter.get("/user/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      res.json(await SessionService.listSessions(req));
+    } catch (error: any) {
+      console.error("Error obteniendo sesiones:", error);
+      res.status(500).json({ message: "Error al obtener sesiones", error: error.message });
+    }
+  });
+
+  // Sign out everywhere else (every session of current user but this one)
+  protectedRouter.post("/user/sessions/revoke-others", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const revoked = await SessionService.revokeOtherSessions(req);
+      res.json({ revoked, message: revoked > 0 ? `${revoked} sesiones cerradas` : "No hay otras sesiones abiertas" });
+    } catch (error: any) {
+      console.error("Error cerrando sesiones:", error);
+      res.status(500).json({ message: "Error al cerrar sesiones", error: error.message });
+    }
+  });
+
+  // Revoke one session of current user (by its public id)
+  protectedRouter.delete("/user/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+
+      if (req.params.id === req.session.meta?.id) {
+        return res.status(400).json({ message: "Para cerrar la sesión actual usa Cerrar sesión" });
+      }
+
+      const revoked = await storage.deleteUserSession(user.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Sesión no encontrada" });
+      }
+
+      console.log(`[Session] Sesión ${req.params.id} cerrada para usuario ${user.id}`);
+
+      res.json({ message: "Sesión cerrada" });
+    } catch (error: any) {
+      console.error("Error cerrando sesión:", error);
+      res.status(500).json({ message: "Error al cerrar sesión", error: error.message });
+    }
+  });
+
+  // Delete user account
+  protectedRouter.delete("/user/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { userId } = req.params;
+
+      // Only allow users to delete their own account
+      if (user.id !== parseInt(userId)) {
+        return res.status(403).json({ message: "No tienes permiso para eliminar este usuario" });
+      }
+
+      // El único propietario no puede dejar al resto del equipo sin propietario
+      if (user.tenantId && await TeamService.isLastOwner(user)) {
+        const members = await storage.getUsersByTenant(user.tenantId);
+        if (members.length > 1) {
+          return res.status(409).json({
+            message: "Eres el único propietario de la empresa. Asigna otro propietario antes de eliminar tu cuenta",
+          });
+        }
+      }
+
+      await storage.deleteUser(parseInt(userId));
+      await storage.deleteUserSessions(parseInt(userId), req.sessionID);
+
+      // Logout the user after deleting account
+      req.logout((err) => {
+        if (err) {
+          console.error("Error logging out after account deletion:", err);
+        }
+      });
+
+      res.json({ message: "Cuenta eliminada exitosamente" });
+    } catch (error: any) {
+      console.error("Error eliminando usuario:", error);
+      res.status(500).json({ message: "Error al eliminar usuario", error: error.message });
+    }
+  });
+
+  // Update tenant information
+  protectedRouter.put("/tenant/:tenantId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autorizado" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { tenantId } = req.params;
+      const { name, timezone, pullApproval, requireTwoFactor } = req.body;
+
+      // Verify tenant belongs to user
+      if (user.tenantId !== parseInt(tenantId)) {
+        return res.status(403).json({ message: "No tienes permiso para actualizar este tenant" });
+      }
+
+      if (!name) {
+        return res.status(400).json({ message: "El nombre de la empresa es requerido" });
+      }
+
+      if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimeZone(timezone))) {
+        return res.status(400).json({ message: "Zona horaria inválida" });
+      }
+
+      // Política de aprobación de Pull (tenants.settings.pullApproval)
+      let settings: Record<string, unknown> | undefined;
+      if (pullApproval !== undefined) {
+        const policyError = validatePullApprovalPolicy(pullApproval);
+        if (policyError) {
+          return res.status(400).json({ message: policyError });
+        }
+        const tenant = await storage.getTenant(user.tenantId);
+        settings = {
+          ...((tenant?.settings as Record<string, unknown> | null) || {}),
+          pullApproval: { enabled: pullApproval.enabled, maxZeroedPercent: pullApproval.maxZeroedPercent },
+        };
+      }
+
+      // Política de 2FA obligatoria para todos los miembros (tenants.settings.requireTwoFactor)
+      if (requireTwoFactor !== undefined) {
+        if (typeof requireTwoFactor !== "boolean") {
+          return res.status(400).json({ message: "La política de verificación en dos pasos debe ser verdadera o falsa" });
+        }
+        // Quien la activa no puede quedar fuera por no tenerla configurada
+        if (requireTwoFactor && !user.twoFactorEnabledAt) {
+          return res.status(400).json({
+            message: "Activa tu propia verificación en dos pasos antes de exigirla al equipo",
+          });
+        }
+        if (!settings) {
+          const tenant = await storage.getTenant(user.tenantId);
+          settings = { ...((tenant?.settings as Record<string, unknown> | null) || {}) };
+        }
+        settings.requireTwoFactor = requireTwoFactor;
+      }
+
+      const updatedTenant = await storage.updateTenant(parseInt(tenantId), {
+        name,
+        ...(timezone ? { timezone } : {}),
+        ...(settings ? { settings } : {}),
+      });
+      res.json({ tenant: toPublicTenant(updatedTenant), message: "Empresa actualizada exitosamente" });
+    } catch (error: any) {
+      console.error("Error actualizando tenant:", error);
+      res.status(500).json({ message: "Error al actualizar empresa", error: error.message });
+    }
+  });
+
+  // ========================================
+  // INVENTORY PUSH ENDPOINTS
+  // ========================================
+
+  // Get inventory push statistics
+  protectedRouter.get("/stores/:storeId/inventory-push/stats", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      // Get all movements for this store
+      const allMovements = await storage.getMovementsByStore(parseInt(storeId), 10000);
+
+      // Calculate stats
+      const now = new Date();
+      const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+
+      const pending = allMovements.filter(m => m.status === 'pending').length;
+      const processing = allMovements.filter(m => m.status === 'processing').length;
+      const completed24h = allMovements.filter(
+        m => m.status === 'completed' && m.processedAt && new Date(m.processedAt) >= last24h
+      ).length;
+      const failed24h = allMovements.filter(
+        m => m.status === 'failed' &&
+        m.createdAt && new Date(m.createdAt) >= last24h
+      ).length;
+
+      const totalLast24h = allMovements.filter(
+        m => m.createdAt && new Date(m.createdAt) >= last24h
+      ).length;
+
+      const successRate = totalLast24h > 0
+        ? Math.round((completed24h / totalLast24h) * 100)
+        : 0;
+
+      res.json({
+        pending,
+        processing,
+        completed_24h: completed24h,
+        failed_24h: failed24h,
+        success_rate: successRate,
+      });
+    } catch (error: any) {
+      console.error("Error getting push stats:", error);
+      res.status(500).json({ message: "Failed to get stats", error: error.message });
+    }
+  });
+
+  // Get inventory push movements with filters
+  protectedRouter.get("/stores/:storeId/inventory-push/movements", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId } = req.params;
+      const {
+        page = "1",
+        limit = "20",
+        status,
+        type,
+        date_from,
+        date_to
+      } = req.query;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
       }
 
-      if (newPassword.length < 8) {
-        return res.status(400).json({ message: "La nueva contraseña debe tener al menos 8 caracteres" });
+      // Get all movements for this store
+      let movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
+
+      // Apply filters
+      if (status && status !== 'all') {
+        movements = movements.filter(m => m.status === status);
+      }
+
+      if (type && type !== 'all') {
+        movements = movements.filter(m => m.movementType === type);
+      }
+
+      if (date_from) {
+        const from = new Date(date_from as string);
+        movements = movements.filter(m => m.createdAt && new Date(m.createdAt) >= from);
+      }
+
+      if (date_to) {
+        const to = new Date(date_to as string);
+        movements = movements.filter(m => m.createdAt && new Date(m.createdAt) <= to);
+      }
+
+      // Pagination
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const offset = (pageNum - 1) * limitNum;
+      const total = movements.length;
+
+      const paginatedMovements = movements.slice(offset, offset + limitNum);
+
+      res.json({
+        movements: paginatedMovements,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          total_pages: Math.ceil(total / limitNum),
+        },
+      });
+    } catch (error: any) {
+      console.error("Error getting movements:", error);
+      res.status(500).json({ message: "Failed to get movements", error: error.message });
+    }
+  });
+
+  // Get single movement details
+  protectedRouter.get("/stores/:storeId/inventory-push/movements/:movementId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, movementId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
+      const movement = movements.find(m => m.id === parseInt(movementId));
+
+      if (!movement) {
+        return res.status(404).json({ message: "Movement not found" });
+      }
+
+      res.json({ movement });
+    } catch (error: any) {
+      console.error("Error getting movement:", error);
+      res.status(500).json({ message: "Failed to get movement", error: error.message });
+    }
+  });
+
+  // Retry a failed movement
+  protectedRouter.post("/stores/:storeId/inventory-push/movements/:movementId/retry", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, movementId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
+      const movement = movements.find(m => m.id === parseInt(movementId));
+
+      if (!movement) {
+        return res.status(404).json({ message: "Movement not found" });
+      }
+
+      if (movement.status !== 'failed') {
+        return res.status(400).json({ message: "Only failed movements can be retried" });
+      }
+
+      // Reset movement to pending with next attempt time
+      await storage.updateMovementStatus(parseInt(movementId), 'pending');
+
+      res.json({
+        success: true,
+        message: "Movement queued for retry"
+      });
+    } catch (error: any) {
+      console.error("Error retrying movement:", error);
+      res.status(500).json({ message: "Failed to retry movement", error: error.message });
+    }
+  });
+
+  // Get invoices generated from paid orders
+  protectedRouter.get("/stores/:storeId/invoices", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId } = req.params;
+      const { page = "1", limit = "20", status } = req.query;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      let invoices = await storage.getOrderInvoicesByStore(parseInt(storeId), 10000);
+
+      if (status && status !== 'all') {
+        invoices = invoices.filter(i => i.status === status);
+      }
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const offset = (pageNum - 1) * limitNum;
+      const total = invoices.length;
+
+      res.json({
+        // El payload (orden normalizada) solo se usa para emitir; no se envía al dashboard
+        invoices: invoices.slice(offset, offset + limitNum).map(({ payload, ...invoice }) => invoice),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          total_pages: Math.ceil(total / limitNum),
+        },
+      });
+    } catch (error: any) {
+      console.error("Error getting invoices:", error);
+      res.status(500).json({ message: "Failed to get invoices", error: error.message });
+    }
+  });
+
+  // Retry a failed invoice
+  protectedRouter.post("/stores/:storeId/invoices/:invoiceId/retry", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, invoiceId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const invoice = await storage.getOrderInvoiceById(parseInt(invoiceId));
+      if (!invoice || invoice.storeId !== store.id) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      if (invoice.status !== 'failed') {
+        return res.status(400).json({ message: "Only failed invoices can be retried" });
+      }
+
+      await InvoiceService.retryInvoice(invoice.id);
+
+      res.json({
+        success: true,
+        message: "Invoice queued for retry"
+      });
+    } catch (error: any) {
+      console.error("Error retrying invoice:", error);
+      res.status(500).json({ message: "Failed to retry invoice", error: error.message });
+    }
+  });
+
+  // Refresh the SRI authorization status of an issued invoice
+  protectedRouter.post("/stores/:storeId/invoices/:invoiceId/refresh", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, invoiceId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const invoice = await storage.getOrderInvoiceById(parseInt(invoiceId));
+      if (!invoice || invoice.storeId !== store.id) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      if (invoice.status !== 'completed') {
+        return res.status(400).json({ message: "Only issued invoices have an authorization status" });
+      }
+
+      const { payload, ...updated } = await InvoiceService.refreshAuthorization(invoice.id);
+
+      res.json({ invoice: updated });
+    } catch (error: any) {
+      console.error("Error refreshing invoice:", error);
+      res.status(500).json({ message: "Failed to refresh invoice", error: error.message });
+    }
+  });
+
+  // Get customers captured from orders (review queue with ?status=review)
+  protectedRouter.get("/stores/:storeId/customers", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId } = req.params;
+      const { status } = req.query;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const customers = await storage.getCustomersByStore(
+        store.id,
+        status && status !== 'all' ? (status as string) : undefined,
+        500,
+      );
+
+      res.json({ customers });
+    } catch (error: any) {
+      console.error("Error getting customers:", error);
+      res.status(500).json({ message: "Failed to get customers", error: error.message });
+    }
+  });
+
+  // Correct the identification (cédula/RUC/passport) of a customer and sync it again
+  protectedRouter.put("/stores/:storeId/customers/:customerId/identification", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, customerId } = req.params;
+      const { identification } = req.body;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const customer = await storage.getCustomerById(parseInt(customerId));
+      if (!customer || customer.storeId !== store.id) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      if (!identification || typeof identification !== 'string') {
+        return res.status(400).json({ message: "identification is required" });
+      }
+
+      const check = checkIdentification(identification);
+      if (!check.valid) {
+        return res.status(400).json({ message: check.error || "Invalid identification" });
+      }
+
+      const updated = await CustomerSyncService.updateIdentification(customer.id, identification);
+
+      res.json({ customer: updated });
+    } catch (error: any) {
+      console.error("Error updating customer identification:", error);
+      res.status(500).json({ message: "Failed to update customer", error: error.message });
+    }
+  });
+
+  // Approve a customer under review as-is (e.g. ERP name mismatch confirmed by the user)
+  protectedRouter.post("/stores/:storeId/customers/:customerId/approve", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = (req as AuthenticatedRequest).user;
+      const { storeId, customerId } = req.params;
+
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
       }
 
-      // Get full user data with password hash
-      const fullUser = await storage.getUser(user.id);
-      if (!fullUser) {
-        return res.status(404).json({ message: "Usuario no encontrado" });
+      const customer = await storage.getCustomerById(parseInt(customerId));
+      if (!customer || customer.storeId !== store.id) {
+        return res.status(404).json({ message: "Customer not found" });
       }
 
-      // Import password functions from auth
-      const { comparePasswords, hashPassword } = await import('./auth');
-
-      // Verify current password
-      const isValid = await comparePasswords(currentPassword, fullUser.passwordHash);
-      if (!isValid) {
-        return res.status(400).json({ message: "La contraseña actual es incorrecta" });
+      if (customer.status !== 'review') {
+        return res.status(400).json({ message: "Only customers under review can be approved" });
       }
 
-      // Hash and update new password
-      const newPasswordHash = await hashPassword(newPassword);
-      await storage.updateUserPassword(user.id, newPasswordHash);
+      const updated = await CustomerSyncService.approveCustomer(customer.id);
 
-      res.json({ message: "Contraseña actualizada exitosamente" });
+      res.json({ customer: updated });
     } catch (error: any) {
-      console.error("Error cambiando contraseña:", error);
-      res.status(500).json({ message: "Error al cambiar contraseña", error: error.message });
+      console.error("Error approving customer:", error);
+      res.status(500).json({ message: "Failed to approve customer", error: error.message });
     }
   });
 
-  // Delete user account
-  protectedRouter.delete("/user/:userId", async (req, res) => {
+  // Retry the ERP sync of a failed customer
+  protectedRouter.post("/stores/:storeId/customers/:customerId/sync", async (req, res) => {
     if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "No autorizado" });
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { userId } = req.params;
+      const { storeId, customerId } = req.params;
 
-      // Only allow users to delete their own account
-      if (user.id !== parseInt(userId)) {
-        return res.status(403).json({ message: "No tienes permiso para eliminar este usuario" });
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
       }
 
-      await storage.deleteUser(parseInt(userId));
+      const customer = await storage.getCustomerById(parseInt(customerId));
+      if (!customer || customer.storeId !== store.id) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
 
-      // Logout the user after deleting account
-      req.logout((err) => {
-        if (err) {
-          console.error("Error logging out after account deletion:", err);
-        }
-      });
+      if (customer.status === 'review') {
+        return res.status(400).json({ message: "Customer is under review; fix or approve it first" });
+      }
 
-      res.json({ message: "Cuenta eliminada exitosamente" });
+      const updated = await CustomerSyncService.syncCustomer(customer.id);
+
+      res.json({ customer: updated });
     } catch (error: any) {
-      console.error("Error eliminando usuario:", error);
-      res.status(500).json({ message: "Error al eliminar usuario", error: error.message });
+      console.error("Error syncing customer:", error);
+      res.status(500).json({ message: "Failed to sync customer", error: error.message });
     }
   });
 
-  // Update tenant information
-  protectedRouter.put("/tenant/:tenantId", async (req, res) => {
+  // Latest stock reconciliation (store vs ERP) with its non-matching SKUs
+  protectedRouter.get("/stores/:storeId/reconciliation", async (req, res) => {
     if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "No autorizado" });
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { tenantId } = req.params;
-      const { name } = req.body;
+      const { storeId } = req.params;
 
-      // Verify tenant belongs to user
-      if (user.tenantId !== parseInt(tenantId)) {
-        return res.status(403).json({ message: "No tienes permiso para actualizar este tenant" });
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
       }
 
-      if (!name) {
-        return res.status(400).json({ message: "El nombre de la empresa es requerido" });
-      }
+      const reconciliation = await storage.getLatestStockReconciliation(store.id);
+      const items = reconciliation?.status === 'completed'
+        ? await storage.getStockReconciliationItems(reconciliation.id)
+        : [];
 
-      const updatedTenant = await storage.updateTenant(parseInt(tenantId), { name });
-      res.json({ tenant: updatedTenant, message: "Empresa actualizada exitosamente" });
+      res.json({ reconciliation: reconciliation || null, items });
     } catch (error: any) {
-      console.error("Error actualizando tenant:", error);
-      res.status(500).json({ message: "Error al actualizar empresa", error: error.message });
+      console.error("Error getting stock reconciliation:", error);
+      res.status(500).json({ message: "Failed to get stock reconciliation", error: error.message });
     }
   });
 
-  // ========================================
-  // INVENTORY PUSH ENDPOINTS
-  // ========================================
-
-  // Get inventory push statistics
-  protectedRouter.get("/stores/:storeId/inventory-push/stats", async (req, res) => {
+  // Start a stock reconciliation (runs in background; poll GET for the result)
+  protectedRouter.post("/stores/:storeId/reconciliation", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
@@ -2696,177 +4265,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      // Get all movements for this store
-      const allMovements = await storage.getMovementsByStore(parseInt(storeId), 10000);
-
-      // Calculate stats
-      const now = new Date();
-      const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-      const pending = allMovements.filter(m => m.status === 'pending').length;
-      const processing = allMovements.filter(m => m.status === 'processing').length;
-      const completed24h = allMovements.filter(
-        m => m.status === 'completed' && m.processedAt && new Date(m.processedAt) >= last24h
-      ).length;
-      const failed24h = allMovements.filter(
-        m => m.status === 'failed' &&
-        m.createdAt && new Date(m.createdAt) >= last24h
-      ).length;
+      const storeIntegrations = await storage.getStoreIntegrations(store.id);
+      const erpIntegration = storeIntegrations.find(
+        (si) => isErpIntegrationType(si.integration?.integrationType),
+      );
+      if (!erpIntegration) {
+        return res.status(400).json({ message: "No ERP integration linked to this store" });
+      }
 
-      const totalLast24h = allMovements.filter(
-        m => m.createdAt && new Date(m.createdAt) >= last24h
-      ).length;
+      if (await StockReconciliationService.getRunningReconciliation(store.id)) {
+        return res.status(409).json({ message: "A reconciliation is already running for this store" });
+      }
 
-      const successRate = totalLast24h > 0
-        ? Math.round((completed24h / totalLast24h) * 100)
-        : 0;
+      const reconciliation = await StockReconciliationService.startReconciliation(
+        store.id,
+        erpIntegration.integrationId,
+      );
 
-      res.json({
-        pending,
-        processing,
-        completed_24h: completed24h,
-        failed_24h: failed24h,
-        success_rate: successRate,
-      });
+      res.status(202).json({ reconciliation });
     } catch (error: any) {
-      console.error("Error getting push stats:", error);
-      res.status(500).json({ message: "Failed to get stats", error: error.message });
+      console.error("Error starting stock reconciliation:", error);
+      res.status(500).json({ message: "Failed to start stock reconciliation", error: error.message });
     }
   });
 
-  // Get inventory push movements with filters
-  protectedRouter.get("/stores/:storeId/inventory-push/movements", async (req, res) => {
+  // Resolve a drifted SKU: 'pull' (store takes ERP stock) or 'adjustment' (ERP movement to match the store)
+  protectedRouter.post("/stores/:storeId/reconciliation/items/:itemId/resolve", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { storeId } = req.params;
-      const {
-        page = "1",
-        limit = "20",
-        status,
-        type,
-        date_from,
-        date_to
-      } = req.query;
+      const { storeId, itemId } = req.params;
+      const { method } = req.body;
+
+      if (method !== 'pull' && method !== 'adjustment') {
+        return res.status(400).json({ message: "method must be 'pull' or 'adjustment'" });
+      }
 
       const store = await storage.getStore(parseInt(storeId));
       if (!store || store.tenantId !== user.tenantId) {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      // Get all movements for this store
-      let movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
-
-      // Apply filters
-      if (status && status !== 'all') {
-        movements = movements.filter(m => m.status === status);
+      const item = await storage.getStockReconciliationItemById(parseInt(itemId));
+      const reconciliation = item
+        ? await storage.getStockReconciliationById(item.reconciliationId)
+        : undefined;
+      if (!item || !reconciliation || reconciliation.storeId !== store.id) {
+        return res.status(404).json({ message: "Reconciliation item not found" });
       }
 
-      if (type && type !== 'all') {
-        movements = movements.filter(m => m.movementType === type);
+      if (item.resolvedAt) {
+        return res.status(400).json({ message: "Item already resolved" });
       }
 
-      if (date_from) {
-        const from = new Date(date_from as string);
-        movements = movements.filter(m => m.createdAt && new Date(m.createdAt) >= from);
+      if (item.status !== 'drift') {
+        return res.status(400).json({ message: "Only drifted SKUs not explained by pending movements can be resolved" });
       }
 
-      if (date_to) {
-        const to = new Date(date_to as string);
-        movements = movements.filter(m => m.createdAt && new Date(m.createdAt) <= to);
+      if (method === 'adjustment') {
+        const storeIntegrations = await storage.getStoreIntegrations(store.id);
+        const link = storeIntegrations.find(si => si.integrationId === reconciliation.integrationId);
+        if (getLocationMappings(link?.syncConfig).length > 0) {
+          return res.status(400).json({ message: "Adjustment movements are not available for stores with location mappings; resolve by pull" });
+        }
+      } else {
+        await QuotaService.assertSyncAvailable(user.tenantId);
       }
 
-      // Pagination
-      const pageNum = parseInt(page as string);
-      const limitNum = parseInt(limit as string);
-      const offset = (pageNum - 1) * limitNum;
-      const total = movements.length;
-
-      const paginatedMovements = movements.slice(offset, offset + limitNum);
+      const resolved = await StockReconciliationService.resolveItem(item, reconciliation, method);
 
-      res.json({
-        movements: paginatedMovements,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          total_pages: Math.ceil(total / limitNum),
-        },
-      });
+      res.json({ item: resolved });
     } catch (error: any) {
-      console.error("Error getting movements:", error);
-      res.status(500).json({ message: "Failed to get movements", error: error.message });
+      console.error("Error resolving reconciliation item:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Failed to resolve reconciliation item", error: error.message });
     }
   });
 
-  // Get single movement details
-  protectedRouter.get("/stores/:storeId/inventory-push/movements/:movementId", async (req, res) => {
+  // ERP products whose SKU does not exist in the store yet (catalog publish)
+  protectedRouter.get("/stores/:storeId/catalog/unpublished", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { storeId, movementId } = req.params;
+      const { storeId } = req.params;
 
       const store = await storage.getStore(parseInt(storeId));
       if (!store || store.tenantId !== user.tenantId) {
         return res.status(404).json({ message: "Store not found" });
       }
 
-      const movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
-      const movement = movements.find(m => m.id === parseInt(movementId));
-
-      if (!movement) {
-        return res.status(404).json({ message: "Movement not found" });
+      const storeIntegrations = await storage.getStoreIntegrations(store.id);
+      const erpLink = storeIntegrations.find(
+        (si) => isErpIntegrationType(si.integration?.integrationType),
+      );
+      const integration = erpLink ? await storage.getIntegration(erpLink.integrationId) : undefined;
+      if (!integration) {
+        return res.status(400).json({ message: "No ERP integration linked to this store" });
       }
 
-      res.json({ movement });
+      const products = await CatalogPublishService.listUnpublished(store, integration);
+
+      res.json({ products });
     } catch (error: any) {
-      console.error("Error getting movement:", error);
-      res.status(500).json({ message: "Failed to get movement", error: error.message });
+      console.error("Error listing unpublished products:", error);
+      res.status(500).json({ message: "Failed to list unpublished products", error: error.message });
     }
   });
 
-  // Retry a failed movement
-  protectedRouter.post("/stores/:storeId/inventory-push/movements/:movementId/retry", async (req, res) => {
+  // Create ERP products in the store (Shopify products / WooCommerce simple products)
+  protectedRouter.post("/stores/:storeId/catalog/publish", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
       const user = (req as AuthenticatedRequest).user;
-      const { storeId, movementId } = req.params;
+      const { storeId } = req.params;
+      const { skus, status = 'draft' } = req.body;
 
-      const store = await storage.getStore(parseInt(storeId));
-      if (!store || store.tenantId !== user.tenantId) {
-        return res.status(404).json({ message: "Store not found" });
+      if (!Array.isArray(skus) || skus.length === 0 || skus.some((sku) => typeof sku !== 'string' || !sku.trim())) {
+        return res.status(400).json({ message: "skus must be a non-empty array of SKUs" });
       }
 
-      const movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
-      const movement = movements.find(m => m.id === parseInt(movementId));
+      if (skus.length > MAX_PUBLISH_BATCH) {
+        return res.status(400).json({ message: `A maximum of ${MAX_PUBLISH_BATCH} products can be published at once` });
+      }
 
-      if (!movement) {
-        return res.status(404).json({ message: "Movement not found" });
+      if (status !== 'draft' && status !== 'active') {
+        return res.status(400).json({ message: "status must be 'draft' or 'active'" });
       }
 
-      if (movement.status !== 'failed') {
-        return res.status(400).json({ message: "Only failed movements can be retried" });
+      const store = await storage.getStore(parseInt(storeId));
+      if (!store || store.tenantId !== user.tenantId) {
+        return res.status(404).json({ message: "Store not found" });
       }
 
-      // Reset movement to pending with next attempt time
-      await storage.updateMovementStatus(parseInt(movementId), 'pending');
+      const storeIntegrations = await storage.getStoreIntegrations(store.id);
+      const erpLink = storeIntegrations.find(
+        (si) => isErpIntegrationType(si.integration?.integrationType),
+      );
+      const integration = erpLink ? await storage.getIntegration(erpLink.integrationId) : undefined;
+      if (!integration) {
+        return res.status(400).json({ message: "No ERP integration linked to this store" });
+      }
 
-      res.json({
-        success: true,
-        message: "Movement queued for retry"
-      });
+      const uniqueSkus = Array.from(new Set<string>(skus.map((sku: string) => sku.trim())));
+      const result = await CatalogPublishService.publishProducts(store, integration, uniqueSkus, status);
+
+      res.json(result);
     } catch (error: any) {
-      console.error("Error retrying movement:", error);
-      res.status(500).json({ message: "Failed to retry movement", error: error.message });
+      console.error("Error publishing catalog products:", error);
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Failed to publish products", error: error.message });
     }
   });
 
@@ -3072,144 +4632,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export movements to Excel
-  protectedRouter.get("/stores/:storeId/inventory-push/movements/export", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    try {
-      const user = (req as AuthenticatedRequest).user;
-      const { storeId } = req.params;
-      const { status, type, date_from, date_to } = req.query;
-
-      const store = await storage.getStore(parseInt(storeId));
-      if (!store || store.tenantId !== user.tenantId) {
-        return res.status(404).json({ message: "Store not found" });
-      }
-
-      // Get movements with same filters
-      let movements = await storage.getMovementsByStore(parseInt(storeId), 10000);
-
-      if (status && status !== 'all') {
-        movements = movements.filter(m => m.status === status);
-      }
-
-      if (type && type !== 'all') {
-        movements = movements.filter(m => m.movementType === type);
-      }
-
-      if (date_from) {
-        const from = new Date(date_from as string);
-        movements = movements.filter(m => m.createdAt && new Date(m.createdAt) >= from);
-      }
-
-      if (date_to) {
-        const to = new Date(date_to as string);
-        movements = movements.filter(m => m.createdAt && new Date(m.createdAt) <= to);
-      }
-
-      // Create Excel workbook
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet('Movimientos');
-
-      // Add headers
-      worksheet.columns = [
-        { header: 'Fecha', key: 'date', width: 20 },
-        { header: 'Orden', key: 'order', width: 15 },
-        { header: 'Tipo', key: 'type', width: 15 },
-        { header: 'SKU', key: 'sku', width: 20 },
-        { header: 'Cantidad', key: 'quantity', width: 10 },
-        { header: 'Estado', key: 'status', width: 15 },
-        { header: 'Intentos', key: 'attempts', width: 10 },
-        { header: 'Error', key: 'error', width: 50 },
-      ];
-
-      // Add data
-      movements.forEach(movement => {
-        worksheet.addRow({
-          date: movement.createdAt ? formatEcuadorDateTime(movement.createdAt) : '',
-          order: movement.orderId || '',
-          type: movement.movementType === 'egreso' ? 'Egreso' : 'Ingreso',
-          sku: movement.sku,
-          quantity: movement.quantity,
-          status: movement.status,
-          attempts: `${movement.attempts}/${movement.maxAttempts}`,
-          error: movement.errorMessage || '',
-        });
-      });
-
-      // Style headers
-      worksheet.getRow(1).font = { bold: true };
-
-      // Generate Excel file
-      const buffer = await workbook.xlsx.writeBuffer();
-
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename=movimientos-push-${store.storeName}-${new Date().toISOString().split('T')[0]}.xlsx`);
-      res.send(buffer);
-    } catch (error: any) {
-      console.error("Error exporting movements:", error);
-      res.status(500).json({ message: "Failed to export movements", error: error.message });
-    }
-  });
-
-  // Export unmapped SKUs to Excel
-  protectedRouter.get("/stores/:storeId/unmapped-skus/export", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    try {
-      const user = (req as AuthenticatedRequest).user;
-      const { storeId } = req.params;
-
-      const store = await storage.getStore(parseInt(storeId));
-      if (!store || store.tenantId !== user.tenantId) {
-        return res.status(404).json({ message: "Store not found" });
-      }
-
-      const unmappedSkus = await storage.getUnmappedSkusByStore(parseInt(storeId), 1000);
-
-      // Create Excel workbook
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet('SKUs sin Mapear');
-
-      // Add headers
-      worksheet.columns = [
-        { header: 'SKU', key: 'sku', width: 20 },
-        { header: 'Producto', key: 'product', width: 40 },
-        { header: 'Ocurrencias', key: 'occurrences', width: 15 },
-        { header: 'Primera vez', key: 'first_seen', width: 20 },
-        { header: 'Última vez', key: 'last_seen', width: 20 },
-      ];
-
-      // Add data
-      unmappedSkus.forEach(sku => {
-        worksheet.addRow({
-          sku: sku.sku,
-          product: sku.productName || '',
-          occurrences: sku.occurrences,
-          first_seen: sku.createdAt ? formatEcuadorDateTime(sku.createdAt) : '',
-          last_seen: sku.lastSeenAt ? formatEcuadorDateTime(sku.lastSeenAt) : '',
-        });
-      });
-
-      // Style headers
-      worksheet.getRow(1).font = { bold: true };
-
-      // Generate Excel file
-      const buffer = await workbook.xlsx.writeBuffer();
-
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename=skus-sin-mapear-${store.storeName}-${new Date().toISOString().split('T')[0]}.xlsx`);
-      res.send(buffer);
-    } catch (error: any) {
-      console.error("Error exporting unmapped SKUs:", error);
-      res.status(500).json({ message: "Failed to export unmapped SKUs", error: error.message });
-    }
-  });
-
   const httpServer = createServer(app);
   return httpServer;
 }
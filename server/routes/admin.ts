@@ -1,11 +1,14 @@
 import { Router, Request } from "express";
 import { storage } from "../storage";
 import { requireAdmin } from "../middleware/requireAdmin";
-import { User, adminActions, tenants, users } from "@shared/schema";
+import { User, Store, Job, adminActions, tenants, users } from "@shared/schema";
 import { db } from "../db";
-import { eq, sql, and, or, like, desc } from "drizzle-orm";
+import { eq, sql, and, or, like, desc, inArray } from "drizzle-orm";
 import { getPlan, PlanType } from "@shared/plans";
 import { formatEcuadorDate } from "../utils/dateFormatters";
+import { toPublicTenant } from "@shared/secrets";
+import type { ShopifyConnector } from "../connectors/ShopifyConnector";
+import type { WooCommerceConnector } from "../connectors/WooCommerceConnector";
 
 const router = Router();
 
@@ -17,6 +20,18 @@ interface AuthenticatedRequest extends Request {
 // All admin routes require admin role
 router.use(requireAdmin);
 
+// Platforms whose webhooks are registered automatically
+const WEBHOOK_PLATFORMS = ["shopify", "woocommerce"];
+
+/**
+ * Webhook-capable connector for a store
+ * Imported dynamically to avoid circular dependencies
+ */
+async function getWebhookConnector(store: Store): Promise<ShopifyConnector | WooCommerceConnector> {
+  const { SyncService } = await import("../services/SyncService");
+  return SyncService.getStoreConnector(store) as ShopifyConnector | WooCommerceConnector;
+}
+
 /**
  * GET /api/admin/stats
  * Get admin dashboard statistics
@@ -174,7 +189,7 @@ router.get("/users", async (req, res) => {
       allTenants.map(async (tenant) => {
         const ownerUser = await storage.getTenantOwnerUser(tenant.id);
         return {
-          ...tenant,
+          ...toPublicTenant(tenant),
           ownerEmail: ownerUser?.email,
           ownerName: ownerUser?.name,
         };
@@ -231,12 +246,14 @@ router.get("/users/:id", async (req, res) => {
       .limit(10);
 
     res.json({
-      tenant,
+      tenant: toPublicTenant(tenant),
       users: tenantUsers.map(u => ({
         id: u.id,
         email: u.email,
         name: u.name,
         role: u.role,
+        tenantRole: u.tenantRole,
+        twoFactorEnabled: !!u.twoFactorEnabledAt,
         createdAt: u.createdAt,
       })),
       stores: stores.length,
@@ -462,6 +479,92 @@ router.put("/users/:tenantId/role/:userId", async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/admin/users/:tenantId/two-factor/:userId/reset
+ * Disable a user's 2FA (lost device and no recovery codes); they set it up again on next login
+ */
+router.put("/users/:tenantId/two-factor/:userId/reset", async (req, res) => {
+  try {
+    const tenantId = parseInt(req.params.tenantId, 10);
+    const userId = parseInt(req.params.userId, 10);
+    const adminUser = (req as AuthenticatedRequest).user;
+
+    const targetUser = await storage.getUser(userId);
+    if (!targetUser || targetUser.tenantId !== tenantId) {
+      return res.status(404).json({ message: "User not found in this tenant" });
+    }
+
+    if (!targetUser.twoFactorEnabledAt) {
+      return res.status(400).json({ message: "User does not have two-factor authentication enabled" });
+    }
+
+    await storage.disableTwoFactor(userId);
+    // Whoever holds the lost device must not keep an open session
+    await storage.deleteUserSessions(userId);
+
+    await storage.createAdminAction({
+      adminUserId: adminUser.id,
+      targetTenantId: tenantId,
+      actionType: "reset_two_factor",
+      description: `Verificación en dos pasos de ${targetUser.email} restablecida por ${adminUser.name}`,
+      metadata: {
+        userId,
+        userEmail: targetUser.email,
+      },
+    });
+
+    res.json({ message: "Two-factor authentication reset successfully" });
+  } catch (error) {
+    console.error("Error resetting two-factor authentication:", error);
+    res.status(500).json({ message: "Failed to reset two-factor authentication" });
+  }
+});
+
+/**
+ * PUT /api/admin/users/:id/two-factor-policy
+ * Override the tenant policy that requires 2FA for all members
+ */
+router.put("/users/:id/two-factor-policy", async (req, res) => {
+  try {
+    const tenantId = parseInt(req.params.id, 10);
+    const adminUser = (req as AuthenticatedRequest).user;
+    const { required } = req.body;
+
+    if (typeof required !== "boolean") {
+      return res.status(400).json({ message: "Invalid policy. 'required' must be a boolean" });
+    }
+
+    const tenant = await storage.getTenant(tenantId);
+    if (!tenant) {
+      return res.status(404).json({ message: "Tenant not found" });
+    }
+
+    const settings = (tenant.settings as Record<string, unknown> | null) || {};
+    const previous = settings.requireTwoFactor === true;
+
+    await storage.updateTenant(tenantId, {
+      name: tenant.name,
+      settings: { ...settings, requireTwoFactor: required },
+    });
+
+    await storage.createAdminAction({
+      adminUserId: adminUser.id,
+      targetTenantId: tenantId,
+      actionType: "change_two_factor_policy",
+      description: `Verificación en dos pasos ${required ? "exigida" : "no exigida"} para ${tenant.name} por ${adminUser.name}`,
+      metadata: {
+        previous,
+        required,
+      },
+    });
+
+    res.json({ message: "Two-factor policy updated successfully", required });
+  } catch (error) {
+    console.error("Error updating two-factor policy:", error);
+    res.status(500).json({ message: "Failed to update two-factor policy" });
+  }
+});
+
 /**
  * PUT /api/admin/users/:id/plan
  * Change tenant's plan
@@ -637,7 +740,7 @@ router.get("/actions", async (req, res) => {
 
 /**
  * GET /api/admin/webhooks/:storeId
- * List all webhooks for a specific store from the platform (Shopify, etc.)
+ * List all webhooks for a specific store from the platform (Shopify, WooCommerce)
  */
 router.get("/webhooks/:storeId", async (req, res) => {
   try {
@@ -648,24 +751,17 @@ router.get("/webhooks/:storeId", async (req, res) => {
       return res.status(404).json({ message: "Store not found" });
     }
 
-    if (store.platform !== "shopify") {
-      return res.status(400).json({ message: "Webhook management only supported for Shopify stores" });
+    if (!WEBHOOK_PLATFORMS.includes(store.platform)) {
+      return res.status(400).json({ message: "Webhook management only supported for Shopify and WooCommerce stores" });
     }
 
-    // Import connector dynamically to avoid circular dependencies
-    const { getConnector } = await import("../connectors/index");
-    const connector = getConnector(store);
-    const shopifyConnector = connector as any;
-
-    if (!shopifyConnector.listWebhooks) {
-      return res.status(400).json({ message: "Store connector does not support webhook listing" });
-    }
+    const connector = await getWebhookConnector(store);
 
-    // Get webhooks from Shopify
-    const result = await shopifyConnector.listWebhooks();
+    // Get webhooks from the platform
+    const result = await connector.listWebhooks();
 
     if (!result.success) {
-      return res.status(500).json({ message: "Failed to fetch webhooks from Shopify", error: result.error });
+      return res.status(500).json({ message: `Failed to fetch webhooks from ${store.platform}`, error: result.error });
     }
 
     // Get webhooks from our database (new table)
@@ -674,11 +770,11 @@ router.get("/webhooks/:storeId", async (req, res) => {
     res.json({
       store: {
         id: store.id,
-        name: store.name,
+        name: store.storeName,
         platform: store.platform,
       },
       webhooks: {
-        live: result.webhooks, // Webhooks actually in Shopify
+        live: result.webhooks, // Webhooks actually in the platform
         database: dbWebhooks, // Webhooks registered in our database table
       },
       orphaned: result.webhooks.filter(
@@ -706,17 +802,14 @@ router.delete("/webhooks/:storeId/:webhookId", async (req, res) => {
       return res.status(404).json({ message: "Store not found" });
     }
 
-    if (store.platform !== "shopify") {
-      return res.status(400).json({ message: "Webhook management only supported for Shopify stores" });
+    if (!WEBHOOK_PLATFORMS.includes(store.platform)) {
+      return res.status(400).json({ message: "Webhook management only supported for Shopify and WooCommerce stores" });
     }
 
-    // Import connector dynamically
-    const { getConnector } = await import("../connectors/index");
-    const connector = getConnector(store);
-    const shopifyConnector = connector as any;
+    const connector = await getWebhookConnector(store);
 
-    // Delete the webhook from Shopify
-    const result = await shopifyConnector.deleteWebhooks([webhookId]);
+    // Delete the webhook from the platform
+    const result = await connector.deleteWebhooks([webhookId]);
 
     if (!result.success && result.deleted === 0) {
       return res.status(500).json({
@@ -726,7 +819,7 @@ router.delete("/webhooks/:storeId/:webhookId", async (req, res) => {
     }
 
     // Mark webhook as deleted in our database
-    const dbWebhook = await storage.getWebhookByPlatformId("shopify", webhookId.toString());
+    const dbWebhook = await storage.getWebhookByPlatformId(store.id, store.platform, webhookId.toString());
     if (dbWebhook) {
       await storage.markWebhookAsDeleted(dbWebhook.id);
     }
@@ -736,11 +829,11 @@ router.delete("/webhooks/:storeId/:webhookId", async (req, res) => {
       adminUserId: adminUser.id,
       targetTenantId: store.tenantId,
       actionType: "delete_webhook",
-      description: `Webhook ${webhookId} eliminado manualmente por ${adminUser.name} de tienda ${store.name}`,
+      description: `Webhook ${webhookId} eliminado manualmente por ${adminUser.name} de tienda ${store.storeName}`,
       metadata: {
         storeId: store.id,
         webhookId,
-        storeName: store.name,
+        storeName: store.storeName,
       },
     });
 
@@ -769,17 +862,14 @@ router.post("/webhooks/:storeId/cleanup", async (req, res) => {
       return res.status(404).json({ message: "Store not found" });
     }
 
-    if (store.platform !== "shopify") {
-      return res.status(400).json({ message: "Webhook cleanup only supported for Shopify stores" });
+    if (!WEBHOOK_PLATFORMS.includes(store.platform)) {
+      return res.status(400).json({ message: "Webhook cleanup only supported for Shopify and WooCommerce stores" });
     }
 
-    // Import connector dynamically
-    const { getConnector } = await import("../connectors/index");
-    const connector = getConnector(store);
-    const shopifyConnector = connector as any;
+    const connector = await getWebhookConnector(store);
 
-    // Get all webhooks from Shopify
-    const listResult = await shopifyConnector.listWebhooks();
+    // Get all webhooks from the platform
+    const listResult = await connector.listWebhooks();
     if (!listResult.success) {
       return res.status(500).json({ message: "Failed to list webhooks", error: listResult.error });
     }
@@ -787,7 +877,7 @@ router.post("/webhooks/:storeId/cleanup", async (req, res) => {
     // Get webhooks from our database
     const dbWebhooks = await storage.getWebhooksByStore(storeId);
 
-    // Find orphaned webhooks (in Shopify but not in our DB)
+    // Find orphaned webhooks (in the platform but not in our DB)
     const orphanedWebhooks = listResult.webhooks.filter(
       (liveWh: any) => !dbWebhooks.find((dbWh: any) => dbWh.platformWebhookId === liveWh.id.toString())
     );
@@ -799,9 +889,9 @@ router.post("/webhooks/:storeId/cleanup", async (req, res) => {
       });
     }
 
-    // Delete all orphaned webhooks from Shopify
+    // Delete all orphaned webhooks from the platform
     const webhookIds = orphanedWebhooks.map((wh: any) => wh.id);
-    const deleteResult = await shopifyConnector.deleteWebhooks(webhookIds);
+    const deleteResult = await connector.deleteWebhooks(webhookIds);
 
     // Note: No need to mark as deleted in DB since they don't exist there (orphaned)
 
@@ -810,10 +900,10 @@ router.post("/webhooks/:storeId/cleanup", async (req, res) => {
       adminUserId: adminUser.id,
       targetTenantId: store.tenantId,
       actionType: "cleanup_webhooks",
-      description: `${deleteResult.deleted} webhooks huérfanos eliminados por ${adminUser.name} de tienda ${store.name}`,
+      description: `${deleteResult.deleted} webhooks huérfanos eliminados por ${adminUser.name} de tienda ${store.storeName}`,
       metadata: {
         storeId: store.id,
-        storeName: store.name,
+        storeName: store.storeName,
         totalOrphaned: orphanedWebhooks.length,
         deleted: deleteResult.deleted,
         errors: deleteResult.errors,
@@ -837,4 +927,94 @@ router.post("/webhooks/:storeId/cleanup", async (req, res) => {
   }
 });
 
+/**
+ * Jobs for the admin queue view, with tenant names and without export file contents
+ */
+async function toAdminJobs(jobList: Job[]) {
+  const tenantIds = Array.from(new Set(jobList.map((job) => job.tenantId).filter((id): id is number => id !== null)));
+  const tenantRows = tenantIds.length > 0
+    ? await db.select({ id: tenants.id, name: tenants.name }).from(tenants).where(inArray(tenants.id, tenantIds))
+    : [];
+  const tenantNames = new Map(tenantRows.map((t) => [t.id, t.name]));
+
+  return jobList.map(({ result, ...job }) => ({
+    ...job,
+    tenantName: job.tenantId ? tenantNames.get(job.tenantId) ?? null : null,
+  }));
+}
+
+/**
+ * GET /api/admin/jobs
+ * Job queue overview: depth per type and status, running jobs, queued jobs and dead jobs
+ */
+router.get("/jobs", async (req, res) => {
+  try {
+    const [stats, running, pending, dead] = await Promise.all([
+      storage.getJobQueueStats(),
+      storage.getJobs({ status: "running", limit: 100 }),
+      storage.getJobs({ status: "pending", limit: 50 }),
+      storage.getJobs({ status: "dead", limit: 50 }),
+    ]);
+
+    res.json({
+      stats,
+      running: await toAdminJobs(running),
+      pending: await toAdminJobs(pending),
+      dead: await toAdminJobs(dead),
+    });
+  } catch (error: any) {
+    console.error("Error fetching job queue:", error);
+    res.status(500).json({ message: "Failed to fetch job queue", error: error.message });
+  }
+});
+
+/**
+ * POST /api/admin/jobs/:id/retry
+ * Re-queue a dead job with its attempts reset
+ */
+router.post("/jobs/:id/retry", async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.id, 10);
+    const adminUser = (req as AuthenticatedRequest).user;
+
+    const existing = await storage.getJob(jobId);
+    if (!existing) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    if (existing.status !== "dead") {
+      return res.status(400).json({ message: "Only dead jobs can be retried" });
+    }
+
+    let job;
+    try {
+      job = await storage.retryJob(jobId);
+    } catch (error: any) {
+      // 23505: another pending/running job already has the same dedupe key
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "An equivalent job is already queued or running" });
+      }
+      throw error;
+    }
+
+    await storage.createAdminAction({
+      adminUserId: adminUser.id,
+      targetTenantId: existing.tenantId,
+      actionType: "retry_job",
+      description: `Trabajo ${existing.id} (${existing.type}) reencolado por ${adminUser.name}`,
+      metadata: {
+        jobId: existing.id,
+        type: existing.type,
+        attempts: existing.attempts,
+        lastError: existing.lastError,
+      },
+    });
+
+    res.json({ message: "Job re-queued", job });
+  } catch (error: any) {
+    console.error("Error retrying job:", error);
+    res.status(500).json({ message: "Failed to retry job", error: error.message });
+  }
+});
+
 export default router;
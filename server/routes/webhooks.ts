@@ -4,7 +4,13 @@ import { storage } from "../storage";
 import {
   InventoryPushService,
   WebhookEventData,
+  WebhookLineItem,
 } from "../services/inventoryPushService";
+import { InvoiceService, InvoiceOrderData, InvoiceOrderLine } from "../services/invoiceService";
+import { CustomerSyncService, CustomerIdentity } from "../services/customerSyncService";
+import type { Customer, Integration, Store } from "@shared/schema";
+import { isErpIntegrationType } from "../connectors/erp/registry";
+import { getInvoicingConfig } from "@shared/invoicing";
 
 const router = Router();
 import { webhookLimiter } from "../middleware/rateLimiter";
@@ -36,6 +42,27 @@ function verifyShopifyHMAC(req: Request, secret: string): boolean {
   return hmacHeader === hash;
 }
 
+/**
+ * Evento de inventario de un webhook de WooCommerce
+ * Los webhooks registrados automáticamente (order.created / order.updated) llevan el
+ * estado de la orden en el payload: completed, cancelled o refunded
+ * Se mantiene el header x-wc-webhook-event con el evento directo (webhooks manuales)
+ */
+function resolveWooCommerceEvent(req: Request): string {
+  const event = req.headers["x-wc-webhook-event"] as string;
+  if (event?.startsWith("order.")) {
+    return event;
+  }
+
+  const topic = req.headers["x-wc-webhook-topic"] as string;
+  const status = req.body?.status;
+  if ((topic === "order.created" || topic === "order.updated") && typeof status === "string") {
+    return `order.${status}`;
+  }
+
+  return topic || event;
+}
+
 /**
  * Verifica la firma de WooCommerce
  * @param req - Request object
@@ -63,27 +90,252 @@ function verifyWooCommerceSignature(req: Request, secret: string): boolean {
   return signature === hash;
 }
 
+/**
+ * Ubicación de despacho de cada line item de una orden de Shopify
+ * Prioridad: fulfillment que incluye el item → ubicación de la orden (POS)
+ * @returns Mapa line_item_id → location_id
+ */
+function getShopifyFulfillmentLocations(payload: any): Map<string, string> {
+  const locations = new Map<string, string>();
+  const fulfillments = Array.isArray(payload.fulfillments) ? payload.fulfillments : [];
+
+  for (const fulfillment of fulfillments) {
+    if (!fulfillment.location_id) continue;
+    for (const item of fulfillment.line_items || []) {
+      if (item.id && !locations.has(item.id.toString())) {
+        locations.set(item.id.toString(), fulfillment.location_id.toString());
+      }
+    }
+  }
+
+  return locations;
+}
+
 /**
  * Extrae line items de un webhook de Shopify
  * @param payload - Payload del webhook
  * @returns Array de line items
  */
-function extractShopifyLineItems(payload: any): {
-  sku: string;
-  quantity: number;
-  productName?: string;
-}[] {
+function extractShopifyLineItems(payload: any): WebhookLineItem[] {
   const lineItems = payload.line_items || [];
+  const fulfillmentLocations = getShopifyFulfillmentLocations(payload);
+  const orderLocationId = payload.location_id?.toString();
 
   return lineItems
     .map((item: any) => ({
       sku: item.sku || item.variant_id?.toString(),
       quantity: item.quantity || 1,
       productName: item.name || item.title,
+      lineItemId: item.id?.toString(),
+      locationId: fulfillmentLocations.get(item.id?.toString()) || orderLocationId,
     }))
     .filter((item: any) => item.sku); // Solo items con SKU
 }
 
+/**
+ * Porcentaje de IVA de una línea de Shopify (tax_lines[].rate viene como fracción: 0.15)
+ */
+function getShopifyTaxRate(item: any): number {
+  if (item.taxable === false) return 0;
+  const rate = (item.tax_lines || []).reduce((sum: number, tax: any) => sum + (Number(tax.rate) || 0), 0);
+  return Math.round(rate * 10000) / 100;
+}
+
+/**
+ * Nombres de los campos de checkout donde los clientes escriben su cédula/RUC
+ * (atributos de orden en Shopify, meta_data en WooCommerce: "Cédula", "_billing_ruc", "billing_identificacion"...)
+ * Palabra completa (separada por espacios, guiones o "_"): "instrucciones" no es un RUC
+ */
+const IDENTIFICATION_FIELD_PATTERN = /(?<![a-z0-9])(c[eé]dula|ruc|identificaci[oó]n|documento|dni)(?![a-z0-9])/i;
+
+/**
+ * Identificación escrita en un campo de checkout, o en la empresa de facturación si solo tiene dígitos
+ */
+function findCustomerIdentification(
+  fields: Array<{ name: string; value: any }>,
+  company: string | null | undefined,
+): string | null {
+  const field = fields.find((f) => IDENTIFICATION_FIELD_PATTERN.test(f.name || "") && f.value);
+  if (field) {
+    return field.value.toString().trim();
+  }
+
+  const companyValue = company?.toString().trim();
+  return companyValue && /^\d{10}(\d{3})?$/.test(companyValue) ? companyValue : null;
+}
+
+/**
+ * Identidad de facturación de una orden de Shopify
+ * Shopify no tiene un campo de identificación: se busca en los atributos de la orden
+ */
+function extractShopifyCustomer(payload: any): CustomerIdentity {
+  const billing = payload.billing_address || {};
+  const customer = payload.customer || {};
+  const attributes = Array.isArray(payload.note_attributes) ? payload.note_attributes : [];
+
+  return {
+    externalId: customer.id?.toString() || null,
+    name: billing.name || [customer.first_name, customer.last_name].filter(Boolean).join(" ") || "",
+    email: payload.email || customer.email || undefined,
+    phone: billing.phone || payload.phone || customer.phone || undefined,
+    address: [billing.address1, billing.address2, billing.city].filter(Boolean).join(", ") || undefined,
+    identification: findCustomerIdentification(
+      attributes.map((a: any) => ({ name: a?.name, value: a?.value })),
+      billing.company,
+    ),
+  };
+}
+
+/**
+ * Identidad de facturación de una orden de WooCommerce (billing + meta_data de campos de checkout)
+ */
+function extractWooCommerceCustomer(payload: any): CustomerIdentity {
+  const billing = payload.billing || {};
+  const metaData = Array.isArray(payload.meta_data) ? payload.meta_data : [];
+  const customerId = payload.customer_id && payload.customer_id !== 0 ? payload.customer_id.toString() : null;
+
+  return {
+    externalId: customerId,
+    name: [billing.first_name, billing.last_name].filter(Boolean).join(" ") || billing.company || "",
+    email: billing.email || undefined,
+    phone: billing.phone || undefined,
+    address: [billing.address_1, billing.address_2, billing.city].filter(Boolean).join(", ") || undefined,
+    identification: findCustomerIdentification(
+      metaData.map((m: any) => ({ name: m?.key, value: typeof m?.value === "string" ? m.value : null })),
+      billing.company,
+    ),
+  };
+}
+
+/**
+ * Captura el cliente de la orden para sincronizarlo con el ERP
+ * Un error aquí no debe impedir encolar movimientos ni facturas
+ */
+async function captureOrderCustomer(
+  store: Store,
+  integration: Integration | null | undefined,
+  orderId: string,
+  orderNumber: string,
+  orderTotal: number,
+  identity: CustomerIdentity,
+): Promise<Customer | null> {
+  if (!integration) {
+    return null;
+  }
+
+  try {
+    return await CustomerSyncService.captureFromOrder({
+      tenantId: store.tenantId,
+      storeId: store.id,
+      integration,
+      orderId,
+      orderNumber,
+      orderTotal,
+      customer: identity,
+    });
+  } catch (error: any) {
+    console.error(`[Webhook] ⚠️ No se pudo capturar el cliente de la orden ${orderId}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Construye la orden a facturar desde el payload de orders/paid
+ */
+function extractShopifyInvoiceOrder(payload: any): InvoiceOrderData {
+  const { externalId, ...customer } = extractShopifyCustomer(payload);
+  const discountOf = (item: any) =>
+    Array.isArray(item.discount_allocations) && item.discount_allocations.length > 0
+      ? item.discount_allocations.reduce((sum: number, d: any) => sum + (Number(d.amount) || 0), 0)
+      : Number(item.total_discount) || 0;
+
+  const lines: InvoiceOrderLine[] = (payload.line_items || [])
+    .filter((item: any) => (item.quantity || 0) > 0)
+    .map((item: any) => ({
+      sku: item.sku || null,
+      title: item.name || item.title,
+      quantity: item.quantity,
+      unitPrice: Number(item.price) || 0,
+      discount: discountOf(item),
+      taxRate: getShopifyTaxRate(item),
+    }));
+
+  const shipping: InvoiceOrderLine[] = (payload.shipping_lines || []).map((line: any) => ({
+    sku: null,
+    title: line.title || "Envío",
+    quantity: 1,
+    unitPrice: Number(line.price) || 0,
+    discount: discountOf(line),
+    taxRate: getShopifyTaxRate(line),
+  }));
+
+  return {
+    orderNumber: payload.name || `#${payload.order_number || payload.id}`,
+    currency: payload.currency,
+    taxesIncluded: payload.taxes_included === true,
+    customer,
+    lines,
+    shipping,
+    total: Number(payload.total_price) || 0,
+  };
+}
+
+/**
+ * Tipos de restock de Shopify que devuelven unidades al inventario
+ * ('no_restock' solo reembolsa dinero)
+ */
+const SHOPIFY_RESTOCK_TYPES = ["return", "cancel", "legacy_restock"];
+
+/**
+ * Extrae los items reingresados al inventario de un reembolso de Shopify
+ * Usa refund_line_items (cantidad reembolsada y restock_type), no los line_items de la orden,
+ * y agrupa por SKU y ubicación de reingreso. Cada reembolso lleva su propia clave de idempotencia para que varios
+ * reembolsos parciales de la misma orden no colisionen.
+ * @param refund - Objeto refund (payload de refunds/create o elemento de order.refunds)
+ * @returns Array de line items con la cantidad reingresada
+ */
+function extractShopifyRefundLineItems(refund: any): WebhookLineItem[] {
+  const refundId = refund.id?.toString();
+  const refundLineItems = refund.refund_line_items || [];
+  const itemsBySku = new Map<string, WebhookLineItem>();
+
+  for (const refundItem of refundLineItems) {
+    // Reembolsos antiguos no traen restock_type, solo el flag restock a nivel de reembolso
+    const restocked = refundItem.restock_type
+      ? SHOPIFY_RESTOCK_TYPES.includes(refundItem.restock_type)
+      : refund.restock === true;
+
+    const lineItem = refundItem.line_item || {};
+    const sku = lineItem.sku || lineItem.variant_id?.toString();
+    const quantity = Number(refundItem.quantity) || 0;
+    const locationId = refundItem.location_id?.toString();
+
+    if (!restocked || !sku || quantity <= 0) {
+      continue;
+    }
+
+    // Agrupar por SKU y ubicación de reingreso (cada una puede ir a otra bodega)
+    const groupKey = `${sku}@${locationId || ''}`;
+    const existing = itemsBySku.get(groupKey);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      itemsBySku.set(groupKey, {
+        sku,
+        quantity,
+        productName: lineItem.name || lineItem.title,
+        idempotencyKey: refundId
+          ? `shopify-refund:${refundId}${locationId ? `:${locationId}` : ''}`
+          : undefined,
+        refundId,
+        locationId,
+      });
+    }
+  }
+
+  return Array.from(itemsBySku.values());
+}
+
 /**
  * Extrae line items de un webhook de WooCommerce
  * @param payload - Payload del webhook
@@ -109,8 +361,8 @@ function extractWooCommerceLineItems(payload: any): {
  * Webhook endpoint para Shopify
  * Eventos soportados:
  * - orders/create: Orden creada (egreso)
- * - orders/cancelled: Orden cancelada (ingreso)
- * - refunds/create: Reembolso creado (ingreso)
+ * - orders/cancelled: Orden cancelada (ingreso de lo reingresado en sus reembolsos)
+ * - refunds/create: Reembolso creado (ingreso solo de las cantidades con restock)
  */
 router.post("/shopify/:storeId", webhookLimiter, async (req: Request, res: Response) => {
   try {
@@ -130,8 +382,9 @@ router.post("/shopify/:storeId", webhookLimiter, async (req: Request, res: Respo
     // - Las órdenes actualizan el inventario vía orders/create (para egresos) y orders/cancelled (para ingresos)
     // - inventory_levels/update podría causar doble conteo si se procesa junto con eventos de órdenes
     // - Para soportar en el futuro: implementar sistema de deltas con snapshots de stock por ubicación
-    const supportedEvents = ["orders/create", "orders/cancelled", "refunds/create"];
-    const ignoredEvents = ["orders/paid", "orders/updated"]; // Ignorados para evitar duplicados
+    // - orders/paid no genera movimientos: solo encola la factura (si la facturación está activa)
+    const supportedEvents = ["orders/create", "orders/cancelled", "refunds/create", "orders/paid"];
+    const ignoredEvents = ["orders/updated"]; // Ignorado para evitar duplicados
 
     if (!supportedEvents.includes(topic)) {
       // Logging estructurado para eventos no soportados (telemetría)
@@ -173,7 +426,7 @@ router.post("/shopify/:storeId", webhookLimiter, async (req: Request, res: Respo
     // Obtener integración de Contífico
     const storeIntegrations = await storage.getStoreIntegrations(store.id);
     const contificoIntegration = storeIntegrations.find(
-      (si) => si.integration?.integrationType === "contifico",
+      (si) => isErpIntegrationType(si.integration?.integrationType),
     );
 
     if (!contificoIntegration) {
@@ -186,24 +439,82 @@ router.post("/shopify/:storeId", webhookLimiter, async (req: Request, res: Respo
     }
 
     // Extraer datos del payload
+    // En refunds/create el payload es el reembolso: payload.id es el ID del reembolso
     const payload = req.body;
-    const orderId = payload.id?.toString() || payload.order_id?.toString();
+    const orderId = topic === "refunds/create"
+      ? payload.order_id?.toString()
+      : payload.id?.toString() || payload.order_id?.toString();
 
     if (!orderId) {
       console.error(`[Webhook][Shopify] No se encontró ID de orden en el payload`);
       return res.status(400).json({ error: "Order ID not found in payload" });
     }
 
+    // Cliente de la orden (identidad de facturación) → persona en el ERP
+    const customer = topic === "orders/create" || topic === "orders/paid"
+      ? await captureOrderCustomer(
+          store,
+          contificoIntegration.integration,
+          orderId,
+          payload.name || `#${payload.order_number || orderId}`,
+          Number(payload.total_price) || 0,
+          extractShopifyCustomer(payload),
+        )
+      : null;
+
+    // Orden pagada → factura en el ERP
+    if (topic === "orders/paid") {
+      if (!getInvoicingConfig(contificoIntegration.syncConfig).enabled) {
+        console.log(`[Webhook][Shopify] ℹ️ orders/paid ignorado: facturación desactivada para tienda ${storeId}`);
+        return res.status(200).json({ message: "Invoicing disabled, ignored" });
+      }
+
+      const invoice = await InvoiceService.queueInvoiceFromWebhook({
+        storeId: store.id,
+        integrationId: contificoIntegration.integrationId,
+        tenantId: store.tenantId,
+        orderId,
+        customerId: customer?.id ?? null,
+        order: extractShopifyInvoiceOrder(payload),
+        metadata: {
+          shopifyOrderNumber: payload.order_number,
+          customerEmail: payload.email,
+        },
+      });
+
+      return res.status(200).json({
+        success: true,
+        invoiceQueued: !!invoice,
+        orderId,
+      });
+    }
+
     // Extraer line items
-    const lineItems = extractShopifyLineItems(payload);
+    // - refunds/create: solo lo reingresado en ese reembolso
+    // - orders/cancelled: lo reingresado en los reembolsos de la orden (misma clave por reembolso,
+    //   así no se duplica con refunds/create). Sin reembolsos se usa la orden completa (legacy, sin
+    //   clave: un refunds/create posterior de la misma orden se detecta como duplicado)
+    let lineItems: WebhookLineItem[];
+    const orderRefunds = Array.isArray(payload.refunds) ? payload.refunds : [];
+
+    if (topic === "refunds/create") {
+      lineItems = extractShopifyRefundLineItems(payload);
+    } else if (topic === "orders/cancelled" && orderRefunds.length > 0) {
+      lineItems = orderRefunds.flatMap((refund: any) => extractShopifyRefundLineItems(refund));
+    } else {
+      lineItems = extractShopifyLineItems(payload);
+    }
 
     if (lineItems.length === 0) {
+      const reason = topic === "refunds/create" || orderRefunds.length > 0
+        ? "sin unidades reingresadas al inventario"
+        : "sin items con SKU";
       console.log(
-        `[Webhook][Shopify] No se encontraron items con SKU en orden ${orderId}`,
+        `[Webhook][Shopify] Orden ${orderId} ${reason}, ignorando`,
       );
       return res
         .status(200)
-        .json({ message: "No items with SKU found, ignored" });
+        .json({ message: "No restocked items with SKU found, ignored" });
     }
 
     // Crear datos del evento
@@ -218,6 +529,7 @@ router.post("/shopify/:storeId", webhookLimiter, async (req: Request, res: Respo
         shopifyOrderNumber: payload.order_number,
         shopifyOrderName: payload.name,
         customerEmail: payload.email,
+        ...(topic === "refunds/create" && { shopifyRefundId: payload.id?.toString() }),
       },
     };
 
@@ -250,7 +562,7 @@ router.post("/shopify/:storeId", webhookLimiter, async (req: Request, res: Respo
 router.post("/woocommerce/:storeId", webhookLimiter, async (req: Request, res: Response) => {
   try {
     const { storeId } = req.params;
-    const event = req.headers["x-wc-webhook-event"] as string;
+    const event = resolveWooCommerceEvent(req);
 
     console.log(
       `[Webhook][WooCommerce] Recibido evento: ${event} para tienda ${storeId}`,
@@ -297,7 +609,7 @@ router.post("/woocommerce/:storeId", webhookLimiter, async (req: Request, res: R
     // Obtener integración de Contífico
     const storeIntegrations = await storage.getStoreIntegrations(store.id);
     const contificoIntegration = storeIntegrations.find(
-      (si) => si.integration?.integrationType === "contifico",
+      (si) => isErpIntegrationType(si.integration?.integrationType),
     );
 
     if (!contificoIntegration) {
@@ -320,6 +632,18 @@ router.post("/woocommerce/:storeId", webhookLimiter, async (req: Request, res: R
       return res.status(400).json({ error: "Order ID not found in payload" });
     }
 
+    // Cliente de la orden completada (identidad de facturación) → persona en el ERP
+    if (event === "order.completed") {
+      await captureOrderCustomer(
+        store,
+        contificoIntegration.integration,
+        orderId,
+        `#${payload.number || orderId}`,
+        Number(payload.total) || 0,
+        extractWooCommerceCustomer(payload),
+      );
+    }
+
     // Extraer line items
     const lineItems = extractWooCommerceLineItems(payload);
 
@@ -403,7 +727,7 @@ router.post("/shopify/:storeId/test", async (req: Request, res: Response) => {
     console.log(`[Webhook][Test] Estructura:`, JSON.stringify(storeIntegrations, null, 2));
 
     const contificoIntegration = storeIntegrations.find(
-      (si) => si.integration?.integrationType === "contifico",
+      (si) => isErpIntegrationType(si.integration?.integrationType),
     );
 
     if (!contificoIntegration) {
@@ -1,67 +1,60 @@
 import { storage } from './storage';
-import { SyncService } from './services/SyncService';
+import { JobQueue } from './services/jobQueue';
+import { QuotaService, QuotaExceededError } from './services/QuotaService';
 import { formatEcuadorDateTime } from './utils/dateFormatters';
+import type { LocationWarehouseMapping } from '@shared/location-mappings';
+import { isErpIntegrationType } from './connectors/erp/registry';
+import {
+  DEFAULT_TIMEZONE,
+  cronMatchesBetween,
+  getScheduleConfig,
+  getZonedParts,
+  isScheduleOpen,
+  isWithinActiveHours,
+  parseCron,
+  type ScheduleConfig,
+  type SyncSchedule,
+  type ZonedDateParts,
+} from '@shared/sync-schedules';
 
 interface SyncConfig {
   pull?: {
     enabled?: boolean;
     interval?: '5min' | '30min' | 'hourly' | 'daily' | 'weekly';
     warehouse?: string;
+    locationMappings?: LocationWarehouseMapping[];
   };
-  schedule?: {
-    activeHours?: {
-      start: string; // "HH:mm"
-      end: string;   // "HH:mm"
-    };
-    timezone?: string;
-  };
+  schedule?: Partial<ScheduleConfig>;
 }
 
-export class Scheduler {
-  private intervalId: NodeJS.Timeout | null = null;
-  private isRunning = false;
-
-  /**
-   * Start the scheduler - runs every 5 minutes to support all intervals
-   */
-  start() {
-    if (this.intervalId) {
-      console.log('[Scheduler] Ya está ejecutándose');
-      return;
-    }
-
-    console.log('[Scheduler] Iniciando scheduler - se ejecutará cada 5 minutos');
-
-    // Run immediately on start
-    this.runScheduledSyncs();
-
-    // Then run every 5 minutes (to support the smallest interval)
-    this.intervalId = setInterval(() => {
-      this.runScheduledSyncs();
-    }, 5 * 60 * 1000); // 5 minutos en milisegundos
-  }
+/**
+ * Ventana de tiempo evaluada en cada ciclo: (from, to]
+ */
+interface TickWindow {
+  from: Date;
+  to: Date;
+}
 
-  /**
-   * Stop the scheduler
-   */
-  stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-      console.log('[Scheduler] Scheduler detenido');
-    }
-  }
+// Máximo retroceso al evaluar expresiones cron (p. ej. tras un ciclo muy largo)
+const MAX_TICK_WINDOW_MS = 24 * 60 * 60 * 1000;
 
+export class Scheduler {
   /**
-   * Run all scheduled syncs
+   * Un ciclo del programador (trabajo recurrente scheduler_tick, cada minuto)
+   * Evalúa las programaciones de todas las tiendas y encola los Pull que tocan
+   * @param from - Fin de la ventana del ciclo anterior (null = último minuto)
    */
-  private async runScheduledSyncs() {
-    if (this.isRunning) {
-      console.log('[Scheduler] Ya hay una ejecución en progreso, saltando...');
-      return;
-    }
+  async runTick(from: Date | null): Promise<{ windowEnd: string; queued: number }> {
+    // Minutos evaluados desde el último ciclo (ninguna programación se pierde si un ciclo se retrasa)
+    const now = new Date();
+    const window: TickWindow = {
+      from: from && now.getTime() - from.getTime() < MAX_TICK_WINDOW_MS
+        ? from
+        : new Date(now.getTime() - 60 * 1000),
+      to: now,
+    };
+    let queued = 0;
 
-    this.isRunning = true;
     console.log('[Scheduler] ========================================');
     console.log(`[Scheduler] Ejecutando sincronizaciones programadas - ${formatEcuadorDateTime(new Date())}`);
     console.log('[Scheduler] ========================================');
@@ -83,29 +76,44 @@ export class Scheduler {
           continue;
         }
 
+        // Skip tenants that exhausted their monthly sync quota
+        try {
+          await QuotaService.assertSyncAvailable(tenant);
+        } catch (error: any) {
+          if (error instanceof QuotaExceededError) {
+            console.log(`[Scheduler] ⏸️  Tenant ${tenant.id} (${tenant.name}) - cuota mensual de sincronizaciones agotada (${error.used}/${error.limit})`);
+            continue;
+          }
+          throw error;
+        }
+
         const stores = await storage.getStoresByTenant(tenant.id);
 
         for (const store of stores) {
           try {
-            await this.processStore(store, tenant);
+            queued += await this.processStore(store, tenant, window);
           } catch (error: any) {
             console.error(`[Scheduler] Error procesando store ${store.id}:`, error.message);
           }
         }
       }
 
-      console.log('[Scheduler] ✅ Ejecución de sincronizaciones completada');
+      console.log(`[Scheduler] ✅ Ejecución de sincronizaciones completada (${queued} encoladas)`);
     } catch (error: any) {
-      console.error('[Scheduler] ❌ Error en runScheduledSyncs:', error.message);
-    } finally {
-      this.isRunning = false;
+      console.error('[Scheduler] ❌ Error en runTick:', error.message);
+      throw error;
     }
+
+    return { windowEnd: window.to.toISOString(), queued };
   }
 
   /**
-   * Process a single store - check if sync should run
+   * Process a single store - enqueue the pulls that are due
+   * @returns Pull jobs enqueued
    */
-  private async processStore(store: any, tenant: any) {
+  private async processStore(store: any, tenant: any, window: TickWindow): Promise<number> {
+    let queued = 0;
+
     // Get store integrations
     const storeIntegrations = await storage.getStoreIntegrations(store.id);
 
@@ -123,103 +131,98 @@ export class Scheduler {
 
       // Get integration details
       const integration = await storage.getIntegration(link.integrationId);
-      if (!integration || integration.integrationType !== 'contifico') {
+      if (!integration || !isErpIntegrationType(integration.integrationType)) {
         continue;
       }
 
-      // Check if we're within active hours (if configured)
-      if (!this.isWithinActiveHours(syncConfig)) {
-        console.log(`[Scheduler] Store ${store.id} fuera de horario activo, saltando...`);
-        continue;
-      }
+      // Horas evaluadas en la zona horaria de la programación o del tenant
+      const scheduleConfig = getScheduleConfig(syncConfig);
+      const timezone = scheduleConfig.timezone || tenant.timezone || DEFAULT_TIMEZONE;
 
-      // Check if sync should run based on interval
-      if (!this.shouldRunSync(store, syncConfig)) {
+      // Con programaciones cron se ignora el intervalo fijo (pull.interval)
+      // Fechas bloqueadas y horario activo se evalúan en cada minuto de la ventana que coincide
+      let dueSchedule: SyncSchedule | null = null;
+      if (scheduleConfig.schedules.length > 0) {
+        dueSchedule = this.findDueSchedule(store, scheduleConfig, window, timezone);
+        if (!dueSchedule) {
+          continue;
+        }
+      } else if (!this.isIntervalOpen(store, scheduleConfig, getZonedParts(window.to, timezone))) {
+        continue;
+      } else if (!this.shouldRunSync(store, syncConfig)) {
         console.log(`[Scheduler] Store ${store.id} no necesita sincronización aún según intervalo`);
         continue;
       }
 
-      // Run the sync
-      console.log(`[Scheduler] 🚀 Iniciando sincronización automática para store ${store.id} (${store.storeName})`);
-
-      try {
-        const result = await SyncService.pullFromIntegration(
-          store.id,
-          integration.id,
-          { dryRun: false } // Sin límite - sincronizar TODOS los productos
-        );
-
-        console.log(`[Scheduler] ✅ Sincronización completada para store ${store.id}`);
-        console.log(`[Scheduler]    - Éxitos: ${result.success}`);
-        console.log(`[Scheduler]    - Fallidos: ${result.failed}`);
-        console.log(`[Scheduler]    - Omitidos: ${result.skipped}`);
-
-        // Check if there were significant failures that warrant a notification
-        if (result.failed > 0 && result.failed >= result.success) {
-          // More failures than successes - create error notification
-          await storage.createNotification({
-            tenantId: tenant.id,
-            userId: null,
-            storeId: store.id,
-            type: 'sync_failure',
-            title: 'Sincronización automática con errores',
-            message: `La sincronización automática falló para ${result.failed} productos de ${result.failed + result.success} total. Revisa los logs para más detalles.`,
-            severity: 'error',
-            read: false,
-            data: {
-              syncType: 'pull',
-              success: result.success,
-              failed: result.failed,
-              skipped: result.skipped,
-              automated: true,
-            },
-          });
-        }
-      } catch (error: any) {
-        console.error(`[Scheduler] ❌ Error en sincronización de store ${store.id}:`, error.message);
-
-        // Create error notification
-        await storage.createNotification({
-          tenantId: tenant.id,
-          userId: null,
+      // El Pull corre en la cola de trabajos (si ya hay uno pendiente para la tienda no se duplica)
+      // Cada programación define su tipo de Pull; el intervalo fijo decide según syncConfig.pull.delta
+      const job = await JobQueue.enqueuePull(
+        {
           storeId: store.id,
-          type: 'sync_failure',
-          title: 'Error en sincronización automática',
-          message: `La sincronización automática falló completamente: ${error.message}`,
-          severity: 'error',
-          read: false,
-          data: {
-            syncType: 'pull',
-            error: error.message,
-            automated: true,
-          },
-        });
-      }
+          integrationId: integration.id,
+          mode: dueSchedule?.mode ?? 'auto',
+          trigger: 'schedule',
+          scheduleName: dueSchedule?.name || dueSchedule?.cron,
+        },
+        tenant.id,
+      );
+      queued++;
+
+      console.log(
+        `[Scheduler] 🚀 Pull automático encolado para store ${store.id} (${store.storeName}) - trabajo ${job.id}` +
+        (dueSchedule ? ` - programación "${dueSchedule.name || dueSchedule.cron}"` : ''),
+      );
     }
+
+    return queued;
   }
 
   /**
-   * Check if current time is within configured active hours
+   * Intervalo fijo: fechas bloqueadas y horario activo evaluados al final de la ventana
    */
-  private isWithinActiveHours(syncConfig: SyncConfig): boolean {
-    if (!syncConfig.schedule?.activeHours) {
-      return true; // No restrictions
+  private isIntervalOpen(store: any, scheduleConfig: ScheduleConfig, localNow: ZonedDateParts): boolean {
+    // Fechas bloqueadas: sin sincronizaciones automáticas ese día
+    if (scheduleConfig.blackoutDates.includes(localNow.date)) {
+      console.log(`[Scheduler] Store ${store.id} - ${localNow.date} es una fecha bloqueada, saltando...`);
+      return false;
     }
 
-    const now = new Date();
-    const currentHours = now.getHours();
-    const currentMinutes = now.getMinutes();
-    const currentTime = currentHours * 60 + currentMinutes;
+    // Check if we're within active hours (if configured)
+    if (!isWithinActiveHours(scheduleConfig, localNow)) {
+      console.log(`[Scheduler] Store ${store.id} fuera de horario activo, saltando...`);
+      return false;
+    }
 
-    const { start, end } = syncConfig.schedule.activeHours;
+    return true;
+  }
 
-    const [startHours, startMinutes] = start.split(':').map(Number);
-    const startTime = startHours * 60 + startMinutes;
+  /**
+   * Primera programación activa con un minuto en la ventana del ciclo que no cae en una
+   * fecha bloqueada ni fuera del horario activo
+   */
+  private findDueSchedule(
+    store: any,
+    scheduleConfig: ScheduleConfig,
+    window: TickWindow,
+    timezone: string,
+  ): SyncSchedule | null {
+    const isAllowed = (parts: ZonedDateParts) => isScheduleOpen(scheduleConfig, parts);
+
+    for (const schedule of scheduleConfig.schedules) {
+      if (!schedule.enabled) {
+        continue;
+      }
 
-    const [endHours, endMinutes] = end.split(':').map(Number);
-    const endTime = endHours * 60 + endMinutes;
+      try {
+        if (cronMatchesBetween(parseCron(schedule.cron), window.from, window.to, timezone, isAllowed)) {
+          return schedule;
+        }
+      } catch (error: any) {
+        console.warn(`[Scheduler] Store ${store.id} - programación "${schedule.cron}" inválida: ${error.message}`);
+      }
+    }
 
-    return currentTime >= startTime && currentTime <= endTime;
+    return null;
   }
 
   /**
@@ -0,0 +1,218 @@
+import { storage } from '../storage';
+import { getPlanById, getPlanLimits, PlanLimits } from '@shared/plans-config';
+import type { Tenant } from '@shared/schema';
+
+export type QuotaResource = keyof PlanLimits;
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null; // null = ilimitado (Infinity no es serializable en JSON)
+  remaining: number | null;
+  percentage: number;
+}
+
+export interface TenantUsage {
+  planType: string;
+  planName: string;
+  period: {
+    start: string;
+    end: string;
+  };
+  stores: QuotaUsage;
+  products: QuotaUsage;
+  syncs: QuotaUsage;
+}
+
+/**
+ * Error lanzado cuando una operación excede los límites del plan del tenant
+ * - 402 para recursos que requieren actualizar el plan (tiendas, productos)
+ * - 429 para la cuota mensual de sincronizaciones (se reinicia cada mes)
+ */
+export class QuotaExceededError extends Error {
+  readonly status: 402 | 429;
+  readonly resource: QuotaResource;
+  readonly limit: number;
+  readonly used: number;
+  readonly resetsAt: Date | null;
+
+  constructor(resource: QuotaResource, limit: number, used: number, message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.resource = resource;
+    this.limit = limit;
+    this.used = used;
+    this.status = resource === 'syncs' ? 429 : 402;
+    this.resetsAt = resource === 'syncs' ? QuotaService.getPeriodEnd() : null;
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: 'QUOTA_EXCEEDED',
+      resource: this.resource,
+      limit: this.limit,
+      used: this.used,
+      resetsAt: this.resetsAt?.toISOString() || null,
+    };
+  }
+}
+
+/**
+ * Servicio de cuotas: aplica en el servidor los límites definidos en shared/plans-config.ts
+ */
+export class QuotaService {
+  /**
+   * Inicio del período de facturación actual (primer día del mes)
+   */
+  static getPeriodStart(now: Date = new Date()): Date {
+    return new Date(now.getFullYear(), now.getMonth(), 1, 0, 0, 0, 0);
+  }
+
+  /**
+   * Fin del período actual (inicio del mes siguiente)
+   */
+  static getPeriodEnd(now: Date = new Date()): Date {
+    return new Date(now.getFullYear(), now.getMonth() + 1, 1, 0, 0, 0, 0);
+  }
+
+  /**
+   * Obtiene el uso actual de todos los recursos del tenant frente a su plan
+   */
+  static async getUsage(tenant: Tenant): Promise<TenantUsage> {
+    const planType = tenant.planType || 'starter';
+    const limits = getPlanLimits(planType);
+    const plan = getPlanById(planType);
+
+    const [stores, products, syncs] = await Promise.all([
+      storage.getStoresByTenant(tenant.id),
+      storage.countSyncedProducts(tenant.id),
+      storage.countSyncLogsSince(tenant.id, this.getPeriodStart()),
+    ]);
+
+    return {
+      planType,
+      planName: plan?.name || planType,
+      period: {
+        start: this.getPeriodStart().toISOString(),
+        end: this.getPeriodEnd().toISOString(),
+      },
+      stores: this.buildUsage(stores.length, limits.stores),
+      products: this.buildUsage(products, limits.products),
+      syncs: this.buildUsage(syncs, limits.syncs),
+    };
+  }
+
+  /**
+   * Verifica que el tenant pueda conectar una tienda más
+   * @throws QuotaExceededError (402) si alcanzó el límite de tiendas
+   */
+  static async assertCanCreateStore(tenant: Tenant): Promise<void> {
+    const { stores: limit } = getPlanLimits(tenant.planType || 'starter');
+    if (limit === Infinity) return;
+
+    const existingStores = await storage.getStoresByTenant(tenant.id);
+    if (existingStores.length >= limit) {
+      throw new QuotaExceededError(
+        'stores',
+        limit,
+        existingStores.length,
+        `Has alcanzado el límite de ${limit} ${limit === 1 ? 'tienda' : 'tiendas'} de tu plan ${tenant.planType}. Por favor actualiza tu plan para añadir más tiendas.`
+      );
+    }
+  }
+
+  /**
+   * Verifica que el tenant pueda añadir productos nuevos (publicación de catálogo)
+   * @throws QuotaExceededError (402) si superaría el límite de productos
+   */
+  static async assertCanAddProducts(tenantId: number, count: number): Promise<void> {
+    const tenant = await storage.getTenant(tenantId);
+    if (!tenant) return;
+
+    const { products: limit } = getPlanLimits(tenant.planType || 'starter');
+    if (limit === Infinity) return;
+
+    const used = await storage.countSyncedProducts(tenant.id);
+    if (used + count > limit) {
+      throw new QuotaExceededError(
+        'products',
+        limit,
+        used,
+        `Publicar ${count} ${count === 1 ? 'producto' : 'productos'} superaría el límite de ${limit} productos de tu plan ${tenant.planType} (usados: ${used}). Por favor actualiza tu plan.`
+      );
+    }
+  }
+
+  /**
+   * Verifica que el tenant tenga sincronizaciones disponibles en el mes actual
+   * @throws QuotaExceededError (429) si agotó la cuota mensual
+   */
+  static async assertSyncAvailable(tenantOrId: Tenant | number): Promise<void> {
+    const tenant = typeof tenantOrId === 'number' ? await storage.getTenant(tenantOrId) : tenantOrId;
+    if (!tenant) return;
+
+    const { syncs: limit } = getPlanLimits(tenant.planType || 'starter');
+    if (limit === Infinity) return;
+
+    const used = await storage.countSyncLogsSince(tenant.id, this.getPeriodStart());
+    if (used >= limit) {
+      throw new QuotaExceededError(
+        'syncs',
+        limit,
+        used,
+        `Has alcanzado el límite de ${limit} sincronizaciones/mes de tu plan ${tenant.planType}. El límite se reiniciará el próximo mes.`
+      );
+    }
+  }
+
+  /**
+   * Recorta la lista de productos a sincronizar al cupo disponible del plan.
+   * Los SKUs que la tienda ya tiene sincronizados tienen prioridad para que
+   * el conjunto de productos no rote entre ejecuciones.
+   */
+  static async applyProductQuota<T extends { sku: string }>(
+    tenantId: number,
+    storeId: number,
+    products: T[]
+  ): Promise<{ allowed: T[]; truncated: number; limit: number | null }> {
+    const tenant = await storage.getTenant(tenantId);
+    const { products: limit } = getPlanLimits(tenant?.planType || 'starter');
+
+    if (limit === Infinity) {
+      return { allowed: products, truncated: 0, limit: null };
+    }
+
+    const usedByOtherStores = await storage.countSyncedProducts(tenantId, storeId);
+    const available = Math.max(0, limit - usedByOtherStores);
+
+    if (products.length <= available) {
+      return { allowed: products, truncated: 0, limit };
+    }
+
+    const knownSkus = new Set(
+      (await storage.getProductsByStore(storeId))
+        .map(p => p.sku)
+        .filter((sku): sku is string => !!sku)
+    );
+    const known = products.filter(p => knownSkus.has(p.sku));
+    const unknown = products.filter(p => !knownSkus.has(p.sku));
+    const allowed = [...known, ...unknown].slice(0, available);
+
+    console.log(`[Quota] Tienda ${storeId}: ${products.length} productos, cupo disponible ${available} (límite ${limit}). Se omiten ${products.length - allowed.length}`);
+
+    return { allowed, truncated: products.length - allowed.length, limit };
+  }
+
+  private static buildUsage(used: number, limit: number): QuotaUsage {
+    if (limit === Infinity) {
+      return { used, limit: null, remaining: null, percentage: 0 };
+    }
+
+    return {
+      used,
+      limit,
+      remaining: Math.max(0, limit - used),
+      percentage: limit > 0 ? Math.min(Math.round((used / limit) * 100), 100) : 100,
+    };
+  }
+}
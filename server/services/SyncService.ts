@@ -1,8 +1,25 @@
 import { storage } from '../storage';
-import { ContificoConnector } from '../connectors/ContificoConnector';
 import { BaseConnector } from '../connectors/BaseConnector';
 import { WooCommerceConnector } from '../connectors/WooCommerceConnector';
 import { ShopifyConnector } from '../connectors/ShopifyConnector';
+import { QuotaService } from './QuotaService';
+import { createErpConnector } from '../connectors/erp/registry';
+import type { ErpConnector } from '../connectors/erp/ErpConnector';
+import type { StandardProduct } from '../connectors/BaseConnector';
+import { getLocationMappings, LocationWarehouseMapping } from '@shared/location-mappings';
+import {
+  calculateStorePrice,
+  getPriceSyncConfig,
+  isSignificantPriceChange,
+  type PriceSyncConfig,
+} from '@shared/price-sync';
+import { getDeltaPullConfig, type PullMode } from '@shared/delta-pull';
+import type { PullCheckpoint } from '@shared/sync-progress';
+import { classifyStockChange, type PlannedStockChange } from '@shared/pull-plans';
+import type { PullPlan as StoredPullPlan, SyncLog } from '@shared/schema';
+import { getZeroGuardConfig, parseStockValue, type ZeroGuardConfig } from '@shared/stock-guard';
+import { SyncEvents } from './syncEvents';
+import { ZeroStockGuard, ZeroStockGuardError } from './zeroStockGuard';
 
 interface SyncResult {
   success: number;
@@ -12,20 +29,94 @@ interface SyncResult {
     sku: string;
     error: string;
   }>;
+  quotaTruncated?: number; // Productos omitidos por el límite del plan
+  mode?: PullMode;
+  cancelled?: boolean; // Detenido a pedido del usuario (resultados parciales)
+  syncLogId?: number;
+  catalogSize?: number; // Productos con SKU en la tienda
+  plannedChanges?: PlannedStockChange[]; // Dry-run: SKUs cuyo stock cambiaría (vista previa)
 }
 
 interface SyncOptions {
   dryRun?: boolean;
   limit?: number;
+  mode?: PullMode | 'auto'; // 'auto' = incremental si está habilitado y no toca el Pull completo (por defecto 'full')
   skipRecentPushCheck?: boolean; // Para Pull automático post-Push
   skipSyncLog?: boolean; // No crear sync_log (para Pull automático post-Push)
+  runId?: string; // Publica el progreso en tiempo real bajo este id (SyncEvents)
+  shouldCancel?: () => Promise<boolean>; // Cancelación cooperativa: se consulta entre lotes
+  resumeSyncLogId?: number; // Reanuda un Pull cancelado o interrumpido desde su último lote completado
 }
 
+/**
+ * Lock de Pull con lease renovable
+ */
+interface PullLockLease {
+  isLost: () => boolean; // El lease expiró y el lock ya no es nuestro
+  stop: () => void;
+}
+
+/**
+ * Contexto compartido para el Pull por ubicación (Shopify multi-location)
+ */
+interface LocationPullContext {
+  store: any;
+  storeConnector: ShopifyConnector;
+  erpConnector: ErpConnector;
+  mappings: LocationWarehouseMapping[];
+  levels: Map<string, number>; // `${inventory_item_id}:${location_id}` → disponible
+  dryRun: boolean;
+  skipRecentPushCheck: boolean;
+  results: SyncResult;
+  itemsToSave: Array<any>;
+  zeroGuard: ZeroStockGuard;
+}
+
+/**
+ * Modo del Pull: completo, o incremental desde el inicio del último Pull exitoso
+ */
+interface PullPlan {
+  mode: PullMode;
+  since: Date | null;
+  retrySkus: string[]; // SKUs fallidos u omitidos por push reciente en el Pull anterior
+  reason: string;
+}
+
+/**
+ * Actualización de stock pendiente de enviar por lote
+ * (WooCommerce, o Shopify cuando la bulk operation trajo los niveles por ubicación)
+ */
+interface PendingStockUpdate {
+  storeProduct: any;
+  erpStock: number;
+  currentStock: number;
+  itemRecord: any;
+}
+
+/**
+ * Escritura exacta de cambios de stock: plan aprobado o restauración de un Pull
+ */
+interface StockChangeRun {
+  label: string; // Para los logs de consola: "plan 12", "restauración del log 40"
+  processId: string;
+  syncType: 'pull' | 'pull_rollback';
+  details: Record<string, any>; // details del sync_log (plan_id o rollback_of)
+  driftCategory: 'plan_drift' | 'rollback_drift';
+  driftReason: string; // "desde la vista previa", "desde el Pull"
+  onApplied?: (productIds: string[]) => Promise<void>; // SKUs escritos en cada lote
+}
+
+// Actualizaciones acumuladas antes de enviarlas por lote
+const STOCK_BATCH_SIZE = 100;
+
+// Lease del lock de Pull: se renueva mientras el Pull avanza; si el proceso cae, expira pronto
+const PULL_LOCK_LEASE_MS = 2 * 60 * 1000;
+
 export class SyncService {
   /**
    * Obtiene el conector apropiado para una tienda
    */
-  private static getStoreConnector(store: any): BaseConnector {
+  static getStoreConnector(store: any): BaseConnector {
     switch (store.platform) {
       case 'woocommerce':
         return new WooCommerceConnector(store);
@@ -45,12 +136,21 @@ export class SyncService {
     integrationId: number,
     options: SyncOptions = {}
   ): Promise<SyncResult> {
-    const { dryRun = false, limit, skipRecentPushCheck = false } = options;
+    const {
+      dryRun = false,
+      limit,
+      skipRecentPushCheck = false,
+      mode = 'full',
+      runId,
+      shouldCancel,
+      resumeSyncLogId,
+    } = options;
     const startTime = Date.now();
 
     console.log(`[Sync] Iniciando Pull: Store ${storeId}, Integration ${integrationId}`);
-    console.log(`[Sync] Opciones: dryRun=${dryRun}, limit=${limit || 'sin límite'}`);
+    console.log(`[Sync] Opciones: dryRun=${dryRun}, limit=${limit || 'sin límite'}, modo=${mode}`);
 
+    let pullMode: PullMode = 'full';
     const results: SyncResult = {
       success: 0,
       failed: 0,
@@ -60,21 +160,29 @@ export class SyncService {
 
     // ✅ Array para almacenar items a guardar
     const itemsToSave: Array<any> = [];
-    let syncLogId: number | null = null;
-    let lockAcquired = false;
+    let savedItemsCount = 0; // Items ya guardados en el último punto de control
+    let syncLog: SyncLog | null = null;
+    let previousDurationMs = 0; // Pull reanudado: duración de las ejecuciones anteriores
+    let lockLease: PullLockLease | null = null;
+    let cancelled = false;
+
+    // Verificar cuota mensual del plan antes de tomar el lock (no registra log de error)
+    if (!dryRun) {
+      const quotaStore = await storage.getStore(storeId);
+      if (quotaStore) {
+        await QuotaService.assertSyncAvailable(quotaStore.tenantId);
+      }
+    }
 
     try {
       // 0. Adquirir lock para prevenir conflictos con Push operations
-      const lockDuration = 5 * 60 * 1000; // 5 minutos
       const processId = `pull-sync-${storeId}-${Date.now()}`;
+      lockLease = await this.acquirePullLock(storeId, processId);
 
-      const lock = await storage.acquireLock(storeId, 'pull', processId, lockDuration);
-
-      if (!lock) {
+      if (!lockLease) {
         throw new Error(`No se pudo adquirir lock para tienda ${storeId}. Otra operación de sincronización está en progreso.`);
       }
 
-      lockAcquired = true;
       console.log(`[Sync] ✅ Lock adquirido para tienda ${storeId}`);
 
       // 1. Obtener la tienda y verificar que existe
@@ -97,48 +205,129 @@ export class SyncService {
       console.log(`[Sync] Store: ${store.storeName} (${store.platform})`);
       console.log(`[Sync] Integration: ${integration.name} (${integration.integrationType})`);
 
+      // Reanudación: se continúa el mismo log omitiendo los SKUs que ya tienen resultado
+      const processedSkus = new Set<string>();
+      let previousCheckpoint: PullCheckpoint | null = null;
+      if (resumeSyncLogId && !dryRun) {
+        syncLog = await this.loadResumablePull(resumeSyncLogId, storeId, results, processedSkus);
+        previousCheckpoint = syncLog.checkpoint as PullCheckpoint;
+        previousDurationMs = syncLog.durationMs || 0;
+        console.log(`[Sync] ↩️ Reanudando Pull del log ${syncLog.id}: ${processedSkus.size} productos ya procesados`);
+      }
+
       // 4. Crear conectores
       const storeConnector = this.getStoreConnector(store);
 
-      const settings = integration.settings as any;
-      const contificoStore = {
-        id: 0,
-        tenantId: integration.tenantId,
-        platform: 'contifico',
-        storeName: integration.name,
-        storeUrl: 'https://api.contifico.com',
-        apiCredentials: settings,
-        syncConfig: {},
-        status: 'active' as const,
-        connectionStatus: 'connected' as const,
-        lastConnectionTest: null,
-        storeInfo: {},
-        productsCount: 0,
-        lastSyncAt: null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      const erpConnector = createErpConnector(integration);
 
-      const contificoConnector = new ContificoConnector(contificoStore);
+      // Mapeo ubicación ↔ bodega (solo Shopify). Si existe, cada ubicación recibe el stock de su bodega
+      const locationMappings = await this.getStoreLocationMappings(store, integrationId);
+
+      // Pull de precios (opcional, syncConfig.pull.prices)
+      const priceConfig = await this.getStorePriceSyncConfig(store, integrationId, storeConnector, erpConnector);
 
       // ✅ Obtener nombre de bodega
-      const warehouseName = settings.warehouse_primary 
-        ? await this.getWarehouseName(contificoConnector, settings.warehouse_primary)
-        : 'Stock Global';
+      const warehouseName = locationMappings.length > 0
+        ? `${locationMappings.length} ubicaciones mapeadas`
+        : erpConnector.primaryWarehouseId
+          ? await this.getWarehouseName(erpConnector, erpConnector.primaryWarehouseId)
+          : 'Stock Global';
 
       // 5. ESTRATEGIA CORRECTA: Obtener productos de la TIENDA que tienen SKU
       console.log(`[Sync] Obteniendo productos de ${store.platform} que tienen SKU...`);
-      const storeProducts = await storeConnector.getProductsWithSku();
+      const storeProducts = await this.getStoreProductsForPull(store, storeConnector);
+      results.catalogSize = storeProducts.length;
 
       // Aplicar límite si se especificó
-      const productsToSync = limit ? storeProducts.slice(0, limit) : storeProducts;
+      let productsToSync = limit ? storeProducts.slice(0, limit) : storeProducts;
+
+      // Aplicar límite de productos del plan
+      const productQuota = await QuotaService.applyProductQuota(store.tenantId, storeId, productsToSync);
+      productsToSync = productQuota.allowed;
+      if (productQuota.truncated > 0) {
+        results.quotaTruncated = productQuota.truncated;
+        console.log(`[Sync] ⚠️ ${productQuota.truncated} productos omitidos por el límite de ${productQuota.limit} productos del plan`);
+      }
+
+      // Pull incremental: solo los SKUs con cambios en el ERP desde el último Pull exitoso
+      const pullPlan = await this.getPullPlan(
+        store,
+        integrationId,
+        erpConnector,
+        syncLog ? ((syncLog.syncMode as PullMode | null) ?? 'full') : mode
+      );
+      let changedSkuCount: number | null = null;
+      if (pullPlan.mode === 'delta') {
+        try {
+          const changedSkus = await erpConnector.getChangedSkus!(pullPlan.since!);
+          changedSkuCount = changedSkus.size;
+          pullPlan.retrySkus.forEach(sku => changedSkus.add(sku));
+          productsToSync = productsToSync.filter(p => changedSkus.has(p.sku));
+          pullMode = 'delta';
+        } catch (error: any) {
+          console.warn(`[Sync] ⚠️ No se pudieron obtener los cambios de ${erpConnector.displayName}, se hace Pull completo:`, error.message);
+          pullPlan.reason = `error consultando cambios: ${error.message}`;
+        }
+      }
+      results.mode = pullMode;
+
+      console.log(`[Sync] Modo: ${pullMode === 'delta' ? 'incremental' : 'completo'} (${pullPlan.reason})`);
+      console.log(`[Sync] ${productsToSync.length} productos con SKU ${pullMode === 'delta' ? 'con cambios' : 'encontrados'} en la tienda`);
+
+      if (processedSkus.size > 0) {
+        productsToSync = productsToSync.filter(p => !processedSkus.has(p.sku));
+        console.log(`[Sync] ${productsToSync.length} productos pendientes desde el punto de control`);
+      }
+
+      // Protección contra el vaciado masivo de stock (en dry-run no se aplica: la vista previa muestra los ceros)
+      const zeroGuardConfig = await this.getStoreZeroGuardConfig(store, integrationId);
+      const zeroGuard = new ZeroStockGuard(
+        dryRun ? { ...zeroGuardConfig, enabled: false } : zeroGuardConfig,
+        storeProducts.length
+      );
+
+      // Log en curso: guarda los items y el avance al terminar cada lote (punto de control)
+      const processedBefore = previousCheckpoint?.processedCount ?? 0;
+      const buildCheckpoint = (completedBatches: number, processed: number): PullCheckpoint => ({
+        runId: runId ?? null,
+        integrationId,
+        completedBatches,
+        processedCount: processedBefore + processed,
+        total: processedBefore + productsToSync.length,
+        updatedAt: new Date().toISOString(),
+      });
+
+      if (!dryRun) {
+        syncLog = syncLog
+          ? await storage.updateSyncLog(syncLog.id, {
+              status: 'running',
+              errorMessage: null,
+              checkpoint: buildCheckpoint(0, 0),
+            })
+          : await storage.createSyncLog({
+              tenantId: store.tenantId,
+              storeId: store.id,
+              syncType: 'pull',
+              syncMode: pullMode,
+              status: 'running',
+              syncedCount: 0,
+              errorCount: 0,
+              durationMs: null,
+              errorMessage: null,
+              details: { integration_id: integrationId, started_at: new Date(startTime).toISOString() },
+              checkpoint: buildCheckpoint(0, 0),
+            });
+      }
 
-      console.log(`[Sync] ${productsToSync.length} productos con SKU encontrados en la tienda`);
       console.log(`[Sync] Sincronizando inventario desde Contífico...`);
 
+      const reporter = SyncEvents.reporter(runId, store.tenantId, store.id, 'pull');
+      reporter.started(productsToSync.length, pullMode);
+
       // 6. Procesar por lotes (de 20 en 20 para no saturar las APIs)
       const batchSize = 20;
       let processedCount = 0;
+      const pendingStockUpdates: PendingStockUpdate[] = [];
 
       for (let i = 0; i < productsToSync.length; i += batchSize) {
         const batch = productsToSync.slice(i, i + batchSize);
@@ -146,6 +335,11 @@ export class SyncService {
         const totalBatches = Math.ceil(productsToSync.length / batchSize);
 
         console.log(`[Sync] Procesando lote ${batchNumber}/${totalBatches} (${batch.length} productos)`);
+        const batchItemsStart = itemsToSave.length;
+
+        const locationLevels = locationMappings.length > 0
+          ? await this.getBatchLocationLevels(storeConnector as ShopifyConnector, batch, locationMappings)
+          : new Map<string, number>();
 
         // Procesar cada producto del lote en paralelo
         await Promise.all(
@@ -178,9 +372,9 @@ export class SyncService {
               console.log(`[Sync] Procesando: ${sku} - ${title}`);
 
               // 1. Buscar producto en Contífico por SKU
-              let contificoProductResult;
+              let erpProduct;
               try {
-                contificoProductResult = await contificoConnector.getProduct(sku);
+                erpProduct = await erpConnector.getProductBySku(sku);
               } catch (error: any) {
                 console.log(`[Sync] ⚠️ Producto ${sku} no encontrado en Contífico, omitiendo`);
                 results.skipped++;
@@ -210,7 +404,7 @@ export class SyncService {
                 return;
               }
 
-              if (!contificoProductResult.product) {
+              if (!erpProduct) {
                 console.log(`[Sync] ⚠️ Producto ${sku} no encontrado en Contífico, omitiendo`);
                 results.skipped++;
 
@@ -239,36 +433,77 @@ export class SyncService {
                 return;
               }
 
-              const contificoProduct = contificoProductResult.product;
+              // 1b. Precio: se actualiza aunque el stock no cambie
+              const priceChanged = priceConfig.enabled &&
+                await this.pullProductPrice(storeConnector, erpConnector, priceConfig, storeProduct, erpProduct, itemRecord, results, dryRun);
+
+              // 2a. Multi-ubicación: cada ubicación de Shopify recibe el stock de su bodega
+              if (locationMappings.length > 0 && inventory_item_id) {
+                await this.pullProductByLocation(
+                  {
+                    store,
+                    storeConnector: storeConnector as ShopifyConnector,
+                    erpConnector,
+                    mappings: locationMappings,
+                    levels: locationLevels,
+                    dryRun,
+                    skipRecentPushCheck,
+                    results,
+                    itemsToSave,
+                    zeroGuard,
+                  },
+                  storeProduct,
+                  erpProduct,
+                  itemRecord,
+                  priceChanged
+                );
+                return;
+              }
 
               // 2. Obtener stock (global o por bodega específica)
-              let contificoStock: number;
+              // Stock desconocido (error o respuesta inválida) no es cero: el SKU no se toca
+              let erpStock: number;
 
-              if (settings.warehouse_primary) {
+              if (erpConnector.primaryWarehouseId) {
                 // CON bodega configurada: consultar stock específico
-                console.log(`[Sync] Consultando stock de bodega ${settings.warehouse_primary} para ${sku}`);
+                console.log(`[Sync] Consultando stock de bodega ${erpConnector.primaryWarehouseId} para ${sku}`);
 
                 try {
-                  const rawStock = await contificoConnector.getProductStock(
-                    contificoProduct.id,
-                    sku
+                  erpStock = await erpConnector.getProductStock(
+                    erpProduct,
+                    erpConnector.primaryWarehouseId
                   );
-                  contificoStock = Math.floor(Number(rawStock) || 0);
-                  console.log(`[Sync] Stock en bodega ${settings.warehouse_primary}: ${contificoStock}`);
+                  console.log(`[Sync] Stock en bodega ${erpConnector.primaryWarehouseId}: ${erpStock}`);
                 } catch (error: any) {
-                  console.warn(`[Sync] Error obteniendo stock de bodega para ${sku}, usando stock global`);
-                  contificoStock = Math.floor(Number(contificoProduct.stock_quantity) || 0);
+                  this.failUnknownStock(itemRecord, error.message, results, itemsToSave);
+                  return;
                 }
               } else {
                 // SIN bodega: usar stock global
-                contificoStock = Math.floor(Number(contificoProduct.stock_quantity) || 0);
-                console.log(`[Sync] Stock global: ${contificoStock}`);
+                const globalStock = parseStockValue(erpProduct.stock_quantity);
+                if (globalStock === null) {
+                  this.failUnknownStock(itemRecord, `${erpConnector.displayName} no devolvió el stock global`, results, itemsToSave);
+                  return;
+                }
+                erpStock = globalStock;
+                console.log(`[Sync] Stock global: ${erpStock}`);
+              }
+
+              // 2b. Protección de stock: superado el umbral de SKUs en cero, no se escribe ningún cero más
+              if (!zeroGuard.allow(currentStock, erpStock)) {
+                this.skipZeroGuarded(itemRecord, currentStock, results, itemsToSave);
+                return;
               }
 
               // 3. Comparar stocks
-              if (currentStock === contificoStock) {
-                console.log(`[Sync] ✓ Stock igual (${contificoStock}), omitiendo: ${sku}`);
-                results.skipped++;
+              if (currentStock === erpStock) {
+                if (priceChanged) {
+                  console.log(`[Sync] ✓ Stock igual (${erpStock}), solo cambió el precio: ${sku}`);
+                  results.success++;
+                } else {
+                  console.log(`[Sync] ✓ Stock igual (${erpStock}), omitiendo: ${sku}`);
+                  results.skipped++;
+                }
 
                 // Actualizar cache de productos aunque no haya cambios (mantener cache actualizado)
                 if (!dryRun) {
@@ -287,16 +522,16 @@ export class SyncService {
                   });
                 }
 
-                // ✅ Guardar item omitido
-                itemRecord.status = 'skipped';
-                itemRecord.errorCategory = 'no_changes';
-                itemRecord.errorMessage = 'Stock sin cambios';
-                itemRecord.stockAfter = contificoStock;
+                // ✅ Guardar item omitido (o exitoso si solo cambió el precio)
+                itemRecord.status = priceChanged ? 'success' : 'skipped';
+                itemRecord.errorCategory = priceChanged ? null : 'no_changes';
+                itemRecord.errorMessage = priceChanged ? null : 'Stock sin cambios';
+                itemRecord.stockAfter = erpStock;
                 itemsToSave.push(itemRecord);
                 return;
               }
 
-              console.log(`[Sync] Stock diferente: Tienda=${currentStock}, Contífico=${contificoStock}`);
+              console.log(`[Sync] Stock diferente: Tienda=${currentStock}, Contífico=${erpStock}`);
 
               // 3.5. Verificar si hay pushes recientes (evitar sobrescribir cambios frescos)
               // Solo si no es un Pull automático post-Push
@@ -317,6 +552,12 @@ export class SyncService {
               }
 
               // 4. Actualizar stock en la tienda
+              // WooCommerce y Shopify (bulk): se acumula y se envía por lotes
+              if (!dryRun && this.canBatchStockUpdate(store, storeProduct)) {
+                pendingStockUpdates.push({ storeProduct, erpStock, currentStock, itemRecord });
+                return;
+              }
+
               if (!dryRun) {
                 try {
                   if (store.platform === 'shopify' && inventory_item_id) {
@@ -324,19 +565,13 @@ export class SyncService {
                     await (storeConnector as ShopifyConnector).updateVariantStock!(
                       variant_id,
                       inventory_item_id,
-                      contificoStock
-                    );
-                  } else if (store.platform === 'woocommerce') {
-                    // WooCommerce: Actualizar usando product_id
-                    await (storeConnector as WooCommerceConnector).updateProductStock!(
-                      variant_id,
-                      contificoStock
+                      erpStock
                     );
                   } else {
                     throw new Error(`Plataforma ${store.platform} no soportada para actualización de stock`);
                   }
 
-                  console.log(`[Sync] ✅ Actualizado: ${sku} → ${contificoStock} unidades`);
+                  console.log(`[Sync] ✅ Actualizado: ${sku} → ${erpStock} unidades`);
 
                   // 5. Actualizar cache de productos (store_products)
                   await storage.upsertProduct({
@@ -345,7 +580,7 @@ export class SyncService {
                     platformProductId: variant_id.toString(),
                     sku: sku,
                     name: title,
-                    stockQuantity: contificoStock,
+                    stockQuantity: erpStock,
                     manageStock: true,
                     price: null,
                     data: storeProduct,
@@ -358,7 +593,7 @@ export class SyncService {
 
                   // ✅ Guardar item exitoso
                   itemRecord.status = 'success';
-                  itemRecord.stockAfter = contificoStock;
+                  itemRecord.stockAfter = erpStock;
                   itemsToSave.push(itemRecord);
 
                 } catch (updateError: any) {
@@ -391,12 +626,12 @@ export class SyncService {
                   itemsToSave.push(itemRecord);
                 }
               } else {
-                console.log(`[Sync] [DRY-RUN] Se actualizaría: ${sku} → ${contificoStock} unidades`);
+                console.log(`[Sync] [DRY-RUN] Se actualizaría: ${sku} → ${erpStock} unidades`);
                 results.success++;
 
                 // ✅ En dry-run también guardamos como éxito
                 itemRecord.status = 'success';
-                itemRecord.stockAfter = contificoStock;
+                itemRecord.stockAfter = erpStock;
                 itemsToSave.push(itemRecord);
               }
 
@@ -436,34 +671,94 @@ export class SyncService {
           })
         );
 
+        // Protección de stock disparada: los ceros acumulados para el envío por lote no se escriben
+        if (zeroGuard.isTripped) {
+          const zeroUpdates = pendingStockUpdates.filter(p => p.erpStock === 0 && p.currentStock > 0);
+          const otherUpdates = pendingStockUpdates.filter(p => !zeroUpdates.includes(p));
+          pendingStockUpdates.splice(0, pendingStockUpdates.length, ...otherUpdates);
+          zeroUpdates.forEach(p => this.skipZeroGuarded(p.itemRecord, p.currentStock, results, itemsToSave));
+        }
+
+        // Cancelación cooperativa: se consulta entre lotes, nunca a mitad de uno
+        const isLastBatch = i + batchSize >= productsToSync.length;
+        cancelled = !isLastBatch && !zeroGuard.isTripped && !!shouldCancel && await shouldCancel();
+
+        // Enviar el stock acumulado (bloques de 100, al final o antes de detenerse)
+        if (pendingStockUpdates.length >= STOCK_BATCH_SIZE || isLastBatch || cancelled || zeroGuard.isTripped) {
+          await this.flushStockUpdates(store, storeConnector, pendingStockUpdates.splice(0), results, itemsToSave);
+        }
+
         processedCount += batch.length;
         console.log(`[Sync] Progreso: ${processedCount}/${productsToSync.length} productos procesados`);
+        reporter.progress(batchNumber, totalBatches, processedCount, productsToSync.length, results, itemsToSave.slice(batchItemsStart));
+
+        // Punto de control: un Pull reanudado continúa desde aquí
+        if (syncLog) {
+          await this.saveCheckpoint(syncLog, itemsToSave.slice(savedItemsCount), results, buildCheckpoint(batchNumber, processedCount));
+          savedItemsCount = itemsToSave.length;
+        }
+
+        if (zeroGuard.isTripped) {
+          throw zeroGuard.toError();
+        }
+        if (cancelled) {
+          break;
+        }
+        if (lockLease.isLost()) {
+          throw new Error(`Se perdió el lock de Pull de la tienda ${storeId} (lease expirado)`);
+        }
 
         // Pequeña pausa entre lotes para no saturar las APIs
-        if (i + batchSize < productsToSync.length) {
+        if (!isLastBatch) {
           await new Promise(resolve => setTimeout(resolve, 500));
         }
       }
 
-      const durationMs = Date.now() - startTime;
+      // Dry-run: cambios de stock que haría este Pull (vista previa)
+      if (dryRun) {
+        results.plannedChanges = this.toPlannedChanges(itemsToSave);
+      }
+
+      const durationMs = previousDurationMs + (Date.now() - startTime);
+
+      // Cancelado: el log conserva su punto de control para reanudarlo
+      if (cancelled) {
+        if (syncLog) {
+          await storage.updateSyncLog(syncLog.id, {
+            status: 'cancelled',
+            durationMs,
+            errorMessage: 'Cancelado por el usuario',
+          });
+        }
+        console.log(`[Sync] ⏹️ Pull cancelado tras ${processedCount}/${productsToSync.length} productos${syncLog ? ` (log ${syncLog.id}, se puede reanudar)` : ''}`);
+        return { ...results, cancelled: true, syncLogId: syncLog?.id };
+      }
 
       // 7. Registrar el resultado de la sincronización
-      if (!dryRun) {
-        const syncLog = await storage.createSyncLog({
-          tenantId: store.tenantId,
-          storeId: store.id,
-          syncType: 'pull',
+      if (syncLog) {
+        syncLog = await storage.updateSyncLog(syncLog.id, {
+          syncMode: pullMode,
           status: results.failed > 0 ? 'partial' : 'success',
           syncedCount: results.success,
           errorCount: results.failed,
           durationMs,
           errorMessage: null,
+          checkpoint: null,
           details: {
             integration_id: integrationId,
-            warehouse_id: settings.warehouse_primary || null,
+            started_at: syncLog.createdAt?.toISOString(),
+            resumed: resumeSyncLogId ? true : undefined,
+            warehouse_id: erpConnector.primaryWarehouseId || null,
             warehouse_name: warehouseName,
+            location_mappings: locationMappings.length > 0 ? locationMappings : undefined,
+            pull_mode: pullMode,
+            pull_mode_reason: pullPlan.reason,
+            delta_since: pullMode === 'delta' ? pullPlan.since!.toISOString() : undefined,
+            delta_changed_skus: changedSkuCount ?? undefined,
+            delta_retried_skus: pullMode === 'delta' ? pullPlan.retrySkus.length : undefined,
             total_found_in_store: storeProducts.length,
-            total_processed: productsToSync.length,
+            total_processed: processedBefore + productsToSync.length,
+            quota_truncated: productQuota.truncated,
             success: results.success,
             failed: results.failed,
             skipped: results.skipped,
@@ -471,19 +766,8 @@ export class SyncService {
           }
         });
 
-        syncLogId = syncLog.id;
-
-        // ✅ NUEVO: Guardar todos los items procesados
-        if (itemsToSave.length > 0) {
-          // Actualizar syncLogId en todos los items
-          const itemsWithLogId = itemsToSave.map(item => ({
-            ...item,
-            syncLogId: syncLog.id
-          }));
-
-          await storage.createSyncLogItems(itemsWithLogId);
-          console.log(`[Sync] ✅ Guardados ${itemsWithLogId.length} items en sync_log_items`);
-        }
+        results.syncLogId = syncLog.id;
+        console.log(`[Sync] ✅ Guardados ${savedItemsCount} items en sync_log_items`);
 
         // Actualizar última sincronización y contador de productos
         const currentProducts = await storage.getProductsByStore(storeId);
@@ -500,7 +784,7 @@ export class SyncService {
           const title = results.failed > 0
             ? 'Sincronización parcialmente exitosa'
             : 'Sincronización completada';
-          const message = `Se sincronizaron ${results.success} productos exitosamente${results.failed > 0 ? `, ${results.failed} fallaron` : ''}${results.skipped > 0 ? `, ${results.skipped} omitidos` : ''}.`;
+          const message = `Se sincronizaron ${results.success} productos exitosamente${results.failed > 0 ? `, ${results.failed} fallaron` : ''}${results.skipped > 0 ? `, ${results.skipped} omitidos` : ''}${results.quotaTruncated ? `, ${results.quotaTruncated} excluidos por el límite de productos del plan` : ''}.`;
 
           await storage.createNotification({
             tenantId: store.tenantId,
@@ -534,39 +818,70 @@ export class SyncService {
     } catch (error: any) {
       console.error('[Sync] ❌ Error fatal en sincronización:', error);
 
-      const durationMs = Date.now() - startTime;
+      const durationMs = previousDurationMs + (Date.now() - startTime);
 
       // Registrar fallo
       try {
-        const store = await storage.getStore(storeId);
-        if (store) {
-          const syncLog = await storage.createSyncLog({
-            tenantId: store.tenantId,
-            storeId,
-            syncType: 'pull',
+        if (syncLog && error instanceof ZeroStockGuardError) {
+          // Protección de stock: no se reanuda; el stock ya escrito se restaura desde el log
+          await storage.updateSyncLog(syncLog.id, {
+            status: 'error',
+            syncedCount: results.success,
+            errorCount: results.failed,
+            durationMs,
+            errorMessage: error.message.substring(0, 200),
+            checkpoint: null,
+            details: {
+              ...(syncLog.details as Record<string, any>),
+              zero_guard: {
+                zeroed: error.zeroed,
+                evaluated: error.evaluated,
+                max_zeroed_percent: error.maxZeroedPercent,
+              },
+            },
+          });
+          await this.notifyZeroGuardTripped(syncLog, error);
+        } else if (syncLog) {
+          // Los items del lote en curso se descartan: al reanudar se repite desde el último punto de control
+          await storage.updateSyncLog(syncLog.id, {
             status: 'error',
             syncedCount: results.success,
             errorCount: results.failed + 1,
             durationMs,
             errorMessage: error.message?.substring(0, 200) || 'Unknown error',
-            details: { 
-              integration_id: integrationId,
-              fatal_error: true,
-              partial_results: {
-                success: results.success,
-                failed: results.failed,
-                skipped: results.skipped
+          });
+        } else {
+          const store = await storage.getStore(storeId);
+          if (store) {
+            const errorLog = await storage.createSyncLog({
+              tenantId: store.tenantId,
+              storeId,
+              syncType: 'pull',
+              syncMode: pullMode,
+              status: 'error',
+              syncedCount: results.success,
+              errorCount: results.failed + 1,
+              durationMs,
+              errorMessage: error.message?.substring(0, 200) || 'Unknown error',
+              details: { 
+                integration_id: integrationId,
+                fatal_error: true,
+                partial_results: {
+                  success: results.success,
+                  failed: results.failed,
+                  skipped: results.skipped
+                }
               }
+            });
+
+            // ✅ Guardar items parciales si existen
+            if (itemsToSave.length > 0) {
+              const itemsWithLogId = itemsToSave.map(item => ({
+                ...item,
+                syncLogId: errorLog.id
+              }));
+              await storage.createSyncLogItems(itemsWithLogId);
             }
-          });
-
-          // ✅ Guardar items parciales si existen
-          if (itemsToSave.length > 0) {
-            const itemsWithLogId = itemsToSave.map(item => ({
-              ...item,
-              syncLogId: syncLog.id
-            }));
-            await storage.createSyncLogItems(itemsWithLogId);
           }
         }
       } catch (logError) {
@@ -575,13 +890,401 @@ export class SyncService {
 
       throw error;
     } finally {
-      // Liberar lock si fue adquirido
-      if (lockAcquired) {
+      // Liberar lock si fue adquirido (y sigue siendo nuestro)
+      if (lockLease) {
+        lockLease.stop();
+        if (!lockLease.isLost()) {
+          try {
+            await storage.releaseLock(storeId, 'pull');
+            console.log(`[Sync] Lock liberado para tienda ${storeId}`);
+          } catch (unlockError) {
+            console.error(`[Sync] Error liberando lock:`, unlockError);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Aplica un plan de Pull (vista previa aprobada): escribe exactamente el stock planificado
+   * No vuelve a consultar el ERP; un SKU cuyo stock en la tienda cambió desde la vista previa se omite
+   * Solo stock: los precios se sincronizan con el Pull normal
+   */
+  static async applyPullPlan(
+    plan: StoredPullPlan,
+    options: Pick<SyncOptions, 'runId' | 'shouldCancel'> = {}
+  ): Promise<SyncResult> {
+    const store = await storage.getStore(plan.storeId);
+    if (!store) {
+      throw new Error(`Tienda ${plan.storeId} no encontrada`);
+    }
+    await QuotaService.assertSyncAvailable(store.tenantId);
+
+    return this.applyStockChanges(store, plan.changes as PlannedStockChange[], {
+      label: `plan ${plan.id}`,
+      processId: `pull-plan-${plan.id}-${Date.now()}`,
+      syncType: 'pull',
+      details: { integration_id: plan.integrationId, plan_id: plan.id },
+      driftCategory: 'plan_drift',
+      driftReason: 'desde la vista previa',
+    }, options);
+  }
+
+  /**
+   * Restaura el stock que reemplazó un Pull (snapshot guardado en cada lote)
+   * Solo se restauran los SKUs que siguen con el stock que escribió ese Pull; el resto se omite
+   */
+  static async rollbackPull(
+    syncLogId: number,
+    options: Pick<SyncOptions, 'runId' | 'shouldCancel'> = {}
+  ): Promise<SyncResult> {
+    const syncLog = await storage.getSyncLog(syncLogId);
+    if (!syncLog || !syncLog.storeId) {
+      throw new Error(`Log de sincronización ${syncLogId} no encontrado`);
+    }
+    const store = await storage.getStore(syncLog.storeId);
+    if (!store) {
+      throw new Error(`Tienda ${syncLog.storeId} no encontrada`);
+    }
+
+    const snapshots = await storage.getPullStockSnapshots(syncLogId, { pendingOnly: true });
+    if (snapshots.length === 0) {
+      throw new Error(`El log ${syncLogId} no tiene stock por restaurar`);
+    }
+
+    // El cambio inverso: de lo que escribió el Pull a lo que había antes
+    const changes: PlannedStockChange[] = snapshots.map(snapshot => {
+      const locations = snapshot.locations as PlannedStockChange['locations'] | null;
+      return {
+        sku: snapshot.sku,
+        productId: snapshot.productId,
+        productName: snapshot.productName,
+        stockBefore: snapshot.stockAfter,
+        stockAfter: snapshot.stockBefore,
+        warning: classifyStockChange(snapshot.stockAfter, snapshot.stockBefore),
+        locations: locations?.map(l => ({ ...l, before: l.after, after: l.before })),
+      };
+    });
+
+    const results = await this.applyStockChanges(store, changes, {
+      label: `restauración del log ${syncLogId}`,
+      processId: `pull-rollback-${syncLogId}-${Date.now()}`,
+      syncType: 'pull_rollback',
+      details: { integration_id: (syncLog.details as any)?.integration_id ?? null, rollback_of: syncLogId },
+      driftCategory: 'rollback_drift',
+      driftReason: 'desde el Pull',
+      onApplied: (productIds) => storage.markPullStockSnapshotsRestored(syncLogId, productIds),
+    }, options);
+
+    await storage.updateSyncLog(syncLogId, {
+      details: {
+        ...(syncLog.details as Record<string, any>),
+        rolled_back_by: results.syncLogId,
+        rolled_back_at: new Date().toISOString(),
+      },
+    });
+
+    return results;
+  }
+
+  /**
+   * Escribe exactamente los cambios de stock indicados (plan aprobado o restauración)
+   * No consulta el ERP; un SKU cuyo stock en la tienda ya no es el esperado se omite
+   */
+  private static async applyStockChanges(
+    store: any,
+    changes: PlannedStockChange[],
+    run: StockChangeRun,
+    options: Pick<SyncOptions, 'runId' | 'shouldCancel'>
+  ): Promise<SyncResult> {
+    const { runId, shouldCancel } = options;
+    const startTime = Date.now();
+
+    console.log(`[Sync] Aplicando ${run.label}: Store ${store.id}, ${changes.length} cambios de stock`);
+
+    const results: SyncResult = {
+      success: 0,
+      failed: 0,
+      skipped: 0,
+      errors: []
+    };
+    const itemsToSave: Array<any> = [];
+    let savedItemsCount = 0;
+    let syncLog: SyncLog | null = null;
+    let lockLease: PullLockLease | null = null;
+    let cancelled = false;
+
+    try {
+      lockLease = await this.acquirePullLock(store.id, run.processId);
+      if (!lockLease) {
+        throw new Error(`No se pudo adquirir lock para tienda ${store.id}. Otra operación de sincronización está en progreso.`);
+      }
+
+      const storeConnector = this.getStoreConnector(store);
+
+      // Stock actual de la tienda para detectar cambios desde la vista previa (o desde el Pull)
+      const storeProducts = await this.getStoreProductsForPull(store, storeConnector);
+      const productsByVariant = new Map(storeProducts.map(p => [p.variant_id.toString(), p]));
+
+      syncLog = await storage.createSyncLog({
+        tenantId: store.tenantId,
+        storeId: store.id,
+        syncType: run.syncType,
+        status: 'running',
+        syncedCount: 0,
+        errorCount: 0,
+        durationMs: null,
+        errorMessage: null,
+        details: { ...run.details, started_at: new Date(startTime).toISOString() },
+      });
+
+      const reporter = SyncEvents.reporter(runId, store.tenantId, store.id, 'pull');
+      reporter.started(changes.length);
+
+      const batchSize = 20;
+      let processedCount = 0;
+      const pendingStockUpdates: PendingStockUpdate[] = [];
+
+      for (let i = 0; i < changes.length; i += batchSize) {
+        const batch = changes.slice(i, i + batchSize);
+        const batchNumber = Math.floor(i / batchSize) + 1;
+        const totalBatches = Math.ceil(changes.length / batchSize);
+        const batchItemsStart = itemsToSave.length;
+
+        const batchLocations = Array.from(new Set(batch.flatMap(c => (c.locations || []).map(l => l.locationId))));
+        const locationLevels = batchLocations.length > 0
+          ? await this.getBatchLocationLevels(
+              storeConnector as ShopifyConnector,
+              batch.map(c => productsByVariant.get(c.productId) || {}),
+              batchLocations.map(locationId => ({ locationId }))
+            )
+          : new Map<string, number>();
+
+        await Promise.all(
+          batch.map(async (change) => {
+            const itemRecord: any = {
+              syncLogId: 0,
+              sku: change.sku,
+              productId: change.productId,
+              productName: change.productName,
+              status: 'skipped',
+              stockBefore: change.stockBefore,
+              stockAfter: change.stockBefore,
+              errorCategory: null,
+              errorMessage: null,
+            };
+
+            const storeProduct = productsByVariant.get(change.productId);
+            if (!storeProduct) {
+              results.skipped++;
+              itemRecord.errorCategory = 'not_found_store';
+              itemRecord.errorMessage = 'El producto ya no existe en la tienda';
+              itemsToSave.push(itemRecord);
+              return;
+            }
+
+            const { sku, variant_id, inventory_item_id, title } = storeProduct;
+            const currentStock = Math.floor(Number(storeProduct.inventory_quantity) || 0);
+
+            const skipDrifted = (current: number) => {
+              console.log(`[Sync] ⚠️ Stock de ${sku} cambió ${run.driftReason} (${change.stockBefore} → ${current}), omitiendo`);
+              results.skipped++;
+              itemRecord.stockBefore = current;
+              itemRecord.stockAfter = current;
+              itemRecord.errorCategory = run.driftCategory;
+              itemRecord.errorMessage = `El stock cambió ${run.driftReason} (${change.stockBefore} → ${current})`;
+              itemsToSave.push(itemRecord);
+            };
+
+            try {
+              // Multi-ubicación: cada ubicación debe seguir con el stock de la vista previa
+              if (change.locations && change.locations.length > 0) {
+                const currentLevels = change.locations.map(l => locationLevels.get(`${inventory_item_id}:${l.locationId}`) ?? 0);
+                if (change.locations.some((l, index) => currentLevels[index] !== l.before)) {
+                  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+                  skipDrifted(change.stockBefore - sum(change.locations.map(l => l.before)) + sum(currentLevels));
+                  return;
+                }
+
+                let stockQuantity = currentStock;
+                const failedLocations: string[] = [];
+                itemRecord.locationChanges = [];
+                for (const location of change.locations) {
+                  try {
+                    await (storeConnector as ShopifyConnector).updateVariantStock(variant_id, inventory_item_id, location.after, location.locationId);
+                    stockQuantity += location.after - location.before;
+                    itemRecord.locationChanges.push(location);
+                  } catch (updateError: any) {
+                    failedLocations.push(`${location.locationName || location.locationId}: ${updateError.message}`);
+                  }
+                }
+
+                await storage.upsertProduct({
+                  tenantId: store.tenantId,
+                  storeId: store.id,
+                  platformProductId: variant_id.toString(),
+                  sku,
+                  name: title,
+                  stockQuantity,
+                  manageStock: true,
+                  price: null,
+                  data: storeProduct,
+                  lastModifiedAt: new Date(),
+                  lastModifiedBy: 'pull'
+                });
+
+                if (failedLocations.length > 0) {
+                  const errorMessage = `Error al actualizar stock en ${failedLocations.length} ubicaciones: ${failedLocations.join('; ')}`;
+                  results.failed++;
+                  results.errors.push({ sku, error: errorMessage });
+                  itemRecord.status = 'failed';
+                  itemRecord.errorCategory = 'update_error';
+                  itemRecord.errorMessage = errorMessage;
+                  itemRecord.stockAfter = change.stockBefore + (stockQuantity - currentStock);
+                } else {
+                  results.success++;
+                  itemRecord.status = 'success';
+                  itemRecord.stockAfter = change.stockAfter;
+                }
+                itemsToSave.push(itemRecord);
+                return;
+              }
+
+              if (currentStock !== change.stockBefore) {
+                skipDrifted(currentStock);
+                return;
+              }
+
+              if (this.canBatchStockUpdate(store, storeProduct)) {
+                pendingStockUpdates.push({ storeProduct, erpStock: change.stockAfter, currentStock, itemRecord });
+                return;
+              }
+
+              if (store.platform !== 'shopify' || !inventory_item_id) {
+                throw new Error(`Plataforma ${store.platform} no soportada para actualización de stock`);
+              }
+              await (storeConnector as ShopifyConnector).updateVariantStock(variant_id, inventory_item_id, change.stockAfter);
+
+              await storage.upsertProduct({
+                tenantId: store.tenantId,
+                storeId: store.id,
+                platformProductId: variant_id.toString(),
+                sku,
+                name: title,
+                stockQuantity: change.stockAfter,
+                manageStock: true,
+                price: null,
+                data: storeProduct,
+                lastModifiedAt: new Date(),
+                lastModifiedBy: 'pull'
+              });
+
+              console.log(`[Sync] ✅ Actualizado: ${sku} → ${change.stockAfter} unidades`);
+              results.success++;
+              itemRecord.status = 'success';
+              itemRecord.stockAfter = change.stockAfter;
+              itemsToSave.push(itemRecord);
+            } catch (error: any) {
+              console.error(`[Sync] ❌ Error actualizando stock para ${sku}:`, error.message);
+              results.failed++;
+              results.errors.push({ sku, error: `Error al actualizar stock: ${error.message}` });
+              itemRecord.status = 'failed';
+              itemRecord.errorCategory = 'update_error';
+              itemRecord.errorMessage = error.message;
+              itemsToSave.push(itemRecord);
+            }
+          })
+        );
+
+        const isLastBatch = i + batchSize >= changes.length;
+        cancelled = !isLastBatch && !!shouldCancel && await shouldCancel();
+
+        if (pendingStockUpdates.length >= STOCK_BATCH_SIZE || isLastBatch || cancelled) {
+          await this.flushStockUpdates(store, storeConnector, pendingStockUpdates.splice(0), results, itemsToSave);
+        }
+
+        processedCount += batch.length;
+        reporter.progress(batchNumber, totalBatches, processedCount, changes.length, results, itemsToSave.slice(batchItemsStart));
+
+        // Items del lote (sin punto de control: un plan no se reanuda, se genera una nueva vista previa)
+        if (itemsToSave.length > savedItemsCount) {
+          const batchItems = itemsToSave.slice(savedItemsCount);
+          await storage.createSyncLogItems(batchItems.map(item => ({ ...item, syncLogId: syncLog!.id })));
+          await this.saveStockSnapshots(syncLog, batchItems);
+          await run.onApplied?.(batchItems.filter(item => item.status === 'success').map(item => item.productId));
+          savedItemsCount = itemsToSave.length;
+        }
+
+        if (cancelled) {
+          break;
+        }
+        if (lockLease.isLost()) {
+          throw new Error(`Se perdió el lock de Pull de la tienda ${store.id} (lease expirado)`);
+        }
+      }
+
+      const durationMs = Date.now() - startTime;
+      const drifted = itemsToSave.filter(item => item.errorCategory === run.driftCategory).length;
+
+      syncLog = await storage.updateSyncLog(syncLog.id, {
+        status: cancelled ? 'cancelled' : results.failed > 0 ? 'partial' : 'success',
+        syncedCount: results.success,
+        errorCount: results.failed,
+        durationMs,
+        errorMessage: cancelled ? 'Cancelado por el usuario' : null,
+        details: {
+          ...run.details,
+          started_at: new Date(startTime).toISOString(),
+          planned_changes: changes.length,
+          drifted,
+          total_processed: processedCount,
+          success: results.success,
+          failed: results.failed,
+          skipped: results.skipped,
+          errors: results.errors.slice(0, 20)
+        }
+      });
+      results.syncLogId = syncLog.id;
+
+      if (cancelled) {
+        console.log(`[Sync] ⏹️ ${run.label} cancelado tras ${processedCount}/${changes.length} cambios`);
+        return { ...results, cancelled: true };
+      }
+
+      const currentProducts = await storage.getProductsByStore(store.id);
+      await storage.updateStoreSyncStatus(store.id, currentProducts.length, new Date());
+
+      console.log(`[Sync] ✅ ${run.label} aplicado en ${(durationMs / 1000).toFixed(2)}s: ${results.success} éxitos, ${results.failed} fallidos, ${results.skipped} omitidos (${drifted} con stock cambiado)`);
+
+      return results;
+
+    } catch (error: any) {
+      console.error(`[Sync] ❌ Error aplicando ${run.label}:`, error);
+
+      if (syncLog) {
         try {
-          await storage.releaseLock(storeId, 'pull');
-          console.log(`[Sync] Lock liberado para tienda ${storeId}`);
-        } catch (unlockError) {
-          console.error(`[Sync] Error liberando lock:`, unlockError);
+          await storage.updateSyncLog(syncLog.id, {
+            status: 'error',
+            syncedCount: results.success,
+            errorCount: results.failed + 1,
+            durationMs: Date.now() - startTime,
+            errorMessage: error.message?.substring(0, 200) || 'Unknown error',
+          });
+        } catch (logError) {
+          console.error('[Sync] Error al registrar log de fallo:', logError);
+        }
+      }
+
+      throw error;
+    } finally {
+      if (lockLease) {
+        lockLease.stop();
+        if (!lockLease.isLost()) {
+          try {
+            await storage.releaseLock(store.id, 'pull');
+          } catch (unlockError) {
+            console.error(`[Sync] Error liberando lock:`, unlockError);
+          }
         }
       }
     }
@@ -597,7 +1300,7 @@ export class SyncService {
     skus: string[],
     options: SyncOptions = {}
   ): Promise<SyncResult> {
-    const { dryRun = false, skipRecentPushCheck = false, skipSyncLog = false } = options;
+    const { dryRun = false, skipRecentPushCheck = false, skipSyncLog = false, runId, shouldCancel } = options;
     const startTime = Date.now();
 
     console.log(`[Sync] Iniciando Pull Selectivo: Store ${storeId}, Integration ${integrationId}`);
@@ -637,48 +1340,53 @@ export class SyncService {
       // 4. Crear conectores
       const storeConnector = this.getStoreConnector(store);
 
-      const settings = integration.settings as any;
-      const contificoStore = {
-        id: 0,
-        tenantId: integration.tenantId,
-        platform: 'contifico',
-        storeName: integration.name,
-        storeUrl: 'https://api.contifico.com',
-        apiCredentials: settings,
-        syncConfig: {},
-        status: 'active' as const,
-        connectionStatus: 'connected' as const,
-        lastConnectionTest: null,
-        storeInfo: {},
-        productsCount: 0,
-        lastSyncAt: null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      const erpConnector = createErpConnector(integration);
+
+      const locationMappings = await this.getStoreLocationMappings(store, integrationId);
 
-      const contificoConnector = new ContificoConnector(contificoStore);
+      const priceConfig = await this.getStorePriceSyncConfig(store, integrationId, storeConnector, erpConnector);
 
-      const warehouseName = settings.warehouse_primary
-        ? await this.getWarehouseName(contificoConnector, settings.warehouse_primary)
-        : 'Stock Global';
+      const warehouseName = locationMappings.length > 0
+        ? `${locationMappings.length} ubicaciones mapeadas`
+        : erpConnector.primaryWarehouseId
+          ? await this.getWarehouseName(erpConnector, erpConnector.primaryWarehouseId)
+          : 'Stock Global';
 
       // 5. Obtener productos de la tienda y FILTRAR por SKUs seleccionados
       console.log(`[Sync] Obteniendo productos de ${store.platform} que tienen SKU...`);
       const allStoreProducts = await storeConnector.getProductsWithSku();
 
       // FILTRO: Solo productos con SKUs seleccionados
-      const productsToSync = allStoreProducts.filter(p => skus.includes(p.sku));
+      const selectedProducts = allStoreProducts.filter(p => skus.includes(p.sku));
 
-      if (productsToSync.length === 0) {
+      if (selectedProducts.length === 0) {
         throw new Error('No se encontraron productos con los SKUs especificados');
       }
 
+      // Aplicar límite de productos del plan
+      const productQuota = await QuotaService.applyProductQuota(store.tenantId, storeId, selectedProducts);
+      const productsToSync = productQuota.allowed;
+      if (productQuota.truncated > 0) {
+        results.quotaTruncated = productQuota.truncated;
+        console.log(`[Sync] ⚠️ ${productQuota.truncated} productos omitidos por el límite de ${productQuota.limit} productos del plan`);
+      }
+
       console.log(`[Sync] ${productsToSync.length} productos seleccionados para sincronizar`);
+
+      const zeroGuardConfig = await this.getStoreZeroGuardConfig(store, integrationId);
+      const zeroGuard = new ZeroStockGuard(
+        dryRun ? { ...zeroGuardConfig, enabled: false } : zeroGuardConfig,
+        allStoreProducts.length
+      );
       console.log(`[Sync] Sincronizando inventario desde Contífico...`);
 
+      const reporter = SyncEvents.reporter(runId, store.tenantId, store.id, 'pull_selective');
+      reporter.started(productsToSync.length);
+
       // 6. Procesar por lotes (de 20 en 20)
       const batchSize = 20;
       let processedCount = 0;
+      const pendingStockUpdates: PendingStockUpdate[] = [];
 
       for (let i = 0; i < productsToSync.length; i += batchSize) {
         const batch = productsToSync.slice(i, i + batchSize);
@@ -686,6 +1394,11 @@ export class SyncService {
         const totalBatches = Math.ceil(productsToSync.length / batchSize);
 
         console.log(`[Sync] Procesando lote ${batchNumber}/${totalBatches} (${batch.length} productos)`);
+        const batchItemsStart = itemsToSave.length;
+
+        const locationLevels = locationMappings.length > 0
+          ? await this.getBatchLocationLevels(storeConnector as ShopifyConnector, batch, locationMappings)
+          : new Map<string, number>();
 
         // Usar la misma lógica de procesamiento que pullFromIntegration
         // (copiamos el código de procesamiento para mantener consistencia)
@@ -718,9 +1431,9 @@ export class SyncService {
               console.log(`[Sync] Procesando: ${sku} - ${title}`);
 
               // Buscar producto en Contífico
-              let contificoProductResult;
+              let erpProduct;
               try {
-                contificoProductResult = await contificoConnector.getProduct(sku);
+                erpProduct = await erpConnector.getProductBySku(sku);
               } catch (error: any) {
                 console.log(`[Sync] ⚠️ Producto ${sku} no encontrado en Contífico`);
                 results.skipped++;
@@ -748,7 +1461,7 @@ export class SyncService {
                 return;
               }
 
-              if (!contificoProductResult.product) {
+              if (!erpProduct) {
                 console.log(`[Sync] ⚠️ Producto ${sku} no encontrado en Contífico`);
                 results.skipped++;
 
@@ -775,29 +1488,69 @@ export class SyncService {
                 return;
               }
 
-              const contificoProduct = contificoProductResult.product;
+              // Precio: se actualiza aunque el stock no cambie
+              const priceChanged = priceConfig.enabled &&
+                await this.pullProductPrice(storeConnector, erpConnector, priceConfig, storeProduct, erpProduct, itemRecord, results, dryRun);
+
+              // Multi-ubicación: cada ubicación de Shopify recibe el stock de su bodega
+              if (locationMappings.length > 0 && inventory_item_id) {
+                await this.pullProductByLocation(
+                  {
+                    store,
+                    storeConnector: storeConnector as ShopifyConnector,
+                    erpConnector,
+                    mappings: locationMappings,
+                    levels: locationLevels,
+                    dryRun,
+                    skipRecentPushCheck,
+                    results,
+                    itemsToSave,
+                    zeroGuard,
+                  },
+                  storeProduct,
+                  erpProduct,
+                  itemRecord,
+                  priceChanged
+                );
+                return;
+              }
 
-              // Obtener stock
-              let contificoStock: number;
+              // Obtener stock (desconocido: el SKU no se toca)
+              let erpStock: number;
 
-              if (settings.warehouse_primary) {
+              if (erpConnector.primaryWarehouseId) {
                 try {
-                  const rawStock = await contificoConnector.getProductStock(
-                    contificoProduct.id,
-                    sku
+                  erpStock = await erpConnector.getProductStock(
+                    erpProduct,
+                    erpConnector.primaryWarehouseId
                   );
-                  contificoStock = Math.floor(Number(rawStock) || 0);
                 } catch (error: any) {
-                  contificoStock = Math.floor(Number(contificoProduct.stock_quantity) || 0);
+                  this.failUnknownStock(itemRecord, error.message, results, itemsToSave);
+                  return;
                 }
               } else {
-                contificoStock = Math.floor(Number(contificoProduct.stock_quantity) || 0);
+                const globalStock = parseStockValue(erpProduct.stock_quantity);
+                if (globalStock === null) {
+                  this.failUnknownStock(itemRecord, `${erpConnector.displayName} no devolvió el stock global`, results, itemsToSave);
+                  return;
+                }
+                erpStock = globalStock;
+              }
+
+              if (!zeroGuard.allow(currentStock, erpStock)) {
+                this.skipZeroGuarded(itemRecord, currentStock, results, itemsToSave);
+                return;
               }
 
               // Comparar stocks
-              if (currentStock === contificoStock) {
-                console.log(`[Sync] ✓ Stock igual (${contificoStock}), omitiendo: ${sku}`);
-                results.skipped++;
+              if (currentStock === erpStock) {
+                if (priceChanged) {
+                  console.log(`[Sync] ✓ Stock igual (${erpStock}), solo cambió el precio: ${sku}`);
+                  results.success++;
+                } else {
+                  console.log(`[Sync] ✓ Stock igual (${erpStock}), omitiendo: ${sku}`);
+                  results.skipped++;
+                }
 
                 if (!dryRun) {
                   await storage.upsertProduct({
@@ -815,15 +1568,15 @@ export class SyncService {
                   });
                 }
 
-                itemRecord.status = 'skipped';
-                itemRecord.errorCategory = 'no_changes';
-                itemRecord.errorMessage = 'Stock sin cambios';
-                itemRecord.stockAfter = contificoStock;
+                itemRecord.status = priceChanged ? 'success' : 'skipped';
+                itemRecord.errorCategory = priceChanged ? null : 'no_changes';
+                itemRecord.errorMessage = priceChanged ? null : 'Stock sin cambios';
+                itemRecord.stockAfter = erpStock;
                 itemsToSave.push(itemRecord);
                 return;
               }
 
-              console.log(`[Sync] Stock diferente: Tienda=${currentStock}, Contífico=${contificoStock}`);
+              console.log(`[Sync] Stock diferente: Tienda=${currentStock}, Contífico=${erpStock}`);
 
               // Verificar si hay pushes recientes (evitar sobrescribir cambios frescos)
               // Solo si no es un Pull automático post-Push
@@ -842,25 +1595,25 @@ export class SyncService {
                 }
               }
 
-              // Actualizar stock
+              // Actualizar stock (WooCommerce y Shopify bulk: se acumula y se envía por lotes)
+              if (!dryRun && this.canBatchStockUpdate(store, storeProduct)) {
+                pendingStockUpdates.push({ storeProduct, erpStock, currentStock, itemRecord });
+                return;
+              }
+
               if (!dryRun) {
                 try {
                   if (store.platform === 'shopify' && inventory_item_id) {
                     await (storeConnector as ShopifyConnector).updateVariantStock!(
                       variant_id,
                       inventory_item_id,
-                      contificoStock
-                    );
-                  } else if (store.platform === 'woocommerce') {
-                    await (storeConnector as WooCommerceConnector).updateProductStock!(
-                      variant_id,
-                      contificoStock
+                      erpStock
                     );
                   } else {
                     throw new Error(`Plataforma ${store.platform} no soportada`);
                   }
 
-                  console.log(`[Sync] ✅ Actualizado: ${sku} → ${contificoStock} unidades`);
+                  console.log(`[Sync] ✅ Actualizado: ${sku} → ${erpStock} unidades`);
 
                   await storage.upsertProduct({
                     tenantId: store.tenantId,
@@ -868,7 +1621,7 @@ export class SyncService {
                     platformProductId: variant_id.toString(),
                     sku: sku,
                     name: title,
-                    stockQuantity: contificoStock,
+                    stockQuantity: erpStock,
                     manageStock: true,
                     price: null,
                     data: storeProduct,
@@ -879,7 +1632,7 @@ export class SyncService {
                   results.success++;
 
                   itemRecord.status = 'success';
-                  itemRecord.stockAfter = contificoStock;
+                  itemRecord.stockAfter = erpStock;
                   itemsToSave.push(itemRecord);
 
                 } catch (updateError: any) {
@@ -910,11 +1663,11 @@ export class SyncService {
                   itemsToSave.push(itemRecord);
                 }
               } else {
-                console.log(`[Sync] [DRY-RUN] Se actualizaría: ${sku} → ${contificoStock} unidades`);
+                console.log(`[Sync] [DRY-RUN] Se actualizaría: ${sku} → ${erpStock} unidades`);
                 results.success++;
 
                 itemRecord.status = 'success';
-                itemRecord.stockAfter = contificoStock;
+                itemRecord.stockAfter = erpStock;
                 itemsToSave.push(itemRecord);
               }
 
@@ -952,10 +1705,36 @@ export class SyncService {
           })
         );
 
+        // Protección de stock disparada: los ceros acumulados no se escriben
+        if (zeroGuard.isTripped) {
+          const zeroUpdates = pendingStockUpdates.filter(p => p.erpStock === 0 && p.currentStock > 0);
+          const otherUpdates = pendingStockUpdates.filter(p => !zeroUpdates.includes(p));
+          pendingStockUpdates.splice(0, pendingStockUpdates.length, ...otherUpdates);
+          zeroUpdates.forEach(p => this.skipZeroGuarded(p.itemRecord, p.currentStock, results, itemsToSave));
+        }
+
+        // Cancelación cooperativa entre lotes
+        const isLastBatch = i + batchSize >= productsToSync.length;
+        const cancelled = !isLastBatch && !zeroGuard.isTripped && !!shouldCancel && await shouldCancel();
+
+        if (pendingStockUpdates.length >= STOCK_BATCH_SIZE || isLastBatch || cancelled || zeroGuard.isTripped) {
+          await this.flushStockUpdates(store, storeConnector, pendingStockUpdates.splice(0), results, itemsToSave);
+        }
+
         processedCount += batch.length;
         console.log(`[Sync] Progreso: ${processedCount}/${productsToSync.length} productos procesados`);
+        reporter.progress(batchNumber, totalBatches, processedCount, productsToSync.length, results, itemsToSave.slice(batchItemsStart));
 
-        if (i + batchSize < productsToSync.length) {
+        if (zeroGuard.isTripped) {
+          throw zeroGuard.toError();
+        }
+        if (cancelled) {
+          results.cancelled = true;
+          console.log(`[Sync] ⏹️ Pull selectivo cancelado tras ${processedCount}/${productsToSync.length} productos`);
+          break;
+        }
+
+        if (!isLastBatch) {
           await new Promise(resolve => setTimeout(resolve, 500));
         }
       }
@@ -968,18 +1747,20 @@ export class SyncService {
           tenantId: store.tenantId,
           storeId: store.id,
           syncType: 'pull_selective',
-          status: results.failed > 0 ? 'partial' : 'success',
+          status: results.cancelled ? 'cancelled' : results.failed > 0 ? 'partial' : 'success',
           syncedCount: results.success,
           errorCount: results.failed,
           durationMs,
-          errorMessage: null,
+          errorMessage: results.cancelled ? 'Cancelado por el usuario' : null,
           details: {
             integration_id: integrationId,
-            warehouse_id: settings.warehouse_primary || null,
+            warehouse_id: erpConnector.primaryWarehouseId || null,
             warehouse_name: warehouseName,
+            location_mappings: locationMappings.length > 0 ? locationMappings : undefined,
             selected_skus: skus,
             total_selected: skus.length,
             total_processed: productsToSync.length,
+            quota_truncated: productQuota.truncated,
             success: results.success,
             failed: results.failed,
             skipped: results.skipped,
@@ -999,6 +1780,7 @@ export class SyncService {
 
           try {
             await storage.createSyncLogItems(itemsWithLogId);
+            await this.saveStockSnapshots(syncLog, itemsToSave);
             console.log(`[Sync] ✅ Guardados ${itemsWithLogId.length} items en sync_log_items con sync_log_id=${syncLog.id}`);
           } catch (saveError: any) {
             console.error(`[Sync] ❌ Error guardando sync_log_items:`, saveError.message);
@@ -1017,12 +1799,12 @@ export class SyncService {
         console.log(`[Sync] ✅ Store actualizada: ${currentProducts.length} productos, lastSyncAt=${new Date().toISOString()}`);
 
         // Crear notificación para sincronización selectiva manual exitosa
-        if (results.success > 0 || results.failed === 0) {
+        if (!results.cancelled && (results.success > 0 || results.failed === 0)) {
           const severity = results.failed > 0 ? 'warning' : 'success';
           const title = results.failed > 0
             ? 'Sincronización selectiva parcialmente exitosa'
             : 'Sincronización selectiva completada';
-          const message = `Se sincronizaron ${results.success} de ${skus.length} productos seleccionados exitosamente${results.failed > 0 ? `, ${results.failed} fallaron` : ''}${results.skipped > 0 ? `, ${results.skipped} omitidos` : ''}.`;
+          const message = `Se sincronizaron ${results.success} de ${skus.length} productos seleccionados exitosamente${results.failed > 0 ? `, ${results.failed} fallaron` : ''}${results.skipped > 0 ? `, ${results.skipped} omitidos` : ''}${results.quotaTruncated ? `, ${results.quotaTruncated} excluidos por el límite de productos del plan` : ''}.`;
 
           await storage.createNotification({
             tenantId: store.tenantId,
@@ -1087,6 +1869,11 @@ export class SyncService {
               syncLogId: syncLog.id
             }));
             await storage.createSyncLogItems(itemsWithLogId);
+            await this.saveStockSnapshots(syncLog, itemsToSave);
+          }
+
+          if (error instanceof ZeroStockGuardError) {
+            await this.notifyZeroGuardTripped(syncLog, error);
           }
         }
       } catch (logError) {
@@ -1098,16 +1885,642 @@ export class SyncService {
   }
 
   /**
-   * Obtiene el nombre de una bodega desde Contífico
+   * Obtiene el mapeo ubicación ↔ bodega configurado en la vinculación tienda-integración
+   * Solo aplica a Shopify (WooCommerce no maneja ubicaciones)
+   */
+  private static async getStoreLocationMappings(
+    store: any,
+    integrationId: number
+  ): Promise<LocationWarehouseMapping[]> {
+    if (store.platform !== 'shopify') {
+      return [];
+    }
+
+    const storeIntegrations = await storage.getStoreIntegrations(store.id);
+    const link = storeIntegrations.find(si => si.integrationId === integrationId);
+    const mappings = getLocationMappings(link?.syncConfig);
+
+    if (mappings.length > 0) {
+      console.log(`[Sync] Multi-ubicación: ${mappings.map(m => `${m.locationName || m.locationId}→${m.warehouseId}`).join(', ')}`);
+    }
+
+    return mappings;
+  }
+
+  /**
+   * Adquiere el lock de Pull de la tienda y renueva su lease mientras el Pull está en curso
+   * @returns null si otra operación tiene el lock
+   */
+  private static async acquirePullLock(storeId: number, processId: string): Promise<PullLockLease | null> {
+    const lock = await storage.acquireLock(storeId, 'pull', processId, PULL_LOCK_LEASE_MS);
+    if (!lock) {
+      return null;
+    }
+
+    let lost = false;
+    const renewal = setInterval(async () => {
+      try {
+        if (!await storage.renewLock(storeId, 'pull', processId, PULL_LOCK_LEASE_MS)) {
+          lost = true;
+          clearInterval(renewal);
+          console.warn(`[Sync] ⚠️ Lock de Pull de la tienda ${storeId} perdido (lease expirado)`);
+        }
+      } catch (error: any) {
+        console.error(`[Sync] Error renovando lock de Pull de la tienda ${storeId}:`, error.message);
+      }
+    }, Math.floor(PULL_LOCK_LEASE_MS / 3));
+
+    return {
+      isLost: () => lost,
+      stop: () => clearInterval(renewal),
+    };
+  }
+
+  /**
+   * Carga el log de un Pull a reanudar: sus items son los SKUs ya procesados
+   * y de ellos salen los contadores acumulados
+   */
+  private static async loadResumablePull(
+    syncLogId: number,
+    storeId: number,
+    results: SyncResult,
+    processedSkus: Set<string>
+  ): Promise<SyncLog> {
+    const syncLog = await storage.getSyncLog(syncLogId);
+    if (!syncLog || syncLog.storeId !== storeId || syncLog.syncType !== 'pull' || !syncLog.checkpoint) {
+      throw new Error(`El Pull del log ${syncLogId} no se puede reanudar`);
+    }
+
+    for (const item of await storage.getSyncLogItems(syncLog.id)) {
+      processedSkus.add(item.sku);
+      if (item.status === 'success') {
+        results.success++;
+      } else if (item.status === 'failed') {
+        results.failed++;
+        results.errors.push({ sku: item.sku, error: item.errorMessage || 'Error desconocido' });
+      } else {
+        results.skipped++;
+      }
+    }
+
+    return syncLog;
+  }
+
+  /**
+   * Punto de control de un Pull: guarda los items de los lotes completados, el stock
+   * que reemplazaron (para restaurarlo) y el avance
+   */
+  private static async saveCheckpoint(
+    syncLog: SyncLog,
+    items: Array<any>,
+    results: SyncResult,
+    checkpoint: PullCheckpoint
+  ): Promise<void> {
+    const syncLogId = syncLog.id;
+    if (items.length > 0) {
+      await storage.createSyncLogItems(items.map(item => ({ ...item, syncLogId })));
+      await this.saveStockSnapshots(syncLog, items);
+    }
+    await storage.updateSyncLog(syncLogId, {
+      syncedCount: results.success,
+      errorCount: results.failed,
+      checkpoint,
+    });
+  }
+
+  /**
+   * Guarda el stock que reemplazaron los SKUs escritos por un Pull (snapshot para restaurarlo)
+   */
+  private static async saveStockSnapshots(syncLog: SyncLog, items: Array<any>): Promise<void> {
+    await storage.createPullStockSnapshots(
+      this.toPlannedChanges(items).map(change => ({
+        syncLogId: syncLog.id,
+        storeId: syncLog.storeId!, // Los logs de Pull siempre tienen tienda
+        sku: change.sku,
+        productId: change.productId,
+        productName: change.productName,
+        stockBefore: change.stockBefore,
+        stockAfter: change.stockAfter,
+        locations: change.locations ?? null,
+      }))
+    );
+  }
+
+  /**
+   * Stock desconocido en el ERP (error o respuesta inválida): el SKU no se toca, nunca se escribe como cero
+   */
+  private static failUnknownStock(itemRecord: any, reason: string, results: SyncResult, itemsToSave: Array<any>): void {
+    console.warn(`[Sync] ⚠️ Stock desconocido para ${itemRecord.sku}, no se modifica: ${reason}`);
+    results.failed++;
+    results.errors.push({ sku: itemRecord.sku, error: `Stock desconocido: ${reason}` });
+
+    itemRecord.status = 'failed';
+    itemRecord.errorCategory = 'unknown_stock';
+    itemRecord.errorMessage = `Stock desconocido en el ERP, no se modificó: ${reason}`;
+    itemsToSave.push(itemRecord);
+  }
+
+  /**
+   * SKU que quedaría en cero con la protección de stock ya disparada: no se escribe
+   */
+  private static skipZeroGuarded(itemRecord: any, currentStock: number, results: SyncResult, itemsToSave: Array<any>): void {
+    console.warn(`[Sync] 🛡️ Protección de stock: ${itemRecord.sku} no se deja en cero`);
+    results.skipped++;
+
+    itemRecord.status = 'skipped';
+    itemRecord.errorCategory = 'zero_guard';
+    itemRecord.errorMessage = 'Protección de stock: demasiados productos quedarían en cero';
+    itemRecord.stockAfter = currentStock;
+    itemsToSave.push(itemRecord);
+  }
+
+  /**
+   * Avisa al tenant que un Pull se detuvo por la protección de stock
+   */
+  private static async notifyZeroGuardTripped(syncLog: SyncLog, error: ZeroStockGuardError): Promise<void> {
+    await storage.createNotification({
+      tenantId: syncLog.tenantId,
+      userId: null,
+      storeId: syncLog.storeId,
+      type: 'sync_zero_guard',
+      title: 'Sincronización detenida por protección de stock',
+      message: `${error.zeroed} de ${error.evaluated} productos evaluados iban a quedar en cero (el máximo es ${error.maxZeroedPercent}%). Revisa el stock en el ERP; puedes restaurar el stock anterior desde el historial de sincronizaciones.`,
+      severity: 'error',
+      read: false,
+      data: {
+        syncLogId: syncLog.id,
+        syncType: syncLog.syncType,
+        zeroed: error.zeroed,
+        evaluated: error.evaluated,
+      },
+    });
+  }
+
+  /**
+   * Cambios de stock efectivos de los items de un Pull (en dry-run, los que se harían)
+   * Un item multi-ubicación con fallos parciales incluye solo las ubicaciones escritas
+   */
+  private static toPlannedChanges(items: Array<any>): PlannedStockChange[] {
+    return items
+      .filter(item => item.status === 'success' || item.locationChanges?.length > 0)
+      .map(item => {
+        const stockBefore = Math.floor(Number(item.stockBefore) || 0);
+        const stockAfter = Math.floor(Number(item.stockAfter) || 0);
+        return {
+          sku: item.sku,
+          productId: item.productId,
+          productName: item.productName ?? null,
+          stockBefore,
+          stockAfter,
+          warning: classifyStockChange(stockBefore, stockAfter),
+          locations: item.locationChanges,
+        };
+      })
+      .filter(change => change.stockBefore !== change.stockAfter);
+  }
+
+  /**
+   * Decide si el Pull es completo o incremental
+   * Incremental solo si está habilitado en syncConfig.pull.delta, el ERP detecta cambios,
+   * hubo un Pull exitoso antes y el último Pull completo está dentro del intervalo configurado
+   */
+  private static async getPullPlan(
+    store: any,
+    integrationId: number,
+    erpConnector: ErpConnector,
+    mode: PullMode | 'auto'
+  ): Promise<PullPlan> {
+    const fullPlan = (reason: string): PullPlan => ({ mode: 'full', since: null, retrySkus: [], reason });
+
+    if (mode === 'full') {
+      return fullPlan('solicitado');
+    }
+
+    const storeIntegrations = await storage.getStoreIntegrations(store.id);
+    const config = getDeltaPullConfig(storeIntegrations.find(si => si.integrationId === integrationId)?.syncConfig);
+
+    if (mode === 'auto' && !config.enabled) {
+      return fullPlan('incremental deshabilitado');
+    }
+    if (!erpConnector.getChangedSkus) {
+      return fullPlan(`${erpConnector.displayName} no soporta detección de cambios`);
+    }
+
+    const lastPull = await storage.getLastSuccessfulPull(store.id, integrationId);
+    if (!lastPull?.createdAt) {
+      return fullPlan('sin Pull previo');
+    }
+
+    if (mode === 'auto') {
+      const lastFull = lastPull.syncMode === 'delta' ? await storage.getLastSuccessfulPull(store.id, integrationId, 'full') : lastPull;
+      const fullIntervalMs = config.fullSyncIntervalHours * 60 * 60 * 1000;
+      if (!lastFull?.createdAt || Date.now() - lastFull.createdAt.getTime() >= fullIntervalMs) {
+        return fullPlan(`Pull completo periódico (cada ${config.fullSyncIntervalHours}h)`);
+      }
+    }
+
+    // Desde el INICIO del último Pull: los cambios ocurridos mientras corría se vuelven a revisar
+    // (los logs con started_at se crean al iniciar; los anteriores se registraban al terminar)
+    const startedAt = (lastPull.details as any)?.started_at;
+    const since = startedAt
+      ? new Date(startedAt)
+      : new Date(lastPull.createdAt.getTime() - (lastPull.durationMs || 0));
+
+    // Reintentar lo que quedó pendiente en el Pull anterior aunque no tenga cambios nuevos
+    const [failedItems, skippedItems] = await Promise.all([
+      storage.getSyncLogItemsWithErrors(lastPull.id),
+      storage.getSyncLogItemsSkipped(lastPull.id),
+    ]);
+    const retrySkus = [
+      ...failedItems.map(item => item.sku),
+      ...skippedItems.filter(item => item.errorCategory === 'recent_push').map(item => item.sku),
+    ];
+
+    return { mode: 'delta', since, retrySkus, reason: `cambios desde ${since.toISOString()}` };
+  }
+
+  /**
+   * Protección contra el vaciado masivo de stock de la vinculación tienda-integración
+   */
+  private static async getStoreZeroGuardConfig(store: any, integrationId: number): Promise<ZeroGuardConfig> {
+    const storeIntegrations = await storage.getStoreIntegrations(store.id);
+    const link = storeIntegrations.find(si => si.integrationId === integrationId);
+    return getZeroGuardConfig(link?.syncConfig);
+  }
+
+  /**
+   * Configuración del Pull de precios de la vinculación tienda-integración
+   * Se desactiva si el ERP o la plataforma no soportan precios
+   */
+  private static async getStorePriceSyncConfig(
+    store: any,
+    integrationId: number,
+    storeConnector: BaseConnector,
+    erpConnector: ErpConnector
+  ): Promise<PriceSyncConfig> {
+    const storeIntegrations = await storage.getStoreIntegrations(store.id);
+    const link = storeIntegrations.find(si => si.integrationId === integrationId);
+    const config = getPriceSyncConfig(link?.syncConfig);
+
+    if (config.enabled && (!erpConnector.getProductPrice || !storeConnector.updateVariantPrice)) {
+      console.warn(`[Sync] ⚠️ Sincronización de precios no soportada entre ${erpConnector.displayName} y ${store.platform}, se omite`);
+      return { ...config, enabled: false };
+    }
+
+    if (config.enabled) {
+      console.log(`[Sync] Precios: ${config.priceList.toUpperCase()}, ${config.includeTax ? 'IVA incluido' : 'sin IVA'}, redondeo ${config.rounding}, umbral ${config.minChangePercent}%`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Pull del precio de un producto: escribe el precio del ERP en la tienda si el
+   * cambio supera el umbral. Registra priceBefore/priceAfter en el item; un error
+   * de precio se reporta pero no detiene el Pull de stock.
+   * @returns true si el precio cambió (o cambiaría en dry-run)
+   */
+  private static async pullProductPrice(
+    storeConnector: BaseConnector,
+    erpConnector: ErpConnector,
+    config: PriceSyncConfig,
+    storeProduct: any,
+    erpProduct: StandardProduct,
+    itemRecord: any,
+    results: SyncResult,
+    dryRun: boolean
+  ): Promise<boolean> {
+    const { sku, product_id, variant_id } = storeProduct;
+
+    const erpPrice = erpConnector.getProductPrice!(erpProduct, config.priceList);
+    if (!erpPrice) {
+      console.log(`[Sync] ⚠️ ${sku} sin precio en ${config.priceList.toUpperCase()}, se mantiene el precio de la tienda`);
+      return false;
+    }
+
+    const currentPrice = typeof storeProduct.price === 'number' ? storeProduct.price : null;
+    const newPrice = calculateStorePrice(erpPrice.price, erpPrice.taxRate, config);
+
+    itemRecord.priceBefore = currentPrice !== null ? currentPrice.toFixed(2) : null;
+    itemRecord.priceAfter = itemRecord.priceBefore;
+
+    if (!isSignificantPriceChange(currentPrice, newPrice, config.minChangePercent)) {
+      return false;
+    }
+
+    if (dryRun) {
+      console.log(`[Sync] [DRY-RUN] Se actualizaría el precio: ${sku} → $${newPrice.toFixed(2)}`);
+      itemRecord.priceAfter = newPrice.toFixed(2);
+      return true;
+    }
+
+    try {
+      await storeConnector.updateVariantPrice!(product_id, variant_id, newPrice);
+      console.log(`[Sync] ✅ Precio actualizado: ${sku} $${itemRecord.priceBefore ?? '-'} → $${newPrice.toFixed(2)}`);
+      itemRecord.priceAfter = newPrice.toFixed(2);
+      return true;
+    } catch (error: any) {
+      console.error(`[Sync] ❌ Error actualizando precio para ${sku}:`, error.message);
+      results.errors.push({
+        sku,
+        error: `Error al actualizar precio: ${error.message}`
+      });
+      return false;
+    }
+  }
+
+  /**
+   * true si el stock del producto se puede enviar por lote
+   * Shopify solo con los niveles por ubicación de la bulk operation (compareQuantity)
+   */
+  private static canBatchStockUpdate(store: any, storeProduct: any): boolean {
+    if (store.platform === 'woocommerce') {
+      return true;
+    }
+    return store.platform === 'shopify' && storeProduct.inventory_levels?.length > 0;
+  }
+
+  /**
+   * Productos con SKU para el Pull completo
+   * Shopify usa una bulk operation de GraphQL (con stock por ubicación); si falla se usa REST
+   */
+  private static async getStoreProductsForPull(store: any, storeConnector: BaseConnector): Promise<any[]> {
+    if (store.platform === 'shopify') {
+      try {
+        return await (storeConnector as ShopifyConnector).getProductsWithSkuBulk();
+      } catch (error: any) {
+        console.warn(`[Sync] ⚠️ Bulk operation de Shopify falló, usando REST: ${error.message}`);
+      }
+    }
+    return storeConnector.getProductsWithSku();
+  }
+
+  /**
+   * Envía las actualizaciones de stock acumuladas y registra el resultado de cada SKU
+   * WooCommerce: endpoints batch (por variant_id)
+   * Shopify: inventorySetQuantities en la primera ubicación del item (por inventory_item_id)
+   */
+  private static async flushStockUpdates(
+    store: any,
+    storeConnector: BaseConnector,
+    pending: PendingStockUpdate[],
+    results: SyncResult,
+    itemsToSave: Array<any>
+  ): Promise<void> {
+    if (pending.length === 0) {
+      return;
+    }
+
+    const isShopify = store.platform === 'shopify';
+    const updateId = (p: PendingStockUpdate): number =>
+      isShopify ? p.storeProduct.inventory_item_id : p.storeProduct.variant_id;
+
+    const { updated, errors } = isShopify
+      ? await (storeConnector as ShopifyConnector).setInventoryQuantities(
+          pending.map((p) => {
+            const level = p.storeProduct.inventory_levels[0];
+            return {
+              inventory_item_id: p.storeProduct.inventory_item_id,
+              location_id: level.location_id,
+              quantity: p.erpStock,
+              compare_quantity: level.available,
+            };
+          })
+        )
+      : await (storeConnector as WooCommerceConnector).updateStockBatch(
+          pending.map((p) => ({ id: p.storeProduct.variant_id, quantity: p.erpStock }))
+        );
+    const updatedIds = new Set(updated);
+
+    for (const p of pending) {
+      const { storeProduct, erpStock, currentStock, itemRecord } = p;
+      const { sku, variant_id, title } = storeProduct;
+      const success = updatedIds.has(updateId(p));
+
+      if (success) {
+        console.log(`[Sync] ✅ Actualizado: ${sku} → ${erpStock} unidades`);
+        results.success++;
+        itemRecord.status = 'success';
+        itemRecord.stockAfter = erpStock;
+      } else {
+        const updateError = errors.find((e) => e.id === updateId(p))?.error || 'Error desconocido';
+        console.error(`[Sync] ❌ Error actualizando stock para ${sku}:`, updateError);
+        results.failed++;
+        results.errors.push({
+          sku,
+          error: `Error al actualizar stock: ${updateError}`
+        });
+        itemRecord.status = 'failed';
+        itemRecord.errorCategory = 'update_error';
+        itemRecord.errorMessage = updateError;
+      }
+
+      // Cache de productos con el stock que quedó en la tienda
+      await storage.upsertProduct({
+        tenantId: store.tenantId,
+        storeId: store.id,
+        platformProductId: variant_id.toString(),
+        sku: sku,
+        name: title,
+        stockQuantity: success ? erpStock : currentStock,
+        manageStock: true,
+        price: null,
+        data: storeProduct,
+        lastModifiedAt: new Date(),
+        lastModifiedBy: 'pull'
+      });
+
+      itemsToSave.push(itemRecord);
+    }
+  }
+
+  /**
+   * Obtiene el stock actual por ubicación de un lote de productos (una consulta por lote)
+   */
+  private static async getBatchLocationLevels(
+    storeConnector: ShopifyConnector,
+    batch: Array<{ inventory_item_id?: number }>,
+    mappings: Array<Pick<LocationWarehouseMapping, 'locationId'>>
+  ): Promise<Map<string, number>> {
+    const inventoryItemIds = batch
+      .map(p => p.inventory_item_id)
+      .filter((id): id is number => !!id);
+
+    const levels = new Map<string, number>();
+    if (inventoryItemIds.length === 0) {
+      return levels;
+    }
+
+    const inventoryLevels = await storeConnector.getInventoryLevels(
+      inventoryItemIds,
+      mappings.map(m => m.locationId)
+    );
+
+    for (const level of inventoryLevels) {
+      levels.set(`${level.inventory_item_id}:${level.location_id}`, Math.floor(Number(level.available) || 0));
+    }
+
+    return levels;
+  }
+
+  /**
+   * Pull de un producto en modo multi-ubicación: escribe el stock de cada bodega
+   * de Contífico en su ubicación mapeada de Shopify. stockBefore/stockAfter del
+   * item registran la suma de las ubicaciones mapeadas.
+   */
+  private static async pullProductByLocation(
+    ctx: LocationPullContext,
+    storeProduct: any,
+    erpProduct: StandardProduct,
+    itemRecord: any,
+    priceChanged = false
+  ): Promise<void> {
+    const { store, storeConnector, erpConnector, mappings, levels, dryRun, skipRecentPushCheck, results, itemsToSave, zeroGuard } = ctx;
+    const { sku, variant_id, inventory_item_id, title } = storeProduct;
+    const currentStock = Math.floor(Number(storeProduct.inventory_quantity) || 0);
+
+    let stockByWarehouse: Record<string, number>;
+    try {
+      stockByWarehouse = await erpConnector.getProductStockByWarehouse(erpProduct);
+    } catch (error: any) {
+      this.failUnknownStock(itemRecord, error.message, results, itemsToSave);
+      return;
+    }
+
+    const locations = mappings.map(mapping => ({
+      mapping,
+      before: levels.get(`${inventory_item_id}:${mapping.locationId}`) ?? 0,
+      after: Math.floor(stockByWarehouse[mapping.warehouseId] ?? 0),
+    }));
+    const changes = locations.filter(l => l.before !== l.after);
+    const toLocationChange = (c: typeof locations[number]) => ({
+      locationId: c.mapping.locationId,
+      locationName: c.mapping.locationName,
+      before: c.before,
+      after: c.after,
+    });
+
+    const mappedBefore = locations.reduce((sum, l) => sum + l.before, 0);
+    const mappedAfter = locations.reduce((sum, l) => sum + l.after, 0);
+    itemRecord.stockBefore = mappedBefore;
+
+    if (!zeroGuard.allow(mappedBefore, mappedAfter)) {
+      this.skipZeroGuarded(itemRecord, mappedBefore, results, itemsToSave);
+      return;
+    }
+
+    const cacheProduct = async (stockQuantity: number) => {
+      await storage.upsertProduct({
+        tenantId: store.tenantId,
+        storeId: store.id,
+        platformProductId: variant_id.toString(),
+        sku,
+        name: title,
+        stockQuantity,
+        manageStock: true,
+        price: null,
+        data: storeProduct,
+        lastModifiedAt: new Date(),
+        lastModifiedBy: 'pull'
+      });
+    };
+
+    if (changes.length === 0) {
+      if (priceChanged) {
+        console.log(`[Sync] ✓ Stock igual en ${locations.length} ubicaciones, solo cambió el precio: ${sku}`);
+        results.success++;
+      } else {
+        console.log(`[Sync] ✓ Stock igual en ${locations.length} ubicaciones, omitiendo: ${sku}`);
+        results.skipped++;
+      }
+      if (!dryRun) {
+        await cacheProduct(currentStock);
+      }
+
+      itemRecord.status = priceChanged ? 'success' : 'skipped';
+      itemRecord.errorCategory = priceChanged ? null : 'no_changes';
+      itemRecord.errorMessage = priceChanged ? null : 'Stock sin cambios';
+      itemRecord.stockAfter = mappedAfter;
+      itemsToSave.push(itemRecord);
+      return;
+    }
+
+    console.log(`[Sync] Stock diferente en ${changes.length} ubicaciones para ${sku}: ${changes.map(c => `${c.mapping.locationName || c.mapping.locationId} ${c.before}→${c.after}`).join(', ')}`);
+
+    if (!skipRecentPushCheck && await storage.hasRecentPushMovements(store.id, sku, 5)) {
+      console.log(`[Sync] Push reciente detectado para ${sku}, omitiendo actualización para evitar conflicto`);
+      results.skipped++;
+
+      itemRecord.status = 'skipped';
+      itemRecord.errorCategory = 'recent_push';
+      itemRecord.errorMessage = 'Push reciente detectado, omitiendo para evitar conflicto';
+      itemRecord.stockAfter = mappedBefore;
+      itemsToSave.push(itemRecord);
+      return;
+    }
+
+    if (dryRun) {
+      console.log(`[Sync] [DRY-RUN] Se actualizaría: ${sku} → ${mappedAfter} unidades en ubicaciones mapeadas`);
+      results.success++;
+
+      itemRecord.status = 'success';
+      itemRecord.stockAfter = mappedAfter;
+      itemRecord.locationChanges = changes.map(toLocationChange);
+      itemsToSave.push(itemRecord);
+      return;
+    }
+
+    // Actualizar cada ubicación; el total de la variante incluye ubicaciones no mapeadas
+    // locationChanges registra solo las ubicaciones escritas (snapshot para restaurar)
+    let stockQuantity = currentStock;
+    const failedLocations: string[] = [];
+    itemRecord.locationChanges = [];
+
+    for (const change of changes) {
+      try {
+        await storeConnector.updateVariantStock(variant_id, inventory_item_id, change.after, change.mapping.locationId);
+        stockQuantity += change.after - change.before;
+        itemRecord.locationChanges.push(toLocationChange(change));
+      } catch (updateError: any) {
+        console.error(`[Sync] ❌ Error actualizando ${sku} en ubicación ${change.mapping.locationId}:`, updateError.message);
+        failedLocations.push(`${change.mapping.locationName || change.mapping.locationId}: ${updateError.message}`);
+      }
+    }
+
+    await cacheProduct(stockQuantity);
+
+    if (failedLocations.length > 0) {
+      const errorMessage = `Error al actualizar stock en ${failedLocations.length} ubicaciones: ${failedLocations.join('; ')}`;
+      results.failed++;
+      results.errors.push({ sku, error: errorMessage });
+
+      itemRecord.status = 'failed';
+      itemRecord.errorCategory = 'update_error';
+      itemRecord.errorMessage = errorMessage;
+      itemRecord.stockAfter = mappedBefore + (stockQuantity - currentStock);
+      itemsToSave.push(itemRecord);
+      return;
+    }
+
+    console.log(`[Sync] ✅ Actualizado: ${sku} → ${mappedAfter} unidades en ${locations.length} ubicaciones`);
+    results.success++;
+
+    itemRecord.status = 'success';
+    itemRecord.stockAfter = mappedAfter;
+    itemsToSave.push(itemRecord);
+  }
+
+  /**
+   * Obtiene el nombre de una bodega desde el ERP
    */
   private static async getWarehouseName(
-    contificoConnector: ContificoConnector,
+    erpConnector: ErpConnector,
     warehouseId: string
   ): Promise<string> {
     try {
-      const warehouses = await contificoConnector.getWarehouses();
+      const warehouses = await erpConnector.getWarehouses();
       const warehouse = warehouses.find(w => w.id === warehouseId);
-      return warehouse?.nombre || warehouseId;
+      return warehouse?.name || warehouseId;
     } catch (error) {
       console.warn('[Sync] No se pudo obtener nombre de bodega, usando ID');
       return warehouseId;
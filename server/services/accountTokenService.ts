@@ -0,0 +1,113 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { Mailer } from "./mailer";
+import { passwordResetTemplate, verifyEmailTemplate } from "./emailTemplates";
+import type { User } from "@shared/schema";
+
+export type AccountTokenPurpose = "verify_email" | "reset_password";
+
+export const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  verify_email: EMAIL_VERIFICATION_TTL_MS,
+  reset_password: PASSWORD_RESET_TTL_MS,
+};
+
+interface AccountTokenPayload {
+  p: AccountTokenPurpose;
+  u: number;
+  e: number;
+  f: string;
+}
+
+function getSecret(): string {
+  return process.env.ACCOUNT_TOKEN_SECRET || process.env.SESSION_SECRET!;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/**
+ * Huella del estado que el token consume: al cambiar, el token deja de servir
+ * - verify_email: el correo (cambiarlo invalida el enlace enviado a la dirección anterior)
+ * - reset_password: el hash de la contraseña (el enlace es de un solo uso)
+ */
+function fingerprint(user: User, purpose: AccountTokenPurpose): string {
+  const state = purpose === "verify_email" ? user.email.toLowerCase() : user.passwordHash;
+  return createHash("sha256").update(`${purpose}:${state}`).digest("base64url").slice(0, 16);
+}
+
+/**
+ * Tokens firmados (HMAC) y con vencimiento para los enlaces enviados por correo
+ * No se guardan en la base de datos: la firma y la huella del usuario bastan para validarlos
+ */
+export class AccountTokenService {
+  static create(user: User, purpose: AccountTokenPurpose): string {
+    const payload: AccountTokenPayload = {
+      p: purpose,
+      u: user.id,
+      e: Date.now() + TOKEN_TTL_MS[purpose],
+      f: fingerprint(user, purpose),
+    };
+    const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${data}.${sign(data)}`;
+  }
+
+  /**
+   * Usuario del token si la firma es válida, no venció y el estado no cambió; si no, null
+   */
+  static async verify(token: unknown, purpose: AccountTokenPurpose): Promise<User | null> {
+    if (typeof token !== "string") {
+      return null;
+    }
+
+    const [data, signature] = token.split(".");
+    if (!data || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(sign(data));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    let payload: AccountTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+    } catch {
+      return null;
+    }
+
+    if (payload.p !== purpose || typeof payload.e !== "number" || payload.e < Date.now()) {
+      return null;
+    }
+
+    const user = await storage.getUser(payload.u);
+    if (!user || fingerprint(user, purpose) !== payload.f) {
+      return null;
+    }
+    return user;
+  }
+
+  /**
+   * Envía el enlace para confirmar el correo del usuario
+   * @returns true si el correo se envió
+   */
+  static async sendVerificationEmail(user: User, baseUrl: string): Promise<boolean> {
+    const url = `${baseUrl}/verify-email/${this.create(user, "verify_email")}`;
+    return await Mailer.trySend({ to: user.email, ...verifyEmailTemplate(user.name, url) });
+  }
+
+  /**
+   * Envía el enlace para restablecer la contraseña
+   * @returns true si el correo se envió
+   */
+  static async sendPasswordResetEmail(user: User, baseUrl: string): Promise<boolean> {
+    const url = `${baseUrl}/reset-password/${this.create(user, "reset_password")}`;
+    const ttlMinutes = Math.round(PASSWORD_RESET_TTL_MS / 60000);
+    return await Mailer.trySend({ to: user.email, ...passwordResetTemplate(user.name, url, ttlMinutes) });
+  }
+}
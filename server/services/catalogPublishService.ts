@@ -0,0 +1,196 @@
+import { storage } from "../storage";
+import { createErpConnector } from "../connectors/erp/registry";
+import type { ErpConnector } from "../connectors/erp/ErpConnector";
+import type { StandardProduct } from "../connectors/BaseConnector";
+import type { ShopifyConnector } from "../connectors/ShopifyConnector";
+import type { Integration, Store } from "@shared/schema";
+import { getLocationMappings } from "@shared/location-mappings";
+import { calculateStorePrice, getPriceSyncConfig, type PriceSyncConfig } from "@shared/price-sync";
+import { QuotaService } from "./QuotaService";
+import { SyncService } from "./SyncService";
+
+export type CatalogPublishStatus = "draft" | "active";
+
+/**
+ * Máximo de productos por publicación (se crean uno a uno contra la API de la tienda)
+ */
+export const MAX_PUBLISH_BATCH = 50;
+
+/**
+ * Producto del ERP que aún no existe en la tienda
+ */
+export interface UnpublishedProduct {
+  sku: string;
+  name: string;
+  price: number; // Precio que tendría en la tienda (dólares)
+  stock: number; // Stock global del catálogo del ERP
+  category: string | null;
+}
+
+export interface CatalogPublishResult {
+  created: number;
+  failed: number;
+  products: Array<{ sku: string; productId: string }>;
+  errors: Array<{ sku: string; error: string }>;
+}
+
+/**
+ * Publicación de catálogo: crea en la tienda productos del ERP cuyo SKU no existe
+ * en ella (productos de una variante en Shopify, productos simples en WooCommerce)
+ * Nombre, SKU, precio, categoría y stock se toman del ERP
+ */
+export class CatalogPublishService {
+  /**
+   * Productos activos del ERP cuyo SKU no existe en la tienda
+   */
+  static async listUnpublished(store: Store, integration: Integration): Promise<UnpublishedProduct[]> {
+    const erpConnector = createErpConnector(integration);
+    const storeConnector = SyncService.getStoreConnector(store);
+    const priceConfig = getPriceSyncConfig(await this.getSyncConfig(store.id, integration.id));
+
+    const [erpProducts, storeProducts] = await Promise.all([
+      erpConnector.listProducts(),
+      storeConnector.getProductsWithSku(),
+    ]);
+
+    const storeSkus = new Set(storeProducts.map((p) => p.sku));
+    const unpublished = erpProducts.filter((p) => p.sku && !storeSkus.has(p.sku));
+
+    console.log(
+      `[CatalogPublish] ${store.storeName}: ${unpublished.length} de ${erpProducts.length} productos de ${erpConnector.displayName} no existen en la tienda`,
+    );
+
+    return Promise.all(unpublished.map(async (product) => ({
+      sku: product.sku!,
+      name: product.name,
+      price: this.getStorePrice(erpConnector, product, priceConfig),
+      stock: Math.floor(Number(product.stock_quantity) || 0),
+      category: await this.getCategory(erpConnector, product),
+    })));
+  }
+
+  /**
+   * Crea los SKUs indicados en la tienda. Un error en un producto no detiene los demás
+   * @throws QuotaExceededError (402) si los productos nuevos superan el límite del plan
+   */
+  static async publishProducts(
+    store: Store,
+    integration: Integration,
+    skus: string[],
+    status: CatalogPublishStatus,
+  ): Promise<CatalogPublishResult> {
+    const storeConnector = SyncService.getStoreConnector(store);
+    if (!storeConnector.createProduct) {
+      throw new Error(`La plataforma ${store.platform} no soporta la creación de productos`);
+    }
+
+    await QuotaService.assertCanAddProducts(store.tenantId, skus.length);
+
+    const erpConnector = createErpConnector(integration);
+    const syncConfig = await this.getSyncConfig(store.id, integration.id);
+    const priceConfig = getPriceSyncConfig(syncConfig);
+    const locationMappings = store.platform === "shopify" ? getLocationMappings(syncConfig) : [];
+
+    // Evitar duplicados si el SKU se creó en la tienda después de listar
+    const existingSkus = new Set((await storeConnector.getProductsWithSku()).map((p) => p.sku));
+
+    const result: CatalogPublishResult = { created: 0, failed: 0, products: [], errors: [] };
+
+    console.log(`[CatalogPublish] Publicando ${skus.length} productos en ${store.storeName} (${status})`);
+
+    for (const sku of skus) {
+      try {
+        if (existingSkus.has(sku)) {
+          throw new Error("El SKU ya existe en la tienda");
+        }
+
+        const erpProduct = await erpConnector.getProductBySku(sku);
+        if (!erpProduct) {
+          throw new Error(`Producto no encontrado en ${erpConnector.displayName}`);
+        }
+
+        const price = this.getStorePrice(erpConnector, erpProduct, priceConfig);
+        const stockByWarehouse = locationMappings.length > 0
+          ? await erpConnector.getProductStockByWarehouse(erpProduct)
+          : null;
+        const stock = stockByWarehouse
+          ? null
+          : Math.floor(Number(await erpConnector.getProductStock(erpProduct, erpConnector.primaryWarehouseId)) || 0);
+
+        const created = await storeConnector.createProduct({
+          name: erpProduct.name,
+          sku,
+          price,
+          stock: stock ?? undefined,
+          category: await this.getCategory(erpConnector, erpProduct),
+          status,
+        });
+
+        // Multi-ubicación: cada ubicación mapeada recibe el stock de su bodega
+        let stockQuantity = stock ?? 0;
+        if (stockByWarehouse && created.inventory_item_id) {
+          for (const mapping of locationMappings) {
+            const quantity = Math.floor(Number(stockByWarehouse[mapping.warehouseId]) || 0);
+            await (storeConnector as ShopifyConnector).updateVariantStock(created.variant_id, created.inventory_item_id, quantity, mapping.locationId);
+            stockQuantity += quantity;
+          }
+        }
+
+        await storage.upsertProduct({
+          tenantId: store.tenantId,
+          storeId: store.id,
+          platformProductId: created.variant_id.toString(),
+          sku,
+          name: erpProduct.name,
+          stockQuantity,
+          manageStock: true,
+          price: Math.round(price * 100),
+          data: created,
+          lastModifiedAt: new Date(),
+          lastModifiedBy: "publish",
+        });
+
+        existingSkus.add(sku);
+        result.created++;
+        result.products.push({ sku, productId: created.product_id.toString() });
+        console.log(`[CatalogPublish] ✅ ${sku} publicado (producto ${created.product_id})`);
+      } catch (error: any) {
+        console.error(`[CatalogPublish] ❌ Error publicando ${sku}:`, error.message);
+        result.failed++;
+        result.errors.push({ sku, error: error.message });
+      }
+    }
+
+    console.log(`[CatalogPublish] Publicación completada: ${result.created} creados, ${result.failed} fallidos`);
+    return result;
+  }
+
+  /**
+   * Precio para la tienda: lista de precios configurada (con IVA y redondeo) o precio base del ERP
+   */
+  private static getStorePrice(
+    erpConnector: ErpConnector,
+    product: StandardProduct,
+    priceConfig: PriceSyncConfig,
+  ): number {
+    const erpPrice = erpConnector.getProductPrice?.(product, priceConfig.priceList);
+    if (erpPrice) {
+      return calculateStorePrice(erpPrice.price, erpPrice.taxRate, priceConfig);
+    }
+    return (Number(product.price) || 0) / 100;
+  }
+
+  private static async getCategory(erpConnector: ErpConnector, product: StandardProduct): Promise<string | null> {
+    try {
+      return (await erpConnector.getProductCategory?.(product)) || null;
+    } catch (error: any) {
+      console.warn(`[CatalogPublish] No se pudo obtener la categoría de ${product.sku}:`, error.message);
+      return null;
+    }
+  }
+
+  private static async getSyncConfig(storeId: number, integrationId: number): Promise<any> {
+    const storeIntegrations = await storage.getStoreIntegrations(storeId);
+    return storeIntegrations.find((si) => si.integrationId === integrationId)?.syncConfig || {};
+  }
+}
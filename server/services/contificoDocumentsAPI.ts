@@ -0,0 +1,142 @@
+import { ContificoConnector } from "../connectors/ContificoConnector";
+import { Store } from "@shared/schema";
+
+/**
+ * Cliente de un documento en Contífico
+ */
+interface DocumentCustomer {
+  ruc?: string | null;
+  cedula?: string | null;
+  placa?: string | null; // Pasaporte
+  razon_social: string;
+  telefonos?: string;
+  direccion?: string;
+  tipo: "N" | "J"; // Persona natural o jurídica
+  email?: string;
+  es_extranjero?: boolean;
+}
+
+/**
+ * Detalle de un documento (importes sin IVA, con 2 decimales)
+ */
+interface DocumentDetail {
+  producto_id: string;
+  cantidad: number;
+  precio: number;
+  porcentaje_iva: number;
+  porcentaje_descuento: number;
+  base_cero: number;
+  base_gravable: number;
+  base_no_gravable: number;
+}
+
+/**
+ * Cobro asociado al documento
+ */
+interface DocumentPayment {
+  forma_cobro: string;
+  monto: number;
+  fecha: string;
+}
+
+/**
+ * Interfaz para crear un documento de venta en Contífico
+ */
+export interface CreateDocumentRequest {
+  pos?: string; // Token del punto de venta
+  fecha_emision: string; // dd/mm/yyyy
+  tipo_documento: "FAC";
+  documento: string; // 001-001-000000123
+  estado: "P" | "C"; // Pendiente / Cobrado
+  electronico: boolean;
+  autorizacion?: string;
+  cliente: DocumentCustomer;
+  descripcion?: string;
+  subtotal_0: number;
+  subtotal_12: number; // Base gravada con IVA (nombre histórico de la API)
+  iva: number;
+  ice: number;
+  servicio: number;
+  total: number;
+  detalles: DocumentDetail[];
+  cobros?: DocumentPayment[];
+}
+
+/**
+ * Respuesta de Contífico al crear/consultar un documento
+ */
+export interface DocumentResponse {
+  id: string;
+  documento: string;
+  tipo_documento: string;
+  estado: string; // P, C, G, A (anulado)
+  autorizacion?: string | null;
+  firmado?: boolean;
+  total: string | number;
+  [key: string]: any;
+}
+
+/**
+ * Servicio para emitir documentos de venta (facturas) en Contífico
+ */
+export class ContificoDocumentsAPI {
+  private connector: ContificoConnector;
+
+  constructor(store: Store) {
+    this.connector = new ContificoConnector(store);
+  }
+
+  /**
+   * Crea un documento de venta
+   * @param document - Datos del documento
+   * @returns Respuesta de Contífico
+   */
+  async createDocument(document: CreateDocumentRequest): Promise<DocumentResponse> {
+    try {
+      console.log(
+        `[ContificoDocuments] Creando ${document.tipo_documento} ${document.documento} (total: ${document.total})`,
+      );
+
+      const response = await this.connector["makeRequest"](
+        "POST",
+        "/sistema/api/v1/documento/",
+        document,
+      );
+
+      console.log(
+        `[ContificoDocuments] ✅ Documento creado: ${response.data?.id} (${response.data?.documento})`,
+      );
+
+      return response.data as DocumentResponse;
+    } catch (error: any) {
+      console.error(
+        `[ContificoDocuments] ❌ Error creando documento ${document.documento}:`,
+        error.message,
+      );
+
+      let errorMessage = error.message;
+      if (error.response?.data?.mensaje) {
+        errorMessage = error.response.data.mensaje;
+      } else if (error.response?.data?.message) {
+        errorMessage = error.response.data.message;
+      } else if (error.response?.data?.error) {
+        errorMessage = error.response.data.error;
+      }
+
+      const wrapped: any = new Error(`Error al crear factura en Contífico: ${errorMessage}`);
+      wrapped.response = error.response;
+      throw wrapped;
+    }
+  }
+
+  /**
+   * Consulta un documento por ID
+   */
+  async getDocument(documentId: string): Promise<DocumentResponse> {
+    const response = await this.connector["makeRequest"](
+      "GET",
+      `/sistema/api/v1/documento/${documentId}/`,
+    );
+    return response.data as DocumentResponse;
+  }
+}
@@ -46,6 +46,15 @@ interface MovementResponse {
   [key: string]: any;
 }
 
+/**
+ * Fecha en el formato dd/mm/yyyy de Contífico
+ */
+function formatContificoDate(date: Date): string {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${day}/${month}/${date.getFullYear()}`;
+}
+
 /**
  * Servicio para gestionar movimientos de inventario en Contífico
  * Maneja egresos (salidas) e ingresos (entradas) de productos
@@ -180,6 +189,33 @@ export class ContificoMovementsAPI {
     return await this.createMovement(movement);
   }
 
+  /**
+   * Lista los movimientos de inventario (ingresos, egresos, traslados) de un rango de fechas
+   * Contífico filtra por día: ambas fechas se incluyen completas
+   * @param from - Fecha inicial
+   * @param to - Fecha final (por defecto hoy)
+   * @returns Movimientos con sus detalles (producto_id, cantidad)
+   */
+  async listMovements(from: Date, to: Date = new Date()): Promise<MovementResponse[]> {
+    const fechaInicial = formatContificoDate(from);
+    const fechaFinal = formatContificoDate(to);
+
+    console.log(`[ContificoMovements] Listando movimientos del ${fechaInicial} al ${fechaFinal}`);
+
+    const response = await this.connector["makeRequest"](
+      "GET",
+      "/sistema/api/v1/movimiento-inventario/",
+      null,
+      { params: { fecha_inicial: fechaInicial, fecha_final: fechaFinal } },
+    );
+
+    if (!Array.isArray(response.data)) {
+      throw new Error("Respuesta de movimientos inválida de Contífico");
+    }
+
+    return response.data as MovementResponse[];
+  }
+
   /**
    * Crea un movimiento de inventario en Contífico
    * @param movement - Datos del movimiento
@@ -0,0 +1,89 @@
+import { ContificoConnector } from "../connectors/ContificoConnector";
+import { Store } from "@shared/schema";
+
+/**
+ * Persona (cliente/proveedor) en Contífico
+ */
+export interface ContificoPerson {
+  id: string;
+  tipo: "N" | "J"; // Persona natural o jurídica
+  razon_social: string;
+  nombre_comercial?: string;
+  cedula?: string | null;
+  ruc?: string | null;
+  placa?: string | null; // Pasaporte/identificación del exterior
+  email?: string;
+  telefonos?: string;
+  direccion?: string;
+  es_cliente: boolean;
+  es_proveedor?: boolean;
+  es_extranjero?: boolean;
+  [key: string]: any;
+}
+
+export type PersonRequest = Omit<ContificoPerson, "id">;
+
+/**
+ * Servicio para gestionar personas (clientes) en Contífico
+ */
+export class ContificoPersonsAPI {
+  private connector: ContificoConnector;
+
+  constructor(store: Store) {
+    this.connector = new ContificoConnector(store);
+  }
+
+  /**
+   * Busca una persona por cédula, RUC o pasaporte
+   * @returns La persona o null si no existe
+   */
+  async findByIdentification(identification: string): Promise<ContificoPerson | null> {
+    const response = await this.connector["makeRequest"](
+      "GET",
+      "/sistema/api/v1/persona/",
+      undefined,
+      { params: { identificacion: identification } },
+    );
+
+    const persons: ContificoPerson[] = Array.isArray(response.data) ? response.data : [];
+    return persons.find((p) =>
+      p.cedula === identification || p.ruc === identification || p.placa === identification,
+    ) || null;
+  }
+
+  async createPerson(person: PersonRequest, posToken?: string): Promise<ContificoPerson> {
+    try {
+      console.log(`[ContificoPersons] Creando persona ${person.razon_social}`);
+      const response = await this.connector["makeRequest"](
+        "POST",
+        "/sistema/api/v1/persona/",
+        person,
+        posToken ? { params: { pos: posToken } } : undefined,
+      );
+      console.log(`[ContificoPersons] ✅ Persona creada: ${response.data?.id}`);
+      return response.data as ContificoPerson;
+    } catch (error: any) {
+      throw new Error(`Error al crear persona en Contífico: ${this.extractErrorMessage(error)}`);
+    }
+  }
+
+  async updatePerson(personId: string, person: Partial<PersonRequest>): Promise<ContificoPerson> {
+    try {
+      const response = await this.connector["makeRequest"](
+        "PUT",
+        `/sistema/api/v1/persona/${personId}/`,
+        person,
+      );
+      return response.data as ContificoPerson;
+    } catch (error: any) {
+      throw new Error(`Error al actualizar persona en Contífico: ${this.extractErrorMessage(error)}`);
+    }
+  }
+
+  private extractErrorMessage(error: any): string {
+    return error.response?.data?.mensaje ||
+      error.response?.data?.message ||
+      error.response?.data?.error ||
+      error.message;
+  }
+}
@@ -0,0 +1,170 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Cifrado en reposo de credenciales (stores.apiCredentials, integrations.settings y las
+ * claves de Contífico de tenants) con cifrado de sobre (envelope encryption):
+ * - Cada registro se cifra con su propia clave de datos (DEK) aleatoria, AES-256-GCM
+ * - La DEK se guarda junto al dato, cifrada con la clave maestra (CREDENTIALS_MASTER_KEY)
+ * - Rotar la clave maestra solo requiere volver a cifrar las DEK: npm run credentials:rotate
+ *
+ * Formato: enc:v1:<id clave maestra>:<DEK cifrada>:<iv>:<tag>:<dato cifrado> (base64url)
+ * En columnas jsonb se guarda { "$encrypted": "<sobre>" }
+ */
+const ENVELOPE_PREFIX = "enc:v1:";
+const ENCRYPTED_JSON_FIELD = "$encrypted";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(encoded: string, envName: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== 32) {
+    throw new Error(`${envName} debe ser una clave de 32 bytes en base64 (openssl rand -base64 32)`);
+  }
+  // El id identifica con qué clave maestra se cifró cada DEK sin revelar la clave
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export class CredentialVault {
+  private static keys: { current: MasterKey | null; all: Map<string, MasterKey> } | null = null;
+  private static warnedPlaintext = false;
+
+  /**
+   * Clave maestra actual (CREDENTIALS_MASTER_KEY) y anteriores (CREDENTIALS_PREVIOUS_MASTER_KEYS,
+   * separadas por coma) que solo se usan para descifrar mientras se rota
+   */
+  private static loadKeys() {
+    if (!this.keys) {
+      const current = process.env.CREDENTIALS_MASTER_KEY
+        ? parseMasterKey(process.env.CREDENTIALS_MASTER_KEY, "CREDENTIALS_MASTER_KEY")
+        : null;
+      const previous = (process.env.CREDENTIALS_PREVIOUS_MASTER_KEYS || "")
+        .split(",")
+        .filter((value) => value.trim() !== "")
+        .map((value) => parseMasterKey(value, "CREDENTIALS_PREVIOUS_MASTER_KEYS"));
+
+      const all = new Map<string, MasterKey>();
+      for (const key of [...previous, ...(current ? [current] : [])]) {
+        all.set(key.id, key);
+      }
+      this.keys = { current, all };
+    }
+    return this.keys;
+  }
+
+  /**
+   * Valida las claves del entorno al iniciar (lanza si el formato es inválido)
+   */
+  static validateConfig(): void {
+    this.loadKeys();
+  }
+
+  static isEnabled(): boolean {
+    return this.loadKeys().current !== null;
+  }
+
+  static isEncrypted(value: unknown): boolean {
+    if (typeof value === "string") {
+      return value.startsWith(ENVELOPE_PREFIX);
+    }
+    return !!value && typeof value === "object" && typeof (value as Record<string, unknown>)[ENCRYPTED_JSON_FIELD] === "string";
+  }
+
+  /**
+   * true si el valor está en texto plano o cifrado con una clave maestra que no es la actual
+   */
+  static needsReencryption(value: unknown): boolean {
+    const current = this.loadKeys().current;
+    if (!current || value === null || value === undefined) {
+      return false;
+    }
+    if (!this.isEncrypted(value)) {
+      return true;
+    }
+    const envelope = typeof value === "string" ? value : (value as Record<string, string>)[ENCRYPTED_JSON_FIELD];
+    return envelope.slice(ENVELOPE_PREFIX.length).split(":")[0] !== current.id;
+  }
+
+  static encryptString(plaintext: string): string {
+    const current = this.loadKeys().current;
+    if (!current) {
+      // Sin clave maestra (solo desarrollo: en producción es obligatoria) se guarda en texto plano
+      if (!this.warnedPlaintext) {
+        console.warn("[Vault] CREDENTIALS_MASTER_KEY no configurada: las credenciales se guardan sin cifrar");
+        this.warnedPlaintext = true;
+      }
+      return plaintext;
+    }
+
+    const dataKey = randomBytes(32);
+    const wrappedKey = seal(current.key, dataKey);
+    const sealed = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+    const iv = sealed.subarray(0, IV_LENGTH);
+    const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const ciphertext = sealed.subarray(IV_LENGTH + TAG_LENGTH);
+    return ENVELOPE_PREFIX + [current.id, wrappedKey, iv, tag, ciphertext]
+      .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+      .join(":");
+  }
+
+  /**
+   * Descifra un sobre; los valores en texto plano (anteriores al cifrado) se devuelven tal cual
+   */
+  static decryptString(value: string): string {
+    if (!value.startsWith(ENVELOPE_PREFIX)) {
+      return value;
+    }
+
+    const [keyId, wrappedKey, iv, tag, ciphertext] = value.slice(ENVELOPE_PREFIX.length).split(":");
+    const masterKey = this.loadKeys().all.get(keyId);
+    if (!masterKey) {
+      throw new Error(`No se puede descifrar: falta la clave maestra ${keyId}`);
+    }
+
+    const dataKey = open(masterKey.key, Buffer.from(wrappedKey, "base64url"));
+    const sealed = Buffer.concat([iv, tag, ciphertext].map((part) => Buffer.from(part, "base64url")));
+    return open(dataKey, sealed).toString("utf8");
+  }
+
+  static encryptJson(value: unknown): unknown {
+    if (value === null || value === undefined || !this.isEnabled()) {
+      return value;
+    }
+    return { [ENCRYPTED_JSON_FIELD]: this.encryptString(JSON.stringify(value)) };
+  }
+
+  static decryptJson<T = unknown>(value: T): T {
+    if (!this.isEncrypted(value) || typeof value === "string") {
+      return value;
+    }
+    return JSON.parse(this.decryptString((value as Record<string, string>)[ENCRYPTED_JSON_FIELD]));
+  }
+
+  static encryptNullableString(value: string | null | undefined): string | null | undefined {
+    return typeof value === "string" && value !== "" ? this.encryptString(value) : value;
+  }
+
+  static decryptNullableString(value: string | null): string | null {
+    return value === null ? null : this.decryptString(value);
+  }
+}
@@ -0,0 +1,344 @@
+import { storage } from "../storage";
+import { createErpConnector } from "../connectors/erp/registry";
+import type { ErpCustomer } from "../connectors/erp/ErpConnector";
+import type { Customer, Integration } from "@shared/schema";
+import { getInvoicingConfig } from "@shared/invoicing";
+import {
+  checkIdentification,
+  CONSUMIDOR_FINAL_ID,
+  CONSUMIDOR_FINAL_MAX_TOTAL,
+  type IdentificationType,
+} from "@shared/ec-identification";
+
+/**
+ * Identidad de facturación tomada de una orden de la tienda
+ */
+export interface CustomerIdentity {
+  externalId?: string | null; // ID del cliente en la tienda (null = invitado)
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  identification?: string | null; // Tal como se escribió en el checkout
+}
+
+/**
+ * Datos de la orden para capturar su cliente
+ */
+export interface CustomerCaptureData {
+  tenantId: number;
+  storeId: number;
+  integration: Integration;
+  orderId: string;
+  orderNumber: string;
+  orderTotal: number;
+  customer: CustomerIdentity;
+}
+
+/**
+ * Normaliza un nombre para compararlo (minúsculas, sin tildes)
+ */
+function nameTokens(name: string | null | undefined): Set<string> {
+  return new Set(
+    (name || "")
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length >= 3),
+  );
+}
+
+/**
+ * Sincronización de clientes: captura la identidad de facturación de las órdenes,
+ * valida cédula/RUC y crea o actualiza la persona en el ERP antes de facturar.
+ * Identificaciones inválidas o que no coinciden quedan en la cola de revisión (status 'review')
+ */
+export class CustomerSyncService {
+  /**
+   * Solo los ERPs que gestionan personas (Contífico) sincronizan clientes
+   */
+  static supportsCustomers(integration: Integration): boolean {
+    try {
+      const erpConnector = createErpConnector(integration);
+      return !!erpConnector.findCustomer && !!erpConnector.upsertCustomer;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Clave estable del cliente en la tienda: ID de cliente, o email para compras como invitado
+   */
+  static getCustomerKey(identity: CustomerIdentity): string | null {
+    if (identity.externalId) {
+      return `customer:${identity.externalId}`;
+    }
+    if (identity.email) {
+      return `email:${identity.email.trim().toLowerCase()}`;
+    }
+    return null;
+  }
+
+  /**
+   * Registra/actualiza el cliente de una orden y programa su sincronización
+   * @returns El cliente, o null si la orden no tiene cliente identificable o el ERP no gestiona personas
+   */
+  static async captureFromOrder(data: CustomerCaptureData): Promise<Customer | null> {
+    const { customer: identity } = data;
+    const customerKey = this.getCustomerKey(identity);
+    if (!customerKey || !this.supportsCustomers(data.integration)) {
+      return null;
+    }
+
+    const existing = await storage.getCustomerByKey(data.storeId, customerKey);
+    const hasExistingId = !!existing?.identification && existing.identificationType !== "consumidor_final";
+    const check = checkIdentification(identity.identification);
+
+    let identification: string | null = existing?.identification ?? null;
+    let identificationType: string | null = existing?.identificationType ?? null;
+    let status: string;
+    let reviewReason: string | null = null;
+
+    if (check.type !== "consumidor_final") {
+      identification = check.value;
+      identificationType = check.type;
+
+      if (!check.valid) {
+        status = "review";
+        reviewReason = `Identificación inválida en el pedido ${data.orderNumber}: ${check.error}`;
+      } else if (hasExistingId && existing!.identification !== check.value) {
+        status = "review";
+        reviewReason = `El pedido ${data.orderNumber} trae la identificación ${check.value}, distinta de la registrada (${existing!.identification})`;
+      } else {
+        status = "pending"; // Crear o actualizar datos de contacto en el ERP
+      }
+    } else if (hasExistingId || existing?.status === "review") {
+      // Cliente recurrente que no repitió su identificación: se conserva la registrada
+      status = existing!.status;
+      reviewReason = existing!.reviewReason;
+    } else if (data.orderTotal > CONSUMIDOR_FINAL_MAX_TOTAL) {
+      status = "review";
+      reviewReason = `Pedido ${data.orderNumber} de $${data.orderTotal.toFixed(2)} sin cédula/RUC (consumidor final solo hasta $${CONSUMIDOR_FINAL_MAX_TOTAL})`;
+      identification = null;
+      identificationType = null;
+    } else {
+      status = "synced"; // Consumidor final: no se crea persona en el ERP
+      identification = CONSUMIDOR_FINAL_ID;
+      identificationType = "consumidor_final";
+    }
+
+    const values = {
+      name: identity.name || existing?.name || null,
+      email: identity.email || existing?.email || null,
+      phone: identity.phone || existing?.phone || null,
+      address: identity.address || existing?.address || null,
+      identification,
+      identificationType,
+      status,
+      reviewReason,
+      lastOrderId: data.orderId,
+      ...(status === "review" && reviewReason !== existing?.reviewReason && { reviewedAt: null }),
+    };
+
+    const customer = existing
+      ? await storage.updateCustomer(existing.id, values)
+      : await storage.createCustomer({
+          tenantId: data.tenantId,
+          storeId: data.storeId,
+          integrationId: data.integration.id,
+          customerKey,
+          ...values,
+        });
+
+    if (status === "review") {
+      console.warn(`[CustomerSync] ⚠️ Cliente ${customer.id} en revisión: ${reviewReason}`);
+    } else if (status === "pending") {
+      this.syncCustomer(customer.id).catch((error) =>
+        console.warn(`[CustomerSync] ⚠️ Sincronización del cliente ${customer.id} falló:`, error.message),
+      );
+    }
+
+    return customer;
+  }
+
+  /**
+   * Crea o actualiza la persona en el ERP
+   * Si el ERP ya tiene la identificación a nombre de otra persona, el cliente pasa a revisión
+   * (salvo que un usuario lo haya aprobado)
+   */
+  static async syncCustomer(customerId: number): Promise<Customer> {
+    const customer = await storage.getCustomerById(customerId);
+    if (!customer) throw new Error(`Cliente ${customerId} no encontrado`);
+    if (customer.status !== "pending" && customer.status !== "failed") {
+      return customer;
+    }
+
+    if (!customer.identification || customer.identificationType === "consumidor_final") {
+      return await storage.updateCustomer(customerId, { status: "synced", syncedAt: new Date() });
+    }
+
+    try {
+      const integration = await storage.getIntegration(customer.integrationId);
+      if (!integration) throw new Error(`Integración ${customer.integrationId} no encontrada`);
+
+      const erpConnector = createErpConnector(integration);
+      if (!erpConnector.findCustomer || !erpConnector.upsertCustomer) {
+        throw new Error(`${erpConnector.displayName} no gestiona clientes`);
+      }
+
+      const existingPerson = await erpConnector.findCustomer(customer.identification);
+      if (existingPerson && !customer.reviewedAt) {
+        const erpTokens = nameTokens(existingPerson.name);
+        const sharesName = Array.from(nameTokens(customer.name)).some((token) => erpTokens.has(token));
+        if (erpTokens.size > 0 && !sharesName) {
+          const reviewReason = `${erpConnector.displayName} tiene la identificación ${customer.identification} registrada a nombre de "${existingPerson.name}"`;
+          console.warn(`[CustomerSync] ⚠️ Cliente ${customerId} en revisión: ${reviewReason}`);
+          return await storage.updateCustomer(customerId, {
+            status: "review",
+            reviewReason,
+            erpPersonId: existingPerson.id,
+          });
+        }
+      }
+
+      const storeIntegrations = await storage.getStoreIntegrations(customer.storeId);
+      const storeIntegration = storeIntegrations.find((si) => si.integrationId === customer.integrationId);
+
+      const person = await erpConnector.upsertCustomer(this.toErpCustomer(customer), {
+        existingId: existingPerson?.id,
+        posToken: getInvoicingConfig(storeIntegration?.syncConfig).posToken,
+      });
+
+      console.log(`[CustomerSync] ✅ Cliente ${customerId} sincronizado (persona ${person.id})`);
+      return await storage.updateCustomer(customerId, {
+        status: "synced",
+        erpPersonId: person.id,
+        reviewReason: null,
+        errorMessage: null,
+        syncedAt: new Date(),
+      });
+    } catch (error: any) {
+      console.error(`[CustomerSync] ❌ Error sincronizando cliente ${customerId}:`, error.message);
+      return await storage.updateCustomer(customerId, {
+        status: "failed",
+        errorMessage: error.message,
+      });
+    }
+  }
+
+  /**
+   * Garantiza que el cliente esté sincronizado antes de emitir un documento que lo referencie
+   * @throws Error si el cliente está en revisión o no se pudo sincronizar
+   */
+  static async ensureSynced(customerId: number): Promise<Customer> {
+    let customer = await storage.getCustomerById(customerId);
+    if (!customer) throw new Error(`Cliente ${customerId} no encontrado`);
+
+    if (customer.status === "pending" || customer.status === "failed") {
+      customer = await this.syncCustomer(customerId);
+    }
+
+    if (customer.status === "review") {
+      throw new Error(`Cliente en revisión: ${customer.reviewReason}`);
+    }
+    if (customer.status !== "synced") {
+      throw new Error(`Cliente no sincronizado: ${customer.errorMessage || customer.status}`);
+    }
+
+    return customer;
+  }
+
+  /**
+   * Corrige la identificación de un cliente en revisión y lo vuelve a sincronizar
+   * @throws Error si la nueva identificación no es válida
+   */
+  static async updateIdentification(customerId: number, rawIdentification: string): Promise<Customer> {
+    const check = checkIdentification(rawIdentification);
+    if (!check.valid) {
+      throw new Error(check.error || "Identificación inválida");
+    }
+
+    await storage.updateCustomer(customerId, {
+      identification: check.value,
+      identificationType: check.type,
+      status: "pending",
+      reviewReason: null,
+      reviewedAt: null,
+      errorMessage: null,
+    });
+
+    return await this.resolveReview(customerId);
+  }
+
+  /**
+   * Aprueba un cliente en revisión tal como está. Sin identificación válida se factura como consumidor final
+   */
+  static async approveCustomer(customerId: number): Promise<Customer> {
+    const customer = await storage.getCustomerById(customerId);
+    if (!customer) throw new Error(`Cliente ${customerId} no encontrado`);
+
+    const check = checkIdentification(customer.identification);
+    await storage.updateCustomer(customerId, {
+      ...(!check.valid || check.type === "consumidor_final"
+        ? { identification: CONSUMIDOR_FINAL_ID, identificationType: "consumidor_final" as IdentificationType }
+        : {}),
+      status: "pending",
+      reviewReason: null,
+      reviewedAt: new Date(),
+      errorMessage: null,
+    });
+
+    return await this.resolveReview(customerId);
+  }
+
+  /**
+   * Sincroniza el cliente revisado y reencola sus facturas fallidas
+   */
+  private static async resolveReview(customerId: number): Promise<Customer> {
+    const customer = await this.syncCustomer(customerId);
+
+    if (customer.status === "synced") {
+      const invoices = await storage.getOrderInvoicesByCustomer(customerId);
+      for (const invoice of invoices.filter((i) => i.status === "failed")) {
+        await storage.updateOrderInvoice(invoice.id, {
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: null,
+          errorMessage: null,
+        });
+        console.log(`[CustomerSync] Factura ${invoice.id} reencolada tras revisar el cliente ${customerId}`);
+      }
+    }
+
+    return customer;
+  }
+
+  /**
+   * Sincroniza los clientes pendientes (los que no se pudieron sincronizar al capturarlos)
+   */
+  static async syncPendingCustomers(limit: number = 20): Promise<number> {
+    const pending = await storage.getPendingCustomers(limit);
+    let synced = 0;
+
+    for (const customer of pending) {
+      const result = await this.syncCustomer(customer.id);
+      if (result.status === "synced") {
+        synced++;
+      }
+    }
+
+    return synced;
+  }
+
+  static toErpCustomer(customer: Customer): ErpCustomer {
+    return {
+      identificationType: (customer.identificationType || "consumidor_final") as IdentificationType,
+      identification: customer.identification || CONSUMIDOR_FINAL_ID,
+      name: customer.name || "CONSUMIDOR FINAL",
+      email: customer.email || undefined,
+      phone: customer.phone || undefined,
+      address: customer.address || undefined,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import type { MailMessage } from "./mailer";
+import { formatEcuadorDate } from "../utils/dateFormatters";
+
+type EmailContent = Omit<MailMessage, "to">;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Arma el correo en texto y HTML a partir de párrafos y un botón opcional
+ */
+function buildEmail(
+  subject: string,
+  paragraphs: string[],
+  action?: { label: string; url: string },
+  footer?: string,
+): EmailContent {
+  const text = [
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    ...(footer ? [footer] : []),
+    "— G4 Hub",
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html lang="es">
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+    <h1 style="margin:0 0 24px;font-size:20px">${escapeHtml(subject)}</h1>
+    ${paragraphs.map((p) => `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(p)}</p>`).join("\n    ")}
+    ${action ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:12px 24px;border-radius:6px">${escapeHtml(action.label)}</a></p>
+    <p style="margin:0 0 16px;font-size:12px;color:#71717a;word-break:break-all">Si el botón no funciona, copia este enlace en tu navegador: ${escapeHtml(action.url)}</p>` : ""}
+    ${footer ? `<p style="margin:24px 0 0;font-size:12px;color:#71717a">${escapeHtml(footer)}</p>` : ""}
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function verifyEmailTemplate(name: string, url: string): EmailContent {
+  return buildEmail(
+    "Confirma tu correo electrónico",
+    [`Hola ${name},`, "Confirma que este es tu correo electrónico para recibir los avisos de tu cuenta de G4 Hub."],
+    { label: "Confirmar correo", url },
+    "Si no creaste una cuenta en G4 Hub, ignora este mensaje.",
+  );
+}
+
+export function passwordResetTemplate(name: string, url: string, ttlMinutes: number): EmailContent {
+  return buildEmail(
+    "Restablece tu contraseña",
+    [
+      `Hola ${name},`,
+      "Recibimos una solicitud para restablecer la contraseña de tu cuenta de G4 Hub.",
+      `El enlace vence en ${ttlMinutes} minutos y solo se puede usar una vez.`,
+    ],
+    { label: "Restablecer contraseña", url },
+    "Si no lo solicitaste, ignora este mensaje: tu contraseña no cambiará.",
+  );
+}
+
+export function teamInvitationTemplate(tenantName: string, roleLabel: string, url: string, expiresAt: Date): EmailContent {
+  return buildEmail(
+    `Te invitaron a ${tenantName} en G4 Hub`,
+    [
+      `Te invitaron a unirte al equipo de ${tenantName} en G4 Hub como ${roleLabel}.`,
+      `La invitación vence el ${formatEcuadorDate(expiresAt)}.`,
+    ],
+    { label: "Aceptar invitación", url },
+    "Si no esperabas esta invitación, ignora este mensaje.",
+  );
+}
+
+export function accountExpiringTemplate(tenantName: string, daysRemaining: number, expiresAt: Date): EmailContent {
+  return buildEmail(
+    "Tu cuenta está por vencer",
+    [
+      `La cuenta de ${tenantName} en G4 Hub vencerá en ${daysRemaining} ${daysRemaining === 1 ? "día" : "días"} (${formatEcuadorDate(expiresAt)}).`,
+      "Contacta con nosotros para renovar tu suscripción y evitar que se suspendan las sincronizaciones.",
+    ],
+  );
+}
+
+export function accountExpiredTemplate(tenantName: string): EmailContent {
+  return buildEmail(
+    "Tu cuenta ha expirado",
+    [
+      `La cuenta de ${tenantName} en G4 Hub ha expirado. Todos los servicios están suspendidos.`,
+      "Contacta con nosotros para reactivar tu cuenta.",
+    ],
+  );
+}
@@ -1,10 +1,13 @@
 import { db } from "../db";
+import { storage } from "../storage";
 import { tenants, notifications, users } from "@shared/schema";
 import { sql, and, lte, gte, eq } from "drizzle-orm";
 import { formatEcuadorDate } from "../utils/dateFormatters";
+import { Mailer } from "./mailer";
+import { accountExpiredTemplate, accountExpiringTemplate } from "./emailTemplates";
 
 /**
- * Check for accounts expiring within 10 days and create notifications
+ * Check for accounts expiring within 10 days, create notifications and email each user
  * This should be called daily via a scheduled job
  */
 export async function checkExpiringAccounts() {
@@ -75,7 +78,7 @@ export async function checkExpiringAccounts() {
       for (const user of tenantUsers) {
         const severity = daysRemaining <= 3 ? "error" : daysRemaining <= 7 ? "warning" : "info";
 
-        await db.insert(notifications).values({
+        await storage.createNotification({
           tenantId: tenant.id,
           userId: user.id,
           type: "account_expiring",
@@ -92,6 +95,11 @@ export async function checkExpiringAccounts() {
         console.log(
           `[Expiration Check] Created notification for tenant ${tenant.id}, user ${user.id}, days remaining: ${daysRemaining}`
         );
+
+        await Mailer.trySend({
+          to: user.email,
+          ...accountExpiringTemplate(tenant.name, daysRemaining, expiresAt),
+        });
       }
     }
 
@@ -134,7 +142,7 @@ export async function checkExpiringAccounts() {
 
       // Create expired notification for each user
       for (const user of tenantUsers) {
-        await db.insert(notifications).values({
+        await storage.createNotification({
           tenantId: tenant.id,
           userId: user.id,
           type: "account_expired",
@@ -150,6 +158,11 @@ export async function checkExpiringAccounts() {
         console.log(
           `[Expiration Check] Created expired notification for tenant ${tenant.id}, user ${user.id}`
         );
+
+        await Mailer.trySend({
+          to: user.email,
+          ...accountExpiredTemplate(tenant.name),
+        });
       }
     }
 
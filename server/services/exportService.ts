@@ -0,0 +1,281 @@
+import ExcelJS from "exceljs";
+import { storage } from "../storage";
+import { formatEcuadorDateTime } from "../utils/dateFormatters";
+import type { ExportJobPayload, ExportJobResult } from "./jobQueue";
+import { PermanentJobError } from "./jobQueue";
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Genera los archivos Excel que se descargan desde el dashboard
+ * Se ejecuta en el trabajo export: el archivo queda en jobs.result (base64)
+ */
+export class ExportService {
+  static async run(payload: ExportJobPayload, tenantId: number): Promise<ExportJobResult> {
+    switch (payload.kind) {
+      case "sync_log":
+        return this.exportSyncLog(payload.syncLogId!, tenantId);
+      case "push_movements":
+        return this.exportPushMovements(payload.storeId!, tenantId, payload.filters || {});
+      case "unmapped_skus":
+        return this.exportUnmappedSkus(payload.storeId!, tenantId);
+      default:
+        throw new PermanentJobError(`Tipo de exportación desconocido: ${payload.kind}`);
+    }
+  }
+
+  /**
+   * Productos con error u omitidos de una sincronización, con hoja de resumen
+   */
+  static async exportSyncLog(syncLogId: number, tenantId: number): Promise<ExportJobResult> {
+    console.log("[Export] Exportando log a Excel", { syncLogId });
+
+    // Obtener el sync log con items
+    const result = await storage.getSyncLogWithItems(syncLogId);
+
+    // Verificar que pertenece al tenant
+    if (!result.syncLog || result.syncLog.tenantId !== tenantId) {
+      throw new PermanentJobError("Log de sincronización no encontrado");
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet("Productos Sincronizados");
+
+    // Obtener información de tienda
+    let storeName = "N/A";
+    if (result.syncLog.storeId && typeof result.syncLog.storeId === 'number') {
+      try {
+        const store = await storage.getStore(result.syncLog.storeId);
+        if (store) {
+          storeName = store.storeName;
+        }
+      } catch (error) {
+        console.warn(`[Export] No se pudo obtener tienda para export`);
+      }
+    }
+
+    // Configurar columnas
+    worksheet.columns = [
+      { header: "SKU", key: "sku", width: 20 },
+      { header: "Producto", key: "productName", width: 40 },
+      { header: "Estado", key: "status", width: 15 },
+      { header: "Stock Antes", key: "stockBefore", width: 15 },
+      { header: "Stock Después", key: "stockAfter", width: 15 },
+      { header: "Precio Antes", key: "priceBefore", width: 15 },
+      { header: "Precio Después", key: "priceAfter", width: 15 },
+      { header: "Categoría Error", key: "errorCategory", width: 25 },
+      { header: "Mensaje Error", key: "errorMessage", width: 50 },
+    ];
+
+    // Estilo del header
+    worksheet.getRow(1).fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FF4472C4" },
+    };
+    worksheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
+
+    // Filtrar solo productos con errores u omitidos
+    const itemsToExport = result.items.filter(
+      (item) => item.status === "failed" || item.status === "skipped"
+    );
+
+    // Agregar datos
+    itemsToExport.forEach((item) => {
+      const row = worksheet.addRow({
+        sku: item.sku,
+        productName: item.productName || "N/A",
+        status:
+          item.status === "failed"
+            ? "Error"
+            : item.status === "skipped"
+            ? "Omitido"
+            : item.status,
+        stockBefore: item.stockBefore ?? "N/A",
+        stockAfter: item.stockAfter ?? "N/A",
+        priceBefore: item.priceBefore ?? "N/A",
+        priceAfter: item.priceAfter ?? "N/A",
+        errorCategory: item.errorCategory || "N/A",
+        errorMessage: item.errorMessage || "N/A",
+      });
+
+      // Colorear fila según estado
+      if (item.status === "failed") {
+        row.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFFFC7CE" }, // Rojo claro
+        };
+      } else if (item.status === "skipped") {
+        row.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFFFEB9C" }, // Amarillo claro
+        };
+      }
+    });
+
+    // Agregar hoja de resumen
+    const summarySheet = workbook.addWorksheet("Resumen");
+    summarySheet.columns = [
+      { header: "Detalle", key: "label", width: 30 },
+      { header: "Valor", key: "value", width: 20 },
+    ];
+
+    summarySheet.getRow(1).fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FF4472C4" },
+    };
+    summarySheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
+
+    summarySheet.addRow({ label: "Tienda", value: storeName });
+    summarySheet.addRow({
+      label: "Fecha de Sincronización",
+      value: formatEcuadorDateTime(result.syncLog.createdAt),
+    });
+    summarySheet.addRow({
+      label: "Tipo de Sincronización",
+      value: result.syncLog.syncType,
+    });
+    summarySheet.addRow({ label: "Estado", value: result.syncLog.status });
+    summarySheet.addRow({
+      label: "Productos Exitosos",
+      value: result.syncLog.syncedCount,
+    });
+    summarySheet.addRow({
+      label: "Productos con Error",
+      value: result.syncLog.errorCount,
+    });
+    summarySheet.addRow({
+      label: "Total Productos",
+      value: result.items.length,
+    });
+    summarySheet.addRow({
+      label: "Duración (ms)",
+      value: result.syncLog.durationMs || "N/A",
+    });
+
+    return this.toResult(workbook, `sync-log-${syncLogId}-${this.today()}.xlsx`, itemsToExport.length);
+  }
+
+  /**
+   * Movimientos de la cola de Push con los mismos filtros que el listado
+   */
+  static async exportPushMovements(
+    storeId: number,
+    tenantId: number,
+    filters: Record<string, string | undefined>,
+  ): Promise<ExportJobResult> {
+    const store = await storage.getStore(storeId);
+    if (!store || store.tenantId !== tenantId) {
+      throw new PermanentJobError("Store not found");
+    }
+
+    const { status, type, date_from, date_to } = filters;
+
+    let movements = await storage.getMovementsByStore(storeId, 10000);
+
+    if (status && status !== 'all') {
+      movements = movements.filter(m => m.status === status);
+    }
+
+    if (type && type !== 'all') {
+      movements = movements.filter(m => m.movementType === type);
+    }
+
+    if (date_from) {
+      const from = new Date(date_from);
+      movements = movements.filter(m => m.createdAt && new Date(m.createdAt) >= from);
+    }
+
+    if (date_to) {
+      const to = new Date(date_to);
+      movements = movements.filter(m => m.createdAt && new Date(m.createdAt) <= to);
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Movimientos');
+
+    worksheet.columns = [
+      { header: 'Fecha', key: 'date', width: 20 },
+      { header: 'Orden', key: 'order', width: 15 },
+      { header: 'Tipo', key: 'type', width: 15 },
+      { header: 'SKU', key: 'sku', width: 20 },
+      { header: 'Cantidad', key: 'quantity', width: 10 },
+      { header: 'Estado', key: 'status', width: 15 },
+      { header: 'Intentos', key: 'attempts', width: 10 },
+      { header: 'Error', key: 'error', width: 50 },
+    ];
+
+    movements.forEach(movement => {
+      worksheet.addRow({
+        date: movement.createdAt ? formatEcuadorDateTime(movement.createdAt) : '',
+        order: movement.orderId || '',
+        type: movement.movementType === 'egreso' ? 'Egreso' : 'Ingreso',
+        sku: movement.sku,
+        quantity: movement.quantity,
+        status: movement.status,
+        attempts: `${movement.attempts}/${movement.maxAttempts}`,
+        error: movement.errorMessage || '',
+      });
+    });
+
+    worksheet.getRow(1).font = { bold: true };
+
+    return this.toResult(workbook, `movimientos-push-${store.storeName}-${this.today()}.xlsx`, movements.length);
+  }
+
+  /**
+   * SKUs de órdenes que no existen en Contífico
+   */
+  static async exportUnmappedSkus(storeId: number, tenantId: number): Promise<ExportJobResult> {
+    const store = await storage.getStore(storeId);
+    if (!store || store.tenantId !== tenantId) {
+      throw new PermanentJobError("Store not found");
+    }
+
+    const unmappedSkus = await storage.getUnmappedSkusByStore(storeId, 1000);
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('SKUs sin Mapear');
+
+    worksheet.columns = [
+      { header: 'SKU', key: 'sku', width: 20 },
+      { header: 'Producto', key: 'product', width: 40 },
+      { header: 'Ocurrencias', key: 'occurrences', width: 15 },
+      { header: 'Primera vez', key: 'first_seen', width: 20 },
+      { header: 'Última vez', key: 'last_seen', width: 20 },
+    ];
+
+    unmappedSkus.forEach(sku => {
+      worksheet.addRow({
+        sku: sku.sku,
+        product: sku.productName || '',
+        occurrences: sku.occurrences,
+        first_seen: sku.createdAt ? formatEcuadorDateTime(sku.createdAt) : '',
+        last_seen: sku.lastSeenAt ? formatEcuadorDateTime(sku.lastSeenAt) : '',
+      });
+    });
+
+    worksheet.getRow(1).font = { bold: true };
+
+    return this.toResult(workbook, `skus-sin-mapear-${store.storeName}-${this.today()}.xlsx`, unmappedSkus.length);
+  }
+
+  private static async toResult(workbook: ExcelJS.Workbook, filename: string, rows: number): Promise<ExportJobResult> {
+    const buffer = await workbook.xlsx.writeBuffer();
+    console.log(`[Export] Excel generado: ${filename} (${rows} filas)`);
+
+    return {
+      filename,
+      contentType: XLSX_CONTENT_TYPE,
+      data: Buffer.from(buffer as ArrayBuffer).toString("base64"),
+      rows,
+    };
+  }
+
+  private static today(): string {
+    return new Date().toISOString().split("T")[0];
+  }
+}
@@ -1,8 +1,24 @@
 import { storage } from "../storage";
 import { db } from "../db";
-import { ContificoMovementsAPI } from "./contificoMovementsAPI";
+import { createErpConnector } from "../connectors/erp/registry";
 import { Store, Integration, InsertInventoryMovement, InventoryMovement } from "@shared/schema";
 import { SyncService } from "./SyncService";
+import { SyncEvents } from "./syncEvents";
+import { ShopifyConnector } from "../connectors/ShopifyConnector";
+import { findWarehouseForLocation, getLocationMappings } from "@shared/location-mappings";
+
+/**
+ * Item de un webhook a convertir en movimiento
+ */
+export interface WebhookLineItem {
+  sku: string;
+  quantity: number;
+  productName?: string;
+  idempotencyKey?: string; // Clave por evento (p. ej. por reembolso); sin clave se deduplica por orden
+  refundId?: string;
+  locationId?: string; // Ubicación de la tienda que despacha/recibe (Shopify multi-location)
+  lineItemId?: string; // Para resolver la ubicación asignada si el webhook no la trae
+}
 
 /**
  * Datos del webhook event para queue
@@ -13,11 +29,7 @@ export interface WebhookEventData {
   tenantId: number;
   orderId: string;
   eventType: string; // 'order_paid', 'order_cancelled', 'order_refunded'
-  lineItems: {
-    sku: string;
-    quantity: number;
-    productName?: string;
-  }[];
+  lineItems: WebhookLineItem[];
   metadata?: any;
 }
 
@@ -32,7 +44,7 @@ export class InventoryPushService {
    * @returns Tipo de movimiento ('egreso' o 'ingreso')
    *
    * IMPORTANTE: Solo orders/create genera egresos para evitar duplicados.
-   * - orders/paid y orders/updated se ignoran en el webhook handler
+   * - orders/updated se ignora en el webhook handler; orders/paid solo encola la factura (InvoiceService)
    * - Esto previene egresos duplicados cuando Shopify envía múltiples webhooks
    */
   private static determineMovementType(
@@ -90,6 +102,7 @@ export class InventoryPushService {
         }
 
         // Verificar idempotencia: evitar duplicados del mismo orderId+SKU+movementType
+        // (o de la misma clave de idempotencia, p. ej. el mismo reembolso)
         // Busca directamente en la base de datos usando un índice eficiente
         // (independientemente del estado: pending, processing, completed, failed)
         const duplicateMovement = await storage.findDuplicateMovement(
@@ -97,11 +110,12 @@ export class InventoryPushService {
           data.orderId,
           item.sku,
           movementType,
+          item.idempotencyKey,
         );
 
         if (duplicateMovement) {
           console.log(
-            `[InventoryPush] ⚠️ Movimiento duplicado detectado para orden ${data.orderId}, SKU ${item.sku}, tipo ${movementType}`,
+            `[InventoryPush] ⚠️ Movimiento duplicado detectado para orden ${data.orderId}, SKU ${item.sku}, tipo ${movementType}${item.idempotencyKey ? `, clave ${item.idempotencyKey}` : ''}`,
             `(movimiento existente: #${duplicateMovement.id}, estado: ${duplicateMovement.status}, evento: ${duplicateMovement.eventType}), saltando`,
           );
           continue;
@@ -116,18 +130,23 @@ export class InventoryPushService {
           sku: item.sku,
           quantity: item.quantity,
           orderId: data.orderId,
+          idempotencyKey: item.idempotencyKey || null,
           eventType: data.eventType,
           status: "pending",
           attempts: 0,
           maxAttempts: 3,
           metadata: {
             productName: item.productName,
+            refundId: item.refundId,
+            locationId: item.locationId,
+            lineItemId: item.lineItemId,
             originalEvent: data.metadata,
           },
         };
 
-        await storage.queueInventoryMovement(movement);
+        const queued = await storage.queueInventoryMovement(movement);
         queuedCount++;
+        this.publishMovement(queued);
 
         console.log(
           `[InventoryPush] ✅ Encolado: ${item.sku} x${item.quantity} (${movementType})`,
@@ -217,31 +236,31 @@ export class InventoryPushService {
       if (!storeIntegration) throw new Error(`Integración ${movement.integrationId} no vinculada a tienda ${movement.storeId}`);
 
       const syncConfig: any = storeIntegration.syncConfig || {};
-      const integrationSettings: any = integration.settings || {};
-      const warehouseId = syncConfig.pull?.warehouse || integrationSettings.warehouse_primary;
+      const erpConnector = createErpConnector(integration);
+      // La bodega mapeada a la ubicación de despacho tiene prioridad sobre la bodega por defecto
+      let movementLocationId: string | null = (movement.metadata as any)?.locationId || null;
+      if (!movementLocationId && store.platform === "shopify" && getLocationMappings(syncConfig).length > 0) {
+        movementLocationId = await this.resolveShopifyLocation(store, movement);
+      }
+      const mappedWarehouseId = findWarehouseForLocation(syncConfig, movementLocationId);
+      const warehouseId = mappedWarehouseId || syncConfig.pull?.warehouse || erpConnector.primaryWarehouseId;
       if (!warehouseId) throw new Error(`No se encontró bodega configurada para la tienda ${movement.storeId}`);
 
-      console.log(`[InventoryPush] Usando bodega: ${warehouseId} para movimiento ${movementId}`);
-
-      const contificoStore: Store = {
-        ...store,
-        storeUrl: 'https://api.contifico.com',
-        apiCredentials: integration.settings,
-        platform: 'contifico',
-      };
-
-      const contificoAPI = new ContificoMovementsAPI(contificoStore);
+      console.log(
+        `[InventoryPush] Usando bodega: ${warehouseId} para movimiento ${movementId}` +
+        (mappedWarehouseId ? ` (ubicación ${movementLocationId})` : ''),
+      );
 
       // Verificación de stock para egresos
       if (movement.movementType === "egreso") {
-        const hasStock = await contificoAPI.checkStockAvailability(
+        const hasStock = await erpConnector.checkStockAvailability(
           warehouseId,
           movement.sku,
           movement.quantity,
         );
 
         if (!hasStock) {
-          const errorMsg = `Stock insuficiente en Contífico para SKU ${movement.sku}`;
+          const errorMsg = `Stock insuficiente en ${erpConnector.displayName} para SKU ${movement.sku}`;
           console.warn(`[InventoryPush] ⚠️ ${errorMsg}`);
 
           await db.transaction(async (tx) => {
@@ -264,18 +283,21 @@ export class InventoryPushService {
         }
       }
 
-      // Enviar movimiento a Contífico
+      // Enviar movimiento al ERP
       const metadata = movement.metadata as any;
       const orderName = metadata?.originalEvent?.shopifyOrderName ||
         metadata?.originalEvent?.wooOrderNumber ||
         `#${movement.orderId}`;
-      const description = `Pedido ${orderName} - ${movement.eventType}`;
-
-      if (movement.movementType === "egreso") {
-        await contificoAPI.sendEgreso(warehouseId, movement.sku, movement.quantity, movement.orderId || undefined, description);
-      } else {
-        await contificoAPI.sendIngreso(warehouseId, movement.sku, movement.quantity, movement.orderId || undefined, description);
-      }
+      const description = metadata?.notes || `Pedido ${orderName} - ${movement.eventType}`;
+
+      await erpConnector.sendMovement({
+        type: movement.movementType === "egreso" ? "egreso" : "ingreso",
+        warehouseId,
+        sku: movement.sku,
+        quantity: movement.quantity,
+        orderId: movement.orderId || undefined,
+        notes: description,
+      });
 
       // --------------------------------------------------------
       // FASE 3: COMPLETADO (Transacción Atómica)
@@ -284,12 +306,15 @@ export class InventoryPushService {
       await db.transaction(async (tx) => {
         await storage.markMovementAsProcessed(movementId, tx);
 
+        // Los ajustes de conciliación alinean el ERP con la tienda: el stock de la tienda no cambia
         const delta = movement.movementType === "egreso" ? -movement.quantity : movement.quantity;
-        try {
-          await storage.updateProductStockOptimistic(movement.storeId, movement.sku, delta, 'push', tx);
-          console.log(`[InventoryPush] ✅ Cache actualizado para ${movement.sku}: ${delta}`);
-        } catch (cacheError: any) {
-          console.warn(`[InventoryPush] ⚠️ No se pudo actualizar cache (ignorable):`, cacheError.message);
+        if (movement.eventType !== "reconciliation_adjustment") {
+          try {
+            await storage.updateProductStockOptimistic(movement.storeId, movement.sku, delta, 'push', tx);
+            console.log(`[InventoryPush] ✅ Cache actualizado para ${movement.sku}: ${delta}`);
+          } catch (cacheError: any) {
+            console.warn(`[InventoryPush] ⚠️ No se pudo actualizar cache (ignorable):`, cacheError.message);
+          }
         }
 
         await storage.releaseLock(cachedStoreId!, 'push', tx);
@@ -378,6 +403,33 @@ export class InventoryPushService {
     }
   }
 
+  /**
+   * Consulta en Shopify la ubicación asignada al line item del movimiento
+   * (las órdenes online no traen ubicación en el webhook orders/create)
+   * @returns location_id o null si no se pudo determinar
+   */
+  private static async resolveShopifyLocation(
+    store: Store,
+    movement: InventoryMovement,
+  ): Promise<string | null> {
+    const lineItemId = (movement.metadata as any)?.lineItemId;
+    if (!lineItemId || !movement.orderId) {
+      return null;
+    }
+
+    try {
+      const connector = new ShopifyConnector(store);
+      const locations = await connector.getOrderLineItemLocations(movement.orderId);
+      return locations.get(lineItemId) || null;
+    } catch (error: any) {
+      console.warn(
+        `[InventoryPush] ⚠️ No se pudo obtener la ubicación de la orden ${movement.orderId}, usando bodega por defecto:`,
+        error.message,
+      );
+      return null;
+    }
+  }
+
   /**
    * Helper para auto pull
    */
@@ -431,6 +483,10 @@ export class InventoryPushService {
 
         const result = await this.processMovement(movement.id);
         processedMovements.push({ movement, success: result });
+
+        // Estado final del movimiento (completado, reintento pendiente o fallido) en tiempo real
+        const updated = await storage.getMovementById(movement.id);
+        this.publishMovement(updated ?? movement);
         if (result) {
           successful++;
         } else {
@@ -488,6 +544,12 @@ export class InventoryPushService {
               },
             });
 
+            SyncEvents.reporter(`push-${syncLog.id}`, tenantId, storeId, 'push').completed({
+              success: storeSuccessful,
+              failed: storeFailed,
+              skipped: 0,
+            });
+
             // NO crear sync_log_items para Push porque:
             // 1. El sync_log ya tiene los detalles en el campo details.movements
             // 2. El Pull automático post-Push crea items con stock_after correcto
@@ -518,6 +580,20 @@ export class InventoryPushService {
     }
   }
 
+  /**
+   * Publica el estado de un movimiento (tabla de movimientos en tiempo real)
+   */
+  private static publishMovement(movement: InventoryMovement): void {
+    SyncEvents.publish(movement.tenantId, {
+      type: "movement",
+      storeId: movement.storeId,
+      movementId: movement.id,
+      sku: movement.sku,
+      status: movement.status,
+      error: movement.errorMessage,
+    });
+  }
+
   /**
    * Limpia movimientos antiguos completados o fallidos
    * @param daysOld - Días de antigüedad para limpiar
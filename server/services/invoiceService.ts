@@ -0,0 +1,341 @@
+import { storage } from "../storage";
+import { createErpConnector } from "../connectors/erp/registry";
+import type { ErpCustomer, ErpSalesDocument } from "../connectors/erp/ErpConnector";
+import type { OrderInvoice } from "@shared/schema";
+import { getInvoicePrefix, getInvoicingConfig, type InvoicingConfig } from "@shared/invoicing";
+import { checkIdentification } from "@shared/ec-identification";
+import { CustomerSyncService } from "./customerSyncService";
+
+/**
+ * Línea de una orden a facturar (importes tal como los cobra la tienda)
+ */
+export interface InvoiceOrderLine {
+  sku: string | null;
+  title: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number; // Descuento total de la línea
+  taxRate: number; // Porcentaje de IVA (15 = 15%)
+}
+
+/**
+ * Orden normalizada que se guarda en order_invoices.payload
+ * Se construye desde el webhook para no volver a consultar la tienda al reintentar
+ */
+export interface InvoiceOrderData {
+  orderNumber: string;
+  currency?: string;
+  taxesIncluded: boolean; // Precios con IVA incluido
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    address?: string;
+    identification?: string | null; // Cédula/RUC/pasaporte si la tienda lo captura
+  };
+  lines: InvoiceOrderLine[];
+  shipping: InvoiceOrderLine[];
+  total: number;
+}
+
+/**
+ * Datos del webhook para encolar una factura
+ */
+export interface InvoiceEventData {
+  storeId: number;
+  integrationId: number;
+  tenantId: number;
+  orderId: string;
+  customerId?: number | null; // Cliente capturado (CustomerSyncService)
+  order: InvoiceOrderData;
+  metadata?: any;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Servicio de facturación automática: órdenes pagadas → documento de venta en el ERP
+ * Las facturas se encolan en order_invoices y se emiten con reintentos (como los
+ * movimientos de inventario); la autorización del SRI se consulta después de emitir
+ */
+export class InvoiceService {
+  /**
+   * Encola la factura de una orden pagada
+   * @returns La factura encolada, o null si la orden ya tenía factura
+   */
+  static async queueInvoiceFromWebhook(data: InvoiceEventData): Promise<OrderInvoice | null> {
+    const invoice = await storage.queueOrderInvoice({
+      tenantId: data.tenantId,
+      storeId: data.storeId,
+      integrationId: data.integrationId,
+      orderId: data.orderId,
+      orderNumber: data.order.orderNumber,
+      customerId: data.customerId ?? null,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: 3,
+      total: data.order.total.toFixed(2),
+      payload: data.order,
+      metadata: data.metadata || {},
+    });
+
+    if (!invoice) {
+      console.log(`[Invoice] ⏭️ La orden ${data.orderId} ya tiene factura encolada, ignorando`);
+      return null;
+    }
+
+    console.log(`[Invoice] ✅ Factura ${invoice.id} encolada para orden ${data.order.orderNumber}`);
+    return invoice;
+  }
+
+  /**
+   * Emite una factura pendiente en el ERP
+   * @returns true si se emitió, false si falló (queda pendiente de reintento o failed)
+   */
+  static async processInvoice(invoiceId: number): Promise<boolean> {
+    const invoice = await storage.claimOrderInvoice(invoiceId);
+    if (!invoice) {
+      // No existe, ya se emitió/falló o la está emitiendo otro proceso
+      console.log(`[Invoice] ⏭️ Factura ${invoiceId} no disponible para emitir, saltando`);
+      return false;
+    }
+
+    try {
+      const integration = await storage.getIntegration(invoice.integrationId);
+      if (!integration) throw new Error(`Integración ${invoice.integrationId} no encontrada`);
+
+      const storeIntegrations = await storage.getStoreIntegrations(invoice.storeId);
+      const storeIntegration = storeIntegrations.find((si) => si.integrationId === invoice.integrationId);
+      if (!storeIntegration) throw new Error(`Integración ${invoice.integrationId} no vinculada a tienda ${invoice.storeId}`);
+
+      const erpConnector = createErpConnector(integration);
+      if (!erpConnector.createSalesDocument) {
+        // No tiene sentido reintentar: el ERP no emite facturas
+        await storage.updateOrderInvoice(invoiceId, {
+          status: "failed",
+          errorMessage: `${erpConnector.displayName} no soporta facturación`,
+        });
+        return false;
+      }
+
+      const config = getInvoicingConfig(storeIntegration.syncConfig);
+      const order = invoice.payload as InvoiceOrderData;
+
+      // La persona debe existir en el ERP antes de que la factura la referencie
+      const customer = invoice.customerId
+        ? await CustomerSyncService.ensureSynced(invoice.customerId)
+        : null;
+
+      // El número se reserva una sola vez y se reutiliza en los reintentos
+      const documentNumber = await storage.reserveInvoiceDocumentNumber(
+        invoiceId,
+        invoice.integrationId,
+        getInvoicePrefix(config),
+        config.startSequence,
+      );
+
+      const document = this.buildSalesDocument(
+        order,
+        config,
+        documentNumber,
+        customer ? CustomerSyncService.toErpCustomer(customer) : undefined,
+      );
+      const result = await erpConnector.createSalesDocument(document);
+
+      if (result.total !== null && Math.abs(result.total - order.total) > 0.05) {
+        console.warn(
+          `[Invoice] ⚠️ Total de la factura ${documentNumber} (${result.total}) difiere del total de la orden (${order.total})`,
+        );
+      }
+
+      await storage.updateOrderInvoice(invoiceId, {
+        status: "completed",
+        documentId: result.id,
+        documentNumber: result.documentNumber || documentNumber,
+        authorizationStatus: result.authorizationStatus,
+        authorizationNumber: result.authorizationNumber,
+        errorMessage: null,
+        processedAt: new Date(),
+      });
+
+      console.log(`[Invoice] ✅ Factura ${documentNumber} emitida para orden ${invoice.orderNumber || invoice.orderId}`);
+      return true;
+    } catch (error: any) {
+      console.error(`[Invoice] ❌ Error emitiendo factura ${invoiceId}:`, error.message);
+
+      const newAttempts = invoice.attempts + 1;
+      if (newAttempts >= invoice.maxAttempts) {
+        await storage.updateOrderInvoice(invoiceId, {
+          status: "failed",
+          attempts: newAttempts,
+          errorMessage: error.message,
+        });
+        console.log(`[Invoice] Factura ${invoiceId} marcada como failed (max attempts)`);
+      } else {
+        const backoffMinutes = Math.pow(2, newAttempts);
+        await storage.updateOrderInvoice(invoiceId, {
+          status: "pending",
+          attempts: newAttempts,
+          nextAttemptAt: new Date(Date.now() + backoffMinutes * 60 * 1000),
+          errorMessage: error.message,
+        });
+        console.log(`[Invoice] Factura ${invoiceId} a pending (intento ${newAttempts})`);
+      }
+
+      return false;
+    }
+  }
+
+  /**
+   * Convierte la orden al documento de venta del ERP (precios sin IVA)
+   * @param customer - Cliente sincronizado; sin él se usan los datos de la orden
+   * @throws Error si una línea no tiene SKU o falta el producto de envío
+   */
+  static buildSalesDocument(
+    order: InvoiceOrderData,
+    config: InvoicingConfig,
+    documentNumber: string,
+    customer?: ErpCustomer,
+  ): ErpSalesDocument {
+    const netLine = (line: InvoiceOrderLine) => {
+      const divisor = order.taxesIncluded ? 1 + line.taxRate / 100 : 1;
+      return {
+        description: line.title,
+        quantity: line.quantity,
+        unitPrice: round2(line.unitPrice / divisor),
+        discount: round2(line.discount / divisor),
+        taxRate: line.taxRate,
+      };
+    };
+
+    const lines: ErpSalesDocument["lines"] = order.lines.map((line) => {
+      if (!line.sku) {
+        throw new Error(`La línea "${line.title}" no tiene SKU`);
+      }
+      return { sku: line.sku, ...netLine(line) };
+    });
+
+    for (const shipping of order.shipping) {
+      if (shipping.unitPrice * shipping.quantity - shipping.discount <= 0) {
+        continue; // Envío gratis
+      }
+      if (!config.shippingProductId) {
+        throw new Error("La orden tiene envío pero no hay producto de envío configurado en la facturación");
+      }
+      lines.push({ productId: config.shippingProductId, ...netLine(shipping) });
+    }
+
+    return {
+      documentNumber,
+      issueDate: new Date(),
+      customer: customer || this.buildCustomer(order.customer),
+      lines,
+      description: `Pedido ${order.orderNumber}`,
+      posToken: config.posToken,
+      paymentMethod: config.paymentMethod,
+    };
+  }
+
+  /**
+   * Cliente desde los datos de la orden (cuando no hay cliente capturado)
+   * @throws Error si la identificación no es válida
+   */
+  private static buildCustomer(customer: InvoiceOrderData["customer"]): ErpCustomer {
+    const check = checkIdentification(customer.identification);
+    if (!check.valid) {
+      throw new Error(`Identificación del cliente inválida: ${check.error}`);
+    }
+
+    return {
+      identificationType: check.type,
+      identification: check.value,
+      name: customer.name || "CONSUMIDOR FINAL",
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address,
+    };
+  }
+
+  /**
+   * Consulta en el ERP el estado de autorización de una factura emitida
+   */
+  static async refreshAuthorization(invoiceId: number): Promise<OrderInvoice> {
+    const invoice = await storage.getOrderInvoiceById(invoiceId);
+    if (!invoice) throw new Error(`Factura ${invoiceId} no encontrada`);
+    if (!invoice.documentId) throw new Error("La factura aún no fue emitida");
+
+    const integration = await storage.getIntegration(invoice.integrationId);
+    if (!integration) throw new Error(`Integración ${invoice.integrationId} no encontrada`);
+
+    const erpConnector = createErpConnector(integration);
+    if (!erpConnector.getSalesDocument) {
+      throw new Error(`${erpConnector.displayName} no soporta facturación`);
+    }
+
+    const result = await erpConnector.getSalesDocument(invoice.documentId);
+    if (result.authorizationStatus === invoice.authorizationStatus) {
+      return invoice;
+    }
+
+    console.log(`[Invoice] Factura ${invoice.documentNumber}: autorización ${result.authorizationStatus}`);
+    return await storage.updateOrderInvoice(invoiceId, {
+      authorizationStatus: result.authorizationStatus,
+      authorizationNumber: result.authorizationNumber,
+    });
+  }
+
+  /**
+   * Reencola una factura fallida (reinicia los intentos; conserva el número reservado)
+   */
+  static async retryInvoice(invoiceId: number): Promise<OrderInvoice> {
+    return await storage.updateOrderInvoice(invoiceId, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: null,
+      errorMessage: null,
+    });
+  }
+
+  /**
+   * Emite las facturas pendientes y actualiza las autorizaciones pendientes
+   * @returns Estadísticas del procesamiento
+   */
+  static async processPendingInvoices(limit: number = 20): Promise<{
+    processed: number;
+    successful: number;
+    failed: number;
+    authorized: number;
+  }> {
+    const pendingInvoices = await storage.getPendingOrderInvoices(limit);
+    let successful = 0;
+    let failed = 0;
+
+    for (const invoice of pendingInvoices) {
+      const tenant = await storage.getTenant(invoice.tenantId);
+      if (tenant?.expiresAt && new Date(tenant.expiresAt) < new Date()) {
+        console.log(`[Invoice] ⏸️  Factura ${invoice.id} - tenant ${tenant.id} expirado, saltando...`);
+        continue;
+      }
+
+      if (await this.processInvoice(invoice.id)) {
+        successful++;
+      } else {
+        failed++;
+      }
+    }
+
+    let authorized = 0;
+    for (const invoice of await storage.getInvoicesAwaitingAuthorization(limit)) {
+      try {
+        const updated = await this.refreshAuthorization(invoice.id);
+        if (updated.authorizationStatus === "authorized") {
+          authorized++;
+        }
+      } catch (error: any) {
+        console.warn(`[Invoice] ⚠️ No se pudo consultar la autorización de la factura ${invoice.id}:`, error.message);
+      }
+    }
+
+    return { processed: pendingInvoices.length, successful, failed, authorized };
+  }
+}
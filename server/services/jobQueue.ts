@@ -0,0 +1,205 @@
+import { storage } from "../storage";
+import type { Job } from "@shared/schema";
+import type { ExportKind, JobType } from "@shared/jobs";
+import type { PullMode } from "@shared/delta-pull";
+
+/**
+ * Configuración por tipo de trabajo
+ */
+interface JobTypeConfig {
+  priority: number; // Mayor = antes
+  maxAttempts: number;
+  visibilityTimeoutMs: number; // Sin heartbeat durante este tiempo, el trabajo vuelve a la cola
+  recurringIntervalMs?: number; // Trabajos recurrentes: se vuelven a encolar al terminar
+  nextPayload?: (job: Job, result: any) => any;
+}
+
+const MINUTE = 60 * 1000;
+
+export const JOB_TYPE_CONFIG: Record<JobType, JobTypeConfig> = {
+  scheduler_tick: {
+    priority: 100,
+    maxAttempts: 1,
+    visibilityTimeoutMs: 2 * MINUTE,
+    recurringIntervalMs: MINUTE,
+    // La ventana del siguiente ciclo empieza donde terminó esta (si falló, se conserva la anterior)
+    nextPayload: (job, result) => ({ from: result?.windowEnd ?? (job.payload as any)?.from }),
+  },
+  webhook_registration: { priority: 50, maxAttempts: 5, visibilityTimeoutMs: 2 * MINUTE },
+  export: { priority: 40, maxAttempts: 2, visibilityTimeoutMs: 5 * MINUTE },
+  pull: { priority: 10, maxAttempts: 3, visibilityTimeoutMs: 15 * MINUTE },
+  push: { priority: 20, maxAttempts: 1, visibilityTimeoutMs: 10 * MINUTE, recurringIntervalMs: 2 * MINUTE },
+  invoices: { priority: 20, maxAttempts: 1, visibilityTimeoutMs: 10 * MINUTE, recurringIntervalMs: 2 * MINUTE },
+};
+
+// Pull manual: el usuario espera el resultado, tiene prioridad y no se reintenta
+const MANUAL_PULL_PRIORITY = 30;
+
+// Espera entre reintentos: 30s, 1min, 2min... hasta 30 minutos
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * MINUTE;
+
+export interface PullJobPayload {
+  storeId: number;
+  integrationId: number;
+  mode: PullMode | "auto";
+  trigger: "manual" | "schedule";
+  scheduleName?: string;
+  dryRun?: boolean;
+  limit?: number;
+  skus?: string[]; // Pull selectivo: solo estos SKUs
+  resumeSyncLogId?: number; // Reanuda un Pull cancelado o interrumpido desde su punto de control
+  preview?: boolean; // Vista previa: dry-run que guarda un plan (pull_plans) para revisarlo
+  planId?: number; // Aplica un plan ya revisado en lugar de consultar el ERP
+  requestedBy?: number; // Usuario que pidió la vista previa
+  rollbackSyncLogId?: number; // Restaura el stock que reemplazó ese Pull
+}
+
+export interface WebhookRegistrationJobPayload {
+  storeId: number;
+  baseUrl: string; // URL pública del servidor (los webhooks apuntan a /api/webhooks/...)
+}
+
+export interface ExportJobPayload {
+  kind: ExportKind;
+  storeId?: number;
+  syncLogId?: number;
+  filters?: Record<string, string | undefined>;
+}
+
+/**
+ * Archivo generado por un trabajo de exportación (se guarda en jobs.result)
+ */
+export interface ExportJobResult {
+  filename: string;
+  contentType: string;
+  data: string; // base64
+  rows: number;
+}
+
+export interface EnqueueOptions {
+  tenantId?: number | null;
+  storeId?: number | null;
+  priority?: number;
+  maxAttempts?: number;
+  runAt?: Date;
+  dedupeKey?: string;
+}
+
+/**
+ * Error que no tiene sentido reintentar (datos inválidos, cuota agotada...):
+ * el trabajo pasa directamente a dead
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+/**
+ * El handler se detuvo porque el usuario canceló el trabajo: pasa a cancelled
+ * conservando lo procesado hasta entonces como resultado
+ */
+export class CancelledJobError extends Error {
+  constructor(message: string, public readonly result: any = null) {
+    super(message);
+    this.name = "CancelledJobError";
+  }
+}
+
+/**
+ * Cola de trabajos en Postgres (tabla jobs)
+ * Las rutas y el Scheduler encolan; JobWorker (en el proceso web o en server/worker.ts) ejecuta
+ */
+export class JobQueue {
+  static async enqueue(type: JobType, payload: any, options: EnqueueOptions = {}): Promise<Job> {
+    const config = JOB_TYPE_CONFIG[type];
+
+    return storage.enqueueJob({
+      type,
+      payload,
+      tenantId: options.tenantId ?? null,
+      storeId: options.storeId ?? null,
+      priority: options.priority ?? config.priority,
+      maxAttempts: options.maxAttempts ?? config.maxAttempts,
+      runAt: options.runAt ?? new Date(),
+      dedupeKey: options.dedupeKey ?? null,
+    });
+  }
+
+  /**
+   * Encola un Pull. Los Pull reales de una tienda no se duplican: si ya hay uno
+   * pendiente o en ejecución se devuelve ese (los dry-run y selectivos siempre se encolan)
+   */
+  static enqueuePull(payload: PullJobPayload, tenantId: number): Promise<Job> {
+    const manual = payload.trigger === "manual";
+
+    return this.enqueue("pull", payload, {
+      tenantId,
+      storeId: payload.storeId,
+      priority: manual ? MANUAL_PULL_PRIORITY : undefined,
+      maxAttempts: manual ? 1 : undefined,
+      dedupeKey: payload.dryRun || payload.skus ? undefined : `pull:${payload.storeId}:${payload.integrationId}`,
+    });
+  }
+
+  static enqueueWebhookRegistration(payload: WebhookRegistrationJobPayload, tenantId: number): Promise<Job> {
+    return this.enqueue("webhook_registration", payload, {
+      tenantId,
+      storeId: payload.storeId,
+      dedupeKey: `webhooks:${payload.storeId}`,
+    });
+  }
+
+  static enqueueExport(payload: ExportJobPayload, tenantId: number): Promise<Job> {
+    return this.enqueue("export", payload, { tenantId, storeId: payload.storeId ?? null });
+  }
+
+  /**
+   * Encola la siguiente ejecución de un trabajo recurrente
+   */
+  static enqueueNextRun(job: Job, result: any): Promise<Job> | null {
+    const config = JOB_TYPE_CONFIG[job.type as JobType];
+    if (!config?.recurringIntervalMs) {
+      return null;
+    }
+
+    return this.enqueue(job.type as JobType, config.nextPayload?.(job, result) ?? {}, {
+      runAt: new Date(Date.now() + config.recurringIntervalMs),
+      dedupeKey: this.getRecurringKey(job.type),
+    });
+  }
+
+  /**
+   * Garantiza que cada trabajo recurrente tenga una ejecución en cola
+   * (primer arranque, o si la anterior se perdió)
+   */
+  static async ensureRecurringJobs(): Promise<void> {
+    for (const [type, config] of Object.entries(JOB_TYPE_CONFIG)) {
+      if (config.recurringIntervalMs) {
+        await this.enqueue(type as JobType, {}, { dedupeKey: this.getRecurringKey(type) });
+      }
+    }
+  }
+
+  /**
+   * Fecha del siguiente intento tras un fallo, o null si ya no quedan intentos
+   */
+  static getRetryAt(job: Job, error: unknown): Date | null {
+    if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+      return null;
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+    return new Date(Date.now() + delay);
+  }
+
+  static getVisibilityTimeoutMs(type: string): number {
+    return JOB_TYPE_CONFIG[type as JobType]?.visibilityTimeoutMs ?? 5 * MINUTE;
+  }
+
+  private static getRecurringKey(type: string): string {
+    return `recurring:${type}`;
+  }
+}
@@ -0,0 +1,134 @@
+import nodemailer from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Transporte de correo: SMTP en producción, archivo o consola en desarrollo
+ * Se elige con MAIL_TRANSPORT (smtp | file | console); sin configurar, smtp si existe SMTP_HOST
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Guarda cada correo como .eml en MAIL_OUTBOX_DIR (se abre con cualquier cliente de correo)
+ */
+class FileTransport implements MailTransport {
+  readonly name = "file";
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+    await mkdir(this.directory, { recursive: true });
+
+    const slug = message.to.replace(/[^a-z0-9]+/gi, "_");
+    const file = path.join(this.directory, `${Date.now()}-${slug}.eml`);
+    await writeFile(file, info.message as Buffer);
+    console.log(`[Mailer] Correo "${message.subject}" para ${message.to} guardado en ${file}`);
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[Mailer] Para: ${message.to}\n[Mailer] Asunto: ${message.subject}\n${message.text}`);
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  switch (transport) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("MAIL_TRANSPORT=smtp requiere SMTP_HOST");
+      }
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`MAIL_TRANSPORT desconocido: ${transport}`);
+  }
+}
+
+/**
+ * Envío de correos de la plataforma (verificación, recuperación de contraseña, avisos)
+ */
+export class Mailer {
+  private static transport: MailTransport | null = null;
+
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransportFromEnv();
+      console.log(`[Mailer] Transporte de correo: ${this.transport.name}`);
+    }
+    return this.transport;
+  }
+
+  /**
+   * Valida la configuración de correo al iniciar (lanza si es inválida)
+   * En producción se exige un transporte real: console y file dejarían los enlaces de
+   * recuperación e invitación en los logs o en disco
+   */
+  static validateConfig(): void {
+    const transport = this.getTransport();
+    if (process.env.NODE_ENV === "production" && (transport.name === "console" || transport.name === "file")) {
+      throw new Error(`El transporte de correo "${transport.name}" no está permitido en producción (configure SMTP_HOST)`);
+    }
+  }
+
+  /**
+   * Reemplaza el transporte (otro proveedor, o uno en memoria para pruebas)
+   */
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    const from = process.env.MAIL_FROM || "G4 Hub <no-reply@g4hub.com>";
+    await this.getTransport().send({ ...message, from });
+  }
+
+  /**
+   * Envía sin lanzar errores: un correo fallido no debe romper la operación que lo originó
+   * @returns true si el correo se envió
+   */
+  static async trySend(message: MailMessage): Promise<boolean> {
+    try {
+      await this.send(message);
+      return true;
+    } catch (error: any) {
+      console.error(`[Mailer] Error enviando "${message.subject}" a ${message.to}:`, error.message);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { storage } from "../storage";
+import type { PullPlan } from "@shared/schema";
+import {
+  PULL_PLAN_TTL_MS,
+  getPullApprovalPolicy,
+  planRequiresApproval,
+  summarizePullPlan,
+  type PlannedStockChange,
+  type PullApprovalPolicy,
+  type PullPlanSummary,
+} from "@shared/pull-plans";
+
+export interface CreatePullPlanParams {
+  tenantId: number;
+  storeId: number;
+  integrationId: number;
+  trigger: "manual" | "schedule";
+  changes: PlannedStockChange[];
+  catalogSize: number;
+  createdBy?: number | null;
+  previewJobId?: number | null;
+}
+
+/**
+ * Planes de Pull (vistas previas) y política de aprobación del tenant
+ * El plan sale de un Pull en dry-run; SyncService.applyPullPlan lo escribe en la tienda
+ */
+export class PullPlanService {
+  static async getPolicy(tenantId: number): Promise<PullApprovalPolicy> {
+    const tenant = await storage.getTenant(tenantId);
+    return getPullApprovalPolicy(tenant?.settings);
+  }
+
+  /**
+   * Guarda un plan; si supera la política del tenant queda pendiente de aprobación
+   */
+  static async createPlan(params: CreatePullPlanParams): Promise<PullPlan> {
+    const policy = await this.getPolicy(params.tenantId);
+    const summary = summarizePullPlan(params.changes, params.catalogSize);
+    const requiresApproval = planRequiresApproval(summary, policy);
+
+    const plan = await storage.createPullPlan({
+      tenantId: params.tenantId,
+      storeId: params.storeId,
+      integrationId: params.integrationId,
+      status: requiresApproval ? "pending_approval" : "ready",
+      trigger: params.trigger,
+      changes: params.changes,
+      summary,
+      requiresApproval,
+      previewJobId: params.previewJobId ?? null,
+      createdBy: params.createdBy ?? null,
+      expiresAt: new Date(Date.now() + PULL_PLAN_TTL_MS),
+    });
+
+    console.log(
+      `[PullPlan] Plan ${plan.id} creado para store ${params.storeId}: ${summary.changed} cambios, ${summary.zeroed} en cero (${summary.zeroedPercent}% del catálogo)${requiresApproval ? " - requiere aprobación" : ""}`,
+    );
+
+    return plan;
+  }
+
+  /**
+   * Avisa al tenant que un Pull quedó detenido esperando aprobación
+   */
+  static async notifyApprovalRequired(plan: PullPlan, policy: PullApprovalPolicy): Promise<void> {
+    const summary = plan.summary as PullPlanSummary;
+
+    await storage.createNotification({
+      tenantId: plan.tenantId,
+      userId: null,
+      storeId: plan.storeId,
+      type: "sync_approval_required",
+      title: "Sincronización pendiente de aprobación",
+      message: `La sincronización dejaría en cero ${summary.zeroed} productos (${summary.zeroedPercent}% del catálogo, el máximo permitido es ${policy.maxZeroedPercent}%). Revisa los cambios y apruébalos para aplicarlos.`,
+      severity: "warning",
+      read: false,
+      data: {
+        planId: plan.id,
+        syncType: "pull",
+        zeroed: summary.zeroed,
+        zeroedPercent: summary.zeroedPercent,
+        changed: summary.changed,
+      },
+    });
+  }
+}
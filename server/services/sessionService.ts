@@ -0,0 +1,106 @@
+import type { Request } from "express";
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+
+/**
+ * Datos de la sesión que ve su usuario (se guardan dentro de sessions.sess)
+ * El id es público y distinto del sid: el sid es el secreto de la cookie y nunca sale del servidor
+ */
+export interface SessionMeta {
+  id: string;
+  userId: number;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    meta?: SessionMeta;
+  }
+}
+
+// La última actividad se guarda con esta resolución: no escribir la sesión en cada request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Sesiones de navegador de cada usuario: metadatos, listado y cierre remoto
+ */
+export class SessionService {
+  /**
+   * Registra los metadatos de una sesión recién iniciada (después de req.logIn)
+   */
+  static start(req: Request): void {
+    const user = req.user;
+    if (!user) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    req.session.meta = {
+      id: randomBytes(16).toString("hex"),
+      userId: user.id,
+      ip: req.ip || null,
+      userAgent: req.get("user-agent") || null,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+  }
+
+  /**
+   * Actualiza la última actividad, IP y navegador de la sesión actual
+   * Las sesiones anteriores a estos metadatos los obtienen en su siguiente request
+   */
+  static touch(req: Request): void {
+    const meta = req.session.meta;
+    if (!meta || meta.userId !== req.user?.id) {
+      this.start(req);
+      return;
+    }
+
+    if (Date.now() - new Date(meta.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+      return;
+    }
+
+    meta.lastSeenAt = new Date().toISOString();
+    meta.ip = req.ip || meta.ip;
+    meta.userAgent = req.get("user-agent") || meta.userAgent;
+  }
+
+  /**
+   * Sesiones vigentes del usuario, la más reciente primero
+   */
+  static async listSessions(req: Request) {
+    const rows = await storage.getUserSessions(req.user!.id);
+
+    return rows
+      .map((row) => {
+        const meta = (row.sess as { meta?: SessionMeta }).meta;
+        return {
+          id: meta?.id ?? null,
+          ip: meta?.ip ?? null,
+          userAgent: meta?.userAgent ?? null,
+          createdAt: meta?.createdAt ?? null,
+          lastSeenAt: meta?.lastSeenAt ?? null,
+          expiresAt: row.expire,
+          current: row.sid === req.sessionID,
+        };
+      })
+      // Una sesión sin metadatos aún no hizo ningún request desde que existen: no se puede identificar
+      .filter((session) => session.id !== null)
+      .sort((a, b) => (b.lastSeenAt || "").localeCompare(a.lastSeenAt || ""));
+  }
+
+  /**
+   * Cierra todas las sesiones del usuario excepto la actual
+   * @returns Cantidad de sesiones cerradas
+   */
+  static async revokeOtherSessions(req: Request): Promise<number> {
+    const revoked = await storage.deleteUserSessions(req.user!.id, req.sessionID);
+    if (revoked > 0) {
+      console.log(`[Session] ${revoked} sesiones cerradas para usuario ${req.user!.id}`);
+    }
+    return revoked;
+  }
+}
@@ -0,0 +1,302 @@
+import { storage } from "../storage";
+import { createErpConnector } from "../connectors/erp/registry";
+import type { ErpConnector } from "../connectors/erp/ErpConnector";
+import type { StandardProduct } from "../connectors/BaseConnector";
+import type {
+  InsertStockReconciliationItem,
+  StockReconciliation,
+  StockReconciliationItem,
+} from "@shared/schema";
+import { getLocationMappings } from "@shared/location-mappings";
+import { SyncService } from "./SyncService";
+
+export type ReconciliationResolution = "pull" | "adjustment";
+
+/**
+ * Una conciliación en 'running' más antigua que esto se considera abandonada (reinicio del servidor)
+ */
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+/**
+ * Conciliación de stock: compara, SKU por SKU, el stock de la tienda con el del ERP
+ * - drift: el stock difiere y los movimientos pendientes no lo explican
+ * - explained: la diferencia coincide con los movimientos aún no enviados al ERP
+ * - missing_in_erp / missing_in_store: el SKU solo existe en un lado
+ * Las diferencias se resuelven con un Pull del SKU (ERP → tienda) o con un
+ * movimiento de ajuste en el ERP (tienda → ERP)
+ */
+export class StockReconciliationService {
+  /**
+   * Conciliación en curso de la tienda (ignora las abandonadas)
+   */
+  static async getRunningReconciliation(storeId: number): Promise<StockReconciliation | null> {
+    const latest = await storage.getLatestStockReconciliation(storeId);
+    if (
+      latest?.status === "running" &&
+      latest.createdAt &&
+      Date.now() - new Date(latest.createdAt).getTime() < STALE_RUN_MS
+    ) {
+      return latest;
+    }
+    return null;
+  }
+
+  /**
+   * Registra la conciliación y la ejecuta en segundo plano
+   * @returns La conciliación en estado 'running' (el cliente consulta el resultado)
+   */
+  static async startReconciliation(storeId: number, integrationId: number): Promise<StockReconciliation> {
+    const store = await storage.getStore(storeId);
+    if (!store) throw new Error(`Tienda ${storeId} no encontrada`);
+
+    const reconciliation = await storage.createStockReconciliation({
+      tenantId: store.tenantId,
+      storeId,
+      integrationId,
+      status: "running",
+    });
+
+    this.runReconciliation(reconciliation.id).catch((error) =>
+      console.error(`[Reconciliation] ❌ Conciliación ${reconciliation.id} falló:`, error.message),
+    );
+
+    return reconciliation;
+  }
+
+  /**
+   * Compara el stock de todos los SKUs y guarda las diferencias
+   */
+  static async runReconciliation(reconciliationId: number): Promise<StockReconciliation> {
+    const startTime = Date.now();
+    const reconciliation = await storage.getStockReconciliationById(reconciliationId);
+    if (!reconciliation) throw new Error(`Conciliación ${reconciliationId} no encontrada`);
+
+    try {
+      const store = await storage.getStore(reconciliation.storeId);
+      if (!store) throw new Error(`Tienda ${reconciliation.storeId} no encontrada`);
+
+      const integration = await storage.getIntegration(reconciliation.integrationId);
+      if (!integration) throw new Error(`Integración ${reconciliation.integrationId} no encontrada`);
+
+      const storeIntegrations = await storage.getStoreIntegrations(store.id);
+      const syncConfig: any = storeIntegrations.find((si) => si.integrationId === integration.id)?.syncConfig || {};
+
+      const erpConnector = createErpConnector(integration);
+      const storeConnector = SyncService.getStoreConnector(store);
+
+      // Misma bodega que usan los movimientos (push); con mapeo por ubicación se suman las bodegas mapeadas
+      const mappedWarehouseIds = store.platform === "shopify"
+        ? Array.from(new Set(getLocationMappings(syncConfig).map((m) => m.warehouseId)))
+        : [];
+      const warehouseId = mappedWarehouseIds.length > 0
+        ? null
+        : syncConfig.pull?.warehouse || erpConnector.primaryWarehouseId || null;
+
+      console.log(
+        `[Reconciliation] Iniciando conciliación ${reconciliationId}: ${store.storeName} ↔ ${erpConnector.displayName}` +
+        ` (${mappedWarehouseIds.length > 0 ? `${mappedWarehouseIds.length} bodegas mapeadas` : warehouseId || "stock global"})`,
+      );
+
+      const [storeProducts, erpProducts, cachedProducts, unprocessedMovements] = await Promise.all([
+        storeConnector.getProductsWithSku(),
+        erpConnector.listProducts(),
+        storage.getProductsByStore(store.id),
+        storage.getUnprocessedMovementsByStore(store.id),
+      ]);
+
+      const erpBySku = new Map<string, StandardProduct>();
+      for (const product of erpProducts) {
+        if (product.sku) erpBySku.set(product.sku, product);
+      }
+
+      const cachedStock = new Map(cachedProducts.map((p) => [p.platformProductId, p.stockQuantity]));
+
+      // Efecto neto sobre el stock del ERP de los movimientos que aún no se enviaron
+      const pendingDeltaBySku = new Map<string, number>();
+      for (const movement of unprocessedMovements) {
+        const delta = movement.movementType === "egreso" ? -movement.quantity : movement.quantity;
+        pendingDeltaBySku.set(movement.sku, (pendingDeltaBySku.get(movement.sku) || 0) + delta);
+      }
+
+      const items: InsertStockReconciliationItem[] = [];
+      const counts = { matched: 0, drift: 0, explained: 0, missingInErp: 0, missingInStore: 0 };
+      const storeSkus = new Set<string>();
+
+      // Lotes de 20 para no saturar la API del ERP (stock por bodega)
+      const batchSize = 20;
+      for (let i = 0; i < storeProducts.length; i += batchSize) {
+        const batch = storeProducts.slice(i, i + batchSize);
+
+        await Promise.all(batch.map(async (storeProduct) => {
+          storeSkus.add(storeProduct.sku);
+
+          const storeStock = Math.floor(Number(storeProduct.inventory_quantity) || 0);
+          const pendingDelta = pendingDeltaBySku.get(storeProduct.sku) || 0;
+          const base = {
+            reconciliationId,
+            sku: storeProduct.sku,
+            productId: storeProduct.variant_id.toString(),
+            productName: storeProduct.title,
+            storeStock,
+            cachedStock: cachedStock.get(storeProduct.variant_id.toString()) ?? null,
+            pendingDelta,
+          };
+
+          const erpProduct = erpBySku.get(storeProduct.sku);
+          if (!erpProduct) {
+            counts.missingInErp++;
+            items.push({ ...base, status: "missing_in_erp", erpStock: null, drift: null });
+            return;
+          }
+
+          const erpStock = await this.getErpStock(erpConnector, erpProduct, warehouseId, mappedWarehouseIds);
+          const drift = storeStock - erpStock;
+
+          if (drift === 0) {
+            counts.matched++;
+            return;
+          }
+
+          // Ej.: una venta ya descontada en la tienda cuyo egreso sigue en la cola
+          const status = drift === pendingDelta ? "explained" : "drift";
+          counts[status]++;
+          items.push({ ...base, status, erpStock, drift });
+        }));
+      }
+
+      for (const [sku, erpProduct] of Array.from(erpBySku)) {
+        if (storeSkus.has(sku)) continue;
+
+        counts.missingInStore++;
+        items.push({
+          reconciliationId,
+          sku,
+          productId: null,
+          productName: erpProduct.name,
+          status: "missing_in_store",
+          storeStock: null,
+          cachedStock: null,
+          // Sin bodega configurada el catálogo ya trae el stock; por bodega costaría una consulta por SKU
+          erpStock: warehouseId || mappedWarehouseIds.length > 0
+            ? null
+            : Math.floor(Number(erpProduct.stock_quantity) || 0),
+          drift: null,
+          pendingDelta: pendingDeltaBySku.get(sku) || 0,
+        });
+      }
+
+      await storage.createStockReconciliationItems(items);
+
+      const completed = await storage.updateStockReconciliation(reconciliationId, {
+        status: "completed",
+        warehouseId,
+        totalSkus: storeProducts.length + counts.missingInStore,
+        matchedCount: counts.matched,
+        driftCount: counts.drift,
+        explainedCount: counts.explained,
+        missingInErpCount: counts.missingInErp,
+        missingInStoreCount: counts.missingInStore,
+        completedAt: new Date(),
+      });
+
+      console.log(
+        `[Reconciliation] ✅ Conciliación ${reconciliationId} completada en ${Date.now() - startTime}ms: ` +
+        `${counts.matched} iguales, ${counts.drift} con diferencia, ${counts.explained} explicadas por movimientos pendientes, ` +
+        `${counts.missingInErp} sin ${erpConnector.displayName}, ${counts.missingInStore} sin tienda`,
+      );
+
+      return completed;
+    } catch (error: any) {
+      console.error(`[Reconciliation] ❌ Error en conciliación ${reconciliationId}:`, error.message);
+      return await storage.updateStockReconciliation(reconciliationId, {
+        status: "failed",
+        errorMessage: error.message,
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Stock del producto en el ERP: bodega configurada, suma de bodegas mapeadas o stock global
+   */
+  private static async getErpStock(
+    erpConnector: ErpConnector,
+    product: StandardProduct,
+    warehouseId: string | null,
+    mappedWarehouseIds: string[],
+  ): Promise<number> {
+    if (mappedWarehouseIds.length > 0) {
+      const stockByWarehouse = await erpConnector.getProductStockByWarehouse(product);
+      return mappedWarehouseIds.reduce(
+        (sum, id) => sum + Math.floor(Number(stockByWarehouse[id]) || 0),
+        0,
+      );
+    }
+
+    return Math.floor(Number(await erpConnector.getProductStock(product, warehouseId)) || 0);
+  }
+
+  /**
+   * Resuelve una diferencia:
+   * - pull: la tienda toma el stock del ERP (Pull selectivo del SKU)
+   * - adjustment: encola un ingreso/egreso en el ERP por la diferencia que los movimientos pendientes no cubren
+   */
+  static async resolveItem(
+    item: StockReconciliationItem,
+    reconciliation: StockReconciliation,
+    method: ReconciliationResolution,
+  ): Promise<StockReconciliationItem> {
+    if (method === "pull") {
+      const result = await SyncService.pullFromIntegrationSelective(
+        reconciliation.storeId,
+        reconciliation.integrationId,
+        [item.sku],
+      );
+
+      if (result.failed > 0) {
+        throw new Error(result.errors[0]?.error || `No se pudo sincronizar ${item.sku}`);
+      }
+
+      console.log(`[Reconciliation] ✅ ${item.sku} resuelto por Pull (conciliación ${reconciliation.id})`);
+      return await storage.updateStockReconciliationItem(item.id, {
+        resolution: "pull",
+        resolutionMessage: result.success > 0
+          ? `Stock de la tienda actualizado a ${item.erpStock}`
+          : "El Pull no modificó la tienda (el stock ya coincidía o hubo un push reciente)",
+        resolvedAt: new Date(),
+      });
+    }
+
+    const adjustment = (item.drift || 0) - item.pendingDelta;
+    const movementType = adjustment > 0 ? "ingreso" : "egreso";
+
+    const movement = await storage.queueInventoryMovement({
+      tenantId: reconciliation.tenantId,
+      storeId: reconciliation.storeId,
+      integrationId: reconciliation.integrationId,
+      movementType,
+      sku: item.sku,
+      quantity: Math.abs(adjustment),
+      orderId: null,
+      idempotencyKey: `reconciliation-item:${item.id}`,
+      eventType: "reconciliation_adjustment",
+      status: "pending",
+      attempts: 0,
+      maxAttempts: 3,
+      metadata: {
+        productName: item.productName,
+        reconciliationId: reconciliation.id,
+        notes: `Ajuste por conciliación de stock #${reconciliation.id} - SKU ${item.sku}`,
+      },
+    });
+
+    console.log(
+      `[Reconciliation] ✅ ${item.sku} resuelto por ajuste: ${movementType} x${Math.abs(adjustment)} (movimiento ${movement.id})`,
+    );
+    return await storage.updateStockReconciliationItem(item.id, {
+      resolution: "adjustment",
+      resolutionMessage: `Movimiento #${movement.id} encolado: ${movementType} de ${Math.abs(adjustment)} unidades`,
+      resolvedAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,257 @@
+import { EventEmitter } from "events";
+import { randomBytes } from "crypto";
+import { pool } from "../db";
+import {
+  applySyncEvent,
+  estimateRemainingMs,
+  isRunEvent,
+  type SyncEvent,
+  type SyncEventEnvelope,
+  type SyncItemOutcome,
+  type SyncRunCounts,
+  type SyncRunKind,
+  type SyncRunSnapshot,
+  type SyncRunSummary,
+} from "@shared/sync-progress";
+
+// Canal de Postgres: los eventos publicados en el worker (server/worker.ts) llegan al servidor web
+const NOTIFY_CHANNEL = "sync_events";
+// pg_notify admite hasta 8000 bytes por mensaje
+const MAX_NOTIFY_PAYLOAD = 7500;
+// Estado de las ejecuciones terminadas que se conserva para clientes que se conectan tarde
+const FINISHED_RUN_TTL_MS = 15 * 60 * 1000;
+const MAX_ERROR_LENGTH = 300;
+
+type SyncEventListener = (event: SyncEventEnvelope) => void;
+
+/**
+ * Bus de eventos de progreso de sincronización
+ * Entrega los eventos a los streams SSE de este proceso y, vía NOTIFY, a los de otros procesos
+ */
+export class SyncEvents {
+  private static readonly origin = randomBytes(6).toString("hex");
+  private static emitter = new EventEmitter().setMaxListeners(0);
+  private static runs = new Map<string, SyncRunSnapshot>();
+  private static listening = false;
+
+  /**
+   * Publica un evento para los usuarios del tenant
+   */
+  static publish(tenantId: number, event: SyncEvent): void {
+    const envelope = { ...event, tenantId, at: new Date().toISOString() } as SyncEventEnvelope;
+    this.deliver(envelope);
+
+    for (const payload of this.toNotifyPayloads(envelope)) {
+      pool.query("SELECT pg_notify($1, $2)", [NOTIFY_CHANNEL, payload]).catch((error: any) => {
+        console.error("[SyncEvents] Error publicando evento:", error.message);
+      });
+    }
+  }
+
+  /**
+   * Suscribe a los eventos de un tenant
+   * @returns Función para cancelar la suscripción
+   */
+  static subscribe(tenantId: number, listener: SyncEventListener): () => void {
+    const handler = (event: SyncEventEnvelope) => {
+      if (event.tenantId === tenantId) {
+        listener(event);
+      }
+    };
+    this.emitter.on("event", handler);
+    return () => {
+      this.emitter.off("event", handler);
+    };
+  }
+
+  /**
+   * Estado acumulado de una ejecución (undefined si no empezó o ya expiró)
+   */
+  static getRun(runId: string): SyncRunSnapshot | undefined {
+    return this.runs.get(runId);
+  }
+
+  /**
+   * Escucha los eventos publicados por otros procesos (servidor web)
+   */
+  static async listen(): Promise<void> {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+
+    try {
+      const client = await pool.connect();
+      client.on("notification", (message: any) => {
+        if (message.channel !== NOTIFY_CHANNEL || !message.payload) {
+          return;
+        }
+        try {
+          const { origin, event } = JSON.parse(message.payload);
+          if (origin !== this.origin) {
+            this.deliver(event);
+          }
+        } catch (error: any) {
+          console.error("[SyncEvents] Evento inválido:", error.message);
+        }
+      });
+      client.on("error", (error: any) => {
+        console.error("[SyncEvents] Conexión LISTEN perdida:", error.message);
+        this.listening = false;
+        client.release(true);
+        setTimeout(() => this.listen(), 5000);
+      });
+      await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+      console.log("[SyncEvents] ✅ Escuchando eventos de sincronización de otros procesos");
+    } catch (error: any) {
+      this.listening = false;
+      console.error("[SyncEvents] ⚠️ No se pudo escuchar eventos de otros procesos:", error.message);
+    }
+  }
+
+  /**
+   * Publicador de una ejecución: started → progress (por lote) → completed / failed / cancelled
+   * Sin runId no publica nada (p. ej. Pull automático post-Push)
+   */
+  static reporter(runId: string | undefined, tenantId: number, storeId: number, kind: SyncRunKind) {
+    return new SyncRunReporter(runId, tenantId, storeId, kind);
+  }
+
+  private static deliver(event: SyncEventEnvelope): void {
+    if (isRunEvent(event)) {
+      const snapshot = applySyncEvent(this.runs.get(event.runId) ?? null, event);
+      if (snapshot) {
+        this.runs.set(event.runId, snapshot);
+      }
+      this.pruneRuns();
+    }
+    this.emitter.emit("event", event);
+  }
+
+  private static pruneRuns(): void {
+    const cutoff = Date.now() - FINISHED_RUN_TTL_MS;
+    for (const [runId, run] of Array.from(this.runs.entries())) {
+      if (new Date(run.updatedAt).getTime() < cutoff) {
+        this.runs.delete(runId);
+      }
+    }
+  }
+
+  /**
+   * Mensajes NOTIFY de un evento; los lotes grandes se dividen para no superar el límite
+   */
+  private static toNotifyPayloads(event: SyncEventEnvelope): string[] {
+    const payload = JSON.stringify({ origin: this.origin, event });
+    if (payload.length <= MAX_NOTIFY_PAYLOAD) {
+      return [payload];
+    }
+
+    if (event.type === "progress" && event.items.length > 1) {
+      const half = Math.ceil(event.items.length / 2);
+      return [
+        ...this.toNotifyPayloads({ ...event, items: event.items.slice(0, half) }),
+        ...this.toNotifyPayloads({ ...event, items: event.items.slice(half) }),
+      ];
+    }
+
+    console.warn(`[SyncEvents] Evento ${event.type} demasiado grande para otros procesos, se omite`);
+    return [];
+  }
+}
+
+/**
+ * Publica el progreso de una ejecución de sincronización
+ */
+export class SyncRunReporter {
+  private readonly startTime = Date.now();
+
+  constructor(
+    private readonly runId: string | undefined,
+    private readonly tenantId: number,
+    private readonly storeId: number,
+    private readonly kind: SyncRunKind,
+  ) {}
+
+  started(total: number, mode?: string): void {
+    if (!this.runId) return;
+    SyncEvents.publish(this.tenantId, {
+      type: "started",
+      runId: this.runId,
+      kind: this.kind,
+      storeId: this.storeId,
+      total,
+      mode,
+    });
+  }
+
+  /**
+   * Fin de un lote
+   * @param items - Registros de sync_log_items creados en el lote (SKU, estado, error)
+   */
+  progress(
+    batch: number,
+    totalBatches: number,
+    processed: number,
+    total: number,
+    counts: SyncRunCounts,
+    items: Array<{ sku: string; status: string; errorMessage?: string | null }>,
+  ): void {
+    if (!this.runId) return;
+    SyncEvents.publish(this.tenantId, {
+      type: "progress",
+      runId: this.runId,
+      storeId: this.storeId,
+      batch,
+      totalBatches,
+      processed,
+      total,
+      etaMs: estimateRemainingMs(Date.now() - this.startTime, processed, total),
+      counts: { success: counts.success, failed: counts.failed, skipped: counts.skipped },
+      items: items.map((item): SyncItemOutcome => ({
+        sku: item.sku,
+        status: item.status as SyncItemOutcome["status"],
+        error: item.errorMessage ? item.errorMessage.substring(0, MAX_ERROR_LENGTH) : null,
+      })),
+    });
+  }
+
+  completed(summary: SyncRunSummary): void {
+    if (!this.runId) return;
+    SyncEvents.publish(this.tenantId, {
+      type: "completed",
+      runId: this.runId,
+      kind: this.kind,
+      storeId: this.storeId,
+      summary: this.compactSummary(summary),
+    });
+  }
+
+  cancelled(summary: SyncRunSummary): void {
+    if (!this.runId) return;
+    SyncEvents.publish(this.tenantId, {
+      type: "cancelled",
+      runId: this.runId,
+      kind: this.kind,
+      storeId: this.storeId,
+      summary: this.compactSummary(summary),
+    });
+  }
+
+  failed(error: string): void {
+    if (!this.runId) return;
+    SyncEvents.publish(this.tenantId, {
+      type: "failed",
+      runId: this.runId,
+      kind: this.kind,
+      storeId: this.storeId,
+      error: error.substring(0, MAX_ERROR_LENGTH),
+    });
+  }
+
+  private compactSummary(summary: SyncRunSummary): SyncRunSummary {
+    return {
+      ...summary,
+      errors: summary.errors?.slice(0, 20).map((e) => ({ sku: e.sku, error: e.error.substring(0, MAX_ERROR_LENGTH) })),
+    };
+  }
+}
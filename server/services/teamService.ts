@@ -0,0 +1,88 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import type { TenantInvitation, User } from "@shared/schema";
+import { TENANT_INVITATION_TTL_MS, type TenantRole } from "@shared/tenant-roles";
+
+/**
+ * Miembros de un tenant e invitaciones por token
+ * El token solo se muestra al crear la invitación; en la base de datos se guarda su hash
+ */
+export class TeamService {
+  static hashInvitationToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  /**
+   * Crea una invitación y devuelve el token en claro (para el enlace de invitación)
+   */
+  static async createInvitation(params: {
+    tenantId: number;
+    email: string;
+    role: TenantRole;
+    invitedByUserId: number;
+  }): Promise<{ invitation: TenantInvitation; token: string }> {
+    const token = randomBytes(32).toString("hex");
+
+    const invitation = await storage.createTenantInvitation({
+      tenantId: params.tenantId,
+      email: params.email,
+      role: params.role,
+      tokenHash: this.hashInvitationToken(token),
+      invitedByUserId: params.invitedByUserId,
+      expiresAt: new Date(Date.now() + TENANT_INVITATION_TTL_MS),
+    });
+
+    console.log(`[Team] Invitación ${invitation.id} (${params.role}) creada para tenant ${params.tenantId}`);
+
+    return { invitation, token };
+  }
+
+  /**
+   * Invitación vigente (no usada, no revocada, no vencida) para un token, o undefined
+   */
+  static async getValidInvitation(token: string): Promise<TenantInvitation | undefined> {
+    const invitation = await storage.getTenantInvitationByTokenHash(this.hashInvitationToken(token));
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      new Date(invitation.expiresAt) <= new Date()
+    ) {
+      return undefined;
+    }
+    return invitation;
+  }
+
+  /**
+   * true si el usuario es el único propietario del tenant (no se puede quitar ni degradar)
+   */
+  static async isLastOwner(user: User): Promise<boolean> {
+    if (user.tenantRole !== "owner" || !user.tenantId) {
+      return false;
+    }
+    const members = await storage.getUsersByTenant(user.tenantId);
+    return members.filter((member) => member.tenantRole === "owner").length <= 1;
+  }
+
+  /**
+   * Datos de un miembro que se exponen al resto del equipo
+   */
+  static toPublicMember(user: User) {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      tenantRole: user.tenantRole,
+      lastLoginAt: user.lastLoginAt,
+      createdAt: user.createdAt,
+    };
+  }
+
+  /**
+   * Las invitaciones nunca exponen el hash del token
+   */
+  static toPublicInvitation(invitation: TenantInvitation) {
+    const { tokenHash, ...publicInvitation } = invitation;
+    return publicInvitation;
+  }
+}
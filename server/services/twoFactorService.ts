@@ -0,0 +1,181 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import type { User } from "@shared/schema";
+import {
+  RECOVERY_CODES_COUNT,
+  TOTP_DIGITS,
+  TOTP_PERIOD_SECONDS,
+  TWO_FACTOR_ISSUER,
+  normalizeTwoFactorCode,
+} from "@shared/two-factor";
+
+/**
+ * Estado de la verificación en dos pasos guardado en la sesión
+ * - twoFactorLogin: contraseña correcta, falta el código (la sesión aún no está autenticada)
+ * - twoFactorSetup: secreto generado para configurar 2FA, pendiente de confirmar con un código
+ */
+declare module "express-session" {
+  interface SessionData {
+    twoFactorLogin?: { userId: number; expiresAt: number; attempts: number };
+    twoFactorSetup?: { secret: string; expiresAt: number };
+  }
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Se aceptan los códigos del intervalo anterior y del siguiente (desfase de reloj del teléfono)
+const TOTP_WINDOW = 1;
+
+// Sin 0/O ni 1/I/L: los códigos de recuperación se copian a mano
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, "").toUpperCase().split("")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Secreto TOTP inválido");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Verificación en dos pasos con TOTP (RFC 6238, HMAC-SHA1, 6 dígitos, 30 segundos)
+ * y códigos de recuperación de un solo uso (solo se guarda su hash)
+ */
+export class TwoFactorService {
+  static generateSecret(): string {
+    return base32Encode(randomBytes(20));
+  }
+
+  /**
+   * URI otpauth:// que las apps de autenticación leen desde el código QR
+   */
+  static getProvisioningUri(secret: string, email: string): string {
+    const label = `${encodeURIComponent(TWO_FACTOR_ISSUER)}:${encodeURIComponent(email)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer: TWO_FACTOR_ISSUER,
+      algorithm: "SHA1",
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  static async getQrDataUrl(provisioningUri: string): Promise<string> {
+    return await QRCode.toDataURL(provisioningUri, { margin: 1, width: 200 });
+  }
+
+  static currentStep(now: number = Date.now()): number {
+    return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  }
+
+  static generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+  }
+
+  /**
+   * Intervalo (step) en el que el código es válido, o null
+   * Un código ya usado (step <= lastStep) no vuelve a aceptarse
+   */
+  static matchCode(secret: string, code: string, lastStep: number | null = null): number | null {
+    const normalized = normalizeTwoFactorCode(code);
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const current = this.currentStep();
+    for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+      if (lastStep !== null && step <= lastStep) {
+        continue;
+      }
+      const expected = Buffer.from(this.generateCode(secret, step));
+      if (timingSafeEqual(expected, Buffer.from(normalized))) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  static hashRecoveryCode(code: string): string {
+    return createHash("sha256").update(normalizeTwoFactorCode(code)).digest("hex");
+  }
+
+  /**
+   * Nuevos códigos de recuperación (formato XXXXX-XXXXX) y sus hashes
+   */
+  static generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+      const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+      return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+    });
+    return { codes, hashes: codes.map((code) => this.hashRecoveryCode(code)) };
+  }
+
+  /**
+   * Verifica un código TOTP del usuario y lo marca como usado
+   */
+  static async verifyUserCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+    const step = this.matchCode(user.twoFactorSecret, code, user.twoFactorLastStep);
+    if (step === null) {
+      return false;
+    }
+    // Dos requests simultáneos con el mismo código: solo uno lo consume
+    return await storage.updateTwoFactorLastStep(user.id, step);
+  }
+
+  /**
+   * Verifica un código TOTP o, si no lo es, un código de recuperación (que se consume)
+   * @returns El método usado, o null si el código es incorrecto
+   */
+  static async verifyUserCodeOrRecovery(user: User, code: string): Promise<"totp" | "recovery" | null> {
+    if (await this.verifyUserCode(user, code)) {
+      return "totp";
+    }
+    if (await storage.consumeTwoFactorRecoveryCode(user.id, this.hashRecoveryCode(code))) {
+      console.log(`[2FA] Código de recuperación usado por usuario ${user.id}`);
+      return "recovery";
+    }
+    return null;
+  }
+}
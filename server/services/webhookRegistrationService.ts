@@ -0,0 +1,85 @@
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import type { Store } from "@shared/schema";
+import { WooCommerceConnector } from "../connectors/WooCommerceConnector";
+import type { ShopifyConnector } from "../connectors/ShopifyConnector";
+import { SyncService } from "./SyncService";
+
+/**
+ * Registro automático de los webhooks de órdenes (Shopify y WooCommerce)
+ * Lo usan las rutas de tiendas (configuración manual) y el trabajo webhook_registration
+ */
+export class WebhookRegistrationService {
+  /**
+   * true si la plataforma admite registro automático de webhooks
+   */
+  static supportsWebhooks(platform: string): boolean {
+    return platform === "shopify" || platform === "woocommerce";
+  }
+
+  /**
+   * Registra los webhooks de órdenes de una tienda Shopify o WooCommerce y los guarda
+   * en storeInfo (legacy) y en la tabla webhooks
+   * WooCommerce firma cada entrega con un secreto propio: se genera y se guarda en las
+   * credenciales (webhook_secret) la primera vez
+   * @param baseUrl - URL pública del servidor
+   */
+  static async configureStoreWebhooks(
+    store: Store,
+    baseUrl: string,
+    connector: ShopifyConnector | WooCommerceConnector = SyncService.getStoreConnector(store) as ShopifyConnector | WooCommerceConnector,
+  ) {
+    const webhookUrl = `${baseUrl}/api/webhooks/${store.platform}/${store.id}`;
+
+    let result;
+    if (connector instanceof WooCommerceConnector) {
+      let secret = (store.apiCredentials as any)?.webhook_secret;
+      if (!secret) {
+        secret = randomBytes(32).toString("hex");
+        await storage.updateStore(store.id, {
+          apiCredentials: { ...(store.apiCredentials as any), webhook_secret: secret },
+        });
+      }
+      result = await connector.registerWebhooks(webhookUrl, secret);
+    } else {
+      result = await connector.registerWebhooks(webhookUrl);
+    }
+
+    if (!result.success) {
+      return result;
+    }
+
+    // Obtener el store con metadatos de conexión frescos ANTES de actualizar webhooks
+    const freshStore = await storage.getStore(store.id);
+
+    // Guardar webhook IDs en storeInfo (legacy)
+    await storage.updateStore(store.id, {
+      storeInfo: {
+        ...(freshStore?.storeInfo as Record<string, any> | null),
+        webhooks: result.webhooks,
+        webhooks_configured_at: new Date().toISOString(),
+      },
+    });
+
+    // Registrar cada webhook en la tabla webhooks
+    for (const webhook of result.webhooks) {
+      try {
+        await storage.registerWebhook({
+          tenantId: store.tenantId,
+          storeId: store.id,
+          platform: store.platform,
+          platformWebhookId: webhook.id.toString(),
+          topic: webhook.topic,
+          address: webhook.address,
+          status: "active",
+          metadata: {},
+        });
+      } catch (webhookDbError: any) {
+        // Log error but don't fail - might be duplicate
+        console.error(`[Store] Error registrando webhook ${webhook.id} en DB:`, webhookDbError.message);
+      }
+    }
+
+    return result;
+  }
+}
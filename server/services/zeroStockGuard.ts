@@ -0,0 +1,62 @@
+import { exceedsZeroGuard, type ZeroGuardConfig } from "@shared/stock-guard";
+
+/**
+ * El Pull se abortó porque demasiados SKUs iban a quedar en cero
+ * (lo más probable: una respuesta incorrecta del ERP)
+ */
+export class ZeroStockGuardError extends Error {
+  readonly zeroed: number;
+  readonly evaluated: number;
+  readonly maxZeroedPercent: number;
+
+  constructor(zeroed: number, evaluated: number, maxZeroedPercent: number) {
+    super(
+      `Protección de stock: ${zeroed} de ${evaluated} productos evaluados quedarían en cero (máximo permitido ${maxZeroedPercent}%). Pull detenido`,
+    );
+    this.name = "ZeroStockGuardError";
+    this.zeroed = zeroed;
+    this.evaluated = evaluated;
+    this.maxZeroedPercent = maxZeroedPercent;
+  }
+}
+
+/**
+ * Contador de SKUs llevados a cero durante un Pull
+ * Se consulta ANTES de escribir cada SKU: al superar el umbral ya no se escribe ningún cero más
+ * y el Pull se aborta al terminar el lote en curso
+ */
+export class ZeroStockGuard {
+  private zeroed = 0;
+  private evaluated = 0;
+  private tripped = false;
+
+  constructor(
+    private readonly config: ZeroGuardConfig,
+    private readonly catalogSize: number,
+  ) {}
+
+  /**
+   * Registra un SKU con stock conocido
+   * @returns false si el cambio deja el SKU en cero y se superó el umbral (no escribir)
+   */
+  allow(before: number, after: number): boolean {
+    this.evaluated++;
+    if (after !== 0 || before <= 0) {
+      return true;
+    }
+
+    this.zeroed++;
+    if (exceedsZeroGuard(this.zeroed, this.evaluated, this.catalogSize, this.config)) {
+      this.tripped = true;
+    }
+    return !this.tripped;
+  }
+
+  get isTripped(): boolean {
+    return this.tripped;
+  }
+
+  toError(): ZeroStockGuardError {
+    return new ZeroStockGuardError(this.zeroed, this.evaluated, this.config.maxZeroedPercent);
+  }
+}
@@ -1,4 +1,5 @@
 import {
+  sessions,
   tenants,
   users,
   stores,
@@ -9,10 +10,19 @@ import {
   syncLogItems,
   notifications,
   inventoryMovementsQueue,
+  orderInvoices,
+  customers,
+  stockReconciliations,
+  stockReconciliationItems,
   unmappedSkus,
   syncLocks,
   adminActions,
   webhooks,
+  tenantApiKeys,
+  jobs,
+  pullPlans,
+  pullStockSnapshots,
+  tenantInvitations,
   type User,
   type InsertUser,
   type Tenant,
@@ -31,15 +41,37 @@ import {
   type InsertNotification,
   type InventoryMovement,
   type InsertInventoryMovement,
+  type OrderInvoice,
+  type Customer,
+  type InsertCustomer,
+  type InsertOrderInvoice,
+  type StockReconciliation,
+  type InsertStockReconciliation,
+  type StockReconciliationItem,
+  type InsertStockReconciliationItem,
   type UnmappedSku,
   type InsertUnmappedSku,
   type SyncLock,
   type InsertSyncLock,
   type Webhook,
   type InsertWebhook,
+  type TenantApiKey,
+  type InsertTenantApiKey,
+  type Job,
+  type InsertJob,
+  type PullPlan,
+  type InsertPullPlan,
+  type PullStockSnapshot,
+  type InsertPullStockSnapshot,
+  type TenantInvitation,
+  type InsertTenantInvitation,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { eq, ne, gte, lte, lt, and, or, asc, desc, inArray, notInArray, isNull, isNotNull, sql } from "drizzle-orm";
+import type { PullMode } from "@shared/delta-pull";
+import type { PullCheckpoint } from "@shared/sync-progress";
+import { SyncEvents } from "./services/syncEvents";
+import { CredentialVault } from "./services/credentialVault";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
@@ -49,20 +81,95 @@ interface CreateUserData {
   email: string;
   name: string;
   role?: string;
+  tenantRole?: string; // Defaults to 'viewer'
   emailVerified?: boolean;
   passwordHash: string;
 }
 
+/**
+ * Opciones para tomar un trabajo de la cola
+ */
+export interface JobClaimOptions {
+  types?: string[]; // Solo estos tipos (por defecto todos)
+  tenantConcurrency: number; // Máximo de trabajos en ejecución por tenant
+  visibilityTimeoutMs: (type: string) => number;
+}
+
+// syncMode y checkpoint solo aplican a los Pull
+type NewSyncLog = Omit<SyncLog, "id" | "createdAt" | "syncMode" | "checkpoint"> & {
+  syncMode?: PullMode | null;
+  checkpoint?: PullCheckpoint | null;
+};
+
 const PostgresSessionStore = connectPg(session);
 
+const JOB_CANCELLED_ERROR = "Cancelado por el usuario";
+
+// Una factura en processing por más tiempo se considera abandonada (worker caído) y se vuelve a tomar
+const INVOICE_PROCESSING_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Credenciales cifradas en reposo (CredentialVault): se cifran al escribir y se descifran al leer,
+ * el resto del backend siempre ve los valores en claro
+ */
+function decryptStore(store: Store): Store {
+  return { ...store, apiCredentials: CredentialVault.decryptJson(store.apiCredentials) };
+}
+
+function decryptIntegration(integration: Integration): Integration {
+  return { ...integration, settings: CredentialVault.decryptJson(integration.settings) };
+}
+
+function decryptTenant(tenant: Tenant): Tenant {
+  return {
+    ...tenant,
+    contificoTestApiKey: CredentialVault.decryptNullableString(tenant.contificoTestApiKey),
+    contificoProdApiKey: CredentialVault.decryptNullableString(tenant.contificoProdApiKey),
+  };
+}
+
+function encryptStoreFields<T extends Partial<InsertStore>>(data: T): T {
+  return data.apiCredentials === undefined
+    ? data
+    : { ...data, apiCredentials: CredentialVault.encryptJson(data.apiCredentials) };
+}
+
+function encryptIntegrationFields<T extends Partial<InsertIntegration>>(data: T): T {
+  return data.settings === undefined
+    ? data
+    : { ...data, settings: CredentialVault.encryptJson(data.settings) };
+}
+
+function encryptTenantFields<T extends Partial<InsertTenant>>(data: T): T {
+  return {
+    ...data,
+    contificoTestApiKey: CredentialVault.encryptNullableString(data.contificoTestApiKey),
+    contificoProdApiKey: CredentialVault.encryptNullableString(data.contificoProdApiKey),
+  };
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: CreateUserData): Promise<User>;
-  updateUser(id: number, updates: Partial<{ name: string; email: string }>): Promise<User>;
+  updateUser(id: number, updates: Partial<{ name: string; email: string; emailVerified: boolean }>): Promise<User>;
   updateUserPassword(id: number, passwordHash: string): Promise<void>;
   updateUserRole(id: number, role: string): Promise<void>;
+  updateUserTenantRole(id: number, tenantRole: string): Promise<User>;
+  getUsersByTenant(tenantId: number): Promise<User[]>;
+
+  // Two-factor authentication operations
+  enableTwoFactor(userId: number, secret: string, recoveryCodeHashes: string[], lastStep: number): Promise<void>;
+  disableTwoFactor(userId: number): Promise<void>;
+  updateTwoFactorLastStep(userId: number, step: number): Promise<boolean>;
+  replaceTwoFactorRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void>;
+  consumeTwoFactorRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+
+  // Session operations (browser sessions stored by connect-pg-simple)
+  getUserSessions(userId: number): Promise<Array<{ sid: string; sess: unknown; expire: Date }>>;
+  deleteUserSession(userId: number, sessionId: string): Promise<boolean>;
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
   updateUserLastLogin(id: number): Promise<void>;
   deleteUser(id: number): Promise<void>;
 
@@ -70,13 +177,13 @@ export interface IStorage {
   getTenant(id: number): Promise<Tenant | undefined>;
   getTenantBySubdomain(subdomain: string): Promise<Tenant | undefined>;
   createTenant(tenant: InsertTenant): Promise<Tenant>;
-  updateTenant(id: number, updates: Partial<{ name: string }>): Promise<Tenant>;
+  updateTenant(id: number, updates: Partial<{ name: string; timezone: string; settings: unknown }>): Promise<Tenant>;
   updateTenantAccountStatus(id: number, accountStatus: string): Promise<Tenant>;
   updateTenantPlan(id: number, planType: string): Promise<Tenant>;
   updateTenantExpiresAt(id: number, expiresAt: Date | null): Promise<Tenant>;
   getTenantOwnerUser(tenantId: number): Promise<User | undefined>;
   deleteTenant(id: number): Promise<void>;
-  createAdminAction(action: { adminUserId: number; targetTenantId: number; actionType: string; description: string; metadata?: any }): Promise<void>;
+  createAdminAction(action: { adminUserId: number; targetTenantId: number | null; actionType: string; description: string; metadata?: any }): Promise<void>;
 
   getStoresByTenant(tenantId: number): Promise<Store[]>;
   getStore(id: number): Promise<Store | undefined>;
@@ -88,14 +195,18 @@ export interface IStorage {
   getProductsByStore(storeId: number): Promise<StoreProduct[]>;
   upsertProduct(product: InsertStoreProduct): Promise<StoreProduct>;
   deleteProductsByStore(storeId: number): Promise<void>;
+  countSyncedProducts(tenantId: number, excludeStoreId?: number): Promise<number>;
 
   // Sync operations
-  createSyncLog(log: Omit<SyncLog, "id" | "createdAt">): Promise<SyncLog>;
+  createSyncLog(log: NewSyncLog): Promise<SyncLog>;
   updateSyncLog(
     id: number,
     updates: Partial<Omit<SyncLog, "id" | "createdAt" | "tenantId" | "storeId">>,
   ): Promise<SyncLog>;
   getSyncLogsByStore(storeId: number, limit?: number): Promise<SyncLog[]>;
+  getLastSuccessfulPull(storeId: number, integrationId: number, syncMode?: PullMode): Promise<SyncLog | undefined>;
+  getInterruptedPull(storeId: number, runId: string): Promise<SyncLog | undefined>;
+  countSyncLogsSince(tenantId: number, since: Date): Promise<number>;
   updateStoreSyncStatus(
     storeId: number,
     productsCount: number,
@@ -135,11 +246,13 @@ export interface IStorage {
   getMovementById(id: number): Promise<InventoryMovement | undefined>;
   getPendingMovements(limit?: number): Promise<InventoryMovement[]>;
   getMovementsByStore(storeId: number, limit?: number): Promise<InventoryMovement[]>;
+  getUnprocessedMovementsByStore(storeId: number): Promise<InventoryMovement[]>;
   findDuplicateMovement(
     storeId: number,
     orderId: string,
     sku: string,
     movementType: string,
+    idempotencyKey?: string,
   ): Promise<InventoryMovement | undefined>;
   updateMovementStatus(
     id: number,
@@ -152,6 +265,36 @@ export interface IStorage {
   markMovementAsProcessed(id: number, tx?: any): Promise<InventoryMovement>;
   deleteOldMovements(beforeDate: Date): Promise<void>;
 
+  // Order invoices operations
+  queueOrderInvoice(invoice: InsertOrderInvoice): Promise<OrderInvoice | undefined>;
+  getOrderInvoiceById(id: number): Promise<OrderInvoice | undefined>;
+  getOrderInvoiceByOrder(storeId: number, orderId: string): Promise<OrderInvoice | undefined>;
+  getOrderInvoicesByStore(storeId: number, limit?: number): Promise<OrderInvoice[]>;
+  getOrderInvoicesByCustomer(customerId: number): Promise<OrderInvoice[]>;
+  getPendingOrderInvoices(limit?: number): Promise<OrderInvoice[]>;
+  getInvoicesAwaitingAuthorization(limit?: number): Promise<OrderInvoice[]>;
+  claimOrderInvoice(id: number): Promise<OrderInvoice | undefined>;
+  updateOrderInvoice(id: number, updates: Partial<InsertOrderInvoice>): Promise<OrderInvoice>;
+  reserveInvoiceDocumentNumber(id: number, integrationId: number, prefix: string, startSequence: number): Promise<string>;
+
+  // Customers operations
+  getCustomerById(id: number): Promise<Customer | undefined>;
+  getCustomerByKey(storeId: number, customerKey: string): Promise<Customer | undefined>;
+  getCustomersByStore(storeId: number, status?: string, limit?: number): Promise<Customer[]>;
+  getPendingCustomers(limit?: number): Promise<Customer[]>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: number, updates: Partial<InsertCustomer>): Promise<Customer>;
+
+  // Stock reconciliation operations
+  createStockReconciliation(reconciliation: InsertStockReconciliation): Promise<StockReconciliation>;
+  getStockReconciliationById(id: number): Promise<StockReconciliation | undefined>;
+  getLatestStockReconciliation(storeId: number): Promise<StockReconciliation | undefined>;
+  updateStockReconciliation(id: number, updates: Partial<InsertStockReconciliation>): Promise<StockReconciliation>;
+  createStockReconciliationItems(items: InsertStockReconciliationItem[]): Promise<void>;
+  getStockReconciliationItems(reconciliationId: number): Promise<StockReconciliationItem[]>;
+  getStockReconciliationItemById(id: number): Promise<StockReconciliationItem | undefined>;
+  updateStockReconciliationItem(id: number, updates: Partial<InsertStockReconciliationItem>): Promise<StockReconciliationItem>;
+
   // Unmapped SKUs operations
   trackUnmappedSku(data: InsertUnmappedSku): Promise<UnmappedSku>;
   getUnmappedSkusByStore(storeId: number, limit?: number): Promise<UnmappedSku[]>;
@@ -162,9 +305,47 @@ export interface IStorage {
   // Sync lock operations
   acquireLock(storeId: number, lockType: 'pull' | 'push', processId: string, durationMs: number, tx?: any): Promise<SyncLock | null>;
   releaseLock(storeId: number, lockType?: "pull" | "push", tx?: any): Promise<void>;
-  hasActiveLock(storeId: number): Promise<boolean>;
+  renewLock(storeId: number, lockType: "pull" | "push", processId: string, durationMs: number): Promise<boolean>;
+  hasActiveLock(storeId: number, lockType?: "pull" | "push"): Promise<boolean>;
   cleanExpiredLocks(): Promise<void>;
 
+  // Job queue operations
+  enqueueJob(job: InsertJob): Promise<Job>;
+  claimJob(workerId: string, options: JobClaimOptions): Promise<Job | undefined>;
+  extendJobLock(id: number, workerId: string, lockedUntil: Date): Promise<boolean>;
+  completeJob(id: number, workerId: string, result: any): Promise<void>;
+  failJob(id: number, workerId: string, error: string, retryAt: Date | null): Promise<Job | undefined>;
+  cancelJob(id: number, workerId: string, result: any): Promise<void>;
+  requestJobCancel(id: number): Promise<Job | undefined>;
+  isJobCancelRequested(id: number): Promise<boolean>;
+  reclaimExpiredJobs(): Promise<Job[]>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobs(filters: { status?: string; type?: string; limit?: number }): Promise<Job[]>;
+  getJobQueueStats(): Promise<Array<{ type: string; status: string; count: number }>>;
+  retryJob(id: number): Promise<Job | undefined>;
+  deleteFinishedJobs(olderThan: Date): Promise<number>;
+
+  // Pull plan operations
+  createPullPlan(plan: InsertPullPlan): Promise<PullPlan>;
+  getPullPlan(id: number): Promise<PullPlan | undefined>;
+  getPullPlansByTenant(tenantId: number, filters?: { storeId?: number; limit?: number }): Promise<PullPlan[]>;
+  updatePullPlan(id: number, updates: Partial<InsertPullPlan>): Promise<PullPlan | undefined>;
+  approvePullPlan(id: number, userId: number): Promise<PullPlan | undefined>;
+  startPullPlanApply(id: number): Promise<PullPlan | undefined>;
+
+  // Pull stock snapshot operations
+  createPullStockSnapshots(snapshots: InsertPullStockSnapshot[]): Promise<void>;
+  getPullStockSnapshots(syncLogId: number, filters?: { pendingOnly?: boolean }): Promise<PullStockSnapshot[]>;
+  countPendingPullStockSnapshots(syncLogId: number): Promise<number>;
+  markPullStockSnapshotsRestored(syncLogId: number, productIds: string[]): Promise<void>;
+
+  // Tenant invitation operations
+  createTenantInvitation(invitation: InsertTenantInvitation): Promise<TenantInvitation>;
+  getPendingTenantInvitations(tenantId: number): Promise<TenantInvitation[]>;
+  getTenantInvitationByTokenHash(tokenHash: string): Promise<TenantInvitation | undefined>;
+  revokeTenantInvitation(id: number, tenantId: number): Promise<TenantInvitation | undefined>;
+  acceptTenantInvitation(id: number, user: CreateUserData): Promise<User | undefined>;
+
   sessionStore: session.Store;
 }
 
@@ -206,6 +387,7 @@ export class DatabaseStorage implements IStorage {
         passwordHash: insertUser.passwordHash,
         name: insertUser.name,
         role: insertUser.role || "admin",
+        tenantRole: insertUser.tenantRole || "viewer",
         emailVerified: insertUser.emailVerified || false,
       })
       .returning();
@@ -220,12 +402,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllTenants(): Promise<Tenant[]> {
-    return await db.select().from(tenants).orderBy(tenants.createdAt);
+    const rows = await db.select().from(tenants).orderBy(tenants.createdAt);
+    return rows.map(decryptTenant);
   }
 
   async getTenant(id: number): Promise<Tenant | undefined> {
     const [tenant] = await db.select().from(tenants).where(eq(tenants.id, id));
-    return tenant || undefined;
+    return tenant ? decryptTenant(tenant) : undefined;
   }
 
   async getTenantBySubdomain(subdomain: string): Promise<Tenant | undefined> {
@@ -233,41 +416,42 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(tenants)
       .where(eq(tenants.subdomain, subdomain));
-    return tenant || undefined;
+    return tenant ? decryptTenant(tenant) : undefined;
   }
 
   async createTenant(insertTenant: InsertTenant): Promise<Tenant> {
     const [tenant] = await db
       .insert(tenants)
-      .values(insertTenant)
+      .values(encryptTenantFields(insertTenant))
       .returning();
-    return tenant;
+    return decryptTenant(tenant);
   }
 
   async getStoresByTenant(tenantId: number): Promise<Store[]> {
-    return await db.select().from(stores).where(eq(stores.tenantId, tenantId));
+    const rows = await db.select().from(stores).where(eq(stores.tenantId, tenantId));
+    return rows.map(decryptStore);
   }
 
   async getStore(id: number): Promise<Store | undefined> {
     const [store] = await db.select().from(stores).where(eq(stores.id, id));
-    return store || undefined;
+    return store ? decryptStore(store) : undefined;
   }
 
   async createStore(insertStore: InsertStore): Promise<Store> {
     const [store] = await db
       .insert(stores)
-      .values(insertStore)
+      .values(encryptStoreFields(insertStore))
       .returning();
-    return store;
+    return decryptStore(store);
   }
 
   async updateStore(id: number, updates: Partial<InsertStore>): Promise<Store> {
     const [store] = await db
       .update(stores)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...encryptStoreFields(updates), updatedAt: new Date() })
       .where(eq(stores.id, id))
       .returning();
-    return store;
+    return store ? decryptStore(store) : store;
   }
 
   async deleteStore(id: number): Promise<void> {
@@ -357,9 +541,31 @@ export class DatabaseStorage implements IStorage {
     await db.delete(storeProducts).where(eq(storeProducts.storeId, storeId));
   }
 
+  /**
+   * Cuenta los productos con SKU sincronizados de un tenant (para límites del plan)
+   * @param excludeStoreId - Excluir una tienda del conteo (para calcular su cupo disponible)
+   */
+  async countSyncedProducts(tenantId: number, excludeStoreId?: number): Promise<number> {
+    const conditions = [
+      eq(storeProducts.tenantId, tenantId),
+      sql`${storeProducts.sku} IS NOT NULL AND ${storeProducts.sku} <> ''`,
+    ];
+
+    if (excludeStoreId) {
+      conditions.push(ne(storeProducts.storeId, excludeStoreId));
+    }
+
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(storeProducts)
+      .where(and(...conditions));
+
+    return result?.count || 0;
+  }
+
   // Sync operations
   async createSyncLog(
-    logData: Omit<SyncLog, "id" | "createdAt">,
+    logData: NewSyncLog,
   ): Promise<SyncLog> {
     // Validar y truncar campos que tienen límite de caracteres
     const sanitizedData = {
@@ -392,6 +598,8 @@ export class DatabaseStorage implements IStorage {
       errorCount?: number | null;
       durationMs?: number | null;
       details?: any;
+      syncMode?: string | null;
+      checkpoint?: any;
     };
 
     const sanitizedUpdates: SyncLogUpdate = {};
@@ -417,6 +625,12 @@ export class DatabaseStorage implements IStorage {
     if (updates.details !== undefined) {
       sanitizedUpdates.details = updates.details;
     }
+    if (updates.syncMode !== undefined) {
+      sanitizedUpdates.syncMode = updates.syncMode;
+    }
+    if (updates.checkpoint !== undefined) {
+      sanitizedUpdates.checkpoint = updates.checkpoint;
+    }
 
     const [updatedLog] = await db
       .update(syncLogs)
@@ -565,6 +779,8 @@ export class DatabaseStorage implements IStorage {
         sli.status,
         sli.stock_before as "stockBefore",
         sli.stock_after as "stockAfter",
+        sli.price_before as "priceBefore",
+        sli.price_after as "priceAfter",
         sli.error_category as "errorCategory",
         sli.error_message as "errorMessage",
         sli.created_at as "createdAt"
@@ -653,6 +869,71 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  /**
+   * Cuenta las operaciones de sincronización de un tenant desde una fecha (para límites del plan)
+   */
+  async countSyncLogsSince(tenantId: number, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(syncLogs)
+      .where(
+        and(
+          eq(syncLogs.tenantId, tenantId),
+          gte(syncLogs.createdAt, since)
+        )
+      );
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Último Pull completado (success/partial) de una tienda desde una integración, opcionalmente de un modo
+   * Los registros sin modo (anteriores al Pull incremental) cuentan como completos
+   */
+  async getLastSuccessfulPull(storeId: number, integrationId: number, syncMode?: PullMode): Promise<SyncLog | undefined> {
+    const conditions = [
+      eq(syncLogs.storeId, storeId),
+      eq(syncLogs.syncType, "pull"),
+      sql`${syncLogs.details}->>'integration_id' = ${String(integrationId)}`,
+      or(eq(syncLogs.status, "success"), eq(syncLogs.status, "partial")),
+    ];
+    if (syncMode) {
+      conditions.push(
+        syncMode === "full"
+          ? or(eq(syncLogs.syncMode, "full"), isNull(syncLogs.syncMode))
+          : eq(syncLogs.syncMode, syncMode),
+      );
+    }
+
+    const [log] = await db
+      .select()
+      .from(syncLogs)
+      .where(and(...conditions))
+      .orderBy(desc(syncLogs.createdAt))
+      .limit(1);
+    return log;
+  }
+
+  /**
+   * Pull interrumpido (en curso o fallido) del trabajo runId, para reanudarlo en su reintento
+   */
+  async getInterruptedPull(storeId: number, runId: string): Promise<SyncLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(syncLogs)
+      .where(
+        and(
+          eq(syncLogs.storeId, storeId),
+          eq(syncLogs.syncType, "pull"),
+          inArray(syncLogs.status, ["running", "error"]),
+          sql`${syncLogs.checkpoint}->>'runId' = ${runId}`,
+        ),
+      )
+      .orderBy(desc(syncLogs.createdAt))
+      .limit(1);
+    return log;
+  }
+
   async getSyncLogsByStoreAndType(
     storeId: number,
     syncType: string,
@@ -707,11 +988,12 @@ export class DatabaseStorage implements IStorage {
 
   // Integration operations
   async getIntegrationsByTenant(tenantId: number): Promise<Integration[]> {
-    return await db
+    const rows = await db
       .select()
       .from(integrations)
       .where(eq(integrations.tenantId, tenantId))
       .orderBy(integrations.createdAt);
+    return rows.map(decryptIntegration);
   }
 
   async getIntegration(id: number): Promise<Integration | undefined> {
@@ -719,7 +1001,7 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(integrations)
       .where(eq(integrations.id, id));
-    return integration || undefined;
+    return integration ? decryptIntegration(integration) : undefined;
   }
 
   async createIntegration(
@@ -727,9 +1009,9 @@ export class DatabaseStorage implements IStorage {
   ): Promise<Integration> {
     const [created] = await db
       .insert(integrations)
-      .values(integration)
+      .values(encryptIntegrationFields(integration))
       .returning();
-    return created;
+    return decryptIntegration(created);
   }
 
   async updateIntegration(
@@ -738,10 +1020,10 @@ export class DatabaseStorage implements IStorage {
   ): Promise<Integration> {
     const [updated] = await db
       .update(integrations)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...encryptIntegrationFields(updates), updatedAt: new Date() })
       .where(eq(integrations.id, id))
       .returning();
-    return updated;
+    return updated ? decryptIntegration(updated) : updated;
   }
 
   async deleteIntegration(id: number): Promise<void> {
@@ -759,7 +1041,7 @@ export class DatabaseStorage implements IStorage {
     // Mapear resultados al formato esperado
     return results.map(row => ({
       ...row.store_integrations,
-      integration: row.integrations
+      integration: row.integrations ? decryptIntegration(row.integrations) : null
     }));
   }
 
@@ -834,6 +1116,9 @@ export class DatabaseStorage implements IStorage {
     return result?.count || 0;
   }
 
+  /**
+   * Crea una notificación y la publica en tiempo real a los usuarios del tenant
+   */
   async createNotification(
     notification: InsertNotification,
   ): Promise<Notification> {
@@ -841,6 +1126,14 @@ export class DatabaseStorage implements IStorage {
       .insert(notifications)
       .values(notification)
       .returning();
+
+    SyncEvents.publish(created.tenantId, {
+      type: "notification",
+      storeId: created.storeId ?? null,
+      notificationId: created.id,
+      title: created.title,
+      severity: created.severity,
+    });
     return created;
   }
 
@@ -872,7 +1165,7 @@ export class DatabaseStorage implements IStorage {
   // User management operations
   async updateUser(
     id: number,
-    updates: Partial<{ name: string; email: string }>,
+    updates: Partial<{ name: string; email: string; emailVerified: boolean }>,
   ): Promise<User> {
     const [user] = await db
       .update(users)
@@ -896,6 +1189,132 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
+  async updateUserTenantRole(id: number, tenantRole: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ tenantRole, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUsersByTenant(tenantId: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(eq(users.tenantId, tenantId))
+      .orderBy(users.createdAt);
+  }
+
+  // Two-factor authentication operations
+  async enableTwoFactor(userId: number, secret: string, recoveryCodeHashes: string[], lastStep: number): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: new Date(),
+        twoFactorRecoveryCodes: recoveryCodeHashes,
+        twoFactorLastStep: lastStep,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async disableTwoFactor(userId: number): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Records an accepted TOTP step; false if that step (or a later one) was already used
+   */
+  async updateTwoFactorLastStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorLastStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step)),
+        )
+      )
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async replaceTwoFactorRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: recoveryCodeHashes, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Removes a recovery code atomically; false if it was not an unused code of the user
+   */
+  async consumeTwoFactorRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: sql`${users.twoFactorRecoveryCodes} - ${codeHash}::text` })
+      .where(
+        and(
+          eq(users.id, userId),
+          isNotNull(users.twoFactorEnabledAt),
+          sql`${users.twoFactorRecoveryCodes} ? ${codeHash}::text`,
+        )
+      )
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Session operations
+  async getUserSessions(userId: number): Promise<Array<{ sid: string; sess: unknown; expire: Date }>> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          gte(sessions.expire, new Date()),
+        )
+      );
+  }
+
+  // sessionId is the public id in the session metadata, not the sid
+  async deleteUserSession(userId: number, sessionId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(sessions)
+      .where(
+        and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          sql`${sessions.sess}->'meta'->>'id' = ${sessionId}`,
+        )
+      )
+      .returning({ sid: sessions.sid });
+    return deleted.length > 0;
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(
+        and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          exceptSid ? ne(sessions.sid, exceptSid) : undefined,
+        )
+      )
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
   async deleteUser(id: number): Promise<void> {
     await db.delete(users).where(eq(users.id, id));
   }
@@ -903,14 +1322,14 @@ export class DatabaseStorage implements IStorage {
   // Tenant management operations
   async updateTenant(
     id: number,
-    updates: Partial<{ name: string }>,
+    updates: Partial<{ name: string; timezone: string; settings: unknown }>,
   ): Promise<Tenant> {
     const [tenant] = await db
       .update(tenants)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(tenants.id, id))
       .returning();
-    return tenant;
+    return tenant ? decryptTenant(tenant) : tenant;
   }
 
   async updateTenantAccountStatus(id: number, accountStatus: string): Promise<Tenant> {
@@ -919,7 +1338,7 @@ export class DatabaseStorage implements IStorage {
       .set({ accountStatus, updatedAt: new Date() })
       .where(eq(tenants.id, id))
       .returning();
-    return tenant;
+    return tenant ? decryptTenant(tenant) : tenant;
   }
 
   async updateTenantPlan(id: number, planType: string): Promise<Tenant> {
@@ -928,7 +1347,7 @@ export class DatabaseStorage implements IStorage {
       .set({ planType, updatedAt: new Date() })
       .where(eq(tenants.id, id))
       .returning();
-    return tenant;
+    return tenant ? decryptTenant(tenant) : tenant;
   }
 
   async updateTenantExpiresAt(id: number, expiresAt: Date | null): Promise<Tenant> {
@@ -937,29 +1356,39 @@ export class DatabaseStorage implements IStorage {
       .set({ expiresAt, updatedAt: new Date() })
       .where(eq(tenants.id, id))
       .returning();
-    return tenant;
+    return tenant ? decryptTenant(tenant) : tenant;
   }
 
   async getTenantOwnerUser(tenantId: number): Promise<User | undefined> {
-    const allUsers = await db
-      .select()
-      .from(users)
-      .where(eq(users.tenantId, tenantId))
-      .orderBy(users.createdAt);
-    return allUsers[0];
+    const allUsers = await this.getUsersByTenant(tenantId);
+    // The oldest owner; tenants created before roles existed fall back to their first user
+    return allUsers.find((user) => user.tenantRole === "owner") || allUsers[0];
   }
 
   async deleteTenant(id: number): Promise<void> {
     await db.delete(tenants).where(eq(tenants.id, id));
   }
 
-  async createAdminAction(action: { adminUserId: number; targetTenantId: number; actionType: string; description: string; metadata?: any }): Promise<void> {
+  async createAdminAction(action: { adminUserId: number; targetTenantId: number | null; actionType: string; description: string; metadata?: any }): Promise<void> {
     await db.insert(adminActions).values(action);
   }
 
   // Webhooks operations
   async registerWebhook(webhook: InsertWebhook): Promise<Webhook> {
-    const [created] = await db.insert(webhooks).values(webhook).returning();
+    // Re-registrar un webhook existente (o eliminado) lo reactiva
+    const [created] = await db
+      .insert(webhooks)
+      .values(webhook)
+      .onConflictDoUpdate({
+        target: [webhooks.storeId, webhooks.platform, webhooks.platformWebhookId],
+        set: {
+          topic: webhook.topic,
+          address: webhook.address,
+          status: webhook.status || "active",
+          deletedAt: null,
+        },
+      })
+      .returning();
     return created;
   }
 
@@ -975,12 +1404,13 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async getWebhookByPlatformId(platform: string, platformWebhookId: string): Promise<Webhook | undefined> {
+  async getWebhookByPlatformId(storeId: number, platform: string, platformWebhookId: string): Promise<Webhook | undefined> {
     const [webhook] = await db
       .select()
       .from(webhooks)
       .where(
         and(
+          eq(webhooks.storeId, storeId),
           eq(webhooks.platform, platform),
           eq(webhooks.platformWebhookId, platformWebhookId)
         )
@@ -1009,6 +1439,50 @@ export class DatabaseStorage implements IStorage {
       .where(eq(webhooks.storeId, storeId));
   }
 
+  // Tenant API keys operations
+  async createApiKey(apiKey: InsertTenantApiKey): Promise<TenantApiKey> {
+    const [created] = await db.insert(tenantApiKeys).values(apiKey).returning();
+    return created;
+  }
+
+  async getApiKeysByTenant(tenantId: number): Promise<TenantApiKey[]> {
+    return await db
+      .select()
+      .from(tenantApiKeys)
+      .where(eq(tenantApiKeys.tenantId, tenantId))
+      .orderBy(desc(tenantApiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<TenantApiKey | undefined> {
+    const [apiKey] = await db
+      .select()
+      .from(tenantApiKeys)
+      .where(eq(tenantApiKeys.keyHash, keyHash))
+      .limit(1);
+    return apiKey;
+  }
+
+  async revokeApiKey(id: number, tenantId: number): Promise<TenantApiKey | undefined> {
+    const [revoked] = await db
+      .update(tenantApiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(tenantApiKeys.id, id),
+          eq(tenantApiKeys.tenantId, tenantId)
+        )
+      )
+      .returning();
+    return revoked;
+  }
+
+  async touchApiKey(id: number, ip: string | null): Promise<void> {
+    await db
+      .update(tenantApiKeys)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ip })
+      .where(eq(tenantApiKeys.id, id));
+  }
+
   // Inventory movements queue operations
   async queueInventoryMovement(
     movement: InsertInventoryMovement,
@@ -1060,23 +1534,57 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  /**
+   * Movimientos de la tienda que aún no llegaron al ERP (pending/processing, sin filtrar por reintento)
+   */
+  async getUnprocessedMovementsByStore(storeId: number): Promise<InventoryMovement[]> {
+    return await db
+      .select()
+      .from(inventoryMovementsQueue)
+      .where(
+        and(
+          eq(inventoryMovementsQueue.storeId, storeId),
+          or(
+            eq(inventoryMovementsQueue.status, "pending"),
+            eq(inventoryMovementsQueue.status, "processing"),
+          ),
+        ),
+      );
+  }
+
+  /**
+   * Busca un movimiento previo para el mismo orderId+SKU+tipo
+   * @param idempotencyKey - Si se indica, cuenta como duplicado un movimiento con la misma clave
+   *   (varios reembolsos parciales de una misma orden no colisionan) o uno sin clave: un movimiento
+   *   sin clave cubre la orden completa (p. ej. cancelación sin reembolsos ya reingresada)
+   */
   async findDuplicateMovement(
     storeId: number,
     orderId: string,
     sku: string,
     movementType: string,
+    idempotencyKey?: string,
   ): Promise<InventoryMovement | undefined> {
+    const conditions = [
+      eq(inventoryMovementsQueue.storeId, storeId),
+      eq(inventoryMovementsQueue.orderId, orderId),
+      eq(inventoryMovementsQueue.sku, sku),
+      eq(inventoryMovementsQueue.movementType, movementType),
+    ];
+
+    if (idempotencyKey) {
+      conditions.push(
+        or(
+          eq(inventoryMovementsQueue.idempotencyKey, idempotencyKey),
+          isNull(inventoryMovementsQueue.idempotencyKey),
+        )!,
+      );
+    }
+
     const [movement] = await db
       .select()
       .from(inventoryMovementsQueue)
-      .where(
-        and(
-          eq(inventoryMovementsQueue.storeId, storeId),
-          eq(inventoryMovementsQueue.orderId, orderId),
-          eq(inventoryMovementsQueue.sku, sku),
-          eq(inventoryMovementsQueue.movementType, movementType),
-        ),
-      )
+      .where(and(...conditions))
       .limit(1);
     return movement;
   }
@@ -1162,48 +1670,403 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  // Unmapped SKUs operations
-  async trackUnmappedSku(data: InsertUnmappedSku): Promise<UnmappedSku> {
-    // Try to upsert - if SKU already exists for this store, increment occurrences
-    const existing = await db
+  // Order invoices operations
+  /**
+   * Encola la factura de una orden. Devuelve undefined si la orden ya tiene factura
+   * (uq_order_invoices_store_order: una factura por orden aunque el webhook llegue varias veces)
+   */
+  async queueOrderInvoice(
+    invoice: InsertOrderInvoice,
+  ): Promise<OrderInvoice | undefined> {
+    const [queued] = await db
+      .insert(orderInvoices)
+      .values(invoice)
+      .onConflictDoNothing({
+        target: [orderInvoices.storeId, orderInvoices.orderId],
+      })
+      .returning();
+    return queued;
+  }
+
+  async getOrderInvoiceById(id: number): Promise<OrderInvoice | undefined> {
+    const [invoice] = await db
       .select()
-      .from(unmappedSkus)
+      .from(orderInvoices)
+      .where(eq(orderInvoices.id, id))
+      .limit(1);
+    return invoice;
+  }
+
+  async getOrderInvoiceByOrder(
+    storeId: number,
+    orderId: string,
+  ): Promise<OrderInvoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(orderInvoices)
       .where(
         and(
-          eq(unmappedSkus.storeId, data.storeId),
-          eq(unmappedSkus.sku, data.sku),
+          eq(orderInvoices.storeId, storeId),
+          eq(orderInvoices.orderId, orderId),
         ),
       )
       .limit(1);
-
-    if (existing.length > 0) {
-      const [updated] = await db
-        .update(unmappedSkus)
-        .set({
-          occurrences: sql`${unmappedSkus.occurrences} + 1`,
-          lastSeenAt: new Date(),
-          productName: data.productName || existing[0].productName,
-        })
-        .where(eq(unmappedSkus.id, existing[0].id))
-        .returning();
-      return updated;
-    } else {
-      const [created] = await db
-        .insert(unmappedSkus)
-        .values(data)
-        .returning();
-      return created;
-    }
+    return invoice;
   }
 
-  async getUnmappedSkusByStore(
+  async getOrderInvoicesByStore(
     storeId: number,
     limit: number = 100,
-  ): Promise<UnmappedSku[]> {
+  ): Promise<OrderInvoice[]> {
     return await db
       .select()
-      .from(unmappedSkus)
-      .where(
+      .from(orderInvoices)
+      .where(eq(orderInvoices.storeId, storeId))
+      .orderBy(desc(orderInvoices.createdAt))
+      .limit(limit);
+  }
+
+  async getOrderInvoicesByCustomer(customerId: number): Promise<OrderInvoice[]> {
+    return await db
+      .select()
+      .from(orderInvoices)
+      .where(eq(orderInvoices.customerId, customerId))
+      .orderBy(desc(orderInvoices.createdAt));
+  }
+
+  /**
+   * Facturas listas para emitir: pending cuyo reintento ya venció, o processing cuyo lease expiró
+   */
+  async getPendingOrderInvoices(limit: number = 20): Promise<OrderInvoice[]> {
+    return await db
+      .select()
+      .from(orderInvoices)
+      .where(
+        and(
+          or(
+            and(
+              eq(orderInvoices.status, "pending"),
+              or(isNull(orderInvoices.nextAttemptAt), lte(orderInvoices.nextAttemptAt, new Date())),
+            ),
+            and(
+              eq(orderInvoices.status, "processing"),
+              lt(orderInvoices.lastAttemptAt, new Date(Date.now() - INVOICE_PROCESSING_LEASE_MS)),
+            ),
+          ),
+          sql`${orderInvoices.attempts} < ${orderInvoices.maxAttempts}`,
+        ),
+      )
+      .orderBy(orderInvoices.createdAt)
+      .limit(limit);
+  }
+
+  /**
+   * Marca la factura como processing si sigue disponible (pending, o processing con el lease vencido)
+   * El UPDATE condicional evita que dos workers emitan la misma factura en el ERP
+   * @returns La factura tomada, o undefined si otro proceso ya la tomó o ya terminó
+   */
+  async claimOrderInvoice(id: number): Promise<OrderInvoice | undefined> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(orderInvoices)
+      .set({ status: "processing", lastAttemptAt: now })
+      .where(
+        and(
+          eq(orderInvoices.id, id),
+          or(
+            eq(orderInvoices.status, "pending"),
+            and(
+              eq(orderInvoices.status, "processing"),
+              lt(orderInvoices.lastAttemptAt, new Date(now.getTime() - INVOICE_PROCESSING_LEASE_MS)),
+            ),
+          ),
+        ),
+      )
+      .returning();
+    return claimed;
+  }
+
+  /**
+   * Facturas emitidas cuya autorización del SRI sigue pendiente (últimos 7 días)
+   */
+  async getInvoicesAwaitingAuthorization(limit: number = 20): Promise<OrderInvoice[]> {
+    return await db
+      .select()
+      .from(orderInvoices)
+      .where(
+        and(
+          eq(orderInvoices.status, "completed"),
+          eq(orderInvoices.authorizationStatus, "pending"),
+          sql`${orderInvoices.processedAt} > NOW() - INTERVAL '7 days'`,
+        ),
+      )
+      .orderBy(orderInvoices.processedAt)
+      .limit(limit);
+  }
+
+  async updateOrderInvoice(
+    id: number,
+    updates: Partial<InsertOrderInvoice>,
+  ): Promise<OrderInvoice> {
+    const [updated] = await db
+      .update(orderInvoices)
+      .set(updates)
+      .where(eq(orderInvoices.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Reserva el siguiente número de documento (<prefix>-<secuencial de 9 dígitos>) para una factura
+   * La secuencia es por integración (punto de emisión del ERP) y se serializa con un advisory lock
+   * para que dos procesos no emitan el mismo número. Si la factura ya tiene número, lo conserva.
+   */
+  async reserveInvoiceDocumentNumber(
+    id: number,
+    integrationId: number,
+    prefix: string,
+    startSequence: number,
+  ): Promise<string> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('order_invoices'), ${integrationId})`);
+
+      const [current] = await tx
+        .select({ documentNumber: orderInvoices.documentNumber })
+        .from(orderInvoices)
+        .where(eq(orderInvoices.id, id))
+        .limit(1);
+      if (current?.documentNumber) {
+        return current.documentNumber;
+      }
+
+      const [last] = await tx
+        .select({
+          sequence: sql<number>`max(split_part(${orderInvoices.documentNumber}, '-', 3)::bigint)::int`,
+        })
+        .from(orderInvoices)
+        .where(
+          and(
+            eq(orderInvoices.integrationId, integrationId),
+            sql`${orderInvoices.documentNumber} LIKE ${prefix + "-%"}`,
+          ),
+        );
+
+      const nextSequence = Math.max((last?.sequence || 0) + 1, startSequence);
+      const documentNumber = `${prefix}-${String(nextSequence).padStart(9, "0")}`;
+
+      await tx
+        .update(orderInvoices)
+        .set({ documentNumber })
+        .where(eq(orderInvoices.id, id));
+
+      return documentNumber;
+    });
+  }
+
+  // Customers operations
+  async getCustomerById(id: number): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(eq(customers.id, id))
+      .limit(1);
+    return customer;
+  }
+
+  async getCustomerByKey(
+    storeId: number,
+    customerKey: string,
+  ): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(
+        and(
+          eq(customers.storeId, storeId),
+          eq(customers.customerKey, customerKey),
+        ),
+      )
+      .limit(1);
+    return customer;
+  }
+
+  async getCustomersByStore(
+    storeId: number,
+    status?: string,
+    limit: number = 100,
+  ): Promise<Customer[]> {
+    const conditions = [eq(customers.storeId, storeId)];
+    if (status) {
+      conditions.push(eq(customers.status, status));
+    }
+
+    return await db
+      .select()
+      .from(customers)
+      .where(and(...conditions))
+      .orderBy(desc(customers.updatedAt))
+      .limit(limit);
+  }
+
+  async getPendingCustomers(limit: number = 20): Promise<Customer[]> {
+    return await db
+      .select()
+      .from(customers)
+      .where(eq(customers.status, "pending"))
+      .orderBy(customers.updatedAt)
+      .limit(limit);
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const [created] = await db
+      .insert(customers)
+      .values(customer)
+      .returning();
+    return created;
+  }
+
+  async updateCustomer(
+    id: number,
+    updates: Partial<InsertCustomer>,
+  ): Promise<Customer> {
+    const [updated] = await db
+      .update(customers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Stock reconciliation operations
+  async createStockReconciliation(
+    reconciliation: InsertStockReconciliation,
+  ): Promise<StockReconciliation> {
+    const [created] = await db
+      .insert(stockReconciliations)
+      .values(reconciliation)
+      .returning();
+    return created;
+  }
+
+  async getStockReconciliationById(
+    id: number,
+  ): Promise<StockReconciliation | undefined> {
+    const [reconciliation] = await db
+      .select()
+      .from(stockReconciliations)
+      .where(eq(stockReconciliations.id, id))
+      .limit(1);
+    return reconciliation;
+  }
+
+  async getLatestStockReconciliation(
+    storeId: number,
+  ): Promise<StockReconciliation | undefined> {
+    const [reconciliation] = await db
+      .select()
+      .from(stockReconciliations)
+      .where(eq(stockReconciliations.storeId, storeId))
+      .orderBy(desc(stockReconciliations.createdAt))
+      .limit(1);
+    return reconciliation;
+  }
+
+  async updateStockReconciliation(
+    id: number,
+    updates: Partial<InsertStockReconciliation>,
+  ): Promise<StockReconciliation> {
+    const [updated] = await db
+      .update(stockReconciliations)
+      .set(updates)
+      .where(eq(stockReconciliations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createStockReconciliationItems(
+    items: InsertStockReconciliationItem[],
+  ): Promise<void> {
+    // Lotes de 500 para no exceder el límite de parámetros de Postgres
+    for (let i = 0; i < items.length; i += 500) {
+      await db.insert(stockReconciliationItems).values(items.slice(i, i + 500));
+    }
+  }
+
+  async getStockReconciliationItems(
+    reconciliationId: number,
+  ): Promise<StockReconciliationItem[]> {
+    return await db
+      .select()
+      .from(stockReconciliationItems)
+      .where(eq(stockReconciliationItems.reconciliationId, reconciliationId))
+      .orderBy(stockReconciliationItems.sku);
+  }
+
+  async getStockReconciliationItemById(
+    id: number,
+  ): Promise<StockReconciliationItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(stockReconciliationItems)
+      .where(eq(stockReconciliationItems.id, id))
+      .limit(1);
+    return item;
+  }
+
+  async updateStockReconciliationItem(
+    id: number,
+    updates: Partial<InsertStockReconciliationItem>,
+  ): Promise<StockReconciliationItem> {
+    const [updated] = await db
+      .update(stockReconciliationItems)
+      .set(updates)
+      .where(eq(stockReconciliationItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Unmapped SKUs operations
+  async trackUnmappedSku(data: InsertUnmappedSku): Promise<UnmappedSku> {
+    // Try to upsert - if SKU already exists for this store, increment occurrences
+    const existing = await db
+      .select()
+      .from(unmappedSkus)
+      .where(
+        and(
+          eq(unmappedSkus.storeId, data.storeId),
+          eq(unmappedSkus.sku, data.sku),
+        ),
+      )
+      .limit(1);
+
+    if (existing.length > 0) {
+      const [updated] = await db
+        .update(unmappedSkus)
+        .set({
+          occurrences: sql`${unmappedSkus.occurrences} + 1`,
+          lastSeenAt: new Date(),
+          productName: data.productName || existing[0].productName,
+        })
+        .where(eq(unmappedSkus.id, existing[0].id))
+        .returning();
+      return updated;
+    } else {
+      const [created] = await db
+        .insert(unmappedSkus)
+        .values(data)
+        .returning();
+      return created;
+    }
+  }
+
+  async getUnmappedSkusByStore(
+    storeId: number,
+    limit: number = 100,
+  ): Promise<UnmappedSku[]> {
+    return await db
+      .select()
+      .from(unmappedSkus)
+      .where(
         and(
           eq(unmappedSkus.storeId, storeId),
           eq(unmappedSkus.resolved, false),
@@ -1295,6 +2158,30 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Renueva el lease de un lock que sigue en poder del proceso
+   * @returns false si el lock ya no existe o lo tiene otro proceso (expiró)
+   */
+  async renewLock(
+    storeId: number,
+    lockType: "pull" | "push",
+    processId: string,
+    durationMs: number,
+  ): Promise<boolean> {
+    const renewed = await db
+      .update(syncLocks)
+      .set({ expiresAt: new Date(Date.now() + durationMs) })
+      .where(
+        and(
+          eq(syncLocks.storeId, storeId),
+          eq(syncLocks.lockType, lockType),
+          eq(syncLocks.processId, processId)
+        )
+      )
+      .returning({ id: syncLocks.id });
+    return renewed.length > 0;
+  }
+
   async hasActiveLock(storeId: number, lockType?: "pull" | "push"): Promise<boolean> {
     await this.cleanExpiredLocks();
     const conditions = lockType
@@ -1336,6 +2223,472 @@ export class DatabaseStorage implements IStorage {
       .delete(syncLocks)
       .where(sql`${syncLocks.expiresAt} < NOW()`);
   }
+
+  // Job queue operations
+
+  /**
+   * Encola un trabajo. Con dedupeKey, si ya hay uno pendiente o en ejecución
+   * con la misma clave se devuelve ese en lugar de crear otro
+   */
+  async enqueueJob(job: InsertJob): Promise<Job> {
+    const [created] = await db.insert(jobs).values(job).onConflictDoNothing().returning();
+    if (created) {
+      return created;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.dedupeKey, job.dedupeKey!), inArray(jobs.status, ["pending", "running"])))
+      .limit(1);
+    if (!existing) {
+      throw new Error(`No se pudo encolar el trabajo ${job.type}`);
+    }
+    return existing;
+  }
+
+  /**
+   * Toma el siguiente trabajo disponible (prioridad, luego antigüedad) y lo marca en ejecución
+   * SKIP LOCKED permite varios workers sin bloquearse; los tenants que ya tienen
+   * tenantConcurrency trabajos en ejecución se saltan. El límite se vuelve a comprobar bajo un
+   * advisory lock del tenant: sin él, dos workers podrían ver N-1 en ejecución y tomar ambos
+   */
+  async claimJob(workerId: string, options: JobClaimOptions): Promise<Job | undefined> {
+    return await db.transaction(async (tx) => {
+      const conditions = [
+        eq(jobs.status, "pending"),
+        lte(jobs.runAt, new Date()),
+        sql`(${jobs.tenantId} IS NULL OR (
+          SELECT count(*) FROM jobs running
+          WHERE running.tenant_id = ${jobs.tenantId} AND running.status = 'running'
+        ) < ${options.tenantConcurrency})`,
+      ];
+      if (options.types && options.types.length > 0) {
+        conditions.push(inArray(jobs.type, options.types));
+      }
+
+      const [candidate] = await tx
+        .select({ id: jobs.id, type: jobs.type, tenantId: jobs.tenantId })
+        .from(jobs)
+        .where(and(...conditions))
+        .orderBy(desc(jobs.priority), asc(jobs.runAt), asc(jobs.id))
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      if (!candidate) {
+        return undefined;
+      }
+
+      if (candidate.tenantId !== null) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('jobs'), ${candidate.tenantId})`);
+        const [{ running }] = await tx
+          .select({ running: sql<number>`count(*)::int` })
+          .from(jobs)
+          .where(and(eq(jobs.tenantId, candidate.tenantId), eq(jobs.status, "running")));
+        if (running >= options.tenantConcurrency) {
+          // Otro worker llegó al límite mientras tanto; el siguiente sondeo ya salta este tenant
+          return undefined;
+        }
+      }
+
+      const [job] = await tx
+        .update(jobs)
+        .set({
+          status: "running",
+          lockedBy: workerId,
+          lockedUntil: new Date(Date.now() + options.visibilityTimeoutMs(candidate.type)),
+          attempts: sql`${jobs.attempts} + 1`,
+          startedAt: new Date(),
+        })
+        .where(eq(jobs.id, candidate.id))
+        .returning();
+      return job;
+    });
+  }
+
+  /**
+   * Extiende el timeout de visibilidad de un trabajo en ejecución (heartbeat)
+   * @returns false si el worker ya no tiene el trabajo (expiró y fue reasignado)
+   */
+  async extendJobLock(id: number, workerId: string, lockedUntil: Date): Promise<boolean> {
+    const updated = await db
+      .update(jobs)
+      .set({ lockedUntil })
+      .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId), eq(jobs.status, "running")))
+      .returning({ id: jobs.id });
+    return updated.length > 0;
+  }
+
+  async completeJob(id: number, workerId: string, result: any): Promise<void> {
+    await db
+      .update(jobs)
+      .set({
+        status: "completed",
+        result: result ?? null,
+        lastError: null,
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+      })
+      .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId)));
+  }
+
+  /**
+   * Registra un intento fallido: vuelve a la cola en retryAt, o pasa a dead si retryAt es null
+   */
+  async failJob(id: number, workerId: string, error: string, retryAt: Date | null): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: retryAt ? "pending" : "dead",
+        lastError: error.substring(0, 2000),
+        runAt: retryAt ?? undefined,
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: retryAt ? null : new Date(),
+      })
+      .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId)))
+      .returning();
+    return job;
+  }
+
+  /**
+   * El handler se detuvo a pedido del usuario (result: lo procesado hasta entonces)
+   */
+  async cancelJob(id: number, workerId: string, result: any): Promise<void> {
+    await db
+      .update(jobs)
+      .set({
+        status: "cancelled",
+        result: result ?? null,
+        lastError: JOB_CANCELLED_ERROR,
+        lockedBy: null,
+        lockedUntil: null,
+        completedAt: new Date(),
+      })
+      .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId)));
+  }
+
+  /**
+   * Pide cancelar un trabajo: si todavía no empezó se cancela directamente; si está en
+   * ejecución, el handler se detiene en su siguiente punto de control (isJobCancelRequested)
+   * @returns El trabajo actualizado, o undefined si ya había terminado
+   */
+  async requestJobCancel(id: number): Promise<Job | undefined> {
+    const now = new Date();
+
+    const [pending] = await db
+      .update(jobs)
+      .set({ status: "cancelled", cancelRequestedAt: now, lastError: JOB_CANCELLED_ERROR, completedAt: now })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "pending")))
+      .returning();
+    if (pending) {
+      return pending;
+    }
+
+    const [running] = await db
+      .update(jobs)
+      .set({ cancelRequestedAt: now })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running")))
+      .returning();
+    return running;
+  }
+
+  async isJobCancelRequested(id: number): Promise<boolean> {
+    const [job] = await db
+      .select({ cancelRequestedAt: jobs.cancelRequestedAt })
+      .from(jobs)
+      .where(eq(jobs.id, id));
+    return !!job?.cancelRequestedAt;
+  }
+
+  /**
+   * Trabajos en ejecución cuyo timeout de visibilidad venció (worker caído o colgado):
+   * vuelven a la cola, o pasan a dead si ya agotaron sus intentos
+   * (los que tenían una cancelación pendiente quedan cancelados)
+   */
+  async reclaimExpiredJobs(): Promise<Job[]> {
+    const expired = and(eq(jobs.status, "running"), lt(jobs.lockedUntil, new Date()));
+    const timeoutError = "Tiempo de visibilidad agotado: el worker no respondió";
+
+    const cancelled = await db
+      .update(jobs)
+      .set({ status: "cancelled", lastError: JOB_CANCELLED_ERROR, lockedBy: null, lockedUntil: null, completedAt: new Date() })
+      .where(and(expired, isNotNull(jobs.cancelRequestedAt)))
+      .returning();
+
+    const dead = await db
+      .update(jobs)
+      .set({ status: "dead", lastError: timeoutError, lockedBy: null, lockedUntil: null, completedAt: new Date() })
+      .where(and(expired, sql`${jobs.attempts} >= ${jobs.maxAttempts}`))
+      .returning();
+
+    const requeued = await db
+      .update(jobs)
+      .set({ status: "pending", lastError: timeoutError, lockedBy: null, lockedUntil: null, runAt: new Date() })
+      .where(expired)
+      .returning();
+
+    return [...cancelled, ...dead, ...requeued];
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobs(filters: { status?: string; type?: string; limit?: number }): Promise<Job[]> {
+    const conditions = [];
+    if (filters.status) {
+      conditions.push(eq(jobs.status, filters.status));
+    }
+    if (filters.type) {
+      conditions.push(eq(jobs.type, filters.type));
+    }
+
+    return await db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.priority), asc(jobs.runAt), desc(jobs.id))
+      .limit(filters.limit || 50);
+  }
+
+  /**
+   * Trabajos por tipo y estado (los completados solo de las últimas 24 horas)
+   */
+  async getJobQueueStats(): Promise<Array<{ type: string; status: string; count: number }>> {
+    return await db
+      .select({
+        type: jobs.type,
+        status: jobs.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(jobs)
+      .where(
+        or(
+          notInArray(jobs.status, ["completed", "cancelled"]),
+          gte(jobs.completedAt, new Date(Date.now() - 24 * 60 * 60 * 1000)),
+        ),
+      )
+      .groupBy(jobs.type, jobs.status);
+  }
+
+  /**
+   * Vuelve a encolar un trabajo fallido (dead) con los intentos reiniciados
+   */
+  async retryJob(id: number): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ status: "pending", attempts: 0, runAt: new Date(), completedAt: null })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "dead")))
+      .returning();
+    return job;
+  }
+
+  /**
+   * Elimina trabajos completados o cancelados antiguos (los fallidos se conservan para revisión)
+   */
+  async deleteFinishedJobs(olderThan: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(inArray(jobs.status, ["completed", "cancelled"]), lt(jobs.completedAt, olderThan)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  // Pull plan operations
+  async createPullPlan(plan: InsertPullPlan): Promise<PullPlan> {
+    const [created] = await db.insert(pullPlans).values(plan).returning();
+    return created;
+  }
+
+  async getPullPlan(id: number): Promise<PullPlan | undefined> {
+    const [plan] = await db.select().from(pullPlans).where(eq(pullPlans.id, id));
+    return plan;
+  }
+
+  async getPullPlansByTenant(
+    tenantId: number,
+    filters: { storeId?: number; limit?: number } = {},
+  ): Promise<PullPlan[]> {
+    const conditions = [eq(pullPlans.tenantId, tenantId)];
+    if (filters.storeId) {
+      conditions.push(eq(pullPlans.storeId, filters.storeId));
+    }
+
+    return await db
+      .select()
+      .from(pullPlans)
+      .where(and(...conditions))
+      .orderBy(desc(pullPlans.createdAt))
+      .limit(filters.limit ?? 20);
+  }
+
+  async updatePullPlan(id: number, updates: Partial<InsertPullPlan>): Promise<PullPlan | undefined> {
+    const [plan] = await db
+      .update(pullPlans)
+      .set(updates)
+      .where(eq(pullPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  /**
+   * Aprueba el plan solo si sigue pendiente de aprobación y vigente (evita aprobarlo dos veces)
+   */
+  async approvePullPlan(id: number, userId: number): Promise<PullPlan | undefined> {
+    const [plan] = await db
+      .update(pullPlans)
+      .set({ status: "ready", approvedBy: userId, approvedAt: new Date() })
+      .where(and(eq(pullPlans.id, id), eq(pullPlans.status, "pending_approval"), gte(pullPlans.expiresAt, new Date())))
+      .returning();
+    return plan;
+  }
+
+  /**
+   * Marca el plan como "aplicando" solo si está listo y vigente (evita aplicarlo dos veces)
+   */
+  async startPullPlanApply(id: number): Promise<PullPlan | undefined> {
+    const [plan] = await db
+      .update(pullPlans)
+      .set({ status: "applying" })
+      .where(and(eq(pullPlans.id, id), eq(pullPlans.status, "ready"), gte(pullPlans.expiresAt, new Date())))
+      .returning();
+    return plan;
+  }
+
+  // Pull stock snapshot operations
+  async createPullStockSnapshots(snapshots: InsertPullStockSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+    await db.insert(pullStockSnapshots).values(snapshots);
+  }
+
+  async getPullStockSnapshots(
+    syncLogId: number,
+    filters: { pendingOnly?: boolean } = {},
+  ): Promise<PullStockSnapshot[]> {
+    const conditions = [eq(pullStockSnapshots.syncLogId, syncLogId)];
+    if (filters.pendingOnly) {
+      conditions.push(isNull(pullStockSnapshots.restoredAt));
+    }
+
+    return await db
+      .select()
+      .from(pullStockSnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(pullStockSnapshots.id));
+  }
+
+  async countPendingPullStockSnapshots(syncLogId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(pullStockSnapshots)
+      .where(and(eq(pullStockSnapshots.syncLogId, syncLogId), isNull(pullStockSnapshots.restoredAt)));
+    return result?.count ?? 0;
+  }
+
+  async markPullStockSnapshotsRestored(syncLogId: number, productIds: string[]): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+    await db
+      .update(pullStockSnapshots)
+      .set({ restoredAt: new Date() })
+      .where(and(eq(pullStockSnapshots.syncLogId, syncLogId), inArray(pullStockSnapshots.productId, productIds)));
+  }
+
+  // Tenant invitation operations
+  async createTenantInvitation(invitation: InsertTenantInvitation): Promise<TenantInvitation> {
+    const [created] = await db.insert(tenantInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async getPendingTenantInvitations(tenantId: number): Promise<TenantInvitation[]> {
+    return await db
+      .select()
+      .from(tenantInvitations)
+      .where(
+        and(
+          eq(tenantInvitations.tenantId, tenantId),
+          isNull(tenantInvitations.acceptedAt),
+          isNull(tenantInvitations.revokedAt),
+        )
+      )
+      .orderBy(desc(tenantInvitations.createdAt));
+  }
+
+  async getTenantInvitationByTokenHash(tokenHash: string): Promise<TenantInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(tenantInvitations)
+      .where(eq(tenantInvitations.tokenHash, tokenHash))
+      .limit(1);
+    return invitation;
+  }
+
+  async revokeTenantInvitation(id: number, tenantId: number): Promise<TenantInvitation | undefined> {
+    const [revoked] = await db
+      .update(tenantInvitations)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(tenantInvitations.id, id),
+          eq(tenantInvitations.tenantId, tenantId),
+          isNull(tenantInvitations.acceptedAt),
+          isNull(tenantInvitations.revokedAt),
+        )
+      )
+      .returning();
+    return revoked;
+  }
+
+  /**
+   * Consumes the invitation and creates its user atomically
+   * Returns undefined if the invitation was already used, revoked or expired
+   */
+  async acceptTenantInvitation(id: number, userData: CreateUserData): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(tenantInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(
+          and(
+            eq(tenantInvitations.id, id),
+            isNull(tenantInvitations.acceptedAt),
+            isNull(tenantInvitations.revokedAt),
+            gte(tenantInvitations.expiresAt, new Date()),
+          )
+        )
+        .returning();
+
+      if (!claimed) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .insert(users)
+        .values({
+          tenantId: userData.tenantId,
+          email: userData.email,
+          passwordHash: userData.passwordHash,
+          name: userData.name,
+          role: userData.role || "user",
+          tenantRole: userData.tenantRole || "viewer",
+          emailVerified: userData.emailVerified || false,
+        })
+        .returning();
+
+      await tx
+        .update(tenantInvitations)
+        .set({ acceptedByUserId: user.id })
+        .where(eq(tenantInvitations.id, id));
+
+      return user;
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,45 @@
+import type { Request } from "express";
+
+/**
+ * Public URL of the app, for webhook callbacks
+ * Works in both development and production (Autoscale/Reserved VM)
+ * Always returns HTTPS URLs as required by Shopify
+ * Without a request (scheduled jobs) and without env vars, falls back to the local server
+ */
+export function getPublicUrl(req?: Request): string {
+  // 1. Check for explicit PUBLIC_URL env var (highest priority)
+  if (process.env.PUBLIC_URL) {
+    return process.env.PUBLIC_URL;
+  }
+
+  // 2. Check for REPLIT_DOMAINS (production Autoscale/Reserved VM)
+  if (process.env.REPLIT_DOMAINS) {
+    const domains = process.env.REPLIT_DOMAINS.split(',');
+    return `https://${domains[0]}`;
+  }
+
+  // 3. Development fallback: force HTTPS as Shopify requires it
+  // Express behind Replit's reverse proxy reports 'http' but the public URL is HTTPS
+  const host = req?.get('host');
+  if (host) {
+    return `https://${host}`;
+  }
+
+  return `http://localhost:${process.env.PORT || 5000}`;
+}
+
+/**
+ * Base URL for links sent by email (email verification, password reset, team invitations)
+ * Only PUBLIC_URL is trusted: the Host header is client-controlled and would let anyone
+ * have a reset link pointing at their own domain emailed to a victim.
+ * PUBLIC_URL is required in production (validated at startup); development falls back to the local server
+ */
+export function getEmailLinkBaseUrl(): string {
+  if (process.env.PUBLIC_URL) {
+    return process.env.PUBLIC_URL.replace(/\/+$/, '');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PUBLIC_URL is required to send email links in production');
+  }
+  return `http://localhost:${process.env.PORT || 5000}`;
+}
@@ -0,0 +1,79 @@
+// Load environment variables from .env file first
+import 'dotenv/config';
+
+import { jobWorker } from "./workers/jobWorker";
+import { runMigrations } from "./migrate";
+import { initializeExpirationScheduler } from "./services/expirationNotifications";
+import { closeDatabasePool } from "./db";
+import { CredentialVault } from "./services/credentialVault";
+import { Mailer } from "./services/mailer";
+
+/**
+ * Proceso independiente para la cola de trabajos (npm run worker / npm run start:worker)
+ * Permite ejecutar los trabajos en segundo plano fuera del servidor web (p. ej. con Autoscale,
+ * donde ENABLE_BACKGROUND_WORKERS=false). Se pueden ejecutar varios a la vez.
+ */
+(async () => {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ CRITICAL ERROR: Missing required environment variable DATABASE_URL');
+    process.exit(1);
+  }
+
+  // Los trabajos leen credenciales de tiendas e integraciones: misma clave que el servidor web
+  if (process.env.NODE_ENV === 'production' && !process.env.CREDENTIALS_MASTER_KEY) {
+    console.error('❌ CRITICAL ERROR: CREDENTIALS_MASTER_KEY is required in production');
+    process.exit(1);
+  }
+  try {
+    CredentialVault.validateConfig();
+  } catch (error: any) {
+    console.error('❌ CRITICAL ERROR:', error.message);
+    process.exit(1);
+  }
+
+  // Los avisos de vencimiento se envían por correo desde el worker
+  try {
+    Mailer.validateConfig();
+  } catch (error: any) {
+    console.error('❌ CRITICAL ERROR:', error.message);
+    process.exit(1);
+  }
+
+  console.log('[Worker] Running database migrations...');
+  try {
+    await runMigrations();
+  } catch (error) {
+    console.error('❌ Error running migrations:', error);
+    process.exit(1);
+  }
+
+  jobWorker.start();
+
+  // Start expiration check scheduler
+  initializeExpirationScheduler();
+  console.log('[Worker] ✓ Account expiration scheduler started');
+
+  // Graceful shutdown: los trabajos en ejecución terminan antes de salir
+  const shutdown = async (signal: string) => {
+    console.log(`\n[Worker] ${signal} received. Starting graceful shutdown...`);
+
+    // Force shutdown if running jobs take too long (sus locks vencen y otro worker los retoma)
+    setTimeout(() => {
+      console.error('⚠️ Graceful shutdown timeout - forcing exit');
+      process.exit(1);
+    }, 60000).unref();
+
+    await jobWorker.stop();
+    await closeDatabasePool();
+
+    console.log('[Worker] ✓ Graceful shutdown completed');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  process.on('unhandledRejection', (reason, promise) => {
+    console.error('[Worker] Unhandled Rejection at:', promise, 'reason:', reason);
+  });
+})();
@@ -0,0 +1,328 @@
+import type { Job } from "@shared/schema";
+import type { JobType } from "@shared/jobs";
+import { storage } from "../storage";
+import { scheduler } from "../scheduler";
+import { SyncService } from "../services/SyncService";
+import { ZeroStockGuardError } from "../services/zeroStockGuard";
+import { InventoryPushService } from "../services/inventoryPushService";
+import { InvoiceService } from "../services/invoiceService";
+import { CustomerSyncService } from "../services/customerSyncService";
+import { QuotaExceededError } from "../services/QuotaService";
+import { WebhookRegistrationService } from "../services/webhookRegistrationService";
+import { ExportService } from "../services/exportService";
+import { SyncEvents } from "../services/syncEvents";
+import { PullPlanService } from "../services/pullPlanService";
+import {
+  CancelledJobError,
+  PermanentJobError,
+  type ExportJobPayload,
+  type PullJobPayload,
+  type WebhookRegistrationJobPayload,
+} from "../services/jobQueue";
+
+/**
+ * Ejecuta un trabajo; lo que devuelve se guarda en jobs.result
+ * Un error reintenta el trabajo (PermanentJobError lo manda directamente a dead)
+ */
+export type JobHandler = (job: Job) => Promise<any>;
+
+/**
+ * Vista previa: Pull en dry-run cuyo resultado se guarda como plan para revisarlo y aplicarlo
+ */
+async function previewPull(job: Job, payload: PullJobPayload, runId: string, shouldCancel: () => Promise<boolean>) {
+  const { plannedChanges = [], ...result } = await SyncService.pullFromIntegration(payload.storeId, payload.integrationId, {
+    dryRun: true,
+    limit: payload.limit,
+    mode: payload.mode,
+    runId,
+    shouldCancel,
+  });
+  if (result.cancelled) {
+    return result;
+  }
+
+  const plan = await PullPlanService.createPlan({
+    tenantId: job.tenantId!,
+    storeId: payload.storeId,
+    integrationId: payload.integrationId,
+    trigger: payload.trigger,
+    changes: plannedChanges,
+    catalogSize: result.catalogSize ?? 0,
+    createdBy: payload.requestedBy,
+    previewJobId: job.id,
+  });
+
+  return { ...result, planId: plan.id, requiresApproval: plan.requiresApproval };
+}
+
+/**
+ * Política de aprobación del tenant: con la política activa el Pull se calcula primero en dry-run
+ * y se guarda como plan. Si dejaría en cero más catálogo del permitido queda pendiente de aprobación;
+ * si no, se aplica ese mismo plan (sin volver a consultar el ERP, así lo escrito es lo evaluado)
+ * @returns Resultado del Pull (detenido o aplicado), o null si la política no está activa
+ */
+async function pullWithApproval(job: Job, payload: PullJobPayload, runId: string, shouldCancel: () => Promise<boolean>) {
+  const policy = await PullPlanService.getPolicy(job.tenantId!);
+  if (!policy.enabled) {
+    return null;
+  }
+
+  const { plannedChanges = [], ...preview } = await SyncService.pullFromIntegration(payload.storeId, payload.integrationId, {
+    dryRun: true,
+    limit: payload.limit,
+    mode: payload.mode,
+    runId,
+    shouldCancel,
+  });
+  if (preview.cancelled) {
+    return preview;
+  }
+
+  const plan = await PullPlanService.createPlan({
+    tenantId: job.tenantId!,
+    storeId: payload.storeId,
+    integrationId: payload.integrationId,
+    trigger: payload.trigger,
+    changes: plannedChanges,
+    catalogSize: preview.catalogSize ?? 0,
+    createdBy: payload.requestedBy,
+    previewJobId: job.id,
+  });
+  if (!plan.requiresApproval) {
+    if (!(await storage.startPullPlanApply(plan.id))) {
+      throw new PermanentJobError(`El plan ${plan.id} no se pudo aplicar`);
+    }
+    return await applyPlan(plan.id, runId, shouldCancel);
+  }
+  await PullPlanService.notifyApprovalRequired(plan, policy);
+
+  console.log(`[JobWorker] ✋ Pull store ${payload.storeId} detenido: el plan ${plan.id} requiere aprobación`);
+  return { ...preview, planId: plan.id, requiresApproval: true };
+}
+
+/**
+ * Aplica un plan revisado (estado "applying", marcado por la ruta al encolarlo)
+ */
+async function applyPlan(planId: number, runId: string, shouldCancel: () => Promise<boolean>) {
+  const plan = await storage.getPullPlan(planId);
+  if (!plan || plan.status !== "applying") {
+    throw new PermanentJobError(`El plan ${planId} no está listo para aplicarse`);
+  }
+
+  try {
+    const result = await SyncService.applyPullPlan(plan, { runId, shouldCancel });
+    await storage.updatePullPlan(plan.id, {
+      status: result.cancelled ? "cancelled" : "applied",
+      syncLogId: result.syncLogId ?? null,
+      appliedAt: new Date(),
+    });
+    return { ...result, planId: plan.id };
+  } catch (error) {
+    await storage.updatePullPlan(plan.id, { status: "failed" });
+    throw error;
+  }
+}
+
+/**
+ * Pull manual, selectivo o programado (Contífico → tienda)
+ * El progreso se publica en tiempo real con el id del trabajo como runId
+ * Se puede cancelar entre lotes; un reintento tras una caída reanuda desde el último punto de control
+ * Los programados notifican al tenant cuando fallan (como hacía el Scheduler)
+ * Con la política de aprobación del tenant, un Pull que dejaría en cero demasiado catálogo se detiene como plan
+ * La protección de stock aborta el Pull sin reintentos (ya notificó al tenant)
+ */
+async function runPull(job: Job) {
+  const payload = job.payload as PullJobPayload;
+  const automated = payload.trigger === "schedule";
+  const runId = job.id.toString();
+  const reporter = SyncEvents.reporter(runId, job.tenantId!, payload.storeId, payload.skus ? "pull_selective" : "pull");
+  const shouldCancel = () => storage.isJobCancelRequested(job.id);
+
+  try {
+    let result;
+    if (payload.planId) {
+      result = await applyPlan(payload.planId, runId, shouldCancel);
+    } else if (payload.rollbackSyncLogId) {
+      result = await SyncService.rollbackPull(payload.rollbackSyncLogId, { runId, shouldCancel });
+    } else if (payload.preview) {
+      result = await previewPull(job, payload, runId, shouldCancel);
+    } else if (payload.skus) {
+      result = await SyncService.pullFromIntegrationSelective(payload.storeId, payload.integrationId, payload.skus, {
+        dryRun: payload.dryRun ?? false,
+        runId,
+        shouldCancel,
+      });
+    } else {
+      // Reintento del mismo trabajo: continuar el Pull que quedó a medias
+      const interrupted = !payload.resumeSyncLogId && job.attempts > 1
+        ? await storage.getInterruptedPull(payload.storeId, runId)
+        : undefined;
+
+      const resumeSyncLogId = payload.resumeSyncLogId ?? interrupted?.id;
+
+      // Un Pull reanudado ya pasó por la política al empezar
+      result = !payload.dryRun && !resumeSyncLogId
+        ? await pullWithApproval(job, payload, runId, shouldCancel)
+        : null;
+
+      if (!result) {
+        const { plannedChanges, ...pullResult } = await SyncService.pullFromIntegration(payload.storeId, payload.integrationId, {
+          dryRun: payload.dryRun ?? false,
+          limit: payload.limit,
+          mode: payload.mode,
+          runId,
+          shouldCancel,
+          resumeSyncLogId,
+        });
+        result = pullResult;
+      }
+    }
+
+    if (result.cancelled) {
+      reporter.cancelled(result);
+      throw new CancelledJobError("Cancelado por el usuario", result);
+    }
+    reporter.completed(result);
+
+    console.log(
+      `[JobWorker] ✅ Pull store ${payload.storeId}: ${result.success} éxitos, ${result.failed} fallidos, ${result.skipped} omitidos (${result.mode === "delta" ? "incremental" : "completo"})`,
+    );
+
+    // Más fallos que éxitos: notificar
+    if (automated && result.failed > 0 && result.failed >= result.success) {
+      await storage.createNotification({
+        tenantId: job.tenantId!,
+        userId: null,
+        storeId: payload.storeId,
+        type: "sync_failure",
+        title: "Sincronización automática con errores",
+        message: `La sincronización automática falló para ${result.failed} productos de ${result.failed + result.success} total. Revisa los logs para más detalles.`,
+        severity: "error",
+        read: false,
+        data: {
+          syncType: "pull",
+          success: result.success,
+          failed: result.failed,
+          skipped: result.skipped,
+          automated: true,
+        },
+      });
+    }
+
+    return result;
+  } catch (error: any) {
+    if (error instanceof CancelledJobError) {
+      throw error;
+    }
+    reporter.failed(error.message || String(error));
+
+    // Cuota agotada: no tiene sentido reintentar ni avisar como fallo
+    if (error instanceof QuotaExceededError) {
+      console.log(`[JobWorker] ⏸️  Store ${payload.storeId} - ${error.message}`);
+      throw new PermanentJobError(error.message);
+    }
+
+    // Protección de stock: reintentar volvería a leer el mismo stock del ERP
+    if (error instanceof ZeroStockGuardError) {
+      console.log(`[JobWorker] 🛡️ Store ${payload.storeId} - ${error.message}`);
+      throw new PermanentJobError(error.message);
+    }
+
+    // Solo se notifica cuando ya no quedan reintentos
+    if (automated && job.attempts >= job.maxAttempts) {
+      await storage.createNotification({
+        tenantId: job.tenantId!,
+        userId: null,
+        storeId: payload.storeId,
+        type: "sync_failure",
+        title: "Error en sincronización automática",
+        message: `La sincronización automática falló completamente: ${error.message}`,
+        severity: "error",
+        read: false,
+        data: {
+          syncType: "pull",
+          error: error.message,
+          automated: true,
+        },
+      });
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Envío de movimientos pendientes a Contífico (antes InventoryPushWorker)
+ */
+async function runPush() {
+  // Limpiar locks expirados antes de procesar
+  await storage.cleanExpiredLocks();
+
+  // Procesar hasta 50 movimientos por iteración
+  const stats = await InventoryPushService.processPendingMovements(50);
+
+  if (stats.processed > 0) {
+    console.log(
+      `[JobWorker] ✅ Push: ${stats.processed} procesados | Exitosos: ${stats.successful} | Fallidos: ${stats.failed}`,
+    );
+  }
+
+  // Limpiar movimientos antiguos (más de 30 días) una vez al día, a las 3 AM aproximadamente
+  const now = new Date();
+  if (now.getHours() === 3 && now.getMinutes() < 2) {
+    console.log("[JobWorker] Limpiando movimientos antiguos...");
+    await InventoryPushService.cleanOldMovements(30);
+  }
+
+  return stats;
+}
+
+/**
+ * Clientes y facturas pendientes (antes InvoiceWorker)
+ */
+async function runInvoices() {
+  // Clientes primero: las facturas referencian la persona del ERP
+  const syncedCustomers = await CustomerSyncService.syncPendingCustomers(20);
+  if (syncedCustomers > 0) {
+    console.log(`[JobWorker] 👤 Clientes sincronizados: ${syncedCustomers}`);
+  }
+
+  const stats = await InvoiceService.processPendingInvoices(20);
+
+  if (stats.processed > 0 || stats.authorized > 0) {
+    console.log(
+      `[JobWorker] ✅ Facturas: ${stats.processed} procesadas | Emitidas: ${stats.successful} | Fallidas: ${stats.failed} | Autorizadas: ${stats.authorized}`,
+    );
+  }
+
+  return { syncedCustomers, ...stats };
+}
+
+async function runWebhookRegistration(job: Job) {
+  const payload = job.payload as WebhookRegistrationJobPayload;
+
+  const store = await storage.getStore(payload.storeId);
+  if (!store) {
+    throw new PermanentJobError(`Tienda ${payload.storeId} no encontrada`);
+  }
+
+  const result = await WebhookRegistrationService.configureStoreWebhooks(store, payload.baseUrl);
+  if (!result.success) {
+    throw new Error(result.errors.map((e) => `${e.topic}: ${e.error}`).join("; ") || "Error registrando webhooks");
+  }
+
+  console.log(`[JobWorker] ✅ Webhooks configurados para tienda ${store.id}: ${result.webhooks.length}`);
+  return { webhooks: result.webhooks.length };
+}
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  pull: runPull,
+  push: runPush,
+  invoices: runInvoices,
+  webhook_registration: runWebhookRegistration,
+  export: (job) => ExportService.run(job.payload as ExportJobPayload, job.tenantId!),
+  scheduler_tick: (job) => {
+    const from = (job.payload as any)?.from;
+    return scheduler.runTick(from ? new Date(from) : null);
+  },
+};
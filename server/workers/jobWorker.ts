@@ -0,0 +1,227 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import type { Job } from "@shared/schema";
+import type { JobType } from "@shared/jobs";
+import { storage } from "../storage";
+import { CancelledJobError, JobQueue } from "../services/jobQueue";
+import { JOB_HANDLERS } from "./jobHandlers";
+
+/**
+ * Worker de la cola de trabajos (tabla jobs)
+ * Reemplaza a los setInterval del Scheduler, InventoryPushWorker e InvoiceWorker:
+ * varios procesos pueden ejecutarlo a la vez (server/index.ts o server/worker.ts)
+ */
+export class JobWorker {
+  private readonly workerId = `${hostname()}-${process.pid}-${randomBytes(3).toString("hex")}`;
+  private readonly concurrency = parseInt(process.env.JOB_WORKER_CONCURRENCY || "2", 10);
+  private readonly tenantConcurrency = parseInt(process.env.JOB_TENANT_CONCURRENCY || "2", 10);
+  private readonly POLL_INTERVAL_MS = 1000;
+  private readonly MAINTENANCE_INTERVAL_MS = 60 * 1000;
+  private readonly CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+  private readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Trabajos completados: 7 días
+
+  private running = new Map<number, Promise<void>>();
+  private pollTimeout: NodeJS.Timeout | null = null;
+  private started = false;
+  private lastMaintenanceAt = 0;
+  private lastCleanupAt = 0;
+
+  /**
+   * Inicia el worker
+   */
+  start(): void {
+    if (this.started) {
+      console.log("[JobWorker] Worker ya está en ejecución");
+      return;
+    }
+
+    this.started = true;
+    console.log(
+      `[JobWorker] Iniciando worker ${this.workerId} (concurrencia: ${this.concurrency}, por tenant: ${this.tenantConcurrency})`,
+    );
+
+    this.poll();
+    console.log("[JobWorker] ✅ Worker iniciado");
+  }
+
+  /**
+   * Deja de tomar trabajos y espera a que terminen los que están en ejecución
+   */
+  async stop(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    this.started = false;
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = null;
+    }
+
+    if (this.running.size > 0) {
+      console.log(`[JobWorker] Esperando ${this.running.size} trabajos en ejecución...`);
+      await Promise.allSettled(this.running.values());
+    }
+
+    console.log("[JobWorker] Worker detenido");
+  }
+
+  /**
+   * Obtiene el estado del worker
+   */
+  getStatus(): {
+    running: boolean;
+    workerId: string;
+    concurrency: number;
+    tenantConcurrency: number;
+    activeJobs: number[];
+  } {
+    return {
+      running: this.started,
+      workerId: this.workerId,
+      concurrency: this.concurrency,
+      tenantConcurrency: this.tenantConcurrency,
+      activeJobs: Array.from(this.running.keys()),
+    };
+  }
+
+  private async poll(): Promise<void> {
+    let claimed = false;
+
+    try {
+      await this.runMaintenance();
+
+      // Tomar trabajos mientras haya capacidad libre
+      while (this.started && this.running.size < this.concurrency) {
+        const job = await storage.claimJob(this.workerId, {
+          tenantConcurrency: this.tenantConcurrency,
+          visibilityTimeoutMs: (type) => JobQueue.getVisibilityTimeoutMs(type),
+        });
+        if (!job) {
+          break;
+        }
+
+        claimed = true;
+        const execution = this.execute(job).finally(() => {
+          this.running.delete(job.id);
+          // Un hueco libre: buscar el siguiente trabajo sin esperar al intervalo
+          this.schedulePoll(0);
+        });
+        this.running.set(job.id, execution);
+      }
+    } catch (error: any) {
+      console.error("[JobWorker] ❌ Error consultando la cola:", error.message);
+    }
+
+    this.schedulePoll(claimed ? 0 : this.POLL_INTERVAL_MS);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.started) {
+      return;
+    }
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+    }
+    this.pollTimeout = setTimeout(() => {
+      this.pollTimeout = null;
+      this.poll();
+    }, delayMs);
+  }
+
+  /**
+   * Una vez por minuto: devuelve a la cola los trabajos de workers caídos y garantiza
+   * los trabajos recurrentes; una vez por hora elimina los completados antiguos
+   */
+  private async runMaintenance(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastMaintenanceAt < this.MAINTENANCE_INTERVAL_MS) {
+      return;
+    }
+    this.lastMaintenanceAt = now;
+
+    const reclaimed = await storage.reclaimExpiredJobs();
+    for (const job of reclaimed) {
+      console.warn(`[JobWorker] ⚠️ Trabajo ${job.id} (${job.type}) sin heartbeat: ${job.status === "dead" ? "descartado" : "vuelve a la cola"}`);
+    }
+
+    await JobQueue.ensureRecurringJobs();
+
+    if (now - this.lastCleanupAt >= this.CLEANUP_INTERVAL_MS) {
+      this.lastCleanupAt = now;
+      const deleted = await storage.deleteFinishedJobs(new Date(now - this.RETENTION_MS));
+      if (deleted > 0) {
+        console.log(`[JobWorker] 🧹 ${deleted} trabajos completados eliminados`);
+      }
+    }
+  }
+
+  /**
+   * Ejecuta un trabajo manteniendo su lock con heartbeats
+   */
+  private async execute(job: Job): Promise<void> {
+    const timeoutMs = JobQueue.getVisibilityTimeoutMs(job.type);
+    const heartbeat = setInterval(async () => {
+      try {
+        const owned = await storage.extendJobLock(job.id, this.workerId, new Date(Date.now() + timeoutMs));
+        if (!owned) {
+          console.warn(`[JobWorker] ⚠️ Trabajo ${job.id} ya no pertenece a este worker`);
+        }
+      } catch (error: any) {
+        console.error(`[JobWorker] Error extendiendo lock del trabajo ${job.id}:`, error.message);
+      }
+    }, Math.floor(timeoutMs / 3));
+
+    const startTime = Date.now();
+    let result: any = null;
+
+    try {
+      const handler = JOB_HANDLERS[job.type as JobType];
+      if (!handler) {
+        throw new Error(`Tipo de trabajo desconocido: ${job.type}`);
+      }
+
+      result = await handler(job);
+      clearInterval(heartbeat);
+      await storage.completeJob(job.id, this.workerId, result);
+
+      if (job.type !== "scheduler_tick" && job.type !== "push" && job.type !== "invoices") {
+        console.log(`[JobWorker] ✅ Trabajo ${job.id} (${job.type}) completado en ${Date.now() - startTime}ms`);
+      }
+    } catch (error: any) {
+      clearInterval(heartbeat);
+
+      if (error instanceof CancelledJobError) {
+        try {
+          await storage.cancelJob(job.id, this.workerId, error.result);
+          console.log(`[JobWorker] ⏹️ Trabajo ${job.id} (${job.type}) cancelado tras ${Date.now() - startTime}ms`);
+        } catch (cancelError: any) {
+          console.error(`[JobWorker] Error registrando cancelación del trabajo ${job.id}:`, cancelError.message);
+        }
+      } else {
+        const retryAt = JobQueue.getRetryAt(job, error);
+        try {
+          await storage.failJob(job.id, this.workerId, error.message || String(error), retryAt);
+        } catch (failError: any) {
+          console.error(`[JobWorker] Error registrando fallo del trabajo ${job.id}:`, failError.message);
+        }
+
+        console.error(
+          `[JobWorker] ❌ Trabajo ${job.id} (${job.type}) falló (intento ${job.attempts}/${job.maxAttempts})` +
+          (retryAt ? `, reintento a las ${retryAt.toISOString()}` : ", sin más reintentos") +
+          `: ${error.message}`,
+        );
+      }
+    }
+
+    // Trabajos recurrentes: encolar la siguiente ejecución (también si esta falló)
+    try {
+      await JobQueue.enqueueNextRun(job, result);
+    } catch (error: any) {
+      console.error(`[JobWorker] Error encolando siguiente ejecución de ${job.type}:`, error.message);
+    }
+  }
+}
+
+// Singleton instance
+export const jobWorker = new JobWorker();
@@ -0,0 +1,16 @@
+/**
+ * Permisos (scopes) disponibles para las API keys de un tenant
+ * Compartido entre backend (middleware de autenticación) y frontend (configuración)
+ */
+export const API_KEY_SCOPES = [
+  "stores:read",
+  "stores:write",
+  "sync:read",
+  "sync:write",
+  "movements:read",
+  "movements:write",
+  "unmapped_skus:read",
+  "unmapped_skus:write",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
@@ -0,0 +1,41 @@
+/**
+ * Pull incremental (delta): solo se consultan en el ERP los SKUs con cambios desde el último Pull exitoso
+ * Se guarda en syncConfig.pull.delta de la vinculación tienda-integración
+ * Compartido entre backend (SyncService) y frontend (configuración)
+ */
+export type PullMode = "full" | "delta";
+
+export interface DeltaPullConfig {
+  enabled: boolean;
+  fullSyncIntervalHours: number; // Cada cuánto se fuerza un Pull completo (cambios hechos en la tienda, productos omitidos)
+}
+
+export const DEFAULT_FULL_SYNC_INTERVAL_HOURS = 24;
+
+export const FULL_SYNC_INTERVAL_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 6, label: "Cada 6 horas" },
+  { value: 12, label: "Cada 12 horas" },
+  { value: 24, label: "Una vez al día" },
+  { value: 72, label: "Cada 3 días" },
+  { value: 168, label: "Una vez por semana" },
+];
+
+export const PULL_MODE_LABELS: Record<PullMode, string> = {
+  full: "Completo",
+  delta: "Incremental",
+};
+
+/**
+ * Normaliza la configuración guardada en syncConfig (valores por defecto para campos vacíos)
+ */
+export function getDeltaPullConfig(syncConfig: any): DeltaPullConfig {
+  const delta = syncConfig?.pull?.delta || {};
+  const fullSyncIntervalHours = Number(delta.fullSyncIntervalHours);
+
+  return {
+    enabled: delta.enabled === true,
+    fullSyncIntervalHours: Number.isFinite(fullSyncIntervalHours) && fullSyncIntervalHours > 0
+      ? fullSyncIntervalHours
+      : DEFAULT_FULL_SYNC_INTERVAL_HOURS,
+  };
+}
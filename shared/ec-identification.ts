@@ -0,0 +1,117 @@
+/**
+ * Validación de identificaciones de Ecuador (cédula y RUC) para facturación
+ * Compartido entre backend (captura de clientes) y frontend (cola de revisión)
+ */
+export type IdentificationType = "cedula" | "ruc" | "pasaporte" | "consumidor_final";
+
+export interface IdentificationCheck {
+  type: IdentificationType;
+  value: string; // Normalizada (sin espacios ni guiones)
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Identificación del SRI para ventas a consumidor final
+ */
+export const CONSUMIDOR_FINAL_ID = "9999999999999";
+
+/**
+ * Monto máximo que el SRI permite facturar a consumidor final (USD)
+ */
+export const CONSUMIDOR_FINAL_MAX_TOTAL = 50;
+
+// Provincias 01-24 y 30 (ecuatorianos registrados en el exterior)
+function isValidProvince(digits: string): boolean {
+  const province = parseInt(digits.slice(0, 2), 10);
+  return (province >= 1 && province <= 24) || province === 30;
+}
+
+/**
+ * Dígito verificador módulo 10 de la cédula (y del RUC de personas naturales)
+ */
+function hasValidCedulaCheckDigit(digits: string): boolean {
+  const sum = digits
+    .slice(0, 9)
+    .split("")
+    .reduce((acc, char, i) => {
+      let value = Number(char) * (i % 2 === 0 ? 2 : 1);
+      if (value > 9) value -= 9;
+      return acc + value;
+    }, 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(digits[9]);
+}
+
+/**
+ * Dígito verificador módulo 11 (RUC de sociedades públicas y privadas)
+ */
+function hasValidModulo11CheckDigit(digits: string, coefficients: number[]): boolean {
+  const sum = coefficients.reduce((acc, coefficient, i) => acc + Number(digits[i]) * coefficient, 0);
+  const remainder = sum % 11;
+  const checkDigit = remainder === 0 ? 0 : 11 - remainder;
+  return checkDigit === Number(digits[coefficients.length]);
+}
+
+export function validateCedula(value: string): string | null {
+  if (!/^\d{10}$/.test(value)) return "La cédula debe tener 10 dígitos";
+  if (!isValidProvince(value)) return "Código de provincia inválido";
+  if (Number(value[2]) >= 6) return "El tercer dígito de la cédula debe ser menor a 6";
+  if (!hasValidCedulaCheckDigit(value)) return "Dígito verificador de la cédula inválido";
+  return null;
+}
+
+export function validateRuc(value: string): string | null {
+  if (!/^\d{13}$/.test(value)) return "El RUC debe tener 13 dígitos";
+  if (!isValidProvince(value)) return "Código de provincia inválido";
+
+  const thirdDigit = Number(value[2]);
+  if (thirdDigit < 6) {
+    // Persona natural: cédula + establecimiento
+    if (!hasValidCedulaCheckDigit(value)) return "Dígito verificador del RUC inválido";
+    if (value.slice(10) === "000") return "Número de establecimiento del RUC inválido";
+    return null;
+  }
+  if (thirdDigit === 6) {
+    // Sociedad pública: verificador en la posición 9
+    if (!hasValidModulo11CheckDigit(value, [3, 2, 7, 6, 5, 4, 3, 2])) return "Dígito verificador del RUC inválido";
+    if (value.slice(9) === "0000") return "Número de establecimiento del RUC inválido";
+    return null;
+  }
+  if (thirdDigit === 9) {
+    // Sociedad privada: verificador en la posición 10
+    if (!hasValidModulo11CheckDigit(value, [4, 3, 2, 7, 6, 5, 4, 3, 2])) return "Dígito verificador del RUC inválido";
+    if (value.slice(10) === "000") return "Número de establecimiento del RUC inválido";
+    return null;
+  }
+  return "El tercer dígito del RUC debe ser menor a 6, 6 o 9";
+}
+
+/**
+ * Clasifica y valida una identificación: 10 dígitos cédula, 13 RUC, otro valor pasaporte;
+ * vacía o 9999999999999 es consumidor final
+ */
+export function checkIdentification(raw: string | null | undefined): IdentificationCheck {
+  const value = (raw || "").replace(/[\s.-]/g, "").toUpperCase();
+
+  if (!value || value === CONSUMIDOR_FINAL_ID) {
+    return { type: "consumidor_final", value: CONSUMIDOR_FINAL_ID, valid: true };
+  }
+
+  if (/^\d+$/.test(value)) {
+    if (value.length === 10) {
+      const error = validateCedula(value);
+      return { type: "cedula", value, valid: !error, ...(error && { error }) };
+    }
+    if (value.length === 13) {
+      const error = validateRuc(value);
+      return { type: "ruc", value, valid: !error, ...(error && { error }) };
+    }
+    return { type: "cedula", value, valid: false, error: "La cédula debe tener 10 dígitos o el RUC 13" };
+  }
+
+  if (/^[A-Z0-9]{5,20}$/.test(value)) {
+    return { type: "pasaporte", value, valid: true };
+  }
+  return { type: "pasaporte", value, valid: false, error: "Identificación con caracteres inválidos" };
+}
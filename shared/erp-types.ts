@@ -0,0 +1,12 @@
+/**
+ * Tipos de integración ERP soportados (integrations.integrationType)
+ * Compartido entre backend (registro de conectores) y frontend (alta de integraciones)
+ */
+export const ERP_INTEGRATION_TYPES = ["contifico", "csv"] as const;
+
+export type ErpIntegrationType = (typeof ERP_INTEGRATION_TYPES)[number];
+
+export const ERP_INTEGRATION_LABELS: Record<ErpIntegrationType, string> = {
+  contifico: "Contífico ERP",
+  csv: "Archivo CSV",
+};
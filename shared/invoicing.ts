@@ -0,0 +1,45 @@
+/**
+ * Configuración de facturación automática (órdenes pagadas → factura en el ERP)
+ * Se guarda en syncConfig.invoicing de la vinculación tienda-integración
+ * Compartido entre backend (webhooks, InvoiceService) y frontend (configuración)
+ */
+export interface InvoicingConfig {
+  enabled: boolean;
+  establishment: string; // Código de establecimiento del SRI, ej. "001"
+  emissionPoint: string; // Punto de emisión, ej. "001"
+  startSequence: number; // Primer secuencial a usar si no hay facturas previas
+  posToken?: string; // Token del punto de venta en Contífico
+  shippingProductId?: string; // Producto/servicio del ERP para facturar el envío
+  paymentMethod?: string; // Forma de cobro en el ERP (TC, EF, TRA...)
+}
+
+export type InvoiceStatus = "pending" | "processing" | "completed" | "failed";
+
+export type InvoiceAuthorizationStatus = "pending" | "authorized" | "rejected";
+
+export const DEFAULT_INVOICE_PAYMENT_METHOD = "TC";
+
+/**
+ * Normaliza la configuración guardada en syncConfig (valores por defecto para campos vacíos)
+ */
+export function getInvoicingConfig(syncConfig: any): InvoicingConfig {
+  const invoicing = syncConfig?.invoicing || {};
+  const startSequence = parseInt(invoicing.startSequence, 10);
+
+  return {
+    enabled: invoicing.enabled === true,
+    establishment: invoicing.establishment || "001",
+    emissionPoint: invoicing.emissionPoint || "001",
+    startSequence: Number.isFinite(startSequence) && startSequence > 0 ? startSequence : 1,
+    posToken: invoicing.posToken || undefined,
+    shippingProductId: invoicing.shippingProductId || undefined,
+    paymentMethod: invoicing.paymentMethod || DEFAULT_INVOICE_PAYMENT_METHOD,
+  };
+}
+
+/**
+ * Prefijo del número de documento: <establecimiento>-<punto de emisión>
+ */
+export function getInvoicePrefix(config: InvoicingConfig): string {
+  return `${config.establishment}-${config.emissionPoint}`;
+}
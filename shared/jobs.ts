@@ -0,0 +1,44 @@
+/**
+ * Cola de trabajos en segundo plano (tabla jobs)
+ * Compartido entre backend (JobQueue, JobWorker) y frontend (panel de administración, seguimiento de trabajos)
+ */
+export type JobType =
+  | "pull" // Pull manual o programado (Contífico → tienda)
+  | "push" // Envío de movimientos pendientes a Contífico
+  | "invoices" // Emisión de facturas y clientes pendientes
+  | "webhook_registration" // Registro de webhooks de órdenes en la tienda
+  | "export" // Archivo Excel para descargar
+  | "scheduler_tick"; // Evalúa las programaciones y encola los Pull que tocan
+
+/**
+ * pending → running → completed
+ * Un intento fallido vuelve a pending (con espera) hasta agotar los intentos: dead
+ * cancelled: cancelado por el usuario antes de empezar o en un punto de control
+ */
+export type JobStatus = "pending" | "running" | "completed" | "dead" | "cancelled";
+
+export type ExportKind = "sync_log" | "push_movements" | "unmapped_skus";
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  pull: "Pull de inventario",
+  push: "Push de movimientos",
+  invoices: "Facturación",
+  webhook_registration: "Registro de webhooks",
+  export: "Exportación",
+  scheduler_tick: "Programador",
+};
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  pending: "En cola",
+  running: "En ejecución",
+  completed: "Completado",
+  dead: "Fallido (sin reintentos)",
+  cancelled: "Cancelado",
+};
+
+/**
+ * true si el trabajo ya no cambiará de estado
+ */
+export function isJobFinished(status: string): boolean {
+  return status === "completed" || status === "dead" || status === "cancelled";
+}
@@ -0,0 +1,45 @@
+/**
+ * Mapeo ubicación de la tienda ↔ bodega de Contífico
+ * Se guarda en syncConfig.pull.locationMappings de la vinculación tienda-integración
+ * Compartido entre backend (pull/push) y frontend (configuración)
+ */
+export interface LocationWarehouseMapping {
+  locationId: string; // ID de la ubicación en Shopify
+  locationName?: string;
+  warehouseId: string; // ID de la bodega en Contífico
+}
+
+/**
+ * Normaliza los mapeos guardados en syncConfig (descarta entradas incompletas)
+ */
+export function getLocationMappings(syncConfig: any): LocationWarehouseMapping[] {
+  const mappings = syncConfig?.pull?.locationMappings;
+  if (!Array.isArray(mappings)) {
+    return [];
+  }
+
+  return mappings
+    .filter((m: any) => m && m.locationId && m.warehouseId)
+    .map((m: any) => ({
+      locationId: m.locationId.toString(),
+      locationName: m.locationName,
+      warehouseId: m.warehouseId.toString(),
+    }));
+}
+
+/**
+ * Bodega de Contífico asignada a una ubicación de la tienda, o null si no está mapeada
+ */
+export function findWarehouseForLocation(
+  syncConfig: any,
+  locationId: string | number | null | undefined,
+): string | null {
+  if (locationId === null || locationId === undefined) {
+    return null;
+  }
+
+  const mapping = getLocationMappings(syncConfig).find(
+    (m) => m.locationId === locationId.toString(),
+  );
+  return mapping?.warehouseId || null;
+}
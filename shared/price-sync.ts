@@ -0,0 +1,92 @@
+/**
+ * Sincronización de precios (Pull): el PVP de Contífico se escribe en la tienda
+ * Se guarda en syncConfig.pull.prices de la vinculación tienda-integración
+ * Compartido entre backend (SyncService) y frontend (configuración)
+ */
+export type PriceList = "pvp1" | "pvp2" | "pvp3" | "pvp4";
+
+export type PriceRounding = "none" | "0.05" | "0.10" | "integer" | "0.99";
+
+export interface PriceSyncConfig {
+  enabled: boolean;
+  priceList: PriceList; // Lista de precios de Contífico (PVP1..PVP4)
+  includeTax: boolean; // true = la tienda muestra precios con IVA incluido
+  rounding: PriceRounding;
+  minChangePercent: number; // Cambios menores a este porcentaje no se envían a la tienda
+}
+
+export const PRICE_LIST_OPTIONS: Array<{ value: PriceList; label: string }> = [
+  { value: "pvp1", label: "PVP 1" },
+  { value: "pvp2", label: "PVP 2" },
+  { value: "pvp3", label: "PVP 3" },
+  { value: "pvp4", label: "PVP 4" },
+];
+
+export const PRICE_ROUNDING_OPTIONS: Array<{ value: PriceRounding; label: string }> = [
+  { value: "none", label: "Sin redondeo (centavos)" },
+  { value: "0.05", label: "Al múltiplo de $0.05 más cercano" },
+  { value: "0.10", label: "Al múltiplo de $0.10 más cercano" },
+  { value: "integer", label: "Al dólar más cercano" },
+  { value: "0.99", label: "Terminar en .99" },
+];
+
+/**
+ * Normaliza la configuración guardada en syncConfig (valores por defecto para campos vacíos)
+ */
+export function getPriceSyncConfig(syncConfig: any): PriceSyncConfig {
+  const prices = syncConfig?.pull?.prices || {};
+  const minChangePercent = Number(prices.minChangePercent);
+
+  return {
+    enabled: prices.enabled === true,
+    priceList: PRICE_LIST_OPTIONS.some((o) => o.value === prices.priceList) ? prices.priceList : "pvp1",
+    includeTax: prices.includeTax !== false,
+    rounding: PRICE_ROUNDING_OPTIONS.some((o) => o.value === prices.rounding) ? prices.rounding : "none",
+    minChangePercent: Number.isFinite(minChangePercent) && minChangePercent > 0 ? minChangePercent : 0,
+  };
+}
+
+const roundTo = (value: number, step: number) => Math.round(Math.round(value / step) * step * 100) / 100;
+
+/**
+ * Aplica la regla de redondeo a un precio en dólares
+ */
+export function roundPrice(value: number, rounding: PriceRounding): number {
+  switch (rounding) {
+    case "0.05":
+      return roundTo(value, 0.05);
+    case "0.10":
+      return roundTo(value, 0.1);
+    case "integer":
+      return Math.round(value);
+    case "0.99":
+      // 12.30 → 12.99; 13.00 → 12.99
+      return Math.max(Math.ceil(value) - 0.01, 0.99);
+    default:
+      return roundTo(value, 0.01);
+  }
+}
+
+/**
+ * Precio a publicar en la tienda a partir del precio del ERP (sin IVA)
+ */
+export function calculateStorePrice(basePrice: number, taxRate: number, config: PriceSyncConfig): number {
+  const price = config.includeTax ? basePrice * (1 + taxRate / 100) : basePrice;
+  return roundPrice(price, config.rounding);
+}
+
+/**
+ * true si el cambio de precio supera el umbral mínimo configurado
+ */
+export function isSignificantPriceChange(currentPrice: number | null, newPrice: number, minChangePercent: number): boolean {
+  if (currentPrice === null || currentPrice <= 0) {
+    return newPrice > 0;
+  }
+
+  const diff = Math.abs(newPrice - currentPrice);
+  if (diff < 0.005) {
+    return false;
+  }
+
+  return (diff / currentPrice) * 100 >= minChangePercent;
+}
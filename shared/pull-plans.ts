@@ -0,0 +1,159 @@
+/**
+ * Vista previa de un Pull (plan) y política de aprobación
+ * La vista previa es un Pull en dry-run que guarda los SKUs cuyo stock cambiaría (tabla pull_plans);
+ * aplicar el plan escribe exactamente esos valores en la tienda
+ * Compartido entre backend (SyncService, rutas) y frontend (diálogo de vista previa, configuración)
+ */
+export type PullPlanStatus =
+  | "pending_approval" // Supera la política del tenant: requiere aprobación antes de aplicarse
+  | "ready"
+  | "applying"
+  | "applied"
+  | "failed"
+  | "cancelled" // Se detuvo a medias: lo aplicado queda en el log
+  | "discarded";
+
+export const PULL_PLAN_STATUS_LABELS: Record<PullPlanStatus, string> = {
+  pending_approval: "Pendiente de aprobación",
+  ready: "Listo para aplicar",
+  applying: "Aplicando",
+  applied: "Aplicado",
+  failed: "Falló al aplicar",
+  cancelled: "Cancelado",
+  discarded: "Descartado",
+};
+
+// El stock de la tienda y del ERP cambian: un plan viejo ya no refleja la realidad
+export const PULL_PLAN_TTL_MS = 2 * 60 * 60 * 1000;
+
+// Cambio grande: al menos la mitad del stock anterior y 10 unidades (o quedar en cero)
+const LARGE_CHANGE_RATIO = 0.5;
+const LARGE_CHANGE_MIN_UNITS = 10;
+
+export type StockChangeWarning = "zeroed" | "large_decrease" | "large_increase";
+
+export const STOCK_CHANGE_WARNING_LABELS: Record<StockChangeWarning, string> = {
+  zeroed: "Queda en cero",
+  large_decrease: "Baja grande",
+  large_increase: "Subida grande",
+};
+
+/**
+ * Cambio de stock de un SKU en el plan
+ * En tiendas multi-ubicación el cambio se detalla por ubicación (before/after son los totales mapeados)
+ */
+export interface PlannedStockChange {
+  sku: string;
+  productId: string; // variant_id en la tienda
+  productName: string | null;
+  stockBefore: number;
+  stockAfter: number;
+  warning: StockChangeWarning | null;
+  locations?: Array<{ locationId: string; locationName?: string; before: number; after: number }>;
+}
+
+export interface PullPlanSummary {
+  catalogSize: number; // Productos con SKU en la tienda
+  changed: number;
+  increases: number;
+  decreases: number;
+  zeroed: number;
+  zeroedPercent: number; // zeroed / catalogSize, 0-100
+  largeChanges: number;
+  unitsBefore: number;
+  unitsAfter: number;
+}
+
+/**
+ * Política del tenant (tenants.settings.pullApproval)
+ * Con la política activa, un Pull que dejaría en cero más del N% del catálogo
+ * no se aplica hasta que alguien apruebe el plan
+ */
+export interface PullApprovalPolicy {
+  enabled: boolean;
+  maxZeroedPercent: number;
+}
+
+export const DEFAULT_PULL_APPROVAL_POLICY: PullApprovalPolicy = {
+  enabled: false,
+  maxZeroedPercent: 20,
+};
+
+/**
+ * Política de aprobación a partir de tenants.settings
+ */
+export function getPullApprovalPolicy(settings: unknown): PullApprovalPolicy {
+  const policy = (settings as { pullApproval?: Partial<PullApprovalPolicy> } | null)?.pullApproval;
+  return {
+    enabled: policy?.enabled === true,
+    maxZeroedPercent: typeof policy?.maxZeroedPercent === "number"
+      ? policy.maxZeroedPercent
+      : DEFAULT_PULL_APPROVAL_POLICY.maxZeroedPercent,
+  };
+}
+
+/**
+ * Valida la política enviada por el usuario
+ * @returns Mensaje de error o null si es válida
+ */
+export function validatePullApprovalPolicy(policy: any): string | null {
+  if (!policy || typeof policy !== "object") {
+    return "Política de aprobación inválida";
+  }
+  if (typeof policy.enabled !== "boolean") {
+    return "La política de aprobación debe indicar si está activa";
+  }
+  if (
+    typeof policy.maxZeroedPercent !== "number" ||
+    !Number.isFinite(policy.maxZeroedPercent) ||
+    policy.maxZeroedPercent < 0 ||
+    policy.maxZeroedPercent > 100
+  ) {
+    return "El porcentaje máximo de productos en cero debe estar entre 0 y 100";
+  }
+  return null;
+}
+
+/**
+ * Advertencia de un cambio de stock (null si es un cambio normal)
+ */
+export function classifyStockChange(before: number, after: number): StockChangeWarning | null {
+  if (after === 0 && before > 0) {
+    return "zeroed";
+  }
+  const delta = after - before;
+  if (Math.abs(delta) < LARGE_CHANGE_MIN_UNITS) {
+    return null;
+  }
+  if (before === 0 || Math.abs(delta) >= before * LARGE_CHANGE_RATIO) {
+    return delta < 0 ? "large_decrease" : "large_increase";
+  }
+  return null;
+}
+
+export function summarizePullPlan(changes: PlannedStockChange[], catalogSize: number): PullPlanSummary {
+  const zeroed = changes.filter((c) => c.warning === "zeroed").length;
+
+  return {
+    catalogSize,
+    changed: changes.length,
+    increases: changes.filter((c) => c.stockAfter > c.stockBefore).length,
+    decreases: changes.filter((c) => c.stockAfter < c.stockBefore).length,
+    zeroed,
+    zeroedPercent: catalogSize > 0 ? Math.round((zeroed / catalogSize) * 1000) / 10 : 0,
+    largeChanges: changes.filter((c) => c.warning !== null).length,
+    unitsBefore: changes.reduce((sum, c) => sum + c.stockBefore, 0),
+    unitsAfter: changes.reduce((sum, c) => sum + c.stockAfter, 0),
+  };
+}
+
+/**
+ * true si la política exige aprobar el plan antes de aplicarlo
+ */
+export function planRequiresApproval(summary: PullPlanSummary, policy: PullApprovalPolicy): boolean {
+  return policy.enabled && summary.zeroed > 0 && summary.zeroedPercent > policy.maxZeroedPercent;
+}
+
+export function isPullPlanExpired(plan: { expiresAt: string | Date }, now: number = Date.now()): boolean {
+  return new Date(plan.expiresAt).getTime() <= now;
+}
@@ -10,11 +10,14 @@ import {
   index,
   decimal,
   unique,
+  uniqueIndex,
   serial,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { API_KEY_SCOPES } from "./api-keys";
+import { TENANT_ROLES } from "./tenant-roles";
 
 // Session storage table
 export const sessions = pgTable(
@@ -24,7 +27,11 @@ export const sessions = pgTable(
     sess: jsonb("sess").notNull(),
     expire: timestamp("expire").notNull(),
   },
-  (table) => [index("IDX_session_expire").on(table.expire)],
+  (table) => [
+    index("IDX_session_expire").on(table.expire),
+    // Sessions of a user (passport stores the user id in sess.passport.user)
+    index("idx_sessions_user").on(sql`(${table.sess}->'passport'->>'user')`),
+  ],
 );
 
 // Tenants table
@@ -43,6 +50,7 @@ export const tenants = pgTable("tenants", {
   contificoEnvironment: varchar("contifico_environment", {
     length: 20,
   }).default("test"),
+  timezone: varchar("timezone", { length: 64 }).notNull().default("America/Guayaquil"), // IANA, para programaciones de sincronización
   expiresAt: timestamp("expires_at"), // Account expiration date
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -57,8 +65,14 @@ export const users = pgTable("users", {
   email: varchar("email", { length: 255 }).notNull().unique(),
   passwordHash: text("password_hash").notNull(),
   name: varchar("name", { length: 255 }).notNull(),
-  role: varchar("role", { length: 50 }).default("user"), // 'user' or 'admin'
+  role: varchar("role", { length: 50 }).default("user"), // 'user' or 'admin' (platform admin)
+  tenantRole: varchar("tenant_role", { length: 20 }).notNull().default("viewer"), // 'owner', 'manager', 'operator', 'viewer' (see shared/tenant-roles.ts)
   emailVerified: boolean("email_verified").notNull().default(false),
+  // Two-factor authentication (TOTP); null secret = not enabled
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  twoFactorRecoveryCodes: jsonb("two_factor_recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hex of unused codes
+  twoFactorLastStep: integer("two_factor_last_step"), // Last accepted TOTP time step (codes are single use)
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -110,7 +124,7 @@ export const storeProducts = pgTable(
     data: jsonb("data"),
     lastUpdated: timestamp("last_updated").defaultNow(),
     lastModifiedAt: timestamp("last_modified_at").defaultNow(),
-    lastModifiedBy: varchar("last_modified_by", { length: 20 }), // 'pull', 'push', 'manual'
+    lastModifiedBy: varchar("last_modified_by", { length: 20 }), // 'pull', 'push', 'manual', 'publish'
   },
   (table) => [
     index("idx_store_products_store_platform").on(
@@ -134,12 +148,14 @@ export const syncLogs = pgTable("sync_logs", {
     onDelete: "cascade",
   }),
   syncType: varchar("sync_type", { length: 50 }).notNull(),
+  syncMode: varchar("sync_mode", { length: 20 }), // Pull: "full" | "delta" (null = registros anteriores, completos)
   status: varchar("status", { length: 50 }).notNull(),
   syncedCount: integer("synced_count").default(0),
   errorCount: integer("error_count").default(0),
   durationMs: integer("duration_ms"),
   details: jsonb("details").default({}),
   errorMessage: text("error_message"),
+  checkpoint: jsonb("checkpoint"), // Pull en curso o interrumpido: PullCheckpoint (null = terminado)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -155,6 +171,8 @@ export const syncLogItems = pgTable("sync_log_items", {
   status: varchar("status", { length: 20 }).notNull(), // 'success', 'failed', 'skipped'
   stockBefore: integer("stock_before"),
   stockAfter: integer("stock_after"),
+  priceBefore: decimal("price_before", { precision: 12, scale: 2 }), // Solo con sincronización de precios
+  priceAfter: decimal("price_after", { precision: 12, scale: 2 }),
   errorCategory: varchar("error_category", { length: 50 }), // 'not_found_contifico', 'not_found_store', 'api_error', etc.
   errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -259,6 +277,7 @@ export const inventoryMovementsQueue = pgTable(
     sku: varchar("sku", { length: 255 }).notNull(),
     quantity: integer("quantity").notNull(),
     orderId: varchar("order_id", { length: 255 }), // Store order ID for reference
+    idempotencyKey: varchar("idempotency_key", { length: 255 }), // Per-event dedupe key (e.g. 'shopify-refund:123'); null = dedupe by order
     eventType: varchar("event_type", { length: 50 }).notNull(), // 'order_paid', 'order_cancelled', etc.
     status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed'
     attempts: integer("attempts").notNull().default(0),
@@ -276,6 +295,144 @@ export const inventoryMovementsQueue = pgTable(
     index("idx_inventory_movements_status").on(table.status),
     index("idx_inventory_movements_next_attempt").on(table.nextAttemptAt),
     index("idx_inventory_movements_created").on(table.createdAt),
+    index("idx_inventory_movements_idempotency").on(table.storeId, table.idempotencyKey),
+  ],
+);
+
+// Customers captured from store orders and synced to the ERP as persons (Contífico "persona")
+export const customers = pgTable(
+  "customers",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" })
+      .notNull(),
+    storeId: integer("store_id")
+      .references(() => stores.id, { onDelete: "cascade" })
+      .notNull(),
+    integrationId: integer("integration_id")
+      .references(() => integrations.id, { onDelete: "cascade" })
+      .notNull(),
+    customerKey: varchar("customer_key", { length: 255 }).notNull(), // 'customer:<store customer id>' or 'email:<email>'
+    name: varchar("name", { length: 255 }),
+    email: varchar("email", { length: 255 }),
+    phone: varchar("phone", { length: 50 }),
+    address: text("address"),
+    identification: varchar("identification", { length: 20 }), // Normalized cédula/RUC/passport
+    identificationType: varchar("identification_type", { length: 20 }), // 'cedula', 'ruc', 'pasaporte', 'consumidor_final'
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'synced', 'review', 'failed'
+    reviewReason: text("review_reason"), // Why the customer needs manual review (invalid ID, mismatch...)
+    reviewedAt: timestamp("reviewed_at"), // Set when a user approves the customer as-is
+    erpPersonId: varchar("erp_person_id", { length: 255 }),
+    lastOrderId: varchar("last_order_id", { length: 255 }),
+    errorMessage: text("error_message"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    syncedAt: timestamp("synced_at"),
+  },
+  (table) => [
+    index("idx_customers_tenant").on(table.tenantId),
+    index("idx_customers_status").on(table.status),
+    unique("uq_customers_store_key").on(table.storeId, table.customerKey),
+  ],
+);
+
+// Order invoices - sales documents generated in the ERP from paid orders
+export const orderInvoices = pgTable(
+  "order_invoices",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" })
+      .notNull(),
+    storeId: integer("store_id")
+      .references(() => stores.id, { onDelete: "cascade" })
+      .notNull(),
+    integrationId: integer("integration_id")
+      .references(() => integrations.id, { onDelete: "cascade" })
+      .notNull(),
+    orderId: varchar("order_id", { length: 255 }).notNull(), // Store order ID
+    orderNumber: varchar("order_number", { length: 100 }), // Visible order name, e.g. '#1001'
+    customerId: integer("customer_id")
+      .references(() => customers.id, { onDelete: "set null" }), // Billing identity; null = data from the order payload
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'processing', 'completed', 'failed'
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    lastAttemptAt: timestamp("last_attempt_at"),
+    nextAttemptAt: timestamp("next_attempt_at"),
+    errorMessage: text("error_message"),
+    documentId: varchar("document_id", { length: 255 }), // Document ID in the ERP
+    documentNumber: varchar("document_number", { length: 50 }), // e.g. '001-001-000000123' (reserved before sending, reused on retries)
+    authorizationStatus: varchar("authorization_status", { length: 20 }), // 'pending', 'authorized', 'rejected' (SRI)
+    authorizationNumber: varchar("authorization_number", { length: 100 }),
+    total: decimal("total", { precision: 12, scale: 2 }),
+    payload: jsonb("payload").default({}), // Normalized order: customer, lines, shipping, taxes
+    metadata: jsonb("metadata").default({}),
+    createdAt: timestamp("created_at").defaultNow(),
+    processedAt: timestamp("processed_at"),
+  },
+  (table) => [
+    index("idx_order_invoices_tenant").on(table.tenantId),
+    index("idx_order_invoices_status").on(table.status),
+    index("idx_order_invoices_next_attempt").on(table.nextAttemptAt),
+    unique("uq_order_invoices_store_order").on(table.storeId, table.orderId),
+  ],
+);
+
+// Stock reconciliations - point-in-time comparison of store stock vs ERP stock for every SKU
+export const stockReconciliations = pgTable(
+  "stock_reconciliations",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" })
+      .notNull(),
+    storeId: integer("store_id")
+      .references(() => stores.id, { onDelete: "cascade" })
+      .notNull(),
+    integrationId: integer("integration_id")
+      .references(() => integrations.id, { onDelete: "cascade" })
+      .notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("running"), // 'running', 'completed', 'failed'
+    warehouseId: varchar("warehouse_id", { length: 255 }), // ERP warehouse compared (null = global stock or mapped locations)
+    totalSkus: integer("total_skus").notNull().default(0),
+    matchedCount: integer("matched_count").notNull().default(0),
+    driftCount: integer("drift_count").notNull().default(0),
+    explainedCount: integer("explained_count").notNull().default(0), // Drift fully explained by pending movements
+    missingInErpCount: integer("missing_in_erp_count").notNull().default(0),
+    missingInStoreCount: integer("missing_in_store_count").notNull().default(0),
+    errorMessage: text("error_message"),
+    createdAt: timestamp("created_at").defaultNow(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("idx_stock_reconciliations_store").on(table.storeId, table.createdAt),
+  ],
+);
+
+// Stock reconciliation items - only SKUs that do not match (matches are counted in the header)
+export const stockReconciliationItems = pgTable(
+  "stock_reconciliation_items",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    reconciliationId: integer("reconciliation_id")
+      .references(() => stockReconciliations.id, { onDelete: "cascade" })
+      .notNull(),
+    sku: varchar("sku", { length: 255 }).notNull(),
+    productId: varchar("product_id", { length: 255 }), // ID in the store (null = missing in store)
+    productName: varchar("product_name", { length: 500 }),
+    status: varchar("status", { length: 20 }).notNull(), // 'drift', 'explained', 'missing_in_erp', 'missing_in_store'
+    storeStock: integer("store_stock"),
+    cachedStock: integer("cached_stock"), // store_products.stock_quantity at the time of the run
+    erpStock: integer("erp_stock"),
+    drift: integer("drift"), // storeStock - erpStock
+    pendingDelta: integer("pending_delta").notNull().default(0), // Net effect on ERP stock of pending movements
+    resolution: varchar("resolution", { length: 20 }), // 'pull', 'adjustment'
+    resolutionMessage: text("resolution_message"),
+    resolvedAt: timestamp("resolved_at"),
+  },
+  (table) => [
+    index("idx_stock_reconciliation_items_run").on(table.reconciliationId),
   ],
 );
 
@@ -360,7 +517,7 @@ export const webhooks = pgTable(
       .references(() => stores.id, { onDelete: "cascade" })
       .notNull(),
     platform: varchar("platform", { length: 20 }).notNull(), // 'shopify', 'woocommerce'
-    platformWebhookId: varchar("platform_webhook_id", { length: 255 }).notNull(), // ID from the platform
+    platformWebhookId: varchar("platform_webhook_id", { length: 255 }).notNull(), // ID from the platform (WooCommerce IDs are per site)
     topic: varchar("topic", { length: 100 }).notNull(), // 'orders/paid', 'orders/cancelled', etc.
     address: text("address").notNull(), // Webhook URL
     status: varchar("status", { length: 20 }).notNull().default("active"), // 'active', 'deleted', 'failed'
@@ -373,7 +530,158 @@ export const webhooks = pgTable(
     index("idx_webhooks_store").on(table.storeId),
     index("idx_webhooks_platform_id").on(table.platformWebhookId),
     index("idx_webhooks_status").on(table.status),
-    unique("uq_webhooks_platform_id").on(table.platform, table.platformWebhookId),
+    unique("uq_webhooks_store_platform_id").on(table.storeId, table.platform, table.platformWebhookId),
+  ],
+);
+
+// Tenant API keys - header-based authentication for the public REST API
+// Only the SHA-256 hash of the key is stored; the plain key is shown once on creation
+export const tenantApiKeys = pgTable(
+  "tenant_api_keys",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" })
+      .notNull(),
+    createdByUserId: integer("created_by_user_id")
+      .references(() => users.id, { onDelete: "set null" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    keyPrefix: varchar("key_prefix", { length: 20 }).notNull(), // Visible part, e.g. 'g4_ab12cd34'
+    keyHash: varchar("key_hash", { length: 64 }).notNull(), // SHA-256 hex of the full key
+    scopes: jsonb("scopes").$type<string[]>().notNull().default([]), // 'stores:read', 'sync:write', etc.
+    lastUsedAt: timestamp("last_used_at"),
+    lastUsedIp: varchar("last_used_ip", { length: 64 }),
+    expiresAt: timestamp("expires_at"), // null = never expires
+    revokedAt: timestamp("revoked_at"), // Soft revoke
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_tenant_api_keys_tenant").on(table.tenantId),
+    unique("uq_tenant_api_keys_hash").on(table.keyHash),
+  ],
+);
+
+// Background jobs - Postgres-backed queue (pulls, pushes, webhook registration, exports)
+// Workers claim jobs with FOR UPDATE SKIP LOCKED; a running job whose locked_until passes is retried
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" }), // null = system job (no per-tenant cap)
+    storeId: integer("store_id")
+      .references(() => stores.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 50 }).notNull(), // 'pull', 'push', 'invoices', 'webhook_registration', 'export', 'scheduler_tick'
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'running', 'completed', 'dead', 'cancelled'
+    priority: integer("priority").notNull().default(0), // Higher runs first
+    payload: jsonb("payload").default({}),
+    result: jsonb("result"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    runAt: timestamp("run_at").notNull().defaultNow(), // Not claimed before this time (delays, retry backoff)
+    lockedBy: varchar("locked_by", { length: 100 }), // Worker holding the job
+    lockedUntil: timestamp("locked_until"), // Visibility timeout, extended by the worker heartbeat
+    lastError: text("last_error"),
+    cancelRequestedAt: timestamp("cancel_requested_at"), // Cancel asked while running: the handler stops at its next checkpoint
+    dedupeKey: varchar("dedupe_key", { length: 255 }), // At most one pending/running job per key
+    createdAt: timestamp("created_at").defaultNow(),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("idx_jobs_claim").on(table.status, table.runAt),
+    index("idx_jobs_tenant_status").on(table.tenantId, table.status),
+    index("idx_jobs_created").on(table.createdAt),
+    uniqueIndex("uq_jobs_dedupe_active")
+      .on(table.dedupeKey)
+      .where(sql`${table.status} IN ('pending', 'running')`),
+  ],
+);
+
+// Pull previews (plans): the stock changes a pull would make, reviewed and then applied as-is
+// A plan over the tenant's zero-out policy (tenants.settings.pullApproval) waits for approval
+export const pullPlans = pgTable(
+  "pull_plans",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" })
+      .notNull(),
+    storeId: integer("store_id")
+      .references(() => stores.id, { onDelete: "cascade" })
+      .notNull(),
+    integrationId: integer("integration_id")
+      .references(() => integrations.id, { onDelete: "cascade" })
+      .notNull(),
+    status: varchar("status", { length: 20 }).notNull(), // 'pending_approval', 'ready', 'applying', 'applied', 'failed', 'cancelled', 'discarded'
+    trigger: varchar("trigger", { length: 20 }).notNull().default("manual"), // 'manual' (preview) or 'schedule' (pull stopped by the policy)
+    changes: jsonb("changes").notNull().default([]), // PlannedStockChange[]
+    summary: jsonb("summary").notNull(), // PullPlanSummary
+    requiresApproval: boolean("requires_approval").notNull().default(false),
+    previewJobId: integer("preview_job_id"),
+    applyJobId: integer("apply_job_id"),
+    syncLogId: integer("sync_log_id"), // Log of the apply run
+    createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+    approvedBy: integer("approved_by").references(() => users.id, { onDelete: "set null" }),
+    approvedAt: timestamp("approved_at"),
+    appliedAt: timestamp("applied_at"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_pull_plans_tenant_created").on(table.tenantId, table.createdAt),
+    index("idx_pull_plans_store_status").on(table.storeId, table.status),
+  ],
+);
+
+// Stock previous to each write of a pull run (rollback snapshot)
+export const pullStockSnapshots = pgTable(
+  "pull_stock_snapshots",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    syncLogId: integer("sync_log_id")
+      .references(() => syncLogs.id, { onDelete: "cascade" })
+      .notNull(),
+    storeId: integer("store_id")
+      .references(() => stores.id, { onDelete: "cascade" })
+      .notNull(),
+    sku: varchar("sku", { length: 255 }).notNull(),
+    productId: varchar("product_id", { length: 255 }).notNull(), // variant_id in the store
+    productName: varchar("product_name", { length: 500 }),
+    stockBefore: integer("stock_before").notNull(),
+    stockAfter: integer("stock_after").notNull(),
+    locations: jsonb("locations"), // Multi-location: [{ locationId, locationName, before, after }]
+    restoredAt: timestamp("restored_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_pull_stock_snapshots_sync_log").on(table.syncLogId),
+  ],
+);
+
+// Pending invitations to join a tenant; the emailed token is only stored hashed
+export const tenantInvitations = pgTable(
+  "tenant_invitations",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    tenantId: integer("tenant_id")
+      .references(() => tenants.id, { onDelete: "cascade" })
+      .notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    role: varchar("role", { length: 20 }).notNull(), // Tenant role granted on acceptance
+    tokenHash: varchar("token_hash", { length: 64 }).notNull(), // SHA-256 hex of the token
+    invitedByUserId: integer("invited_by_user_id")
+      .references(() => users.id, { onDelete: "set null" }),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    acceptedByUserId: integer("accepted_by_user_id")
+      .references(() => users.id, { onDelete: "set null" }),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_tenant_invitations_tenant").on(table.tenantId),
+    unique("uq_tenant_invitations_token_hash").on(table.tokenHash),
   ],
 );
 
@@ -385,6 +693,8 @@ export const tenantsRelations = relations(tenants, ({ many }) => ({
   integrations: many(integrations),
   notifications: many(notifications),
   webhooks: many(webhooks),
+  apiKeys: many(tenantApiKeys),
+  invitations: many(tenantInvitations),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -506,6 +816,64 @@ export const inventoryMovementsQueueRelations = relations(
   }),
 );
 
+export const customersRelations = relations(customers, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [customers.tenantId],
+    references: [tenants.id],
+  }),
+  store: one(stores, {
+    fields: [customers.storeId],
+    references: [stores.id],
+  }),
+  integration: one(integrations, {
+    fields: [customers.integrationId],
+    references: [integrations.id],
+  }),
+  invoices: many(orderInvoices),
+}));
+
+export const orderInvoicesRelations = relations(orderInvoices, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [orderInvoices.tenantId],
+    references: [tenants.id],
+  }),
+  store: one(stores, {
+    fields: [orderInvoices.storeId],
+    references: [stores.id],
+  }),
+  integration: one(integrations, {
+    fields: [orderInvoices.integrationId],
+    references: [integrations.id],
+  }),
+  customer: one(customers, {
+    fields: [orderInvoices.customerId],
+    references: [customers.id],
+  }),
+}));
+
+export const stockReconciliationsRelations = relations(stockReconciliations, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [stockReconciliations.tenantId],
+    references: [tenants.id],
+  }),
+  store: one(stores, {
+    fields: [stockReconciliations.storeId],
+    references: [stores.id],
+  }),
+  integration: one(integrations, {
+    fields: [stockReconciliations.integrationId],
+    references: [integrations.id],
+  }),
+  items: many(stockReconciliationItems),
+}));
+
+export const stockReconciliationItemsRelations = relations(stockReconciliationItems, ({ one }) => ({
+  reconciliation: one(stockReconciliations, {
+    fields: [stockReconciliationItems.reconciliationId],
+    references: [stockReconciliations.id],
+  }),
+}));
+
 export const unmappedSkusRelations = relations(unmappedSkus, ({ one }) => ({
   tenant: one(tenants, {
     fields: [unmappedSkus.tenantId],
@@ -535,6 +903,17 @@ export const adminActionsRelations = relations(adminActions, ({ one }) => ({
   }),
 }));
 
+export const tenantApiKeysRelations = relations(tenantApiKeys, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [tenantApiKeys.tenantId],
+    references: [tenants.id],
+  }),
+  createdBy: one(users, {
+    fields: [tenantApiKeys.createdByUserId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertTenantSchema = createInsertSchema(tenants, {
   createdAt: () => z.date().optional(),
@@ -836,6 +1215,15 @@ export const insertInventoryMovementSchema = createInsertSchema(
   createdAt: true,
 });
 
+export const insertOrderInvoiceSchema = createInsertSchema(orderInvoices, {
+  createdAt: () => z.date().optional(),
+  lastAttemptAt: () => z.date().optional(),
+  nextAttemptAt: () => z.date().optional(),
+  processedAt: () => z.date().optional(),
+}).omit({
+  createdAt: true,
+});
+
 export const insertUnmappedSkuSchema = createInsertSchema(unmappedSkus, {
   createdAt: () => z.date().optional(),
   lastSeenAt: () => z.date().optional(),
@@ -862,6 +1250,24 @@ export const insertWebhookSchema = createInsertSchema(webhooks, {
   createdAt: true,
 });
 
+// Schema for creating an API key (name + scopes chosen by the user)
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido").max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Selecciona al menos un permiso"),
+  expiresAt: z.coerce.date().optional().nullable()
+    .refine((date) => !date || date > new Date(), "La fecha de expiración debe ser futura"),
+});
+
+export const createTenantInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Correo electrónico inválido").max(255),
+  role: z.enum(TENANT_ROLES),
+});
+
+export const acceptTenantInvitationSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido").max(255),
+  password: z.string().min(8, "La contraseña debe tener al menos 8 caracteres"),
+});
+
 // Types
 export type InsertTenant = typeof tenants.$inferInsert;
 export type InsertUser = typeof users.$inferInsert;
@@ -871,10 +1277,19 @@ export type InsertIntegration = typeof integrations.$inferInsert;
 export type InsertStoreIntegration = typeof storeIntegrations.$inferInsert;
 export type InsertNotification = typeof notifications.$inferInsert;
 export type InsertInventoryMovement = typeof inventoryMovementsQueue.$inferInsert;
+export type InsertCustomer = typeof customers.$inferInsert;
+export type InsertOrderInvoice = typeof orderInvoices.$inferInsert;
+export type InsertStockReconciliation = typeof stockReconciliations.$inferInsert;
+export type InsertStockReconciliationItem = typeof stockReconciliationItems.$inferInsert;
 export type InsertUnmappedSku = typeof unmappedSkus.$inferInsert;
 export type InsertSyncLock = typeof syncLocks.$inferInsert;
 export type InsertAdminAction = typeof adminActions.$inferInsert;
 export type InsertWebhook = typeof webhooks.$inferInsert;
+export type InsertTenantApiKey = typeof tenantApiKeys.$inferInsert;
+export type InsertJob = typeof jobs.$inferInsert;
+export type InsertPullPlan = typeof pullPlans.$inferInsert;
+export type InsertPullStockSnapshot = typeof pullStockSnapshots.$inferInsert;
+export type InsertTenantInvitation = typeof tenantInvitations.$inferInsert;
 
 export type Tenant = typeof tenants.$inferSelect;
 export type User = typeof users.$inferSelect;
@@ -885,7 +1300,16 @@ export type Integration = typeof integrations.$inferSelect;
 export type StoreIntegration = typeof storeIntegrations.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type InventoryMovement = typeof inventoryMovementsQueue.$inferSelect;
+export type Customer = typeof customers.$inferSelect;
+export type OrderInvoice = typeof orderInvoices.$inferSelect;
+export type StockReconciliation = typeof stockReconciliations.$inferSelect;
+export type StockReconciliationItem = typeof stockReconciliationItems.$inferSelect;
 export type UnmappedSku = typeof unmappedSkus.$inferSelect;
 export type SyncLock = typeof syncLocks.$inferSelect;
 export type AdminAction = typeof adminActions.$inferSelect;
 export type Webhook = typeof webhooks.$inferSelect;
+export type TenantApiKey = typeof tenantApiKeys.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type PullPlan = typeof pullPlans.$inferSelect;
+export type PullStockSnapshot = typeof pullStockSnapshots.$inferSelect;
+export type TenantInvitation = typeof tenantInvitations.$inferSelect;
@@ -0,0 +1,85 @@
+import type { Integration, Store, Tenant } from "./schema";
+
+/**
+ * Enmascarado de credenciales en las respuestas de la API
+ * Un campo es secreto si su nombre termina en key, keys, secret, token o password
+ * (consumer_key, access_token, api_secret, webhook_secret, api_keys.test...); todo lo que cuelga
+ * de un campo secreto también lo es. El resto (shop_domain, api_url, env...) se devuelve tal cual.
+ * Compartido entre backend (serializar y recibir formularios) y frontend
+ */
+export const SECRET_MASK = "••••••••";
+
+const SECRET_FIELD_PATTERN = /(key|keys|secret|token|password)$/i;
+
+// Los secretos cortos se ocultan completos; de los largos se muestran los últimos 4 caracteres
+const MIN_LENGTH_TO_SHOW_SUFFIX = 12;
+
+export function isSecretField(name: string): boolean {
+  return SECRET_FIELD_PATTERN.test(name);
+}
+
+export function maskSecret(value: string): string {
+  return value.length >= MIN_LENGTH_TO_SHOW_SUFFIX ? `${SECRET_MASK}${value.slice(-4)}` : SECRET_MASK;
+}
+
+/**
+ * true si el valor es un secreto enmascarado que el cliente devolvió sin cambios
+ */
+export function isMaskedSecret(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith(SECRET_MASK);
+}
+
+/**
+ * Copia del objeto con los valores de los campos secretos enmascarados
+ */
+export function maskSecrets<T>(value: T, insideSecret: boolean = false): T {
+  if (typeof value === "string") {
+    return (insideSecret && value !== "" ? maskSecret(value) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => maskSecrets(item, insideSecret)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, maskSecrets(item, insideSecret || isSecretField(key))]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Reemplaza los secretos enmascarados recibidos por el valor guardado (el formulario no los cambió)
+ */
+export function restoreMaskedSecrets<T>(incoming: T, existing: unknown): T {
+  if (isMaskedSecret(incoming)) {
+    return (typeof existing === "string" ? existing : incoming) as T;
+  }
+  if (incoming && typeof incoming === "object" && !Array.isArray(incoming)) {
+    const current = existing && typeof existing === "object" ? (existing as Record<string, unknown>) : {};
+    return Object.fromEntries(
+      Object.entries(incoming).map(([key, item]) => [key, restoreMaskedSecrets(item, current[key])]),
+    ) as T;
+  }
+  return incoming;
+}
+
+export function toPublicStore(store: Store) {
+  return { ...store, apiCredentials: maskSecrets(store.apiCredentials) };
+}
+
+export function toPublicIntegration(integration: Integration) {
+  return { ...integration, settings: maskSecrets(integration.settings) };
+}
+
+/**
+ * Las claves del tenant se ocultan completas: algunas rutas de administración leen la fila
+ * sin descifrar y el sufijo sería del texto cifrado
+ */
+export function toPublicTenant(tenant: Tenant) {
+  return {
+    ...tenant,
+    apiKey: SECRET_MASK,
+    contificoTestApiKey: tenant.contificoTestApiKey ? SECRET_MASK : null,
+    contificoProdApiKey: tenant.contificoProdApiKey ? SECRET_MASK : null,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Protección contra el vaciado masivo de stock en el Pull
+ * - Stock desconocido (error o respuesta inválida del ERP) no es stock cero: nunca se escribe
+ * - Si la proporción de SKUs que quedarían en cero supera el umbral, el Pull se aborta
+ * Se guarda en syncConfig.pull.zeroGuard de la vinculación tienda-integración
+ * Compartido entre backend (SyncService) y frontend (configuración)
+ */
+export interface ZeroGuardConfig {
+  enabled: boolean;
+  maxZeroedPercent: number; // Proporción máxima de SKUs evaluados que pueden quedar en cero
+}
+
+export const DEFAULT_ZERO_GUARD_CONFIG: ZeroGuardConfig = {
+  enabled: true,
+  maxZeroedPercent: 30,
+};
+
+// Unos pocos productos agotados nunca disparan la protección (catálogos pequeños)
+export const ZERO_GUARD_MIN_ZEROED = 5;
+
+// La proporción se calcula sobre al menos esta cantidad de productos: los primeros evaluados no deciden solos
+export const ZERO_GUARD_MIN_SAMPLE = 50;
+
+export const ZERO_GUARD_PERCENT_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 10, label: "Más del 10% del catálogo" },
+  { value: 20, label: "Más del 20% del catálogo" },
+  { value: 30, label: "Más del 30% del catálogo" },
+  { value: 50, label: "Más del 50% del catálogo" },
+];
+
+/**
+ * Normaliza la configuración guardada en syncConfig (activa por defecto)
+ */
+export function getZeroGuardConfig(syncConfig: any): ZeroGuardConfig {
+  const guard = syncConfig?.pull?.zeroGuard || {};
+  const maxZeroedPercent = Number(guard.maxZeroedPercent);
+
+  return {
+    enabled: guard.enabled !== false,
+    maxZeroedPercent: Number.isFinite(maxZeroedPercent) && maxZeroedPercent > 0 && maxZeroedPercent <= 100
+      ? maxZeroedPercent
+      : DEFAULT_ZERO_GUARD_CONFIG.maxZeroedPercent,
+  };
+}
+
+/**
+ * Cantidad de stock reportada por el ERP, o null si es desconocida (vacía o no numérica)
+ */
+export function parseStockValue(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const stock = Number(value);
+  return Number.isFinite(stock) ? Math.floor(stock) : null;
+}
+
+/**
+ * true si llevar estos SKUs a cero supera el umbral
+ * @param zeroed - SKUs con stock que quedarían en cero
+ * @param evaluated - SKUs con stock conocido evaluados hasta ahora
+ * @param catalogSize - Productos con SKU en la tienda (limita la muestra mínima en catálogos pequeños)
+ */
+export function exceedsZeroGuard(
+  zeroed: number,
+  evaluated: number,
+  catalogSize: number,
+  config: ZeroGuardConfig,
+): boolean {
+  if (!config.enabled || zeroed <= ZERO_GUARD_MIN_ZEROED) {
+    return false;
+  }
+  const sample = Math.max(evaluated, Math.min(ZERO_GUARD_MIN_SAMPLE, catalogSize));
+  return (zeroed / sample) * 100 > config.maxZeroedPercent;
+}
@@ -0,0 +1,229 @@
+/**
+ * Progreso en tiempo real de las sincronizaciones (Server-Sent Events)
+ * Cada ejecución (Pull, Pull selectivo) publica eventos bajo un runId (el id de su trabajo);
+ * el procesamiento de Push publica el resultado de cada movimiento
+ * Compartido entre backend (SyncEvents) y frontend (diálogo de progreso, movimientos, notificaciones)
+ */
+export type SyncRunKind = "pull" | "pull_selective" | "push";
+
+export type SyncRunStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface SyncItemOutcome {
+  sku: string;
+  status: "success" | "failed" | "skipped";
+  error?: string | null;
+}
+
+export interface SyncRunCounts {
+  success: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface SyncRunSummary extends SyncRunCounts {
+  errors?: Array<{ sku: string; error: string }>;
+  quotaTruncated?: number;
+  mode?: string;
+  syncLogId?: number; // Log de la ejecución (para reanudarla si se canceló)
+  planId?: number; // Vista previa, o Pull detenido por la política de aprobación
+  requiresApproval?: boolean;
+}
+
+export type SyncEvent =
+  | { type: "started"; runId: string; kind: SyncRunKind; storeId: number; total: number; mode?: string }
+  | {
+      type: "progress";
+      runId: string;
+      storeId: number;
+      batch: number;
+      totalBatches: number;
+      processed: number;
+      total: number;
+      etaMs: number | null;
+      counts: SyncRunCounts;
+      items: SyncItemOutcome[];
+    }
+  | { type: "completed"; runId: string; kind: SyncRunKind; storeId: number; summary: SyncRunSummary }
+  | { type: "failed"; runId: string; kind: SyncRunKind; storeId: number; error: string }
+  | { type: "cancelled"; runId: string; kind: SyncRunKind; storeId: number; summary: SyncRunSummary }
+  | { type: "movement"; storeId: number; movementId: number; sku: string; status: string; error?: string | null }
+  | { type: "notification"; storeId: number | null; notificationId: number; title: string; severity: string };
+
+/**
+ * Evento tal como viaja por el stream: con tenant y fecha
+ */
+export type SyncEventEnvelope = SyncEvent & { tenantId: number; at: string };
+
+// Últimos SKUs que se conservan en el estado de una ejecución
+const RECENT_ITEMS_LIMIT = 50;
+
+/**
+ * Estado acumulado de una ejecución (lo que muestra el diálogo de progreso)
+ */
+export interface SyncRunSnapshot {
+  runId: string;
+  tenantId: number;
+  storeId: number;
+  kind: SyncRunKind;
+  status: SyncRunStatus;
+  mode?: string;
+  batch: number;
+  totalBatches: number;
+  processed: number;
+  total: number;
+  etaMs: number | null;
+  counts: SyncRunCounts;
+  recentItems: SyncItemOutcome[]; // Los más recientes primero
+  summary: SyncRunSummary | null;
+  error: string | null;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * true si el evento pertenece a una ejecución (tiene runId)
+ */
+export function isRunEvent(
+  event: SyncEvent,
+): event is Extract<SyncEvent, { runId: string }> {
+  return "runId" in event;
+}
+
+/**
+ * Aplica un evento al estado de su ejecución
+ * Los eventos de otras ejecuciones o sin runId devuelven el estado sin cambios
+ */
+export function applySyncEvent(
+  snapshot: SyncRunSnapshot | null,
+  event: SyncEventEnvelope,
+): SyncRunSnapshot | null {
+  if (!isRunEvent(event) || (snapshot && snapshot.runId !== event.runId)) {
+    return snapshot;
+  }
+
+  const base: SyncRunSnapshot = snapshot ?? {
+    runId: event.runId,
+    tenantId: event.tenantId,
+    storeId: event.storeId,
+    kind: "kind" in event ? event.kind : "pull",
+    status: "running",
+    batch: 0,
+    totalBatches: 0,
+    processed: 0,
+    total: 0,
+    etaMs: null,
+    counts: { success: 0, failed: 0, skipped: 0 },
+    recentItems: [],
+    summary: null,
+    error: null,
+    startedAt: event.at,
+    updatedAt: event.at,
+  };
+
+  switch (event.type) {
+    case "started":
+      // Un reintento empieza de cero
+      return {
+        ...base,
+        kind: event.kind,
+        status: "running",
+        mode: event.mode,
+        batch: 0,
+        totalBatches: 0,
+        processed: 0,
+        total: event.total,
+        etaMs: null,
+        counts: { success: 0, failed: 0, skipped: 0 },
+        recentItems: [],
+        summary: null,
+        error: null,
+        startedAt: event.at,
+        updatedAt: event.at,
+      };
+    case "progress":
+      return {
+        ...base,
+        batch: event.batch,
+        totalBatches: event.totalBatches,
+        processed: event.processed,
+        total: event.total,
+        etaMs: event.etaMs,
+        counts: event.counts,
+        recentItems: [...event.items].reverse().concat(base.recentItems).slice(0, RECENT_ITEMS_LIMIT),
+        updatedAt: event.at,
+      };
+    case "completed":
+      return {
+        ...base,
+        kind: event.kind,
+        status: "completed",
+        processed: Math.max(base.processed, base.total),
+        etaMs: 0,
+        counts: { success: event.summary.success, failed: event.summary.failed, skipped: event.summary.skipped },
+        summary: event.summary,
+        updatedAt: event.at,
+      };
+    case "failed":
+      return {
+        ...base,
+        kind: event.kind,
+        status: "failed",
+        etaMs: null,
+        error: event.error,
+        updatedAt: event.at,
+      };
+    case "cancelled":
+      return {
+        ...base,
+        kind: event.kind,
+        status: "cancelled",
+        etaMs: null,
+        summary: event.summary,
+        updatedAt: event.at,
+      };
+  }
+}
+
+/**
+ * Tiempo restante estimado a partir del ritmo medio hasta ahora
+ */
+export function estimateRemainingMs(elapsedMs: number, processed: number, total: number): number | null {
+  if (processed <= 0 || total <= 0) {
+    return null;
+  }
+  return Math.max(0, Math.round((elapsedMs / processed) * (total - processed)));
+}
+
+/**
+ * Punto de control de un Pull (sync_logs.checkpoint), actualizado al terminar cada lote
+ * Los SKUs ya procesados son los sync_log_items del log: al reanudar se omiten
+ */
+export interface PullCheckpoint {
+  runId: string | null; // Trabajo que ejecuta el Pull (un reintento del mismo trabajo lo reanuda)
+  integrationId: number;
+  completedBatches: number;
+  processedCount: number;
+  total: number;
+  updatedAt: string;
+}
+
+// Un Pull "en curso" sin avances durante este tiempo se considera interrumpido (proceso caído)
+export const STALE_RUN_MS = 10 * 60 * 1000;
+
+/**
+ * true si el log es de un Pull cancelado, fallido o interrumpido que se puede reanudar
+ * (el servidor además verifica que no haya otro Pull en curso para la tienda)
+ */
+export function isResumablePull(
+  log: { syncType: string; status: string; checkpoint?: unknown },
+  now: number = Date.now(),
+): boolean {
+  const checkpoint = log.checkpoint as PullCheckpoint | null | undefined;
+  if (log.syncType !== "pull" || !checkpoint) {
+    return false;
+  }
+  if (log.status === "cancelled" || log.status === "error") {
+    return true;
+  }
+  return log.status === "running" && now - new Date(checkpoint.updatedAt).getTime() > STALE_RUN_MS;
+}
@@ -0,0 +1,159 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { cronMatches, cronMatchesBetween, getScheduleConfig, getZonedParts, isScheduleOpen, parseCron } from "./sync-schedules";
+
+const UTC = "UTC";
+
+function matchesAt(expression: string, iso: string, timezone: string = UTC): boolean {
+  return cronMatches(parseCron(expression), getZonedParts(new Date(iso), timezone));
+}
+
+describe("parseCron", () => {
+  it("expande listas, rangos y pasos", () => {
+    const fields = parseCron("*/15 8-10 1,15 * 1-5");
+    assert.deepEqual([...fields.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...fields.hours], [8, 9, 10]);
+    assert.deepEqual([...fields.daysOfMonth], [1, 15]);
+    assert.deepEqual([...fields.daysOfWeek], [1, 2, 3, 4, 5]);
+  });
+
+  it("acepta pasos desde un valor inicial", () => {
+    assert.deepEqual([...parseCron("5/20 * * * *").minutes], [5, 25, 45]);
+  });
+
+  it("trata el 7 como domingo", () => {
+    assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+  });
+
+  it("considera sin restricción los campos de día que empiezan con *", () => {
+    const stepped = parseCron("0 2 */2 * 1");
+    assert.equal(stepped.anyDayOfMonth, true);
+    assert.equal(stepped.anyDayOfWeek, false);
+
+    const restricted = parseCron("0 2 1 * 1");
+    assert.equal(restricted.anyDayOfMonth, false);
+  });
+
+  it("rechaza expresiones inválidas", () => {
+    assert.throws(() => parseCron("0 2 * *"), /5 campos/);
+    assert.throws(() => parseCron("60 * * * *"), /fuera de rango/);
+    assert.throws(() => parseCron("*/0 * * * *"), /Paso inválido/);
+    assert.throws(() => parseCron("0 5-2 * * *"), /fuera de rango/);
+  });
+});
+
+describe("cronMatches", () => {
+  it("con día del mes y día de la semana restringidos basta con uno", () => {
+    // 2026-06-01 es lunes, 2026-06-02 martes, 2026-06-08 lunes
+    assert.equal(matchesAt("0 2 1 * 1", "2026-06-01T02:00:00Z"), true);
+    assert.equal(matchesAt("0 2 2 * 1", "2026-06-02T02:00:00Z"), true);
+    assert.equal(matchesAt("0 2 2 * 1", "2026-06-08T02:00:00Z"), true);
+    assert.equal(matchesAt("0 2 2 * 1", "2026-06-03T02:00:00Z"), false);
+  });
+
+  it("un día del mes con paso no amplía el día de la semana", () => {
+    // Como cron: "0 2 */2 * 1" exige ambos (días impares que caen en lunes), no uno u otro
+    assert.equal(matchesAt("0 2 */2 * 1", "2026-06-01T02:00:00Z"), true);
+    assert.equal(matchesAt("0 2 */2 * 1", "2026-06-08T02:00:00Z"), false);
+    assert.equal(matchesAt("0 2 */2 * 1", "2026-06-03T02:00:00Z"), false);
+  });
+
+  it("un día de la semana con paso no amplía el día del mes", () => {
+    // "*/2" en día de la semana = domingo, martes, jueves y sábado; 2026-06-16 es martes
+    assert.equal(matchesAt("0 2 16 * */2", "2026-06-16T02:00:00Z"), true);
+    assert.equal(matchesAt("0 2 16 * */2", "2026-06-18T02:00:00Z"), false);
+    assert.equal(matchesAt("0 2 15 * */2", "2026-06-15T02:00:00Z"), false);
+  });
+
+  it("evalúa la hora en la zona horaria indicada", () => {
+    assert.equal(matchesAt("0 2 * * *", "2026-06-01T07:00:00Z", "America/Guayaquil"), true);
+    assert.equal(matchesAt("0 2 * * *", "2026-06-01T02:00:00Z", "America/Guayaquil"), false);
+  });
+});
+
+describe("cronMatchesBetween", () => {
+  const daily = parseCron("0 2 * * *");
+
+  it("incluye el final de la ventana y excluye el inicio", () => {
+    const at = new Date("2026-06-01T02:00:00Z");
+    assert.equal(cronMatchesBetween(daily, new Date("2026-06-01T01:59:00Z"), at, UTC), true);
+    assert.equal(cronMatchesBetween(daily, at, new Date("2026-06-01T02:01:00Z"), UTC), false);
+  });
+
+  it("no pierde ejecuciones si el ciclo se retrasa", () => {
+    assert.equal(
+      cronMatchesBetween(daily, new Date("2026-06-01T01:55:00Z"), new Date("2026-06-01T02:10:00Z"), UTC),
+      true,
+    );
+  });
+
+  it("ignora los segundos de los extremos de la ventana", () => {
+    assert.equal(
+      cronMatchesBetween(daily, new Date("2026-06-01T01:59:30Z"), new Date("2026-06-01T02:00:30Z"), UTC),
+      true,
+    );
+    assert.equal(
+      cronMatchesBetween(daily, new Date("2026-06-01T02:00:30Z"), new Date("2026-06-01T02:01:30Z"), UTC),
+      false,
+    );
+  });
+
+  it("una hora que no existe por el cambio de horario no se ejecuta", () => {
+    // 2026-03-08: en Nueva York las 02:00 pasan a 03:00
+    const missing = parseCron("30 2 * * *");
+    assert.equal(
+      cronMatchesBetween(missing, new Date("2026-03-08T06:00:00Z"), new Date("2026-03-08T08:00:00Z"), "America/New_York"),
+      false,
+    );
+    const after = parseCron("0 3 * * *");
+    assert.equal(
+      cronMatchesBetween(after, new Date("2026-03-08T06:59:00Z"), new Date("2026-03-08T07:00:00Z"), "America/New_York"),
+      true,
+    );
+  });
+
+  it("una hora repetida por el cambio de horario coincide en ambas ocurrencias", () => {
+    // 2026-11-01: en Nueva York la 01:30 ocurre a las 05:30Z y a las 06:30Z
+    const repeated = parseCron("30 1 * * *");
+    assert.equal(
+      cronMatchesBetween(repeated, new Date("2026-11-01T05:29:00Z"), new Date("2026-11-01T05:30:00Z"), "America/New_York"),
+      true,
+    );
+    assert.equal(
+      cronMatchesBetween(repeated, new Date("2026-11-01T06:29:00Z"), new Date("2026-11-01T06:30:00Z"), "America/New_York"),
+      true,
+    );
+  });
+
+  it("evalúa fechas bloqueadas y horario activo en cada minuto que coincide", () => {
+    const config = getScheduleConfig({
+      schedule: {
+        schedules: [{ cron: "0 * * * *" }],
+        blackoutDates: ["2026-06-02"],
+        activeHours: { start: "22:00", end: "23:59" },
+      },
+    });
+    const isAllowed = (parts: ReturnType<typeof getZonedParts>) => isScheduleOpen(config, parts);
+    const hourly = parseCron("0 * * * *");
+
+    // Ciclo retrasado que cruza la medianoche hacia una fecha bloqueada: 23:00 del día 1 sí cuenta
+    assert.equal(
+      cronMatchesBetween(hourly, new Date("2026-06-01T22:30:00Z"), new Date("2026-06-02T00:30:00Z"), UTC, isAllowed),
+      true,
+    );
+    // Solo la 00:00 del día bloqueado
+    assert.equal(
+      cronMatchesBetween(hourly, new Date("2026-06-01T23:30:00Z"), new Date("2026-06-02T00:30:00Z"), UTC, isAllowed),
+      false,
+    );
+    // 21:00 queda fuera del horario activo aunque el ciclo termine dentro de él
+    assert.equal(
+      cronMatchesBetween(hourly, new Date("2026-06-03T20:30:00Z"), new Date("2026-06-03T22:15:00Z"), UTC, isAllowed),
+      true,
+    );
+    assert.equal(
+      cronMatchesBetween(hourly, new Date("2026-06-03T20:30:00Z"), new Date("2026-06-03T21:30:00Z"), UTC, isAllowed),
+      false,
+    );
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Programación de sincronizaciones (Pull) por vinculación tienda-integración
+ * Se guarda en syncConfig.schedule: varias expresiones cron, fechas bloqueadas y horario activo
+ * Las horas se evalúan en la zona horaria del tenant (o la indicada en schedule.timezone)
+ * Compartido entre backend (Scheduler) y frontend (configuración)
+ */
+export const DEFAULT_TIMEZONE = "America/Guayaquil";
+
+/**
+ * Tipo de Pull que encola una programación
+ * auto: incremental salvo que toque el Pull completo periódico (syncConfig.pull.delta)
+ */
+export type ScheduleMode = "full" | "delta" | "auto";
+
+export interface SyncSchedule {
+  id: string;
+  name: string;
+  cron: string; // "minuto hora día-del-mes mes día-de-la-semana" (ej. "0 2 * * *")
+  mode: ScheduleMode;
+  enabled: boolean;
+}
+
+export interface ScheduleConfig {
+  timezone?: string; // Sobrescribe la zona horaria del tenant
+  schedules: SyncSchedule[];
+  blackoutDates: string[]; // "YYYY-MM-DD": sin sincronizaciones automáticas ese día
+  activeHours?: {
+    start: string; // "HH:mm"
+    end: string; // "HH:mm"
+  };
+}
+
+export const TIMEZONE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "America/Guayaquil", label: "Ecuador continental (GMT-5)" },
+  { value: "Pacific/Galapagos", label: "Galápagos (GMT-6)" },
+  { value: "America/Bogota", label: "Colombia (GMT-5)" },
+  { value: "America/Lima", label: "Perú (GMT-5)" },
+  { value: "America/Mexico_City", label: "México (Ciudad de México)" },
+  { value: "America/Santiago", label: "Chile (Santiago)" },
+  { value: "America/New_York", label: "EE. UU. (Este)" },
+  { value: "Europe/Madrid", label: "España (Madrid)" },
+  { value: "UTC", label: "UTC" },
+];
+
+export const SCHEDULE_MODE_OPTIONS: Array<{ value: ScheduleMode; label: string }> = [
+  { value: "full", label: "Completo" },
+  { value: "delta", label: "Incremental" },
+  { value: "auto", label: "Automático" },
+];
+
+export const CRON_PRESETS: Array<{ value: string; label: string; mode: ScheduleMode }> = [
+  { value: "0 2 * * *", label: "Todos los días a las 02:00", mode: "full" },
+  { value: "*/15 8-18 * * 1-5", label: "Cada 15 minutos, 08:00-18:59, lunes a viernes", mode: "delta" },
+  { value: "0 * * * *", label: "Cada hora en punto", mode: "delta" },
+  { value: "*/30 * * * *", label: "Cada 30 minutos", mode: "delta" },
+  { value: "0 6 * * 1", label: "Lunes a las 06:00", mode: "full" },
+];
+
+/**
+ * Campos de una expresión cron ya expandidos
+ */
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = domingo
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_RANGES: Array<[number, number]> = [
+  [0, 59], // minuto
+  [0, 23], // hora
+  [1, 31], // día del mes
+  [1, 12], // mes
+  [0, 7], // día de la semana (0 y 7 = domingo)
+];
+
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Paso inválido en "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      [start, end] = rangePart.split("-").map(Number);
+    } else {
+      start = Number(rangePart);
+      // "5/10" = desde 5 hasta el máximo cada 10
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Valor fuera de rango en "${part}" (${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Interpreta una expresión cron de 5 campos (*, listas, rangos y pasos)
+ * @throws Error con el motivo si la expresión es inválida
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("La expresión debe tener 5 campos: minuto hora día mes día-de-la-semana");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseCronField(field, CRON_RANGES[i]),
+  );
+
+  // 7 también es domingo
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+    daysOfWeek.delete(7);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Como cron (Vixie): un campo que empieza con * (incluido */2) no restringe el día
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+/**
+ * Mensaje de error de una expresión cron, o null si es válida
+ */
+export function getCronError(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fecha y hora local de un instante en una zona horaria
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0 = domingo
+  date: string; // "YYYY-MM-DD"
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function getZonedParts(date: Date, timezone: string): ZonedDateParts {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+/**
+ * true si la hora local coincide con la expresión cron
+ * Igual que cron: si día del mes y día de la semana están restringidos basta con uno
+ */
+export function cronMatches(fields: CronFields, parts: ZonedDateParts): boolean {
+  if (!fields.minutes.has(parts.minute) || !fields.hours.has(parts.hour) || !fields.months.has(parts.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatch = fields.daysOfMonth.has(parts.day);
+  const dayOfWeekMatch = fields.daysOfWeek.has(parts.dayOfWeek);
+
+  if (fields.anyDayOfMonth || fields.anyDayOfWeek) {
+    return dayOfMonthMatch && dayOfWeekMatch;
+  }
+  return dayOfMonthMatch || dayOfWeekMatch;
+}
+
+/**
+ * true si la expresión cron tiene algún minuto en el intervalo (from, to]
+ * Permite que el Scheduler no pierda ejecuciones si un ciclo se retrasa
+ * @param isAllowed - Filtro de cada minuto que coincide (fechas bloqueadas, horario activo)
+ */
+export function cronMatchesBetween(
+  fields: CronFields,
+  from: Date,
+  to: Date,
+  timezone: string,
+  isAllowed: (parts: ZonedDateParts) => boolean = () => true,
+): boolean {
+  const minute = 60 * 1000;
+  const start = Math.floor(from.getTime() / minute) * minute + minute;
+
+  for (let time = start; time <= to.getTime(); time += minute) {
+    const parts = getZonedParts(new Date(time), timezone);
+    if (cronMatches(fields, parts) && isAllowed(parts)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Normaliza la programación guardada en syncConfig (descarta entradas incompletas)
+ */
+export function getScheduleConfig(syncConfig: any): ScheduleConfig {
+  const schedule = syncConfig?.schedule || {};
+
+  const schedules: SyncSchedule[] = Array.isArray(schedule.schedules)
+    ? schedule.schedules
+        .filter((s: any) => s && typeof s.cron === "string" && s.cron.trim() !== "")
+        .map((s: any, i: number) => ({
+          id: s.id ? s.id.toString() : `schedule-${i + 1}`,
+          name: s.name || "",
+          cron: s.cron.trim(),
+          // Las programaciones guardadas antes de elegir el tipo siguen en automático
+          mode: SCHEDULE_MODE_OPTIONS.some((o) => o.value === s.mode) ? s.mode : "auto",
+          enabled: s.enabled !== false,
+        }))
+    : [];
+
+  const blackoutDates: string[] = Array.isArray(schedule.blackoutDates)
+    ? schedule.blackoutDates.filter((d: any) => typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d))
+    : [];
+
+  return {
+    timezone: schedule.timezone && isValidTimeZone(schedule.timezone) ? schedule.timezone : undefined,
+    schedules,
+    blackoutDates,
+    activeHours: schedule.activeHours?.start && schedule.activeHours?.end ? schedule.activeHours : undefined,
+  };
+}
+
+/**
+ * true si la hora local está dentro del horario activo (sin horario configurado = siempre)
+ */
+export function isWithinActiveHours(config: ScheduleConfig, parts: ZonedDateParts): boolean {
+  if (!config.activeHours) {
+    return true;
+  }
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const current = parts.hour * 60 + parts.minute;
+  return current >= toMinutes(config.activeHours.start) && current <= toMinutes(config.activeHours.end);
+}
+
+/**
+ * true si se permiten sincronizaciones automáticas a esa hora local (no es fecha bloqueada y está en horario activo)
+ */
+export function isScheduleOpen(config: ScheduleConfig, parts: ZonedDateParts): boolean {
+  return !config.blackoutDates.includes(parts.date) && isWithinActiveHours(config, parts);
+}
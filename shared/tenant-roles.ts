@@ -0,0 +1,45 @@
+/**
+ * Roles de los miembros de un tenant (users.tenant_role)
+ * Independientes de users.role, que solo distingue al administrador de la plataforma
+ * Cada rol incluye los permisos de los roles anteriores:
+ * viewer < operator < manager < owner
+ * Compartido entre backend (middleware de roles, equipo) y frontend (configuración)
+ */
+export const TENANT_ROLES = ["viewer", "operator", "manager", "owner"] as const;
+
+export type TenantRole = (typeof TENANT_ROLES)[number];
+
+export const TENANT_ROLE_LABELS: Record<TenantRole, string> = {
+  owner: "Propietario",
+  manager: "Administrador",
+  operator: "Operador",
+  viewer: "Solo lectura",
+};
+
+export const TENANT_ROLE_DESCRIPTIONS: Record<TenantRole, string> = {
+  owner: "Acceso total, incluido el equipo y los datos de la empresa",
+  manager: "Configura tiendas, integraciones, credenciales y API keys; aprueba y revierte sincronizaciones",
+  operator: "Ejecuta sincronizaciones, reintenta movimientos y facturas, resuelve SKUs y clientes",
+  viewer: "Consulta inventario, logs y reportes sin modificar nada",
+};
+
+// Las invitaciones vencen: el enlace viaja por correo y puede reenviarse a otra persona
+export const TENANT_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isTenantRole(value: unknown): value is TenantRole {
+  return typeof value === "string" && (TENANT_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Rol efectivo de un usuario (un valor desconocido nunca da más permisos que viewer)
+ */
+export function getTenantRole(user: { tenantRole?: string | null } | null | undefined): TenantRole {
+  return isTenantRole(user?.tenantRole) ? user.tenantRole : "viewer";
+}
+
+/**
+ * true si el rol alcanza el mínimo requerido
+ */
+export function hasTenantRole(role: TenantRole, required: TenantRole): boolean {
+  return TENANT_ROLES.indexOf(role) >= TENANT_ROLES.indexOf(required);
+}
@@ -0,0 +1,31 @@
+/**
+ * Verificación en dos pasos (TOTP, RFC 6238) y política del tenant
+ * La política se guarda en tenants.settings.requireTwoFactor: con ella activa, los miembros
+ * sin 2FA solo pueden configurarla hasta activarla
+ * Compartido entre backend (auth, rutas) y frontend (configuración, login)
+ */
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+// Códigos de un solo uso para entrar si se pierde el dispositivo
+export const RECOVERY_CODES_COUNT = 10;
+
+// Tiempo para completar el segundo paso después de la contraseña
+export const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+export const TWO_FACTOR_ISSUER = "G4 Hub";
+
+/**
+ * true si el tenant exige 2FA a todos sus miembros (a partir de tenants.settings)
+ */
+export function isTwoFactorRequired(settings: unknown): boolean {
+  return (settings as { requireTwoFactor?: boolean } | null)?.requireTwoFactor === true;
+}
+
+/**
+ * Normaliza un código TOTP o de recuperación escrito por el usuario (espacios, guiones, mayúsculas)
+ */
+export function normalizeTwoFactorCode(code: unknown): string {
+  return typeof code === "string" ? code.replace(/[\s-]/g, "").toUpperCase() : "";
+}